@@ -1,7 +1,8 @@
-import { Component, createRef, Fragment } from 'react';
+import { Component, createRef, useEffect, useRef } from 'react';
 import { css } from '@patternfly/react-styles';
 import styles from '@patternfly/react-styles/css/components/CodeEditor/code-editor';
 import fileUploadStyles from '@patternfly/react-styles/css/components/FileUpload/file-upload';
+import flexUtils from '@patternfly/react-styles/css/utilities/Flex/flex';
 import { Button, ButtonVariant } from '@patternfly/react-core/dist/esm/components/Button';
 import {
   EmptyState,
@@ -10,19 +11,32 @@ import {
   EmptyStateFooter,
   EmptyStateVariant
 } from '@patternfly/react-core/dist/esm/components/EmptyState';
+import {
+  DescriptionList,
+  DescriptionListDescription,
+  DescriptionListGroup,
+  DescriptionListTerm
+} from '@patternfly/react-core/dist/esm/components/DescriptionList';
+import {
+  KeyboardShortcutInput,
+  KeyboardShortcutKeys,
+  KeyboardShortcutScopes,
+  KeyboardShortcutsProvider,
+  useKeyboardShortcutRegistry,
+  useKeyboardShortcutScope
+} from '@patternfly/react-core/dist/esm/components/KeyboardShortcuts';
+import { Label } from '@patternfly/react-core/dist/esm/components/Label';
 import { Popover, PopoverProps } from '@patternfly/react-core/dist/esm/components/Popover';
 import { TooltipPosition } from '@patternfly/react-core/dist/esm/components/Tooltip';
 import { getResizeObserver } from '@patternfly/react-core/dist/esm/helpers/resizeObserver';
 import Editor, { EditorProps, Monaco } from '@monaco-editor/react';
 import type { editor } from 'monaco-editor';
-import CopyIcon from '@patternfly/react-icons/dist/esm/icons/copy-icon';
-import UploadIcon from '@patternfly/react-icons/dist/esm/icons/upload-icon';
-import DownloadIcon from '@patternfly/react-icons/dist/esm/icons/download-icon';
 import CodeIcon from '@patternfly/react-icons/dist/esm/icons/code-icon';
 import HelpIcon from '@patternfly/react-icons/dist/esm/icons/help-icon';
-import Dropzone, { FileRejection } from 'react-dropzone';
-import { CodeEditorContext } from './CodeEditorUtils';
-import { CodeEditorControl } from './CodeEditorControl';
+import Dropzone from 'react-dropzone';
+import { onDropRejected, readFile } from './CodeEditorUtils';
+import { CodeEditorHeader } from './CodeEditorHeader';
+import { CodeEditorProblems } from './CodeEditorProblems';
 
 export type ChangeHandler = (value: string, event: editor.IModelContentChangedEvent) => void;
 export type EditorDidMount = (editor: editor.IStandaloneCodeEditor, monaco: Monaco) => void;
@@ -32,6 +46,30 @@ export interface Shortcut {
   keys: string[];
 }
 
+/** Keyboard shortcut of a code editor, registered in the editor scope of the keyboard shortcut registry. */
+export type CodeEditorShortcut = Omit<KeyboardShortcutInput, 'scope'>;
+
+export type CodeEditorDiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface CodeEditorDiagnostic {
+  /** Description of the problem. */
+  message: string;
+  /** Line of the start of the problem, starting at 1. */
+  line: number;
+  /** Column of the start of the problem, starting at 1. */
+  column: number;
+  /** Line of the end of the problem. Defaults to the start line. */
+  endLine?: number;
+  /** Column of the end of the problem. Defaults to the end of the word at the start of the problem. */
+  endColumn?: number;
+  /** Severity of the problem. Defaults to 'error'. */
+  severity?: CodeEditorDiagnosticSeverity;
+  /** Source of the problem, such as the name of a schema or linter. */
+  source?: string;
+}
+
+export type CodeEditorValidator = (code: string) => CodeEditorDiagnostic[] | Promise<CodeEditorDiagnostic[]>;
+
 export enum Language {
   abap = 'abap',
   aes = 'aes',
@@ -131,6 +169,8 @@ export interface CodeEditorProps extends Omit<React.HTMLProps<HTMLDivElement>, '
   downloadButtonAriaLabel?: string;
   /** Text to display in the tooltip on the download button. */
   downloadButtonToolTipText?: string;
+  /** Text of the error count badge in the header. */
+  errorCountText?: (errorCount: number) => string;
   /** Name of the file if user downloads code to local file. */
   downloadFileName?: string;
   /** Additional props to pass to the monaco editor. */
@@ -167,6 +207,8 @@ export interface CodeEditorProps extends Omit<React.HTMLProps<HTMLDivElement>, '
   isLineNumbersVisible?: boolean;
   /** Flag to add the minimap to the code editor. */
   isMinimapVisible?: boolean;
+  /** Flag to add a collapsible list of the problems returned by validate below the code editor. */
+  isProblemsListVisible?: boolean;
   /** Flag indicating the editor is read only. */
   isReadOnly?: boolean;
   /** Flag to add upload button to code editor actions. Also makes the code editor accept a
@@ -190,6 +232,17 @@ export interface CodeEditorProps extends Omit<React.HTMLProps<HTMLDivElement>, '
   options?: editor.IStandaloneEditorConstructionOptions;
   /** Refer to Monaco interface {monaco.editor.IEditorOverrideServices}. */
   overrideServices?: editor.IEditorOverrideServices;
+  /** Text displayed in the problems list when there are no problems. */
+  noProblemsText?: React.ReactNode;
+  /** Callback which fires with the problems returned by validate each time the code is validated. */
+  onValidate?: (diagnostics: CodeEditorDiagnostic[]) => void;
+  /** Text of the toggle of the problems list. */
+  problemsListToggleText?: (problemCount: number) => string;
+  /** Keyboard shortcuts of the editor, e.g. of monaco features or of commands run with an action. They are listed in
+   * the shortcut popover unless its body content is passed, and registered in the editor scope, which is active while
+   * the editor has focus, of the nearest keyboard shortcuts provider or of a provider of their own outside of one.
+   */
+  shortcuts?: CodeEditorShortcut[];
   /** Text to show in the button to open the shortcut popover. */
   shortcutsPopoverButtonText: string;
   /** Properties for the shortcut popover. */
@@ -222,6 +275,15 @@ export interface CodeEditorProps extends Omit<React.HTMLProps<HTMLDivElement>, '
   uploadButtonAriaLabel?: string;
   /** Text to display in the tooltip on the upload button. */
   uploadButtonToolTipText?: string;
+  /** Function which validates the code, returning the problems found either directly or as a promise. Problems are
+   * displayed as markers in the editor and counted in the header. When the validator throws or its promise is
+   * rejected, a single problem with the validationErrorText message is reported instead.
+   */
+  validate?: CodeEditorValidator;
+  /** The delay in milliseconds after the code changes before it is validated. */
+  validationDelay?: number;
+  /** Message of the problem reported when validate throws or its promise is rejected. */
+  validationErrorText?: (error: unknown) => string;
   /** Width of code editor. Defaults to 100%. */
   width?: string;
 }
@@ -233,12 +295,71 @@ interface CodeEditorState {
   filename: string;
   isLoading: boolean;
   showEmptyState: boolean;
-  copied: boolean;
+  diagnostics: CodeEditorDiagnostic[];
+  isProblemsListExpanded: boolean;
+  isEditorFocused: boolean;
+}
+
+const markerOwner = 'pf-code-editor';
+
+interface CodeEditorKeyboardShortcutsProps {
+  shortcuts: CodeEditorShortcut[];
+  isEditorFocused: boolean;
 }
 
+// Registers the shortcuts of the editor, which run their action while it has focus without being registered again each
+// time their actions change
+const CodeEditorKeyboardShortcutsRegistration = ({
+  shortcuts,
+  isEditorFocused
+}: CodeEditorKeyboardShortcutsProps): null => {
+  const registry = useKeyboardShortcutRegistry();
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+  const shortcutsKey = JSON.stringify(
+    shortcuts.map(({ action, ...shortcut }) => ({ ...shortcut, hasAction: !!action }))
+  );
+
+  useKeyboardShortcutScope(KeyboardShortcutScopes.editor, isEditorFocused);
+
+  useEffect(() => {
+    const unregisterShortcuts = shortcutsRef.current.map(({ action, ...shortcut }, index) =>
+      registry.register({
+        allowInInputs: true,
+        ...shortcut,
+        scope: KeyboardShortcutScopes.editor,
+        action: action && ((event) => shortcutsRef.current[index]?.action?.(event))
+      })
+    );
+    const stopListening = registry.listen();
+    return () => {
+      unregisterShortcuts.forEach((unregister) => unregister());
+      stopListening();
+    };
+  }, [registry, shortcutsKey]);
+
+  return null;
+};
+
+// Outside of a provider, the shortcuts of the editor are registered with a registry of its own
+const CodeEditorKeyboardShortcuts = (props: CodeEditorKeyboardShortcutsProps) => {
+  const registry = useKeyboardShortcutRegistry();
+
+  return registry ? (
+    <CodeEditorKeyboardShortcutsRegistration {...props} />
+  ) : (
+    <KeyboardShortcutsProvider>
+      <CodeEditorKeyboardShortcutsRegistration {...props} />
+    </KeyboardShortcutsProvider>
+  );
+};
+
 class CodeEditor extends Component<CodeEditorProps, CodeEditorState> {
   static displayName = 'CodeEditor';
   private editor: editor.IStandaloneCodeEditor | null = null;
+  private monaco: Monaco | null = null;
+  private validationTimer: ReturnType<typeof setTimeout> | null = null;
+  private validationCount = 0;
   private wrapperRef = createRef<HTMLDivElement>();
   private ref = createRef<HTMLDivElement>();
   private timer: number | null = null;
@@ -287,7 +408,13 @@ class CodeEditor extends Component<CodeEditorProps, CodeEditorState> {
     showEditor: true,
     options: {},
     overrideServices: {},
-    onCodeChange: () => {}
+    onCodeChange: () => {},
+    validationDelay: 300,
+    errorCountText: (errorCount: number) => (errorCount === 1 ? '1 error' : `${errorCount} errors`),
+    problemsListToggleText: (problemCount: number) => `Problems (${problemCount})`,
+    validationErrorText: (error: unknown) =>
+      `The code could not be validated${error instanceof Error ? `: ${error.message}` : ''}`,
+    noProblemsText: 'No problems have been detected.'
   };
 
   static getExtensionFromLanguage(language: Language) {
@@ -324,7 +451,9 @@ class CodeEditor extends Component<CodeEditorProps, CodeEditorState> {
       filename: '',
       isLoading: false,
       showEmptyState: true,
-      copied: false
+      diagnostics: [],
+      isProblemsListExpanded: false,
+      isEditorFocused: false
     };
   }
 
@@ -372,13 +501,92 @@ class CodeEditor extends Component<CodeEditorProps, CodeEditorState> {
     document.addEventListener('keydown', this.handleGlobalKeys);
     this.observer = getResizeObserver(this.ref.current, this.handleResize, true);
     this.handleResize();
+    this.validate();
+  }
+
+  componentDidUpdate(prevProps: CodeEditorProps, prevState: CodeEditorState) {
+    if (prevState.value !== this.state.value || prevProps.validate !== this.props.validate) {
+      clearTimeout(this.validationTimer);
+      this.validationTimer = setTimeout(this.validate, this.props.validationDelay);
+    }
   }
 
   componentWillUnmount() {
     document.removeEventListener('keydown', this.handleGlobalKeys);
     this.observer();
+    clearTimeout(this.validationTimer);
+    // Results of validations still in progress are ignored
+    this.validationCount++;
   }
 
+  validate = () => {
+    const { validate } = this.props;
+    const validationCount = ++this.validationCount;
+    if (!validate) {
+      this.setDiagnostics([]);
+      return;
+    }
+    Promise.resolve()
+      .then(() => validate(this.state.value))
+      .then((diagnostics) => {
+        // Only the result of the latest validation is used, in case an earlier asynchronous validation finishes later
+        if (validationCount === this.validationCount) {
+          this.setDiagnostics(diagnostics);
+        }
+      })
+      .catch((error) => {
+        // A validator that fails is reported as a single problem, so the failure is also passed to onValidate
+        if (validationCount === this.validationCount) {
+          this.setDiagnostics([{ message: this.props.validationErrorText(error), line: 1, column: 1 }]);
+        }
+      });
+  };
+
+  setDiagnostics = (diagnostics: CodeEditorDiagnostic[]) => {
+    if (diagnostics.length > 0 || this.state.diagnostics.length > 0) {
+      this.setState({ diagnostics }, this.setMarkers);
+    }
+    if (this.props.validate) {
+      this.props.onValidate?.(diagnostics);
+    }
+  };
+
+  setMarkers = () => {
+    const model = this.editor?.getModel();
+    if (!this.monaco || !model) {
+      return;
+    }
+    const severities = {
+      error: this.monaco.MarkerSeverity.Error,
+      warning: this.monaco.MarkerSeverity.Warning,
+      info: this.monaco.MarkerSeverity.Info
+    };
+    this.monaco.editor.setModelMarkers(
+      model,
+      markerOwner,
+      this.state.diagnostics.map(({ message, line, column, endLine, endColumn, severity = 'error', source }) => {
+        const word = model.getWordAtPosition({ lineNumber: line, column });
+        return {
+          message,
+          source,
+          severity: severities[severity],
+          startLineNumber: line,
+          startColumn: column,
+          endLineNumber: endLine ?? line,
+          endColumn: endColumn ?? (word ? word.endColumn : column + 1)
+        };
+      })
+    );
+  };
+
+  goToDiagnostic = ({ line, column }: CodeEditorDiagnostic) => {
+    if (this.editor) {
+      this.editor.setPosition({ lineNumber: line, column });
+      this.editor.revealPositionInCenter({ lineNumber: line, column });
+      this.editor.focus();
+    }
+  };
+
   handleGlobalKeys = (event: KeyboardEvent) => {
     if (this.wrapperRef.current === document.activeElement && (event.key === 'ArrowDown' || event.key === ' ')) {
       this.editor?.focus();
@@ -394,6 +602,8 @@ class CodeEditor extends Component<CodeEditorProps, CodeEditorState> {
     );
     this.props.onEditorDidMount(editor, monaco);
     this.editor = editor;
+    this.monaco = monaco;
+    this.setMarkers();
     if (this.props.height === 'sizeToFit') {
       this.setHeightToFitContent();
     }
@@ -410,63 +620,30 @@ class CodeEditor extends Component<CodeEditorProps, CodeEditorState> {
   handleFileReadStarted = () => this.setState({ isLoading: true });
   handleFileReadFinished = () => this.setState({ isLoading: false });
 
-  readFile(fileHandle: Blob) {
-    return new Promise<string>((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = () => reject(reader.error);
-      reader.readAsText(fileHandle);
-    });
-  }
-
   onDropAccepted = (acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
       const fileHandle = acceptedFiles[0];
       this.handleFileChange('', fileHandle.name); // Show the filename while reading
       this.handleFileReadStarted();
-      this.readFile(fileHandle)
-        .then((data) => {
-          this.handleFileReadFinished();
-          this.toggleEmptyState();
-          this.handleFileChange(data, fileHandle.name);
-        })
-        .catch((error: DOMException) => {
-          // eslint-disable-next-line no-console
-          console.error('error', error);
-          this.handleFileReadFinished();
+      readFile(fileHandle).then((data) => {
+        this.handleFileReadFinished();
+        if (data === null) {
           this.handleFileChange('', ''); // Clear the filename field on a failure
-        });
-    }
-  };
-
-  onDropRejected = (rejectedFiles: FileRejection[]) => {
-    if (rejectedFiles.length > 0) {
-      // eslint-disable-next-line no-console
-      console.error('There was an error accepting that dropped file'); // TODO
+          return;
+        }
+        this.toggleEmptyState();
+        this.handleFileChange(data, fileHandle.name);
+      });
     }
   };
 
-  copyCode = () => {
-    navigator.clipboard.writeText(this.state.value);
-    this.setState({ copied: true });
-  };
-
-  download = () => {
-    const { value } = this.state;
-    const element = document.createElement('a');
-    const file = new Blob([value], { type: 'text' });
-    element.href = URL.createObjectURL(file);
-    element.download = `${this.props.downloadFileName}.${CodeEditor.getExtensionFromLanguage(this.props.language)}`;
-    document.body.appendChild(element); // Required for this to work in FireFox
-    element.click();
-  };
-
   toggleEmptyState = () => {
     this.setState({ showEmptyState: false });
   };
 
   render() {
-    const { height, value, isLoading, showEmptyState, copied } = this.state;
+    const { height, value, isLoading, showEmptyState, diagnostics, isProblemsListExpanded, isEditorFocused } =
+      this.state;
     const {
       isDarkTheme,
       width,
@@ -484,6 +661,7 @@ class CodeEditor extends Component<CodeEditorProps, CodeEditorState> {
       downloadButtonToolTipText,
       toolTipDelay,
       toolTipCopyExitDelay,
+      downloadFileName,
       toolTipMaxWidth,
       toolTipPosition,
       isLineNumbersVisible,
@@ -498,17 +676,37 @@ class CodeEditor extends Component<CodeEditorProps, CodeEditorState> {
       isMinimapVisible,
       isHeaderPlain,
       headerMainContent,
+      shortcuts,
       shortcutsPopoverButtonText,
       shortcutsPopoverProps: shortcutsPopoverPropsProp,
       showEditor,
       options: optionsProp,
       overrideServices,
       loading,
-      editorProps
+      editorProps,
+      validate,
+      errorCountText,
+      isProblemsListVisible,
+      problemsListToggleText,
+      noProblemsText
     } = this.props;
     const shortcutsPopoverProps: PopoverProps = {
       ...CodeEditor.defaultProps.shortcutsPopoverProps,
-      ...shortcutsPopoverPropsProp
+      ...shortcutsPopoverPropsProp,
+      bodyContent:
+        shortcutsPopoverPropsProp?.bodyContent ||
+        (shortcuts?.length > 0 && (
+          <DescriptionList isHorizontal isCompact>
+            {shortcuts.map((shortcut, index) => (
+              <DescriptionListGroup key={shortcut.id ?? index}>
+                <DescriptionListTerm>
+                  <KeyboardShortcutKeys keys={shortcut.keys} />
+                </DescriptionListTerm>
+                <DescriptionListDescription>{shortcut.description}</DescriptionListDescription>
+              </DescriptionListGroup>
+            ))}
+          </DescriptionList>
+        ))
     };
     const options: editor.IStandaloneEditorConstructionOptions = {
       scrollBeyondLastLine: height !== 'sizeToFit',
@@ -522,9 +720,10 @@ class CodeEditor extends Component<CodeEditorProps, CodeEditorState> {
       ...optionsProp
     };
     const isFullHeight = this.props.height === '100%' ? true : this.props.isFullHeight;
+    const errorCount = diagnostics.filter(({ severity = 'error' }) => severity === 'error').length;
 
     return (
-      <Dropzone multiple={false} onDropAccepted={this.onDropAccepted} onDropRejected={this.onDropRejected}>
+      <Dropzone multiple={false} onDropAccepted={this.onDropAccepted} onDropRejected={onDropRejected}>
         {({ getRootProps, getInputProps, isDragActive, open }) => {
           const emptyState =
             providedEmptyState ||
@@ -560,59 +759,36 @@ class CodeEditor extends Component<CodeEditorProps, CodeEditorState> {
               </EmptyState>
             ));
 
-          const tooltipProps = {
-            position: toolTipPosition,
-            exitDelay: toolTipDelay,
-            entryDelay: toolTipDelay,
-            maxWidth: toolTipMaxWidth,
-            trigger: 'mouseenter focus'
-          };
-
-          const hasEditorHeaderContent =
-            ((isCopyEnabled || isDownloadEnabled) && (!showEmptyState || !!value)) ||
-            isUploadEnabled ||
-            customControls ||
-            headerMainContent ||
-            !!shortcutsPopoverProps.bodyContent;
-
-          const editorHeaderContent = (
-            <Fragment>
-              <div className={css(styles.codeEditorControls)}>
-                <CodeEditorContext.Provider value={{ code: value }}>
-                  {isCopyEnabled && (!showEmptyState || !!value) && (
-                    <CodeEditorControl
-                      icon={<CopyIcon />}
-                      aria-label={copyButtonAriaLabel}
-                      tooltipProps={{
-                        ...tooltipProps,
-                        'aria-live': 'polite',
-                        content: <div>{copied ? copyButtonSuccessTooltipText : copyButtonToolTipText}</div>,
-                        exitDelay: copied ? toolTipCopyExitDelay : toolTipDelay,
-                        onTooltipHidden: () => this.setState({ copied: false })
-                      }}
-                      onClick={this.copyCode}
-                    />
-                  )}
-                  {isUploadEnabled && (
-                    <CodeEditorControl
-                      icon={<UploadIcon />}
-                      aria-label={uploadButtonAriaLabel}
-                      tooltipProps={{ content: <div>{uploadButtonToolTipText}</div>, ...tooltipProps }}
-                      onClick={open}
-                    />
-                  )}
-                  {isDownloadEnabled && (!showEmptyState || !!value) && (
-                    <CodeEditorControl
-                      icon={<DownloadIcon />}
-                      aria-label={downloadButtonAriaLabel}
-                      tooltipProps={{ content: <div>{downloadButtonToolTipText}</div>, ...tooltipProps }}
-                      onClick={this.download}
-                    />
-                  )}
-                  {customControls && customControls}
-                </CodeEditorContext.Provider>
-              </div>
-              {headerMainContent && <div className={css(styles.codeEditorHeaderMain)}>{headerMainContent}</div>}
+          const editorHeader = (
+            <CodeEditorHeader
+              code={value}
+              copyButtonAriaLabel={copyButtonAriaLabel}
+              copyButtonSuccessTooltipText={copyButtonSuccessTooltipText}
+              copyButtonToolTipText={copyButtonToolTipText}
+              customControls={customControls}
+              downloadButtonAriaLabel={downloadButtonAriaLabel}
+              downloadButtonToolTipText={downloadButtonToolTipText}
+              downloadFileName={`${downloadFileName}.${CodeEditor.getExtensionFromLanguage(language)}`}
+              headerMainContent={headerMainContent}
+              isCopyEnabled={isCopyEnabled && (!showEmptyState || !!value)}
+              isDownloadEnabled={isDownloadEnabled && (!showEmptyState || !!value)}
+              isHeaderPlain={isHeaderPlain}
+              isLanguageLabelVisible={isLanguageLabelVisible}
+              isUploadEnabled={isUploadEnabled}
+              language={language}
+              onUpload={open}
+              toolTipCopyExitDelay={toolTipCopyExitDelay}
+              toolTipDelay={toolTipDelay}
+              toolTipMaxWidth={toolTipMaxWidth}
+              toolTipPosition={toolTipPosition}
+              uploadButtonAriaLabel={uploadButtonAriaLabel}
+              uploadButtonToolTipText={uploadButtonToolTipText}
+            >
+              {errorCount > 0 && (
+                <Label status="danger" isCompact className={css(flexUtils.alignSelfCenter)}>
+                  {errorCountText(errorCount)}
+                </Label>
+              )}
               {!!shortcutsPopoverProps.bodyContent && (
                 <div className={`${styles.codeEditor}__keyboard-shortcuts`}>
                   <Popover {...shortcutsPopoverProps}>
@@ -622,27 +798,20 @@ class CodeEditor extends Component<CodeEditorProps, CodeEditorState> {
                   </Popover>
                 </div>
               )}
-            </Fragment>
-          );
-
-          const editorHeader = (
-            <div className={css(styles.codeEditorHeader, isHeaderPlain && styles.modifiers.plain)}>
-              {hasEditorHeaderContent && (
-                <div className={css(styles.codeEditorHeaderContent)}>{editorHeaderContent}</div>
-              )}
-              {isLanguageLabelVisible && (
-                <div className={css(styles.codeEditorTab)}>
-                  <span className={css(styles.codeEditorTabIcon)}>
-                    <CodeIcon />
-                  </span>
-                  <span className={css(styles.codeEditorTabText)}>{language.toUpperCase()}</span>
-                </div>
-              )}
-            </div>
+            </CodeEditorHeader>
           );
 
           const editor = (
-            <div className={css(styles.codeEditorCode)} ref={this.wrapperRef} tabIndex={0} dir="ltr">
+            <div
+              className={css(styles.codeEditorCode)}
+              ref={this.wrapperRef}
+              tabIndex={0}
+              dir="ltr"
+              onFocus={() => this.setState({ isEditorFocused: true })}
+              onBlur={(event) =>
+                !event.currentTarget.contains(event.relatedTarget as Node) && this.setState({ isEditorFocused: false })
+              }
+            >
               <Editor
                 height={height === '100%' ? undefined : height}
                 width={width}
@@ -659,6 +828,17 @@ class CodeEditor extends Component<CodeEditorProps, CodeEditorState> {
             </div>
           );
 
+          const problemsList = validate && isProblemsListVisible && (
+            <CodeEditorProblems
+              diagnostics={diagnostics}
+              isExpanded={isProblemsListExpanded}
+              onToggle={(isExpanded) => this.setState({ isProblemsListExpanded: isExpanded })}
+              onProblemClick={this.goToDiagnostic}
+              toggleText={problemsListToggleText(diagnostics.length)}
+              noProblemsText={noProblemsText}
+            />
+          );
+
           const hiddenFileInput = <input {...getInputProps()} /* hidden, necessary for react-dropzone */ hidden />;
 
           return (
@@ -671,6 +851,9 @@ class CodeEditor extends Component<CodeEditorProps, CodeEditorState> {
               )}
               ref={this.ref}
             >
+              {shortcuts?.length > 0 && (
+                <CodeEditorKeyboardShortcuts shortcuts={shortcuts} isEditorFocused={isEditorFocused} />
+              )}
               {(isUploadEnabled || providedEmptyState) && !value ? (
                 <div
                   {...getRootProps({
@@ -702,6 +885,7 @@ class CodeEditor extends Component<CodeEditorProps, CodeEditorState> {
                       {editor}
                     </div>
                   )}
+                  {showEditor && problemsList}
                 </>
               )}
             </div>
@@ -0,0 +1,373 @@
+import { Fragment, useEffect, useRef, useState } from 'react';
+import { css } from '@patternfly/react-styles';
+import styles from '@patternfly/react-styles/css/components/CodeEditor/code-editor';
+import fileUploadStyles from '@patternfly/react-styles/css/components/FileUpload/file-upload';
+import { TooltipPosition } from '@patternfly/react-core/dist/esm/components/Tooltip';
+import { getResizeObserver } from '@patternfly/react-core/dist/esm/helpers/resizeObserver';
+import { DiffEditor, DiffEditorProps, Monaco } from '@monaco-editor/react';
+import type { editor, IDisposable } from 'monaco-editor';
+import AngleUpIcon from '@patternfly/react-icons/dist/esm/icons/angle-up-icon';
+import AngleDownIcon from '@patternfly/react-icons/dist/esm/icons/angle-down-icon';
+import Dropzone from 'react-dropzone';
+import { onDropRejected, readFile } from './CodeEditorUtils';
+import { CodeEditorControl } from './CodeEditorControl';
+import { CodeEditorHeader } from './CodeEditorHeader';
+import { ChangeHandler, CodeEditor, Language } from './CodeEditor';
+
+export type DiffEditorDidMount = (editor: editor.IStandaloneDiffEditor, monaco: Monaco) => void;
+
+/** A variant of the code editor which compares an original and a modified version of code. */
+
+export interface CodeEditorDiffProps extends Omit<React.HTMLProps<HTMLDivElement>, 'onChange'> {
+  /** Additional classes added to the code editor diff. */
+  className?: string;
+  /** Original code, displayed read only. */
+  originalCode?: string;
+  /** Modified code, which is editable unless isReadOnly is set. */
+  modifiedCode?: string;
+  /** Accessible label for the copy button. */
+  copyButtonAriaLabel?: string;
+  /** Text to display in the tooltip on the copy button after code is copied to clipboard. */
+  copyButtonSuccessTooltipText?: string;
+  /** Text to display in the tooltip on the copy button before code is copied. */
+  copyButtonToolTipText?: string;
+  /** A single node or array of nodes - ideally code editor controls - to display above the diff editor. The
+   * controls receive the modified code.
+   */
+  customControls?: React.ReactNode | React.ReactNode[];
+  /** Additional props to pass to the monaco diff editor. */
+  diffEditorProps?: DiffEditorProps;
+  /** Accessible label for the download button. */
+  downloadButtonAriaLabel?: string;
+  /** Text to display in the tooltip on the download button. */
+  downloadButtonToolTipText?: string;
+  /** Name of the file if user downloads the modified code to local file. */
+  downloadFileName?: string;
+  /** Editor header main content title. */
+  headerMainContent?: string;
+  /** Height of the diff editor. */
+  height?: string;
+  /** Flag to add copy button for the modified code to the diff editor actions. */
+  isCopyEnabled?: boolean;
+  /** Flag indicating the editor is styled using monaco's dark theme. */
+  isDarkTheme?: boolean;
+  /** Flag to add download button for the modified code to the diff editor actions. */
+  isDownloadEnabled?: boolean;
+  /** Flag that enables component to consume the available height of its container. If `height` prop is set to 100%, this will also become enabled. */
+  isFullHeight?: boolean;
+  /** Flag indicating the editor has a plain header. */
+  isHeaderPlain?: boolean;
+  /** Flag indicating the changes are displayed inline, rather than with the original and modified code side by side. */
+  isInline?: boolean;
+  /** Flag to include a label indicating the currently configured editor language. */
+  isLanguageLabelVisible?: boolean;
+  /** Flag indicating the editor is displaying line numbers. */
+  isLineNumbersVisible?: boolean;
+  /** Flag to add the minimap to the diff editor. */
+  isMinimapVisible?: boolean;
+  /** Flag to add buttons which navigate between changes to the diff editor actions. */
+  isNavigationEnabled?: boolean;
+  /** Flag indicating the modified code is read only as well. */
+  isReadOnly?: boolean;
+  /** Flag to add upload button to the diff editor actions, which replaces the modified code with the uploaded file.
+   * Also makes the diff editor accept a file using drag and drop.
+   */
+  isUploadEnabled?: boolean;
+  /** Language displayed in the editor. */
+  language?: Language;
+  /** The loading screen before the editor will be loaded. */
+  loading?: React.ReactNode;
+  /** Accessible label for the button which navigates to the next change. */
+  nextChangeButtonAriaLabel?: string;
+  /** Text to display in the tooltip on the button which navigates to the next change. */
+  nextChangeButtonToolTipText?: string;
+  /** Function which fires each time the modified code is manually changed. Does not fire when a file is uploaded. */
+  onChange?: ChangeHandler;
+  /** Function which fires each time the modified code changes. */
+  onCodeChange?: (value: string) => void;
+  /** Callback which fires after the diff editor is mounted containing a reference to the monaco diff editor and the
+   * monaco instance.
+   */
+  onEditorDidMount?: DiffEditorDidMount;
+  /** Refer to Monaco interface {monaco.editor.IDiffEditorConstructionOptions}. */
+  options?: editor.IDiffEditorConstructionOptions;
+  /** Accessible label for the button which navigates to the previous change. */
+  previousChangeButtonAriaLabel?: string;
+  /** Text to display in the tooltip on the button which navigates to the previous change. */
+  previousChangeButtonToolTipText?: string;
+  /** The delay before tooltip fades after code copied. */
+  toolTipCopyExitDelay?: number;
+  /** The entry and exit delay for all tooltips. */
+  toolTipDelay?: number;
+  /** The max width of the tooltips on all button. */
+  toolTipMaxWidth?: string;
+  /** The position of tooltips on all buttons. */
+  toolTipPosition?:
+    | TooltipPosition
+    | 'auto'
+    | 'top'
+    | 'bottom'
+    | 'left'
+    | 'right'
+    | 'top-start'
+    | 'top-end'
+    | 'bottom-start'
+    | 'bottom-end'
+    | 'left-start'
+    | 'left-end'
+    | 'right-start'
+    | 'right-end';
+  /** Accessible label for the upload button. */
+  uploadButtonAriaLabel?: string;
+  /** Text to display in the tooltip on the upload button. */
+  uploadButtonToolTipText?: string;
+  /** Width of the diff editor. Defaults to 100%. */
+  width?: string;
+}
+
+export const CodeEditorDiff: React.FunctionComponent<CodeEditorDiffProps> = ({
+  className,
+  originalCode = '',
+  modifiedCode = '',
+  copyButtonAriaLabel = 'Copy modified code to clipboard',
+  copyButtonSuccessTooltipText = 'Content added to clipboard',
+  copyButtonToolTipText = 'Copy to clipboard',
+  customControls = null,
+  diffEditorProps,
+  downloadButtonAriaLabel = 'Download modified code',
+  downloadButtonToolTipText = 'Download',
+  downloadFileName = Date.now().toString(),
+  headerMainContent = '',
+  height,
+  isCopyEnabled = false,
+  isDarkTheme = false,
+  isDownloadEnabled = false,
+  isFullHeight: isFullHeightProp,
+  isHeaderPlain = false,
+  isInline = false,
+  isLanguageLabelVisible = false,
+  isLineNumbersVisible = true,
+  isMinimapVisible = false,
+  isNavigationEnabled = true,
+  isReadOnly = false,
+  isUploadEnabled = false,
+  language = Language.plaintext,
+  loading = '',
+  nextChangeButtonAriaLabel = 'Next change',
+  nextChangeButtonToolTipText = 'Next change',
+  onChange,
+  onCodeChange,
+  onEditorDidMount,
+  options: optionsProp,
+  previousChangeButtonAriaLabel = 'Previous change',
+  previousChangeButtonToolTipText = 'Previous change',
+  toolTipCopyExitDelay = 1600,
+  toolTipDelay = 300,
+  toolTipMaxWidth = '100px',
+  toolTipPosition = 'top',
+  uploadButtonAriaLabel = 'Upload modified code',
+  uploadButtonToolTipText = 'Upload',
+  width = '',
+  ...props
+}: CodeEditorDiffProps) => {
+  const [value, setValue] = useState(modifiedCode);
+  const valueRef = useRef(modifiedCode);
+  valueRef.current = value;
+  const [prevModifiedCode, setPrevModifiedCode] = useState(modifiedCode);
+  const [changeCount, setChangeCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const diffEditorRef = useRef<editor.IStandaloneDiffEditor>(null);
+  const subscriptionsRef = useRef<IDisposable[]>([]);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const ref = useRef<HTMLDivElement>(null);
+  // Callbacks registered with monaco on mount read the latest props through this ref
+  const callbacksRef = useRef({ onChange, onCodeChange });
+  callbacksRef.current = { onChange, onCodeChange };
+
+  // The modified code is reset when the modifiedCode prop changes, otherwise edits are kept in state
+  if (modifiedCode !== prevModifiedCode) {
+    setPrevModifiedCode(modifiedCode);
+    setValue(modifiedCode);
+  }
+
+  useEffect(() => {
+    const handleResize = () => {
+      if (diffEditorRef.current) {
+        diffEditorRef.current.layout({ width: 0, height: 0 }); // ensures the editor won't take up more space than it needs
+        diffEditorRef.current.layout();
+      }
+    };
+    const handleGlobalKeys = (event: KeyboardEvent) => {
+      if (wrapperRef.current === document.activeElement && (event.key === 'ArrowDown' || event.key === ' ')) {
+        diffEditorRef.current?.getModifiedEditor().focus();
+        event.preventDefault();
+      }
+    };
+    document.addEventListener('keydown', handleGlobalKeys);
+    const unobserve = getResizeObserver(ref.current, handleResize, true);
+    return () => {
+      document.removeEventListener('keydown', handleGlobalKeys);
+      unobserve();
+      subscriptionsRef.current.forEach((subscription) => subscription.dispose());
+      subscriptionsRef.current = [];
+    };
+  }, []);
+
+  const updateValue = (newValue: string) => {
+    setValue(newValue);
+    callbacksRef.current.onCodeChange?.(newValue);
+  };
+
+  const editorDidMount: DiffEditorDidMount = (diffEditor, monaco) => {
+    const modifiedEditor = diffEditor.getModifiedEditor();
+    // eslint-disable-next-line no-bitwise
+    modifiedEditor.addCommand(monaco.KeyMod.Shift | monaco.KeyCode.Tab, () => wrapperRef.current.focus());
+    Array.from(document.getElementsByClassName('monaco-editor')).forEach((editorElement) =>
+      editorElement.removeAttribute('role')
+    );
+    subscriptionsRef.current = [
+      modifiedEditor.onDidChangeModelContent((event) => {
+        const newValue = modifiedEditor.getValue();
+        // Changes made by syncing the model with the modified code, such as after an upload, are not manual changes
+        if (newValue === valueRef.current) {
+          return;
+        }
+        valueRef.current = newValue;
+        callbacksRef.current.onChange?.(newValue, event);
+        updateValue(newValue);
+      }),
+      diffEditor.onDidUpdateDiff(() => setChangeCount(diffEditor.getLineChanges()?.length ?? 0))
+    ];
+    diffEditorRef.current = diffEditor;
+    onEditorDidMount?.(diffEditor, monaco);
+  };
+
+  const onDropAccepted = (acceptedFiles: File[]) => {
+    if (acceptedFiles.length > 0) {
+      setIsLoading(true);
+      readFile(acceptedFiles[0]).then((data) => {
+        setIsLoading(false);
+        data !== null && updateValue(data);
+      });
+    }
+  };
+
+  const goToChange = (target: 'next' | 'previous') => {
+    diffEditorRef.current?.goToDiff(target);
+    diffEditorRef.current?.getModifiedEditor().focus();
+  };
+
+  const options: editor.IDiffEditorConstructionOptions = {
+    scrollBeyondLastLine: true,
+    readOnly: isReadOnly,
+    originalEditable: false,
+    renderSideBySide: !isInline,
+    cursorStyle: 'line',
+    lineNumbers: isLineNumbersVisible ? 'on' : 'off',
+    minimap: {
+      enabled: isMinimapVisible
+    },
+    ...optionsProp
+  };
+  const isFullHeight = height === '100%' ? true : isFullHeightProp;
+
+  const tooltipProps = {
+    position: toolTipPosition,
+    exitDelay: toolTipDelay,
+    entryDelay: toolTipDelay,
+    maxWidth: toolTipMaxWidth,
+    trigger: 'mouseenter focus'
+  };
+
+  return (
+    <Dropzone
+      multiple={false}
+      onDropAccepted={onDropAccepted}
+      onDropRejected={onDropRejected}
+      noClick
+      noKeyboard
+      disabled={!isUploadEnabled || isReadOnly}
+    >
+      {({ getRootProps, getInputProps, isDragActive, open }) => (
+        <div
+          className={css(
+            styles.codeEditor,
+            isReadOnly && styles.modifiers.readOnly,
+            isFullHeight && styles.modifiers.fullHeight,
+            className
+          )}
+          ref={ref}
+          {...props}
+        >
+          <div
+            {...getRootProps()}
+            className={css(styles.codeEditorContainer, isLoading && fileUploadStyles.modifiers.loading)}
+          >
+            <CodeEditorHeader
+              code={value}
+              copyButtonAriaLabel={copyButtonAriaLabel}
+              copyButtonSuccessTooltipText={copyButtonSuccessTooltipText}
+              copyButtonToolTipText={copyButtonToolTipText}
+              customControls={customControls}
+              downloadButtonAriaLabel={downloadButtonAriaLabel}
+              downloadButtonToolTipText={downloadButtonToolTipText}
+              downloadFileName={`${downloadFileName}.${CodeEditor.getExtensionFromLanguage(language)}`}
+              headerMainContent={headerMainContent}
+              isCopyEnabled={isCopyEnabled && !!value}
+              isDownloadEnabled={isDownloadEnabled && !!value}
+              isHeaderPlain={isHeaderPlain}
+              isLanguageLabelVisible={isLanguageLabelVisible}
+              isUploadEnabled={isUploadEnabled && !isReadOnly}
+              language={language}
+              leadingControls={
+                isNavigationEnabled && (
+                  <Fragment>
+                    <CodeEditorControl
+                      icon={<AngleUpIcon />}
+                      aria-label={previousChangeButtonAriaLabel}
+                      tooltipProps={{ content: <div>{previousChangeButtonToolTipText}</div>, ...tooltipProps }}
+                      isDisabled={changeCount === 0}
+                      onClick={() => goToChange('previous')}
+                    />
+                    <CodeEditorControl
+                      icon={<AngleDownIcon />}
+                      aria-label={nextChangeButtonAriaLabel}
+                      tooltipProps={{ content: <div>{nextChangeButtonToolTipText}</div>, ...tooltipProps }}
+                      isDisabled={changeCount === 0}
+                      onClick={() => goToChange('next')}
+                    />
+                  </Fragment>
+                )
+              }
+              onUpload={open}
+              toolTipCopyExitDelay={toolTipCopyExitDelay}
+              toolTipDelay={toolTipDelay}
+              toolTipMaxWidth={toolTipMaxWidth}
+              toolTipPosition={toolTipPosition}
+              uploadButtonAriaLabel={uploadButtonAriaLabel}
+              uploadButtonToolTipText={uploadButtonToolTipText}
+            />
+            <div className={css(styles.codeEditorMain, isDragActive && styles.modifiers.dragHover)}>
+              <input {...getInputProps()} /* hidden, necessary for react-dropzone */ hidden />
+              <div className={css(styles.codeEditorCode)} ref={wrapperRef} tabIndex={0} dir="ltr">
+                <DiffEditor
+                  height={height === '100%' ? undefined : height}
+                  width={width}
+                  language={language}
+                  original={originalCode}
+                  modified={value}
+                  options={options}
+                  onMount={editorDidMount}
+                  theme={isDarkTheme ? 'vs-dark' : 'vs-light'}
+                  loading={loading}
+                  {...diffEditorProps}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </Dropzone>
+  );
+};
+CodeEditorDiff.displayName = 'CodeEditorDiff';
@@ -0,0 +1,153 @@
+import { Children, useState } from 'react';
+import { css } from '@patternfly/react-styles';
+import styles from '@patternfly/react-styles/css/components/CodeEditor/code-editor';
+import CopyIcon from '@patternfly/react-icons/dist/esm/icons/copy-icon';
+import UploadIcon from '@patternfly/react-icons/dist/esm/icons/upload-icon';
+import DownloadIcon from '@patternfly/react-icons/dist/esm/icons/download-icon';
+import CodeIcon from '@patternfly/react-icons/dist/esm/icons/code-icon';
+import { CodeEditorContext, downloadCode } from './CodeEditorUtils';
+import { CodeEditorControl } from './CodeEditorControl';
+import type { CodeEditorProps } from './CodeEditor';
+
+export interface CodeEditorHeaderProps
+  extends Pick<
+    CodeEditorProps,
+    | 'copyButtonAriaLabel'
+    | 'copyButtonSuccessTooltipText'
+    | 'copyButtonToolTipText'
+    | 'customControls'
+    | 'downloadButtonAriaLabel'
+    | 'downloadButtonToolTipText'
+    | 'headerMainContent'
+    | 'isHeaderPlain'
+    | 'isLanguageLabelVisible'
+    | 'language'
+    | 'toolTipCopyExitDelay'
+    | 'toolTipDelay'
+    | 'toolTipMaxWidth'
+    | 'toolTipPosition'
+    | 'uploadButtonAriaLabel'
+    | 'uploadButtonToolTipText'
+  > {
+  /** Code which is copied, downloaded and passed to the controls */
+  code: string;
+  /** Flag to show the copy button */
+  isCopyEnabled: boolean;
+  /** Flag to show the download button */
+  isDownloadEnabled: boolean;
+  /** Flag to show the upload button */
+  isUploadEnabled: boolean;
+  /** Name of the downloaded file, including its extension */
+  downloadFileName: string;
+  /** Callback when the upload button is clicked */
+  onUpload: () => void;
+  /** Controls displayed before the copy, upload and download buttons */
+  leadingControls?: React.ReactNode;
+  /** Content displayed after the main content of the header */
+  children?: React.ReactNode;
+}
+
+export const CodeEditorHeader: React.FunctionComponent<CodeEditorHeaderProps> = ({
+  code,
+  copyButtonAriaLabel,
+  copyButtonSuccessTooltipText,
+  copyButtonToolTipText,
+  customControls,
+  downloadButtonAriaLabel,
+  downloadButtonToolTipText,
+  downloadFileName,
+  headerMainContent,
+  isCopyEnabled,
+  isDownloadEnabled,
+  isHeaderPlain,
+  isLanguageLabelVisible,
+  isUploadEnabled,
+  language,
+  leadingControls,
+  onUpload,
+  toolTipCopyExitDelay,
+  toolTipDelay,
+  toolTipMaxWidth,
+  toolTipPosition,
+  uploadButtonAriaLabel,
+  uploadButtonToolTipText,
+  children
+}: CodeEditorHeaderProps) => {
+  const [copied, setCopied] = useState(false);
+
+  const tooltipProps = {
+    position: toolTipPosition,
+    exitDelay: toolTipDelay,
+    entryDelay: toolTipDelay,
+    maxWidth: toolTipMaxWidth,
+    trigger: 'mouseenter focus'
+  };
+
+  const hasContent =
+    isCopyEnabled ||
+    isUploadEnabled ||
+    isDownloadEnabled ||
+    !!leadingControls ||
+    !!customControls ||
+    !!headerMainContent ||
+    Children.toArray(children).length > 0;
+
+  return (
+    <div className={css(styles.codeEditorHeader, isHeaderPlain && styles.modifiers.plain)}>
+      {hasContent && (
+        <div className={css(styles.codeEditorHeaderContent)}>
+          <div className={css(styles.codeEditorControls)}>
+            <CodeEditorContext.Provider value={{ code }}>
+              {leadingControls}
+              {isCopyEnabled && (
+                <CodeEditorControl
+                  icon={<CopyIcon />}
+                  aria-label={copyButtonAriaLabel}
+                  tooltipProps={{
+                    ...tooltipProps,
+                    'aria-live': 'polite',
+                    content: <div>{copied ? copyButtonSuccessTooltipText : copyButtonToolTipText}</div>,
+                    exitDelay: copied ? toolTipCopyExitDelay : toolTipDelay,
+                    onTooltipHidden: () => setCopied(false)
+                  }}
+                  onClick={() => {
+                    navigator.clipboard.writeText(code);
+                    setCopied(true);
+                  }}
+                />
+              )}
+              {isUploadEnabled && (
+                <CodeEditorControl
+                  icon={<UploadIcon />}
+                  aria-label={uploadButtonAriaLabel}
+                  tooltipProps={{ content: <div>{uploadButtonToolTipText}</div>, ...tooltipProps }}
+                  onClick={onUpload}
+                />
+              )}
+              {isDownloadEnabled && (
+                <CodeEditorControl
+                  icon={<DownloadIcon />}
+                  aria-label={downloadButtonAriaLabel}
+                  tooltipProps={{ content: <div>{downloadButtonToolTipText}</div>, ...tooltipProps }}
+                  onClick={() => downloadCode(code, downloadFileName)}
+                />
+              )}
+              {customControls && customControls}
+            </CodeEditorContext.Provider>
+          </div>
+          {headerMainContent && <div className={css(styles.codeEditorHeaderMain)}>{headerMainContent}</div>}
+          {children}
+        </div>
+      )}
+      {isLanguageLabelVisible && (
+        <div className={css(styles.codeEditorTab)}>
+          <span className={css(styles.codeEditorTabIcon)}>
+            <CodeIcon />
+          </span>
+          <span className={css(styles.codeEditorTabText)}>{language.toUpperCase()}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+CodeEditorHeader.displayName = 'CodeEditorHeader';
@@ -0,0 +1,74 @@
+import { Button } from '@patternfly/react-core/dist/esm/components/Button';
+import { ExpandableSection } from '@patternfly/react-core/dist/esm/components/ExpandableSection';
+import { Icon } from '@patternfly/react-core/dist/esm/components/Icon';
+import { List, ListItem } from '@patternfly/react-core/dist/esm/components/List';
+import ExclamationCircleIcon from '@patternfly/react-icons/dist/esm/icons/exclamation-circle-icon';
+import ExclamationTriangleIcon from '@patternfly/react-icons/dist/esm/icons/exclamation-triangle-icon';
+import InfoCircleIcon from '@patternfly/react-icons/dist/esm/icons/info-circle-icon';
+import type { CodeEditorDiagnostic } from './CodeEditor';
+
+export interface CodeEditorProblemsProps {
+  /** Diagnostics listed as problems */
+  diagnostics: CodeEditorDiagnostic[];
+  /** Flag indicating the list of problems is expanded */
+  isExpanded: boolean;
+  /** Callback when the list of problems is expanded or collapsed */
+  onToggle: (isExpanded: boolean) => void;
+  /** Callback when a problem is clicked */
+  onProblemClick: (diagnostic: CodeEditorDiagnostic) => void;
+  /** Text of the toggle of the list of problems */
+  toggleText: string;
+  /** Text displayed when there are no problems */
+  noProblemsText: React.ReactNode;
+}
+
+const severityIcons = {
+  error: (
+    <Icon status="danger" isInline>
+      <ExclamationCircleIcon />
+    </Icon>
+  ),
+  warning: (
+    <Icon status="warning" isInline>
+      <ExclamationTriangleIcon />
+    </Icon>
+  ),
+  info: (
+    <Icon status="info" isInline>
+      <InfoCircleIcon />
+    </Icon>
+  )
+};
+
+export const CodeEditorProblems: React.FunctionComponent<CodeEditorProblemsProps> = ({
+  diagnostics,
+  isExpanded,
+  onToggle,
+  onProblemClick,
+  toggleText,
+  noProblemsText
+}: CodeEditorProblemsProps) => (
+  <ExpandableSection
+    toggleText={toggleText}
+    isExpanded={isExpanded}
+    onToggle={(_event, expanded) => onToggle(expanded)}
+  >
+    {diagnostics.length === 0 ? (
+      noProblemsText
+    ) : (
+      <List isPlain>
+        {diagnostics.map((diagnostic, index) => (
+          <ListItem key={index} icon={severityIcons[diagnostic.severity ?? 'error']}>
+            <Button variant="link" isInline onClick={() => onProblemClick(diagnostic)}>
+              {diagnostic.message}
+            </Button>{' '}
+            <span>
+              [{diagnostic.line}:{diagnostic.column}]{diagnostic.source && ` ${diagnostic.source}`}
+            </span>
+          </ListItem>
+        ))}
+      </List>
+    )}
+  </ExpandableSection>
+);
+CodeEditorProblems.displayName = 'CodeEditorProblems';
@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Alert } from '@patternfly/react-core/dist/esm/components/Alert';
+import {
+  defaultSchemaFormValidationMessages,
+  getSchemaDefaultValue,
+  SchemaForm,
+  SchemaFormProps,
+  SchemaFormSchema,
+  validateSchemaValue
+} from '@patternfly/react-core/dist/esm/components/SchemaForm';
+import { ToggleGroup, ToggleGroupItem } from '@patternfly/react-core/dist/esm/components/ToggleGroup';
+import { Split, SplitItem } from '@patternfly/react-core/dist/esm/layouts/Split';
+import { Stack, StackItem } from '@patternfly/react-core/dist/esm/layouts/Stack';
+import { CodeEditor, CodeEditorDiagnostic, CodeEditorProps, Language } from './CodeEditor';
+
+/** Converts the value of a schema form to and from the code of the code editor. */
+export interface CodeEditorSchemaFormSerializer {
+  /** Parses code into a value, throwing an error when the code is invalid. */
+  parse: (code: string) => any;
+  /** Serializes a value into code. */
+  stringify: (value: any) => string;
+}
+
+export const jsonSchemaFormSerializer: CodeEditorSchemaFormSerializer = {
+  parse: (code) => JSON.parse(code),
+  stringify: (value) => `${JSON.stringify(value, null, 2)}\n`
+};
+
+export interface CodeEditorSchemaFormProps extends Omit<React.HTMLProps<HTMLDivElement>, 'value' | 'onChange'> {
+  /** Additional classes added to the schema form editor. */
+  className?: string;
+  /** JSON Schema of the object edited. */
+  schema: SchemaFormSchema;
+  /** Value edited, which makes the editor controlled. */
+  value?: any;
+  /** Initial value of an uncontrolled editor. Defaults to the defaults of the schema. */
+  defaultValue?: any;
+  /** Callback called with the new value when a field of the form changes, or when the code changes and can be
+   * parsed.
+   */
+  onChange?: (value: any) => void;
+  /** Language of the code. */
+  language?: Language;
+  /** Converts the value to and from code. Defaults to JSON, and must be passed for other languages, e.g. the load and
+   * dump functions of a YAML library for YAML.
+   */
+  serializer?: CodeEditorSchemaFormSerializer;
+  /** Whether the form and the code editor are displayed one at a time with a toggle, or side by side. */
+  layout?: 'toggle' | 'split';
+  /** View displayed with the toggle layout, which makes the view controlled. */
+  view?: 'form' | 'code';
+  /** Callback called when the view is changed with the toggle. */
+  onViewChange?: (view: 'form' | 'code') => void;
+  /** Text of the toggle of the form view. */
+  formViewText?: React.ReactNode;
+  /** Text of the toggle of the code view. Defaults to the name of the language, e.g. "YAML view". */
+  codeViewText?: React.ReactNode;
+  /** Accessible label of the toggle of the views. */
+  viewToggleAriaLabel?: string;
+  /** Title of the alert displayed while the code cannot be parsed, during which the form cannot be edited. */
+  invalidCodeTitle?: React.ReactNode;
+  /** Additional props passed to the schema form. */
+  schemaFormProps?: Omit<SchemaFormProps, 'schema' | 'value' | 'defaultValue' | 'onChange'>;
+  /** Additional props passed to the code editor. */
+  codeEditorProps?: Partial<Omit<CodeEditorProps, 'code' | 'onCodeChange' | 'language' | 'validate' | 'ref'>>;
+}
+
+// Returns the line and column of an offset in the code
+const getLocation = (code: string, offset: number) => {
+  const lines = code.slice(0, offset).split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+};
+
+// YAML libraries report the location of errors as marks or positions, and JSON.parse within its message
+const getParseErrorLocation = (error: any, code: string) => {
+  if (error?.mark) {
+    return { line: error.mark.line + 1, column: error.mark.column + 1 };
+  }
+  if (error?.linePos?.[0]) {
+    return { line: error.linePos[0].line, column: error.linePos[0].col };
+  }
+  const lineColumn = /line (\d+) column (\d+)/.exec(error?.message);
+  if (lineColumn) {
+    return { line: Number(lineColumn[1]), column: Number(lineColumn[2]) };
+  }
+  const position = /position (\d+)/.exec(error?.message);
+  return position ? getLocation(code, Number(position[1])) : { line: 1, column: 1 };
+};
+
+// Returns the approximate location of the field of a path in the code, by finding its properties one after the other
+const getPathLocation = (code: string, path: string) => {
+  const offset = path
+    .split('.')
+    .filter((key) => !/^\d+$/.test(key))
+    .reduce((keyOffset, key) => {
+      const keyPattern = new RegExp(`(?<![\\w-])["']?${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}["']?\\s*:`);
+      const match = keyPattern.exec(code.slice(keyOffset));
+      return match ? keyOffset + match.index : keyOffset;
+    }, 0);
+  return getLocation(code, offset);
+};
+
+/**
+ * Edits an object described by a JSON Schema with a schema form and with its code, e.g. in YAML, keeping both in sync.
+ * Problems of the code, including the errors of the schema, are displayed in the code editor.
+ */
+export const CodeEditorSchemaForm: React.FunctionComponent<CodeEditorSchemaFormProps> = ({
+  className,
+  schema,
+  value: valueProp,
+  defaultValue,
+  onChange,
+  language = Language.json,
+  serializer = jsonSchemaFormSerializer,
+  layout = 'toggle',
+  view: viewProp,
+  onViewChange,
+  formViewText = 'Form view',
+  codeViewText = `${language.toUpperCase()} view`,
+  viewToggleAriaLabel = 'Editing view',
+  invalidCodeTitle = 'The code cannot be parsed, fix it to edit the form',
+  schemaFormProps,
+  codeEditorProps,
+  ...props
+}: CodeEditorSchemaFormProps) => {
+  const [localValue, setLocalValue] = useState(() => defaultValue ?? getSchemaDefaultValue(schema) ?? {});
+  const value = valueProp !== undefined ? valueProp : localValue;
+  const [localView, setLocalView] = useState<'form' | 'code'>('form');
+  const view = viewProp ?? localView;
+  const [code, setCode] = useState(() => serializer.stringify(value));
+  const [parseError, setParseError] = useState<Error>();
+  // The value parsed from the code is not serialized again, which would reformat the code being typed
+  const codeValueRef = useRef(value);
+  const validationMessages = schemaFormProps?.validationMessages;
+
+  useEffect(() => {
+    if (value !== codeValueRef.current) {
+      codeValueRef.current = value;
+      setCode(serializer.stringify(value));
+      setParseError(undefined);
+    }
+  }, [value, serializer]);
+
+  const changeValue = (nextValue: any) => {
+    setLocalValue(nextValue);
+    onChange?.(nextValue);
+  };
+
+  const changeCode = (nextCode: string) => {
+    setCode(nextCode);
+    try {
+      const nextValue = serializer.parse(nextCode) ?? {};
+      setParseError(undefined);
+      codeValueRef.current = nextValue;
+      changeValue(nextValue);
+    } catch (error) {
+      setParseError(error as Error);
+    }
+  };
+
+  const changeView = (nextView: 'form' | 'code') => {
+    setLocalView(nextView);
+    onViewChange?.(nextView);
+  };
+
+  const validate = useMemo(
+    () =>
+      (codeToValidate: string): CodeEditorDiagnostic[] => {
+        let parsedValue: any;
+        try {
+          parsedValue = serializer.parse(codeToValidate);
+        } catch (error) {
+          return [
+            { message: (error as Error).message, ...getParseErrorLocation(error, codeToValidate), source: language }
+          ];
+        }
+        const errors = validateSchemaValue(schema, parsedValue ?? {}, {
+          ...defaultSchemaFormValidationMessages,
+          ...validationMessages
+        });
+        return Object.entries(errors).map(([path, message]) => ({
+          message,
+          ...getPathLocation(codeToValidate, path),
+          source: schema.title ?? 'schema'
+        }));
+      },
+    [schema, serializer, language, validationMessages]
+  );
+
+  const form = <SchemaForm {...schemaFormProps} schema={schema} value={value} onChange={changeValue} />;
+  const codeEditor = (
+    <CodeEditor
+      height="400px"
+      isLanguageLabelVisible
+      {...codeEditorProps}
+      code={code}
+      onCodeChange={changeCode}
+      language={language}
+      validate={validate}
+    />
+  );
+  const invalidCodeAlert = parseError && (
+    <Alert variant="danger" isInline isPlain title={invalidCodeTitle}>
+      {parseError.message}
+    </Alert>
+  );
+
+  return (
+    <div className={className} {...props}>
+      {layout === 'split' ? (
+        <Split hasGutter>
+          <SplitItem isFilled>
+            {invalidCodeAlert}
+            <fieldset disabled={!!parseError}>{form}</fieldset>
+          </SplitItem>
+          <SplitItem isFilled>{codeEditor}</SplitItem>
+        </Split>
+      ) : (
+        <Stack hasGutter>
+          <StackItem>
+            <ToggleGroup aria-label={viewToggleAriaLabel}>
+              <ToggleGroupItem
+                text={formViewText}
+                isSelected={view === 'form'}
+                isDisabled={!!parseError}
+                onChange={() => changeView('form')}
+              />
+              <ToggleGroupItem text={codeViewText} isSelected={view === 'code'} onChange={() => changeView('code')} />
+            </ToggleGroup>
+          </StackItem>
+          {invalidCodeAlert && <StackItem>{invalidCodeAlert}</StackItem>}
+          <StackItem isFilled>{view === 'form' && !parseError ? form : codeEditor}</StackItem>
+        </Stack>
+      )}
+    </div>
+  );
+};
+CodeEditorSchemaForm.displayName = 'CodeEditorSchemaForm';
@@ -1,7 +1,38 @@
 import { createContext } from 'react';
+import type { FileRejection } from 'react-dropzone';
 
 interface CodeEditorContext {
   code: string;
 }
 
 export const CodeEditorContext = createContext<CodeEditorContext>(null);
+
+/** Reads a file dropped on or uploaded to a code editor as text. Resolves with null when the file cannot be read. */
+export const readFile = (fileHandle: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(fileHandle);
+  }).catch((error: DOMException) => {
+    // eslint-disable-next-line no-console
+    console.error('error', error);
+    return null;
+  });
+
+export const onDropRejected = (rejectedFiles: FileRejection[]) => {
+  if (rejectedFiles.length > 0) {
+    // eslint-disable-next-line no-console
+    console.error('There was an error accepting that dropped file'); // TODO
+  }
+};
+
+/** Downloads code to a local file with the given name. */
+export const downloadCode = (code: string, fileName: string) => {
+  const element = document.createElement('a');
+  const file = new Blob([code], { type: 'text' });
+  element.href = URL.createObjectURL(file);
+  element.download = fileName;
+  document.body.appendChild(element); // Required for this to work in FireFox
+  element.click();
+};
@@ -1,5 +1,8 @@
+import { useEffect } from 'react';
 import { render, screen, act } from '@testing-library/react';
-import { CodeEditor, Language } from '../CodeEditor';
+import userEvent from '@testing-library/user-event';
+import Editor from '@monaco-editor/react';
+import { CodeEditor, CodeEditorDiagnostic, Language } from '../CodeEditor';
 import styles from '@patternfly/react-styles/css/components/CodeEditor/code-editor';
 
 jest.mock('@monaco-editor/react', () => jest.fn(() => <div data-testid="mock-editor"></div>));
@@ -72,3 +75,115 @@ test(`Renders with shortcuts when shortcutsPopoverButtonText is passed`, () => {
   });
   expect(screen.getByText('shortcuts')).toBeInTheDocument();
 });
+
+test('Lists the shortcuts passed with shortcuts in the shortcuts popover', async () => {
+  const user = userEvent.setup();
+  render(<CodeEditor shortcuts={[{ keys: 'Ctrl+Space', description: 'Activate auto complete' }]} />);
+
+  await user.click(screen.getByRole('button', { name: 'View Shortcuts' }));
+
+  expect(await screen.findByText('Activate auto complete')).toBeVisible();
+  expect(screen.getByText('Space')).toBeVisible();
+});
+
+test('Runs the actions of shortcuts while the editor has focus', async () => {
+  const onSave = jest.fn();
+  const user = userEvent.setup();
+  render(<CodeEditor shortcuts={[{ keys: 'Ctrl+S', description: 'Save', action: onSave }]} />);
+
+  await user.keyboard('{Control>}s{/Control}');
+
+  expect(onSave).not.toHaveBeenCalled();
+
+  screen.getByTestId('mock-editor').parentElement?.focus();
+  await user.keyboard('{Control>}s{/Control}');
+
+  expect(onSave).toHaveBeenCalledTimes(1);
+});
+
+const diagnostics: CodeEditorDiagnostic[] = [
+  { message: 'Missing property "name"', line: 1, column: 1, source: 'schema' },
+  { message: 'Unexpected property "nmae"', line: 3, column: 5, endColumn: 9 },
+  { message: 'Deprecated property "replicas"', line: 4, column: 3, severity: 'warning' }
+];
+
+test('Renders the error count and problems returned by validate', async () => {
+  const user = userEvent.setup();
+  const onValidate = jest.fn();
+  render(<CodeEditor code="test" validate={() => diagnostics} onValidate={onValidate} isProblemsListVisible />);
+
+  expect(await screen.findByText('2 errors')).toBeVisible();
+  expect(onValidate).toHaveBeenCalledWith(diagnostics);
+
+  await user.click(screen.getByRole('button', { name: 'Problems (3)' }));
+  expect(screen.getByRole('button', { name: 'Missing property "name"' })).toBeVisible();
+  expect(screen.getByText('[1:1] schema')).toBeVisible();
+  expect(screen.getByRole('button', { name: 'Deprecated property "replicas"' })).toBeVisible();
+});
+
+test('Only uses the result of the latest asynchronous validation', async () => {
+  const resolvers: ((diagnostics: CodeEditorDiagnostic[]) => void)[] = [];
+  const validate = () => new Promise<CodeEditorDiagnostic[]>((resolve) => resolvers.push(resolve));
+  const { rerender } = render(<CodeEditor code="first" validate={validate} validationDelay={0} />);
+
+  rerender(<CodeEditor code="second" validate={validate} validationDelay={0} />);
+  await act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+  expect(resolvers).toHaveLength(2);
+
+  await act(async () => resolvers[1]([]));
+  await act(async () => resolvers[0](diagnostics));
+  expect(screen.queryByText('2 errors')).not.toBeInTheDocument();
+});
+
+test('Reports a problem when validate fails', async () => {
+  const onValidate = jest.fn();
+  render(
+    <CodeEditor
+      code="test"
+      validate={() => Promise.reject(new Error('Schema not found'))}
+      onValidate={onValidate}
+      validationDelay={0}
+    />
+  );
+
+  expect(await screen.findByText('1 error')).toBeVisible();
+  expect(onValidate).toHaveBeenCalledWith([
+    { message: 'The code could not be validated: Schema not found', line: 1, column: 1 }
+  ]);
+});
+
+test('Sets markers and moves the cursor to a problem when it is clicked', async () => {
+  const user = userEvent.setup();
+  const model = { getWordAtPosition: jest.fn(() => ({ endColumn: 6 })) };
+  const mockEditor = {
+    addCommand: jest.fn(),
+    getModel: () => model,
+    setPosition: jest.fn(),
+    revealPositionInCenter: jest.fn(),
+    focus: jest.fn()
+  };
+  const mockMonaco = {
+    KeyMod: { Shift: 1 },
+    KeyCode: { Tab: 2 },
+    MarkerSeverity: { Error: 8, Warning: 4, Info: 2 },
+    editor: { setModelMarkers: jest.fn() }
+  };
+  (Editor as unknown as jest.Mock).mockImplementation(({ onMount }) => {
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    useEffect(() => onMount(mockEditor, mockMonaco), []);
+    return <div data-testid="mock-editor"></div>;
+  });
+  render(<CodeEditor code="test" validate={() => diagnostics} isProblemsListVisible />);
+
+  await screen.findByText('2 errors');
+  expect(mockMonaco.editor.setModelMarkers).toHaveBeenLastCalledWith(model, expect.any(String), [
+    expect.objectContaining({ severity: 8, startLineNumber: 1, startColumn: 1, endLineNumber: 1, endColumn: 6 }),
+    expect.objectContaining({ severity: 8, startLineNumber: 3, startColumn: 5, endColumn: 9 }),
+    expect.objectContaining({ severity: 4, startLineNumber: 4, startColumn: 3 })
+  ]);
+
+  await user.click(screen.getByRole('button', { name: 'Problems (3)' }));
+  await user.click(screen.getByRole('button', { name: 'Unexpected property "nmae"' }));
+  expect(mockEditor.setPosition).toHaveBeenCalledWith({ lineNumber: 3, column: 5 });
+  expect(mockEditor.focus).toHaveBeenCalled();
+});
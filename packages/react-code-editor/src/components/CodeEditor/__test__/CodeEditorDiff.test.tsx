@@ -0,0 +1,111 @@
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { DiffEditor } from '@monaco-editor/react';
+import { CodeEditorDiff } from '../CodeEditorDiff';
+import { Language } from '../CodeEditor';
+
+const mockChangeListeners: ((event: any) => void)[] = [];
+const mockDiffEditor = {
+  goToDiff: jest.fn(),
+  getLineChanges: jest.fn(() => [{}, {}]),
+  onDidUpdateDiff: jest.fn((listener: () => void) => {
+    listener();
+    return { dispose: jest.fn() };
+  }),
+  layout: jest.fn(),
+  getModifiedEditor: () => ({
+    addCommand: jest.fn(),
+    focus: jest.fn(),
+    getValue: () => 'edited',
+    onDidChangeModelContent: (listener: (event: any) => void) => {
+      mockChangeListeners.push(listener);
+      return { dispose: jest.fn() };
+    }
+  })
+};
+
+jest.mock('@monaco-editor/react', () => {
+  const { useEffect } = jest.requireActual('react');
+  return {
+    DiffEditor: jest.fn(({ onMount }) => {
+      useEffect(() => {
+        onMount(mockDiffEditor, { KeyMod: { Shift: 1 }, KeyCode: { Tab: 2 } });
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+      }, []);
+      return <div data-testid="mock-diff-editor"></div>;
+    })
+  };
+});
+
+const getDiffEditorProps = () => (DiffEditor as unknown as jest.Mock).mock.calls.at(-1)[0];
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockChangeListeners.length = 0;
+});
+
+test('Passes the original and modified code to the diff editor', () => {
+  render(<CodeEditorDiff originalCode="original" modifiedCode="modified" language={Language.yaml} />);
+
+  expect(getDiffEditorProps()).toEqual(
+    expect.objectContaining({
+      original: 'original',
+      modified: 'modified',
+      language: 'yaml',
+      options: expect.objectContaining({ originalEditable: false, readOnly: false, renderSideBySide: true })
+    })
+  );
+});
+
+test('Renders the changes inline when isInline is passed', () => {
+  render(<CodeEditorDiff originalCode="original" modifiedCode="modified" isInline isReadOnly />);
+
+  expect(getDiffEditorProps().options).toEqual(expect.objectContaining({ readOnly: true, renderSideBySide: false }));
+});
+
+test('Navigates between changes', async () => {
+  const user = userEvent.setup();
+  render(<CodeEditorDiff originalCode="original" modifiedCode="modified" />);
+
+  await user.click(screen.getByRole('button', { name: 'Next change' }));
+  expect(mockDiffEditor.goToDiff).toHaveBeenLastCalledWith('next');
+
+  await user.click(screen.getByRole('button', { name: 'Previous change' }));
+  expect(mockDiffEditor.goToDiff).toHaveBeenLastCalledWith('previous');
+});
+
+test('Disables change navigation when there are no changes', () => {
+  mockDiffEditor.getLineChanges.mockReturnValueOnce([]);
+  render(<CodeEditorDiff originalCode="same" modifiedCode="same" />);
+
+  expect(screen.getByRole('button', { name: 'Next change' })).toBeDisabled();
+  expect(screen.getByRole('button', { name: 'Previous change' })).toBeDisabled();
+});
+
+test('Calls onChange and passes the edited modified code to controls', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+  const onCodeChange = jest.fn();
+  const onClick = jest.fn();
+  render(
+    <CodeEditorDiff
+      originalCode="original"
+      modifiedCode="modified"
+      onChange={onChange}
+      onCodeChange={onCodeChange}
+      isNavigationEnabled={false}
+      isCopyEnabled
+      isDownloadEnabled
+      customControls={<button onClick={() => onClick()}>custom</button>}
+    />
+  );
+
+  act(() => mockChangeListeners.forEach((listener) => listener({ changes: [] })));
+
+  expect(onChange).toHaveBeenCalledWith('edited', { changes: [] });
+  expect(onCodeChange).toHaveBeenCalledWith('edited');
+  expect(getDiffEditorProps().modified).toBe('edited');
+  expect(screen.queryByRole('button', { name: 'Next change' })).not.toBeInTheDocument();
+  expect(screen.getByRole('button', { name: 'Copy modified code to clipboard' })).toBeVisible();
+  expect(screen.getByRole('button', { name: 'Download modified code' })).toBeVisible();
+});
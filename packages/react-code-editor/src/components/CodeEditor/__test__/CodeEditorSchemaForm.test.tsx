@@ -0,0 +1,74 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { CodeEditorSchemaForm } from '../CodeEditorSchemaForm';
+
+jest.mock('@monaco-editor/react', () =>
+  jest.fn(({ value, onChange }) => (
+    <textarea data-testid="mock-editor" value={value} onChange={(event) => onChange(event.target.value, {})} />
+  ))
+);
+
+const schema = {
+  type: 'object' as const,
+  required: ['name'],
+  properties: {
+    name: { type: 'string' as const },
+    replicas: { type: 'integer' as const, minimum: 1 }
+  }
+};
+
+test('updates the code when the form changes', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+
+  render(<CodeEditorSchemaForm schema={schema} defaultValue={{ replicas: 2 }} onChange={onChange} />);
+
+  await user.type(screen.getByRole('textbox', { name: 'Name' }), 'web');
+  expect(onChange).toHaveBeenLastCalledWith({ replicas: 2, name: 'web' });
+
+  await user.click(screen.getByRole('button', { name: 'JSON view' }));
+  expect(screen.getByTestId('mock-editor')).toHaveValue('{\n  "replicas": 2,\n  "name": "web"\n}\n');
+});
+
+test('updates the form when the code changes', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+
+  render(<CodeEditorSchemaForm schema={schema} layout="split" onChange={onChange} />);
+
+  const editor = screen.getByTestId('mock-editor');
+  await user.clear(editor);
+  await user.type(editor, '{{"name": "api", "replicas": 3}');
+
+  expect(onChange).toHaveBeenLastCalledWith({ name: 'api', replicas: 3 });
+  expect(screen.getByRole('textbox', { name: 'Name' })).toHaveValue('api');
+  expect(screen.getByRole('spinbutton', { name: 'Replicas' })).toHaveValue(3);
+});
+
+test('disables the form while the code cannot be parsed', async () => {
+  const user = userEvent.setup();
+
+  render(<CodeEditorSchemaForm schema={schema} defaultValue={{ name: 'web' }} />);
+
+  await user.click(screen.getByRole('button', { name: 'JSON view' }));
+  await user.type(screen.getByTestId('mock-editor'), ',');
+
+  expect(screen.getByText('The code cannot be parsed, fix it to edit the form')).toBeVisible();
+  expect(screen.getByRole('button', { name: 'Form view' })).toBeDisabled();
+});
+
+test('uses the serializer passed', async () => {
+  const user = userEvent.setup();
+  const serializer = {
+    parse: (code: string) => Object.fromEntries(code.split('\n').map((line) => line.split('='))),
+    stringify: (value: any) =>
+      Object.entries(value)
+        .map(([key, propertyValue]) => `${key}=${propertyValue}`)
+        .join('\n')
+  };
+
+  render(<CodeEditorSchemaForm schema={schema} defaultValue={{ name: 'web' }} serializer={serializer} />);
+
+  await user.click(screen.getByRole('button', { name: 'JSON view' }));
+  expect(screen.getByTestId('mock-editor')).toHaveValue('name=web');
+});
@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { Checkbox } from '@patternfly/react-core';
+import { CodeEditorDiff, Language } from '@patternfly/react-code-editor';
+
+const originalConfig = `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: frontend
+spec:
+  replicas: 2
+  template:
+    spec:
+      containers:
+        - name: frontend
+          image: frontend:1.4.0
+          ports:
+            - containerPort: 8080
+`;
+
+const modifiedConfig = `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: frontend
+  labels:
+    app: frontend
+spec:
+  replicas: 3
+  template:
+    spec:
+      containers:
+        - name: frontend
+          image: frontend:1.5.0
+          ports:
+            - containerPort: 8080
+`;
+
+export const CodeEditorDiffBasic: React.FunctionComponent = () => {
+  const [isInline, setIsInline] = useState(false);
+  const [modifiedCode, setModifiedCode] = useState(modifiedConfig);
+
+  return (
+    <>
+      <Checkbox
+        label="Inline"
+        isChecked={isInline}
+        onChange={(_event, checked) => setIsInline(checked)}
+        aria-label="inline checkbox"
+        id="toggle-inline"
+        name="toggle-inline"
+      />
+      <CodeEditorDiff
+        originalCode={originalConfig}
+        modifiedCode={modifiedCode}
+        onCodeChange={setModifiedCode}
+        isInline={isInline}
+        isCopyEnabled
+        isDownloadEnabled
+        isUploadEnabled
+        isLanguageLabelVisible
+        headerMainContent="deployment.yaml"
+        downloadFileName="deployment"
+        language={Language.yaml}
+        height="400px"
+      />
+    </>
+  );
+};
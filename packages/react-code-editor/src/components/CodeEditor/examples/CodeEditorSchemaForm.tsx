@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { CodeEditorSchemaForm } from '@patternfly/react-code-editor';
+import { Radio, SchemaFormSchema, Stack, StackItem } from '@patternfly/react-core';
+
+const schema: SchemaFormSchema = {
+  type: 'object',
+  title: 'Deployment',
+  required: ['name', 'image'],
+  properties: {
+    name: { type: 'string', pattern: '^[a-z0-9-]+$' },
+    image: { type: 'string' },
+    replicas: { type: 'integer', minimum: 0, maximum: 10 },
+    strategy: { type: 'string', enum: ['RollingUpdate', 'Recreate'] },
+    paused: { type: 'boolean' },
+    env: {
+      type: 'array',
+      title: 'Environment variables',
+      items: {
+        type: 'object',
+        title: 'Variable',
+        required: ['name'],
+        properties: {
+          name: { type: 'string' },
+          value: { type: 'string' }
+        }
+      }
+    }
+  }
+};
+
+export const CodeEditorSchemaFormExample: React.FunctionComponent = () => {
+  const [layout, setLayout] = useState<'toggle' | 'split'>('toggle');
+  const [value, setValue] = useState<any>({ name: 'frontend', image: 'frontend:1.5.0', replicas: 2 });
+
+  return (
+    <Stack hasGutter>
+      <StackItem>
+        <Radio
+          id="schema-form-layout-toggle"
+          name="schema-form-layout"
+          label="Toggle between the views"
+          isChecked={layout === 'toggle'}
+          onChange={() => setLayout('toggle')}
+        />
+        <Radio
+          id="schema-form-layout-split"
+          name="schema-form-layout"
+          label="Display the views side by side"
+          isChecked={layout === 'split'}
+          onChange={() => setLayout('split')}
+        />
+      </StackItem>
+      <StackItem>
+        <CodeEditorSchemaForm
+          schema={schema}
+          value={value}
+          onChange={setValue}
+          layout={layout}
+          codeEditorProps={{ isProblemsListVisible: true }}
+        />
+      </StackItem>
+    </Stack>
+  );
+};
@@ -0,0 +1,68 @@
+import { CodeEditor, CodeEditorDiagnostic, Language } from '@patternfly/react-code-editor';
+
+const initialCode = `{
+  "nmae": "frontend",
+  "replicas": 12,
+  "image": "frontend:1.5.0"
+}
+`;
+
+// Returns the line and column of an offset in the code
+const getLocation = (code: string, offset: number) => {
+  const lines = code.slice(0, offset).split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+};
+
+// Returns the location of a property in the code, or the start of the code if it isn't found
+const getPropertyLocation = (code: string, property: string) => {
+  const offset = code.indexOf(`"${property}"`);
+  return offset === -1 ? { line: 1, column: 1 } : getLocation(code, offset + 1);
+};
+
+const knownProperties = ['name', 'replicas', 'image'];
+
+// Validation is asynchronous, as it would be when validating on a server
+const validate = (code: string) =>
+  new Promise<CodeEditorDiagnostic[]>((resolve) =>
+    setTimeout(() => {
+      let config: Record<string, unknown>;
+      try {
+        config = JSON.parse(code);
+      } catch (error) {
+        const position = Number((error as Error).message.match(/position (\d+)/)?.[1] ?? 0);
+        resolve([{ message: (error as Error).message, ...getLocation(code, position), source: 'JSON' }]);
+        return;
+      }
+
+      const diagnostics: CodeEditorDiagnostic[] = Object.keys(config)
+        .filter((property) => !knownProperties.includes(property))
+        .map((property) => ({
+          message: `Unknown property "${property}"`,
+          ...getPropertyLocation(code, property),
+          source: 'deployment schema'
+        }));
+      if (typeof config.name !== 'string') {
+        diagnostics.push({ message: 'Missing property "name"', line: 1, column: 1, source: 'deployment schema' });
+      }
+      if (typeof config.replicas === 'number' && config.replicas > 10) {
+        diagnostics.push({
+          message: 'More than 10 replicas may exceed the quota',
+          ...getPropertyLocation(code, 'replicas'),
+          severity: 'warning',
+          source: 'deployment schema'
+        });
+      }
+      resolve(diagnostics);
+    }, 200)
+  );
+
+export const CodeEditorValidation: React.FunctionComponent = () => (
+  <CodeEditor
+    code={initialCode}
+    validate={validate}
+    isProblemsListVisible
+    headerMainContent="deployment.json"
+    language={Language.json}
+    height="300px"
+  />
+);
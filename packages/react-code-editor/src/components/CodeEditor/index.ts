@@ -1,2 +1,4 @@
 export * from './CodeEditor';
 export * from './CodeEditorControl';
+export * from './CodeEditorDiff';
+export * from './CodeEditorSchemaForm';
@@ -0,0 +1,268 @@
+import { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { Alert, AlertProps } from './Alert';
+import { AlertActionCloseButton } from './AlertActionCloseButton';
+import { AlertGroup, AlertGroupProps } from './AlertGroup';
+import { Spinner } from '../Spinner';
+import { getUniqueId } from '../../helpers/util';
+
+/** Options of a toast shown by the toaster. */
+export interface ToastOptions {
+  /** Key of the toast. Showing a toast with the key of a toast which is already shown updates that toast instead of
+   * adding another one. Generated when not passed.
+   */
+  key?: React.Key;
+  /** Title of the toast alert. */
+  title: React.ReactNode;
+  /** Variant of the toast alert. */
+  variant?: AlertProps['variant'];
+  /** Description of the toast alert. */
+  description?: React.ReactNode;
+  /** Action links of the toast alert. */
+  actionLinks?: React.ReactNode;
+  /** Timeout of the toast, in the same format as the timeout of an alert. Defaults to the timeout of the toaster
+   * provider. While the toast is hovered or focused it is not dismissed.
+   */
+  timeout?: number | boolean;
+  /** Flag indicating the toast has a close button. */
+  isDismissable?: boolean;
+  /** Flag indicating the toast shows a spinner instead of the variant icon, and does not time out. */
+  isLoading?: boolean;
+  /** Additional props of the toast alert. */
+  alertProps?: Omit<AlertProps, 'title' | 'variant' | 'timeout' | 'onTimeout' | 'actionClose' | 'actionLinks'>;
+}
+
+/** A toast which is shown or was dismissed. */
+export interface Toast extends ToastOptions {
+  /** Key of the toast. */
+  key: React.Key;
+  /** When the toast was first shown. */
+  createdAt: Date;
+}
+
+/** Why a toast was dismissed: its close button was clicked, it timed out, or dismiss was called. */
+export type ToastDismissReason = 'close' | 'timeout' | 'dismiss';
+
+/** Options of the toasts shown while a promise is pending and once it settles. */
+export interface ToastPromiseOptions<T> {
+  /** Toast shown while the promise is pending. */
+  loading: ToastOptions;
+  /** Toast shown when the promise is fulfilled, or a function returning it from the value of the promise. */
+  success: ToastOptions | ((value: T) => ToastOptions);
+  /** Toast shown when the promise is rejected, or a function returning it from the reason of the rejection. */
+  error: ToastOptions | ((reason: any) => ToastOptions);
+}
+
+/** Methods which show and dismiss toasts, available both from useToaster and the toast facade. */
+export interface ToasterMethods {
+  /** Shows a toast, or updates the toast with the same key. Returns the key of the toast. */
+  show(options: ToastOptions): React.Key;
+  /** Updates the options of a toast which is shown. */
+  update(key: React.Key, options: Partial<ToastOptions>): void;
+  /** Dismisses a toast, or all toasts when no key is passed. */
+  dismiss(key?: React.Key): void;
+  /** Shows a loading toast until the promise settles, then replaces it with a success or error toast. Returns the
+   * passed promise.
+   */
+  promise<T>(promise: Promise<T>, options: ToastPromiseOptions<T>): Promise<T>;
+}
+
+export interface ToasterContextProps extends ToasterMethods {
+  /** Toasts which are shown or queued, newest first. */
+  toasts: Toast[];
+  /** Toasts which were dismissed, newest first. Only kept when the hasDismissedToasts of the provider is true. */
+  dismissedToasts: Toast[];
+  /** Removes a dismissed toast, or all dismissed toasts when no key is passed. */
+  clearDismissedToasts(key?: React.Key): void;
+}
+
+const ToasterContext = createContext({} as ToasterContextProps);
+
+export const ToasterContextConsumer = ToasterContext.Consumer;
+
+export interface ToasterProviderProps
+  extends Pick<AlertGroupProps, 'appendTo' | 'aria-label' | 'className' | 'hasAnimations' | 'onOverflowClick'> {
+  /** Content rendered within the provider, which can show toasts with useToaster. */
+  children?: React.ReactNode;
+  /** Default timeout of toasts, in the same format as the timeout of an alert. */
+  timeout?: number | boolean;
+  /** Maximum number of toasts displayed at once. Further toasts are queued, and displayed once others are dismissed. */
+  maxDisplayed?: number;
+  /** Returns the overflow message displayed when toasts are queued. */
+  getOverflowMessage?: (queuedCount: number) => string;
+  /** Flag indicating dismissed toasts are kept in the dismissedToasts of the toaster, e.g. to list them in a
+   * notification drawer.
+   */
+  hasDismissedToasts?: boolean;
+  /** Callback when a toast is dismissed. */
+  onDismiss?: (toast: Toast, reason: ToastDismissReason) => void;
+}
+
+// Mounted toaster providers, the last of which is used by the toast facade
+const toasters: ToasterMethods[] = [];
+// Calls made through the toast facade before a toaster provider was mounted
+let pendingToastCalls: ((toaster: ToasterMethods) => void)[] = [];
+
+const callToaster = (call: (toaster: ToasterMethods) => void) => {
+  if (toasters.length) {
+    call(toasters[toasters.length - 1]);
+  } else {
+    pendingToastCalls.push(call);
+  }
+};
+
+/** Shows and dismisses toasts outside of React components, using the last mounted toaster provider. Calls made
+ * before a toaster provider is mounted are applied once it mounts.
+ */
+export const toast: ToasterMethods = {
+  show: (options) => {
+    const key = options.key ?? getUniqueId('toast');
+    callToaster((toaster) => toaster.show({ ...options, key }));
+    return key;
+  },
+  update: (key, options) => callToaster((toaster) => toaster.update(key, options)),
+  dismiss: (key) => callToaster((toaster) => toaster.dismiss(key)),
+  promise: (promise, options) => {
+    callToaster((toaster) => toaster.promise(promise, options));
+    return promise;
+  }
+};
+
+export const ToasterProvider: React.FunctionComponent<ToasterProviderProps> = ({
+  children,
+  timeout = true,
+  maxDisplayed,
+  getOverflowMessage = (queuedCount: number) => `View ${queuedCount} more alerts`,
+  hasDismissedToasts = false,
+  onDismiss,
+  onOverflowClick,
+  hasAnimations = false,
+  appendTo,
+  className,
+  'aria-label': ariaLabel = 'Toast alerts'
+}: ToasterProviderProps) => {
+  const [toasts, setToastsState] = useState<Toast[]>([]);
+  const [dismissedToasts, setDismissedToasts] = useState<Toast[]>([]);
+  // Toasts are read from a ref so that methods called in quick succession see each other's changes
+  const toastsRef = useRef<Toast[]>([]);
+  const setToasts = (newToasts: Toast[]) => {
+    toastsRef.current = newToasts;
+    setToastsState(newToasts);
+  };
+
+  const show = (options: ToastOptions) => {
+    const key = options.key ?? getUniqueId('toast');
+    const existingToast = toastsRef.current.find((toast) => toast.key === key);
+    if (existingToast) {
+      setToasts(
+        toastsRef.current.map((toast) => (toast.key === key ? { ...options, key, createdAt: toast.createdAt } : toast))
+      );
+    } else {
+      setToasts([{ ...options, key, createdAt: new Date() }, ...toastsRef.current]);
+    }
+    return key;
+  };
+
+  const update = (key: React.Key, options: Partial<ToastOptions>) =>
+    setToasts(toastsRef.current.map((toast) => (toast.key === key ? { ...toast, ...options, key } : toast)));
+
+  const remove = (key: React.Key | undefined, reason: ToastDismissReason) => {
+    const removedToasts = toastsRef.current.filter((toast) => key === undefined || toast.key === key);
+    if (!removedToasts.length) {
+      return;
+    }
+    setToasts(toastsRef.current.filter((toast) => !removedToasts.includes(toast)));
+    if (hasDismissedToasts) {
+      setDismissedToasts((prevDismissedToasts) => [...removedToasts, ...prevDismissedToasts]);
+    }
+    removedToasts.forEach((toast) => onDismiss?.(toast, reason));
+  };
+
+  const dismiss = (key?: React.Key) => remove(key, 'dismiss');
+
+  const promise = <T,>(pendingPromise: Promise<T>, { loading, success, error }: ToastPromiseOptions<T>) => {
+    const key = show({ variant: 'info', ...loading, isLoading: true });
+    // The settled toast is shown again if the loading toast was dismissed in the meantime
+    const settle = (options: ToastOptions, variant: AlertProps['variant']) =>
+      show({ variant, timeout, ...options, key, isLoading: false });
+    pendingPromise.then(
+      (value) => settle(typeof success === 'function' ? success(value) : success, 'success'),
+      (reason) => settle(typeof error === 'function' ? error(reason) : error, 'danger')
+    );
+    return pendingPromise;
+  };
+
+  const clearDismissedToasts = (key?: React.Key) =>
+    setDismissedToasts((prevDismissedToasts) =>
+      key === undefined ? [] : prevDismissedToasts.filter((toast) => toast.key !== key)
+    );
+
+  // The toast facade calls the latest methods, which read the latest props
+  const methods = useRef<ToasterMethods>(undefined);
+  methods.current = { show, update, dismiss, promise };
+
+  useEffect(() => {
+    const toaster: ToasterMethods = {
+      show: (options) => methods.current.show(options),
+      update: (key, options) => methods.current.update(key, options),
+      dismiss: (key) => methods.current.dismiss(key),
+      promise: (pendingPromise, options) => methods.current.promise(pendingPromise, options)
+    };
+    toasters.push(toaster);
+    const pendingCalls = pendingToastCalls;
+    pendingToastCalls = [];
+    pendingCalls.forEach((call) => call(toaster));
+    return () => {
+      toasters.splice(toasters.indexOf(toaster), 1);
+    };
+  }, []);
+
+  const displayedToasts = maxDisplayed === undefined ? toasts : toasts.slice(0, maxDisplayed);
+  const queuedCount = toasts.length - displayedToasts.length;
+
+  return (
+    <ToasterContext.Provider value={{ toasts, dismissedToasts, show, update, dismiss, promise, clearDismissedToasts }}>
+      {children}
+      <AlertGroup
+        isToast
+        isLiveRegion
+        hasAnimations={hasAnimations}
+        appendTo={appendTo}
+        className={className}
+        aria-label={ariaLabel}
+        overflowMessage={queuedCount > 0 ? getOverflowMessage(queuedCount) : ''}
+        onOverflowClick={onOverflowClick}
+      >
+        {displayedToasts.map(
+          ({
+            key,
+            title,
+            variant,
+            description,
+            actionLinks,
+            timeout: toastTimeout,
+            isDismissable,
+            isLoading,
+            alertProps
+          }) => (
+            <Alert
+              key={key}
+              title={title}
+              variant={variant}
+              actionLinks={actionLinks}
+              timeout={isLoading ? false : (toastTimeout ?? timeout)}
+              onTimeout={() => remove(key, 'timeout')}
+              actionClose={isDismissable !== false && <AlertActionCloseButton onClose={() => remove(key, 'close')} />}
+              {...(isLoading && { customIcon: <Spinner size="md" /> })}
+              {...alertProps}
+            >
+              {description}
+            </Alert>
+          )
+        )}
+      </AlertGroup>
+    </ToasterContext.Provider>
+  );
+};
+ToasterProvider.displayName = 'ToasterProvider';
+
+export const useToaster = () => useContext(ToasterContext);
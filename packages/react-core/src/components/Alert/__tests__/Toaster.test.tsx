@@ -0,0 +1,151 @@
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+import { ToasterProvider, ToasterProviderProps, toast, useToaster } from '../Toaster';
+
+const ShowButton = ({ title, toastKey }: { title: string; toastKey?: string }) => {
+  const { show } = useToaster();
+  return <button onClick={() => show({ key: toastKey, title, variant: 'success' })}>Show {title}</button>;
+};
+
+const renderToaster = (props: Partial<ToasterProviderProps> = {}, children?: React.ReactNode) =>
+  render(
+    <ToasterProvider timeout={false} {...props}>
+      {children}
+    </ToasterProvider>
+  );
+
+test('Shows toasts in a toast alert group, newest first', async () => {
+  const user = userEvent.setup();
+  renderToaster(
+    {},
+    <>
+      <ShowButton title="First" />
+      <ShowButton title="Second" />
+    </>
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Show First' }));
+  await user.click(screen.getByRole('button', { name: 'Show Second' }));
+
+  const toasts = screen.getAllByRole('heading');
+  expect(toasts).toHaveLength(2);
+  expect(toasts[0]).toHaveTextContent('Second');
+  expect(toasts[1]).toHaveTextContent('First');
+  expect(screen.getByRole('list', { name: 'Toast alerts' })).toHaveClass('pf-m-toast');
+});
+
+test('Updates the toast with the same key instead of adding another toast', async () => {
+  const user = userEvent.setup();
+  renderToaster({}, <ShowButton title="Saved" toastKey="save" />);
+
+  await user.click(screen.getByRole('button', { name: 'Show Saved' }));
+  await user.click(screen.getByRole('button', { name: 'Show Saved' }));
+
+  expect(screen.getAllByRole('heading')).toHaveLength(1);
+});
+
+test('Calls onDismiss and keeps dismissed toasts when the close button is clicked', async () => {
+  const user = userEvent.setup();
+  const onDismiss = jest.fn();
+  const DismissedCount = () => <span>Dismissed: {useToaster().dismissedToasts.length}</span>;
+  renderToaster(
+    { onDismiss, hasDismissedToasts: true },
+    <>
+      <ShowButton title="Saved" toastKey="save" />
+      <DismissedCount />
+    </>
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Show Saved' }));
+  await user.click(screen.getByRole('button', { name: /Close Success alert/ }));
+
+  expect(screen.queryByRole('heading')).not.toBeInTheDocument();
+  expect(onDismiss).toHaveBeenCalledWith(expect.objectContaining({ key: 'save', title: 'Saved' }), 'close');
+  expect(screen.getByText('Dismissed: 1')).toBeVisible();
+});
+
+test('Dismisses toasts once their timeout expires', () => {
+  jest.useFakeTimers();
+  const onDismiss = jest.fn();
+  renderToaster({ onDismiss, timeout: 1000 });
+
+  act(() => {
+    toast.show({ title: 'Expiring' });
+  });
+  expect(screen.getByRole('heading')).toHaveTextContent('Expiring');
+
+  act(() => {
+    jest.advanceTimersByTime(1000);
+  });
+  expect(screen.queryByRole('heading')).not.toBeInTheDocument();
+  expect(onDismiss).toHaveBeenCalledWith(expect.objectContaining({ title: 'Expiring' }), 'timeout');
+  jest.useRealTimers();
+});
+
+test('Queues toasts beyond maxDisplayed behind the overflow message', async () => {
+  const user = userEvent.setup();
+  const onOverflowClick = jest.fn();
+  renderToaster(
+    { maxDisplayed: 1, onOverflowClick },
+    <>
+      <ShowButton title="First" />
+      <ShowButton title="Second" />
+      <ShowButton title="Third" />
+    </>
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Show First' }));
+  await user.click(screen.getByRole('button', { name: 'Show Second' }));
+  await user.click(screen.getByRole('button', { name: 'Show Third' }));
+
+  expect(screen.getAllByRole('heading')).toHaveLength(1);
+  await user.click(screen.getByRole('button', { name: 'View 2 more alerts' }));
+  expect(onOverflowClick).toHaveBeenCalled();
+
+  await user.click(screen.getByRole('button', { name: /Close Success alert/ }));
+  expect(screen.getByRole('heading')).toHaveTextContent('Second');
+  expect(screen.getByRole('button', { name: 'View 1 more alerts' })).toBeVisible();
+});
+
+test('Replaces a loading toast once its promise settles', async () => {
+  let resolve: (value: string) => void;
+  let reject: (reason: Error) => void;
+  renderToaster();
+
+  act(() => {
+    toast.promise(new Promise<string>((res) => (resolve = res)), {
+      loading: { title: 'Saving' },
+      success: (value) => ({ title: `Saved ${value}` }),
+      error: { title: 'Failed' }
+    });
+  });
+  expect(screen.getByRole('heading')).toHaveTextContent('Saving');
+  expect(screen.getByRole('progressbar')).toBeVisible();
+
+  await act(async () => resolve('report'));
+  expect(screen.getByRole('heading')).toHaveTextContent('Saved report');
+  expect(screen.getByRole('heading')).toHaveTextContent('Success alert');
+  expect(screen.queryByRole('progressbar')).not.toBeInTheDocument();
+
+  act(() => {
+    toast.dismiss();
+    toast
+      .promise(new Promise((_res, rej) => (reject = rej)), {
+        loading: { title: 'Deleting' },
+        success: { title: 'Deleted' },
+        error: (error) => ({ title: error.message })
+      })
+      .catch(() => {});
+  });
+  await act(async () => reject(new Error('Not allowed')));
+  expect(screen.getByRole('heading')).toHaveTextContent('Not allowed');
+  expect(screen.getByRole('heading')).toHaveTextContent('Danger alert');
+});
+
+test('Applies toast calls made before a provider is mounted', () => {
+  toast.show({ title: 'Early' });
+  renderToaster();
+
+  expect(screen.getByRole('heading')).toHaveTextContent('Early');
+});
@@ -0,0 +1,69 @@
+import {
+  Button,
+  Flex,
+  NotificationDrawer,
+  NotificationDrawerBody,
+  NotificationDrawerHeader,
+  NotificationDrawerList,
+  NotificationDrawerListItem,
+  NotificationDrawerListItemBody,
+  NotificationDrawerListItemHeader,
+  ToasterProvider,
+  toast,
+  useToaster
+} from '@patternfly/react-core';
+
+const ToastButtons: React.FunctionComponent = () => {
+  const { show, dismissedToasts, clearDismissedToasts } = useToaster();
+
+  const save = () =>
+    toast.promise(new Promise((resolve) => setTimeout(resolve, 2000)), {
+      loading: { title: 'Saving changes' },
+      success: { title: 'Changes saved' },
+      error: (error) => ({ title: 'Changes could not be saved', description: error.message })
+    });
+
+  return (
+    <>
+      <Flex style={{ marginBottom: '16px' }}>
+        <Button variant="secondary" onClick={() => show({ title: 'Toast success alert', variant: 'success' })}>
+          Add toast success alert
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={() => show({ key: 'connection', title: 'Connection lost', variant: 'danger', timeout: false })}
+        >
+          Add toast danger alert once
+        </Button>
+        <Button variant="secondary" onClick={save}>
+          Save changes
+        </Button>
+      </Flex>
+      <NotificationDrawer>
+        <NotificationDrawerHeader count={dismissedToasts.length} title="Dismissed toasts">
+          <Button variant="link" onClick={() => clearDismissedToasts()}>
+            Clear all
+          </Button>
+        </NotificationDrawerHeader>
+        <NotificationDrawerBody>
+          <NotificationDrawerList>
+            {dismissedToasts.map(({ key, title, variant, description, createdAt }) => (
+              <NotificationDrawerListItem key={key} variant={variant} onClick={() => clearDismissedToasts(key)}>
+                <NotificationDrawerListItemHeader variant={variant} title={title as string} />
+                <NotificationDrawerListItemBody timestamp={createdAt.toLocaleTimeString()}>
+                  {description}
+                </NotificationDrawerListItemBody>
+              </NotificationDrawerListItem>
+            ))}
+          </NotificationDrawerList>
+        </NotificationDrawerBody>
+      </NotificationDrawer>
+    </>
+  );
+};
+
+export const AlertGroupToaster: React.FunctionComponent = () => (
+  <ToasterProvider hasAnimations maxDisplayed={3} hasDismissedToasts>
+    <ToastButtons />
+  </ToasterProvider>
+);
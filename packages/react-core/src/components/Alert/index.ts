@@ -3,3 +3,4 @@ export * from './AlertContext';
 export * from './AlertActionCloseButton';
 export * from './AlertActionLink';
 export * from './AlertGroup';
+export * from './Toaster';
@@ -53,6 +53,8 @@ export interface CalendarFormat {
   nextMonthAriaLabel?: string;
   /** Which date to start range styles from. */
   rangeStart?: Date;
+  /** Which date to end range styles at. When not passed, the range ends at the selected date. */
+  rangeEnd?: Date;
   /** How to format week days in header. */
   weekdayFormat?: (date: Date) => React.ReactNode;
   /** Day of week that starts the week. 0 is Sunday, 6 is Saturday. */
@@ -68,15 +70,27 @@ export interface CalendarProps extends CalendarFormat, Omit<React.HTMLProps<HTML
   className?: string;
   /** Month/year to base other dates around. */
   date?: Date;
+  /** Month/year to display, independent of the selected date. Used to control the displayed month, such as when
+   * displaying multiple calendar months next to each other.
+   */
+  displayDate?: Date;
+  /** Date previewed as the end of the range, such as a date hovered in another calendar month. When passed, dates
+   * hovered in this calendar month are no longer previewed. Pass null to disable the preview.
+   */
+  hoveredDate?: Date | null;
   /** Flag to set browser focus on the passed date. **/
   isDateFocused?: boolean;
   /** Callback when date is selected. */
   onChange?: (event: React.MouseEvent<HTMLButtonElement, MouseEvent>, date: Date) => void;
+  /** Callback when the mouse enters a date, or leaves the calendar month with an undefined date. */
+  onDateHover?: (event: React.MouseEvent, date?: Date) => void;
   /** Callback when month or year is changed. */
   onMonthChange?: (
     event?: React.MouseEvent | React.ChangeEvent | React.FormEvent<HTMLInputElement>,
     newDate?: Date
   ) => void;
+  /** Callback when the month changes as the focus is moved with the arrow keys to a date of another month. */
+  onKeyboardMonthChange?: (event: React.KeyboardEvent, newDate: Date) => void;
   /** @hide Internal prop to allow pressing escape in select menu to not close popover. */
   onSelectToggle?: (open: boolean) => void;
   /** Functions that returns if a date is valid and selectable. */
@@ -136,7 +150,12 @@ export const CalendarMonth = ({
   className,
   onSelectToggle = () => {},
   onMonthChange = () => {},
+  onKeyboardMonthChange = () => {},
   rangeStart,
+  rangeEnd,
+  displayDate,
+  hoveredDate: hoveredDateProp,
+  onDateHover = () => {},
   prevMonthAriaLabel = 'Previous month',
   nextMonthAriaLabel = 'Next month',
   yearInputAriaLabel = 'Select year',
@@ -151,6 +170,9 @@ export const CalendarMonth = ({
   const [isSelectOpen, setIsSelectOpen] = useState(false);
 
   const getInitialDate = () => {
+    if (isValidDate(displayDate)) {
+      return displayDate;
+    }
     if (isValidDate(dateProp)) {
       return dateProp;
     }
@@ -168,7 +190,8 @@ export const CalendarMonth = ({
   const yearFormatted = yearFormat(focusedDate);
   const [yearInput, setYearInput] = useState(yearFormatted.toString());
 
-  const [hoveredDate, setHoveredDate] = useState<Date>(undefined);
+  const [internalHoveredDate, setHoveredDate] = useState<Date>(undefined);
+  const hoveredDate = hoveredDateProp !== undefined ? hoveredDateProp : internalHoveredDate;
   const focusRef = useRef<HTMLButtonElement>(undefined);
   const [hiddenMonthId] = useState(getUniqueId('hidden-month-span'));
   const [shouldFocus, setShouldFocus] = useState(false);
@@ -176,6 +199,9 @@ export const CalendarMonth = ({
   const isValidated = (date: Date) => validators.every((validator) => validator(date));
   const focusedDateValidated = isValidated(focusedDate);
   useEffect(() => {
+    if (isValidDate(displayDate)) {
+      return;
+    }
     if (isValidDate(dateProp) && !isSameDate(focusedDate, dateProp)) {
       setFocusedDate(dateProp);
     } else if (!dateProp) {
@@ -183,6 +209,16 @@ export const CalendarMonth = ({
     }
   }, [dateProp]);
 
+  useEffect(() => {
+    if (
+      isValidDate(displayDate) &&
+      (displayDate.getMonth() !== focusedDate.getMonth() || displayDate.getFullYear() !== focusedDate.getFullYear())
+    ) {
+      setFocusedDate(displayDate);
+      setYearInput(yearFormat(displayDate).toString());
+    }
+  }, [displayDate]);
+
   useEffect(() => {
     // Calendar month should not be focused on page load
     if ((shouldFocus || isDateFocused) && focusedDateValidated && focusRef.current) {
@@ -212,6 +248,10 @@ export const CalendarMonth = ({
       ev.preventDefault();
       setFocusedDate(newDate);
       setShouldFocus(true);
+      if (newDate.getMonth() !== focusedDate.getMonth()) {
+        setYearInput(yearFormat(newDate).toString());
+        onKeyboardMonthChange(ev, newDate);
+      }
     }
   };
 
@@ -359,7 +399,13 @@ export const CalendarMonth = ({
           />
         </div>
       </div>
-      <table className={styles.calendarMonthCalendar} onMouseLeave={() => setHoveredDate(undefined)}>
+      <table
+        className={styles.calendarMonthCalendar}
+        onMouseLeave={(event) => {
+          setHoveredDate(undefined);
+          onDateHover(event, undefined);
+        }}
+      >
         <thead className={styles.calendarMonthDays}>
           <tr>
             {calendar[0].map(({ date }, index) => (
@@ -376,7 +422,9 @@ export const CalendarMonth = ({
               {week.map(({ date, isValid }, index) => {
                 const dayFormatted = dayFormat(date);
                 const isToday = isSameDate(date, today);
-                const isSelected = isValidDate(dateProp) && isSameDate(date, dateProp);
+                const isSelected =
+                  (isValidDate(dateProp) && isSameDate(date, dateProp)) ||
+                  (isValidDate(rangeEnd) && isSameDate(date, rangeEnd));
                 const isFocused = isSameDate(date, focusedDate);
                 const isAdjacentMonth = date.getMonth() !== focusedDate.getMonth();
                 const isRangeStart = isValidDate(rangeStart) && isSameDate(date, rangeStart);
@@ -385,10 +433,12 @@ export const CalendarMonth = ({
                 if (isValidDate(rangeStart)) {
                   let rangeEndDate: Date;
 
-                  if (isValidDate(dateProp)) {
+                  if (isValidDate(rangeEnd)) {
+                    rangeEndDate = rangeEnd;
+                  } else if (isValidDate(dateProp)) {
                     rangeEndDate = dateProp;
                   }
-                  if (isHoveredDateValid && (!isValidDate(dateProp) || hoveredDate > dateProp)) {
+                  if (isHoveredDateValid && (!rangeEndDate || hoveredDate > rangeEndDate)) {
                     rangeEndDate = hoveredDate;
                   }
 
@@ -421,7 +471,10 @@ export const CalendarMonth = ({
                       )}
                       type="button"
                       onClick={(event) => onChange(event, date)}
-                      onMouseOver={() => setHoveredDate(date)}
+                      onMouseOver={(event) => {
+                        setHoveredDate(date);
+                        onDateHover(event, date);
+                      }}
                       tabIndex={isFocused ? 0 : -1}
                       disabled={!isValid}
                       aria-label={
@@ -1,4 +1,6 @@
 import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import styles from '@patternfly/react-styles/css/components/CalendarMonth/calendar-month';
 
 import { CalendarMonth } from '../CalendarMonth';
 
@@ -64,3 +66,54 @@ test('InlineProps render correct wrapper component and attributes', () => {
   const title = screen.getByText('Title');
   expect(title).toBeVisible();
 });
+
+test('Renders a range ending at rangeEnd instead of the selected date', () => {
+  render(
+    <CalendarMonth displayDate={new Date(2024, 2)} rangeStart={new Date(2024, 2, 4)} rangeEnd={new Date(2024, 2, 8)} />
+  );
+
+  const rangeEnd = screen.getByRole('button', { name: '8 March 2024' }).parentElement;
+  expect(rangeEnd).toHaveClass(styles.modifiers.endRange);
+  expect(rangeEnd).toHaveClass(styles.modifiers.selected);
+  expect(screen.getByRole('button', { name: '6 March 2024' }).parentElement).toHaveClass(styles.modifiers.inRange);
+  expect(screen.getByRole('button', { name: '9 March 2024' }).parentElement).not.toHaveClass(styles.modifiers.inRange);
+});
+
+test('Previews the range up to the passed hoveredDate and calls onDateHover', async () => {
+  const user = userEvent.setup();
+  const onDateHover = jest.fn();
+  render(
+    <CalendarMonth
+      displayDate={new Date(2024, 3)}
+      rangeStart={new Date(2024, 2, 20)}
+      hoveredDate={new Date(2024, 3, 3)}
+      onDateHover={onDateHover}
+    />
+  );
+
+  expect(screen.getByRole('button', { name: '2 April 2024' }).parentElement).toHaveClass(styles.modifiers.inRange);
+  expect(screen.getByRole('button', { name: '3 April 2024' }).parentElement).toHaveClass(styles.modifiers.endRange);
+
+  await user.hover(screen.getByRole('button', { name: '10 April 2024' }));
+  expect(onDateHover).toHaveBeenLastCalledWith(expect.anything(), new Date(2024, 3, 10));
+  expect(screen.getByRole('button', { name: '5 April 2024' }).parentElement).not.toHaveClass(styles.modifiers.inRange);
+});
+
+test('Calls onKeyboardMonthChange rather than onMonthChange when the arrow keys move the focus to another month', async () => {
+  const user = userEvent.setup();
+  const onMonthChange = jest.fn();
+  const onKeyboardMonthChange = jest.fn();
+  render(
+    <CalendarMonth
+      date={new Date(2024, 2, 31)}
+      onMonthChange={onMonthChange}
+      onKeyboardMonthChange={onKeyboardMonthChange}
+    />
+  );
+
+  screen.getByRole('button', { name: '31 March 2024' }).focus();
+  await user.keyboard('{ArrowRight}');
+
+  expect(onKeyboardMonthChange).toHaveBeenCalledWith(expect.anything(), new Date(2024, 3, 1));
+  expect(onMonthChange).not.toHaveBeenCalled();
+});
@@ -0,0 +1,387 @@
+import { Fragment, useEffect, useRef, useState } from 'react';
+import { Modal, ModalBody, ModalProps } from '../Modal';
+import { SearchInput } from '../SearchInput';
+import { Menu, MenuContent, MenuGroup, MenuItem, MenuList } from '../Menu';
+import { Divider } from '../Divider';
+import { KeyboardShortcutKeys } from '../KeyboardShortcuts/KeyboardShortcutsHelp';
+import {
+  KeyboardShortcutsProvider,
+  useKeyboardShortcut,
+  useKeyboardShortcutRegistry
+} from '../KeyboardShortcuts/KeyboardShortcuts';
+import { KeyboardShortcutScopes } from '../KeyboardShortcuts/keyboardShortcutRegistry';
+import { Flex, FlexItem } from '../../layouts/Flex';
+import { createLocalStorageAdapter } from '../../helpers/localStorageAdapter';
+import { getUniqueId } from '../../helpers/util';
+import { useIsomorphicLayoutEffect } from '../../helpers/useIsomorphicLayout';
+import { CommandPaletteCommand, CommandPaletteMatch, filterCommands, flattenCommands } from './commandPaletteUtils';
+
+/** Loads and saves the identifiers of the recently run commands of a command palette, e.g. in localStorage. */
+export interface CommandPaletteStorageAdapter {
+  /** Returns the saved identifiers, most recent first, or undefined when none were saved. */
+  load: () => string[] | undefined;
+  /** Saves the identifiers, most recent first. */
+  save: (recentCommandIds: string[]) => void;
+}
+
+/** Storage adapter which saves the recently run commands of a command palette in localStorage under the passed key. */
+export const localStorageCommandPaletteAdapter = (
+  key: string = 'pf-command-palette-recent'
+): CommandPaletteStorageAdapter => createLocalStorageAdapter<string[]>(key);
+
+export interface CommandPaletteProps {
+  /** Commands of the palette. Commands with nested commands open a page listing them when selected. */
+  commands: CommandPaletteCommand[];
+  /** Flag indicating the palette is open. When not passed, the palette manages its open state itself and is opened
+   * with its shortcut.
+   */
+  isOpen?: boolean;
+  /** Callback triggered when the palette requests to open or close, e.g. when its shortcut or escape is pressed, or a
+   * command is run.
+   */
+  onOpenChange?: (isOpen: boolean) => void;
+  /** Callback triggered when a command is run from the palette or with its shortcut. */
+  onCommandRun?: (command: CommandPaletteCommand) => void;
+  /** Keyboard shortcut which opens and closes the palette from anywhere on the page. Mod is the command key on macOS
+   * and Ctrl elsewhere. Pass null to not register a shortcut.
+   */
+  shortcut?: string | null;
+  /** Description of the shortcut of the palette, listed in the keyboard shortcuts help. */
+  shortcutDescription?: string;
+  /** Flag indicating the shortcuts of commands run their action from anywhere on the page while the palette is closed.
+   * They are registered to the nearest keyboard shortcut registry, and listed in its keyboard shortcuts help.
+   */
+  hasCommandShortcuts?: boolean;
+  /** Maximum number of recently run commands listed while the search input is empty. Pass 0 to not list them. */
+  maxRecentCommands?: number;
+  /** Adapter which loads the recently run commands when the palette is first rendered and saves them when a command
+   * is run, so that they survive reloads.
+   */
+  storage?: CommandPaletteStorageAdapter;
+  /** Label of the group of recently run commands. */
+  recentCommandsLabel?: string;
+  /** Placeholder of the search input. */
+  placeholder?: string;
+  /** Accessible label of the search input. */
+  searchAriaLabel?: string;
+  /** Message displayed when no command matches the text typed in the search input. */
+  noResultsMessage?: React.ReactNode;
+  /** Maximum height of the list of commands, beyond which it scrolls. */
+  maxMenuHeight?: string;
+  /** Accessible label of the palette. */
+  'aria-label'?: string;
+  /** Additional classes added to the palette. */
+  className?: string;
+  /** Id of the palette. */
+  id?: string;
+  /** Additional props passed to the modal of the palette. */
+  modalProps?: Omit<ModalProps, 'children' | 'isOpen' | 'onClose' | 'onEscapePress' | 'aria-label' | 'ref'>;
+}
+
+interface CommandPaletteSection {
+  label?: string;
+  matches: CommandPaletteMatch[];
+}
+
+const highlightMatches = (title: string, indices: number[]) => {
+  if (!indices.length) {
+    return title;
+  }
+  const matchedIndices = new Set(indices);
+  const segments: { text: string; isMatch: boolean }[] = [];
+  Array.from(title).forEach((character, index) => {
+    const isMatch = matchedIndices.has(index);
+    const lastSegment = segments[segments.length - 1];
+    if (lastSegment && lastSegment.isMatch === isMatch) {
+      lastSegment.text += character;
+    } else {
+      segments.push({ text: character, isMatch });
+    }
+  });
+  return segments.map(({ text, isMatch }, index) =>
+    isMatch ? <mark key={index}>{text}</mark> : <Fragment key={index}>{text}</Fragment>
+  );
+};
+
+const CommandPaletteContent: React.FunctionComponent<CommandPaletteProps> = ({
+  commands,
+  isOpen: isOpenProp,
+  onOpenChange,
+  onCommandRun,
+  shortcut = 'Mod+K',
+  shortcutDescription = 'Open the command palette',
+  hasCommandShortcuts = true,
+  maxRecentCommands = 5,
+  storage,
+  recentCommandsLabel = 'Recent',
+  placeholder = 'Type a command or search',
+  searchAriaLabel = 'Search commands',
+  noResultsMessage = 'No results found',
+  maxMenuHeight = '400px',
+  'aria-label': ariaLabel = 'Command palette',
+  className,
+  id,
+  modalProps
+}: CommandPaletteProps) => {
+  const [isOpenState, setIsOpenState] = useState(false);
+  const [query, setQuery] = useState('');
+  // Commands whose nested pages were opened, the last one being the current page
+  const [pages, setPages] = useState<CommandPaletteCommand[]>([]);
+  const [focusedIndex, setFocusedIndex] = useState(0);
+  const [recentCommandIds, setRecentCommandIds] = useState<string[]>(() => storage?.load() ?? []);
+  const [paletteId] = useState(() => id || getUniqueId('pf-command-palette'));
+  const isOpen = isOpenProp ?? isOpenState;
+
+  const searchInputId = `${paletteId}-search`;
+  const menuId = `${paletteId}-menu`;
+  const currentPage = pages[pages.length - 1];
+  const pageCommands = currentPage ? currentPage.commands : commands;
+
+  const sections: CommandPaletteSection[] = [];
+  if (query) {
+    sections.push({ matches: filterCommands(pageCommands, query) });
+  } else {
+    if (!currentPage && maxRecentCommands > 0) {
+      const allCommands = flattenCommands(commands);
+      const recentMatches = recentCommandIds
+        .map((recentId) => allCommands.find((command) => command.id === recentId))
+        .filter((command) => command && !command.isDisabled)
+        .slice(0, maxRecentCommands)
+        .map((command) => ({ command, score: 0, titleIndices: [] }));
+      recentMatches.length && sections.push({ label: recentCommandsLabel, matches: recentMatches });
+    }
+    const recentSectionCount = sections.length;
+    // Commands are listed by group, in the order the groups first appear
+    filterCommands(pageCommands, '').forEach((match) => {
+      const section = sections.slice(recentSectionCount).find((section) => section.label === match.command.group);
+      if (section) {
+        section.matches.push(match);
+      } else {
+        sections.push({ label: match.command.group, matches: [match] });
+      }
+    });
+  }
+  const items = sections.flatMap((section) => section.matches);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setPages([]);
+      setFocusedIndex(0);
+    }
+  }, [isOpen]);
+
+  const setIsOpen = (nextIsOpen: boolean) => {
+    isOpenProp === undefined && setIsOpenState(nextIsOpen);
+    onOpenChange && onOpenChange(nextIsOpen);
+  };
+
+  const openPage = (pages: CommandPaletteCommand[]) => {
+    setPages(pages);
+    setQuery('');
+    setFocusedIndex(0);
+  };
+
+  const runCommand = (command: CommandPaletteCommand) => {
+    if (command.isDisabled) {
+      return;
+    }
+    if (command.commands) {
+      openPage([...pages, command]);
+      return;
+    }
+    isOpen && setIsOpen(false);
+    if (maxRecentCommands > 0) {
+      const nextRecentCommandIds = [
+        command.id,
+        ...recentCommandIds.filter((recentId) => recentId !== command.id)
+      ].slice(0, maxRecentCommands);
+      setRecentCommandIds(nextRecentCommandIds);
+      storage?.save(nextRecentCommandIds);
+    }
+    command.action && command.action();
+    onCommandRun && onCommandRun(command);
+  };
+
+  const registry = useKeyboardShortcutRegistry();
+  // The modal of the palette blocks the shortcuts of the page while it is open, except for the shortcut closing it
+  useKeyboardShortcut(shortcut, () => setIsOpen(!isOpen), {
+    description: shortcutDescription,
+    scope: isOpen ? KeyboardShortcutScopes.modal : KeyboardShortcutScopes.page
+  });
+
+  // The latest runCommand is called by the shortcuts of commands without registering them again on each render
+  const runCommandRef = useRef(runCommand);
+  useIsomorphicLayoutEffect(() => {
+    runCommandRef.current = runCommand;
+  });
+
+  useEffect(() => {
+    if (!hasCommandShortcuts) {
+      return;
+    }
+    const unregisterCommands = flattenCommands(commands)
+      .filter((command) => command.shortcut && command.action && !command.isDisabled)
+      .map((command) =>
+        registry.register({
+          keys: command.shortcut,
+          description: command.title,
+          group: command.group,
+          action: () => runCommandRef.current(command)
+        })
+      );
+    const stopListening = registry.listen();
+    return () => {
+      unregisterCommands.forEach((unregister) => unregister());
+      stopListening();
+    };
+  }, [registry, commands, hasCommandShortcuts]);
+
+  const focusNextItem = (step: 1 | -1) => {
+    if (items.every((match) => match.command.isDisabled)) {
+      return;
+    }
+    let index = focusedIndex;
+    do {
+      index = (index + step + items.length) % items.length;
+    } while (items[index].command.isDisabled);
+    setFocusedIndex(index);
+  };
+
+  const onSearchKeyDown = (event: React.KeyboardEvent) => {
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp':
+        event.preventDefault();
+        focusNextItem(event.key === 'ArrowDown' ? 1 : -1);
+        break;
+      case 'Enter':
+        event.preventDefault();
+        items[focusedIndex] && runCommand(items[focusedIndex].command);
+        break;
+      case 'Backspace':
+        if (!query && currentPage) {
+          event.preventDefault();
+          openPage(pages.slice(0, -1));
+        }
+        break;
+    }
+  };
+
+  const renderItem = ({ command, titleIndices }: CommandPaletteMatch, index: number) => {
+    const title = highlightMatches(command.title, titleIndices);
+    return (
+      <MenuItem
+        key={`${index}-${command.id}`}
+        id={`${menuId}-item-${index}`}
+        itemId={command.id}
+        icon={command.icon}
+        description={command.description}
+        isDisabled={command.isDisabled}
+        isFocused={focusedIndex === index}
+        direction={command.commands ? 'down' : undefined}
+        onClick={() => runCommand(command)}
+      >
+        {command.shortcut ? (
+          <Flex justifyContent={{ default: 'justifyContentSpaceBetween' }} flexWrap={{ default: 'nowrap' }}>
+            <FlexItem>{title}</FlexItem>
+            <FlexItem>
+              <KeyboardShortcutKeys keys={command.shortcut} />
+            </FlexItem>
+          </Flex>
+        ) : (
+          title
+        )}
+      </MenuItem>
+    );
+  };
+
+  let itemIndex = 0;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onEscapePress={() => setIsOpen(false)}
+      variant="medium"
+      position="top"
+      aria-label={ariaLabel}
+      elementToFocus={`#${searchInputId}`}
+      className={className}
+      id={paletteId}
+      {...modalProps}
+    >
+      <ModalBody>
+        <div onKeyDown={onSearchKeyDown}>
+          <SearchInput
+            searchInputId={searchInputId}
+            aria-label={searchAriaLabel}
+            placeholder={currentPage ? currentPage.title : placeholder}
+            value={query}
+            onChange={(_event, value) => {
+              setQuery(value);
+              setFocusedIndex(0);
+            }}
+            onClear={() => {
+              setQuery('');
+              setFocusedIndex(0);
+            }}
+            inputProps={{
+              role: 'combobox',
+              'aria-expanded': true,
+              'aria-controls': menuId,
+              'aria-autocomplete': 'list',
+              ...(items[focusedIndex] && { 'aria-activedescendant': `${menuId}-item-${focusedIndex}` })
+            }}
+          />
+        </div>
+        <Menu id={menuId} role="listbox" isPlain>
+          <MenuContent maxMenuHeight={maxMenuHeight}>
+            {currentPage && (
+              <>
+                <MenuList>
+                  <MenuItem
+                    itemId={`${currentPage.id}-back`}
+                    direction="up"
+                    onClick={() => openPage(pages.slice(0, -1))}
+                  >
+                    {currentPage.title}
+                  </MenuItem>
+                </MenuList>
+                <Divider />
+              </>
+            )}
+            {!items.length && (
+              <MenuList>
+                <MenuItem isAriaDisabled>{noResultsMessage}</MenuItem>
+              </MenuList>
+            )}
+            {sections.map(({ label, matches }, sectionIndex) => {
+              const list = <MenuList>{matches.map((match) => renderItem(match, itemIndex++))}</MenuList>;
+              return label !== undefined ? (
+                <MenuGroup key={sectionIndex} label={label}>
+                  {list}
+                </MenuGroup>
+              ) : (
+                <Fragment key={sectionIndex}>{list}</Fragment>
+              );
+            })}
+          </MenuContent>
+        </Menu>
+      </ModalBody>
+    </Modal>
+  );
+};
+
+export const CommandPalette: React.FunctionComponent<CommandPaletteProps> = (props: CommandPaletteProps) => {
+  const registry = useKeyboardShortcutRegistry();
+
+  // Outside of a provider, the shortcuts of the palette are registered with a registry of its own
+  return registry ? (
+    <CommandPaletteContent {...props} />
+  ) : (
+    <KeyboardShortcutsProvider>
+      <CommandPaletteContent {...props} />
+    </KeyboardShortcutsProvider>
+  );
+};
+CommandPalette.displayName = 'CommandPalette';
@@ -0,0 +1,126 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+import { CommandPalette } from '../CommandPalette';
+import { CommandPaletteCommand } from '../commandPaletteUtils';
+
+const createCommands = (): CommandPaletteCommand[] => [
+  { id: 'settings', title: 'Open settings', group: 'Navigation', action: jest.fn() },
+  { id: 'theme', title: 'Toggle theme', group: 'Preferences', shortcut: 'Mod+Shift+L', action: jest.fn() },
+  { id: 'home', title: 'Go home', group: 'Navigation', keywords: ['dashboard'], action: jest.fn() },
+  {
+    id: 'project',
+    title: 'Switch project',
+    commands: [
+      { id: 'project-a', title: 'Project A', action: jest.fn() },
+      { id: 'project-b', title: 'Project B', action: jest.fn() }
+    ]
+  }
+];
+
+const getOptionNames = () => screen.getAllByRole('option').map((option) => option.textContent);
+
+test('Opens with the shortcut and lists the commands by group', async () => {
+  const user = userEvent.setup();
+  render(<CommandPalette commands={createCommands()} />);
+
+  expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+
+  await user.keyboard('{Control>}k{/Control}');
+
+  expect(screen.getByRole('dialog', { name: 'Command palette' })).toBeVisible();
+  expect(screen.getByRole('combobox', { name: 'Search commands' })).toHaveFocus();
+  expect(screen.getByText('Navigation')).toBeVisible();
+  expect(getOptionNames()).toEqual(['Open settings', 'Go home', 'Toggle themeCtrlShiftL', 'Switch project']);
+});
+
+test('Filters commands and highlights the matched characters', async () => {
+  const user = userEvent.setup();
+  render(<CommandPalette commands={createCommands()} isOpen />);
+
+  await user.type(screen.getByRole('combobox'), 'gho');
+
+  expect(getOptionNames()).toEqual(['Go home']);
+  expect(screen.getAllByRole('option')[0].querySelectorAll('mark')).toHaveLength(2);
+
+  await user.clear(screen.getByRole('combobox'));
+  await user.type(screen.getByRole('combobox'), 'dash');
+
+  expect(getOptionNames()).toEqual(['Go home']);
+
+  await user.type(screen.getByRole('combobox'), 'zzz');
+
+  expect(screen.getByText('No results found')).toBeVisible();
+});
+
+test('Runs the focused command with the keyboard and closes', async () => {
+  const commands = createCommands();
+  const onOpenChange = jest.fn();
+  const onCommandRun = jest.fn();
+  const user = userEvent.setup();
+  render(<CommandPalette commands={commands} isOpen onOpenChange={onOpenChange} onCommandRun={onCommandRun} />);
+
+  await user.keyboard('{ArrowDown}');
+
+  expect(screen.getByRole('combobox')).toHaveAttribute(
+    'aria-activedescendant',
+    screen.getByRole('option', { name: 'Go home' }).id
+  );
+
+  await user.keyboard('{Enter}');
+
+  expect(commands[2].action).toHaveBeenCalled();
+  expect(onCommandRun).toHaveBeenCalledWith(commands[2]);
+  expect(onOpenChange).toHaveBeenCalledWith(false);
+});
+
+test('Lists recently run commands first', async () => {
+  const storage = { load: jest.fn(() => ['theme']), save: jest.fn() };
+  const user = userEvent.setup();
+  render(<CommandPalette commands={createCommands()} storage={storage} />);
+
+  await user.keyboard('{Control>}k{/Control}');
+
+  expect(screen.getByText('Recent')).toBeVisible();
+  expect(getOptionNames()[0]).toBe('Toggle themeCtrlShiftL');
+
+  await user.click(screen.getByRole('option', { name: 'Open settings' }));
+
+  expect(storage.save).toHaveBeenCalledWith(['settings', 'theme']);
+  expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+});
+
+test('Opens nested pages and goes back to the parent page', async () => {
+  const commands = createCommands();
+  const user = userEvent.setup();
+  render(<CommandPalette commands={commands} isOpen />);
+
+  await user.click(screen.getByRole('option', { name: 'Switch project' }));
+
+  expect(getOptionNames()).toEqual(['Switch project', 'Project A', 'Project B']);
+  expect(screen.getByRole('combobox')).toHaveAttribute('placeholder', 'Switch project');
+
+  await user.click(screen.getByRole('option', { name: 'Project B' }));
+
+  expect(commands[3].commands[1].action).toHaveBeenCalled();
+});
+
+test('Goes back from a nested page with backspace', async () => {
+  const user = userEvent.setup();
+  render(<CommandPalette commands={createCommands()} isOpen />);
+
+  await user.click(screen.getByRole('option', { name: 'Switch project' }));
+  await user.type(screen.getByRole('combobox'), '{Backspace}');
+
+  expect(getOptionNames()).toContain('Open settings');
+});
+
+test('Runs commands with their shortcuts while closed', async () => {
+  const commands = createCommands();
+  const user = userEvent.setup();
+  render(<CommandPalette commands={commands} />);
+
+  await user.keyboard('{Control>}{Shift>}l{/Shift}{/Control}');
+
+  expect(commands[1].action).toHaveBeenCalled();
+});
@@ -0,0 +1,25 @@
+import { filterCommands, fuzzyMatch } from '../commandPaletteUtils';
+
+const commands = [
+  { id: 'settings', title: 'Open settings', keywords: ['preferences'] },
+  { id: 'theme', title: 'Toggle theme' },
+  { id: 'logout', title: 'Log out', keywords: ['sign out'] }
+];
+
+test('fuzzy matches characters in order and returns their indices', () => {
+  expect(fuzzyMatch('tgt', 'Toggle theme')?.indices).toEqual([0, 2, 7]);
+  expect(fuzzyMatch('tt', 'Log out')).toBeNull();
+  expect(fuzzyMatch('', 'Log out')).toEqual({ score: 0, indices: [] });
+});
+
+test('prefers substring matches over scattered matches', () => {
+  expect(fuzzyMatch('out', 'Log out')?.indices).toEqual([4, 5, 6]);
+  expect(fuzzyMatch('the', 'Toggle theme')?.indices).toEqual([7, 8, 9]);
+});
+
+test('ranks title matches first and keyword matches after them', () => {
+  expect(filterCommands(commands, 'out').map(({ command }) => command.id)).toEqual(['logout']);
+  expect(filterCommands(commands, 'pref').map(({ command }) => command.id)).toEqual(['settings']);
+  expect(filterCommands(commands, 'pref')[0].titleIndices).toEqual([]);
+  expect(filterCommands(commands, 'o').map(({ command }) => command.id)).toEqual(['settings', 'theme', 'logout']);
+});
@@ -0,0 +1,109 @@
+/** Command of a command palette. */
+export interface CommandPaletteCommand {
+  /** Unique identifier of the command, used to remember recently run commands. */
+  id: string;
+  /** Title of the command, which the text typed in the search input is matched against. */
+  title: string;
+  /** Additional words the text typed in the search input is matched against, e.g. synonyms of the title. */
+  keywords?: string[];
+  /** Label of the group the command is listed in while the search input is empty. */
+  group?: string;
+  /** Description of the command. */
+  description?: React.ReactNode;
+  /** Icon of the command. */
+  icon?: React.ReactNode;
+  /** Keyboard shortcut of the command, e.g. "Mod+Shift+P", or "g s" for keys pressed one after the other. Mod is the
+   * command key on macOS and Ctrl elsewhere.
+   */
+  shortcut?: string;
+  /** Callback run when the command is selected, or when its shortcut is pressed. */
+  action?: () => void;
+  /** Commands of a nested page, which is opened when the command is selected. */
+  commands?: CommandPaletteCommand[];
+  /** Flag indicating the command cannot be run. */
+  isDisabled?: boolean;
+}
+
+/** Command matching the text typed in the search input. */
+export interface CommandPaletteMatch {
+  /** The matching command. */
+  command: CommandPaletteCommand;
+  /** Score of the match, higher scores being better matches. */
+  score: number;
+  /** Indices of the characters of the title which matched, to highlight them. */
+  titleIndices: number[];
+}
+
+interface FuzzyMatch {
+  score: number;
+  indices: number[];
+}
+
+const isWordStart = (text: string, index: number) => index === 0 || /[\s\-_/.:]/.test(text[index - 1]);
+
+const scoreIndices = (text: string, indices: number[]) =>
+  indices.reduce(
+    (score, index, position) =>
+      score + 1 + (position > 0 && indices[position - 1] === index - 1 ? 5 : 0) + (isWordStart(text, index) ? 3 : 0),
+    0
+  ) -
+  indices[0] * 0.1;
+
+/**
+ * Matches the query against the text when all of its characters appear in the text in the same order, ignoring case.
+ * Consecutive characters and characters at the start of words score higher.
+ */
+export const fuzzyMatch = (query: string, text: string): FuzzyMatch | null => {
+  const lowerQuery = query.toLowerCase();
+  const lowerText = text.toLowerCase();
+  if (!lowerQuery) {
+    return { score: 0, indices: [] };
+  }
+
+  const indices: number[] = [];
+  let textIndex = 0;
+  for (const character of lowerQuery) {
+    textIndex = lowerText.indexOf(character, textIndex);
+    if (textIndex === -1) {
+      return null;
+    }
+    indices.push(textIndex++);
+  }
+
+  // A greedy match can miss a better match of the whole query as a substring
+  const substringIndex = lowerText.indexOf(lowerQuery);
+  const substringIndices =
+    substringIndex === -1 ? null : Array.from(lowerQuery, (_character, index) => substringIndex + index);
+  const score = scoreIndices(text, indices);
+  const substringScore = substringIndices ? scoreIndices(text, substringIndices) : -Infinity;
+
+  return substringScore >= score ? { score: substringScore, indices: substringIndices } : { score, indices };
+};
+
+/**
+ * Returns the commands matching the query by title or keywords, best matches first. Commands only matching by keywords
+ * rank below commands matching by title.
+ */
+export const filterCommands = (commands: CommandPaletteCommand[], query: string): CommandPaletteMatch[] => {
+  if (!query) {
+    return commands.map((command) => ({ command, score: 0, titleIndices: [] }));
+  }
+
+  return commands
+    .map((command) => {
+      const titleMatch = fuzzyMatch(query, command.title);
+      if (titleMatch) {
+        return { command, score: titleMatch.score, titleIndices: titleMatch.indices };
+      }
+      const keywordScores = (command.keywords ?? [])
+        .map((keyword) => fuzzyMatch(query, keyword)?.score)
+        .filter((score) => score !== undefined);
+      return keywordScores.length ? { command, score: Math.max(...keywordScores) / 2, titleIndices: [] } : null;
+    })
+    .filter(Boolean)
+    .sort((match1, match2) => match2.score - match1.score);
+};
+
+/** Returns the commands and the commands of their nested pages. */
+export const flattenCommands = (commands: CommandPaletteCommand[]): CommandPaletteCommand[] =>
+  commands.flatMap((command) => [command, ...flattenCommands(command.commands ?? [])]);
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import {
+  Button,
+  CommandPalette,
+  CommandPaletteCommand,
+  Content,
+  KeyboardShortcutKeys,
+  localStorageCommandPaletteAdapter
+} from '@patternfly/react-core';
+import CogIcon from '@patternfly/react-icons/dist/esm/icons/cog-icon';
+import CubeIcon from '@patternfly/react-icons/dist/esm/icons/cube-icon';
+import HomeIcon from '@patternfly/react-icons/dist/esm/icons/home-icon';
+import MoonIcon from '@patternfly/react-icons/dist/esm/icons/moon-icon';
+import SignOutAltIcon from '@patternfly/react-icons/dist/esm/icons/sign-out-alt-icon';
+
+const storage = localStorageCommandPaletteAdapter('pf-command-palette-example');
+
+export const CommandPaletteBasic: React.FunctionComponent = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [lastCommand, setLastCommand] = useState<string>();
+
+  const commands: CommandPaletteCommand[] = [
+    { id: 'home', title: 'Go to dashboard', keywords: ['home'], group: 'Navigation', icon: <HomeIcon /> },
+    {
+      id: 'settings',
+      title: 'Open settings',
+      keywords: ['preferences'],
+      group: 'Navigation',
+      icon: <CogIcon />,
+      shortcut: 'Mod+,'
+    },
+    {
+      id: 'project',
+      title: 'Switch project',
+      description: 'Change the project resources are listed for',
+      group: 'Navigation',
+      icon: <CubeIcon />,
+      commands: ['Frontend', 'Backend', 'Infrastructure'].map((project) => ({
+        id: `project-${project.toLowerCase()}`,
+        title: project
+      }))
+    },
+    { id: 'theme', title: 'Toggle dark theme', group: 'Preferences', icon: <MoonIcon />, shortcut: 'Mod+Shift+L' },
+    { id: 'logout', title: 'Log out', keywords: ['sign out'], group: 'Account', icon: <SignOutAltIcon /> }
+  ].map((command: CommandPaletteCommand) => ({
+    ...command,
+    ...(!command.commands && { action: () => setLastCommand(command.title) })
+  }));
+
+  return (
+    <>
+      <Content component="p">
+        Press <KeyboardShortcutKeys keys="Mod+K" /> or the button to open the command palette.
+        {lastCommand && ` Last command: ${lastCommand}.`}
+      </Content>
+      <Button variant="secondary" onClick={() => setIsOpen(true)}>
+        Open command palette
+      </Button>
+      <CommandPalette
+        commands={commands}
+        isOpen={isOpen}
+        onOpenChange={setIsOpen}
+        onCommandRun={(command) => command.id.startsWith('project-') && setLastCommand(`Switch to ${command.title}`)}
+        storage={storage}
+      />
+    </>
+  );
+};
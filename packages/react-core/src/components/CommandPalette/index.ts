@@ -0,0 +1,2 @@
+export * from './CommandPalette';
+export * from './commandPaletteUtils';
@@ -0,0 +1,445 @@
+import { forwardRef, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { css } from '@patternfly/react-styles';
+import styles from '@patternfly/react-styles/css/components/DatePicker/date-picker';
+import calendarMonthStyles from '@patternfly/react-styles/css/components/CalendarMonth/calendar-month';
+import OutlinedCalendarAltIcon from '@patternfly/react-icons/dist/esm/icons/outlined-calendar-alt-icon';
+import cssFormControlWidthChars from '@patternfly/react-tokens/dist/esm/c_date_picker__input_c_form_control_width_chars';
+import { TextInput, TextInputProps } from '../TextInput/TextInput';
+import { Button } from '../Button';
+import { Popover, PopoverProps } from '../Popover/Popover';
+import { InputGroup, InputGroupItem, InputGroupText } from '../InputGroup';
+import { Menu, MenuContent, MenuItem, MenuList } from '../Menu';
+import { Flex, FlexItem } from '../../layouts/Flex';
+import { CalendarMonth, CalendarFormat } from '../CalendarMonth';
+import { DatePickerRef, yyyyMMddFormat } from '../DatePicker';
+import { HelperText, HelperTextItem } from '../HelperText';
+import { KeyTypes } from '../../helpers';
+import { isValidDate } from '../../helpers/datetimeUtils';
+
+/** A range of dates, either of which may be undefined while the range is incomplete. */
+export interface DateRange {
+  /** First date of the range. */
+  startDate?: Date;
+  /** Last date of the range. */
+  endDate?: Date;
+}
+
+/** A range of dates which can be selected with a single click, such as "Last 7 days". */
+export interface DateRangePreset {
+  /** Label of the preset. */
+  label: React.ReactNode;
+  /** Returns the range of dates selected by the preset. Called each time the preset is selected. */
+  getDateRange: () => Required<DateRange>;
+}
+
+/** The main date range picker component. */
+
+export interface DateRangePickerProps
+  extends Omit<CalendarFormat, 'rangeStart' | 'rangeEnd' | 'inlineProps'>,
+    Omit<React.HTMLProps<HTMLDivElement>, 'onChange' | 'onBlur' | 'disabled' | 'ref' | 'value' | 'placeholder'> {
+  /** The container to append the popover to. Defaults to 'inline'. */
+  appendTo?: HTMLElement | ((ref?: HTMLElement) => HTMLElement) | 'inline';
+  /** Accessible label for the button to open the date range picker. */
+  buttonAriaLabel?: string;
+  /** Additional classes added to the date range picker. */
+  className?: string;
+  /** How to format the dates in the text inputs. */
+  dateFormat?: (date: Date) => string;
+  /** How to parse the dates in the text inputs. */
+  dateParse?: (value: string) => Date;
+  /** Last date of the selected range. */
+  endDate?: Date;
+  /** Accessible label for the end date text input. */
+  endDateAriaLabel?: string;
+  /** Additional props for the end date text input. */
+  endDateInputProps?: TextInputProps;
+  /** Helper text to display alongside the date range picker. Expects a HelperText component. */
+  helperText?: React.ReactNode;
+  /** Error message to display when a text input contains a non-empty value in an invalid format. */
+  invalidFormatText?: string;
+  /** Error message to display when the end date is before the start date. */
+  invalidRangeText?: string;
+  /** Flag indicating the date range picker is disabled. */
+  isDisabled?: boolean;
+  /** Latest date which can be selected. */
+  maxDate?: Date;
+  /** Error message to display when a date is after the maxDate. */
+  maxDateErrorText?: (maxDate: Date) => string;
+  /** Earliest date which can be selected. */
+  minDate?: Date;
+  /** Error message to display when a date is before the minDate. */
+  minDateErrorText?: (minDate: Date) => string;
+  /** Callback when the selected range changes, either by selecting dates in the calendar, selecting a preset or
+   * editing the text inputs. Dates which are empty or cannot be parsed are undefined.
+   */
+  onChange?: (event: React.FormEvent<HTMLInputElement> | React.MouseEvent, startDate?: Date, endDate?: Date) => void;
+  /** String to display in the empty text inputs as a hint for the expected date format. */
+  placeholder?: string;
+  /** Props to pass to the popover that contains the calendar months. */
+  popoverProps?: Partial<Omit<PopoverProps, 'appendTo'>>;
+  /** Ranges of dates which can be selected with a single click, displayed next to the calendar months. */
+  presets?: DateRangePreset[];
+  /** Accessible label for the list of presets. */
+  presetsAriaLabel?: string;
+  /** Text displayed between the start date and end date text inputs. */
+  separatorText?: React.ReactNode;
+  /** First date of the selected range. */
+  startDate?: Date;
+  /** Accessible label for the start date text input. */
+  startDateAriaLabel?: string;
+  /** Additional props for the start date text input. */
+  startDateInputProps?: TextInputProps;
+  /** Functions that return an error message if a date is invalid, in the same way as the date picker validators. */
+  validators?: ((date: Date) => string)[];
+}
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const addMonths = (date: Date, months: number) => new Date(date.getFullYear(), date.getMonth() + months, 1);
+
+const getLastDaysPreset = (label: string, days: number): DateRangePreset => ({
+  label,
+  getDateRange: () => {
+    const endDate = startOfDay(new Date());
+    return { startDate: addDays(endDate, 1 - days), endDate };
+  }
+});
+
+const getMonthPreset = (label: string, monthOffset: number): DateRangePreset => ({
+  label,
+  getDateRange: () => {
+    const startDate = addMonths(new Date(), monthOffset);
+    return { startDate, endDate: addDays(addMonths(startDate, 1), -1) };
+  }
+});
+
+/** Commonly used presets, which can be passed to the presets of the date range picker. */
+export const dateRangePresets = {
+  today: getLastDaysPreset('Today', 1),
+  last7Days: getLastDaysPreset('Last 7 days', 7),
+  last30Days: getLastDaysPreset('Last 30 days', 30),
+  thisMonth: getMonthPreset('This month', 0),
+  lastMonth: getMonthPreset('Last month', -1)
+};
+
+/** Returns whether two optional dates are the same, treating missing and invalid dates as equal. */
+const isSameOptionalDate = (date1?: Date, date2?: Date) =>
+  isValidDate(date1) && isValidDate(date2)
+    ? date1.getTime() === date2.getTime()
+    : !isValidDate(date1) && !isValidDate(date2);
+
+const DateRangePickerBase = (
+  {
+    className,
+    locale = undefined,
+    dateFormat = yyyyMMddFormat,
+    dateParse = (val: string) => (val.split('-').length === 3 ? new Date(`${val}T00:00:00`) : new Date(undefined)),
+    isDisabled = false,
+    placeholder = 'YYYY-MM-DD',
+    startDate: startDateProp,
+    endDate: endDateProp,
+    startDateAriaLabel = 'Start date',
+    endDateAriaLabel = 'End date',
+    buttonAriaLabel = 'Toggle date range picker',
+    separatorText = 'to',
+    onChange = (): any => undefined,
+    invalidFormatText = 'Invalid date',
+    invalidRangeText = 'End date must not be before start date',
+    minDate,
+    maxDate,
+    minDateErrorText = (date: Date) => `Date must not be before ${dateFormat(date)}`,
+    maxDateErrorText = (date: Date) => `Date must not be after ${dateFormat(date)}`,
+    validators = [],
+    presets = [],
+    presetsAriaLabel = 'Date range presets',
+    helperText,
+    appendTo = 'inline',
+    popoverProps,
+    monthFormat,
+    weekdayFormat,
+    longWeekdayFormat,
+    dayFormat,
+    weekStart,
+    cellAriaLabel,
+    prevMonthAriaLabel,
+    nextMonthAriaLabel,
+    yearInputAriaLabel,
+    startDateInputProps = {},
+    endDateInputProps = {},
+    style: styleProps = {},
+    ...props
+  }: DateRangePickerProps,
+  ref: React.Ref<DatePickerRef>
+) => {
+  const formatDate = (date?: Date) => (isValidDate(date) ? dateFormat(date) : '');
+  const [startText, setStartText] = useState(formatDate(startDateProp));
+  const [endText, setEndText] = useState(formatDate(endDateProp));
+  const [errorText, setErrorText] = useState('');
+  const [popoverOpen, setPopoverOpen] = useState(false);
+  const [selectOpen, setSelectOpen] = useState(false);
+  // First date clicked in the calendar, while the end of the range is being selected
+  const [pendingStartDate, setPendingStartDate] = useState<Date>(undefined);
+  const [hoveredDate, setHoveredDate] = useState<Date>(undefined);
+  const [displayDate, setDisplayDate] = useState(addMonths(new Date(), 0));
+  const widthChars = useMemo(() => Math.max(dateFormat(new Date()).length, placeholder.length), [dateFormat]);
+  const style = { [cssFormControlWidthChars.name]: widthChars, ...styleProps };
+  const buttonRef = useRef<HTMLButtonElement>(undefined);
+  const triggerRef = useRef<HTMLDivElement>(undefined);
+
+  const startDate = dateParse(startText);
+  const endDate = dateParse(endText);
+
+  // Text which cannot be parsed is kept when the selected dates are unchanged, so that typing is not interrupted
+  const startDatePropTime = startDateProp?.getTime();
+  const endDatePropTime = endDateProp?.getTime();
+  useEffect(() => {
+    if (!isSameOptionalDate(startDateProp, dateParse(startText))) {
+      setStartText(formatDate(startDateProp));
+    }
+    if (!isSameOptionalDate(endDateProp, dateParse(endText))) {
+      setEndText(formatDate(endDateProp));
+    }
+  }, [startDatePropTime, endDatePropTime]);
+
+  const getDateErrors = (date: Date) => [
+    ...(isValidDate(minDate) && date < startOfDay(minDate) ? [minDateErrorText(minDate)] : []),
+    ...(isValidDate(maxDate) && date > maxDate ? [maxDateErrorText(maxDate)] : []),
+    ...validators.map((validator) => validator(date)).filter(Boolean)
+  ];
+
+  const validate = (newStartText: string, newEndText: string) => {
+    const newStartDate = dateParse(newStartText);
+    const newEndDate = dateParse(newEndText);
+    const errors = [newStartText, newEndText].reduce<string[]>((acc, text) => {
+      const date = dateParse(text);
+      if (!text) {
+        return acc;
+      }
+      return [...acc, ...(isValidDate(date) ? getDateErrors(date) : [invalidFormatText])];
+    }, []);
+    if (isValidDate(newStartDate) && isValidDate(newEndDate) && newEndDate < newStartDate) {
+      errors.push(invalidRangeText);
+    }
+    setErrorText(Array.from(new Set(errors)).join('\n'));
+  };
+
+  const selectRange = (event: React.MouseEvent, newStartDate: Date, newEndDate: Date) => {
+    const newStartText = dateFormat(newStartDate);
+    const newEndText = dateFormat(newEndDate);
+    setStartText(newStartText);
+    setEndText(newEndText);
+    validate(newStartText, newEndText);
+    setPendingStartDate(undefined);
+    setPopoverOpen(false);
+    onChange(event, new Date(newStartDate), new Date(newEndDate));
+  };
+
+  const onTextInput = (event: React.FormEvent<HTMLInputElement>, newStartText: string, newEndText: string) => {
+    setStartText(newStartText);
+    setEndText(newEndText);
+    setErrorText('');
+    const newStartDate = dateParse(newStartText);
+    const newEndDate = dateParse(newEndText);
+    onChange(
+      event,
+      isValidDate(newStartDate) ? new Date(newStartDate) : undefined,
+      isValidDate(newEndDate) ? new Date(newEndDate) : undefined
+    );
+  };
+
+  const onDateClick = (event: React.MouseEvent, date: Date) => {
+    if (!pendingStartDate || date < pendingStartDate) {
+      setPendingStartDate(date);
+    } else {
+      selectRange(event, pendingStartDate, date);
+    }
+  };
+
+  const setCalendarOpen = (isOpen: boolean) => {
+    if (isOpen) {
+      setDisplayDate(addMonths(isValidDate(startDate) ? startDate : new Date(), 0));
+    }
+    setPendingStartDate(undefined);
+    setHoveredDate(undefined);
+    setPopoverOpen(isOpen);
+  };
+
+  useImperativeHandle<DatePickerRef, DatePickerRef>(
+    ref,
+    () => ({
+      setCalendarOpen,
+      toggleCalendar: (setOpen?: boolean) => setCalendarOpen(setOpen !== undefined ? setOpen : !popoverOpen),
+      isCalendarOpen: popoverOpen
+    }),
+    [popoverOpen, startText]
+  );
+
+  const rangeStart = pendingStartDate ?? (isValidDate(startDate) ? startDate : undefined);
+  const rangeEnd = !pendingStartDate && isValidDate(endDate) ? endDate : undefined;
+  const calendarValidators = [(date: Date) => getDateErrors(date).length === 0];
+
+  const createFocusSelectorString = (modifierClass: string) =>
+    `.${calendarMonthStyles.calendarMonthDatesCell}.${modifierClass} .${calendarMonthStyles.calendarMonthDate}`;
+
+  const calendarProps = {
+    locale,
+    monthFormat,
+    weekdayFormat,
+    longWeekdayFormat,
+    dayFormat,
+    weekStart,
+    cellAriaLabel,
+    prevMonthAriaLabel,
+    nextMonthAriaLabel,
+    yearInputAriaLabel,
+    rangeStart,
+    rangeEnd,
+    // Dates are only previewed while the end of the range is being selected
+    hoveredDate: pendingStartDate ? hoveredDate : null,
+    onDateHover: (_event: React.MouseEvent, date?: Date) => setHoveredDate(date),
+    validators: calendarValidators,
+    onChange: onDateClick,
+    onSelectToggle: (open: boolean) => setSelectOpen(open)
+  };
+
+  return (
+    <div className={css(styles.datePicker, className)} style={style} {...props}>
+      <Popover
+        elementToFocus={createFocusSelectorString(
+          isValidDate(rangeStart) ? calendarMonthStyles.modifiers.selected : calendarMonthStyles.modifiers.current
+        )}
+        position="bottom"
+        bodyContent={
+          <Flex flexWrap={{ default: 'nowrap' }} spaceItems={{ default: 'spaceItemsNone' }}>
+            {presets.length > 0 && (
+              <FlexItem>
+                <Menu
+                  isPlain
+                  aria-label={presetsAriaLabel}
+                  onSelect={(event, itemId) => {
+                    const { startDate: presetStartDate, endDate: presetEndDate } =
+                      presets[itemId as number].getDateRange();
+                    selectRange(event, presetStartDate, presetEndDate);
+                  }}
+                >
+                  <MenuContent>
+                    <MenuList>
+                      {presets.map((preset, index) => (
+                        <MenuItem key={index} itemId={index}>
+                          {preset.label}
+                        </MenuItem>
+                      ))}
+                    </MenuList>
+                  </MenuContent>
+                </Menu>
+              </FlexItem>
+            )}
+            <FlexItem>
+              <CalendarMonth
+                {...calendarProps}
+                displayDate={displayDate}
+                onMonthChange={(_event, newDate) => setDisplayDate(addMonths(newDate, 0))}
+                onKeyboardMonthChange={(_event, newDate) => setDisplayDate(addMonths(newDate, 0))}
+              />
+            </FlexItem>
+            <FlexItem>
+              <CalendarMonth
+                {...calendarProps}
+                displayDate={addMonths(displayDate, 1)}
+                onMonthChange={(_event, newDate) => setDisplayDate(addMonths(newDate, -1))}
+                onKeyboardMonthChange={(_event, newDate) => setDisplayDate(addMonths(newDate, -1))}
+              />
+            </FlexItem>
+          </Flex>
+        }
+        showClose={false}
+        isVisible={popoverOpen}
+        shouldClose={(event, hideFunction) => {
+          event = event as KeyboardEvent;
+          if (event.key === KeyTypes.Escape && selectOpen) {
+            event.stopPropagation();
+            setSelectOpen(false);
+            return false;
+          }
+          // Let our button handle toggling
+          if (buttonRef.current && buttonRef.current.contains(event.target as Node)) {
+            return false;
+          }
+          if (popoverOpen) {
+            event.stopPropagation();
+            setCalendarOpen(false);
+            hideFunction();
+          }
+          return true;
+        }}
+        withFocusTrap
+        hasNoPadding
+        hasAutoWidth
+        appendTo={appendTo}
+        triggerRef={triggerRef}
+        {...popoverProps}
+      >
+        <div className={styles.datePickerInput} ref={triggerRef}>
+          <InputGroup>
+            <InputGroupItem>
+              <TextInput
+                isDisabled={isDisabled}
+                aria-label={startDateAriaLabel}
+                placeholder={placeholder}
+                validated={errorText.trim() ? 'error' : 'default'}
+                value={startText}
+                onChange={(event, value) => onTextInput(event, value, endText)}
+                onBlur={() => validate(startText, endText)}
+                {...startDateInputProps}
+              />
+            </InputGroupItem>
+            <InputGroupText isPlain>{separatorText}</InputGroupText>
+            <InputGroupItem>
+              <TextInput
+                isDisabled={isDisabled}
+                aria-label={endDateAriaLabel}
+                placeholder={placeholder}
+                validated={errorText.trim() ? 'error' : 'default'}
+                value={endText}
+                onChange={(event, value) => onTextInput(event, startText, value)}
+                onBlur={() => validate(startText, endText)}
+                {...endDateInputProps}
+              />
+            </InputGroupItem>
+            <InputGroupItem>
+              <Button
+                ref={buttonRef}
+                variant="control"
+                aria-label={buttonAriaLabel}
+                onClick={() => setCalendarOpen(!popoverOpen)}
+                isDisabled={isDisabled}
+                icon={<OutlinedCalendarAltIcon />}
+                aria-haspopup="dialog"
+              />
+            </InputGroupItem>
+          </InputGroup>
+        </div>
+      </Popover>
+      {(errorText || helperText) && (
+        <div className={styles.datePickerHelperText}>
+          {errorText ? (
+            <HelperText>
+              {errorText.split('\n').map((error) => (
+                <HelperTextItem key={error} variant="error">
+                  {error}
+                </HelperTextItem>
+              ))}
+            </HelperText>
+          ) : (
+            helperText
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const DateRangePicker = forwardRef<DatePickerRef, DateRangePickerProps>(DateRangePickerBase);
+DateRangePicker.displayName = 'DateRangePicker';
@@ -0,0 +1,104 @@
+import { screen, render } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import styles from '@patternfly/react-styles/css/components/CalendarMonth/calendar-month';
+
+import { DateRangePicker } from '../DateRangePicker';
+
+test('Selects a range across both displayed months and calls onChange once', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+  render(<DateRangePicker startDate={new Date(2024, 2, 10)} onChange={onChange} />);
+
+  await user.click(screen.getByRole('button', { name: 'Toggle date range picker' }));
+  expect(screen.getAllByRole('button', { name: '10 March 2024' })[0]).toBeVisible();
+  expect(screen.getAllByRole('button', { name: '15 April 2024' })[0]).toBeVisible();
+
+  await user.click(screen.getAllByRole('button', { name: '28 March 2024' })[0]);
+  expect(onChange).not.toHaveBeenCalled();
+
+  await user.click(screen.getAllByRole('button', { name: '2 April 2024' })[1]);
+  expect(onChange).toHaveBeenCalledTimes(1);
+  expect(onChange).toHaveBeenCalledWith(expect.anything(), new Date(2024, 2, 28), new Date(2024, 3, 2));
+  expect(screen.getByRole('textbox', { name: 'Start date' })).toHaveValue('2024-03-28');
+  expect(screen.getByRole('textbox', { name: 'End date' })).toHaveValue('2024-04-02');
+});
+
+test('Previews the range while hovering the end date', async () => {
+  const user = userEvent.setup();
+  render(<DateRangePicker startDate={new Date(2024, 2, 10)} />);
+
+  await user.click(screen.getByRole('button', { name: 'Toggle date range picker' }));
+  await user.click(screen.getAllByRole('button', { name: '28 March 2024' })[0]);
+  await user.hover(screen.getAllByRole('button', { name: '3 April 2024' })[1]);
+
+  expect(screen.getAllByRole('button', { name: '30 March 2024' })[0].parentElement).toHaveClass(
+    styles.modifiers.inRange
+  );
+  expect(screen.getAllByRole('button', { name: '2 April 2024' })[1].parentElement).toHaveClass(
+    styles.modifiers.inRange
+  );
+  expect(screen.getAllByRole('button', { name: '5 April 2024' })[1].parentElement).not.toHaveClass(
+    styles.modifiers.inRange
+  );
+});
+
+test('Selects the range of a preset', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+  const preset = {
+    label: 'First week of 2024',
+    getDateRange: () => ({ startDate: new Date(2024, 0, 1), endDate: new Date(2024, 0, 7) })
+  };
+  render(<DateRangePicker presets={[preset]} onChange={onChange} />);
+
+  await user.click(screen.getByRole('button', { name: 'Toggle date range picker' }));
+  await user.click(screen.getByRole('menuitem', { name: 'First week of 2024' }));
+
+  expect(onChange).toHaveBeenCalledWith(expect.anything(), new Date(2024, 0, 1), new Date(2024, 0, 7));
+  expect(screen.getByRole('textbox', { name: 'Start date' })).toHaveValue('2024-01-01');
+  expect(screen.getByRole('textbox', { name: 'End date' })).toHaveValue('2024-01-07');
+});
+
+test('Calls onChange with the typed dates and shows an error when the end date is before the start date', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+  render(<DateRangePicker startDate={new Date(2024, 2, 10)} onChange={onChange} />);
+
+  await user.type(screen.getByRole('textbox', { name: 'End date' }), '2024-03-01');
+  expect(onChange).toHaveBeenLastCalledWith(expect.anything(), new Date(2024, 2, 10), new Date(2024, 2, 1));
+
+  await user.click(document.body);
+  expect(screen.getByText('End date must not be before start date')).toBeVisible();
+  expect(screen.getByRole('textbox', { name: 'End date' })).toBeInvalid();
+});
+
+test('Disables dates outside of minDate and maxDate and dates failing validators', async () => {
+  const user = userEvent.setup();
+  const noWeekends = (date: Date) => (date.getDay() === 0 || date.getDay() === 6 ? 'Weekends are not allowed' : '');
+  render(
+    <DateRangePicker
+      startDate={new Date(2024, 2, 10)}
+      minDate={new Date(2024, 2, 5)}
+      maxDate={new Date(2024, 3, 20)}
+      validators={[noWeekends]}
+    />
+  );
+
+  expect(screen.queryByText('Weekends are not allowed')).not.toBeInTheDocument();
+  await user.click(screen.getByRole('button', { name: 'Toggle date range picker' }));
+  expect(screen.getAllByRole('button', { name: '4 March 2024' })[0]).toBeDisabled();
+  expect(screen.getAllByRole('button', { name: '9 March 2024' })[0]).toBeDisabled();
+  expect(screen.getAllByRole('button', { name: '21 April 2024' })[0]).toBeDisabled();
+  expect(screen.getAllByRole('button', { name: '11 March 2024' })[0]).toBeEnabled();
+});
+
+test('Shows minDate and validator errors for typed dates', async () => {
+  const user = userEvent.setup();
+  const noWeekends = (date: Date) => (date.getDay() === 0 || date.getDay() === 6 ? 'Weekends are not allowed' : '');
+  render(<DateRangePicker minDate={new Date(2024, 2, 5)} validators={[noWeekends]} />);
+
+  await user.type(screen.getByRole('textbox', { name: 'Start date' }), '2024-03-02');
+  await user.click(document.body);
+  expect(screen.getByText('Date must not be before 2024-03-05')).toBeVisible();
+  expect(screen.getByText('Weekends are not allowed')).toBeVisible();
+});
@@ -0,0 +1,30 @@
+import { useState } from 'react';
+import { DateRangePicker, dateRangePresets, yyyyMMddFormat } from '@patternfly/react-core';
+
+export const DateRangePickerBasic: React.FunctionComponent = () => {
+  const [startDate, setStartDate] = useState<Date>();
+  const [endDate, setEndDate] = useState<Date>();
+
+  return (
+    <>
+      <DateRangePicker
+        startDate={startDate}
+        endDate={endDate}
+        onChange={(_event, newStartDate, newEndDate) => {
+          setStartDate(newStartDate);
+          setEndDate(newEndDate);
+        }}
+        presets={[
+          dateRangePresets.today,
+          dateRangePresets.last7Days,
+          dateRangePresets.last30Days,
+          dateRangePresets.thisMonth,
+          dateRangePresets.lastMonth
+        ]}
+      />
+      <p>
+        Selected range: {startDate ? yyyyMMddFormat(startDate) : 'none'} to {endDate ? yyyyMMddFormat(endDate) : 'none'}
+      </p>
+    </>
+  );
+};
@@ -0,0 +1,18 @@
+import { DateRangePicker } from '@patternfly/react-core';
+
+export const DateRangePickerValidation: React.FunctionComponent = () => {
+  const minDate = new Date(2020, 2, 2);
+  const maxDate = new Date(2020, 4, 29);
+  const weekdayValidator = (date: Date) =>
+    date.getDay() === 0 || date.getDay() === 6 ? 'Weekends cannot be selected.' : '';
+
+  return (
+    <DateRangePicker
+      startDate={new Date(2020, 2, 16)}
+      endDate={new Date(2020, 2, 20)}
+      minDate={minDate}
+      maxDate={maxDate}
+      validators={[weekdayValidator]}
+    />
+  );
+};
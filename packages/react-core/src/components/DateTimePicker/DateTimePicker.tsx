@@ -0,0 +1,303 @@
+import { forwardRef, useEffect, useMemo, useRef, useState } from 'react';
+import { css } from '@patternfly/react-styles';
+import { DatePicker, DatePickerProps, DatePickerRef, yyyyMMddFormat } from '../DatePicker';
+import { TimePicker, TimePickerProps } from '../TimePicker';
+import { amSuffix, getHours, getMinutes, getSeconds, pmSuffix } from '../TimePicker/TimePickerUtils';
+import { FormSelect, FormSelectOption } from '../FormSelect';
+import { Flex, FlexItem } from '../../layouts/Flex';
+import {
+  getLocalTimeZone,
+  getTimeZones,
+  getZonedDateTime,
+  isValidDate,
+  ZonedDateTime,
+  zonedDateTimeToDate
+} from '../../helpers/datetimeUtils';
+
+/** The main date time picker component. */
+
+export interface DateTimePickerProps
+  extends Omit<React.HTMLProps<HTMLDivElement>, 'onChange' | 'onBlur' | 'disabled' | 'ref' | 'value' | 'placeholder'> {
+  /** Accessible label for the date text input. */
+  dateAriaLabel?: string;
+  /** How to format the date in the date text input. */
+  dateFormat?: (date: Date) => string;
+  /** How to parse the date in the date text input. */
+  dateParse?: (value: string) => Date;
+  /** Additional props for the date picker. */
+  datePickerProps?: Omit<DatePickerProps, 'value' | 'onChange' | 'dateFormat' | 'dateParse' | 'isDisabled'>;
+  /** Additional classes added to the date time picker. */
+  className?: string;
+  /** Flag indicating the time includes seconds, in the same way as the includeSeconds of the time picker. */
+  includeSeconds?: boolean;
+  /** Flag indicating the time is displayed in 24 hour format instead of 12 hour format. */
+  is24Hour?: boolean;
+  /** Flag indicating the date time picker is disabled. */
+  isDisabled?: boolean;
+  /** Flag indicating the time zone can be selected. */
+  isTimeZoneSelectable?: boolean;
+  /** Latest date and time which can be selected. On the day of the maxDate in the selected time zone, the time
+   * options end at its time.
+   */
+  maxDate?: Date;
+  /** Error message to display when the date is after the day of the maxDate. */
+  maxDateErrorText?: (maxDate: Date) => string;
+  /** Earliest date and time which can be selected. On the day of the minDate in the selected time zone, the time
+   * options start at its time.
+   */
+  minDate?: Date;
+  /** Error message to display when the date is before the day of the minDate. */
+  minDateErrorText?: (minDate: Date) => string;
+  /** Callback when the date, the time or the time zone changes. The date is undefined when the date or time is empty
+   * or invalid, or when it is outside of the minDate and maxDate.
+   */
+  onChange?: (
+    event: React.FormEvent<HTMLInputElement | HTMLSelectElement> | React.MouseEvent | null,
+    date?: Date
+  ) => void;
+  /** Callback when the time zone is selected. */
+  onTimeZoneChange?: (event: React.FormEvent<HTMLSelectElement>, timeZone: string) => void;
+  /** Size of step between time options in minutes. */
+  stepMinutes?: number;
+  /** Accessible label for the time text input. */
+  timeAriaLabel?: string;
+  /** Additional props for the time picker. */
+  timePickerProps?: Omit<
+    TimePickerProps,
+    'time' | 'onChange' | 'is24Hour' | 'includeSeconds' | 'minTime' | 'maxTime' | 'delimiter' | 'isDisabled'
+  >;
+  /** IANA name of the time zone in which the date and time are displayed and entered, e.g. 'Europe/Prague'.
+   * Defaults to the time zone of the browser.
+   */
+  timeZone?: string;
+  /** Accessible label for the time zone select. */
+  timeZoneAriaLabel?: string;
+  /** IANA names of the time zones which can be selected. Defaults to all time zones supported by the browser. */
+  timeZones?: string[];
+  /** Selected date and time. */
+  value?: Date;
+}
+
+const delimiter = ':';
+const timeRegex = new RegExp(`^\\s*(\\d\\d?)${delimiter}([0-5]\\d)${delimiter}?([0-5]\\d)?\\s*([AaPp][Mm])?\\s*$`);
+
+const formatTime = (
+  { hours, minutes, seconds }: Pick<ZonedDateTime, 'hours' | 'minutes' | 'seconds'>,
+  is24Hour: boolean,
+  includeSeconds: boolean
+) => {
+  const hoursText = is24Hour ? `${hours}`.padStart(2, '0') : `${hours % 12 || 12}`;
+  const minutesText = `${minutes}`.padStart(2, '0');
+  const secondsText = includeSeconds ? `${delimiter}${`${seconds}`.padStart(2, '0')}` : '';
+  let suffix = '';
+  if (!is24Hour) {
+    suffix = hours > 11 ? pmSuffix : amSuffix;
+  }
+  return `${hoursText}${delimiter}${minutesText}${secondsText}${suffix}`;
+};
+
+const toLocalDay = ({ year, month, day }: Pick<ZonedDateTime, 'year' | 'month' | 'day'>) => {
+  const date = new Date(year, month, day);
+  date.setFullYear(year);
+  return date;
+};
+
+/** Returns whether two optional dates are the same, treating missing and invalid dates as equal. */
+const isSameOptionalDate = (date1?: Date, date2?: Date) =>
+  isValidDate(date1) && isValidDate(date2)
+    ? date1.getTime() === date2.getTime()
+    : !isValidDate(date1) && !isValidDate(date2);
+
+const DateTimePickerBase = (
+  {
+    className,
+    value,
+    onChange = (): any => undefined,
+    timeZone: timeZoneProp,
+    timeZones,
+    isTimeZoneSelectable = false,
+    onTimeZoneChange = (): any => undefined,
+    is24Hour = false,
+    includeSeconds = false,
+    stepMinutes = 30,
+    isDisabled = false,
+    dateFormat = yyyyMMddFormat,
+    dateParse = (val: string) => (val.split('-').length === 3 ? new Date(`${val}T00:00:00`) : new Date(undefined)),
+    minDate,
+    maxDate,
+    minDateErrorText = (date: Date) => `Date must not be before ${date.toLocaleString()}`,
+    maxDateErrorText = (date: Date) => `Date must not be after ${date.toLocaleString()}`,
+    dateAriaLabel = 'Date',
+    timeAriaLabel = 'Time',
+    timeZoneAriaLabel = 'Time zone',
+    datePickerProps,
+    timePickerProps,
+    ...props
+  }: DateTimePickerProps,
+  ref: React.Ref<DatePickerRef>
+) => {
+  const [timeZone, setTimeZone] = useState(timeZoneProp || getLocalTimeZone());
+  const getDateText = (date: Date, zone: string) =>
+    isValidDate(date) ? dateFormat(toLocalDay(getZonedDateTime(date, zone))) : '';
+  const getTimeText = (date: Date, zone: string) =>
+    isValidDate(date) ? formatTime(getZonedDateTime(date, zone), is24Hour, includeSeconds) : '';
+  const [dateText, setDateText] = useState(getDateText(value, timeZone));
+  const [timeText, setTimeText] = useState(getTimeText(value, timeZone));
+  // Last date passed to onChange, so that text which formats differently is kept while the value is unchanged
+  const lastDate = useRef<Date>(value);
+  const timeZoneOptions = useMemo(() => {
+    const options = timeZones || getTimeZones();
+    return options.includes(timeZone) ? options : [timeZone, ...options];
+  }, [timeZones, timeZone]);
+
+  const zonedMinDate = isValidDate(minDate) ? getZonedDateTime(minDate, timeZone) : undefined;
+  const zonedMaxDate = isValidDate(maxDate) ? getZonedDateTime(maxDate, timeZone) : undefined;
+  const minDay = zonedMinDate && toLocalDay(zonedMinDate);
+  const maxDay = zonedMaxDate && toLocalDay(zonedMaxDate);
+  const minDayTime = minDay?.getTime();
+  const maxDayTime = maxDay?.getTime();
+
+  const validators = useMemo(
+    () => [
+      (date: Date) => (minDay && date < minDay ? minDateErrorText(minDate) : ''),
+      (date: Date) => (maxDay && date > maxDay ? maxDateErrorText(maxDate) : '')
+    ],
+    [minDayTime, maxDayTime]
+  );
+
+  const getDate = (newDateText: string, newTimeText: string, zone: string) => {
+    const day = dateParse(newDateText);
+    const hours = getHours(newTimeText, timeRegex);
+    const minutes = getMinutes(newTimeText, timeRegex);
+    if (!isValidDate(day) || hours === null || minutes === null || hours > 23) {
+      return undefined;
+    }
+    const date = zonedDateTimeToDate(
+      {
+        year: day.getFullYear(),
+        month: day.getMonth(),
+        day: day.getDate(),
+        hours,
+        minutes,
+        seconds: includeSeconds ? (getSeconds(newTimeText, timeRegex) ?? 0) : 0
+      },
+      zone
+    );
+    // Times are compared without seconds when they are not included, in the same way as the time options
+    const precision = includeSeconds ? 1000 : 60000;
+    const isBeforeMin = isValidDate(minDate) && date.getTime() < Math.floor(minDate.getTime() / precision) * precision;
+    const isAfterMax = isValidDate(maxDate) && date.getTime() > maxDate.getTime();
+    return isBeforeMin || isAfterMax ? undefined : date;
+  };
+
+  const update = (
+    event: React.FormEvent<HTMLInputElement | HTMLSelectElement> | React.MouseEvent | null,
+    newDateText: string,
+    newTimeText: string,
+    zone: string
+  ) => {
+    const date = getDate(newDateText, newTimeText, zone);
+    lastDate.current = date;
+    onChange(event, date);
+  };
+
+  const valueTime = isValidDate(value) ? value.getTime() : undefined;
+  useEffect(() => {
+    if (!isSameOptionalDate(value, lastDate.current)) {
+      lastDate.current = value;
+      setDateText(getDateText(value, timeZone));
+      setTimeText(getTimeText(value, timeZone));
+    }
+  }, [valueTime]);
+
+  useEffect(() => {
+    if (timeZoneProp && timeZoneProp !== timeZone) {
+      setTimeZone(timeZoneProp);
+      if (isValidDate(value)) {
+        setDateText(getDateText(value, timeZoneProp));
+        setTimeText(getTimeText(value, timeZoneProp));
+      }
+    }
+  }, [timeZoneProp]);
+
+  const onDateChange = (event: React.FormEvent<HTMLInputElement> | null, newDateText: string) => {
+    setDateText(newDateText);
+    update(event, newDateText, timeText, timeZone);
+  };
+
+  const onTimeChange = (event: React.FormEvent<HTMLInputElement> | null, newTimeText: string) => {
+    setTimeText(newTimeText);
+    update(event, dateText, newTimeText, timeZone);
+  };
+
+  // The date and time are kept when another time zone is selected, so they are observed in the new time zone
+  const onTimeZoneSelect = (event: React.FormEvent<HTMLSelectElement>, newTimeZone: string) => {
+    setTimeZone(newTimeZone);
+    onTimeZoneChange(event, newTimeZone);
+    update(event, dateText, timeText, newTimeZone);
+  };
+
+  const selectedDay = dateParse(dateText);
+  const isSameDay = (day?: Date) =>
+    isValidDate(day) && isValidDate(selectedDay) && day.getTime() === selectedDay.getTime();
+  const minTime =
+    zonedMinDate && isSameDay(minDay)
+      ? formatTime(zonedMinDate, is24Hour, includeSeconds)
+      : formatTime({ hours: 0, minutes: 0, seconds: 0 }, is24Hour, includeSeconds);
+  const maxTime =
+    zonedMaxDate && isSameDay(maxDay)
+      ? formatTime(zonedMaxDate, is24Hour, includeSeconds)
+      : formatTime({ hours: 23, minutes: 59, seconds: 59 }, is24Hour, includeSeconds);
+
+  return (
+    <div className={css(className)} {...props}>
+      <Flex spaceItems={{ default: 'spaceItemsSm' }} alignItems={{ default: 'alignItemsFlexStart' }}>
+        <FlexItem>
+          <DatePicker
+            aria-label={dateAriaLabel}
+            value={dateText}
+            onChange={onDateChange}
+            dateFormat={dateFormat}
+            dateParse={dateParse}
+            validators={validators}
+            isDisabled={isDisabled}
+            ref={ref}
+            {...datePickerProps}
+          />
+        </FlexItem>
+        <FlexItem>
+          <TimePicker
+            aria-label={timeAriaLabel}
+            time={timeText}
+            onChange={onTimeChange}
+            is24Hour={is24Hour}
+            includeSeconds={includeSeconds}
+            stepMinutes={stepMinutes}
+            minTime={minTime}
+            maxTime={maxTime}
+            isDisabled={isDisabled}
+            placeholder={includeSeconds ? 'hh:mm:ss' : 'hh:mm'}
+            {...timePickerProps}
+          />
+        </FlexItem>
+        {isTimeZoneSelectable && (
+          <FlexItem>
+            <FormSelect
+              aria-label={timeZoneAriaLabel}
+              value={timeZone}
+              onChange={onTimeZoneSelect}
+              isDisabled={isDisabled}
+            >
+              {timeZoneOptions.map((option) => (
+                <FormSelectOption key={option} value={option} label={option} />
+              ))}
+            </FormSelect>
+          </FlexItem>
+        )}
+      </Flex>
+    </div>
+  );
+};
+
+export const DateTimePicker = forwardRef<DatePickerRef, DateTimePickerProps>(DateTimePickerBase);
+DateTimePicker.displayName = 'DateTimePicker';
@@ -0,0 +1,110 @@
+import { screen, render } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+import { DateTimePicker } from '../DateTimePicker';
+
+test('Displays the value in the time zone', () => {
+  render(<DateTimePicker value={new Date('2024-07-15T13:05:00Z')} timeZone="Asia/Tokyo" />);
+
+  expect(screen.getByRole('textbox', { name: 'Date' })).toHaveValue('2024-07-15');
+  expect(screen.getByRole('textbox', { name: 'Time' })).toHaveValue('10:05 PM');
+});
+
+test('Displays the value in 24 hour format with seconds', () => {
+  render(<DateTimePicker value={new Date('2024-07-15T13:05:09Z')} timeZone="UTC" is24Hour includeSeconds />);
+
+  expect(screen.getByRole('textbox', { name: 'Time' })).toHaveValue('13:05:09');
+});
+
+test('Calls onChange with a single date combining the date and time in the time zone', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+  render(<DateTimePicker timeZone="Europe/Prague" is24Hour onChange={onChange} />);
+
+  await user.type(screen.getByRole('textbox', { name: 'Date' }), '2024-07-15');
+  expect(onChange).toHaveBeenLastCalledWith(expect.anything(), undefined);
+
+  await user.type(screen.getByRole('textbox', { name: 'Time' }), '09:30');
+  expect(onChange).toHaveBeenLastCalledWith(expect.anything(), new Date('2024-07-15T07:30:00Z'));
+});
+
+test('Resolves a time skipped by daylight saving time to the later time', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+  render(<DateTimePicker timeZone="America/New_York" is24Hour onChange={onChange} />);
+
+  await user.type(screen.getByRole('textbox', { name: 'Date' }), '2024-03-10');
+  await user.type(screen.getByRole('textbox', { name: 'Time' }), '02:30');
+
+  expect(onChange).toHaveBeenLastCalledWith(expect.anything(), new Date('2024-03-10T07:30:00Z'));
+});
+
+test('Keeps the date and time when another time zone is selected', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+  const onTimeZoneChange = jest.fn();
+  render(
+    <DateTimePicker
+      value={new Date('2024-01-15T09:00:00Z')}
+      timeZone="UTC"
+      timeZones={['UTC', 'Europe/Prague']}
+      isTimeZoneSelectable
+      is24Hour
+      onChange={onChange}
+      onTimeZoneChange={onTimeZoneChange}
+    />
+  );
+
+  await user.selectOptions(screen.getByRole('combobox', { name: 'Time zone' }), 'Europe/Prague');
+
+  expect(onTimeZoneChange).toHaveBeenCalledWith(expect.anything(), 'Europe/Prague');
+  expect(onChange).toHaveBeenCalledWith(expect.anything(), new Date('2024-01-15T08:00:00Z'));
+  expect(screen.getByRole('textbox', { name: 'Time' })).toHaveValue('09:00');
+});
+
+test('Redisplays the value when the time zone prop changes', () => {
+  const value = new Date('2024-01-15T09:00:00Z');
+  const { rerender } = render(<DateTimePicker value={value} timeZone="UTC" is24Hour />);
+
+  rerender(<DateTimePicker value={value} timeZone="Asia/Tokyo" is24Hour />);
+
+  expect(screen.getByRole('textbox', { name: 'Time' })).toHaveValue('18:00');
+});
+
+test('Calls onChange with undefined when the date and time are before the minDate', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+  render(<DateTimePicker timeZone="UTC" is24Hour minDate={new Date('2024-07-15T22:00:00Z')} onChange={onChange} />);
+
+  await user.type(screen.getByRole('textbox', { name: 'Date' }), '2024-07-15');
+  await user.type(screen.getByRole('textbox', { name: 'Time' }), '21:30');
+  expect(onChange).toHaveBeenLastCalledWith(expect.anything(), undefined);
+
+  await user.clear(screen.getByRole('textbox', { name: 'Time' }));
+  await user.type(screen.getByRole('textbox', { name: 'Time' }), '22:30');
+  expect(onChange).toHaveBeenLastCalledWith(expect.anything(), new Date('2024-07-15T22:30:00Z'));
+});
+
+test('Limits the time options on the day of the minDate only', async () => {
+  const user = userEvent.setup();
+  const { rerender } = render(
+    <DateTimePicker
+      value={new Date('2024-07-15T23:00:00Z')}
+      timeZone="UTC"
+      minDate={new Date('2024-07-15T22:00:00Z')}
+    />
+  );
+
+  await user.click(screen.getByRole('textbox', { name: 'Time' }));
+  expect(screen.getAllByRole('menuitem')).toHaveLength(4);
+  expect(screen.getAllByRole('menuitem')[0]).toHaveTextContent('10:00 PM');
+
+  rerender(
+    <DateTimePicker
+      value={new Date('2024-07-16T23:00:00Z')}
+      timeZone="UTC"
+      minDate={new Date('2024-07-15T22:00:00Z')}
+    />
+  );
+  expect(screen.getAllByRole('menuitem')).toHaveLength(48);
+});
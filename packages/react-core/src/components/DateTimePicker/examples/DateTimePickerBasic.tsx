@@ -0,0 +1,13 @@
+import { useState } from 'react';
+import { DateTimePicker } from '@patternfly/react-core';
+
+export const DateTimePickerBasic: React.FunctionComponent = () => {
+  const [date, setDate] = useState<Date>();
+
+  return (
+    <>
+      <DateTimePicker value={date} onChange={(_event, newDate) => setDate(newDate)} />
+      <p>Selected date: {date ? date.toISOString() : 'none'}</p>
+    </>
+  );
+};
@@ -0,0 +1,20 @@
+import { useState } from 'react';
+import { DateTimePicker } from '@patternfly/react-core';
+
+export const DateTimePickerMinMax: React.FunctionComponent = () => {
+  const minDate = new Date(2024, 6, 15, 21, 0);
+  const maxDate = new Date(2024, 6, 17, 3, 0);
+  const [date, setDate] = useState<Date>(new Date(2024, 6, 15, 22, 0));
+
+  return (
+    <>
+      <DateTimePicker
+        value={date}
+        onChange={(_event, newDate) => setDate(newDate)}
+        minDate={minDate}
+        maxDate={maxDate}
+      />
+      <p>Selected date: {date ? date.toLocaleString() : 'none'}</p>
+    </>
+  );
+};
@@ -0,0 +1,22 @@
+import { useState } from 'react';
+import { DateTimePicker } from '@patternfly/react-core';
+
+export const DateTimePickerTimeZone: React.FunctionComponent = () => {
+  const [date, setDate] = useState<Date>(new Date('2024-03-10T12:00:00Z'));
+  const [timeZone, setTimeZone] = useState('America/New_York');
+
+  return (
+    <>
+      <DateTimePicker
+        value={date}
+        onChange={(_event, newDate) => setDate(newDate)}
+        timeZone={timeZone}
+        onTimeZoneChange={(_event, newTimeZone) => setTimeZone(newTimeZone)}
+        isTimeZoneSelectable
+        is24Hour
+        includeSeconds
+      />
+      <p>Selected date: {date ? date.toISOString() : 'none'}</p>
+    </>
+  );
+};
@@ -24,7 +24,7 @@ export interface DrawerPanelFocusTrapObject {
   'aria-labelledby'?: string;
 }
 
-export interface DrawerPanelContentProps extends Omit<React.HTMLProps<HTMLDivElement>, 'onResize'> {
+export interface DrawerPanelContentProps extends Omit<React.HTMLProps<HTMLDivElement>, 'onResize' | 'size'> {
   /** Additional classes added to the drawer. */
   className?: string;
   /** ID of the drawer panel */
@@ -41,12 +41,34 @@ export interface DrawerPanelContentProps extends Omit<React.HTMLProps<HTMLDivEle
   minSize?: string;
   /** The starting size of a drawer. */
   defaultSize?: string;
+  /** The size of a resizable drawer, e.g. the size last reported by onResize. Takes precedence over defaultSize, so
+   * that the size can be restored or changed programmatically.
+   */
+  size?: string;
   /** The maximum size of a drawer. */
   maxSize?: string;
   /** The increment amount for keyboard drawer resizing. */
   increment?: number;
   /** Aria label for the resizable drawer splitter. */
   resizeAriaLabel?: string;
+  /** Sizes in pixels a resizable drawer snaps to when resizing ends within the snapThreshold of them. Page up and page
+   * down on the splitter resize the drawer to the next larger or smaller snap point.
+   */
+  snapPoints?: number[];
+  /** Distance in pixels from a snap point within which a resizable drawer snaps to it. */
+  snapThreshold?: number;
+  /** Flag indicating a resizable drawer is collapsed to a rail, which displays the railContent instead of the
+   * children.
+   */
+  isCollapsed?: boolean;
+  /** Size of a resizable drawer which is collapsed to a rail. */
+  railSize?: string;
+  /** Content displayed in the rail of a collapsed drawer, e.g. icon buttons which expand it. */
+  railContent?: React.ReactNode;
+  /** Callback when a resizable drawer is collapsed to or expanded from its rail, by double clicking the splitter or by
+   * pressing home or end on it. The drawer can only be collapsed when this callback is passed.
+   */
+  onCollapseChange?: (event: React.MouseEvent | React.KeyboardEvent, isCollapsed: boolean) => void;
   /** Width for drawer panel at various breakpoints. Overridden by resizable drawer minSize and defaultSize. */
   widths?: {
     default?: 'width_25' | 'width_33' | 'width_50' | 'width_66' | 'width_75' | 'width_100';
@@ -71,9 +93,16 @@ export const DrawerPanelContent: React.FunctionComponent<DrawerPanelContentProps
   onResize,
   minSize,
   defaultSize,
+  size,
   maxSize,
   increment = 5,
   resizeAriaLabel = 'Resize',
+  snapPoints,
+  snapThreshold = 24,
+  isCollapsed = false,
+  railSize = '3.5rem',
+  railContent,
+  onCollapseChange,
   widths,
   colorVariant = DrawerColorVariant.default,
   focusTrap,
@@ -101,6 +130,40 @@ export const DrawerPanelContent: React.FunctionComponent<DrawerPanelContentProps
     );
   }
 
+  const getPanelSize = () => {
+    const panelRect = panel.current.getBoundingClientRect();
+    return position === 'bottom' ? panelRect.height : panelRect.width;
+  };
+
+  const setPanelSize = (panelSize: number) => {
+    if (position === 'bottom') {
+      panel.current.style.overflowAnchor = 'none';
+    }
+    panel.current.style.setProperty(cssPanelMdFlexBasis.name, panelSize + 'px');
+  };
+
+  const getSnappedSize = (panelSize: number) => {
+    if (!snapPoints?.length) {
+      return panelSize;
+    }
+    const closestSnapPoint = snapPoints.reduce((closest, snapPoint) =>
+      Math.abs(snapPoint - panelSize) < Math.abs(closest - panelSize) ? snapPoint : closest
+    );
+    return Math.abs(closestSnapPoint - panelSize) <= snapThreshold ? closestSnapPoint : panelSize;
+  };
+
+  // The document listeners are only created once, so they end resizing through a ref which reads the latest props
+  const resizeEndRef =
+    useRef<(event: MouseEvent | TouchEvent | React.KeyboardEvent, panelSize: number) => void>(undefined);
+  resizeEndRef.current = (event, panelSize) => {
+    const snappedSize = getSnappedSize(panelSize);
+    if (snappedSize !== panelSize) {
+      setPanelSize(snappedSize);
+      setSeparatorValue(calcValueNow());
+    }
+    onResize && onResize(event, snappedSize, id);
+  };
+
   useEffect(() => {
     if (!isStatic && isExpanded) {
       setIsExpandedInternal(isExpanded);
@@ -169,6 +232,9 @@ export const DrawerPanelContent: React.FunctionComponent<DrawerPanelContentProps
 
   const handleTouchStart = (e: React.TouchEvent) => {
     e.stopPropagation();
+    if (isCollapsed) {
+      return;
+    }
     document.addEventListener('touchmove', callbackTouchMove, { passive: false });
     document.addEventListener('touchend', callbackTouchEnd);
     isResizing = true;
@@ -176,6 +242,9 @@ export const DrawerPanelContent: React.FunctionComponent<DrawerPanelContentProps
 
   const handleMousedown = (e: React.MouseEvent) => {
     e.stopPropagation();
+    if (isCollapsed) {
+      return;
+    }
     e.preventDefault();
     document.addEventListener('mousemove', callbackMouseMove);
     document.addEventListener('mouseup', callbackMouseUp);
@@ -240,7 +309,7 @@ export const DrawerPanelContent: React.FunctionComponent<DrawerPanelContentProps
     }
     drawerRef.current.classList.remove(css(styles.modifiers.resizing));
     isResizing = false;
-    onResize && onResize(e, currWidth, id);
+    resizeEndRef.current(e, currWidth);
     setInitialVals = true;
     document.removeEventListener('mousemove', callbackMouseMove);
     document.removeEventListener('mouseup', callbackMouseUp);
@@ -252,7 +321,7 @@ export const DrawerPanelContent: React.FunctionComponent<DrawerPanelContentProps
       return;
     }
     isResizing = false;
-    onResize && onResize(e, currWidth, id);
+    resizeEndRef.current(e, currWidth);
     document.removeEventListener('touchmove', callbackTouchMove);
     document.removeEventListener('touchend', callbackTouchEnd);
   };
@@ -272,7 +341,11 @@ export const DrawerPanelContent: React.FunctionComponent<DrawerPanelContentProps
       key !== 'ArrowUp' &&
       key !== 'ArrowDown' &&
       key !== 'ArrowLeft' &&
-      key !== 'ArrowRight'
+      key !== 'ArrowRight' &&
+      key !== 'PageUp' &&
+      key !== 'PageDown' &&
+      key !== 'Home' &&
+      key !== 'End'
     ) {
       if (isResizing) {
         e.preventDefault();
@@ -281,8 +354,33 @@ export const DrawerPanelContent: React.FunctionComponent<DrawerPanelContentProps
     }
     e.preventDefault();
 
+    if (key === 'Home' || key === 'End') {
+      const shouldCollapse = key === 'Home';
+      if (onCollapseChange && shouldCollapse !== isCollapsed) {
+        onCollapseChange(e, shouldCollapse);
+      }
+      return;
+    }
+    if (isCollapsed) {
+      return;
+    }
     if (key === 'Escape' || key === 'Enter') {
-      onResize && onResize(e, currWidth, id);
+      resizeEndRef.current(e, getPanelSize());
+      return;
+    }
+    if (key === 'PageUp' || key === 'PageDown') {
+      const currentSize = getPanelSize();
+      const sortedSnapPoints = [...(snapPoints || [])].sort((a, b) => a - b);
+      const snapPoint =
+        key === 'PageUp'
+          ? sortedSnapPoints.find((point) => point > currentSize + 1)
+          : sortedSnapPoints.reverse().find((point) => point < currentSize - 1);
+      if (snapPoint !== undefined) {
+        setPanelSize(snapPoint);
+        setSeparatorValue(calcValueNow());
+        onResize && onResize(e, snapPoint, id);
+      }
+      return;
     }
     const panelRect = panel.current.getBoundingClientRect();
     newSize = position === 'bottom' ? panelRect.height : panelRect.width;
@@ -313,12 +411,16 @@ export const DrawerPanelContent: React.FunctionComponent<DrawerPanelContentProps
     setSeparatorValue(calcValueNow());
   };
   const boundaryCssVars: any = {};
-  if (defaultSize) {
-    boundaryCssVars[cssPanelMdFlexBasis.name] = defaultSize;
+  if (size || defaultSize) {
+    boundaryCssVars[cssPanelMdFlexBasis.name] = size || defaultSize;
   }
   if (minSize) {
     boundaryCssVars[cssPanelMdFlexBasisMin.name] = minSize;
   }
+  if (isResizable && isCollapsed) {
+    boundaryCssVars[cssPanelMdFlexBasis.name] = railSize;
+    boundaryCssVars[cssPanelMdFlexBasisMin.name] = railSize;
+  }
   if (maxSize) {
     boundaryCssVars[cssPanelMdFlexBasisMax.name] = maxSize;
   }
@@ -381,7 +483,7 @@ export const DrawerPanelContent: React.FunctionComponent<DrawerPanelContentProps
               }
             }}
             hidden={hidden}
-            {...((defaultSize || minSize || maxSize) && {
+            {...(Object.keys(boundaryCssVars).length > 0 && {
               style: boundaryCssVars as React.CSSProperties
             })}
             {...props}
@@ -403,12 +505,13 @@ export const DrawerPanelContent: React.FunctionComponent<DrawerPanelContentProps
                       aria-controls={id || panelId}
                       onMouseDown={handleMousedown}
                       onKeyDown={handleKeys}
+                      onDoubleClick={(event) => onCollapseChange && onCollapseChange(event, !isCollapsed)}
                       onTouchStart={handleTouchStart}
                       ref={splitterRef}
                     >
                       <div className={css(styles.drawerSplitterHandle)} aria-hidden></div>
                     </div>
-                    <div className={css(styles.drawerPanelMain)}>{children}</div>
+                    <div className={css(styles.drawerPanelMain)}>{isCollapsed ? railContent : children}</div>
                   </Fragment>
                 )}
                 {!isResizable && children}
@@ -1,6 +1,8 @@
 import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import { DrawerPanelContent } from '../DrawerPanelContent';
 import { Drawer } from '../Drawer';
+import { DrawerContent } from '../DrawerContent';
 import styles from '@patternfly/react-styles/css/components/Drawer/drawer';
 
 test(`Renders with only class ${styles.drawerPanel} by default`, () => {
@@ -121,3 +123,111 @@ test('Renders with role="dialog" when focusTrap.enabled is true', () => {
 
   expect(screen.getByRole('dialog')).toBeInTheDocument();
 });
+
+test('Renders with the size taking precedence over the defaultSize', () => {
+  render(
+    <Drawer isExpanded>
+      <DrawerPanelContent isResizable defaultSize="300px" size="400px">
+        Drawer panel content
+      </DrawerPanelContent>
+    </Drawer>
+  );
+
+  expect(screen.getByRole('separator').parentElement).toHaveStyle({
+    '--pf-v6-c-drawer__panel--md--FlexBasis': '400px'
+  });
+});
+
+test('Renders the rail content with the rail size when isCollapsed is true', () => {
+  render(
+    <Drawer isExpanded>
+      <DrawerPanelContent isResizable isCollapsed size="400px" railSize="4rem" railContent="Rail content">
+        Drawer panel content
+      </DrawerPanelContent>
+    </Drawer>
+  );
+
+  expect(screen.getByText('Rail content')).toBeVisible();
+  expect(screen.queryByText('Drawer panel content')).not.toBeInTheDocument();
+  expect(screen.getByRole('separator').parentElement).toHaveStyle({ '--pf-v6-c-drawer__panel--md--FlexBasis': '4rem' });
+});
+
+test('Calls onCollapseChange when home or end is pressed on the splitter, or the splitter is double clicked', async () => {
+  const user = userEvent.setup();
+  const onCollapseChange = jest.fn();
+  const { rerender } = render(
+    <Drawer isExpanded>
+      <DrawerPanelContent isResizable onCollapseChange={onCollapseChange}>
+        Drawer panel content
+      </DrawerPanelContent>
+    </Drawer>
+  );
+
+  screen.getByRole('separator').focus();
+  await user.keyboard('{End}');
+  expect(onCollapseChange).not.toHaveBeenCalled();
+  await user.keyboard('{Home}');
+  expect(onCollapseChange).toHaveBeenLastCalledWith(expect.anything(), true);
+
+  rerender(
+    <Drawer isExpanded>
+      <DrawerPanelContent isResizable isCollapsed onCollapseChange={onCollapseChange}>
+        Drawer panel content
+      </DrawerPanelContent>
+    </Drawer>
+  );
+  await user.keyboard('{End}');
+  expect(onCollapseChange).toHaveBeenLastCalledWith(expect.anything(), false);
+  await user.dblClick(screen.getByRole('separator'));
+  expect(onCollapseChange).toHaveBeenLastCalledWith(expect.anything(), false);
+  expect(onCollapseChange).toHaveBeenCalledTimes(3);
+});
+
+test('Resizes to the next snap point when page up is pressed on the splitter', async () => {
+  const user = userEvent.setup();
+  const onResize = jest.fn();
+  render(
+    <Drawer isExpanded>
+      <DrawerContent
+        panelContent={
+          <DrawerPanelContent isResizable id="panel" snapPoints={[400, 200]} onResize={onResize}>
+            Drawer panel content
+          </DrawerPanelContent>
+        }
+      >
+        Drawer content
+      </DrawerContent>
+    </Drawer>
+  );
+
+  screen.getByRole('separator').focus();
+  await user.keyboard('{PageUp}');
+
+  expect(onResize).toHaveBeenCalledWith(expect.anything(), 200, 'panel');
+  expect(screen.getByRole('separator').parentElement).toHaveStyle({
+    '--pf-v6-c-drawer__panel--md--FlexBasis': '200px'
+  });
+});
+
+test('Snaps to a snap point within the snap threshold when resizing with the keyboard ends', async () => {
+  const user = userEvent.setup();
+  const onResize = jest.fn();
+  render(
+    <Drawer isExpanded>
+      <DrawerContent
+        panelContent={
+          <DrawerPanelContent isResizable id="panel" snapPoints={[20]} snapThreshold={25} onResize={onResize}>
+            Drawer panel content
+          </DrawerPanelContent>
+        }
+      >
+        Drawer content
+      </DrawerContent>
+    </Drawer>
+  );
+
+  screen.getByRole('separator').focus();
+  await user.keyboard('{Enter}');
+
+  expect(onResize).toHaveBeenCalledWith(expect.anything(), 20, 'panel');
+});
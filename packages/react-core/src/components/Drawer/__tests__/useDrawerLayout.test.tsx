@@ -0,0 +1,51 @@
+import { act, renderHook } from '@testing-library/react';
+import { DrawerLayout, useDrawerLayout } from '../useDrawerLayout';
+
+test('Starts with the default layout', () => {
+  const { result } = renderHook(() => useDrawerLayout({ defaultSize: '300px' }));
+
+  expect(result.current.size).toBe('300px');
+  expect(result.current.isCollapsed).toBe(false);
+  expect(result.current.panelProps).toMatchObject({ size: '300px', isCollapsed: false });
+});
+
+test('Updates the size when the panel is resized', () => {
+  const { result } = renderHook(() => useDrawerLayout({ defaultSize: '300px' }));
+
+  act(() => result.current.panelProps.onResize(new MouseEvent('mouseup'), 420, 'panel'));
+
+  expect(result.current.size).toBe('420px');
+});
+
+test('Snaps to a snap point and expands the panel', () => {
+  const { result } = renderHook(() => useDrawerLayout({ snapPoints: [200, 400], isDefaultCollapsed: true }));
+
+  act(() => result.current.snapTo(1));
+
+  expect(result.current.size).toBe('400px');
+  expect(result.current.isCollapsed).toBe(false);
+});
+
+test('Collapses, expands and resets the panel', () => {
+  const { result } = renderHook(() => useDrawerLayout({ defaultSize: '300px' }));
+
+  act(() => result.current.toggleCollapsed());
+  expect(result.current.isCollapsed).toBe(true);
+
+  act(() => result.current.setIsCollapsed(false));
+  act(() => result.current.setSize('500px'));
+  act(() => result.current.reset());
+
+  expect(result.current).toMatchObject({ size: '300px', isCollapsed: false });
+});
+
+test('Loads and saves the layout with the storage adapter', () => {
+  const storage = { load: jest.fn((): DrawerLayout => ({ size: '250px', isCollapsed: true })), save: jest.fn() };
+  const { result } = renderHook(() => useDrawerLayout({ defaultSize: '300px', storage }));
+
+  expect(result.current).toMatchObject({ size: '250px', isCollapsed: true });
+
+  act(() => result.current.setIsCollapsed(false));
+
+  expect(storage.save).toHaveBeenLastCalledWith({ size: '250px', isCollapsed: false });
+});
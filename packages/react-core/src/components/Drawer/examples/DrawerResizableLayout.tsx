@@ -0,0 +1,98 @@
+import {
+  Button,
+  Drawer,
+  DrawerActions,
+  DrawerContent,
+  DrawerContentBody,
+  DrawerHead,
+  DrawerPanelBody,
+  DrawerPanelContent,
+  Flex,
+  localStorageDrawerLayoutAdapter,
+  ToggleGroup,
+  ToggleGroupItem,
+  Tooltip,
+  useDrawerLayout
+} from '@patternfly/react-core';
+import AngleDoubleLeftIcon from '@patternfly/react-icons/dist/esm/icons/angle-double-left-icon';
+import AngleDoubleRightIcon from '@patternfly/react-icons/dist/esm/icons/angle-double-right-icon';
+
+const snapPoints = [240, 400, 600];
+const snapPointLabels = ['Small', 'Medium', 'Large'];
+
+export const DrawerResizableLayout: React.FunctionComponent = () => {
+  const layout = useDrawerLayout({
+    defaultSize: '400px',
+    snapPoints,
+    storage: localStorageDrawerLayoutAdapter('pf-drawer-resizable-layout-example')
+  });
+
+  const railContent = (
+    <Flex direction={{ default: 'column' }} alignItems={{ default: 'alignItemsCenter' }}>
+      <Tooltip content="Expand details">
+        <Button
+          variant="plain"
+          aria-label="Expand details"
+          icon={<AngleDoubleLeftIcon />}
+          onClick={layout.toggleCollapsed}
+        />
+      </Tooltip>
+    </Flex>
+  );
+
+  const panelContent = (
+    <DrawerPanelContent
+      isResizable
+      {...layout.panelProps}
+      railContent={railContent}
+      minSize="200px"
+      resizeAriaLabel="Resize details"
+    >
+      <DrawerHead>
+        <span>Details</span>
+        <DrawerActions>
+          <Button
+            variant="plain"
+            aria-label="Collapse details"
+            icon={<AngleDoubleRightIcon />}
+            onClick={layout.toggleCollapsed}
+          />
+        </DrawerActions>
+      </DrawerHead>
+      <DrawerPanelBody>
+        Drag the splitter to resize the details, or focus it and use the arrow keys. Page up and page down resize the
+        details to the next preset, home collapses them to a rail, and end expands them again. The size is saved in
+        local storage, so it is restored when the page is reloaded.
+      </DrawerPanelBody>
+    </DrawerPanelContent>
+  );
+
+  return (
+    <Drawer isExpanded isInline position="end">
+      <DrawerContent panelContent={panelContent}>
+        <DrawerContentBody>
+          <Flex direction={{ default: 'column' }}>
+            <ToggleGroup aria-label="Details size">
+              {snapPointLabels.map((label, index) => (
+                <ToggleGroupItem
+                  key={label}
+                  text={label}
+                  isSelected={!layout.isCollapsed && layout.size === `${snapPoints[index]}px`}
+                  onChange={() => layout.snapTo(index)}
+                />
+              ))}
+              <ToggleGroupItem
+                text="Collapsed"
+                isSelected={layout.isCollapsed}
+                onChange={() => layout.setIsCollapsed(true)}
+              />
+            </ToggleGroup>
+            <Button variant="link" isInline onClick={layout.reset}>
+              Reset layout
+            </Button>
+          </Flex>
+        </DrawerContentBody>
+      </DrawerContent>
+    </Drawer>
+  );
+};
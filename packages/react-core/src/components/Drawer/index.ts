@@ -8,3 +8,4 @@ export * from './DrawerHead';
 export * from './DrawerPanelBody';
 export * from './DrawerPanelContent';
 export * from './DrawerSection';
+export * from './useDrawerLayout';
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import type { DrawerPanelContentProps } from './DrawerPanelContent';
+import { createLocalStorageAdapter } from '../../helpers/localStorageAdapter';
+
+/** Layout of a resizable drawer panel. */
+export interface DrawerLayout {
+  /** Size of the panel, e.g. "400px". Undefined while the panel has its default size. */
+  size?: string;
+  /** Flag indicating the panel is collapsed to its rail. */
+  isCollapsed: boolean;
+}
+
+/** Loads and saves the layout of a drawer panel, e.g. in localStorage or on a server. */
+export interface DrawerLayoutStorageAdapter {
+  /** Returns the saved layout, or undefined when none was saved. */
+  load: () => DrawerLayout | undefined;
+  /** Saves the layout. */
+  save: (layout: DrawerLayout) => void;
+}
+
+export interface DrawerLayoutOptions {
+  /** Size of the panel until it is resized, or when no layout is saved. */
+  defaultSize?: string;
+  /** Flag indicating the panel is collapsed to its rail when no layout is saved. */
+  isDefaultCollapsed?: boolean;
+  /** Sizes in pixels the panel snaps to, which can also be selected with snapTo. */
+  snapPoints?: number[];
+  /** Adapter which loads the layout when the hook is first rendered and saves it each time it changes. */
+  storage?: DrawerLayoutStorageAdapter;
+}
+
+export interface DrawerLayoutState extends DrawerLayout {
+  /** Resizes the panel. */
+  setSize: (size: string) => void;
+  /** Resizes the panel to the snap point at the passed index, and expands it when it is collapsed. */
+  snapTo: (snapPointIndex: number) => void;
+  /** Collapses the panel to its rail, or expands it. */
+  setIsCollapsed: (isCollapsed: boolean) => void;
+  /** Collapses the panel when it is expanded, and expands it when it is collapsed. */
+  toggleCollapsed: () => void;
+  /** Restores the default size and collapsed state of the panel. */
+  reset: () => void;
+  /** Props to spread on the resizable DrawerPanelContent whose layout is managed. */
+  panelProps: Pick<DrawerPanelContentProps, 'size' | 'isCollapsed' | 'snapPoints' | 'onResize' | 'onCollapseChange'>;
+}
+
+/** Storage adapter which saves the layout of a drawer panel in localStorage under the passed key. */
+export const localStorageDrawerLayoutAdapter = (key: string = 'pf-drawer-layout'): DrawerLayoutStorageAdapter =>
+  createLocalStorageAdapter<DrawerLayout>(key);
+
+/**
+ * Manages the size and collapsed state of a resizable drawer panel, optionally persisting them with a storage adapter
+ * so that they survive reloads.
+ */
+export const useDrawerLayout = ({
+  defaultSize,
+  isDefaultCollapsed = false,
+  snapPoints,
+  storage
+}: DrawerLayoutOptions = {}): DrawerLayoutState => {
+  const getDefaultLayout = (): DrawerLayout => ({ size: defaultSize, isCollapsed: isDefaultCollapsed });
+  const [layout, setLayout] = useState<DrawerLayout>(() => ({ ...getDefaultLayout(), ...storage?.load() }));
+
+  useEffect(() => {
+    storage?.save(layout);
+  }, [layout]);
+
+  const setSize = (size: string) => setLayout((prevLayout) => ({ ...prevLayout, size }));
+  const setIsCollapsed = (isCollapsed: boolean) => setLayout((prevLayout) => ({ ...prevLayout, isCollapsed }));
+
+  return {
+    ...layout,
+    setSize,
+    snapTo: (snapPointIndex) => {
+      if (snapPoints?.[snapPointIndex] !== undefined) {
+        setLayout({ size: `${snapPoints[snapPointIndex]}px`, isCollapsed: false });
+      }
+    },
+    setIsCollapsed,
+    toggleCollapsed: () => setLayout((prevLayout) => ({ ...prevLayout, isCollapsed: !prevLayout.isCollapsed })),
+    reset: () => setLayout(getDefaultLayout()),
+    panelProps: {
+      size: layout.size,
+      isCollapsed: layout.isCollapsed,
+      snapPoints,
+      onResize: (_event, size) => setSize(`${size}px`),
+      onCollapseChange: (_event, isCollapsed) => setIsCollapsed(isCollapsed)
+    }
+  };
+};
@@ -1,5 +1,6 @@
 import { css } from '@patternfly/react-styles';
 import { MenuGroupProps, MenuGroup } from '../Menu';
+import { MenuListRowComponent } from '../Menu/menuListRows';
 
 /**
  * See the MenuGroup section of the Menu documentation for additional props that may be passed.
@@ -13,7 +14,7 @@ export interface DropdownGroupProps extends Omit<MenuGroupProps, 'ref'> {
   label?: string;
 }
 
-export const DropdownGroup: React.FunctionComponent<DropdownGroupProps> = ({
+export const DropdownGroup: React.FunctionComponent<DropdownGroupProps> & MenuListRowComponent = ({
   children,
   className,
   label,
@@ -25,3 +26,4 @@ export const DropdownGroup: React.FunctionComponent<DropdownGroupProps> = ({
   </MenuGroup>
 );
 DropdownGroup.displayName = 'DropdownGroup';
+DropdownGroup.menuListRowKind = 'group';
@@ -1,5 +1,6 @@
 import { css } from '@patternfly/react-styles';
 import { MenuListProps, MenuList } from '../Menu';
+import { MenuListRowComponent } from '../Menu/menuListRows';
 
 export interface DropdownListProps extends MenuListProps {
   /** Anything which can be rendered in a dropdown list */
@@ -8,7 +9,7 @@ export interface DropdownListProps extends MenuListProps {
   className?: string;
 }
 
-export const DropdownList: React.FunctionComponent<MenuListProps> = ({
+export const DropdownList: React.FunctionComponent<MenuListProps> & MenuListRowComponent = ({
   children,
   className,
   ...props
@@ -18,3 +19,4 @@ export const DropdownList: React.FunctionComponent<MenuListProps> = ({
   </MenuList>
 );
 DropdownList.displayName = 'DropdownList';
+DropdownList.menuListRowKind = 'list';
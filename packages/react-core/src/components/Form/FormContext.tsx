@@ -1,122 +1,496 @@
-import { createContext, Dispatch, SetStateAction, useContext, useState } from 'react';
+import { createContext, Dispatch, SetStateAction, useContext, useEffect, useRef, useState } from 'react';
+import { CheckboxProps } from '../Checkbox';
+import { FormSelectProps } from '../FormSelect';
+import { SwitchProps } from '../Switch';
+import { TextInputProps } from '../TextInput';
+import { FormFieldPath, FormFieldPathValue } from './formContextUtils';
+import { getPathValue, isDeepEqual, isPathWithin, setPathValue } from '../../helpers/objectUtils';
 
-export interface FormContextProps {
-  /** Record of values for all fieldIds */
-  values: Record<string, string>;
+/** Error message returned by a validator, or a falsy value when the field is valid. */
+export type FormFieldValidationResult = string | null | undefined;
+
+/**
+ * Validates the value of a field. Receives all form values for rules spanning several fields, and a signal which is
+ * aborted when the validation is superseded by a newer one or the form unmounts.
+ */
+export type FormFieldValidator<T = Record<string, any>, V = any> = (
+  value: V,
+  values: T,
+  options: { signal: AbortSignal }
+) => FormFieldValidationResult | Promise<FormFieldValidationResult>;
+
+export interface FormFieldValidatorOptions<T = Record<string, any>> {
+  /** Delay in milliseconds after the last change of the field before it is validated, e.g. for validators requesting
+   * a server. Validations triggered by validateForm and handleSubmit are not delayed.
+   */
+  debounce?: number;
+  /** Paths of the fields the validator depends on, e.g. the password of a password confirmation field. The field is
+   * validated again when they change, once it has been touched or has an error.
+   */
+  dependsOn?: FormFieldPath<T>[];
+  /** Flag to validate the field and set its error each time it changes. Defaults to true for the validators prop, and
+   * to false for setValidator, whose errors are then only set by validateField, validateForm and handleSubmit.
+   */
+  validateOnChange?: boolean;
+}
+
+export interface FormFieldValidatorConfig<T = Record<string, any>, V = any> extends FormFieldValidatorOptions<T> {
+  /** Validator of the field. */
+  validate: FormFieldValidator<T, V>;
+}
+
+/** Validators of the fields of a form by path, with or without options. */
+export type FormValidators<T = Record<string, any>> = {
+  [Path in FormFieldPath<T>]?:
+    | FormFieldValidator<T, FormFieldPathValue<T, Path>>
+    | FormFieldValidatorConfig<T, FormFieldPathValue<T, Path>>;
+};
+
+export interface FormContextProps<T = Record<string, any>> {
+  /** Values of the form. Fields are identified by their path within the values, e.g. "address.city" or
+   * "contacts.0.email".
+   */
+  values: T;
   /** Record of errors for all fieldIds */
   errors: Record<string, string>;
   /** Record of touched state for all fieldIds */
   touched: Record<string, boolean>;
   /** Flag to determine the overall validity. True if the record of errors is empty. */
   isValid: boolean;
+  /** Flag indicating a field is being validated asynchronously, or waiting for its debounced validation. */
+  isValidating: boolean;
+  /** Flag indicating the values differ from the initial values. */
+  isDirty: boolean;
+  /** Flag indicating handleSubmit is validating the form or waiting for onSubmit to resolve. */
+  isSubmitting: boolean;
 
-  /** Get the value for a given fieldId */
-  getValue(fieldId: string): string;
-  /** Set the value for a given fieldId */
-  setValue(fieldId: string, value: string): void;
+  /** Get the value for a given fieldId, or an empty string when the field has no value */
+  getValue<P extends FormFieldPath<T>>(fieldId: P): FormFieldPathValue<T, P>;
+  /** Set the value for a given fieldId, and validate the fields depending on it */
+  setValue<P extends FormFieldPath<T>>(fieldId: P, value: FormFieldPathValue<T, P>, triggerValidation?: boolean): void;
   /** Set multiple values within the managed record of values */
-  setValues: Dispatch<SetStateAction<Record<string, string>>>;
+  setValues: Dispatch<SetStateAction<T>>;
 
   /** Get the error message for a given fieldId */
-  getError(fieldId: string): string;
+  getError(fieldId: FormFieldPath<T>): string;
   /** Set the error message for a given fieldId */
-  setError(fieldId: string, error: string | undefined): void;
+  setError(fieldId: FormFieldPath<T>, error: string | undefined): void;
   /** Set multiple errors within the managed record of errors */
   setErrors: Dispatch<SetStateAction<Record<string, string>>>;
 
   /** Used to determine touched state for a given fieldId */
-  isTouched(fieldId: string): boolean;
+  isTouched(fieldId: FormFieldPath<T>): boolean;
   /** Used to update the touched state for a given fieldId */
-  setTouched(fieldId: string, isTouched: boolean): void;
+  setTouched(fieldId: FormFieldPath<T>, isTouched: boolean): void;
+  /** Used to determine whether the value of a given fieldId differs from its initial value */
+  isFieldDirty(fieldId: FormFieldPath<T>): boolean;
+  /** Used to determine whether a given fieldId is being validated asynchronously */
+  isFieldValidating(fieldId: FormFieldPath<T>): boolean;
 
-  /** Triggers all fieldId-specific validators */
+  /** Triggers all fieldId-specific validators synchronously and returns their errors. Async validators receive an
+   * aborted signal and their results are ignored, use validateForm to run them.
+   */
   validate(): Record<string, string | null>;
   /** Set a validator for a specific fieldId */
-  setValidator(fieldId: string, validate: (value: string) => string | null): void;
+  setValidator<P extends FormFieldPath<T>>(
+    fieldId: P,
+    validate: FormFieldValidator<T, FormFieldPathValue<T, P>>,
+    options?: FormFieldValidatorOptions<T>
+  ): void;
+  /** Validates a given fieldId, updates its error and resolves with it */
+  validateField(fieldId: FormFieldPath<T>): Promise<string | null>;
+  /** Validates all fields with validators, including async validators, updates their errors and resolves with them */
+  validateForm(): Promise<Record<string, string>>;
+  /** Marks all fields with validators as touched and validates them, then calls onSubmit when the form is valid. Can be
+   * passed as the onSubmit callback of a Form, or the onClick callback of a submit button.
+   */
+  handleSubmit(event?: React.SyntheticEvent): Promise<void>;
+  /** Resets the values to the given values, or to the initial values, and clears errors and touched states */
+  reset(values?: T): void;
+
+  /** Returns the props binding a TextInput to a given fieldId. The text typed can be converted, e.g. to a number,
+   * with parse.
+   */
+  getTextInputProps(
+    fieldId: FormFieldPath<T>,
+    parse?: (value: string) => any
+  ): Pick<TextInputProps, 'id' | 'name' | 'value' | 'onChange' | 'onBlur' | 'validated'>;
+  /** Returns the props binding a Checkbox to a given boolean fieldId */
+  getCheckboxProps(
+    fieldId: FormFieldPath<T>
+  ): Pick<CheckboxProps, 'id' | 'name' | 'isChecked' | 'isValid' | 'onChange'>;
+  /** Returns the props binding a Switch to a given boolean fieldId */
+  getSwitchProps(fieldId: FormFieldPath<T>): Pick<SwitchProps, 'id' | 'name' | 'isChecked' | 'onChange'>;
+  /** Returns the props binding a FormSelect to a given fieldId */
+  getFormSelectProps(
+    fieldId: FormFieldPath<T>
+  ): Pick<FormSelectProps, 'id' | 'name' | 'value' | 'onChange' | 'onBlur' | 'validated'>;
 }
 
-const FormContext = createContext({} as FormContextProps);
+const FormContext = createContext({} as FormContextProps<any>);
 
 export const FormContextConsumer = FormContext.Consumer;
 
-export interface FormContextProviderProps {
+export interface FormContextProviderProps<T = Record<string, any>> {
   /** Record of initial values */
-  initialValues?: Record<string, string>;
+  initialValues?: T;
+  /** Validators of the fields by path. Validators can also be set from within the provider with setValidator. */
+  validators?: FormValidators<T>;
+  /** Callback called by handleSubmit with the values of the form once it is valid. Errors returned or resolved by the
+   * callback, e.g. from a server, are set on the form.
+   */
+  onSubmit?: (values: T) => void | Record<string, string> | Promise<void | Record<string, string>>;
   /** Any react node. Can optionally use render function to return context props. */
-  children?: React.ReactNode | ((props: FormContextProps) => React.ReactNode);
+  children?: React.ReactNode | ((props: FormContextProps<T>) => React.ReactNode);
+}
+
+interface PendingValidation {
+  controller: AbortController;
+  timeout?: ReturnType<typeof setTimeout>;
+  resolve: (error: string | null | Promise<string | null>) => void;
 }
 
-export const FormContextProvider: React.FC<FormContextProviderProps> = ({ initialValues, children }) => {
-  const [values, setValues] = useState<Record<string, string>>(initialValues || {});
-  const [errors, setErrors] = useState<Record<string, string>>({});
-  const [validators, setValidators] = useState<Record<string, Function>>({});
-  const [touched, setTouched] = useState<Record<string, boolean>>({});
+// Entries with falsy values are removed rather than kept in the records of errors, touched and validating fields
+const setRecordEntry = <V,>(record: Record<string, V>, key: string, value: V) => {
+  const nextRecord = { ...record };
+  if (value) {
+    nextRecord[key] = value;
+  } else {
+    delete nextRecord[key];
+  }
+  return nextRecord;
+};
+
+const isPromiseLike = (value: any): value is PromiseLike<any> => typeof value?.then === 'function';
+
+export const FormContextProvider = <T extends object = Record<string, any>>({
+  initialValues,
+  validators: validatorsProp,
+  onSubmit,
+  children
+}: FormContextProviderProps<T>) => {
+  const [initial, setInitial] = useState<T>(initialValues || ({} as T));
+  const [values, setValuesState] = useState<T>(initial);
+  const [errors, setErrorsState] = useState<Record<string, string>>({});
+  const [touched, setTouchedState] = useState<Record<string, boolean>>({});
+  const [validating, setValidating] = useState<Record<string, boolean>>({});
+  const [, setValidators] = useState<Record<string, FormFieldValidatorConfig<T>>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const isValid = Object.keys(errors)?.length === 0;
 
-  const getValue = (fieldId: string) =>
-    Object.entries(values).reduce((acc, [id, value]) => (id === fieldId ? value : acc), '');
+  // Validations finishing after later changes read the latest state from refs rather than from their render
+  const valuesRef = useRef(values);
+  const errorsRef = useRef(errors);
+  const touchedRef = useRef(touched);
+  const validatorsRef = useRef<Record<string, FormFieldValidatorConfig<T>>>({});
+  const validatorsPropRef = useRef(validatorsProp);
+  validatorsPropRef.current = validatorsProp;
+  const pendingValidationsRef = useRef<Record<string, PendingValidation>>({});
 
-  const setValue = (fieldId: string, value: string, triggerValidation: boolean = true) => {
-    if (values[fieldId] !== value) {
-      setValues((prevValues) => ({ ...prevValues, [fieldId]: value }));
-      triggerValidation && validators[fieldId]?.(value);
+  const updateState = <S,>(ref: React.MutableRefObject<S>, setState: Dispatch<S>, action: SetStateAction<S>) => {
+    const nextState = typeof action === 'function' ? (action as (prevState: S) => S)(ref.current) : action;
+    if (nextState !== ref.current) {
+      ref.current = nextState;
+      setState(nextState);
     }
   };
+  const setValues = (action: SetStateAction<T>) => updateState(valuesRef, setValuesState, action);
+  const setErrors = (action: SetStateAction<Record<string, string>>) => updateState(errorsRef, setErrorsState, action);
+  const setTouchedRecord = (action: SetStateAction<Record<string, boolean>>) =>
+    updateState(touchedRef, setTouchedState, action);
 
-  const getError = (fieldId: string) =>
-    Object.entries(errors).reduce((acc, [id, error]) => (id === fieldId ? error : acc), '');
+  const getValue = (fieldId: string) => getPathValue(values, fieldId) ?? '';
 
-  const setError = (fieldId: string, error: string) =>
-    errors[fieldId] !== error &&
-    setErrors(({ [fieldId]: _, ...prevErrors }) => ({
-      ...prevErrors,
-      ...(!!error && { [fieldId]: error })
-    }));
+  const getError = (fieldId: string) => errors[fieldId] ?? '';
+
+  const setError = (fieldId: string, error: string | undefined) =>
+    setErrors((prevErrors) => {
+      if ((prevErrors[fieldId] ?? '') === (error ?? '')) {
+        return prevErrors;
+      }
+      return setRecordEntry(prevErrors, fieldId, error);
+    });
 
-  const isTouched = (fieldId: string) =>
-    Object.entries(touched).reduce((acc, [id, isTouched]) => (id === fieldId ? isTouched : acc), false);
+  const isTouched = (fieldId: string) => !!touched[fieldId];
 
   const setFieldTouched = (fieldId: string, isTouched: boolean) =>
-    touched[fieldId] !== isTouched &&
-    setTouched(({ [fieldId]: _, ...prevTouched }) => ({
-      ...prevTouched,
-      ...(isTouched && { [fieldId]: isTouched })
-    }));
+    setTouchedRecord((prevTouched) => {
+      if (!!prevTouched[fieldId] === isTouched) {
+        return prevTouched;
+      }
+      return setRecordEntry(prevTouched, fieldId, isTouched);
+    });
+
+  const setFieldValidating = (fieldId: string, isValidating: boolean) =>
+    setValidating((prevValidating) => {
+      if (!!prevValidating[fieldId] === isValidating) {
+        return prevValidating;
+      }
+      return setRecordEntry(prevValidating, fieldId, isValidating);
+    });
+
+  const getValidator = (fieldId: string): FormFieldValidatorConfig<T> | undefined => {
+    if (validatorsRef.current[fieldId]) {
+      return validatorsRef.current[fieldId];
+    }
+    const validator = (
+      validatorsPropRef.current as Record<string, FormFieldValidator<T> | FormFieldValidatorConfig<T>>
+    )?.[fieldId];
+    if (typeof validator === 'function') {
+      return { validate: validator, validateOnChange: true };
+    }
+    return validator && { validateOnChange: true, ...validator };
+  };
+
+  const getValidatedFieldIds = () =>
+    Array.from(new Set([...Object.keys(validatorsPropRef.current ?? {}), ...Object.keys(validatorsRef.current)]));
+
+  const setValidator = (
+    fieldId: string,
+    validate: FormFieldValidator<T>,
+    options: FormFieldValidatorOptions<T> = {}
+  ) => {
+    const prevValidator = validatorsRef.current[fieldId];
+    if (
+      prevValidator?.validate !== validate ||
+      prevValidator.debounce !== options.debounce ||
+      prevValidator.validateOnChange !== !!options.validateOnChange ||
+      !isDeepEqual(prevValidator.dependsOn, options.dependsOn)
+    ) {
+      validatorsRef.current = {
+        ...validatorsRef.current,
+        [fieldId]: { ...options, validateOnChange: !!options.validateOnChange, validate }
+      };
+      setValidators(validatorsRef.current);
+    }
+  };
+
+  // A superseded validation resolves with the result of the validation superseding it
+  const cancelValidation = (fieldId: string, result: string | null | Promise<string | null> = null) => {
+    const pendingValidation = pendingValidationsRef.current[fieldId];
+    if (pendingValidation) {
+      delete pendingValidationsRef.current[fieldId];
+      pendingValidation.controller.abort();
+      clearTimeout(pendingValidation.timeout);
+      pendingValidation.resolve(result);
+    }
+  };
+
+  const runValidation = (fieldId: string, isDebounced: boolean): Promise<string | null> => {
+    const validator = getValidator(fieldId);
+    if (!validator) {
+      cancelValidation(fieldId, errorsRef.current[fieldId] ?? null);
+      return Promise.resolve(errorsRef.current[fieldId] ?? null);
+    }
+
+    let resolve: PendingValidation['resolve'];
+    let reject: (validationError: any) => void;
+    const validation = new Promise<string | null>((resolveValidation, rejectValidation) => {
+      resolve = resolveValidation;
+      reject = rejectValidation;
+    });
+    const pendingValidation: PendingValidation = { controller: new AbortController(), resolve };
+    const isCurrent = () => pendingValidationsRef.current[fieldId] === pendingValidation;
+    const settle = (error: FormFieldValidationResult) => {
+      if (isCurrent()) {
+        delete pendingValidationsRef.current[fieldId];
+        setFieldValidating(fieldId, false);
+        setError(fieldId, error || undefined);
+        resolve(error || null);
+      }
+    };
+    const fail = (validationError: any) => {
+      if (isCurrent()) {
+        delete pendingValidationsRef.current[fieldId];
+        setFieldValidating(fieldId, false);
+        reject(validationError);
+      }
+    };
+    const run = () => {
+      try {
+        const result = validator.validate(getPathValue(valuesRef.current, fieldId), valuesRef.current, {
+          signal: pendingValidation.controller.signal
+        });
+        if (isPromiseLike(result)) {
+          setFieldValidating(fieldId, true);
+          result.then(settle, fail);
+        } else {
+          settle(result);
+        }
+      } catch (validationError) {
+        fail(validationError);
+      }
+    };
+
+    cancelValidation(fieldId, validation);
+    pendingValidationsRef.current[fieldId] = pendingValidation;
+    const delay = isDebounced ? validator.debounce : 0;
+    if (delay) {
+      setFieldValidating(fieldId, true);
+      pendingValidation.timeout = setTimeout(run, delay);
+    } else {
+      run();
+    }
+    return validation;
+  };
 
-  const setValidator = (fieldId: string, validate: (value: string) => string | null) =>
-    validators[fieldId] !== validate && setValidators((prevValidators) => ({ ...prevValidators, [fieldId]: validate }));
+  const validateField = (fieldId: string) => runValidation(fieldId, false);
 
-  // Accumulate and return errors from all fields with validators.
+  const validateChangedField = (changedFieldId: string) =>
+    getValidatedFieldIds().forEach((fieldId) => {
+      if (!getValidator(fieldId).validateOnChange) {
+        return;
+      }
+      const isChanged = isPathWithin(fieldId, changedFieldId) || isPathWithin(changedFieldId, fieldId);
+      const isDependent =
+        (touchedRef.current[fieldId] || !!errorsRef.current[fieldId]) &&
+        getValidator(fieldId)?.dependsOn?.some(
+          (dependency: string) => isPathWithin(changedFieldId, dependency) || isPathWithin(dependency, changedFieldId)
+        );
+      // Validators failing on a change leave the error of the field as is, their failure is only surfaced by
+      // validateField, validateForm and handleSubmit
+      (isChanged || isDependent) && runValidation(fieldId, isChanged).catch(() => undefined);
+    });
+
+  const setValue = (fieldId: string, value: any, triggerValidation: boolean = true) => {
+    if (!isDeepEqual(getPathValue(valuesRef.current, fieldId), value)) {
+      setValues((prevValues) => setPathValue(prevValues, fieldId, value));
+      // Errors set on fields without validators, e.g. by a server, are outdated once the field changes
+      !getValidator(fieldId) && setError(fieldId, undefined);
+      triggerValidation && validateChangedField(fieldId);
+    }
+  };
+
+  // Accumulate and return errors from all fields with synchronous validators. Whether a validator is async is only
+  // known from its result, so validators are called with an already aborted signal and promises they return are ignored.
   const validate = () =>
-    Object.entries(validators)?.reduce((acc: Record<string, string>, [id, validateField]) => {
-      const fieldError = validateField(values[id]);
+    getValidatedFieldIds().reduce((acc: Record<string, string>, id) => {
+      const { validate: validateValue } = getValidator(id);
+      const controller = new AbortController();
+      controller.abort();
+      const fieldError = validateValue(getPathValue(values, id), values, { signal: controller.signal });
 
-      if (fieldError) {
+      if (isPromiseLike(fieldError)) {
+        fieldError.then(undefined, () => undefined);
+      } else if (fieldError) {
         acc[id] = fieldError;
       }
 
       return acc;
     }, {});
 
+  const validateForm = async () => {
+    const fieldIds = getValidatedFieldIds();
+    const fieldErrors = await Promise.all(fieldIds.map(validateField));
+
+    return fieldIds.reduce(
+      (acc: Record<string, string>, fieldId, index) =>
+        fieldErrors[index] ? { ...acc, [fieldId]: fieldErrors[index] } : acc,
+      {}
+    );
+  };
+
+  const handleSubmit = async (event?: React.SyntheticEvent) => {
+    event?.preventDefault();
+    setTouchedRecord((prevTouched) =>
+      getValidatedFieldIds().reduce((acc, fieldId) => ({ ...acc, [fieldId]: true }), prevTouched)
+    );
+    setIsSubmitting(true);
+
+    try {
+      const formErrors = await validateForm();
+      if (!Object.keys(formErrors).length && onSubmit) {
+        const submitErrors = await onSubmit(valuesRef.current);
+        submitErrors && Object.entries(submitErrors).forEach(([fieldId, error]) => setError(fieldId, error));
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const reset = (nextValues: T = initial) => {
+    Object.keys(pendingValidationsRef.current).forEach((fieldId) => cancelValidation(fieldId));
+    setInitial(nextValues);
+    setValues(nextValues);
+    setErrors({});
+    setTouchedRecord({});
+    setValidating({});
+  };
+
+  // Pending validations are removed as they are aborted, so that validators rejecting once aborted are ignored
+  useEffect(() => () => Object.keys(pendingValidationsRef.current).forEach((fieldId) => cancelValidation(fieldId)), []);
+
+  const getTextInputProps = (fieldId: string, parse?: (value: string) => any) => ({
+    id: fieldId,
+    name: fieldId,
+    value: getValue(fieldId),
+    onChange: (_event: React.FormEvent<HTMLInputElement>, value: string) =>
+      setValue(fieldId, parse ? parse(value) : value),
+    onBlur: () => setFieldTouched(fieldId, true),
+    validated: errors[fieldId] ? ('error' as const) : ('default' as const)
+  });
+
+  const getCheckboxProps = (fieldId: string) => ({
+    id: fieldId,
+    name: fieldId,
+    isChecked: !!getPathValue(values, fieldId),
+    isValid: !errors[fieldId],
+    onChange: (_event: React.FormEvent<HTMLInputElement>, checked: boolean) => {
+      setFieldTouched(fieldId, true);
+      setValue(fieldId, checked);
+    }
+  });
+
+  const getSwitchProps = (fieldId: string) => {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { isValid, ...switchProps } = getCheckboxProps(fieldId);
+    return switchProps;
+  };
+
+  const getFormSelectProps = (fieldId: string) => ({
+    id: fieldId,
+    name: fieldId,
+    value: getValue(fieldId),
+    onChange: (_event: React.FormEvent<HTMLSelectElement>, value: string) => {
+      setFieldTouched(fieldId, true);
+      setValue(fieldId, value);
+    },
+    onBlur: () => setFieldTouched(fieldId, true),
+    validated: errors[fieldId] ? ('error' as const) : ('default' as const)
+  });
+
+  const contextProps = {
+    values,
+    errors,
+    touched,
+    isValid,
+    isValidating: Object.keys(validating).length > 0,
+    isDirty: !isDeepEqual(values, initial),
+    isSubmitting,
+    setValues,
+    setErrors,
+    getValue,
+    setValue,
+    getError,
+    setError,
+    validate,
+    setValidator,
+    validateField,
+    validateForm,
+    handleSubmit,
+    reset,
+    isTouched,
+    setTouched: setFieldTouched,
+    isFieldDirty: (fieldId: string) => !isDeepEqual(getPathValue(values, fieldId), getPathValue(initial, fieldId)),
+    isFieldValidating: (fieldId: string) => !!validating[fieldId],
+    getTextInputProps,
+    getCheckboxProps,
+    getSwitchProps,
+    getFormSelectProps
+  } as FormContextProps<T>;
+
   return (
-    <FormContext.Provider
-      value={{
-        values,
-        errors,
-        touched,
-        isValid,
-        setValues,
-        setErrors,
-        getValue,
-        setValue,
-        getError,
-        setError,
-        validate,
-        setValidator,
-        isTouched,
-        setTouched: setFieldTouched
-      }}
-    >
+    <FormContext.Provider value={contextProps}>
       {typeof children === 'function' ? (
         <FormContext.Consumer>{(formContext) => children(formContext)}</FormContext.Consumer>
       ) : (
@@ -127,4 +501,4 @@ export const FormContextProvider: React.FC<FormContextProviderProps> = ({ initia
 };
 FormContextProvider.displayName = 'FormContextProvider';
 
-export const useFormContext = () => useContext(FormContext);
+export const useFormContext = <T = Record<string, any>,>() => useContext(FormContext) as FormContextProps<T>;
@@ -0,0 +1,45 @@
+import { HelperText, HelperTextItem } from '../HelperText';
+import { FormHelperText } from './FormHelperText';
+import { useFormContext } from './FormContext';
+
+export interface FormContextHelperTextProps {
+  /** Path of the field of the nearest FormContextProvider whose error is displayed. */
+  fieldId: string;
+  /** Helper text displayed while the field has no error. */
+  children?: React.ReactNode;
+  /** Helper text displayed while the field is validated asynchronously. */
+  validatingText?: React.ReactNode;
+  /** ID of the helper text, which can be passed as the aria-describedby of the field. */
+  id?: string;
+}
+
+/** Displays the error of a field of the nearest FormContextProvider, or its helper text while it has no error. */
+export const FormContextHelperText: React.FunctionComponent<FormContextHelperTextProps> = ({
+  fieldId,
+  children,
+  validatingText,
+  id
+}: FormContextHelperTextProps) => {
+  const { getError, isFieldValidating } = useFormContext();
+  const error = getError(fieldId);
+  const isValidating = isFieldValidating(fieldId) && !!validatingText;
+
+  if (!error && !isValidating && !children) {
+    return null;
+  }
+
+  return (
+    <FormHelperText>
+      <HelperText id={id} isLiveRegion>
+        {error ? (
+          <HelperTextItem variant="error">{error}</HelperTextItem>
+        ) : (
+          <HelperTextItem variant={isValidating ? 'indeterminate' : 'default'}>
+            {isValidating ? validatingText : children}
+          </HelperTextItem>
+        )}
+      </HelperText>
+    </FormHelperText>
+  );
+};
+FormContextHelperText.displayName = 'FormContextHelperText';
@@ -1,6 +1,11 @@
-import { render, screen } from '@testing-library/react';
+import { act, render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { FormContextConsumer, FormContextProvider } from '../FormContext';
+import { FormContextHelperText } from '../FormContextHelperText';
+import { Checkbox } from '../../Checkbox';
+import { FormSelect, FormSelectOption } from '../../FormSelect';
+import { Switch } from '../../Switch';
+import { TextInput } from '../../TextInput';
 
 const customRender = (ui, initialValues?: Record<string, any>) =>
   render(<FormContextProvider initialValues={initialValues}>{ui}</FormContextProvider>);
@@ -78,6 +83,31 @@ test('sets a new value for a single field using setValue', async () => {
   expect(consumerInput).toHaveValue('some updated value');
 });
 
+test('keeps flat fieldIds containing dots rather than treating them as paths', async () => {
+  const user = userEvent.setup();
+
+  customRender(
+    <FormContextConsumer>
+      {({ values, getValue, setValue }) => (
+        <>
+          <input onChange={(event) => setValue('user.email', event.target.value)} value={getValue('user.email')} />
+          <pre>{JSON.stringify(values)}</pre>
+        </>
+      )}
+    </FormContextConsumer>,
+    { 'user.email': 'jane@example.com' }
+  );
+
+  const consumerInput = screen.getByRole('textbox');
+
+  expect(consumerInput).toHaveValue('jane@example.com');
+
+  await user.clear(consumerInput);
+  await user.type(consumerInput, 'joe@example.com');
+
+  expect(JSON.parse(screen.getByText(/^{/).textContent)).toEqual({ 'user.email': 'joe@example.com' });
+});
+
 test('using setValues, consumers can set multiple values at once', async () => {
   const user = userEvent.setup();
   const newValues = { someId: 'updated value', someNewId: 'new value' };
@@ -224,3 +254,341 @@ test('validate returns errors set by the "setValidator" function', async () => {
   await user.click(screen.getByRole('checkbox'));
   expect(screen.getByText(/^Error:/)).toHaveTextContent('Error: some error!');
 });
+
+test('sets errors of the "setValidator" function on change only with validateOnChange', async () => {
+  const user = userEvent.setup();
+  const validateName = (value: string) => (!value ? 'Name is required.' : null);
+
+  customRender(
+    <FormContextConsumer>
+      {({ getError, getValue, setValue, setValidator }) => (
+        <>
+          <button onClick={() => setValidator('name', validateName)}>Set validator</button>
+          <button onClick={() => setValidator('name', validateName, { validateOnChange: true })}>
+            Set validator on change
+          </button>
+          <input onChange={(event) => setValue('name', event.target.value)} value={getValue('name')} />
+          <span>{`Error: ${getError('name')}`}</span>
+        </>
+      )}
+    </FormContextConsumer>,
+    { name: 'Jane' }
+  );
+
+  const consumerInput = screen.getByRole('textbox');
+
+  await user.click(screen.getByRole('button', { name: 'Set validator' }));
+  await user.clear(consumerInput);
+
+  expect(screen.getByText(/^Error:/)).toHaveTextContent(/^Error:$/);
+
+  await user.click(screen.getByRole('button', { name: 'Set validator on change' }));
+  await user.type(consumerInput, 'a');
+  await user.clear(consumerInput);
+
+  expect(screen.getByText(/^Error:/)).toHaveTextContent('Error: Name is required.');
+});
+
+test('validate ignores the results of async validators and aborts them', async () => {
+  const user = userEvent.setup();
+  const signals: AbortSignal[] = [];
+  const validateUsername = async (_value: string, _values, { signal }) => {
+    signals.push(signal);
+    return 'Username is taken.';
+  };
+  // Transpiled async functions and functions returning a promise cannot be told apart from synchronous validators
+  const validateEmail = (_value: string, _values, { signal }) => {
+    signals.push(signal);
+    return Promise.resolve('Email is taken.');
+  };
+
+  customRender(
+    <FormContextConsumer>
+      {({ validate, setValidator }) => (
+        <>
+          <button
+            onClick={() => {
+              setValidator('username', validateUsername);
+              setValidator('email', validateEmail);
+            }}
+          >
+            Set validators
+          </button>
+          {`Errors: ${JSON.stringify(validate())}`}
+        </>
+      )}
+    </FormContextConsumer>
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Set validators' }));
+
+  expect(screen.getByText(/^Errors:/)).toHaveTextContent('Errors: {}');
+  expect(signals.length).toBeGreaterThan(0);
+  expect(signals.every(({ aborted }) => aborted)).toBe(true);
+});
+
+interface Profile {
+  name: string;
+  address: { city: string };
+  contacts: { email: string }[];
+  isSubscribed: boolean;
+}
+
+const profile: Profile = { name: '', address: { city: 'Brno' }, contacts: [{ email: '' }], isSubscribed: false };
+
+test('binds inputs to nested and array fields of typed values', async () => {
+  const user = userEvent.setup();
+
+  render(
+    <FormContextProvider<Profile> initialValues={profile}>
+      {({ values, isDirty, isFieldDirty, getTextInputProps, getCheckboxProps }) => (
+        <>
+          <TextInput aria-label="City" {...getTextInputProps('address.city')} />
+          <TextInput aria-label="Email" {...getTextInputProps('contacts.0.email')} />
+          <Checkbox label="Subscribe" {...getCheckboxProps('isSubscribed')} />
+          <span>{`isDirty: ${isDirty}, isCityDirty: ${isFieldDirty('address.city')}`}</span>
+          <pre>{JSON.stringify(values)}</pre>
+        </>
+      )}
+    </FormContextProvider>
+  );
+
+  await user.type(screen.getByRole('textbox', { name: 'Email' }), 'jane@example.com');
+  await user.click(screen.getByRole('checkbox', { name: 'Subscribe' }));
+
+  expect(screen.getByText(/^isDirty:/)).toHaveTextContent('isDirty: true, isCityDirty: false');
+  expect(JSON.parse(screen.getByText(/^{/).textContent)).toEqual({
+    ...profile,
+    contacts: [{ email: 'jane@example.com' }],
+    isSubscribed: true
+  });
+});
+
+test('displays the errors of validators with FormContextHelperText', async () => {
+  const user = userEvent.setup();
+
+  render(
+    <FormContextProvider validators={{ name: (value) => (!value ? 'Name is required.' : null) }}>
+      {({ getTextInputProps }) => (
+        <>
+          <TextInput aria-label="Name" {...getTextInputProps('name')} />
+          <FormContextHelperText fieldId="name">Enter your full name.</FormContextHelperText>
+        </>
+      )}
+    </FormContextProvider>
+  );
+
+  const input = screen.getByRole('textbox', { name: 'Name' });
+
+  expect(screen.getByText('Enter your full name.')).toBeVisible();
+
+  await user.type(input, 'a');
+  await user.clear(input);
+
+  expect(screen.getByText('Name is required.')).toBeVisible();
+  expect(input).toHaveAttribute('aria-invalid', 'true');
+
+  await user.type(input, 'Jane');
+
+  expect(screen.queryByText('Name is required.')).not.toBeInTheDocument();
+});
+
+test('cancels async validations superseded by newer ones', async () => {
+  const user = userEvent.setup();
+  const resolvers: ((error: string | null) => void)[] = [];
+  const signals: AbortSignal[] = [];
+  const validateUsername = jest.fn(
+    (_value: string, _values, { signal }) =>
+      new Promise<string | null>((resolve) => {
+        resolvers.push(resolve);
+        signals.push(signal);
+      })
+  );
+
+  render(
+    <FormContextProvider validators={{ username: validateUsername }}>
+      {({ getTextInputProps, isValidating }) => (
+        <>
+          <TextInput aria-label="Username" {...getTextInputProps('username')} />
+          <FormContextHelperText fieldId="username" validatingText="Checking availability" />
+          {`isValidating: ${isValidating}`}
+        </>
+      )}
+    </FormContextProvider>
+  );
+
+  await user.type(screen.getByRole('textbox', { name: 'Username' }), 'ab');
+
+  expect(screen.getByText('Checking availability')).toBeVisible();
+  expect(signals.map(({ aborted }) => aborted)).toEqual([true, false]);
+
+  resolvers[0]('Username "a" is taken.');
+  resolvers[1]('Username "ab" is taken.');
+
+  expect(await screen.findByText('Username "ab" is taken.')).toBeVisible();
+  expect(screen.queryByText('Username "a" is taken.')).not.toBeInTheDocument();
+  expect(screen.getByText(/^isValidating:/)).toHaveTextContent('isValidating: false');
+});
+
+test('debounces validators', async () => {
+  jest.useFakeTimers();
+  const user = userEvent.setup({ advanceTimers: jest.advanceTimersByTime });
+  const validateUsername = jest.fn((value: string) => (value.length < 3 ? 'Username is too short.' : null));
+
+  render(
+    <FormContextProvider validators={{ username: { validate: validateUsername, debounce: 500 } }}>
+      {({ getTextInputProps }) => (
+        <>
+          <TextInput aria-label="Username" {...getTextInputProps('username')} />
+          <FormContextHelperText fieldId="username" />
+        </>
+      )}
+    </FormContextProvider>
+  );
+
+  await user.type(screen.getByRole('textbox', { name: 'Username' }), 'ab');
+
+  expect(validateUsername).not.toHaveBeenCalled();
+
+  act(() => jest.advanceTimersByTime(500));
+
+  expect(validateUsername).toHaveBeenCalledTimes(1);
+  expect(validateUsername).toHaveBeenCalledWith('ab', { username: 'ab' }, expect.anything());
+  expect(screen.getByText('Username is too short.')).toBeVisible();
+  jest.useRealTimers();
+});
+
+test('validates fields again when the fields they depend on change', async () => {
+  const user = userEvent.setup();
+
+  render(
+    <FormContextProvider
+      validators={{
+        confirmPassword: {
+          validate: (value, values) => (value !== values.password ? 'Passwords do not match.' : null),
+          dependsOn: ['password']
+        }
+      }}
+    >
+      {({ getTextInputProps }) => (
+        <>
+          <TextInput aria-label="Password" {...getTextInputProps('password')} />
+          <TextInput aria-label="Confirm password" {...getTextInputProps('confirmPassword')} />
+          <FormContextHelperText fieldId="confirmPassword" />
+        </>
+      )}
+    </FormContextProvider>
+  );
+
+  await user.type(screen.getByRole('textbox', { name: 'Password' }), 'secret');
+
+  expect(screen.queryByText('Passwords do not match.')).not.toBeInTheDocument();
+
+  await user.type(screen.getByRole('textbox', { name: 'Confirm password' }), 'secret');
+  await user.type(screen.getByRole('textbox', { name: 'Password' }), '!');
+
+  expect(screen.getByText('Passwords do not match.')).toBeVisible();
+});
+
+test('submits valid values and sets the errors returned by onSubmit', async () => {
+  const user = userEvent.setup();
+  let resolveSubmit: (errors: Record<string, string>) => void;
+  const onSubmit = jest.fn(() => new Promise<Record<string, string>>((resolve) => (resolveSubmit = resolve)));
+
+  render(
+    <FormContextProvider
+      initialValues={{ email: '', plan: 'free', isNotified: false }}
+      validators={{ email: (value) => (!value ? 'Email is required.' : null) }}
+      onSubmit={onSubmit}
+    >
+      {({ getTextInputProps, getFormSelectProps, getSwitchProps, handleSubmit, isSubmitting }) => (
+        <form onSubmit={handleSubmit}>
+          <TextInput aria-label="Email" {...getTextInputProps('email')} />
+          <FormContextHelperText fieldId="email" />
+          <FormSelect aria-label="Plan" {...getFormSelectProps('plan')}>
+            <FormSelectOption value="free" label="Free" />
+            <FormSelectOption value="pro" label="Pro" />
+          </FormSelect>
+          <Switch label="Notify me" {...getSwitchProps('isNotified')} />
+          <button type="submit">{isSubmitting ? 'Submitting' : 'Submit'}</button>
+        </form>
+      )}
+    </FormContextProvider>
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Submit' }));
+
+  expect(onSubmit).not.toHaveBeenCalled();
+  expect(screen.getByText('Email is required.')).toBeVisible();
+
+  await user.type(screen.getByRole('textbox', { name: 'Email' }), 'jane@example.com');
+  await user.selectOptions(screen.getByRole('combobox', { name: 'Plan' }), 'pro');
+  await user.click(screen.getByRole('switch', { name: 'Notify me' }));
+  await user.click(screen.getByRole('button', { name: 'Submit' }));
+
+  expect(onSubmit).toHaveBeenCalledWith({ email: 'jane@example.com', plan: 'pro', isNotified: true });
+  expect(screen.getByRole('button', { name: 'Submitting' })).toBeVisible();
+
+  await act(async () => resolveSubmit({ plan: 'The pro plan is not available.' }));
+
+  expect(screen.getByRole('button', { name: 'Submit' })).toBeVisible();
+  expect(screen.getByRole('combobox', { name: 'Plan' })).toHaveAttribute('aria-invalid', 'true');
+
+  await user.selectOptions(screen.getByRole('combobox', { name: 'Plan' }), 'free');
+
+  expect(screen.getByRole('combobox', { name: 'Plan' })).toHaveAttribute('aria-invalid', 'false');
+});
+
+test('resets values, errors and touched states', async () => {
+  const user = userEvent.setup();
+
+  render(
+    <FormContextProvider initialValues={{ name: 'Jane' }}>
+      {({ values, touched, isDirty, getTextInputProps, setError, reset }) => (
+        <>
+          <TextInput aria-label="Name" {...getTextInputProps('name')} />
+          <button onClick={() => setError('name', 'Some error!')}>Set error</button>
+          <button onClick={() => reset()}>Reset</button>
+          <pre>{JSON.stringify({ values, touched, isDirty })}</pre>
+        </>
+      )}
+    </FormContextProvider>
+  );
+
+  await user.type(screen.getByRole('textbox', { name: 'Name' }), ' Doe');
+  await user.click(screen.getByRole('button', { name: 'Set error' }));
+
+  expect(screen.getByRole('textbox', { name: 'Name' })).toHaveAttribute('aria-invalid', 'true');
+
+  await user.click(screen.getByRole('button', { name: 'Reset' }));
+
+  expect(screen.getByRole('textbox', { name: 'Name' })).toHaveAttribute('aria-invalid', 'false');
+  expect(JSON.parse(screen.getByText(/^{/).textContent)).toEqual({
+    values: { name: 'Jane' },
+    touched: {},
+    isDirty: false
+  });
+});
+
+test('ignores async validators rejecting once aborted by an unmount', async () => {
+  const user = userEvent.setup();
+  const onUnhandledRejection = jest.fn();
+  process.on('unhandledRejection', onUnhandledRejection);
+  const validateUsername = (_value: string, _values, { signal }) =>
+    new Promise<string | null>((_resolve, reject) =>
+      signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+    );
+
+  const { unmount } = render(
+    <FormContextProvider validators={{ username: validateUsername }}>
+      {({ getTextInputProps }) => <TextInput aria-label="Username" {...getTextInputProps('username')} />}
+    </FormContextProvider>
+  );
+
+  await user.type(screen.getByRole('textbox', { name: 'Username' }), 'ab');
+  unmount();
+  await new Promise((resolve) => setTimeout(resolve, 0));
+
+  process.off('unhandledRejection', onUnhandledRejection);
+  expect(onUnhandledRejection).not.toHaveBeenCalled();
+});
@@ -0,0 +1,133 @@
+import {
+  ActionGroup,
+  Button,
+  Checkbox,
+  Form,
+  FormContextHelperText,
+  FormContextProvider,
+  FormGroup,
+  FormSelect,
+  FormSelectOption,
+  FormValidators,
+  Switch,
+  TextInput
+} from '@patternfly/react-core';
+
+interface Account {
+  username: string;
+  password: string;
+  confirmPassword: string;
+  profile: { age: number | ''; plan: string };
+  hasAcceptedTerms: boolean;
+  isSubscribed: boolean;
+}
+
+const takenUsernames = ['admin', 'patternfly'];
+
+// Resolves after a delay, like a request to a server, unless the signal is aborted by a newer validation
+const isUsernameTaken = (username: string, signal: AbortSignal) =>
+  new Promise<boolean>((resolve) => {
+    const timeout = setTimeout(() => resolve(takenUsernames.includes(username.toLowerCase())), 500);
+    signal.addEventListener('abort', () => clearTimeout(timeout));
+  });
+
+const validators: FormValidators<Account> = {
+  username: {
+    validate: async (value, _values, { signal }) => {
+      if (!value) {
+        return 'Username is required.';
+      }
+      return (await isUsernameTaken(value, signal)) ? `The username "${value}" is taken.` : null;
+    },
+    debounce: 300
+  },
+  password: (value) => (value.length < 8 ? 'Password must have at least 8 characters.' : null),
+  confirmPassword: {
+    validate: (value, values) => (value !== values.password ? 'Passwords do not match.' : null),
+    dependsOn: ['password']
+  },
+  'profile.age': (value) => (value !== '' && value < 18 ? 'You must be at least 18 years old.' : null),
+  hasAcceptedTerms: (value) => (!value ? 'You must accept the terms to create an account.' : null)
+};
+
+export const FormStateValidation: React.FunctionComponent = () => (
+  <FormContextProvider<Account>
+    initialValues={{
+      username: '',
+      password: '',
+      confirmPassword: '',
+      profile: { age: '', plan: 'free' },
+      hasAcceptedTerms: false,
+      isSubscribed: true
+    }}
+    validators={validators}
+    onSubmit={(values) =>
+      new Promise((resolve) =>
+        setTimeout(() => {
+          if (values.profile.plan === 'enterprise') {
+            // Errors of the server are displayed until the field changes
+            resolve({ 'profile.plan': 'Contact sales to create an enterprise account.' });
+          } else {
+            alert(`Account created with: \n ${JSON.stringify(values, null, 2)}`);
+            resolve();
+          }
+        }, 1000)
+      )
+    }
+  >
+    {({
+      getTextInputProps,
+      getFormSelectProps,
+      getCheckboxProps,
+      getSwitchProps,
+      handleSubmit,
+      reset,
+      isDirty,
+      isSubmitting
+    }) => (
+      <Form onSubmit={handleSubmit}>
+        <FormGroup label="Username" fieldId="username" isRequired>
+          <TextInput {...getTextInputProps('username')} />
+          <FormContextHelperText fieldId="username" validatingText="Checking availability...">
+            Try "admin" to see a taken username.
+          </FormContextHelperText>
+        </FormGroup>
+        <FormGroup label="Password" fieldId="password" isRequired>
+          <TextInput type="password" {...getTextInputProps('password')} />
+          <FormContextHelperText fieldId="password" />
+        </FormGroup>
+        <FormGroup label="Confirm password" fieldId="confirmPassword" isRequired>
+          <TextInput type="password" {...getTextInputProps('confirmPassword')} />
+          <FormContextHelperText fieldId="confirmPassword" />
+        </FormGroup>
+        <FormGroup label="Age" fieldId="profile.age">
+          <TextInput type="number" {...getTextInputProps('profile.age', (value) => (value ? Number(value) : ''))} />
+          <FormContextHelperText fieldId="profile.age" />
+        </FormGroup>
+        <FormGroup label="Plan" fieldId="profile.plan">
+          <FormSelect {...getFormSelectProps('profile.plan')}>
+            <FormSelectOption value="free" label="Free" />
+            <FormSelectOption value="pro" label="Pro" />
+            <FormSelectOption value="enterprise" label="Enterprise" />
+          </FormSelect>
+          <FormContextHelperText fieldId="profile.plan" />
+        </FormGroup>
+        <FormGroup fieldId="hasAcceptedTerms">
+          <Checkbox label="I accept the terms of use" {...getCheckboxProps('hasAcceptedTerms')} />
+          <FormContextHelperText fieldId="hasAcceptedTerms" />
+        </FormGroup>
+        <FormGroup fieldId="isSubscribed">
+          <Switch label="Subscribe to the newsletter" {...getSwitchProps('isSubscribed')} />
+        </FormGroup>
+        <ActionGroup>
+          <Button type="submit" isLoading={isSubmitting} isDisabled={isSubmitting}>
+            Create account
+          </Button>
+          <Button variant="link" onClick={() => reset()} isDisabled={!isDirty || isSubmitting}>
+            Reset
+          </Button>
+        </ActionGroup>
+      </Form>
+    )}
+  </FormContextProvider>
+);
@@ -0,0 +1,38 @@
+type FormPrimitive = string | number | boolean | bigint | symbol | null | undefined | Date | File | Blob;
+
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+/**
+ * Path of a field of the form values, the keys of nested objects and the indices of arrays being separated by dots,
+ * e.g. "address.city" or "contacts.0.email".
+ */
+export type FormFieldPath<T> =
+  IsAny<T> extends true
+    ? string
+    : T extends FormPrimitive
+      ? never
+      : T extends readonly (infer Item)[]
+        ? `${number}` | `${number}.${FormFieldPath<Item>}`
+        : {
+            [Key in keyof T & string]: IsAny<T[Key]> extends true
+              ? Key | `${Key}.${string}`
+              : T[Key] extends FormPrimitive
+                ? Key
+                : Key | `${Key}.${FormFieldPath<T[Key]>}`;
+          }[keyof T & string];
+
+/** Type of the value of a field of the form values at the given path. */
+export type FormFieldPathValue<T, Path extends string> =
+  IsAny<T> extends true
+    ? any
+    : Path extends `${infer Key}.${infer Rest}`
+      ? Key extends keyof T
+        ? FormFieldPathValue<T[Key], Rest>
+        : T extends readonly (infer Item)[]
+          ? FormFieldPathValue<Item, Rest>
+          : undefined
+      : Path extends keyof T
+        ? T[Path]
+        : T extends readonly (infer Item)[]
+          ? Item
+          : undefined;
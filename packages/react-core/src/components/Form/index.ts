@@ -9,3 +9,5 @@ export * from './FormGroupLabelHelp';
 export * from './FormHelperText';
 export * from './FormSection';
 export * from './FormContext';
+export * from './FormContextHelperText';
+export * from './formContextUtils';
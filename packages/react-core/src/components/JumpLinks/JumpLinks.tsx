@@ -8,6 +8,7 @@ import { Button } from '../Button';
 import { JumpLinksItem, JumpLinksItemProps } from './JumpLinksItem';
 import { JumpLinksList } from './JumpLinksList';
 import { canUseDOM, formatBreakpointMods } from '../../helpers/util';
+import { UrlHistoryAdapter } from '../../helpers/useUrlState';
 
 export interface JumpLinksProps extends Omit<React.HTMLProps<HTMLElement>, 'label'> {
   /** Whether to center children. */
@@ -47,6 +48,11 @@ export interface JumpLinksProps extends Omit<React.HTMLProps<HTMLElement>, 'labe
   className?: string;
   /** Whether the current entry in the navigation history should be replaced when a JumpLinksItem is clicked. By default a new entry will be pushed to the navigation history. */
   shouldReplaceNavHistory?: boolean;
+  /** History through which the URL is changed when a JumpLinksItem is clicked, e.g. the history of a router. When it is
+   * passed, the active item also follows the hash of the URL, so that the back and forward buttons of the browser
+   * scroll to the previously clicked sections. Requires scrollableRef or scrollableSelector.
+   */
+  history?: UrlHistoryAdapter;
 }
 
 // Recursively find JumpLinkItems and return an array of all their scrollNodes
@@ -73,6 +79,19 @@ const getScrollItems = (children: React.ReactNode, res: HTMLElement[]) => {
   return res;
 };
 
+// Recursively find the hrefs of JumpLinkItems, in the same order as their scrollNodes
+const getItemHrefs = (children: React.ReactNode, res: string[]) => {
+  Children.forEach(children, (child: any) => {
+    if (child?.type === JumpLinksItem) {
+      res.push(child.props.href);
+    }
+    if ([Fragment, JumpLinksList, JumpLinksItem].includes(child?.type)) {
+      getItemHrefs(child.props.children, res);
+    }
+  });
+  return res;
+};
+
 function isResponsive(jumpLinks: HTMLElement) {
   // https://github.com/patternfly/patternfly/blob/main/src/patternfly/components/JumpLinks/jump-links.scss#L103
   return jumpLinks && getComputedStyle(jumpLinks).getPropertyValue(cssToggleDisplayVar.name).includes('block');
@@ -94,6 +113,7 @@ export const JumpLinks: React.FunctionComponent<JumpLinksProps> = ({
   toggleAriaLabel = 'Toggle jump links',
   className,
   shouldReplaceNavHistory = false,
+  history,
   ...props
 }: JumpLinksProps) => {
   const hasScrollSpy = Boolean(scrollableRef || scrollableSelector);
@@ -103,6 +123,8 @@ export const JumpLinks: React.FunctionComponent<JumpLinksProps> = ({
   // Boolean to disable scroll listener from overriding active state of clicked jumplink
   const isLinkClicked = useRef(false);
   const navRef = useRef<HTMLElement>(undefined);
+  // Hash of the URL the active item was last synced with, so that clicked items are not scrolled to again
+  const syncedHashRef = useRef<string>(undefined);
 
   let scrollableElement: HTMLElement;
 
@@ -168,6 +190,39 @@ export const JumpLinks: React.FunctionComponent<JumpLinksProps> = ({
     scrollSpy();
   }, []);
 
+  // Activates and scrolls to the item whose href is the hash of the URL, e.g. after navigating back. It is replaced on
+  // each render, so that the history listener resolves the hash against the current children.
+  const activateHashItemRef = useRef<() => void>(undefined);
+  activateHashItemRef.current = () => {
+    const { hash } = history.getLocation();
+    if (hash === syncedHashRef.current) {
+      return;
+    }
+    syncedHashRef.current = hash;
+    const itemIndex = hash ? getItemHrefs(children, []).indexOf(hash) : -1;
+    const scrollItem = getScrollItems(children, [])[itemIndex];
+    const scrollableElement = getScrollableElement();
+
+    if (itemIndex === -1 || !scrollItem) {
+      return;
+    }
+    if (scrollableElement instanceof HTMLElement) {
+      isLinkClicked.current = true;
+      scrollableElement.scrollTo(0, scrollItem.offsetTop - offset);
+    }
+    setActiveIndex(itemIndex);
+  };
+
+  useEffect(() => {
+    if (!history || !hasScrollSpy) {
+      return;
+    }
+    const activateHashItem = () => activateHashItemRef.current();
+
+    activateHashItem();
+    return history.listen(activateHashItem);
+  }, [history, hasScrollSpy]);
+
   let jumpLinkIndex = 0;
   const cloneChildren = (children: React.ReactNode): React.ReactNode =>
     !hasScrollSpy
@@ -209,10 +264,21 @@ export const JumpLinks: React.FunctionComponent<JumpLinksProps> = ({
                     scrollableElement.scrollTo(0, newScrollItem.offsetTop - offset);
                   }
                   newScrollItem.focus();
-                  if (shouldReplaceNavHistory) {
-                    window.history.replaceState('', '', (ev.currentTarget as HTMLAnchorElement).href);
+                  const href = (ev.currentTarget as HTMLAnchorElement).href;
+                  if (history) {
+                    // Resolve the href against the location of the history, which may differ from window.location
+                    const { pathname, search } = history.getLocation();
+                    const url = new URL(
+                      (ev.currentTarget as HTMLAnchorElement).getAttribute('href'),
+                      new URL(`${pathname}${search}`, window.location.origin)
+                    );
+                    syncedHashRef.current = url.hash;
+                    const path = `${url.pathname}${url.search}${url.hash}`;
+                    shouldReplaceNavHistory ? history.replace(path) : history.push(path);
+                  } else if (shouldReplaceNavHistory) {
+                    window.history.replaceState('', '', href);
                   } else {
-                    window.history.pushState('', '', (ev.currentTarget as HTMLAnchorElement).href);
+                    window.history.pushState('', '', href);
                   }
                   ev.preventDefault();
                   setActiveIndex(itemIndex);
@@ -1,7 +1,9 @@
-import { render } from '@testing-library/react';
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import { JumpLinks } from '../JumpLinks';
 import { JumpLinksItem } from '../JumpLinksItem';
 import { JumpLinksList } from '../JumpLinksList';
+import { createMemoryHistoryAdapter, UrlHistoryAdapter } from '../../../helpers/useUrlState';
 
 test('simple jumplinks', () => {
   const { asFragment } = render(
@@ -75,3 +77,99 @@ test('expandable vertical with subsection', () => {
   );
   expect(asFragment()).toMatchSnapshot();
 });
+
+describe('with a history', () => {
+  const renderHistoryJumpLinks = (history: UrlHistoryAdapter, shouldReplaceNavHistory?: boolean) =>
+    render(
+      <>
+        <JumpLinks
+          scrollableSelector="#jump-links-scrollable"
+          history={history}
+          shouldReplaceNavHistory={shouldReplaceNavHistory}
+          label="Jump to section"
+        >
+          <JumpLinksItem href="#first">First section</JumpLinksItem>
+          <JumpLinksItem href="#second">Second section</JumpLinksItem>
+        </JumpLinks>
+        <div id="jump-links-scrollable">
+          <h2 id="first">First</h2>
+          <h2 id="second">Second</h2>
+        </div>
+      </>
+    );
+
+  beforeAll(() => {
+    Element.prototype.scrollTo = jest.fn();
+  });
+
+  test('pushes the href of a clicked item to the history', async () => {
+    const user = userEvent.setup();
+    const history = createMemoryHistoryAdapter('/docs');
+    const push = jest.spyOn(history, 'push');
+    renderHistoryJumpLinks(history);
+
+    await user.click(screen.getByRole('link', { name: 'Second section' }));
+
+    expect(push).toHaveBeenCalledWith('/docs#second');
+    expect(screen.getByRole('link', { name: 'Second section' }).closest('li')).toHaveAttribute(
+      'aria-current',
+      'location'
+    );
+  });
+
+  test('replaces the current entry of the history when shouldReplaceNavHistory is passed', async () => {
+    const user = userEvent.setup();
+    const history = createMemoryHistoryAdapter('/docs');
+    const replace = jest.spyOn(history, 'replace');
+    renderHistoryJumpLinks(history, true);
+
+    await user.click(screen.getByRole('link', { name: 'Second section' }));
+
+    expect(replace).toHaveBeenCalledWith('/docs#second');
+  });
+
+  test('activates the item of the hash of the URL', () => {
+    const history = createMemoryHistoryAdapter('/docs#second');
+    renderHistoryJumpLinks(history);
+
+    expect(screen.getByRole('link', { name: 'Second section' }).closest('li')).toHaveAttribute(
+      'aria-current',
+      'location'
+    );
+
+    act(() => history.push('/docs#first'));
+    expect(screen.getByRole('link', { name: 'First section' }).closest('li')).toHaveAttribute(
+      'aria-current',
+      'location'
+    );
+  });
+
+  test('activates the item of the hash of the URL among items added after the first render', () => {
+    const history = createMemoryHistoryAdapter('/docs');
+    const renderSections = (sections: string[]) => (
+      <>
+        <JumpLinks scrollableSelector="#jump-links-scrollable" history={history} label="Jump to section">
+          {sections.map((section) => (
+            <JumpLinksItem key={section} href={`#${section}`}>{`${section} section`}</JumpLinksItem>
+          ))}
+        </JumpLinks>
+        <div id="jump-links-scrollable">
+          {sections.map((section) => (
+            <h2 key={section} id={section}>
+              {section}
+            </h2>
+          ))}
+        </div>
+      </>
+    );
+    const { rerender } = render(renderSections(['first', 'second']));
+
+    rerender(renderSections(['first', 'second', 'third']));
+    act(() => history.push('/docs#third'));
+
+    expect(screen.getByRole('link', { name: 'third section' }).closest('li')).toHaveAttribute(
+      'aria-current',
+      'location'
+    );
+  });
+});
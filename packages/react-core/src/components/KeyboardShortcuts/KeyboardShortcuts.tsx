@@ -0,0 +1,121 @@
+import { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { useIsomorphicLayoutEffect } from '../../helpers/useIsomorphicLayout';
+import {
+  createKeyboardShortcutRegistry,
+  KeyboardShortcut,
+  KeyboardShortcutRegistry,
+  KeyboardShortcutRegistryOptions
+} from './keyboardShortcutRegistry';
+
+// Shortcuts and scopes are only registered within a provider, so that unrelated trees of the page don't share them
+const KeyboardShortcutsContext = createContext<KeyboardShortcutRegistry>(undefined);
+
+export interface KeyboardShortcutsProviderProps extends KeyboardShortcutRegistryOptions {
+  /** Content rendered within the provider. */
+  children?: React.ReactNode;
+  /** Registry of the shortcuts registered within the provider. When not passed, a registry is created from the
+   * options of the provider.
+   */
+  registry?: KeyboardShortcutRegistry;
+}
+
+export const KeyboardShortcutsProvider: React.FunctionComponent<KeyboardShortcutsProviderProps> = ({
+  children,
+  registry: registryProp,
+  sequenceTimeout,
+  onConflict,
+  isMac
+}: KeyboardShortcutsProviderProps) => {
+  const [ownRegistry] = useState(
+    () => registryProp || createKeyboardShortcutRegistry({ sequenceTimeout, onConflict, isMac })
+  );
+  const registry = registryProp || ownRegistry;
+
+  return <KeyboardShortcutsContext.Provider value={registry}>{children}</KeyboardShortcutsContext.Provider>;
+};
+KeyboardShortcutsProvider.displayName = 'KeyboardShortcutsProvider';
+
+/** Returns the keyboard shortcut registry of the nearest provider, or undefined outside of a provider. */
+export const useKeyboardShortcutRegistry = () => useContext(KeyboardShortcutsContext);
+
+export interface KeyboardShortcutOptions
+  extends Partial<Pick<KeyboardShortcut, 'description' | 'scope' | 'group' | 'allowInInputs'>> {
+  /** Flag indicating the shortcut is not registered. */
+  isDisabled?: boolean;
+}
+
+/**
+ * Registers a keyboard shortcut to the registry of the nearest provider while the calling component is mounted, and
+ * listens to key presses on the document to run it. The keys are separated by spaces for sequences, e.g. "g d", and Mod
+ * is the command key on macOS and Ctrl elsewhere. Pass null as keys to not register a shortcut. Nothing is registered
+ * outside of a provider.
+ */
+export const useKeyboardShortcut = (
+  keys: string | null,
+  action: (event: KeyboardEvent) => void,
+  { description = '', scope, group, allowInInputs, isDisabled = false }: KeyboardShortcutOptions = {}
+) => {
+  const registry = useKeyboardShortcutRegistry();
+  // The latest action is run without registering the shortcut again each time it changes
+  const actionRef = useRef(action);
+  useIsomorphicLayoutEffect(() => {
+    actionRef.current = action;
+  });
+
+  useEffect(() => {
+    if (!registry || !keys || isDisabled) {
+      return;
+    }
+    const unregister = registry.register({
+      keys,
+      description,
+      scope,
+      group,
+      allowInInputs,
+      action: (event) => actionRef.current(event)
+    });
+    const stopListening = registry.listen();
+    return () => {
+      unregister();
+      stopListening();
+    };
+  }, [registry, keys, description, scope, group, allowInInputs, isDisabled]);
+};
+
+/**
+ * Activates a scope of keyboard shortcuts of the nearest provider while the calling component is mounted and isActive
+ * is true, e.g. while a modal is open. When blocksOuterScopes is true, only the shortcuts of the scope and the scopes
+ * activated after it run. Nothing is activated outside of a provider.
+ */
+export const useKeyboardShortcutScope = (
+  scope: string,
+  isActive: boolean = true,
+  blocksOuterScopes: boolean = false
+) => {
+  const registry = useKeyboardShortcutRegistry();
+
+  useEffect(
+    () => (registry && isActive ? registry.activateScope(scope, blocksOuterScopes) : undefined),
+    [registry, scope, isActive, blocksOuterScopes]
+  );
+};
+
+/**
+ * Returns the shortcuts of the active scopes of the nearest provider, innermost scope first, and updates when they
+ * change. No shortcuts are returned outside of a provider.
+ */
+export const useActiveKeyboardShortcuts = () => {
+  const registry = useKeyboardShortcutRegistry();
+  const [activeShortcuts, setActiveShortcuts] = useState(() => registry?.getActiveShortcuts() ?? []);
+
+  useEffect(() => {
+    if (!registry) {
+      setActiveShortcuts([]);
+      return;
+    }
+    setActiveShortcuts(registry.getActiveShortcuts());
+    return registry.subscribe(() => setActiveShortcuts(registry.getActiveShortcuts()));
+  }, [registry]);
+
+  return activeShortcuts;
+};
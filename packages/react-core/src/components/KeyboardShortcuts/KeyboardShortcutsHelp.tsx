@@ -0,0 +1,142 @@
+import { Fragment, useState } from 'react';
+import { Modal, ModalBody, ModalHeader, ModalProps } from '../Modal';
+import { Label } from '../Label';
+import { Title } from '../Title';
+import {
+  DescriptionList,
+  DescriptionListDescription,
+  DescriptionListGroup,
+  DescriptionListTerm
+} from '../DescriptionList';
+import { Stack, StackItem } from '../../layouts/Stack';
+import { getShortcutKeys, KeyboardShortcut } from './keyboardShortcutRegistry';
+import { useActiveKeyboardShortcuts, useKeyboardShortcutRegistry } from './KeyboardShortcuts';
+
+export interface KeyboardShortcutKeysProps {
+  /** Keys of the shortcut, e.g. "Mod+K" or "g d". */
+  keys: string;
+  /** Text displayed between the keys of a sequence. */
+  sequenceSeparator?: string;
+  /** Flag indicating modifiers are displayed as on macOS. Detected from the platform by default. */
+  isMac?: boolean;
+}
+
+/** Displays the keys of a keyboard shortcut as they are named on the current platform. */
+export const KeyboardShortcutKeys: React.FunctionComponent<KeyboardShortcutKeysProps> = ({
+  keys,
+  sequenceSeparator = 'then',
+  isMac
+}: KeyboardShortcutKeysProps) => (
+  <>
+    {getShortcutKeys(keys, isMac).map((stepKeys, stepIndex) => (
+      <Fragment key={stepIndex}>
+        {stepIndex > 0 && ` ${sequenceSeparator} `}
+        {stepKeys.map((key, keyIndex) => (
+          <Label key={keyIndex} variant="outline" isCompact>
+            {key}
+          </Label>
+        ))}
+      </Fragment>
+    ))}
+  </>
+);
+KeyboardShortcutKeys.displayName = 'KeyboardShortcutKeys';
+
+export interface KeyboardShortcutsListProps extends Omit<KeyboardShortcutKeysProps, 'keys'> {
+  /** Shortcuts listed. Defaults to the shortcuts of the active scopes of the nearest registry. */
+  shortcuts?: KeyboardShortcut[];
+  /** Labels of the groups of shortcuts without a group, by scope. Shortcuts of scopes without a label are listed under
+   * the name of their scope.
+   */
+  scopeLabels?: { [scope: string]: string };
+}
+
+/** Lists keyboard shortcuts with their keys and descriptions, by group. */
+export const KeyboardShortcutsList: React.FunctionComponent<KeyboardShortcutsListProps> = ({
+  shortcuts: shortcutsProp,
+  scopeLabels = { page: 'General' },
+  ...keysProps
+}: KeyboardShortcutsListProps) => {
+  const activeShortcuts = useActiveKeyboardShortcuts();
+  const shortcuts = shortcutsProp ?? activeShortcuts;
+
+  const groups = shortcuts.reduce(
+    (groups, shortcut) => {
+      const label = shortcut.group ?? scopeLabels[shortcut.scope] ?? shortcut.scope;
+      const group = groups.find((group) => group.label === label);
+      group ? group.shortcuts.push(shortcut) : groups.push({ label, shortcuts: [shortcut] });
+      return groups;
+    },
+    [] as { label: string; shortcuts: KeyboardShortcut[] }[]
+  );
+
+  return (
+    <Stack hasGutter>
+      {groups.map(({ label, shortcuts }) => (
+        <StackItem key={label}>
+          <Title headingLevel="h3" size="md">
+            {label}
+          </Title>
+          <DescriptionList isHorizontal isCompact>
+            {shortcuts.map((shortcut) => (
+              <DescriptionListGroup key={shortcut.id}>
+                <DescriptionListTerm>
+                  <KeyboardShortcutKeys keys={shortcut.keys} {...keysProps} />
+                </DescriptionListTerm>
+                <DescriptionListDescription>{shortcut.description}</DescriptionListDescription>
+              </DescriptionListGroup>
+            ))}
+          </DescriptionList>
+        </StackItem>
+      ))}
+    </Stack>
+  );
+};
+KeyboardShortcutsList.displayName = 'KeyboardShortcutsList';
+
+export interface KeyboardShortcutsHelpModalProps extends KeyboardShortcutsListProps {
+  /** Flag indicating the modal is open. */
+  isOpen: boolean;
+  /** Callback triggered when the modal is closed. */
+  onClose: (event: KeyboardEvent | React.MouseEvent) => void;
+  /** Title of the modal. */
+  title?: React.ReactNode;
+  /** Additional props passed to the modal. */
+  modalProps?: Omit<ModalProps, 'children' | 'isOpen' | 'onClose' | 'ref'>;
+}
+
+/** Modal listing the keyboard shortcuts of the scopes active when it opens, e.g. opened with the "?" shortcut. */
+export const KeyboardShortcutsHelpModal: React.FunctionComponent<KeyboardShortcutsHelpModalProps> = ({
+  isOpen,
+  onClose,
+  title = 'Keyboard shortcuts',
+  modalProps,
+  shortcuts,
+  ...listProps
+}: KeyboardShortcutsHelpModalProps) => {
+  const registry = useKeyboardShortcutRegistry();
+  const [wasOpen, setWasOpen] = useState(false);
+  const [openShortcuts, setOpenShortcuts] = useState<KeyboardShortcut[]>([]);
+
+  // The shortcuts are read as the modal opens, before the modal scope it activates blocks the scopes below it
+  if (isOpen !== wasOpen) {
+    setWasOpen(isOpen);
+    isOpen && setOpenShortcuts(registry?.getActiveShortcuts() ?? []);
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      variant="medium"
+      aria-labelledby="pf-keyboard-shortcuts-help-title"
+      {...modalProps}
+    >
+      <ModalHeader title={title} labelId="pf-keyboard-shortcuts-help-title" />
+      <ModalBody>
+        <KeyboardShortcutsList shortcuts={shortcuts ?? openShortcuts} {...listProps} />
+      </ModalBody>
+    </Modal>
+  );
+};
+KeyboardShortcutsHelpModal.displayName = 'KeyboardShortcutsHelpModal';
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+import { KeyboardShortcutsProvider, useKeyboardShortcut, useKeyboardShortcutScope } from '../KeyboardShortcuts';
+import { KeyboardShortcutsHelpModal } from '../KeyboardShortcutsHelp';
+import { Modal } from '../../Modal';
+
+const Page = ({ onSave = jest.fn() }: { onSave?: () => void }) => {
+  const [isHelpOpen, setIsHelpOpen] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  useKeyboardShortcut('?', () => setIsHelpOpen(true), { description: 'Show keyboard shortcuts' });
+  useKeyboardShortcut('g d', jest.fn(), { description: 'Go to dashboard', group: 'Navigation' });
+  useKeyboardShortcut('Mod+S', onSave, { description: 'Save', scope: 'editor' });
+  useKeyboardShortcutScope('editor', isEditing);
+
+  return (
+    <>
+      <button onClick={() => setIsEditing(!isEditing)}>Toggle editing</button>
+      <KeyboardShortcutsHelpModal isOpen={isHelpOpen} onClose={() => setIsHelpOpen(false)} isMac={false} />
+    </>
+  );
+};
+
+const ShortcutOnPage = ({ keys, action }: { keys: string; action: () => void }): null => {
+  useKeyboardShortcut(keys, action);
+  return null;
+};
+
+test('Lists the active shortcuts in the help modal', async () => {
+  const user = userEvent.setup();
+  render(
+    <KeyboardShortcutsProvider isMac={false}>
+      <Page />
+    </KeyboardShortcutsProvider>
+  );
+
+  await user.keyboard('?');
+
+  const dialog = screen.getByRole('dialog', { name: 'Keyboard shortcuts' });
+  expect(within(dialog).getByRole('heading', { name: 'General' })).toBeVisible();
+  expect(within(dialog).getByRole('heading', { name: 'Navigation' })).toBeVisible();
+  expect(within(dialog).getByText('Go to dashboard')).toBeVisible();
+  expect(within(dialog).getByText('then')).toBeVisible();
+  expect(within(dialog).queryByText('Save')).not.toBeInTheDocument();
+});
+
+test('Does not run shortcuts registered outside of a provider', async () => {
+  const onGoToDashboard = jest.fn();
+  const user = userEvent.setup();
+  render(<ShortcutOnPage keys="g d" action={onGoToDashboard} />);
+
+  await user.keyboard('gd');
+
+  expect(onGoToDashboard).not.toHaveBeenCalled();
+});
+
+test('Runs the shortcuts of a scope while it is active', async () => {
+  const onSave = jest.fn();
+  const user = userEvent.setup();
+  render(
+    <KeyboardShortcutsProvider isMac={false}>
+      <Page onSave={onSave} />
+    </KeyboardShortcutsProvider>
+  );
+
+  await user.keyboard('{Control>}s{/Control}');
+
+  expect(onSave).not.toHaveBeenCalled();
+
+  await user.click(screen.getByRole('button', { name: 'Toggle editing' }));
+  await user.keyboard('{Control>}s{/Control}');
+
+  expect(onSave).toHaveBeenCalledTimes(1);
+});
+
+test('Does not run the shortcuts of the page while a modal is open', async () => {
+  const onGoToDashboard = jest.fn();
+  const user = userEvent.setup();
+  const { rerender } = render(
+    <KeyboardShortcutsProvider isMac={false}>
+      <ShortcutOnPage keys="g d" action={onGoToDashboard} />
+      <Modal isOpen aria-label="Some modal">
+        <button>Modal action</button>
+      </Modal>
+    </KeyboardShortcutsProvider>
+  );
+
+  await user.keyboard('gd');
+
+  expect(onGoToDashboard).not.toHaveBeenCalled();
+
+  rerender(
+    <KeyboardShortcutsProvider isMac={false}>
+      <ShortcutOnPage keys="g d" action={onGoToDashboard} />
+      <Modal isOpen={false} aria-label="Some modal">
+        <button>Modal action</button>
+      </Modal>
+    </KeyboardShortcutsProvider>
+  );
+  await user.keyboard('gd');
+
+  expect(onGoToDashboard).toHaveBeenCalledTimes(1);
+});
+
+test('Runs the shortcuts of the page while a modal without a backdrop is open', async () => {
+  const onGoToDashboard = jest.fn();
+  const user = userEvent.setup();
+  render(
+    <KeyboardShortcutsProvider isMac={false}>
+      <ShortcutOnPage keys="g d" action={onGoToDashboard} />
+      <Modal isOpen hasNoBackdrop aria-label="Some modal">
+        <button>Modal action</button>
+      </Modal>
+    </KeyboardShortcutsProvider>
+  );
+
+  await user.keyboard('gd');
+
+  expect(onGoToDashboard).toHaveBeenCalledTimes(1);
+});
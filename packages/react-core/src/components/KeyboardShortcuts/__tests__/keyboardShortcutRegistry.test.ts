@@ -0,0 +1,149 @@
+import { createKeyboardShortcutRegistry, getShortcutKeys, matchesShortcut } from '../keyboardShortcutRegistry';
+
+const press = (key: string, init: KeyboardEventInit = {}, target: EventTarget = document.body) => {
+  const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init });
+  target.dispatchEvent(event);
+  return event;
+};
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+test('matches keyboard events against shortcuts for the platform', () => {
+  const event = new KeyboardEvent('keydown', { key: 'k', ctrlKey: true });
+
+  expect(matchesShortcut(event, 'Mod+K', false)).toBe(true);
+  expect(matchesShortcut(event, 'Mod+K', true)).toBe(false);
+  expect(matchesShortcut(new KeyboardEvent('keydown', { key: 'k', metaKey: true }), 'Mod+K', true)).toBe(true);
+  expect(matchesShortcut(event, 'Mod+Shift+K', false)).toBe(false);
+  expect(matchesShortcut(new KeyboardEvent('keydown', { key: '?', shiftKey: true }), '?', false)).toBe(true);
+});
+
+test('displays the keys of shortcuts for the platform', () => {
+  expect(getShortcutKeys('Mod+Shift+p', false)).toEqual([['Ctrl', 'Shift', 'P']]);
+  expect(getShortcutKeys('Mod+Shift+p', true)).toEqual([['⌘', '⇧', 'P']]);
+  expect(getShortcutKeys('g d', false)).toEqual([['G'], ['D']]);
+  expect(getShortcutKeys('Mod++', false)).toEqual([['Ctrl', '+']]);
+});
+
+test('runs shortcuts while listening and stops once every listener stopped', () => {
+  const registry = createKeyboardShortcutRegistry({ isMac: false });
+  const action = jest.fn();
+  registry.register({ keys: 'Mod+K', description: 'Search', action });
+
+  const stopListening1 = registry.listen();
+  const stopListening2 = registry.listen();
+  const event = press('k', { ctrlKey: true });
+
+  expect(action).toHaveBeenCalledWith(event);
+  expect(event.defaultPrevented).toBe(true);
+
+  stopListening1();
+  press('k', { ctrlKey: true });
+  stopListening2();
+  press('k', { ctrlKey: true });
+
+  expect(action).toHaveBeenCalledTimes(2);
+});
+
+test('runs sequences pressed within the timeout', () => {
+  jest.useFakeTimers();
+  const registry = createKeyboardShortcutRegistry({ sequenceTimeout: 1000 });
+  const goToDashboard = jest.fn();
+  registry.register({ keys: 'g d', description: 'Go to dashboard', action: goToDashboard });
+  const stopListening = registry.listen();
+
+  press('g');
+  press('d');
+
+  expect(goToDashboard).toHaveBeenCalledTimes(1);
+
+  press('g');
+  jest.advanceTimersByTime(1001);
+  press('d');
+
+  expect(goToDashboard).toHaveBeenCalledTimes(1);
+
+  press('x');
+  press('g');
+  press('d');
+
+  expect(goToDashboard).toHaveBeenCalledTimes(2);
+  stopListening();
+});
+
+test('ignores shortcuts without modifiers while a text field has focus', () => {
+  const registry = createKeyboardShortcutRegistry({ isMac: false });
+  const help = jest.fn();
+  const search = jest.fn();
+  registry.register({ keys: '?', description: 'Show help', action: help });
+  registry.register({ keys: 'Mod+K', description: 'Search', action: search });
+  const input = document.createElement('input');
+  document.body.appendChild(input);
+  const stopListening = registry.listen();
+
+  press('?', { shiftKey: true }, input);
+  press('k', { ctrlKey: true }, input);
+
+  expect(help).not.toHaveBeenCalled();
+  expect(search).toHaveBeenCalled();
+  stopListening();
+  input.remove();
+});
+
+test('only runs the shortcuts of scopes which are not blocked', () => {
+  const registry = createKeyboardShortcutRegistry();
+  const pageAction = jest.fn();
+  const editorAction = jest.fn();
+  const modalAction = jest.fn();
+  registry.register({ keys: 's', description: 'Page save', action: pageAction });
+  registry.register({ keys: 's', description: 'Editor save', scope: 'editor', action: editorAction });
+  registry.register({ keys: 'Escape', description: 'Close', scope: 'modal', action: modalAction });
+  const stopListening = registry.listen();
+
+  const deactivateEditor = registry.activateScope('editor');
+  press('s');
+
+  expect(editorAction).toHaveBeenCalledTimes(1);
+  expect(pageAction).not.toHaveBeenCalled();
+  expect(registry.getActiveShortcuts().map(({ description }) => description)).toEqual(['Editor save', 'Page save']);
+
+  const deactivateModal = registry.activateScope('modal', true);
+  press('s');
+
+  expect(registry.getActiveShortcuts().map(({ description }) => description)).toEqual(['Close']);
+  expect(editorAction).toHaveBeenCalledTimes(1);
+
+  deactivateModal();
+  deactivateEditor();
+  press('s');
+
+  expect(pageAction).toHaveBeenCalledTimes(1);
+  stopListening();
+});
+
+test('detects conflicting shortcuts of the same scope', () => {
+  const onConflict = jest.fn();
+  const registry = createKeyboardShortcutRegistry({ onConflict, isMac: false });
+
+  registry.register({ id: 'go', keys: 'g', description: 'Go', action: jest.fn() });
+  registry.register({ id: 'go-dashboard', keys: 'g d', description: 'Go to dashboard', action: jest.fn() });
+  registry.register({ id: 'editor-go', keys: 'g', description: 'Editor go', scope: 'editor', action: jest.fn() });
+
+  expect(onConflict).toHaveBeenCalledTimes(1);
+  expect(onConflict.mock.calls[0][0].map(({ id }) => id)).toEqual(['go-dashboard', 'go']);
+  expect(registry.getConflicts().map((conflict) => conflict.map(({ id }) => id))).toEqual([['go', 'go-dashboard']]);
+});
+
+test('notifies subscribers when shortcuts are registered and unregistered', () => {
+  const registry = createKeyboardShortcutRegistry();
+  const listener = jest.fn();
+  registry.subscribe(listener);
+
+  const unregister = registry.register({ keys: 'a', description: 'A', action: jest.fn() });
+  unregister();
+
+  expect(listener).toHaveBeenCalledTimes(2);
+  expect(registry.getShortcuts()).toEqual([]);
+});
@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import {
+  Button,
+  Content,
+  KeyboardShortcutKeys,
+  KeyboardShortcutScopes,
+  KeyboardShortcutsHelpModal,
+  KeyboardShortcutsProvider,
+  TextArea,
+  useKeyboardShortcut,
+  useKeyboardShortcutScope
+} from '@patternfly/react-core';
+
+const Page: React.FunctionComponent = () => {
+  const [isHelpOpen, setIsHelpOpen] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [text, setText] = useState('');
+  const [lastShortcut, setLastShortcut] = useState<string>();
+
+  useKeyboardShortcut('?', () => setIsHelpOpen(true), { description: 'Show keyboard shortcuts' });
+  useKeyboardShortcut('g d', () => setLastShortcut('Go to dashboard'), {
+    description: 'Go to dashboard',
+    group: 'Navigation'
+  });
+  useKeyboardShortcut('g s', () => setLastShortcut('Go to settings'), {
+    description: 'Go to settings',
+    group: 'Navigation'
+  });
+  useKeyboardShortcut('e', () => setIsEditing(true), { description: 'Edit the note', isDisabled: isEditing });
+
+  useKeyboardShortcutScope(KeyboardShortcutScopes.editor, isEditing);
+  useKeyboardShortcut('Mod+Enter', () => setIsEditing(false), {
+    description: 'Save the note',
+    scope: KeyboardShortcutScopes.editor
+  });
+  useKeyboardShortcut('Escape', () => setIsEditing(false), {
+    description: 'Stop editing the note',
+    scope: KeyboardShortcutScopes.editor,
+    allowInInputs: true
+  });
+
+  return (
+    <>
+      <Content component="p">
+        Press <KeyboardShortcutKeys keys="?" /> to list the keyboard shortcuts, or <KeyboardShortcutKeys keys="g d" />{' '}
+        to go to the dashboard.
+        {lastShortcut && ` Last shortcut: ${lastShortcut}.`}
+      </Content>
+      {isEditing ? (
+        <TextArea value={text} onChange={(_event, value) => setText(value)} aria-label="Note" autoFocus />
+      ) : (
+        <Button variant="secondary" onClick={() => setIsEditing(true)}>
+          Edit note
+        </Button>
+      )}
+      <KeyboardShortcutsHelpModal
+        isOpen={isHelpOpen}
+        onClose={() => setIsHelpOpen(false)}
+        scopeLabels={{ page: 'General', editor: 'Note editor' }}
+      />
+    </>
+  );
+};
+
+export const KeyboardShortcutsBasic: React.FunctionComponent = () => (
+  <KeyboardShortcutsProvider>
+    <Page />
+  </KeyboardShortcutsProvider>
+);
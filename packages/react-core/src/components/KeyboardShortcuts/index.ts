@@ -0,0 +1,3 @@
+export * from './KeyboardShortcuts';
+export * from './KeyboardShortcutsHelp';
+export * from './keyboardShortcutRegistry';
@@ -0,0 +1,332 @@
+import { getUniqueId } from '../../helpers/util';
+
+/** Scopes of the shortcuts of the page, of open modals and of focused code editors. */
+export const KeyboardShortcutScopes = {
+  page: 'page',
+  modal: 'modal',
+  editor: 'editor'
+} as const;
+
+/** A keyboard shortcut kept by a keyboard shortcut registry. */
+export interface KeyboardShortcut {
+  /** Unique id of the shortcut. */
+  id: string;
+  /** Keys of the shortcut, e.g. "Mod+K", where Mod is the command key on macOS and Ctrl elsewhere. Keys pressed one
+   * after the other are separated by spaces, e.g. "g d".
+   */
+  keys: string;
+  /** Description of what the shortcut does, listed in the keyboard shortcuts help. */
+  description: string;
+  /** Scope in which the shortcut is active, e.g. "page", "modal" or "editor". */
+  scope: string;
+  /** Label of the group the shortcut is listed in by the keyboard shortcuts help. */
+  group?: string;
+  /** Callback run when the keys of the shortcut are pressed. Shortcuts without an action are only listed, e.g. the
+   * shortcuts handled by a code editor.
+   */
+  action?: (event: KeyboardEvent) => void;
+  /** Flag indicating the shortcut is also run while a text field has focus. Shortcuts starting with Ctrl, Alt or the
+   * command key always are.
+   */
+  allowInInputs?: boolean;
+}
+
+/** A shortcut registered to a keyboard shortcut registry. The id is generated and the scope is "page" unless they are
+ * passed.
+ */
+export type KeyboardShortcutInput = Omit<KeyboardShortcut, 'id' | 'scope'> &
+  Partial<Pick<KeyboardShortcut, 'id' | 'scope'>>;
+
+export interface KeyboardShortcutRegistryOptions {
+  /** Milliseconds within which the next key of a sequence must be pressed. */
+  sequenceTimeout?: number;
+  /** Callback triggered when a shortcut is registered with the same keys as other shortcuts of its scope, or keys
+   * starting a sequence of one of them. Warns in the console by default.
+   */
+  onConflict?: (shortcuts: KeyboardShortcut[]) => void;
+  /** Flag indicating modifiers are matched and displayed as on macOS. Detected from the platform by default. */
+  isMac?: boolean;
+}
+
+/** A headless registry of keyboard shortcuts, which runs the shortcuts of the active scopes when their keys are
+ * pressed.
+ */
+export interface KeyboardShortcutRegistry {
+  /** Registers a shortcut. Returns a function which unregisters it. */
+  register: (shortcut: KeyboardShortcutInput) => () => void;
+  /** Activates a scope on top of the active scopes, whose shortcuts take precedence over the shortcuts of the scopes
+   * below it. When blocksOuterScopes is true, e.g. for a modal, the shortcuts of the scopes below it are inactive. The
+   * page scope is always active unless it is blocked. Returns a function which deactivates the scope.
+   */
+  activateScope: (scope: string, blocksOuterScopes?: boolean) => () => void;
+  /** Returns the registered shortcuts. */
+  getShortcuts: () => KeyboardShortcut[];
+  /** Returns the shortcuts of the active scopes, innermost scope first. */
+  getActiveShortcuts: () => KeyboardShortcut[];
+  /** Returns the groups of shortcuts of the same scope whose keys conflict. */
+  getConflicts: () => KeyboardShortcut[][];
+  /** Runs the active shortcut whose keys were pressed, including the previously pressed keys of a sequence. */
+  handleKeyDown: (event: KeyboardEvent) => void;
+  /** Listens to key presses on the document until the returned function is called. Listening several times only adds
+   * one listener, which is removed once every returned function is called.
+   */
+  listen: () => () => void;
+  /** Calls the listener each time shortcuts are registered or unregistered, or scopes are activated or deactivated.
+   * Returns a function which unsubscribes the listener.
+   */
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const isMacPlatform = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+interface KeyStep {
+  key: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+}
+
+const keyAliases: { [alias: string]: string } = {
+  space: ' ',
+  esc: 'escape',
+  up: 'arrowup',
+  down: 'arrowdown',
+  left: 'arrowleft',
+  right: 'arrowright'
+};
+
+const modifierKeys = ['Shift', 'Control', 'Alt', 'Meta'];
+
+// The last part of a step is the key, which can itself be "+"
+const splitStep = (step: string) =>
+  step.endsWith('+') ? [...step.slice(0, -1).split('+').filter(Boolean), '+'] : step.split('+');
+
+const parseStep = (step: string, isMac: boolean): KeyStep => {
+  const parts = splitStep(step);
+  const modifiers = parts.slice(0, -1).map((modifier) => modifier.toLowerCase());
+  const key = parts[parts.length - 1].toLowerCase();
+  return {
+    key: keyAliases[key] ?? key,
+    ctrlKey: modifiers.includes('ctrl') || (!isMac && modifiers.includes('mod')),
+    metaKey: modifiers.includes('meta') || (isMac && modifiers.includes('mod')),
+    altKey: modifiers.includes('alt'),
+    shiftKey: modifiers.includes('shift')
+  };
+};
+
+const parseKeys = (keys: string, isMac: boolean) =>
+  keys
+    .trim()
+    .split(/\s+/)
+    .map((step) => parseStep(step, isMac));
+
+const hasCommandModifier = ({ ctrlKey, metaKey, altKey }: KeyStep) => ctrlKey || metaKey || altKey;
+
+const matchesStep = (event: KeyboardEvent, step: KeyStep) =>
+  event.key?.toLowerCase() === step.key &&
+  event.ctrlKey === step.ctrlKey &&
+  event.metaKey === step.metaKey &&
+  event.altKey === step.altKey &&
+  // Symbols such as "?" are typed with shift on some keyboard layouts, so shift is only matched when it is part of the
+  // shortcut or the key is a letter, digit or named key
+  (event.shiftKey === step.shiftKey || (!step.shiftKey && step.key.length === 1 && !/[a-z0-9]/.test(step.key)));
+
+const stepToString = ({ key, ctrlKey, metaKey, altKey, shiftKey }: KeyStep) =>
+  `${ctrlKey ? 'ctrl+' : ''}${metaKey ? 'meta+' : ''}${altKey ? 'alt+' : ''}${shiftKey ? 'shift+' : ''}${key}`;
+
+/** Returns whether the keyboard event presses the keys of a shortcut which are pressed together, e.g. "Mod+K". */
+export const matchesShortcut = (event: KeyboardEvent, keys: string, isMac: boolean = isMacPlatform()) =>
+  matchesStep(event, parseStep(keys.trim(), isMac));
+
+const macModifierSymbols: { [modifier: string]: string } = {
+  mod: '⌘',
+  meta: '⌘',
+  ctrl: '⌃',
+  alt: '⌥',
+  shift: '⇧'
+};
+
+const modifierNames: { [modifier: string]: string } = {
+  mod: 'Ctrl',
+  meta: 'Meta',
+  ctrl: 'Ctrl',
+  alt: 'Alt',
+  shift: 'Shift'
+};
+
+/**
+ * Returns the keys of a shortcut as they are displayed on the current platform, with the keys of each step of a
+ * sequence in their own array, e.g. [["⌘", "K"]] or [["Ctrl", "K"]] for "Mod+K" and [["G"], ["D"]] for "g d".
+ */
+export const getShortcutKeys = (keys: string, isMac: boolean = isMacPlatform()) =>
+  keys
+    .trim()
+    .split(/\s+/)
+    .map((step) => {
+      const parts = splitStep(step);
+      const key = parts[parts.length - 1];
+      return [
+        ...parts
+          .slice(0, -1)
+          .map((modifier) => (isMac ? macModifierSymbols : modifierNames)[modifier.toLowerCase()] ?? modifier),
+        key.length === 1 ? key.toUpperCase() : key
+      ];
+    });
+
+const isEditableElement = (element: EventTarget) =>
+  element instanceof HTMLElement &&
+  (['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName) || element.isContentEditable);
+
+/** Creates a headless keyboard shortcut registry. */
+export const createKeyboardShortcutRegistry = ({
+  sequenceTimeout = 1000,
+  onConflict = (shortcuts) =>
+    // eslint-disable-next-line no-console
+    console.warn(
+      `Keyboard shortcuts conflict in the ${shortcuts[0].scope} scope: ${shortcuts.map(({ keys }) => `"${keys}"`).join(', ')}.`
+    ),
+  isMac = isMacPlatform()
+}: KeyboardShortcutRegistryOptions = {}): KeyboardShortcutRegistry => {
+  let shortcuts: KeyboardShortcut[] = [];
+  let scopes: { id: string; scope: string; blocksOuterScopes: boolean }[] = [];
+  let pendingEvents: KeyboardEvent[] = [];
+  let lastKeyDownTime = 0;
+  let listenerCount = 0;
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const getActiveScopes = () => {
+    const activeScopes: string[] = [];
+    for (const { scope, blocksOuterScopes } of [...scopes].reverse()) {
+      !activeScopes.includes(scope) && activeScopes.push(scope);
+      if (blocksOuterScopes) {
+        return activeScopes;
+      }
+    }
+    return activeScopes.includes(KeyboardShortcutScopes.page)
+      ? activeScopes
+      : [...activeScopes, KeyboardShortcutScopes.page];
+  };
+
+  const getActiveShortcuts = () =>
+    getActiveScopes().flatMap((scope) => shortcuts.filter((shortcut) => shortcut.scope === scope));
+
+  // Shortcuts conflict when pressing the keys of one of them would run or start the other
+  const isConflicting = (shortcut1: KeyboardShortcut, shortcut2: KeyboardShortcut) => {
+    const steps1 = parseKeys(shortcut1.keys, isMac).map(stepToString);
+    const steps2 = parseKeys(shortcut2.keys, isMac).map(stepToString);
+    return (
+      shortcut1.scope === shortcut2.scope &&
+      steps1.slice(0, steps2.length).join(' ') === steps2.slice(0, steps1.length).join(' ')
+    );
+  };
+
+  const getConflicts = () =>
+    shortcuts.reduce((conflicts, shortcut) => {
+      if (conflicts.some((conflict) => conflict.includes(shortcut))) {
+        return conflicts;
+      }
+      const conflict = shortcuts.filter((other) => other === shortcut || isConflicting(shortcut, other));
+      return conflict.length > 1 ? [...conflicts, conflict] : conflicts;
+    }, [] as KeyboardShortcut[][]);
+
+  const matchesEvents = (shortcut: KeyboardShortcut, events: KeyboardEvent[], isPrefix: boolean) => {
+    const steps = parseKeys(shortcut.keys, isMac);
+    return (
+      (isPrefix ? steps.length > events.length : steps.length === events.length) &&
+      events.every((event, index) => matchesStep(event, steps[index]))
+    );
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.defaultPrevented || modifierKeys.includes(event.key)) {
+      return;
+    }
+    const now = Date.now();
+    if (now - lastKeyDownTime > sequenceTimeout) {
+      pendingEvents = [];
+    }
+    lastKeyDownTime = now;
+
+    const isFromEditable = isEditableElement(event.target);
+    const candidates = getActiveShortcuts().filter(
+      (shortcut) =>
+        shortcut.action &&
+        (!isFromEditable || shortcut.allowInInputs || hasCommandModifier(parseKeys(shortcut.keys, isMac)[0]))
+    );
+
+    const runMatch = (events: KeyboardEvent[]) => {
+      const match = candidates.find((shortcut) => matchesEvents(shortcut, events, false));
+      if (match) {
+        event.preventDefault();
+        pendingEvents = [];
+        match.action(event);
+        return true;
+      }
+      if (candidates.some((shortcut) => matchesEvents(shortcut, events, true))) {
+        pendingEvents = events;
+        return true;
+      }
+      return false;
+    };
+
+    // A key which does not continue the pending sequence can start a new one
+    if (!runMatch([...pendingEvents, event]) && !(pendingEvents.length && runMatch([event]))) {
+      pendingEvents = [];
+    }
+  };
+
+  return {
+    register: (shortcut) => {
+      const newShortcut: KeyboardShortcut = {
+        ...shortcut,
+        id: shortcut.id ?? getUniqueId('shortcut'),
+        scope: shortcut.scope ?? KeyboardShortcutScopes.page
+      };
+      shortcuts = [...shortcuts.filter(({ id }) => id !== newShortcut.id), newShortcut];
+      const conflict = shortcuts.filter((other) => other !== newShortcut && isConflicting(newShortcut, other));
+      conflict.length && onConflict([newShortcut, ...conflict]);
+      notify();
+      return () => {
+        if (shortcuts.includes(newShortcut)) {
+          shortcuts = shortcuts.filter((other) => other !== newShortcut);
+          notify();
+        }
+      };
+    },
+    activateScope: (scope, blocksOuterScopes = false) => {
+      const id = getUniqueId('shortcut-scope');
+      scopes = [...scopes, { id, scope, blocksOuterScopes }];
+      pendingEvents = [];
+      notify();
+      return () => {
+        scopes = scopes.filter((activeScope) => activeScope.id !== id);
+        notify();
+      };
+    },
+    getShortcuts: () => shortcuts,
+    getActiveShortcuts,
+    getConflicts,
+    handleKeyDown,
+    listen: () => {
+      if (listenerCount++ === 0) {
+        document.addEventListener('keydown', handleKeyDown);
+      }
+      let isListening = true;
+      return () => {
+        if (isListening && --listenerCount === 0) {
+          document.removeEventListener('keydown', handleKeyDown);
+        }
+        isListening = false;
+      };
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
@@ -1,7 +1,7 @@
 import { createRef } from 'react';
 import { Menu } from './Menu';
 import { MenuContent } from './MenuContent';
-import { MenuList } from './MenuList';
+import { MenuList, MenuListProps } from './MenuList';
 import { MenuContext } from './MenuContext';
 
 export interface DrilldownMenuProps extends Omit<React.HTMLAttributes<HTMLDivElement>, 'ref' | 'onSelect'> {
@@ -13,6 +13,10 @@ export interface DrilldownMenuProps extends Omit<React.HTMLAttributes<HTMLDivEle
   isMenuDrilledIn?: boolean;
   /** Optional callback to get the height of the sub menu */
   getHeight?: (height: string) => void;
+  /** Maximum height of the sub-menu, beyond which it scrolls. */
+  maxMenuHeight?: string;
+  /** Additional props passed to the list of the sub-menu, e.g. to virtualize a very large number of items. */
+  menuListProps?: Omit<MenuListProps, 'children'>;
 }
 
 export const DrilldownMenu: React.FunctionComponent<DrilldownMenuProps> = ({
@@ -20,6 +24,8 @@ export const DrilldownMenu: React.FunctionComponent<DrilldownMenuProps> = ({
   id,
   isMenuDrilledIn = false,
   getHeight,
+  maxMenuHeight,
+  menuListProps,
   ...props
 }: DrilldownMenuProps) => (
   /* eslint-disable @typescript-eslint/no-unused-vars */
@@ -32,10 +38,11 @@ export const DrilldownMenu: React.FunctionComponent<DrilldownMenuProps> = ({
         isRootMenu={false}
         ref={createRef()}
         {...context}
+        isScrollable={!!maxMenuHeight}
         {...props}
       >
-        <MenuContent getHeight={getHeight}>
-          <MenuList>{children}</MenuList>
+        <MenuContent getHeight={getHeight} maxMenuHeight={maxMenuHeight}>
+          <MenuList {...menuListProps}>{children}</MenuList>
         </MenuContent>
       </Menu>
     )}
@@ -73,6 +73,14 @@ export interface MenuState {
   currentDrilldownMenuId: string;
 }
 
+// Group labels and spacers of virtualized lists are presentational rows which cannot be navigated to
+const isNavigableElement = (element: Element) =>
+  !(
+    element.classList.contains('pf-m-disabled') ||
+    element.classList.contains(styles.divider) ||
+    element.getAttribute('role') === 'presentation'
+  );
+
 class MenuBase extends Component<MenuProps, MenuState> {
   static displayName = 'Menu';
   static contextType = MenuContext;
@@ -166,9 +174,7 @@ class MenuBase extends Component<MenuProps, MenuState> {
         // if the drilldown transition ends on the same menu, do not focus the first item
         return;
       }
-      const nextTarget = nextMenuChildren.filter(
-        (el) => !(el.classList.contains('pf-m-disabled') || el.classList.contains(styles.divider))
-      )[0].firstChild;
+      const nextTarget = nextMenuChildren.filter((el) => isNavigableElement(el))[0].firstChild;
       (nextTarget as HTMLElement).focus();
       (nextTarget as HTMLElement).tabIndex = 0;
     }
@@ -206,7 +212,7 @@ class MenuBase extends Component<MenuProps, MenuState> {
           if (activeElement.nextElementSibling && activeElement.nextElementSibling.classList.contains(styles.menu)) {
             const childItems = Array.from(
               activeElement.nextElementSibling.getElementsByTagName('UL')[0].children
-            ).filter((el) => !(el.classList.contains('pf-m-disabled') || el.classList.contains(styles.divider)));
+            ).filter((el) => isNavigableElement(el));
 
             (activeElement as HTMLElement).tabIndex = -1;
             (childItems[0].firstChild as HTMLElement).tabIndex = 0;
@@ -223,15 +229,11 @@ class MenuBase extends Component<MenuProps, MenuState> {
 
     if (isDrilldown) {
       return this.activeMenu
-        ? Array.from(this.activeMenu.getElementsByTagName('UL')[0].children).filter(
-            (el) => !(el.classList.contains('pf-m-disabled') || el.classList.contains(styles.divider))
-          )
+        ? Array.from(this.activeMenu.getElementsByTagName('UL')[0].children).filter((el) => isNavigableElement(el))
         : [];
     } else {
       return this.menuRef.current
-        ? Array.from(this.menuRef.current.getElementsByTagName('LI')).filter(
-            (el) => !(el.classList.contains('pf-m-disabled') || el.classList.contains(styles.divider))
-          )
+        ? Array.from(this.menuRef.current.getElementsByTagName('LI')).filter((el) => isNavigableElement(el))
         : [];
     }
   };
@@ -16,10 +16,23 @@ export interface MenuContentProps extends React.HTMLProps<HTMLElement> {
   maxMenuHeight?: string;
   /** Callback to return the height of the menu content */
   getHeight?: (height: string) => void;
+  /** Callback when the menu content has been scrolled to its end, e.g. to load more items. */
+  onScrollEnd?: (event: React.UIEvent<HTMLElement>) => void;
+  /** Distance in pixels from the end of the menu content within which onScrollEnd is called. */
+  scrollEndThreshold?: number;
 }
 
 export const MenuContent = forwardRef((props: MenuContentProps, ref: React.Ref<HTMLDivElement>) => {
-  const { getHeight, children, menuHeight, maxMenuHeight, ...rest } = props;
+  const {
+    getHeight,
+    children,
+    menuHeight,
+    maxMenuHeight,
+    onScrollEnd,
+    scrollEndThreshold = 20,
+    onScroll,
+    ...rest
+  } = props;
   const menuContentRef = createRef<HTMLDivElement>();
   const refCallback = (el: HTMLElement, menuId: string, onGetMenuHeight: (menuId: string, height: number) => void) => {
     if (el) {
@@ -51,17 +64,26 @@ export const MenuContent = forwardRef((props: MenuContentProps, ref: React.Ref<H
     }
     return ref || menuContentRef;
   };
+  const handleScroll = (event: React.UIEvent<HTMLElement>) => {
+    onScroll && onScroll(event);
+    const { scrollHeight, scrollTop, clientHeight } = event.currentTarget;
+    if (onScrollEnd && scrollHeight - scrollTop - clientHeight <= scrollEndThreshold) {
+      onScrollEnd(event);
+    }
+  };
   return (
     <MenuContext.Consumer>
       {({ menuId, onGetMenuHeight }) => (
         <div
           {...rest}
           className={css(styles.menuContent, props.className)}
+          onScroll={onScroll || onScrollEnd ? handleScroll : undefined}
           ref={(el) => {
             refCallback(el, menuId, onGetMenuHeight);
           }}
           style={
             {
+              ...props.style,
               ...(menuHeight && { [cssHeight.name]: menuHeight }),
               ...(maxMenuHeight && { [cssMaxHeight.name]: maxMenuHeight })
             } as React.CSSProperties
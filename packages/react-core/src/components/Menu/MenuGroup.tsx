@@ -1,6 +1,7 @@
 import { forwardRef } from 'react';
 import styles from '@patternfly/react-styles/css/components/Menu/menu';
 import { css } from '@patternfly/react-styles';
+import { MenuListRowComponent } from './menuListRows';
 
 export interface MenuGroupProps extends Omit<React.HTMLProps<HTMLElement>, 'label'> {
   /** Items within group */
@@ -43,7 +44,9 @@ const MenuGroupBase: React.FunctionComponent<MenuGroupProps> = ({
   );
 };
 
-export const MenuGroup = forwardRef((props: MenuGroupProps, ref: React.Ref<HTMLElement>) => (
+export const MenuGroup: React.ForwardRefExoticComponent<MenuGroupProps & React.RefAttributes<HTMLElement>> &
+  MenuListRowComponent = forwardRef((props: MenuGroupProps, ref: React.Ref<HTMLElement>) => (
   <MenuGroupBase {...props} innerRef={ref} />
 ));
 MenuGroup.displayName = 'MenuGroup';
+MenuGroup.menuListRowKind = 'group';
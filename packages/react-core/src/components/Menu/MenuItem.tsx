@@ -83,6 +83,10 @@ export interface MenuItemProps extends Omit<React.HTMLProps<HTMLLIElement>, 'onC
   innerRef?: React.Ref<HTMLAnchorElement | HTMLButtonElement>;
   /** Sets the id attribute on the menu item component. */
   id?: string;
+  /** Number of items in the menu, set on the menu item component. Set by a virtualized menu list. */
+  'aria-setsize'?: number;
+  /** Position of the item in the menu, set on the menu item component. Set by a virtualized menu list. */
+  'aria-posinset'?: number;
 }
 
 const FlyoutContext = createContext({
@@ -118,6 +122,8 @@ const MenuItemBase: React.FunctionComponent<MenuItemProps> = ({
   innerRef,
   id,
   'aria-label': ariaLabel,
+  'aria-setsize': ariaSetSize,
+  'aria-posinset': ariaPosInSet,
   tooltipProps,
   rel,
   target,
@@ -353,6 +359,7 @@ const MenuItemBase: React.FunctionComponent<MenuItemProps> = ({
             {...(!hasCheckbox && { disabled: isDisabled, 'aria-label': ariaLabel })}
             {...(!hasCheckbox && !flyoutMenu && { role: isSelectMenu ? 'option' : 'menuitem' })}
             {...(!hasCheckbox && !flyoutMenu && isSelectMenu && { 'aria-selected': getIsSelected() })}
+            {...(!hasCheckbox && { 'aria-setsize': ariaSetSize, 'aria-posinset': ariaPosInSet })}
             ref={innerComponentRef}
             {...(!hasCheckbox && {
               onClick: (event: React.KeyboardEvent | React.MouseEvent) => {
@@ -456,7 +463,7 @@ const MenuItemBase: React.FunctionComponent<MenuItemProps> = ({
         {...(flyoutMenu && !isAriaDisabled && { onKeyDown: handleFlyout })}
         ref={ref}
         role={!hasCheckbox ? 'none' : 'menuitem'}
-        {...(hasCheckbox && { 'aria-label': ariaLabel })}
+        {...(hasCheckbox && { 'aria-label': ariaLabel, 'aria-setsize': ariaSetSize, 'aria-posinset': ariaPosInSet })}
         {...props}
       >
         {renderItem}
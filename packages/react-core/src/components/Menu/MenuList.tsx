@@ -1,7 +1,10 @@
-import { useContext } from 'react';
+import { Children, cloneElement, isValidElement, useContext, useEffect, useMemo, useRef, useState } from 'react';
 import styles from '@patternfly/react-styles/css/components/Menu/menu';
 import { css } from '@patternfly/react-styles';
 import { MenuContext } from './MenuContext';
+import { useIsomorphicLayoutEffect } from '../../helpers';
+import { Divider } from '../Divider';
+import { getMenuListRowKind, MenuListRowComponent } from './menuListRows';
 
 export interface MenuListProps extends React.HTMLProps<HTMLUListElement> {
   /** Anything that can be rendered inside of menu list */
@@ -14,16 +17,183 @@ export interface MenuListProps extends React.HTMLProps<HTMLUListElement> {
   isAriaMultiselectable?: boolean;
   /** Adds an accessible name to the menu. */
   'aria-label'?: string;
+  /** Flag indicating only the items scrolled into view are rendered, for lists with a very large number of items. The
+   * menu content must be scrollable, e.g. by passing a maxMenuHeight. Groups, lists and dividers of menus, selects and
+   * dropdowns passed as children are flattened into the list, so that group labels scroll with their items. Other
+   * children, including components wrapping these, are rendered as items.
+   */
+  isVirtualized?: boolean;
+  /** Height in pixels of each item, group label and divider of a virtualized list. */
+  itemHeight?: number;
+  /** Number of items rendered above and below the items scrolled into view of a virtualized list. */
+  overscanCount?: number;
+}
+
+interface VirtualRow {
+  key: string;
+  node: React.ReactNode;
+  /** Index of the row among the items of the list, which excludes group labels and dividers. */
+  itemIndex?: number;
+  isFocused?: boolean;
+}
+
+interface VirtualRows {
+  rows: VirtualRow[];
+  itemCount: number;
 }
 
-export const MenuList: React.FunctionComponent<MenuListProps> = ({
+const flattenRows = (children: React.ReactNode, keyPrefix: string, virtualRows: VirtualRows) => {
+  Children.toArray(children).forEach((child) => {
+    if (!isValidElement(child)) {
+      return;
+    }
+    const element = child as React.ReactElement<any>;
+    const rowKind = element.type === Divider ? 'divider' : getMenuListRowKind(element.type);
+    const key = `${keyPrefix}${element.key}`;
+    if (rowKind === 'group') {
+      const { label, titleId } = element.props;
+      label &&
+        virtualRows.rows.push({
+          key,
+          node: (
+            <li role="presentation" className={css(styles.menuGroupTitle)} id={titleId}>
+              {label}
+            </li>
+          )
+        });
+      flattenRows(element.props.children, key, virtualRows);
+    } else if (rowKind === 'list') {
+      flattenRows(element.props.children, key, virtualRows);
+    } else if (rowKind === 'divider') {
+      virtualRows.rows.push({ key, node: element });
+    } else {
+      virtualRows.rows.push({
+        key,
+        node: element,
+        itemIndex: virtualRows.itemCount++,
+        isFocused: !!element.props.isFocused
+      });
+    }
+  });
+  return virtualRows;
+};
+
+/** Number of items rendered by a virtualized list until the height of its scroll container is known. */
+const defaultVisibleItemCount = 10;
+
+export const MenuList: React.FunctionComponent<MenuListProps> & MenuListRowComponent = ({
   children = null,
   className,
   isAriaMultiselectable = false,
   'aria-label': ariaLabel,
+  isVirtualized = false,
+  itemHeight = 37,
+  overscanCount = 5,
+  onKeyDown,
   ...props
 }: MenuListProps) => {
   const { role } = useContext(MenuContext);
+  const listRef = useRef<HTMLUListElement>(null);
+  const [scrollState, setScrollState] = useState({ scrollTop: 0, viewportHeight: 0 });
+  // Row focused with the keyboard once it has been scrolled into view and rendered
+  const pendingFocusRow = useRef<number>(null);
+
+  const { rows, itemCount } = useMemo(
+    () => (isVirtualized ? flattenRows(children, '', { rows: [], itemCount: 0 }) : { rows: [], itemCount: 0 }),
+    [children, isVirtualized]
+  );
+  const visibleRowCount = Math.ceil((scrollState.viewportHeight || defaultVisibleItemCount * itemHeight) / itemHeight);
+  const firstVisibleRow = Math.min(Math.floor(scrollState.scrollTop / itemHeight), Math.max(rows.length - 1, 0));
+  const startRow = Math.max(firstVisibleRow - overscanCount, 0);
+  const endRow = Math.min(firstVisibleRow + visibleRowCount + overscanCount, rows.length);
+
+  const getScrollContainer = () => listRef.current?.closest(`.${styles.menuContent}`) as HTMLElement;
+
+  const getListOffset = (container: HTMLElement) =>
+    listRef.current.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop;
+
+  const updateScrollState = () => {
+    const container = getScrollContainer();
+    if (container) {
+      setScrollState({
+        scrollTop: Math.max(container.scrollTop - getListOffset(container), 0),
+        viewportHeight: container.clientHeight
+      });
+    }
+  };
+
+  const scrollRowIntoView = (rowIndex: number) => {
+    const container = getScrollContainer();
+    if (!container) {
+      return;
+    }
+    const rowTop = getListOffset(container) + rowIndex * itemHeight;
+    if (rowTop < container.scrollTop) {
+      container.scrollTop = rowTop;
+    } else if (rowTop + itemHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTop = rowTop + itemHeight - container.clientHeight;
+    }
+    updateScrollState();
+  };
+
+  useEffect(() => {
+    const container = getScrollContainer();
+    if (!isVirtualized || !container) {
+      return;
+    }
+    updateScrollState();
+    container.addEventListener('scroll', updateScrollState);
+    window.addEventListener('resize', updateScrollState);
+    return () => {
+      container.removeEventListener('scroll', updateScrollState);
+      window.removeEventListener('resize', updateScrollState);
+    };
+  }, [isVirtualized]);
+
+  // Keeps the item focused by a typeahead, whose focus is not moved to the item, within view
+  const focusedRow = rows.findIndex((row) => row.isFocused);
+  useEffect(() => {
+    if (isVirtualized && focusedRow !== -1) {
+      scrollRowIntoView(focusedRow);
+    }
+  }, [focusedRow]);
+
+  useIsomorphicLayoutEffect(() => {
+    if (pendingFocusRow.current === null || pendingFocusRow.current < startRow || pendingFocusRow.current >= endRow) {
+      return;
+    }
+    const rowElement = listRef.current.children[pendingFocusRow.current - startRow + (startRow > 0 ? 1 : 0)];
+    const focusableElement = rowElement?.querySelector('button, a, input') as HTMLElement;
+    if (focusableElement) {
+      (document.activeElement as HTMLElement).tabIndex = -1;
+      focusableElement.tabIndex = 0;
+      focusableElement.focus();
+    }
+    pendingFocusRow.current = null;
+  });
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLUListElement>) => {
+    onKeyDown && onKeyDown(event);
+    if (!isVirtualized || !itemCount || (event.key !== 'ArrowDown' && event.key !== 'ArrowUp')) {
+      return;
+    }
+    // The keyboard handler of the menu only wraps around the rendered items, so wrapping to the first or last item
+    // of the whole list is handled here
+    const rowElement = (event.target as HTMLElement).closest('li');
+    const domIndex = Array.from(listRef.current.children).indexOf(rowElement);
+    const rowIndex = startRow + domIndex - (startRow > 0 ? 1 : 0);
+    const firstItemRow = rows.findIndex((row) => row.itemIndex === 0);
+    const lastItemRow = rows.findIndex((row) => row.itemIndex === itemCount - 1);
+    const isWrapping =
+      (event.key === 'ArrowDown' && rowIndex === lastItemRow) || (event.key === 'ArrowUp' && rowIndex === firstItemRow);
+    if (domIndex === -1 || !isWrapping) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    pendingFocusRow.current = event.key === 'ArrowDown' ? firstItemRow : lastItemRow;
+    scrollRowIntoView(pendingFocusRow.current);
+  };
 
   return (
     <ul
@@ -31,10 +201,30 @@ export const MenuList: React.FunctionComponent<MenuListProps> = ({
       {...(role === 'listbox' && { 'aria-multiselectable': isAriaMultiselectable })}
       className={css(styles.menuList, className)}
       aria-label={ariaLabel}
+      ref={listRef}
+      onKeyDown={isVirtualized || onKeyDown ? handleKeyDown : undefined}
       {...props}
     >
-      {children}
+      {isVirtualized ? (
+        <>
+          {startRow > 0 && <li role="presentation" aria-hidden="true" style={{ height: startRow * itemHeight }} />}
+          {rows
+            .slice(startRow, endRow)
+            .map(({ key, node, itemIndex }) =>
+              cloneElement(
+                node as React.ReactElement<any>,
+                itemIndex === undefined ? { key } : { key, 'aria-setsize': itemCount, 'aria-posinset': itemIndex + 1 }
+              )
+            )}
+          {endRow < rows.length && (
+            <li role="presentation" aria-hidden="true" style={{ height: (rows.length - endRow) * itemHeight }} />
+          )}
+        </>
+      ) : (
+        children
+      )}
     </ul>
   );
 };
 MenuList.displayName = 'MenuList';
+MenuList.menuListRowKind = 'list';
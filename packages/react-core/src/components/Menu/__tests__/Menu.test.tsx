@@ -1,10 +1,14 @@
-import { render, screen } from '@testing-library/react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import '@testing-library/jest-dom';
 
 import { Menu } from '../Menu';
 import { MenuItem } from '../MenuItem';
 import { MenuList } from '../MenuList';
 import { MenuContent } from '../MenuContent';
+import { MenuGroup } from '../MenuGroup';
+import { Divider } from '../../Divider';
+import { SelectGroup, SelectOption } from '../../Select';
 
 describe('Menu', () => {
   test('should render Menu successfully', () => {
@@ -56,4 +60,166 @@ describe('Menu', () => {
       expect(screen.getByText('Checkbox 1')).toBeInTheDocument();
     });
   });
+
+  describe('with onScrollEnd', () => {
+    const setupScrollableMenu = (onScrollEnd: jest.Mock) => {
+      render(
+        <Menu isScrollable>
+          <MenuContent data-testid="menu-content" onScrollEnd={onScrollEnd}>
+            <MenuList>
+              <MenuItem itemId={0}>Item 1</MenuItem>
+            </MenuList>
+          </MenuContent>
+        </Menu>
+      );
+      const menuContent = screen.getByTestId('menu-content');
+      Object.defineProperty(menuContent, 'scrollHeight', { value: 500 });
+      Object.defineProperty(menuContent, 'clientHeight', { value: 200 });
+      return menuContent;
+    };
+
+    test('should call onScrollEnd when scrolled to the end', () => {
+      const onScrollEnd = jest.fn();
+      const menuContent = setupScrollableMenu(onScrollEnd);
+
+      fireEvent.scroll(menuContent, { target: { scrollTop: 290 } });
+
+      expect(onScrollEnd).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not call onScrollEnd before the end is reached', () => {
+      const onScrollEnd = jest.fn();
+      const menuContent = setupScrollableMenu(onScrollEnd);
+
+      fireEvent.scroll(menuContent, { target: { scrollTop: 100 } });
+
+      expect(onScrollEnd).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('with isVirtualized', () => {
+    const items = Array.from({ length: 1000 }, (_, index) => `Item ${index + 1}`);
+
+    // Lays out the menu content as a 370px high scroll container, since jsdom does not lay out elements
+    const setupScrollContainer = () => {
+      const menuContent = screen.getByTestId('menu-content');
+      const list = menuContent.querySelector('ul');
+      let scrollTop = 0;
+      Object.defineProperty(menuContent, 'clientHeight', { value: 370 });
+      Object.defineProperty(menuContent, 'scrollTop', {
+        get: () => scrollTop,
+        set: (value) => (scrollTop = value)
+      });
+      list.getBoundingClientRect = () => ({ top: -scrollTop }) as DOMRect;
+      return {
+        scrollTo: (value: number) => {
+          scrollTop = value;
+          fireEvent.scroll(menuContent);
+        }
+      };
+    };
+
+    const renderVirtualizedMenu = (
+      children: React.ReactNode = items.map((item) => (
+        <MenuItem key={item} itemId={item}>
+          {item}
+        </MenuItem>
+      ))
+    ) =>
+      render(
+        <Menu isScrollable>
+          <MenuContent data-testid="menu-content">
+            <MenuList isVirtualized itemHeight={37} overscanCount={2}>
+              {children}
+            </MenuList>
+          </MenuContent>
+        </Menu>
+      );
+
+    test('should only render the items in view', () => {
+      renderVirtualizedMenu();
+
+      expect(screen.getByRole('menuitem', { name: 'Item 1' })).toBeInTheDocument();
+      expect(screen.queryByRole('menuitem', { name: 'Item 100' })).not.toBeInTheDocument();
+      expect(screen.getAllByRole('menuitem').length).toBeLessThan(20);
+    });
+
+    test('should set the position of each item within the whole list', () => {
+      renderVirtualizedMenu();
+
+      const item = screen.getByRole('menuitem', { name: 'Item 2' });
+      expect(item).toHaveAttribute('aria-setsize', '1000');
+      expect(item).toHaveAttribute('aria-posinset', '2');
+    });
+
+    test('should render the items scrolled into view', () => {
+      renderVirtualizedMenu();
+      const { scrollTo } = setupScrollContainer();
+
+      act(() => scrollTo(37 * 500));
+
+      expect(screen.queryByRole('menuitem', { name: 'Item 1' })).not.toBeInTheDocument();
+      expect(screen.getByRole('menuitem', { name: 'Item 501' })).toHaveAttribute('aria-posinset', '501');
+      expect(screen.getByRole('menuitem', { name: 'Item 510' })).toBeInTheDocument();
+    });
+
+    test('should render the labels of groups with their items', () => {
+      renderVirtualizedMenu(
+        ['A', 'B'].map((group) => (
+          <MenuGroup key={group} label={`Group ${group}`}>
+            <MenuList>
+              {items.slice(0, 3).map((item) => (
+                <MenuItem key={item} itemId={`${group}-${item}`}>
+                  {`${group} ${item}`}
+                </MenuItem>
+              ))}
+            </MenuList>
+          </MenuGroup>
+        ))
+      );
+
+      expect(screen.getByText('Group A')).toBeInTheDocument();
+      expect(screen.getByText('Group B')).toBeInTheDocument();
+      expect(screen.getByRole('menuitem', { name: 'B Item 1' })).toHaveAttribute('aria-posinset', '4');
+      expect(screen.getByRole('menuitem', { name: 'B Item 1' })).toHaveAttribute('aria-setsize', '6');
+    });
+
+    test('should flatten the groups and dividers of selects, but not other components wrapping groups', () => {
+      const CustomGroup = ({ children }: { children: React.ReactNode }) => (
+        <MenuGroup label="Custom">{children}</MenuGroup>
+      );
+
+      renderVirtualizedMenu([
+        <SelectGroup key="select" label="Select group">
+          <SelectOption value="a">Option A</SelectOption>
+        </SelectGroup>,
+        <Divider key="divider" component="li" />,
+        <CustomGroup key="custom">
+          <MenuItem itemId="b">Item B</MenuItem>
+        </CustomGroup>
+      ]);
+
+      expect(screen.getByText('Select group')).toHaveClass('pf-v6-c-menu__group-title');
+      expect(screen.getByRole('menuitem', { name: 'Option A' })).toHaveAttribute('aria-posinset', '1');
+      // The custom group is rendered as a single item rather than flattened
+      expect(screen.getByRole('menuitem', { name: 'Option A' })).toHaveAttribute('aria-setsize', '2');
+      expect(screen.getByRole('separator')).toBeInTheDocument();
+      expect(screen.getByText('Custom').closest('section')).toBeInTheDocument();
+    });
+
+    test('should wrap arrow key navigation around the whole list', async () => {
+      const user = userEvent.setup();
+      renderVirtualizedMenu();
+      setupScrollContainer();
+
+      screen.getByRole('menuitem', { name: 'Item 1' }).focus();
+      await user.keyboard('{ArrowUp}');
+
+      expect(screen.getByRole('menuitem', { name: 'Item 1000' })).toHaveFocus();
+
+      await user.keyboard('{ArrowDown}');
+
+      expect(screen.getByRole('menuitem', { name: 'Item 1' })).toHaveFocus();
+    });
+  });
 });
@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import {
+  Menu,
+  MenuList,
+  MenuItem,
+  MenuContent,
+  MenuGroup,
+  MenuSearch,
+  MenuSearchInput,
+  Divider,
+  SearchInput
+} from '@patternfly/react-core';
+
+const clusters = ['east', 'west'];
+const namespaces = clusters.map((cluster) => ({
+  cluster,
+  names: Array.from({ length: 10000 }, (_, index) => `${cluster}-namespace-${index + 1}`)
+}));
+
+export const MenuVirtualized: React.FunctionComponent = () => {
+  const [activeItem, setActiveItem] = useState<string>();
+  const [input, setInput] = useState('');
+
+  const onSelect = (_event: React.MouseEvent<Element, MouseEvent> | undefined, itemId: number | string | undefined) => {
+    // eslint-disable-next-line no-console
+    console.log(`clicked ${itemId}`);
+    setActiveItem(itemId as string);
+  };
+
+  const groups = namespaces
+    .map(({ cluster, names }) => ({
+      cluster,
+      names: names.filter((name) => !input || name.includes(input.toLowerCase()))
+    }))
+    .filter(({ names }) => names.length > 0);
+
+  return (
+    <Menu onSelect={onSelect} activeItemId={activeItem} isScrollable>
+      <MenuSearch>
+        <MenuSearchInput>
+          <SearchInput value={input} aria-label="Filter namespaces" onChange={(_event, value) => setInput(value)} />
+        </MenuSearchInput>
+      </MenuSearch>
+      <Divider />
+      <MenuContent maxMenuHeight="300px">
+        <MenuList isVirtualized aria-label="Namespaces">
+          {groups.length === 0 && (
+            <MenuItem isDisabled key="no result">
+              No results found
+            </MenuItem>
+          )}
+          {groups.map(({ cluster, names }) => (
+            <MenuGroup key={cluster} label={`Cluster ${cluster}`}>
+              <MenuList>
+                {names.map((name) => (
+                  <MenuItem key={name} itemId={name}>
+                    {name}
+                  </MenuItem>
+                ))}
+              </MenuList>
+            </MenuGroup>
+          ))}
+        </MenuList>
+      </MenuContent>
+    </Menu>
+  );
+};
@@ -0,0 +1,14 @@
+/** Kinds of the components a virtualized MenuList flattens into its rows rather than rendering them as items. */
+export type MenuListRowKind = 'group' | 'list' | 'divider';
+
+/**
+ * Static property of a component rendering a group or a nested list of a menu, e.g. SelectGroup, so that a virtualized
+ * MenuList flattens it into its rows like the component it renders.
+ */
+export interface MenuListRowComponent {
+  menuListRowKind?: MenuListRowKind;
+}
+
+/** Returns the kind of the rows of a component, set by its menuListRowKind static property. */
+export const getMenuListRowKind = (component: string | React.JSXElementConstructor<any>) =>
+  typeof component === 'string' ? undefined : (component as MenuListRowComponent).menuListRowKind;
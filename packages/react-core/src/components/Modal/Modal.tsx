@@ -4,6 +4,7 @@ import { canUseDOM, KeyTypes, PickOptional } from '../../helpers';
 import { css } from '@patternfly/react-styles';
 import styles from '@patternfly/react-styles/css/components/Backdrop/backdrop';
 import { ModalContent } from './ModalContent';
+import { ModalLayout, ModalResizeBounds } from './modalLayout';
 import { OUIAProps, getDefaultOUIAId } from '../../helpers';
 
 export interface ModalProps extends React.HTMLProps<HTMLDivElement>, OUIAProps {
@@ -31,6 +32,28 @@ export interface ModalProps extends React.HTMLProps<HTMLDivElement>, OUIAProps {
   id?: string;
   /** Flag to show the modal. */
   isOpen?: boolean;
+  /** Flag indicating the modal can be moved by dragging its ModalHeader, or with the arrow keys from its move button. */
+  isDraggable?: boolean;
+  /** Flag indicating the modal can be resized by dragging its edges and corners, or with the arrow keys from its resize
+   * handle.
+   */
+  isResizable?: boolean;
+  /** Bounds of the size of a resizable modal, in pixels. The modal is never larger than the viewport. */
+  resizeBounds?: ModalResizeBounds;
+  /** Initial position and size of a draggable or resizable modal, e.g. a layout persisted from onLayoutChange. A
+   * missing position centers the modal, and a missing size keeps its default size.
+   */
+  defaultLayout?: Partial<ModalLayout>;
+  /** Callback when a draggable or resizable modal has been moved or resized, with its new position and size. */
+  onLayoutChange?: (layout: ModalLayout) => void;
+  /** Accessible name of the move button of a draggable modal. */
+  dragAriaLabel?: string;
+  /** Accessible name of the resize handle of a resizable modal. */
+  resizeAriaLabel?: string;
+  /** Flag indicating the modal is rendered without a backdrop and focus trap, so that the page behind it can still be
+   * used while it is open.
+   */
+  hasNoBackdrop?: boolean;
   /** Add callback for when the close button is clicked. This prop needs to be passed to render the close button */
   onClose?: (event: KeyboardEvent | React.MouseEvent) => void;
   /** Modal handles pressing of the escape key and closes the modal. If you want to handle
@@ -66,6 +89,8 @@ interface ModalState {
 class Modal extends Component<ModalProps, ModalState> {
   static displayName = 'Modal';
   static currentId = 0;
+  /** Modals which are open, the last of which is on top of the others. */
+  static openModals: Modal[] = [];
   boxId = '';
   backdropId = '';
 
@@ -91,7 +116,8 @@ class Modal extends Component<ModalProps, ModalState> {
 
   handleEscKeyClick = (event: KeyboardEvent): void => {
     const { onEscapePress } = this.props;
-    if (event.key === KeyTypes.Escape && this.props.isOpen) {
+    // Only the modal on top closes, so that stacked modals are closed one at a time
+    if (event.key === KeyTypes.Escape && this.props.isOpen && this.isTopModal()) {
       onEscapePress ? onEscapePress(event) : this.props.onClose?.(event);
     }
   };
@@ -110,10 +136,33 @@ class Modal extends Component<ModalProps, ModalState> {
     for (const child of Array.from(bodyChildren)) {
       if (child.id !== this.backdropId) {
         hide ? child.setAttribute('aria-hidden', '' + hide) : child.removeAttribute('aria-hidden');
+      } else if (hide) {
+        // The backdrop may have been hidden by a modal which was stacked on top of this one
+        child.removeAttribute('aria-hidden');
       }
     }
   };
 
+  isTopModal = () => Modal.openModals[Modal.openModals.length - 1] === this;
+
+  addOpenModal = () => {
+    if (!Modal.openModals.includes(this)) {
+      Modal.openModals.push(this);
+    }
+  };
+
+  onModalClose = (target: HTMLElement) => {
+    Modal.openModals = Modal.openModals.filter((modal) => modal !== this);
+    const topModal = Modal.openModals.filter((modal) => !modal.props.hasNoBackdrop).pop();
+    if (topModal) {
+      // Another modal is still open, so the backdrop stays and only that modal is exposed to screen readers
+      topModal.toggleSiblingsFromScreenReaders(true);
+    } else {
+      target.classList.remove(css(styles.backdropOpen));
+      this.toggleSiblingsFromScreenReaders(false);
+    }
+  };
+
   isEmpty = (value: string | null | undefined) => value === null || value === undefined || value === '';
 
   componentDidMount() {
@@ -122,8 +171,11 @@ class Modal extends Component<ModalProps, ModalState> {
     target.addEventListener('keydown', this.handleEscKeyClick, false);
 
     if (this.props.isOpen) {
-      target.classList.add(css(styles.backdropOpen));
-      this.toggleSiblingsFromScreenReaders(true);
+      this.addOpenModal();
+      if (!this.props.hasNoBackdrop) {
+        target.classList.add(css(styles.backdropOpen));
+        this.toggleSiblingsFromScreenReaders(true);
+      }
     }
   }
 
@@ -131,12 +183,16 @@ class Modal extends Component<ModalProps, ModalState> {
     const { appendTo } = this.props;
     const target: HTMLElement = this.getElement(appendTo);
     if (this.props.isOpen) {
-      target.classList.add(css(styles.backdropOpen));
-      this.toggleSiblingsFromScreenReaders(true);
+      this.addOpenModal();
+      if (!this.props.hasNoBackdrop) {
+        target.classList.add(css(styles.backdropOpen));
+        if (this.isTopModal()) {
+          this.toggleSiblingsFromScreenReaders(true);
+        }
+      }
     } else {
       if (prevProps.isOpen !== this.props.isOpen) {
-        target.classList.remove(css(styles.backdropOpen));
-        this.toggleSiblingsFromScreenReaders(false);
+        this.onModalClose(target);
       }
     }
   }
@@ -145,8 +201,7 @@ class Modal extends Component<ModalProps, ModalState> {
     const { appendTo } = this.props;
     const target: HTMLElement = this.getElement(appendTo);
     target.removeEventListener('keydown', this.handleEscKeyClick, false);
-    target.classList.remove(css(styles.backdropOpen));
-    this.toggleSiblingsFromScreenReaders(false);
+    this.onModalClose(target);
   }
 
   render() {
@@ -1,6 +1,18 @@
+import { createContext, useEffect, useRef, useState } from 'react';
 import { css } from '@patternfly/react-styles';
 import styles from '@patternfly/react-styles/css/components/ModalBox/modal-box';
 import topSpacer from '@patternfly/react-tokens/dist/esm/c_modal_box_m_align_top_spacer';
+import { KeyTypes, useIsomorphicLayoutEffect } from '../../helpers';
+import {
+  clampModalLayout,
+  defaultModalResizeBounds,
+  ModalLayout,
+  ModalResizeBounds,
+  ModalResizeDirection,
+  modalResizeDirections,
+  moveModalLayout,
+  resizeModalLayout
+} from './modalLayout';
 
 export interface ModalBoxProps extends React.HTMLProps<HTMLDivElement> {
   /** Id to use for the modal box description. This should match the ModalHeader labelId or descriptorId */
@@ -19,8 +31,87 @@ export interface ModalBoxProps extends React.HTMLProps<HTMLDivElement> {
   positionOffset?: string;
   /** Variant of the modal. */
   variant?: 'small' | 'medium' | 'large' | 'default';
+  /** Flag indicating the modal can be moved by dragging its ModalHeader, or with the arrow keys from its move button. */
+  isDraggable?: boolean;
+  /** Flag indicating the modal can be resized by dragging its edges and corners, or with the arrow keys from its resize
+   * handle.
+   */
+  isResizable?: boolean;
+  /** Bounds of the size of a resizable modal, in pixels. */
+  resizeBounds?: ModalResizeBounds;
+  /** Initial position and size of a draggable or resizable modal, e.g. a persisted layout. A missing position centers
+   * the modal, and a missing size keeps its default size.
+   */
+  defaultLayout?: Partial<ModalLayout>;
+  /** Callback when the modal has been moved or resized, with its new position and size. */
+  onLayoutChange?: (layout: ModalLayout) => void;
+  /** Accessible name of the move button of a draggable modal. */
+  dragAriaLabel?: string;
+  /** Accessible name of the resize handle of a resizable modal. */
+  resizeAriaLabel?: string;
 }
 
+export interface ModalBoxContextProps {
+  /** Flag indicating the modal can be moved by dragging its header. */
+  isDraggable?: boolean;
+  /** Starts moving the modal with the mouse or a touch. */
+  onDragStart?: (event: React.MouseEvent | React.TouchEvent) => void;
+  /** Moves the modal with the arrow keys. */
+  onDragKeyDown?: (event: React.KeyboardEvent) => void;
+  /** Accessible name of the move button. */
+  dragAriaLabel?: string;
+}
+
+export const ModalBoxContext = createContext({} as ModalBoxContextProps);
+
+/** Distance in pixels the modal is moved or resized by each arrow key press. */
+const keyboardIncrement = 10;
+
+const arrowKeyDeltas: { [key: string]: [number, number] } = {
+  [KeyTypes.ArrowLeft]: [-keyboardIncrement, 0],
+  [KeyTypes.ArrowRight]: [keyboardIncrement, 0],
+  [KeyTypes.ArrowUp]: [0, -keyboardIncrement],
+  [KeyTypes.ArrowDown]: [0, keyboardIncrement]
+};
+
+const resizeCursors: { [direction in ModalResizeDirection]: string } = {
+  n: 'ns-resize',
+  s: 'ns-resize',
+  e: 'ew-resize',
+  w: 'ew-resize',
+  ne: 'nesw-resize',
+  sw: 'nesw-resize',
+  nw: 'nwse-resize',
+  se: 'nwse-resize'
+};
+
+const getResizeHandleSize = (direction: ModalResizeDirection): React.CSSProperties => {
+  if (direction.length === 2) {
+    return { width: 12, height: 12 };
+  }
+  return direction === 'n' || direction === 's'
+    ? { left: 12, right: 12, height: 6 }
+    : { top: 12, bottom: 12, width: 6 };
+};
+
+const getResizeHandleStyle = (direction: ModalResizeDirection): React.CSSProperties => ({
+  position: 'absolute',
+  zIndex: 1,
+  cursor: resizeCursors[direction],
+  ...(direction.includes('n') && { top: 0 }),
+  ...(direction.includes('s') && { bottom: 0 }),
+  ...(direction.includes('e') && { right: 0 }),
+  ...(direction.includes('w') && { left: 0 }),
+  ...getResizeHandleSize(direction)
+});
+
+const getPointerPosition = (event: MouseEvent | TouchEvent | React.MouseEvent | React.TouchEvent) =>
+  'touches' in event
+    ? { x: event.touches[0].clientX, y: event.touches[0].clientY }
+    : { x: event.clientX, y: event.clientY };
+
+const getViewport = () => ({ width: window.innerWidth, height: window.innerHeight });
+
 export const ModalBox: React.FunctionComponent<ModalBoxProps> = ({
   children,
   className,
@@ -31,14 +122,127 @@ export const ModalBox: React.FunctionComponent<ModalBoxProps> = ({
   'aria-label': ariaLabel,
   'aria-describedby': ariaDescribedby,
   style,
+  isDraggable = false,
+  isResizable = false,
+  resizeBounds = defaultModalResizeBounds,
+  defaultLayout,
+  onLayoutChange,
+  dragAriaLabel = 'Move',
+  resizeAriaLabel = 'Resize',
   ...props
 }: ModalBoxProps) => {
+  const boxRef = useRef<HTMLDivElement>(null);
+  // The layout is null until the modal is moved or resized, so that it keeps its default position and size
+  const [layout, setLayoutState] = useState<ModalLayout>(null);
+  const layoutRef = useRef<ModalLayout>(null);
+
+  const setLayout = (newLayout: ModalLayout) => {
+    layoutRef.current = clampModalLayout(newLayout, resizeBounds, getViewport());
+    setLayoutState(layoutRef.current);
+  };
+
+  const getCurrentLayout = (): ModalLayout => {
+    if (layoutRef.current) {
+      return layoutRef.current;
+    }
+    const { left, top, width, height } = boxRef.current.getBoundingClientRect();
+    return { x: left, y: top, width, height };
+  };
+
+  useIsomorphicLayoutEffect(() => {
+    if (!defaultLayout || (!isDraggable && !isResizable)) {
+      return;
+    }
+    const currentLayout = getCurrentLayout();
+    const width = defaultLayout.width ?? currentLayout.width;
+    const height = defaultLayout.height ?? currentLayout.height;
+    const viewport = getViewport();
+    setLayout({
+      width,
+      height,
+      x: defaultLayout.x ?? (viewport.width - width) / 2,
+      y: defaultLayout.y ?? (viewport.height - height) / 2
+    });
+  }, []);
+
+  const hasLayout = layout !== null;
+  useEffect(() => {
+    if (!hasLayout) {
+      return;
+    }
+    // Keeps the modal within the viewport when the window is resized
+    const handleWindowResize = () => setLayout(layoutRef.current);
+    window.addEventListener('resize', handleWindowResize);
+    return () => window.removeEventListener('resize', handleWindowResize);
+  }, [hasLayout]);
+
+  const startPointerMove = (
+    event: React.MouseEvent | React.TouchEvent,
+    getLayout: (startLayout: ModalLayout, deltaX: number, deltaY: number) => ModalLayout
+  ) => {
+    if ('button' in event && event.button !== 0) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    const startLayout = getCurrentLayout();
+    const startPosition = getPointerPosition(event);
+    const isTouch = 'touches' in event;
+    let hasMoved = false;
+
+    const handleMove = (moveEvent: MouseEvent | TouchEvent) => {
+      moveEvent.preventDefault();
+      hasMoved = true;
+      const { x, y } = getPointerPosition(moveEvent);
+      setLayout(getLayout(startLayout, x - startPosition.x, y - startPosition.y));
+    };
+    const handleEnd = () => {
+      document.removeEventListener(isTouch ? 'touchmove' : 'mousemove', handleMove);
+      document.removeEventListener(isTouch ? 'touchend' : 'mouseup', handleEnd);
+      if (hasMoved) {
+        onLayoutChange?.(layoutRef.current);
+      }
+    };
+    document.addEventListener(isTouch ? 'touchmove' : 'mousemove', handleMove, { passive: false });
+    document.addEventListener(isTouch ? 'touchend' : 'mouseup', handleEnd);
+  };
+
+  const handleArrowKeys = (
+    event: React.KeyboardEvent,
+    getLayout: (startLayout: ModalLayout, deltaX: number, deltaY: number) => ModalLayout
+  ) => {
+    const delta = arrowKeyDeltas[event.key];
+    if (!delta) {
+      return;
+    }
+    event.preventDefault();
+    setLayout(getLayout(getCurrentLayout(), delta[0], delta[1]));
+    onLayoutChange?.(layoutRef.current);
+  };
+
+  const resize = (direction: ModalResizeDirection) => (startLayout: ModalLayout, deltaX: number, deltaY: number) =>
+    resizeModalLayout(startLayout, direction, deltaX, deltaY, resizeBounds);
+
+  const boxStyle: React.CSSProperties = { ...style };
   if (positionOffset) {
-    style = style || {};
-    (style as any)[topSpacer.name] = positionOffset;
+    (boxStyle as any)[topSpacer.name] = positionOffset;
+  }
+  if (layout) {
+    Object.assign(boxStyle, {
+      position: 'fixed',
+      left: layout.x,
+      top: layout.y,
+      width: layout.width,
+      height: layout.height,
+      maxWidth: 'none',
+      maxHeight: 'none',
+      margin: 0
+    });
   }
+
   return (
     <div
+      ref={boxRef}
       role="dialog"
       aria-label={ariaLabel || null}
       aria-labelledby={ariaLabelledby || null}
@@ -52,10 +256,45 @@ export const ModalBox: React.FunctionComponent<ModalBoxProps> = ({
         variant === 'small' && styles.modifiers.sm,
         variant === 'medium' && styles.modifiers.md
       )}
-      style={style}
+      style={boxStyle}
       {...props}
     >
-      {children}
+      <ModalBoxContext.Provider
+        value={{
+          isDraggable,
+          onDragStart: (event) => startPointerMove(event, moveModalLayout),
+          onDragKeyDown: (event) => handleArrowKeys(event, moveModalLayout),
+          dragAriaLabel
+        }}
+      >
+        {children}
+      </ModalBoxContext.Provider>
+      {isResizable &&
+        modalResizeDirections.map((direction) =>
+          direction === 'se' ? (
+            <div
+              key={direction}
+              role="button"
+              tabIndex={0}
+              aria-label={resizeAriaLabel}
+              style={getResizeHandleStyle(direction)}
+              onMouseDown={(event) => {
+                startPointerMove(event, resize(direction));
+                event.currentTarget.focus();
+              }}
+              onTouchStart={(event) => startPointerMove(event, resize(direction))}
+              onKeyDown={(event) => handleArrowKeys(event, resize(direction))}
+            />
+          ) : (
+            <div
+              key={direction}
+              aria-hidden="true"
+              style={getResizeHandleStyle(direction)}
+              onMouseDown={(event) => startPointerMove(event, resize(direction))}
+              onTouchStart={(event) => startPointerMove(event, resize(direction))}
+            />
+          )
+        )}
     </div>
   );
 };
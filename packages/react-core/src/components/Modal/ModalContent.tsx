@@ -4,9 +4,23 @@ import { css } from '@patternfly/react-styles';
 import { getOUIAProps, OUIAProps } from '../../helpers';
 import { Backdrop } from '../Backdrop';
 import { ModalBoxCloseButton } from './ModalBoxCloseButton';
-import { ModalBox } from './ModalBox';
+import { ModalBox, ModalBoxProps } from './ModalBox';
+import backdropZIndex from '@patternfly/react-tokens/dist/esm/c_backdrop_ZIndex';
+import { useKeyboardShortcutScope } from '../KeyboardShortcuts/KeyboardShortcuts';
+import { KeyboardShortcutScopes } from '../KeyboardShortcuts/keyboardShortcutRegistry';
 
-export interface ModalContentProps extends OUIAProps {
+export interface ModalContentProps
+  extends OUIAProps,
+    Pick<
+      ModalBoxProps,
+      | 'isDraggable'
+      | 'isResizable'
+      | 'resizeBounds'
+      | 'defaultLayout'
+      | 'onLayoutChange'
+      | 'dragAriaLabel'
+      | 'resizeAriaLabel'
+    > {
   /** Id to use for the modal box description. This should match the ModalHeader labelId or descriptorId. */
   'aria-describedby'?: string;
   /** Accessible descriptor of the modal. */
@@ -31,6 +45,10 @@ export interface ModalContentProps extends OUIAProps {
   elementToFocus?: HTMLElement | SVGElement | string;
   /** Flag to show the modal. */
   isOpen?: boolean;
+  /** Flag indicating the modal is rendered without a backdrop and focus trap, so that the page behind it can still be
+   * used.
+   */
+  hasNoBackdrop?: boolean;
   /** A callback for when the close button is clicked. */
   onClose?: (event: KeyboardEvent | React.MouseEvent) => void;
   /** Position of the modal. By default a modal will be positioned vertically and horizontally centered. */
@@ -69,8 +87,13 @@ export const ModalContent: React.FunctionComponent<ModalContentProps> = ({
   ouiaId,
   ouiaSafe = true,
   elementToFocus,
+  hasNoBackdrop = false,
   ...props
 }: ModalContentProps) => {
+  // Only the shortcuts of the modal scope, and of the scopes activated within the modal, run while it is open, unless
+  // the page stays usable behind a modal without a backdrop
+  useKeyboardShortcutScope(KeyboardShortcutScopes.modal, isOpen, !hasNoBackdrop);
+
   if (!isOpen) {
     return null;
   }
@@ -94,13 +117,15 @@ export const ModalContent: React.FunctionComponent<ModalContentProps> = ({
       aria-label={ariaLabel}
       aria-labelledby={getAriaLabelledBy()}
       aria-describedby={ariaDescribedby}
+      {...(hasNoBackdrop && { 'aria-modal': 'false' })}
       {...getOUIAProps(ModalContent.displayName, ouiaId, ouiaSafe)}
       style={
         {
           ...(width && { '--pf-v6-c-modal-box--Width': typeof width !== 'number' ? width : `${width}px` }),
           ...(maxWidth && {
             '--pf-v6-c-modal-box--MaxWidth': typeof maxWidth !== 'number' ? maxWidth : `${maxWidth}px`
-          })
+          }),
+          ...(hasNoBackdrop && { pointerEvents: 'auto' })
         } as React.CSSProperties
       }
       {...props}
@@ -110,6 +135,18 @@ export const ModalContent: React.FunctionComponent<ModalContentProps> = ({
       {children}
     </ModalBox>
   );
+  if (hasNoBackdrop) {
+    // The modal is centered like it is within a backdrop, while clicks outside of it reach the page behind it
+    return (
+      <div
+        className={css(bullsEyeStyles.bullseye, backdropClassName)}
+        id={backdropId}
+        style={{ position: 'fixed', inset: 0, pointerEvents: 'none', zIndex: backdropZIndex.var }}
+      >
+        {modalBox}
+      </div>
+    );
+  }
   return (
     <Backdrop className={css(backdropClassName)} id={backdropId}>
       <FocusTrap
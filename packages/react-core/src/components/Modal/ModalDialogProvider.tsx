@@ -0,0 +1,270 @@
+import { createContext, useContext, useState } from 'react';
+import { Modal, ModalProps } from './Modal';
+import { ModalBody } from './ModalBody';
+import { ModalFooter } from './ModalFooter';
+import { ModalHeader, ModalHeaderProps } from './ModalHeader';
+import { Alert } from '../Alert';
+import { Button, ButtonProps } from '../Button';
+import { Form, FormGroup, FormHelperText } from '../Form';
+import { HelperText, HelperTextItem } from '../HelperText';
+import { TextInput } from '../TextInput';
+import { getUniqueId } from '../../helpers/util';
+
+/** Options of a confirmation dialog. */
+export interface ConfirmDialogOptions {
+  /** Title of the dialog. */
+  title: React.ReactNode;
+  /** Content of the body of the dialog. */
+  body?: React.ReactNode;
+  /** Variant of the icon displayed before the title of the dialog. */
+  titleIconVariant?: ModalHeaderProps['titleIconVariant'];
+  /** Text of the confirm button. */
+  confirmText?: React.ReactNode;
+  /** Text of the cancel button. */
+  cancelText?: React.ReactNode;
+  /** Variant of the confirm button. Defaults to danger when the titleIconVariant is danger, and primary otherwise. */
+  confirmVariant?: ButtonProps['variant'];
+  /** Text the user has to type before the dialog can be confirmed, e.g. the name of the resource being deleted. */
+  confirmationText?: string;
+  /** Label of the input of the typed confirmation. */
+  confirmationLabel?: React.ReactNode;
+  /** Callback when the dialog is confirmed. When a promise is returned, the confirm button shows a loading state until
+   * it settles. When it throws or the promise is rejected, an error is shown and the dialog stays open.
+   */
+  onConfirm?: () => void | Promise<unknown>;
+  /** Returns the error shown when onConfirm throws or the promise it returns is rejected. */
+  getErrorMessage?: (reason: any) => React.ReactNode;
+  /** Variant of the modal of the dialog. */
+  variant?: ModalProps['variant'];
+  /** Additional props of the modal of the dialog. */
+  modalProps?: Omit<ModalProps, 'isOpen' | 'onClose' | 'children' | 'variant' | 'ref'>;
+}
+
+/** Options of a prompt dialog. */
+export interface PromptDialogOptions
+  extends Omit<ConfirmDialogOptions, 'confirmationText' | 'confirmationLabel' | 'onConfirm'> {
+  /** Label of the input of the dialog. */
+  label: React.ReactNode;
+  /** Initial value of the input of the dialog. */
+  defaultValue?: string;
+  /** Placeholder of the input of the dialog. */
+  placeholder?: string;
+  /** Returns an error message when the value is invalid, which prevents the dialog from being confirmed. */
+  validate?: (value: string) => React.ReactNode;
+  /** Callback when the dialog is confirmed with a valid value. When a promise is returned, the confirm button shows a
+   * loading state until it settles. When it is rejected, an error is shown and the dialog stays open.
+   */
+  onConfirm?: (value: string) => void | Promise<unknown>;
+}
+
+export interface ModalDialogContextProps {
+  /** Opens a confirmation dialog. Resolves to true when it is confirmed, and false when it is cancelled or closed. */
+  confirm: (options: ConfirmDialogOptions) => Promise<boolean>;
+  /** Opens a prompt dialog. Resolves to the entered value when it is confirmed, and null when it is cancelled or
+   * closed.
+   */
+  prompt: (options: PromptDialogOptions) => Promise<string | null>;
+}
+
+const ModalDialogContext = createContext({} as ModalDialogContextProps);
+
+export const ModalDialogContextConsumer = ModalDialogContext.Consumer;
+
+export interface ModalDialogProviderProps {
+  /** Content rendered within the provider, which can open dialogs with useConfirm and usePrompt. */
+  children?: React.ReactNode;
+  /** Text of the loading spinner of the confirm button. */
+  loadingAriaValueText?: string;
+}
+
+interface ModalDialog {
+  key: string;
+  options: ConfirmDialogOptions | PromptDialogOptions;
+  isPrompt: boolean;
+  resolve: (value: string | boolean | null) => void;
+}
+
+interface ModalDialogViewProps {
+  dialog: ModalDialog;
+  onSettle: (value: string | boolean | null) => void;
+  loadingAriaValueText: string;
+}
+
+const defaultErrorMessage = (reason: any) => (reason instanceof Error ? reason.message : String(reason));
+
+const ModalDialogView: React.FunctionComponent<ModalDialogViewProps> = ({
+  dialog,
+  onSettle,
+  loadingAriaValueText
+}: ModalDialogViewProps) => {
+  const {
+    title,
+    body,
+    titleIconVariant,
+    confirmText = 'Confirm',
+    cancelText = 'Cancel',
+    confirmVariant = titleIconVariant === 'danger' ? 'danger' : 'primary',
+    getErrorMessage = defaultErrorMessage,
+    variant = 'small',
+    modalProps
+  } = dialog.options;
+  const { confirmationText, confirmationLabel } = dialog.options as ConfirmDialogOptions;
+  const { label, defaultValue = '', placeholder, validate } = dialog.options as PromptDialogOptions;
+  const hasInput = dialog.isPrompt || confirmationText !== undefined;
+
+  const [value, setValue] = useState(dialog.isPrompt ? defaultValue : '');
+  const [isTouched, setIsTouched] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<React.ReactNode>(null);
+  const [ids] = useState(() => {
+    const id = getUniqueId('pf-modal-dialog');
+    return { title: `${id}-title`, body: `${id}-body`, form: `${id}-form`, input: `${id}-input` };
+  });
+
+  const validationError = dialog.isPrompt && validate ? validate(value) : undefined;
+  const isConfirmDisabled = dialog.isPrompt
+    ? !!validationError && isTouched
+    : confirmationText !== undefined && value !== confirmationText;
+
+  const cancel = () => {
+    if (!isLoading) {
+      onSettle(dialog.isPrompt ? null : false);
+    }
+  };
+
+  const confirm = (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsTouched(true);
+    if (isLoading || validationError || (!dialog.isPrompt && isConfirmDisabled)) {
+      return;
+    }
+    let result: void | Promise<unknown>;
+    try {
+      result = dialog.isPrompt
+        ? (dialog.options as PromptDialogOptions).onConfirm?.(value)
+        : (dialog.options as ConfirmDialogOptions).onConfirm?.();
+    } catch (reason) {
+      // A handler throwing keeps the dialog open with an error, like a handler returning a rejected promise
+      setError(getErrorMessage(reason));
+      return;
+    }
+    const settledValue = dialog.isPrompt ? value : true;
+    if (!(result instanceof Promise)) {
+      onSettle(settledValue);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    result.then(
+      () => onSettle(settledValue),
+      (reason) => {
+        setIsLoading(false);
+        setError(getErrorMessage(reason));
+      }
+    );
+  };
+
+  return (
+    <Modal
+      isOpen
+      variant={variant}
+      onClose={cancel}
+      aria-labelledby={ids.title}
+      aria-describedby={body ? ids.body : undefined}
+      {...modalProps}
+    >
+      <ModalHeader title={title} titleIconVariant={titleIconVariant} labelId={ids.title} />
+      <ModalBody>
+        {body && <div id={ids.body}>{body}</div>}
+        {error && <Alert variant="danger" isInline isPlain title={error} />}
+        <Form id={ids.form} onSubmit={confirm}>
+          {hasInput && (
+            <FormGroup
+              label={dialog.isPrompt ? label : (confirmationLabel ?? `Type ${confirmationText} to confirm`)}
+              fieldId={ids.input}
+            >
+              <TextInput
+                id={ids.input}
+                value={value}
+                placeholder={placeholder}
+                isDisabled={isLoading}
+                validated={isTouched && validationError ? 'error' : 'default'}
+                onChange={(_event, newValue) => {
+                  setValue(newValue);
+                  setIsTouched(true);
+                }}
+              />
+              {isTouched && validationError && (
+                <FormHelperText>
+                  <HelperText>
+                    <HelperTextItem variant="error">{validationError}</HelperTextItem>
+                  </HelperText>
+                </FormHelperText>
+              )}
+            </FormGroup>
+          )}
+        </Form>
+      </ModalBody>
+      <ModalFooter>
+        <Button
+          type="submit"
+          form={ids.form}
+          variant={confirmVariant}
+          isDisabled={isConfirmDisabled}
+          isLoading={isLoading}
+          spinnerAriaValueText={isLoading ? loadingAriaValueText : undefined}
+        >
+          {confirmText}
+        </Button>
+        <Button variant="link" onClick={cancel} isDisabled={isLoading}>
+          {cancelText}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
+ModalDialogView.displayName = 'ModalDialogView';
+
+export const ModalDialogProvider: React.FunctionComponent<ModalDialogProviderProps> = ({
+  children,
+  loadingAriaValueText = 'Loading'
+}: ModalDialogProviderProps) => {
+  // Dialogs which are open, the last of which is on top of the others
+  const [dialogs, setDialogs] = useState<ModalDialog[]>([]);
+
+  const open = (options: ConfirmDialogOptions | PromptDialogOptions, isPrompt: boolean) =>
+    new Promise<string | boolean | null>((resolve) =>
+      setDialogs((prevDialogs) => [...prevDialogs, { key: getUniqueId('modal-dialog'), options, isPrompt, resolve }])
+    );
+
+  const settle = (dialog: ModalDialog, value: string | boolean | null) => {
+    setDialogs((prevDialogs) => prevDialogs.filter((prevDialog) => prevDialog !== dialog));
+    dialog.resolve(value);
+  };
+
+  const contextProps: ModalDialogContextProps = {
+    confirm: (options) => open(options, false) as Promise<boolean>,
+    prompt: (options) => open(options, true) as Promise<string | null>
+  };
+
+  return (
+    <ModalDialogContext.Provider value={contextProps}>
+      {children}
+      {dialogs.map((dialog) => (
+        <ModalDialogView
+          key={dialog.key}
+          dialog={dialog}
+          onSettle={(value) => settle(dialog, value)}
+          loadingAriaValueText={loadingAriaValueText}
+        />
+      ))}
+    </ModalDialogContext.Provider>
+  );
+};
+ModalDialogProvider.displayName = 'ModalDialogProvider';
+
+/** Returns a function which opens a confirmation dialog, and resolves to whether it was confirmed. */
+export const useConfirm = () => useContext(ModalDialogContext).confirm;
+
+/** Returns a function which opens a prompt dialog, and resolves to the entered value or null. */
+export const usePrompt = () => useContext(ModalDialogContext).prompt;
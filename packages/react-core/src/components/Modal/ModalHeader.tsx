@@ -1,7 +1,12 @@
+import { useContext, useRef } from 'react';
 import { css } from '@patternfly/react-styles';
 import styles from '@patternfly/react-styles/css/components/ModalBox/modal-box';
 import { ModalBoxDescription } from './ModalBoxDescription';
 import { ModalBoxTitle } from './ModalBoxTitle';
+import { ModalBoxContext } from './ModalBox';
+import { Button } from '../Button';
+import { Flex, FlexItem } from '../../layouts/Flex';
+import GripVerticalIcon from '@patternfly/react-icons/dist/esm/icons/grip-vertical-icon';
 
 /** Renders content in the header of the modal */
 
@@ -25,6 +30,10 @@ export interface ModalHeaderProps {
   titleIconVariant?: 'success' | 'danger' | 'warning' | 'info' | 'custom' | React.ComponentType<any>;
   /** Optional title label text for screen readers. */
   titleScreenReaderText?: string;
+  /** Callback when a mouse button is pressed in the header, called before a draggable modal starts to be dragged. */
+  onMouseDown?: (event: React.MouseEvent<HTMLElement>) => void;
+  /** Callback when a touch starts in the header, called before a draggable modal starts to be dragged. */
+  onTouchStart?: (event: React.TouchEvent<HTMLElement>) => void;
 }
 
 export const ModalHeader: React.FunctionComponent<ModalHeaderProps> = ({
@@ -37,6 +46,8 @@ export const ModalHeader: React.FunctionComponent<ModalHeaderProps> = ({
   titleIconVariant,
   titleScreenReaderText,
   help,
+  onMouseDown,
+  onTouchStart,
   ...props
 }: ModalHeaderProps) => {
   const headerContent = children ? (
@@ -53,8 +64,61 @@ export const ModalHeader: React.FunctionComponent<ModalHeaderProps> = ({
     </>
   );
 
+  const { isDraggable, onDragStart, onDragKeyDown, dragAriaLabel } = useContext(ModalBoxContext);
+  const dragButtonRef = useRef<HTMLButtonElement>(null);
+
+  // The modal is dragged from anywhere in the header except from its interactive elements, other than the move button
+  const handleDragStart = (event: React.MouseEvent | React.TouchEvent) => {
+    const interactiveElement = (event.target as HTMLElement).closest('a, button, input, select, textarea');
+    if (!interactiveElement) {
+      onDragStart(event);
+    } else if (interactiveElement === dragButtonRef.current) {
+      onDragStart(event);
+      // Starting to drag prevents the default focus, which the button keeps so that it can also be used with the keyboard
+      dragButtonRef.current.focus();
+    }
+  };
+
+  if (isDraggable) {
+    return (
+      <header
+        className={css(styles.modalBoxHeader, className)}
+        onMouseDown={(event) => {
+          onMouseDown?.(event);
+          handleDragStart(event);
+        }}
+        onTouchStart={(event) => {
+          onTouchStart?.(event);
+          handleDragStart(event);
+        }}
+        {...props}
+      >
+        <Flex flexWrap={{ default: 'nowrap' }} alignItems={{ default: 'alignItemsFlexStart' }}>
+          <FlexItem>
+            <Button
+              ref={dragButtonRef}
+              variant="plain"
+              aria-label={dragAriaLabel}
+              icon={<GripVerticalIcon />}
+              onKeyDown={onDragKeyDown}
+            />
+          </FlexItem>
+          <FlexItem className={css(styles.modalBoxHeaderMain)} flex={{ default: 'flex_1' }}>
+            {headerContent}
+          </FlexItem>
+          {help && <FlexItem className={`${styles.modalBoxHeader}-help`}>{help}</FlexItem>}
+        </Flex>
+      </header>
+    );
+  }
+
   return (
-    <header className={css(styles.modalBoxHeader, help && styles.modifiers.help, className)} {...props}>
+    <header
+      className={css(styles.modalBoxHeader, help && styles.modifiers.help, className)}
+      onMouseDown={onMouseDown}
+      onTouchStart={onTouchStart}
+      {...props}
+    >
       {help && (
         <>
           <div className={css(styles.modalBoxHeaderMain)}>{headerContent}</div>
@@ -1,6 +1,8 @@
-import { render } from '@testing-library/react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 
 import { ModalBox } from '../ModalBox';
+import { ModalHeader } from '../ModalHeader';
 
 test('ModalBox Test', () => {
   const { asFragment } = render(
@@ -55,3 +57,109 @@ test('ModalBox Test top aligned distance', () => {
   );
   expect(asFragment()).toMatchSnapshot();
 });
+
+describe('Draggable and resizable ModalBox', () => {
+  const defaultLayout = { x: 100, y: 100, width: 400, height: 300 };
+
+  test('Applies the default layout', () => {
+    render(
+      <ModalBox isDraggable defaultLayout={defaultLayout}>
+        <ModalHeader title="Title" />
+      </ModalBox>
+    );
+
+    expect(screen.getByRole('dialog')).toHaveStyle({
+      position: 'fixed',
+      left: '100px',
+      top: '100px',
+      width: '400px',
+      height: '300px'
+    });
+  });
+
+  test('Is moved by dragging the header', () => {
+    const onLayoutChange = jest.fn();
+    render(
+      <ModalBox isDraggable defaultLayout={defaultLayout} onLayoutChange={onLayoutChange}>
+        <ModalHeader title="Title" />
+      </ModalBox>
+    );
+
+    fireEvent.mouseDown(screen.getByRole('heading', { name: 'Title' }), { clientX: 10, clientY: 10 });
+    fireEvent.mouseMove(document, { clientX: 60, clientY: 30 });
+    fireEvent.mouseUp(document);
+
+    expect(screen.getByRole('dialog')).toHaveStyle({ left: '150px', top: '120px' });
+    expect(onLayoutChange).toHaveBeenCalledWith({ x: 150, y: 120, width: 400, height: 300 });
+  });
+
+  test('Is moved by dragging a header with a mouse down handler', () => {
+    const onMouseDown = jest.fn();
+    render(
+      <ModalBox isDraggable defaultLayout={defaultLayout}>
+        <ModalHeader title="Title" onMouseDown={onMouseDown} />
+      </ModalBox>
+    );
+
+    fireEvent.mouseDown(screen.getByRole('heading', { name: 'Title' }), { clientX: 10, clientY: 10 });
+    fireEvent.mouseMove(document, { clientX: 60, clientY: 30 });
+    fireEvent.mouseUp(document);
+
+    expect(onMouseDown).toHaveBeenCalledTimes(1);
+    expect(screen.getByRole('dialog')).toHaveStyle({ left: '150px', top: '120px' });
+  });
+
+  test('Is not moved beyond the viewport', () => {
+    render(
+      <ModalBox isDraggable defaultLayout={defaultLayout}>
+        <ModalHeader title="Title" />
+      </ModalBox>
+    );
+
+    fireEvent.mouseDown(screen.getByRole('heading', { name: 'Title' }), { clientX: 10, clientY: 10 });
+    fireEvent.mouseMove(document, { clientX: -500, clientY: 5000 });
+    fireEvent.mouseUp(document);
+
+    expect(screen.getByRole('dialog')).toHaveStyle({ left: '0px', top: `${window.innerHeight - 300}px` });
+  });
+
+  test('Is moved with the arrow keys from the move button', async () => {
+    const user = userEvent.setup();
+    const onLayoutChange = jest.fn();
+    render(
+      <ModalBox isDraggable defaultLayout={defaultLayout} onLayoutChange={onLayoutChange}>
+        <ModalHeader title="Title" />
+      </ModalBox>
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Move' }));
+    await user.keyboard('{ArrowRight}{ArrowDown}');
+
+    expect(screen.getByRole('dialog')).toHaveStyle({ left: '110px', top: '110px' });
+    expect(onLayoutChange).toHaveBeenLastCalledWith({ x: 110, y: 110, width: 400, height: 300 });
+  });
+
+  test('Is resized with the arrow keys from the resize handle within the bounds', async () => {
+    const user = userEvent.setup();
+    render(
+      <ModalBox isResizable defaultLayout={defaultLayout} resizeBounds={{ maxWidth: 405 }}>
+        Content
+      </ModalBox>
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Resize' }));
+    await user.keyboard('{ArrowRight}{ArrowDown}');
+
+    expect(screen.getByRole('dialog')).toHaveStyle({ width: '405px', height: '310px' });
+  });
+
+  test('Does not render a move button or resize handles by default', () => {
+    render(
+      <ModalBox>
+        <ModalHeader title="Title" />
+      </ModalBox>
+    );
+
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,236 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+import {
+  ConfirmDialogOptions,
+  ModalDialogProvider,
+  PromptDialogOptions,
+  useConfirm,
+  usePrompt
+} from '../ModalDialogProvider';
+
+const ConfirmButton = ({
+  options,
+  onResult
+}: {
+  options: ConfirmDialogOptions;
+  onResult: (result: boolean) => void;
+}) => {
+  const confirm = useConfirm();
+  return <button onClick={() => confirm(options).then(onResult)}>Open {options.title}</button>;
+};
+
+const PromptButton = ({
+  options,
+  onResult
+}: {
+  options: PromptDialogOptions;
+  onResult: (result: string | null) => void;
+}) => {
+  const prompt = usePrompt();
+  return <button onClick={() => prompt(options).then(onResult)}>Open {options.title}</button>;
+};
+
+test('Confirm resolves to true when the dialog is confirmed', async () => {
+  const user = userEvent.setup();
+  const onResult = jest.fn();
+  render(
+    <ModalDialogProvider>
+      <ConfirmButton options={{ title: 'Delete item', body: 'The item is deleted.' }} onResult={onResult} />
+    </ModalDialogProvider>
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Open Delete item' }));
+  expect(screen.getByRole('dialog', { name: 'Delete item' })).toHaveAccessibleDescription('The item is deleted.');
+
+  await user.click(screen.getByRole('button', { name: 'Confirm' }));
+  await waitFor(() => expect(onResult).toHaveBeenCalledWith(true));
+  expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+});
+
+test('Confirm resolves to false when the dialog is cancelled, closed or escaped', async () => {
+  const user = userEvent.setup();
+  const onResult = jest.fn();
+  render(
+    <ModalDialogProvider>
+      <ConfirmButton options={{ title: 'Delete item' }} onResult={onResult} />
+    </ModalDialogProvider>
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Open Delete item' }));
+  await user.click(screen.getByRole('button', { name: 'Cancel' }));
+  await user.click(screen.getByRole('button', { name: 'Open Delete item' }));
+  await user.click(screen.getByRole('button', { name: 'Close' }));
+  await user.click(screen.getByRole('button', { name: 'Open Delete item' }));
+  await user.keyboard('{Escape}');
+
+  await waitFor(() => expect(onResult).toHaveBeenCalledTimes(3));
+  expect(onResult).toHaveBeenNthCalledWith(3, false);
+  expect(onResult).not.toHaveBeenCalledWith(true);
+});
+
+test('Uses a danger confirm button for danger dialogs', async () => {
+  const user = userEvent.setup();
+  render(
+    <ModalDialogProvider>
+      <ConfirmButton options={{ title: 'Delete item', titleIconVariant: 'danger' }} onResult={jest.fn()} />
+    </ModalDialogProvider>
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Open Delete item' }));
+
+  expect(screen.getByRole('button', { name: 'Confirm' })).toHaveClass('pf-m-danger');
+});
+
+test('Requires the confirmation text to be typed before confirming', async () => {
+  const user = userEvent.setup();
+  const onResult = jest.fn();
+  render(
+    <ModalDialogProvider>
+      <ConfirmButton options={{ title: 'Delete cluster', confirmationText: 'production' }} onResult={onResult} />
+    </ModalDialogProvider>
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Open Delete cluster' }));
+  const confirmButton = screen.getByRole('button', { name: 'Confirm' });
+  expect(confirmButton).toBeDisabled();
+
+  await user.type(screen.getByRole('textbox', { name: 'Type production to confirm' }), 'product');
+  expect(confirmButton).toBeDisabled();
+
+  await user.type(screen.getByRole('textbox'), 'ion');
+  expect(confirmButton).toBeEnabled();
+
+  await user.click(confirmButton);
+  await waitFor(() => expect(onResult).toHaveBeenCalledWith(true));
+});
+
+test('Shows a loading confirm button while an async confirm handler is pending', async () => {
+  const user = userEvent.setup();
+  const onResult = jest.fn();
+  let resolveConfirm: () => void;
+  const onConfirm = () => new Promise<void>((resolve) => (resolveConfirm = resolve));
+  render(
+    <ModalDialogProvider>
+      <ConfirmButton options={{ title: 'Delete item', onConfirm }} onResult={onResult} />
+    </ModalDialogProvider>
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Open Delete item' }));
+  await user.click(screen.getByRole('button', { name: 'Confirm' }));
+
+  expect(screen.getByRole('progressbar')).toBeVisible();
+  expect(screen.getByRole('button', { name: 'Cancel' })).toBeDisabled();
+  expect(onResult).not.toHaveBeenCalled();
+
+  resolveConfirm();
+  await waitFor(() => expect(onResult).toHaveBeenCalledWith(true));
+  expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+});
+
+test('Keeps the dialog open with an error when an async confirm handler is rejected', async () => {
+  const user = userEvent.setup();
+  const onResult = jest.fn();
+  const onConfirm = () => Promise.reject(new Error('The item could not be deleted'));
+  render(
+    <ModalDialogProvider>
+      <ConfirmButton options={{ title: 'Delete item', onConfirm }} onResult={onResult} />
+    </ModalDialogProvider>
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Open Delete item' }));
+  await user.click(screen.getByRole('button', { name: 'Confirm' }));
+
+  expect(await screen.findByText('The item could not be deleted')).toBeVisible();
+  expect(screen.getByRole('dialog')).toBeVisible();
+  expect(screen.getByRole('button', { name: 'Confirm' })).toBeEnabled();
+  expect(onResult).not.toHaveBeenCalled();
+});
+
+test('Keeps the dialog open with an error when a confirm handler throws', async () => {
+  const user = userEvent.setup();
+  const onResult = jest.fn();
+  const onConfirm = () => {
+    throw new Error('The item could not be deleted');
+  };
+  render(
+    <ModalDialogProvider>
+      <ConfirmButton options={{ title: 'Delete item', onConfirm }} onResult={onResult} />
+    </ModalDialogProvider>
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Open Delete item' }));
+  await user.click(screen.getByRole('button', { name: 'Confirm' }));
+
+  expect(screen.getByText('The item could not be deleted')).toBeVisible();
+  expect(onResult).not.toHaveBeenCalled();
+
+  await user.click(screen.getByRole('button', { name: 'Cancel' }));
+  await waitFor(() => expect(onResult).toHaveBeenCalledWith(false));
+});
+
+test('Prompt resolves to the entered value, or null when cancelled', async () => {
+  const user = userEvent.setup();
+  const onResult = jest.fn();
+  render(
+    <ModalDialogProvider>
+      <PromptButton options={{ title: 'Rename', label: 'Name', defaultValue: 'old' }} onResult={onResult} />
+    </ModalDialogProvider>
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Open Rename' }));
+  const input = screen.getByRole('textbox', { name: 'Name' });
+  expect(input).toHaveValue('old');
+  await user.clear(input);
+  await user.type(input, 'new{Enter}');
+  await waitFor(() => expect(onResult).toHaveBeenCalledWith('new'));
+
+  await user.click(screen.getByRole('button', { name: 'Open Rename' }));
+  await user.click(screen.getByRole('button', { name: 'Cancel' }));
+  await waitFor(() => expect(onResult).toHaveBeenLastCalledWith(null));
+});
+
+test('Prompt is not confirmed while the value is invalid', async () => {
+  const user = userEvent.setup();
+  const onResult = jest.fn();
+  const validate = (value: string) => (value ? undefined : 'A name is required');
+  render(
+    <ModalDialogProvider>
+      <PromptButton options={{ title: 'Rename', label: 'Name', validate }} onResult={onResult} />
+    </ModalDialogProvider>
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Open Rename' }));
+  await user.click(screen.getByRole('button', { name: 'Confirm' }));
+
+  expect(screen.getByText('A name is required')).toBeVisible();
+  expect(screen.getByRole('button', { name: 'Confirm' })).toBeDisabled();
+  expect(onResult).not.toHaveBeenCalled();
+
+  await user.type(screen.getByRole('textbox', { name: 'Name' }), 'new');
+  await user.click(screen.getByRole('button', { name: 'Confirm' }));
+  await waitFor(() => expect(onResult).toHaveBeenCalledWith('new'));
+});
+
+test('Stacks nested dialogs, closing only the top dialog on escape and restoring focus', async () => {
+  const user = userEvent.setup();
+  const onInnerResult = jest.fn();
+  const NestedBody = () => <ConfirmButton options={{ title: 'Are you sure' }} onResult={onInnerResult} />;
+  render(
+    <ModalDialogProvider>
+      <ConfirmButton options={{ title: 'Delete item', body: <NestedBody /> }} onResult={jest.fn()} />
+    </ModalDialogProvider>
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Open Delete item' }));
+  const nestedOpenButton = screen.getByRole('button', { name: 'Open Are you sure' });
+  await user.click(nestedOpenButton);
+  expect(screen.getByRole('dialog', { name: 'Are you sure' })).toBeVisible();
+
+  await user.keyboard('{Escape}');
+
+  await waitFor(() => expect(onInnerResult).toHaveBeenCalledWith(false));
+  expect(screen.queryByRole('dialog', { name: 'Are you sure' })).not.toBeInTheDocument();
+  expect(screen.getByRole('dialog', { name: 'Delete item' })).toBeVisible();
+  await waitFor(() => expect(nestedOpenButton).toHaveFocus());
+});
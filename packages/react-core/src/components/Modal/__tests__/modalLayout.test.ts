@@ -0,0 +1,48 @@
+import { clampModalLayout, moveModalLayout, resizeModalLayout } from '../modalLayout';
+
+const viewport = { width: 1000, height: 800 };
+const layout = { x: 100, y: 100, width: 400, height: 300 };
+
+describe('clampModalLayout', () => {
+  test('keeps a layout within the viewport unchanged', () => {
+    expect(clampModalLayout(layout, {}, viewport)).toEqual(layout);
+  });
+
+  test('moves a layout back within the viewport', () => {
+    expect(clampModalLayout({ ...layout, x: -50, y: 700 }, {}, viewport)).toEqual({ ...layout, x: 0, y: 500 });
+  });
+
+  test('keeps the size within the bounds and the viewport', () => {
+    expect(
+      clampModalLayout({ x: 0, y: 0, width: 100, height: 2000 }, { minWidth: 200, maxHeight: 1000 }, viewport)
+    ).toEqual({
+      x: 0,
+      y: 0,
+      width: 200,
+      height: 800
+    });
+  });
+});
+
+test('moveModalLayout moves a layout by the passed distances', () => {
+  expect(moveModalLayout(layout, 20, -30)).toEqual({ ...layout, x: 120, y: 70 });
+});
+
+describe('resizeModalLayout', () => {
+  test('resizes from the bottom right corner', () => {
+    expect(resizeModalLayout(layout, 'se', 50, 20, {})).toEqual({ ...layout, width: 450, height: 320 });
+  });
+
+  test('keeps the opposite edges in place when resizing from the top left corner', () => {
+    expect(resizeModalLayout(layout, 'nw', 50, 20, {})).toEqual({ x: 150, y: 120, width: 350, height: 280 });
+  });
+
+  test('only resizes in the direction of an edge', () => {
+    expect(resizeModalLayout(layout, 'e', 50, 20, {})).toEqual({ ...layout, width: 450 });
+  });
+
+  test('keeps the size within the bounds', () => {
+    expect(resizeModalLayout(layout, 'w', 300, 0, { minWidth: 200 })).toEqual({ ...layout, x: 300, width: 200 });
+    expect(resizeModalLayout(layout, 's', 0, 500, { maxHeight: 500 })).toEqual({ ...layout, height: 500 });
+  });
+});
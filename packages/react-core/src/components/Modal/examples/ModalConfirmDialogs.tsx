@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Button, Flex, ModalDialogProvider, useConfirm, usePrompt } from '@patternfly/react-core';
+
+const ConfirmDialogButtons: React.FunctionComponent = () => {
+  const confirm = useConfirm();
+  const prompt = usePrompt();
+  const [clusterName, setClusterName] = useState('production');
+  const [message, setMessage] = useState('');
+
+  const deleteCluster = async () => {
+    const isConfirmed = await confirm({
+      title: `Delete ${clusterName}?`,
+      body: 'The cluster and all of its workloads will be permanently deleted.',
+      titleIconVariant: 'danger',
+      confirmText: 'Delete',
+      confirmationText: clusterName,
+      confirmationLabel: `Type ${clusterName} to delete the cluster`,
+      // Simulates a request, which fails when the cluster is deleted before being renamed
+      onConfirm: () =>
+        new Promise((resolve, reject) =>
+          setTimeout(
+            () =>
+              clusterName === 'production'
+                ? reject(new Error('Production clusters cannot be deleted.'))
+                : resolve(true),
+            1000
+          )
+        )
+    });
+    setMessage(isConfirmed ? `${clusterName} was deleted` : 'Deletion was cancelled');
+  };
+
+  const renameCluster = async () => {
+    const newName = await prompt({
+      title: 'Rename cluster',
+      label: 'Cluster name',
+      defaultValue: clusterName,
+      confirmText: 'Rename',
+      validate: (value) => (/^[a-z0-9-]+$/.test(value) ? undefined : 'Use lowercase letters, numbers and dashes')
+    });
+    if (newName !== null) {
+      setClusterName(newName);
+      setMessage(`The cluster was renamed to ${newName}`);
+    }
+  };
+
+  const leavePage = async () => {
+    const isConfirmed = await confirm({
+      title: 'Unsaved changes',
+      titleIconVariant: 'warning',
+      body: (
+        <Button
+          variant="link"
+          isInline
+          onClick={() =>
+            confirm({ title: 'Changes', body: 'The name of the cluster was changed.', confirmText: 'Close' })
+          }
+        >
+          Review changes
+        </Button>
+      ),
+      confirmText: 'Leave'
+    });
+    setMessage(isConfirmed ? 'Left the page' : 'Stayed on the page');
+  };
+
+  return (
+    <Flex direction={{ default: 'column' }}>
+      <Flex>
+        <Button variant="danger" onClick={deleteCluster}>
+          Delete cluster
+        </Button>
+        <Button variant="secondary" onClick={renameCluster}>
+          Rename cluster
+        </Button>
+        <Button variant="secondary" onClick={leavePage}>
+          Leave page
+        </Button>
+      </Flex>
+      <div aria-live="polite">{message}</div>
+    </Flex>
+  );
+};
+
+export const ModalConfirmDialogs: React.FunctionComponent = () => (
+  <ModalDialogProvider>
+    <ConfirmDialogButtons />
+  </ModalDialogProvider>
+);
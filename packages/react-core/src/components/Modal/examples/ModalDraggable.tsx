@@ -0,0 +1,77 @@
+import { Fragment, useState } from 'react';
+import {
+  Button,
+  Checkbox,
+  CodeBlock,
+  CodeBlockCode,
+  Modal,
+  ModalBody,
+  ModalFooter,
+  ModalHeader,
+  ModalLayout
+} from '@patternfly/react-core';
+
+const layoutStorageKey = 'pf-modal-draggable-example-layout';
+
+const loadLayout = (): Partial<ModalLayout> | undefined => {
+  try {
+    return JSON.parse(localStorage.getItem(layoutStorageKey)) ?? undefined;
+  } catch (exception) {
+    return undefined;
+  }
+};
+
+export const ModalDraggable: React.FunctionComponent = () => {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [hasNoBackdrop, setHasNoBackdrop] = useState(false);
+
+  const handleModalToggle = (_event: KeyboardEvent | React.MouseEvent) => {
+    setIsModalOpen(!isModalOpen);
+  };
+
+  const onLayoutChange = (layout: ModalLayout) => localStorage.setItem(layoutStorageKey, JSON.stringify(layout));
+
+  return (
+    <Fragment>
+      <Checkbox
+        id="modal-draggable-no-backdrop"
+        label="Without backdrop"
+        isChecked={hasNoBackdrop}
+        onChange={(_event, checked) => setHasNoBackdrop(checked)}
+      />
+      <br />
+      <Button variant="primary" onClick={handleModalToggle}>
+        Show draggable modal
+      </Button>
+      <Modal
+        variant="medium"
+        isOpen={isModalOpen}
+        onClose={handleModalToggle}
+        isDraggable
+        isResizable
+        hasNoBackdrop={hasNoBackdrop}
+        resizeBounds={{ minWidth: 320, minHeight: 240, maxWidth: 1200 }}
+        defaultLayout={loadLayout()}
+        onLayoutChange={onLayoutChange}
+        aria-labelledby="draggable-modal-title"
+      >
+        <ModalHeader title="Pod logs" labelId="draggable-modal-title" />
+        <ModalBody>
+          <CodeBlock>
+            <CodeBlockCode>
+              {Array.from(
+                { length: 30 },
+                (_, index) => `2024-05-01T12:00:${String(index).padStart(2, '0')}Z INFO Handled request ${index + 1}`
+              ).join('\n')}
+            </CodeBlockCode>
+          </CodeBlock>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="primary" onClick={handleModalToggle}>
+            Close
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </Fragment>
+  );
+};
@@ -2,3 +2,5 @@ export * from './Modal';
 export * from './ModalBody';
 export * from './ModalHeader';
 export * from './ModalFooter';
+export * from './ModalDialogProvider';
+export * from './modalLayout';
@@ -0,0 +1,85 @@
+/** Position and size of a draggable or resizable modal, in pixels relative to the viewport. */
+export interface ModalLayout {
+  /** Distance of the modal from the left of the viewport. */
+  x: number;
+  /** Distance of the modal from the top of the viewport. */
+  y: number;
+  /** Width of the modal. */
+  width: number;
+  /** Height of the modal. */
+  height: number;
+}
+
+/** Bounds of the size of a resizable modal, in pixels. The modal is also never larger than the viewport. */
+export interface ModalResizeBounds {
+  /** Minimum width of the modal. */
+  minWidth?: number;
+  /** Minimum height of the modal. */
+  minHeight?: number;
+  /** Maximum width of the modal. */
+  maxWidth?: number;
+  /** Maximum height of the modal. */
+  maxHeight?: number;
+}
+
+/** Edge or corner of a modal which is dragged to resize it. */
+export type ModalResizeDirection = 'n' | 'e' | 's' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+export const modalResizeDirections: ModalResizeDirection[] = ['n', 'e', 's', 'w', 'ne', 'nw', 'se', 'sw'];
+
+export const defaultModalResizeBounds: ModalResizeBounds = { minWidth: 200, minHeight: 100 };
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(value, max));
+
+const clampSize = (size: number, viewportSize: number, min = 0, max = Infinity) =>
+  clamp(size, Math.min(min, viewportSize), Math.min(max, viewportSize));
+
+/** Returns the layout with its size within the bounds and the viewport, and its position within the viewport. */
+export const clampModalLayout = (
+  layout: ModalLayout,
+  bounds: ModalResizeBounds,
+  viewport: { width: number; height: number }
+): ModalLayout => {
+  const width = clampSize(layout.width, viewport.width, bounds.minWidth, bounds.maxWidth);
+  const height = clampSize(layout.height, viewport.height, bounds.minHeight, bounds.maxHeight);
+  return {
+    width,
+    height,
+    x: clamp(layout.x, 0, viewport.width - width),
+    y: clamp(layout.y, 0, viewport.height - height)
+  };
+};
+
+/** Returns the layout moved by the passed distances. */
+export const moveModalLayout = (layout: ModalLayout, deltaX: number, deltaY: number): ModalLayout => ({
+  ...layout,
+  x: layout.x + deltaX,
+  y: layout.y + deltaY
+});
+
+/**
+ * Returns the layout resized by dragging one of its edges or corners by the passed distances. The size is kept within
+ * the bounds, and the opposite edges stay in place when the top or left edges are dragged.
+ */
+export const resizeModalLayout = (
+  layout: ModalLayout,
+  direction: ModalResizeDirection,
+  deltaX: number,
+  deltaY: number,
+  bounds: ModalResizeBounds
+): ModalLayout => {
+  let { x, y, width, height } = layout;
+  if (direction.includes('e')) {
+    width = clamp(layout.width + deltaX, bounds.minWidth ?? 0, bounds.maxWidth ?? Infinity);
+  } else if (direction.includes('w')) {
+    width = clamp(layout.width - deltaX, bounds.minWidth ?? 0, bounds.maxWidth ?? Infinity);
+    x = layout.x + layout.width - width;
+  }
+  if (direction.includes('s')) {
+    height = clamp(layout.height + deltaY, bounds.minHeight ?? 0, bounds.maxHeight ?? Infinity);
+  } else if (direction.includes('n')) {
+    height = clamp(layout.height - deltaY, bounds.minHeight ?? 0, bounds.maxHeight ?? Infinity);
+    y = layout.y + layout.height - height;
+  }
+  return { x, y, width, height };
+};
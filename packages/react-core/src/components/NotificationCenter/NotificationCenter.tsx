@@ -0,0 +1,74 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+import {
+  createNotificationStore,
+  groupNotifications,
+  NotificationCenterGroup,
+  NotificationCenterItem,
+  NotificationStore,
+  NotificationStoreOptions
+} from './notificationStore';
+
+export interface NotificationCenterContextProps
+  extends Pick<NotificationStore, 'add' | 'remove' | 'clear' | 'markRead' | 'markAllRead'> {
+  /** Notifications of the store, newest first. */
+  notifications: NotificationCenterItem[];
+  /** Notifications of the store grouped by category. */
+  groups: NotificationCenterGroup[];
+  /** Number of unread notifications. */
+  unreadCount: number;
+  /** The notification store. */
+  store: NotificationStore;
+}
+
+const NotificationCenterContext = createContext({} as NotificationCenterContextProps);
+
+export const NotificationCenterContextConsumer = NotificationCenterContext.Consumer;
+
+export interface NotificationCenterProviderProps extends NotificationStoreOptions {
+  /** Content rendered within the provider. Can optionally use a render function to return context props. */
+  children?: React.ReactNode | ((props: NotificationCenterContextProps) => React.ReactNode);
+  /** Notification store shared by the bound components. When not passed, a store is created from the notifications,
+   * storage and maxNotifications of the provider.
+   */
+  store?: NotificationStore;
+}
+
+export const NotificationCenterProvider: React.FunctionComponent<NotificationCenterProviderProps> = ({
+  children,
+  store: storeProp,
+  notifications: initialNotifications,
+  storage,
+  maxNotifications
+}: NotificationCenterProviderProps) => {
+  const [ownStore] = useState(
+    () => storeProp || createNotificationStore({ notifications: initialNotifications, storage, maxNotifications })
+  );
+  const store = storeProp || ownStore;
+  const [notifications, setNotifications] = useState(store.getNotifications());
+
+  useEffect(() => {
+    setNotifications(store.getNotifications());
+    return store.subscribe(setNotifications);
+  }, [store]);
+
+  const contextProps: NotificationCenterContextProps = {
+    notifications,
+    groups: groupNotifications(notifications),
+    unreadCount: notifications.filter((notification) => !notification.isRead).length,
+    add: store.add,
+    remove: store.remove,
+    clear: store.clear,
+    markRead: store.markRead,
+    markAllRead: store.markAllRead,
+    store
+  };
+
+  return (
+    <NotificationCenterContext.Provider value={contextProps}>
+      {typeof children === 'function' ? children(contextProps) : children}
+    </NotificationCenterContext.Provider>
+  );
+};
+NotificationCenterProvider.displayName = 'NotificationCenterProvider';
+
+export const useNotificationCenter = () => useContext(NotificationCenterContext);
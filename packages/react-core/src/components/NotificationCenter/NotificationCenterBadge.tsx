@@ -0,0 +1,54 @@
+import { useEffect, useRef, useState } from 'react';
+import { NotificationBadge, NotificationBadgeProps, NotificationBadgeVariant } from '../NotificationBadge';
+import { useNotificationCenter } from './NotificationCenter';
+
+/** A notification badge bound to the notification store of the nearest notification center provider. */
+
+export interface NotificationCenterBadgeProps
+  extends Omit<NotificationBadgeProps, 'count' | 'variant' | 'shouldNotify'> {
+  /** Flag indicating the attention variant is displayed while there are unread danger notifications. */
+  hasAttention?: boolean;
+  /** Flag indicating the badge animates each time an unread notification is added. */
+  hasNotifyAnimation?: boolean;
+}
+
+export const NotificationCenterBadge: React.FunctionComponent<NotificationCenterBadgeProps> = ({
+  hasAttention = true,
+  hasNotifyAnimation = true,
+  'aria-label': ariaLabel,
+  onAnimationEnd,
+  ...props
+}: NotificationCenterBadgeProps) => {
+  const { notifications, unreadCount } = useNotificationCenter();
+  const [shouldNotify, setShouldNotify] = useState(false);
+  const prevUnreadCount = useRef(unreadCount);
+
+  useEffect(() => {
+    if (hasNotifyAnimation && unreadCount > prevUnreadCount.current) {
+      setShouldNotify(true);
+    }
+    prevUnreadCount.current = unreadCount;
+  }, [unreadCount]);
+
+  let variant = NotificationBadgeVariant.read;
+  if (hasAttention && notifications.some((notification) => !notification.isRead && notification.variant === 'danger')) {
+    variant = NotificationBadgeVariant.attention;
+  } else if (unreadCount > 0) {
+    variant = NotificationBadgeVariant.unread;
+  }
+
+  return (
+    <NotificationBadge
+      variant={variant}
+      count={unreadCount}
+      shouldNotify={shouldNotify}
+      onAnimationEnd={(event) => {
+        setShouldNotify(false);
+        onAnimationEnd?.(event);
+      }}
+      aria-label={ariaLabel ?? `${unreadCount} unread notifications`}
+      {...props}
+    />
+  );
+};
+NotificationCenterBadge.displayName = 'NotificationCenterBadge';
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import TimesIcon from '@patternfly/react-icons/dist/esm/icons/times-icon';
+import { Button, ButtonVariant } from '../Button';
+import { EmptyState, EmptyStateBody, EmptyStateVariant } from '../EmptyState';
+import {
+  NotificationDrawer,
+  NotificationDrawerBody,
+  NotificationDrawerGroup,
+  NotificationDrawerGroupList,
+  NotificationDrawerHeader,
+  NotificationDrawerList,
+  NotificationDrawerListItem,
+  NotificationDrawerListItemBody,
+  NotificationDrawerListItemHeader,
+  NotificationDrawerProps
+} from '../NotificationDrawer';
+import { Timestamp, TimestampProps } from '../Timestamp';
+import { useNotificationCenter } from './NotificationCenter';
+import { NotificationCenterItem } from './notificationStore';
+
+/** A notification drawer bound to the notification store of the nearest notification center provider. */
+
+export interface NotificationCenterDrawerProps extends Omit<NotificationDrawerProps, 'children' | 'title'> {
+  /** Accessible label of the button which removes a notification. */
+  removeButtonAriaLabel?: (notification: NotificationCenterItem) => string;
+  /** Text of the button which removes all notifications. */
+  clearAllText?: string;
+  /** Content displayed when there are no notifications. */
+  emptyState?: React.ReactNode;
+  /** Returns the title of the group of a category. Notifications without a category are grouped under "Other". */
+  getCategoryTitle?: (category?: string) => React.ReactNode;
+  /** Flag indicating each notification has a button which removes it. */
+  hasRemoveButtons?: boolean;
+  /** Flag indicating notifications are grouped by category. */
+  isGrouped?: boolean;
+  /** Text of the button which marks all notifications as read. */
+  markAllReadText?: string;
+  /** Callback when the close button of the header is clicked. The close button is only rendered when passed. */
+  onClose?: (event: KeyboardEvent | React.MouseEvent) => void;
+  /** Callback when a notification is clicked, after it is marked as read. */
+  onNotificationClick?: (event: React.MouseEvent, notification: NotificationCenterItem) => void;
+  /** Additional props of the timestamps of the notifications. */
+  timestampProps?: Omit<TimestampProps, 'date'>;
+  /** Title of the notification drawer. */
+  title?: string;
+}
+
+export const NotificationCenterDrawer: React.FunctionComponent<NotificationCenterDrawerProps> = ({
+  removeButtonAriaLabel = (notification: NotificationCenterItem) => `Remove notification: ${notification.title}`,
+  clearAllText = 'Clear all',
+  emptyState = (
+    <EmptyState variant={EmptyStateVariant.full} titleText="No notifications" headingLevel="h2">
+      <EmptyStateBody>There are currently no notifications.</EmptyStateBody>
+    </EmptyState>
+  ),
+  getCategoryTitle = (category?: string) => category ?? 'Other',
+  hasRemoveButtons = true,
+  isGrouped = false,
+  markAllReadText = 'Mark all read',
+  onClose,
+  onNotificationClick,
+  timestampProps = { dateFormat: 'medium', timeFormat: 'short' },
+  title = 'Notifications',
+  ...props
+}: NotificationCenterDrawerProps) => {
+  const { notifications, groups, unreadCount, markRead, markAllRead, remove, clear } = useNotificationCenter();
+  // Only one group is expanded at a time, starting with the first one
+  const [expandedGroup, setExpandedGroup] = useState<string>(groups.length ? (groups[0].category ?? '') : undefined);
+
+  const renderNotifications = (groupNotifications: NotificationCenterItem[], ariaLabel: string, isHidden = false) => (
+    <NotificationDrawerList isHidden={isHidden} aria-label={ariaLabel}>
+      {groupNotifications.map((notification) => (
+        <NotificationDrawerListItem
+          key={notification.id}
+          variant={notification.variant}
+          isRead={notification.isRead}
+          onClick={(event: React.MouseEvent) => {
+            markRead(notification.id);
+            onNotificationClick?.(event, notification);
+          }}
+        >
+          <NotificationDrawerListItemHeader
+            variant={notification.variant}
+            title={notification.title}
+            srTitle={notification.variant ? `${notification.variant} notification:` : undefined}
+          >
+            {hasRemoveButtons && (
+              <Button
+                variant={ButtonVariant.plain}
+                aria-label={removeButtonAriaLabel(notification)}
+                icon={<TimesIcon />}
+                onClick={(event) => {
+                  event.stopPropagation();
+                  remove(notification.id);
+                }}
+              />
+            )}
+          </NotificationDrawerListItemHeader>
+          <NotificationDrawerListItemBody timestamp={<Timestamp date={notification.timestamp} {...timestampProps} />}>
+            {notification.description}
+          </NotificationDrawerListItemBody>
+        </NotificationDrawerListItem>
+      ))}
+    </NotificationDrawerList>
+  );
+
+  let content: React.ReactNode = emptyState;
+  if (notifications.length && isGrouped) {
+    content = (
+      <NotificationDrawerGroupList>
+        {groups.map(({ category, notifications: groupNotifications, unreadCount: groupUnreadCount }) => {
+          const groupKey = category ?? '';
+          const isExpanded = expandedGroup === groupKey;
+          const groupTitle = getCategoryTitle(category);
+          return (
+            <NotificationDrawerGroup
+              key={groupKey}
+              title={groupTitle}
+              isExpanded={isExpanded}
+              isRead={groupUnreadCount === 0}
+              count={groupUnreadCount}
+              onExpand={(_event, value) => setExpandedGroup(value ? groupKey : undefined)}
+            >
+              {renderNotifications(
+                groupNotifications,
+                typeof groupTitle === 'string' ? `Notifications in ${groupTitle}` : undefined,
+                !isExpanded
+              )}
+            </NotificationDrawerGroup>
+          );
+        })}
+      </NotificationDrawerGroupList>
+    );
+  } else if (notifications.length) {
+    content = renderNotifications(notifications, title);
+  }
+
+  return (
+    <NotificationDrawer {...props}>
+      <NotificationDrawerHeader title={title} count={unreadCount} onClose={onClose}>
+        <Button variant={ButtonVariant.link} isInline isDisabled={unreadCount === 0} onClick={() => markAllRead()}>
+          {markAllReadText}
+        </Button>
+        <Button variant={ButtonVariant.link} isInline isDisabled={notifications.length === 0} onClick={() => clear()}>
+          {clearAllText}
+        </Button>
+      </NotificationDrawerHeader>
+      <NotificationDrawerBody>{content}</NotificationDrawerBody>
+    </NotificationDrawer>
+  );
+};
+NotificationCenterDrawer.displayName = 'NotificationCenterDrawer';
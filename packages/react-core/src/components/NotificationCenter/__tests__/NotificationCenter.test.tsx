@@ -0,0 +1,106 @@
+import { act, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+import { NotificationCenterProvider } from '../NotificationCenter';
+import { NotificationCenterBadge } from '../NotificationCenterBadge';
+import { NotificationCenterDrawer } from '../NotificationCenterDrawer';
+import { createNotificationStore } from '../notificationStore';
+
+const renderNotificationCenter = (store = createNotificationStore(), drawer = <NotificationCenterDrawer />) =>
+  render(
+    <NotificationCenterProvider store={store}>
+      <NotificationCenterBadge />
+      {drawer}
+    </NotificationCenterProvider>
+  );
+
+test('Keeps the badge count and drawer in sync with the store', () => {
+  const store = createNotificationStore();
+  renderNotificationCenter(store);
+
+  expect(screen.getByRole('button', { name: '0 unread notifications' })).toBeVisible();
+  expect(screen.getByText('No notifications')).toBeVisible();
+
+  act(() => {
+    store.add({ title: 'Build failed', variant: 'danger' });
+    store.add({ title: 'Build succeeded', variant: 'success' });
+  });
+
+  expect(screen.getByRole('button', { name: '2 unread notifications' })).toHaveTextContent('2');
+  expect(screen.getByText('2 unread')).toBeVisible();
+  expect(screen.getAllByRole('listitem')).toHaveLength(2);
+});
+
+test('Displays the attention variant of the badge while danger notifications are unread', () => {
+  const store = createNotificationStore({ notifications: [{ id: 'a', title: 'Build failed', variant: 'danger' }] });
+  renderNotificationCenter(store);
+
+  expect(screen.getByRole('button', { name: '1 unread notifications' })).toHaveClass('pf-m-attention');
+
+  act(() => store.markRead('a'));
+  expect(screen.getByRole('button', { name: '0 unread notifications' })).toHaveClass('pf-m-read');
+});
+
+test('Marks a notification as read when it is clicked', async () => {
+  const user = userEvent.setup();
+  const onNotificationClick = jest.fn();
+  const store = createNotificationStore({ notifications: [{ id: 'a', title: 'Build failed', variant: 'danger' }] });
+  renderNotificationCenter(store, <NotificationCenterDrawer onNotificationClick={onNotificationClick} />);
+
+  await user.click(screen.getByText('Build failed'));
+
+  expect(store.getNotifications()[0].isRead).toBe(true);
+  expect(onNotificationClick).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ id: 'a' }));
+  expect(screen.getByRole('listitem')).toHaveClass('pf-m-read');
+});
+
+test('Marks all notifications as read, removes and clears notifications', async () => {
+  const user = userEvent.setup();
+  const store = createNotificationStore({
+    notifications: [
+      { id: 'a', title: 'First' },
+      { id: 'b', title: 'Second' },
+      { id: 'c', title: 'Third' }
+    ]
+  });
+  renderNotificationCenter(store);
+
+  await user.click(screen.getByRole('button', { name: 'Mark all read' }));
+  expect(store.getUnreadCount()).toBe(0);
+  expect(screen.getByRole('button', { name: 'Mark all read' })).toBeDisabled();
+
+  await user.click(screen.getByRole('button', { name: 'Remove notification: Second' }));
+  expect(store.getNotifications().map(({ id }) => id)).toEqual(['a', 'c']);
+
+  await user.click(screen.getByRole('button', { name: 'Clear all' }));
+  expect(store.getNotifications()).toEqual([]);
+  expect(screen.getByText('No notifications')).toBeVisible();
+});
+
+test('Groups notifications by category with one group expanded at a time', async () => {
+  const user = userEvent.setup();
+  const store = createNotificationStore({
+    notifications: [
+      { id: 'a', title: 'Build failed', category: 'Builds' },
+      { id: 'b', title: 'Disk almost full', category: 'Alerts' }
+    ]
+  });
+  renderNotificationCenter(store, <NotificationCenterDrawer isGrouped />);
+
+  expect(within(screen.getByRole('list', { name: 'Notifications in Builds' })).getByText('Build failed')).toBeVisible();
+  expect(screen.queryByRole('list', { name: 'Notifications in Alerts' })).not.toBeInTheDocument();
+
+  await user.click(screen.getByRole('button', { name: /Alerts/ }));
+
+  expect(screen.getByRole('list', { name: 'Notifications in Alerts' })).toBeVisible();
+  expect(screen.queryByRole('list', { name: 'Notifications in Builds' })).not.toBeInTheDocument();
+});
+
+test('Renders timestamps of notifications', () => {
+  const store = createNotificationStore({
+    notifications: [{ title: 'Build failed', timestamp: new Date(2024, 0, 15, 9, 30) }]
+  });
+  renderNotificationCenter(store, <NotificationCenterDrawer timestampProps={{ customFormat: { year: 'numeric' } }} />);
+
+  expect(screen.getByText('2024')).toBeVisible();
+});
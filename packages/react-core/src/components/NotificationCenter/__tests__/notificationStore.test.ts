@@ -0,0 +1,102 @@
+import { createNotificationStore, groupNotifications, localStorageNotificationAdapter } from '../notificationStore';
+
+const timestamp = new Date(2024, 0, 15, 9, 30);
+
+test('adds notifications newest first and replaces notifications with the same id', () => {
+  const store = createNotificationStore();
+
+  store.add({ id: 'first', title: 'First' });
+  store.add({ id: 'second', title: 'Second' });
+  store.add({ id: 'first', title: 'First again' });
+
+  expect(store.getNotifications().map(({ title }) => title)).toEqual(['First again', 'Second']);
+  expect(store.getNotifications()[0]).toMatchObject({ isRead: false, timestamp: expect.any(Date) });
+});
+
+test('marks notifications as read and unread', () => {
+  const store = createNotificationStore({
+    notifications: [
+      { id: 'a', title: 'A', category: 'Builds' },
+      { id: 'b', title: 'B', category: 'Builds' },
+      { id: 'c', title: 'C', category: 'Alerts' }
+    ]
+  });
+
+  store.markRead('a');
+  expect(store.getUnreadCount()).toBe(2);
+
+  store.markAllRead('Builds');
+  expect(store.getUnreadCount('Builds')).toBe(0);
+  expect(store.getUnreadCount('Alerts')).toBe(1);
+
+  store.markRead('a', false);
+  store.markAllRead();
+  expect(store.getUnreadCount()).toBe(0);
+});
+
+test('notifies subscribers only when the notifications change', () => {
+  const store = createNotificationStore({ notifications: [{ id: 'a', title: 'A', isRead: true }] });
+  const listener = jest.fn();
+  const unsubscribe = store.subscribe(listener);
+
+  store.markRead('a');
+  store.remove('missing');
+  expect(listener).not.toHaveBeenCalled();
+
+  store.remove('a');
+  expect(listener).toHaveBeenCalledWith([]);
+
+  unsubscribe();
+  store.add({ title: 'B' });
+  expect(listener).toHaveBeenCalledTimes(1);
+});
+
+test('clears notifications of a category and keeps at most maxNotifications', () => {
+  const store = createNotificationStore({ maxNotifications: 2 });
+
+  store.add({ id: 'a', title: 'A', category: 'Builds' });
+  store.add({ id: 'b', title: 'B', category: 'Alerts' });
+  store.add({ id: 'c', title: 'C', category: 'Builds' });
+  expect(store.getNotifications().map(({ id }) => id)).toEqual(['c', 'b']);
+
+  store.clear('Builds');
+  expect(store.getNotifications().map(({ id }) => id)).toEqual(['b']);
+});
+
+test('groups notifications by category', () => {
+  const store = createNotificationStore({
+    notifications: [
+      { id: 'a', title: 'A', category: 'Builds' },
+      { id: 'b', title: 'B' },
+      { id: 'c', title: 'C', category: 'Builds', isRead: true }
+    ]
+  });
+
+  expect(groupNotifications(store.getNotifications())).toEqual([
+    {
+      category: 'Builds',
+      notifications: [expect.objectContaining({ id: 'a' }), expect.objectContaining({ id: 'c' })],
+      unreadCount: 1
+    },
+    { category: undefined, notifications: [expect.objectContaining({ id: 'b' })], unreadCount: 1 }
+  ]);
+});
+
+test('saves and loads notifications with the localStorage adapter', () => {
+  window.localStorage.clear();
+  const storage = localStorageNotificationAdapter('test-notifications');
+  const store = createNotificationStore({ storage, notifications: [{ id: 'initial', title: 'Initial' }] });
+
+  expect(store.getNotifications().map(({ id }) => id)).toEqual(['initial']);
+  store.add({ id: 'saved', title: 'Saved', timestamp });
+
+  const loadedStore = createNotificationStore({ storage, notifications: [{ id: 'ignored', title: 'Ignored' }] });
+  expect(loadedStore.getNotifications().map(({ id }) => id)).toEqual(['saved', 'initial']);
+  expect(loadedStore.getNotifications()[0].timestamp).toEqual(timestamp);
+});
+
+test('ignores invalid saved notifications', () => {
+  window.localStorage.setItem('invalid-notifications', '{');
+
+  expect(localStorageNotificationAdapter('invalid-notifications').load()).toBeUndefined();
+});
@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import {
+  Button,
+  createNotificationStore,
+  Flex,
+  localStorageNotificationAdapter,
+  NotificationCenterBadge,
+  NotificationCenterDrawer,
+  NotificationCenterItemInput,
+  NotificationCenterProvider
+} from '@patternfly/react-core';
+
+const store = createNotificationStore({
+  storage: localStorageNotificationAdapter('pf-notification-center-example'),
+  notifications: [
+    {
+      title: 'Build succeeded',
+      description: 'The frontend build finished in 3 minutes.',
+      variant: 'success',
+      category: 'Builds'
+    },
+    {
+      title: 'Disk almost full',
+      description: 'The cluster has 5% of disk space left.',
+      variant: 'warning',
+      category: 'Alerts'
+    }
+  ]
+});
+
+const exampleNotifications: NotificationCenterItemInput[] = [
+  { title: 'Build failed', description: 'The backend tests failed.', variant: 'danger', category: 'Builds' },
+  { title: 'New version available', description: 'Version 2.1 can be installed.', variant: 'info', category: 'Updates' }
+];
+
+export const NotificationCenterBasic: React.FunctionComponent = () => {
+  const [isDrawerExpanded, setIsDrawerExpanded] = useState(true);
+  const [isGrouped, setIsGrouped] = useState(false);
+
+  const addNotification = () =>
+    store.add(exampleNotifications[Math.floor(Math.random() * exampleNotifications.length)]);
+
+  return (
+    <NotificationCenterProvider store={store}>
+      <Flex style={{ marginBottom: '16px' }}>
+        <NotificationCenterBadge isExpanded={isDrawerExpanded} onClick={() => setIsDrawerExpanded(!isDrawerExpanded)} />
+        <Button variant="secondary" onClick={addNotification}>
+          Add notification
+        </Button>
+        <Button variant="secondary" onClick={() => setIsGrouped(!isGrouped)}>
+          {isGrouped ? 'Ungroup' : 'Group by category'}
+        </Button>
+      </Flex>
+      {isDrawerExpanded && (
+        <NotificationCenterDrawer isGrouped={isGrouped} onClose={() => setIsDrawerExpanded(false)} />
+      )}
+    </NotificationCenterProvider>
+  );
+};
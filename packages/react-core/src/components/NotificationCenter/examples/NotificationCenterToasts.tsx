@@ -0,0 +1,29 @@
+import {
+  Button,
+  createNotificationStore,
+  Flex,
+  NotificationCenterBadge,
+  NotificationCenterDrawer,
+  NotificationCenterProvider,
+  ToasterProvider,
+  toast
+} from '@patternfly/react-core';
+
+const store = createNotificationStore();
+
+export const NotificationCenterToasts: React.FunctionComponent = () => (
+  <NotificationCenterProvider store={store}>
+    <ToasterProvider
+      timeout={4000}
+      onDismiss={({ key, title, variant }) => store.add({ id: String(key), title: String(title), variant })}
+    >
+      <Flex style={{ marginBottom: '16px' }}>
+        <NotificationCenterBadge />
+        <Button variant="secondary" onClick={() => toast.show({ title: 'Report generated', variant: 'success' })}>
+          Show toast
+        </Button>
+      </Flex>
+      <NotificationCenterDrawer />
+    </ToasterProvider>
+  </NotificationCenterProvider>
+);
@@ -0,0 +1,4 @@
+export * from './NotificationCenter';
+export * from './NotificationCenterBadge';
+export * from './NotificationCenterDrawer';
+export * from './notificationStore';
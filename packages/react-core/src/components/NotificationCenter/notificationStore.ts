@@ -0,0 +1,169 @@
+import { createLocalStorageAdapter } from '../../helpers/localStorageAdapter';
+import { getUniqueId } from '../../helpers/util';
+
+export type NotificationCenterVariant = 'custom' | 'success' | 'danger' | 'warning' | 'info';
+
+/** A notification kept by a notification store. */
+export interface NotificationCenterItem {
+  /** Unique id of the notification. */
+  id: string;
+  /** Title of the notification. */
+  title: string;
+  /** Description of the notification. */
+  description?: string;
+  /** Variant indicating the severity of the notification. */
+  variant?: NotificationCenterVariant;
+  /** Category of the notification, by which notifications are grouped. */
+  category?: string;
+  /** When the notification was created. */
+  timestamp: Date;
+  /** Flag indicating the notification has been read. */
+  isRead: boolean;
+}
+
+/** A notification added to a notification store. The id and timestamp are generated and the notification is unread
+ * unless they are passed.
+ */
+export type NotificationCenterItemInput = Omit<NotificationCenterItem, 'id' | 'timestamp' | 'isRead'> &
+  Partial<Pick<NotificationCenterItem, 'id' | 'timestamp' | 'isRead'>>;
+
+/** Notifications of a category, as returned by groupNotifications. */
+export interface NotificationCenterGroup {
+  /** Category of the notifications. Undefined for notifications without a category. */
+  category?: string;
+  /** Notifications of the category, newest first. */
+  notifications: NotificationCenterItem[];
+  /** Number of unread notifications of the category. */
+  unreadCount: number;
+}
+
+/** Loads and saves the notifications of a notification store, e.g. in localStorage or on a server. */
+export interface NotificationStorageAdapter {
+  /** Returns the saved notifications, or undefined when none were saved. */
+  load: () => NotificationCenterItem[] | undefined;
+  /** Saves the notifications each time they change. */
+  save: (notifications: NotificationCenterItem[]) => void;
+}
+
+export interface NotificationStoreOptions {
+  /** Notifications of the store, used when the storage has no saved notifications. */
+  notifications?: NotificationCenterItemInput[];
+  /** Adapter which loads the notifications when the store is created and saves them each time they change. */
+  storage?: NotificationStorageAdapter;
+  /** Maximum number of notifications kept by the store. The oldest notifications are removed beyond it. */
+  maxNotifications?: number;
+}
+
+/** A headless store of notifications, which components subscribe to in order to stay in sync. */
+export interface NotificationStore {
+  /** Returns the notifications, newest first. */
+  getNotifications: () => NotificationCenterItem[];
+  /** Calls the listener each time the notifications change. Returns a function which unsubscribes the listener. */
+  subscribe: (listener: (notifications: NotificationCenterItem[]) => void) => () => void;
+  /** Adds a notification, or replaces the notification with the same id. Returns the id of the notification. */
+  add: (notification: NotificationCenterItemInput) => string;
+  /** Removes a notification. */
+  remove: (id: string) => void;
+  /** Removes all notifications, or all notifications of a category when one is passed. */
+  clear: (category?: string) => void;
+  /** Marks a notification as read, or as unread when isRead is false. */
+  markRead: (id: string, isRead?: boolean) => void;
+  /** Marks all notifications as read, or all notifications of a category when one is passed. */
+  markAllRead: (category?: string) => void;
+  /** Returns the number of unread notifications, or of unread notifications of a category when one is passed. */
+  getUnreadCount: (category?: string) => number;
+}
+
+const toNotification = (notification: NotificationCenterItemInput): NotificationCenterItem => ({
+  ...notification,
+  id: notification.id ?? getUniqueId('notification'),
+  timestamp: notification.timestamp ?? new Date(),
+  isRead: notification.isRead ?? false
+});
+
+const isInCategory = (notification: NotificationCenterItem, category?: string) =>
+  category === undefined || notification.category === category;
+
+/** Creates a headless notification store. */
+export const createNotificationStore = ({
+  notifications: initialNotifications = [],
+  storage,
+  maxNotifications
+}: NotificationStoreOptions = {}): NotificationStore => {
+  let notifications = storage?.load() ?? initialNotifications.map(toNotification);
+  const listeners = new Set<(notifications: NotificationCenterItem[]) => void>();
+
+  const setNotifications = (newNotifications: NotificationCenterItem[]) => {
+    notifications =
+      maxNotifications === undefined ? newNotifications : newNotifications.slice(0, Math.max(maxNotifications, 0));
+    storage?.save(notifications);
+    listeners.forEach((listener) => listener(notifications));
+  };
+
+  const isUpdatedWith = (notification: NotificationCenterItem, update: Partial<NotificationCenterItem>) =>
+    Object.entries(update).every(([key, value]) => notification[key as keyof NotificationCenterItem] === value);
+
+  const updateNotifications = (
+    isUpdated: (notification: NotificationCenterItem) => boolean,
+    update: Partial<NotificationCenterItem>
+  ) => {
+    if (notifications.some((notification) => isUpdated(notification) && !isUpdatedWith(notification, update))) {
+      setNotifications(
+        notifications.map((notification) => (isUpdated(notification) ? { ...notification, ...update } : notification))
+      );
+    }
+  };
+
+  return {
+    getNotifications: () => notifications,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    add: (notification) => {
+      const newNotification = toNotification(notification);
+      setNotifications([newNotification, ...notifications.filter(({ id }) => id !== newNotification.id)]);
+      return newNotification.id;
+    },
+    remove: (id) => {
+      if (notifications.some((notification) => notification.id === id)) {
+        setNotifications(notifications.filter((notification) => notification.id !== id));
+      }
+    },
+    clear: (category) => {
+      if (notifications.some((notification) => isInCategory(notification, category))) {
+        setNotifications(notifications.filter((notification) => !isInCategory(notification, category)));
+      }
+    },
+    markRead: (id, isRead = true) => updateNotifications((notification) => notification.id === id, { isRead }),
+    markAllRead: (category) =>
+      updateNotifications((notification) => isInCategory(notification, category), { isRead: true }),
+    getUnreadCount: (category) =>
+      notifications.filter((notification) => !notification.isRead && isInCategory(notification, category)).length
+  };
+};
+
+/** Groups notifications by category, keeping the order in which each category first occurs. */
+export const groupNotifications = (notifications: NotificationCenterItem[]): NotificationCenterGroup[] =>
+  notifications.reduce((groups, notification) => {
+    const group = groups.find(({ category }) => category === notification.category);
+    if (group) {
+      group.notifications.push(notification);
+      group.unreadCount += notification.isRead ? 0 : 1;
+      return groups;
+    }
+    return [
+      ...groups,
+      { category: notification.category, notifications: [notification], unreadCount: notification.isRead ? 0 : 1 }
+    ];
+  }, [] as NotificationCenterGroup[]);
+
+/** Returns a storage adapter which saves notifications in localStorage under a key. Notifications which cannot be
+ * loaded, e.g. because localStorage is unavailable or contains invalid JSON, are ignored.
+ */
+export const localStorageNotificationAdapter = (key: string = 'pf-notifications'): NotificationStorageAdapter =>
+  createLocalStorageAdapter(key, (notifications: NotificationCenterItem[]) =>
+    notifications.map((notification) => ({ ...notification, timestamp: new Date(notification.timestamp) }))
+  );
@@ -0,0 +1,383 @@
+import { createContext, useContext, useMemo, useState } from 'react';
+import TrashIcon from '@patternfly/react-icons/dist/esm/icons/trash-icon';
+import { Button } from '../Button';
+import {
+  Form,
+  FormFieldGroup,
+  FormFieldGroupExpandable,
+  FormFieldGroupHeader,
+  FormGroup,
+  FormHelperText,
+  FormContextProvider,
+  FormProps,
+  useFormContext
+} from '../Form';
+import { getPathValue, isDeepEqual } from '../../helpers/objectUtils';
+import { HelperText, HelperTextItem } from '../HelperText';
+import { InputGroup, InputGroupItem } from '../InputGroup';
+import { getUniqueId } from '../../helpers/util';
+import { useIsomorphicLayoutEffect } from '../../helpers/useIsomorphicLayout';
+import {
+  defaultSchemaFormValidationMessages,
+  getSchemaDefaultValue,
+  getSchemaFormPathPattern,
+  getSchemaItemTitle,
+  getSchemaTitle,
+  joinSchemaFormPath,
+  removeSchemaFormItemPaths,
+  SchemaFormSchema,
+  SchemaFormValidationMessages,
+  setSchemaFormValue,
+  validateSchemaValue
+} from './schemaFormUtils';
+import { SchemaFormWidget, schemaFormWidgets } from './SchemaFormWidgets';
+
+export interface SchemaFormProps
+  extends Omit<FormProps, 'onChange' | 'onSubmit' | 'value' | 'defaultValue' | 'children'> {
+  /** JSON Schema of the object edited by the form. */
+  schema: SchemaFormSchema;
+  /** Value of the form, which makes the form controlled. */
+  value?: any;
+  /** Initial value of an uncontrolled form. Defaults to the defaults of the schema. */
+  defaultValue?: any;
+  /** Callback called with the new value of the form when a field changes. */
+  onChange?: (value: any) => void;
+  /** Callback called with the value of the form when it is submitted without errors. */
+  onSubmit?: (value: any) => void;
+  /** Custom widgets by name, which can be chosen with the x-widget keyword of schemas or with fieldWidgets. Widgets
+   * with the name of a built in widget replace it: text, textArea, number, switch, checkbox, formSelect and select.
+   */
+  widgets?: { [name: string]: SchemaFormWidget };
+  /** Names of the widgets of fields by path, overriding the x-widget keyword of their schema. The indices of array
+   * items are written as "*", e.g. "spec.containers.*.image".
+   */
+  fieldWidgets?: { [path: string]: string };
+  /** Messages of the errors found when validating the value against the schema. */
+  validationMessages?: Partial<SchemaFormValidationMessages>;
+  /** Text displayed in fields with an enum while they have no value. */
+  enumPlaceholder?: (title: string) => string;
+  /** Text of the button adding an item to an array, from the title of the items. */
+  addItemText?: (itemTitle: string) => React.ReactNode;
+  /** Accessible label of the button removing an item from an array, from the title of the item. */
+  removeItemAriaLabel?: (itemTitle: string) => string;
+  /** Flag indicating the field groups of nested objects and arrays are initially expanded. */
+  areGroupsExpanded?: boolean;
+  /** Content rendered after the fields of the form, e.g. an ActionGroup with a submit button. */
+  children?: React.ReactNode;
+}
+
+interface SchemaFormContextProps
+  extends Required<
+    Pick<
+      SchemaFormProps,
+      'fieldWidgets' | 'enumPlaceholder' | 'addItemText' | 'removeItemAriaLabel' | 'areGroupsExpanded'
+    >
+  > {
+  formId: string;
+  value: any;
+  widgets: { [name: string]: SchemaFormWidget };
+  getError: (path: string) => string | undefined;
+  setValue: (path: string, value: any) => void;
+  touch: (path: string) => void;
+}
+
+const SchemaFormContext = createContext<SchemaFormContextProps>(null);
+
+const getFieldId = (formId: string, path: string) => `${formId}-${path.replace(/\./g, '-')}`;
+
+const newItemValues: { [type: string]: any } = { object: {}, array: [], string: '', boolean: false };
+
+const getNewItemValue = (schema: SchemaFormSchema) =>
+  getSchemaDefaultValue(schema) ?? newItemValues[schema.type] ?? null;
+
+const defaultWidgets: { [type: string]: string } = { boolean: 'switch', number: 'number', integer: 'number' };
+
+interface SchemaFormFieldProps {
+  schema: SchemaFormSchema;
+  path: string;
+  title: string;
+  isRequired?: boolean;
+  /** Actions rendered next to the control of the field, e.g. the button removing an array item. */
+  actions?: React.ReactNode;
+}
+
+const SchemaFormProperties = ({ schema, path }: { schema: SchemaFormSchema; path: string }) => (
+  <>
+    {Object.entries(schema.properties ?? {}).map(([property, propertySchema]) => (
+      <SchemaFormField
+        key={property}
+        schema={propertySchema}
+        path={joinSchemaFormPath(path, property)}
+        title={getSchemaTitle(propertySchema, property)}
+        isRequired={schema.required?.includes(property)}
+      />
+    ))}
+  </>
+);
+
+const SchemaFormFieldError = ({ path }: { path: string }) => {
+  const { getError } = useContext(SchemaFormContext);
+  const error = getError(path);
+
+  return error ? (
+    <FormHelperText>
+      <HelperText isLiveRegion>
+        <HelperTextItem variant="error">{error}</HelperTextItem>
+      </HelperText>
+    </FormHelperText>
+  ) : null;
+};
+
+const SchemaFormArray = ({ schema, path, title }: SchemaFormFieldProps) => {
+  const { formId, value, setValue, touch, addItemText, removeItemAriaLabel, areGroupsExpanded } =
+    useContext(SchemaFormContext);
+  const { touched, setTouched } = useFormContext();
+  const items: any[] = getPathValue(value, path) ?? [];
+  const itemSchema = schema.items ?? {};
+  const id = getFieldId(formId, path);
+  const isAddDisabled = schema.readOnly || items.length >= (schema.maxItems ?? Infinity);
+  const isRemoveDisabled = schema.readOnly || items.length <= (schema.minItems ?? 0);
+
+  const updateItems = (nextItems: any[]) => {
+    touch(path);
+    setValue(path, nextItems);
+  };
+
+  return (
+    <FormFieldGroupExpandable
+      isExpanded={areGroupsExpanded}
+      header={
+        <FormFieldGroupHeader
+          titleText={{ text: title, id: `${id}-title` }}
+          titleDescription={schema.description}
+          actions={
+            <Button
+              variant="secondary"
+              onClick={() => updateItems([...items, getNewItemValue(itemSchema)])}
+              isDisabled={isAddDisabled}
+            >
+              {addItemText(itemSchema.title ?? title)}
+            </Button>
+          }
+        />
+      }
+    >
+      {items.map((_item, index) => {
+        const itemPath = joinSchemaFormPath(path, index);
+        const itemTitle = getSchemaItemTitle(schema, title, index);
+        const removeButton = (
+          <Button
+            variant="plain"
+            aria-label={removeItemAriaLabel(itemTitle)}
+            icon={<TrashIcon />}
+            onClick={() => {
+              // Items are rendered by index, so the touched states of the following items move with them
+              const nextTouched = removeSchemaFormItemPaths(touched, path, index);
+              Object.keys({ ...touched, ...nextTouched }).forEach((touchedPath) =>
+                setTouched(touchedPath, !!nextTouched[touchedPath])
+              );
+              updateItems(items.filter((_item, itemIndex) => itemIndex !== index));
+            }}
+            isDisabled={isRemoveDisabled}
+          />
+        );
+
+        return itemSchema.type === 'object' ? (
+          <FormFieldGroup
+            key={index}
+            header={
+              <FormFieldGroupHeader
+                titleText={{ text: itemTitle, id: `${getFieldId(formId, itemPath)}-title` }}
+                actions={removeButton}
+              />
+            }
+          >
+            <SchemaFormProperties schema={itemSchema} path={itemPath} />
+          </FormFieldGroup>
+        ) : (
+          <SchemaFormField key={index} schema={itemSchema} path={itemPath} title={itemTitle} actions={removeButton} />
+        );
+      })}
+      <SchemaFormFieldError path={path} />
+    </FormFieldGroupExpandable>
+  );
+};
+
+const SchemaFormField = ({ schema, path, title, isRequired = false, actions }: SchemaFormFieldProps) => {
+  const { formId, value, widgets, fieldWidgets, enumPlaceholder, areGroupsExpanded, getError, setValue, touch } =
+    useContext(SchemaFormContext);
+  const id = getFieldId(formId, path);
+
+  if (schema.type === 'object') {
+    return (
+      <FormFieldGroupExpandable
+        isExpanded={areGroupsExpanded}
+        header={
+          <FormFieldGroupHeader titleText={{ text: title, id: `${id}-title` }} titleDescription={schema.description} />
+        }
+      >
+        <SchemaFormProperties schema={schema} path={path} />
+      </FormFieldGroupExpandable>
+    );
+  }
+  if (schema.type === 'array') {
+    return <SchemaFormArray schema={schema} path={path} title={title} />;
+  }
+
+  const defaultWidget = schema.enum ? 'formSelect' : (defaultWidgets[schema.type] ?? 'text');
+  const Widget =
+    widgets[fieldWidgets[getSchemaFormPathPattern(path)]] ?? widgets[schema['x-widget']] ?? widgets[defaultWidget];
+  const error = getError(path);
+
+  const control = (
+    <Widget
+      id={id}
+      path={path}
+      schema={schema}
+      title={title}
+      value={getPathValue(value, path)}
+      onChange={(fieldValue) => {
+        typeof fieldValue === 'boolean' && touch(path);
+        setValue(path, fieldValue);
+      }}
+      onBlur={() => touch(path)}
+      isRequired={isRequired}
+      isReadOnly={!!schema.readOnly}
+      validated={error ? 'error' : 'default'}
+      {...(schema.enum && { placeholder: enumPlaceholder(title) })}
+    />
+  );
+
+  return (
+    <FormGroup label={title} isRequired={isRequired} fieldId={id}>
+      {actions ? (
+        <InputGroup>
+          <InputGroupItem isFill>{control}</InputGroupItem>
+          <InputGroupItem isPlain>{actions}</InputGroupItem>
+        </InputGroup>
+      ) : (
+        control
+      )}
+      {error ? (
+        <SchemaFormFieldError path={path} />
+      ) : (
+        schema.description && (
+          <FormHelperText>
+            <HelperText>
+              <HelperTextItem>{schema.description}</HelperTextItem>
+            </HelperText>
+          </FormHelperText>
+        )
+      )}
+    </FormGroup>
+  );
+};
+
+const SchemaFormContent = ({
+  schema,
+  value: valueProp,
+  onChange,
+  widgets,
+  fieldWidgets,
+  validationMessages,
+  enumPlaceholder,
+  addItemText,
+  removeItemAriaLabel,
+  areGroupsExpanded,
+  children,
+  formId,
+  ...props
+}: Omit<SchemaFormProps, 'defaultValue' | 'onSubmit'> & { formId: string }) => {
+  const { values, setValues, errors, setErrors, isValid, isTouched, setTouched, handleSubmit } = useFormContext();
+
+  const schemaErrors = useMemo(
+    () => validateSchemaValue(schema, values, { ...defaultSchemaFormValidationMessages, ...validationMessages }),
+    [schema, values, validationMessages]
+  );
+
+  // The errors of the form are those found in its value, and are displayed once their field has been touched
+  useIsomorphicLayoutEffect(() => {
+    setErrors((prevErrors) => (isDeepEqual(prevErrors, schemaErrors) ? prevErrors : schemaErrors));
+  }, [schemaErrors]);
+
+  useIsomorphicLayoutEffect(() => {
+    valueProp !== undefined && setValues((prevValues) => (isDeepEqual(prevValues, valueProp) ? prevValues : valueProp));
+  }, [valueProp]);
+
+  const context: SchemaFormContextProps = {
+    formId,
+    value: values,
+    widgets: { ...schemaFormWidgets, ...widgets },
+    fieldWidgets,
+    enumPlaceholder,
+    addItemText,
+    removeItemAriaLabel,
+    areGroupsExpanded,
+    getError: (path) => (isTouched(path) ? errors[path] : undefined),
+    setValue: (path, fieldValue) => {
+      const nextValue = setSchemaFormValue(values, path, fieldValue);
+      setValues(nextValue);
+      onChange?.(nextValue);
+    },
+    touch: (path) => setTouched(path, true)
+  };
+
+  return (
+    <SchemaFormContext.Provider value={context}>
+      <Form
+        id={formId}
+        noValidate
+        onSubmit={(event) => {
+          event.preventDefault();
+          Object.keys(errors).forEach((path) => setTouched(path, true));
+          isValid && handleSubmit();
+        }}
+        {...props}
+      >
+        <SchemaFormProperties schema={schema} path="" />
+        {children}
+      </Form>
+    </SchemaFormContext.Provider>
+  );
+};
+
+/**
+ * Renders a form editing an object described by a JSON Schema. Nested objects and arrays are rendered as field groups,
+ * and fields are validated against the schema once they have been touched or the form has been submitted. The state of
+ * the form is managed by a FormContextProvider, which its children can access with useFormContext.
+ */
+export const SchemaForm: React.FunctionComponent<SchemaFormProps> = ({
+  schema,
+  value,
+  defaultValue,
+  onSubmit,
+  fieldWidgets = {},
+  enumPlaceholder = (title) => `Select ${title.toLowerCase()}`,
+  addItemText = (itemTitle) => `Add ${itemTitle.toLowerCase()}`,
+  removeItemAriaLabel = (itemTitle) => `Remove ${itemTitle.toLowerCase()}`,
+  areGroupsExpanded = true,
+  id,
+  ...props
+}: SchemaFormProps) => {
+  const [formId] = useState(() => id || getUniqueId('pf-schema-form'));
+
+  return (
+    <FormContextProvider
+      initialValues={value ?? defaultValue ?? getSchemaDefaultValue(schema) ?? {}}
+      onSubmit={onSubmit}
+    >
+      <SchemaFormContent
+        schema={schema}
+        value={value}
+        fieldWidgets={fieldWidgets}
+        enumPlaceholder={enumPlaceholder}
+        addItemText={addItemText}
+        removeItemAriaLabel={removeItemAriaLabel}
+        areGroupsExpanded={areGroupsExpanded}
+        formId={formId}
+        {...props}
+      />
+    </FormContextProvider>
+  );
+};
+SchemaForm.displayName = 'SchemaForm';
@@ -0,0 +1,242 @@
+import { useState } from 'react';
+import { Checkbox } from '../Checkbox';
+import { FormSelect, FormSelectOption } from '../FormSelect';
+import { MenuToggle, MenuToggleElement } from '../MenuToggle';
+import { Select, SelectList, SelectOption } from '../Select';
+import { Switch } from '../Switch';
+import { TextArea } from '../TextArea';
+import { TextInput, TextInputProps } from '../TextInput';
+import { SchemaFormSchema } from './schemaFormUtils';
+
+/** Props passed to the widgets rendering the control of a field of a schema form. */
+export interface SchemaFormWidgetProps {
+  /** ID of the control, which the label of the field refers to. */
+  id: string;
+  /** Path of the field within the value of the form, e.g. "spec.containers.0.image". */
+  path: string;
+  /** Schema of the field. */
+  schema: SchemaFormSchema;
+  /** Title of the field. */
+  title: string;
+  /** Value of the field. */
+  value: any;
+  /** Callback to change the value of the field. Empty strings and undefined remove the field from its object. */
+  onChange: (value: any) => void;
+  /** Callback called when the control loses focus, after which the error of the field is displayed. */
+  onBlur: () => void;
+  /** Flag indicating the field is required. */
+  isRequired: boolean;
+  /** Flag indicating the field cannot be changed. */
+  isReadOnly: boolean;
+  /** Validation state of the field. */
+  validated: 'default' | 'error';
+  /** Text displayed while the field has no value, passed for fields with an enum. */
+  placeholder?: string;
+}
+
+export type SchemaFormWidget = React.ComponentType<SchemaFormWidgetProps>;
+
+// Values of enums are displayed and selected as strings, and converted back to the type of the enum
+const getEnumValue = (schema: SchemaFormSchema, value: string) =>
+  schema.enum?.find((enumValue) => `${enumValue}` === value) ?? value;
+
+const inputTypes: { [format: string]: TextInputProps['type'] } = { password: 'password', email: 'email' };
+
+const SchemaFormTextWidget: SchemaFormWidget = ({
+  id,
+  schema,
+  value,
+  onChange,
+  onBlur,
+  isRequired,
+  isReadOnly,
+  validated
+}: SchemaFormWidgetProps) => (
+  <TextInput
+    id={id}
+    type={inputTypes[schema.format] ?? 'text'}
+    value={value ?? ''}
+    onChange={(_event, inputValue) => onChange(inputValue)}
+    onBlur={onBlur}
+    isRequired={isRequired}
+    readOnlyVariant={isReadOnly ? 'default' : undefined}
+    validated={validated}
+  />
+);
+SchemaFormTextWidget.displayName = 'SchemaFormTextWidget';
+
+const SchemaFormTextAreaWidget: SchemaFormWidget = ({
+  id,
+  value,
+  onChange,
+  onBlur,
+  isRequired,
+  isReadOnly,
+  validated
+}: SchemaFormWidgetProps) => (
+  <TextArea
+    id={id}
+    value={value ?? ''}
+    onChange={(_event, inputValue) => onChange(inputValue)}
+    onBlur={onBlur}
+    isRequired={isRequired}
+    readOnlyVariant={isReadOnly ? 'default' : undefined}
+    validated={validated}
+    resizeOrientation="vertical"
+  />
+);
+SchemaFormTextAreaWidget.displayName = 'SchemaFormTextAreaWidget';
+
+const SchemaFormNumberWidget: SchemaFormWidget = ({
+  id,
+  schema,
+  value,
+  onChange,
+  onBlur,
+  isRequired,
+  isReadOnly,
+  validated
+}: SchemaFormWidgetProps) => (
+  <TextInput
+    id={id}
+    type="number"
+    value={value ?? ''}
+    onChange={(_event, inputValue) => onChange(inputValue === '' ? undefined : Number(inputValue))}
+    onBlur={onBlur}
+    isRequired={isRequired}
+    readOnlyVariant={isReadOnly ? 'default' : undefined}
+    validated={validated}
+    {...(schema.type === 'integer' && { step: 1 })}
+    {...(schema.minimum !== undefined && { min: schema.minimum })}
+    {...(schema.maximum !== undefined && { max: schema.maximum })}
+  />
+);
+SchemaFormNumberWidget.displayName = 'SchemaFormNumberWidget';
+
+const SchemaFormSwitchWidget: SchemaFormWidget = ({
+  id,
+  title,
+  value,
+  onChange,
+  isReadOnly
+}: SchemaFormWidgetProps) => (
+  <Switch
+    id={id}
+    aria-label={title}
+    isChecked={!!value}
+    onChange={(_event, checked) => onChange(checked)}
+    isDisabled={isReadOnly}
+  />
+);
+SchemaFormSwitchWidget.displayName = 'SchemaFormSwitchWidget';
+
+const SchemaFormCheckboxWidget: SchemaFormWidget = ({
+  id,
+  value,
+  onChange,
+  isReadOnly,
+  validated
+}: SchemaFormWidgetProps) => (
+  <Checkbox
+    id={id}
+    isChecked={!!value}
+    onChange={(_event, checked) => onChange(checked)}
+    isDisabled={isReadOnly}
+    isValid={validated !== 'error'}
+  />
+);
+SchemaFormCheckboxWidget.displayName = 'SchemaFormCheckboxWidget';
+
+const SchemaFormFormSelectWidget: SchemaFormWidget = ({
+  id,
+  schema,
+  value,
+  onChange,
+  onBlur,
+  isRequired,
+  isReadOnly,
+  validated,
+  placeholder
+}: SchemaFormWidgetProps) => (
+  <FormSelect
+    id={id}
+    value={value === undefined ? '' : `${value}`}
+    onChange={(_event, selectedValue) =>
+      onChange(selectedValue === '' ? undefined : getEnumValue(schema, selectedValue))
+    }
+    onBlur={onBlur}
+    isRequired={isRequired}
+    isDisabled={isReadOnly}
+    validated={validated}
+  >
+    <FormSelectOption value="" label={placeholder ?? ''} isPlaceholder isDisabled={isRequired} />
+    {(schema.enum ?? []).map((enumValue) => (
+      <FormSelectOption key={`${enumValue}`} value={`${enumValue}`} label={`${enumValue}`} />
+    ))}
+  </FormSelect>
+);
+SchemaFormFormSelectWidget.displayName = 'SchemaFormFormSelectWidget';
+
+const SchemaFormSelectWidget: SchemaFormWidget = ({
+  id,
+  schema,
+  value,
+  onChange,
+  onBlur,
+  isReadOnly,
+  validated,
+  placeholder
+}: SchemaFormWidgetProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Select
+      isOpen={isOpen}
+      selected={value === undefined ? undefined : `${value}`}
+      onSelect={(_event, selectedValue) => {
+        onChange(getEnumValue(schema, `${selectedValue}`));
+        setIsOpen(false);
+      }}
+      onOpenChange={(isOpen) => {
+        setIsOpen(isOpen);
+        !isOpen && onBlur();
+      }}
+      toggle={(toggleRef: React.Ref<MenuToggleElement>) => (
+        <MenuToggle
+          ref={toggleRef}
+          id={id}
+          onClick={() => setIsOpen(!isOpen)}
+          isExpanded={isOpen}
+          isDisabled={isReadOnly}
+          isFullWidth
+          {...(validated === 'error' && { status: 'danger' })}
+        >
+          {value === undefined ? placeholder : `${value}`}
+        </MenuToggle>
+      )}
+      shouldFocusToggleOnSelect
+    >
+      <SelectList>
+        {(schema.enum ?? []).map((enumValue) => (
+          <SelectOption key={`${enumValue}`} value={`${enumValue}`}>
+            {`${enumValue}`}
+          </SelectOption>
+        ))}
+      </SelectList>
+    </Select>
+  );
+};
+SchemaFormSelectWidget.displayName = 'SchemaFormSelectWidget';
+
+/** Widgets of the schema form by name, which can be chosen with the x-widget keyword of schemas or with the fieldWidgets
+ * prop of the schema form.
+ */
+export const schemaFormWidgets: { [name: string]: SchemaFormWidget } = {
+  text: SchemaFormTextWidget,
+  textArea: SchemaFormTextAreaWidget,
+  number: SchemaFormNumberWidget,
+  switch: SchemaFormSwitchWidget,
+  checkbox: SchemaFormCheckboxWidget,
+  formSelect: SchemaFormFormSelectWidget,
+  select: SchemaFormSelectWidget
+};
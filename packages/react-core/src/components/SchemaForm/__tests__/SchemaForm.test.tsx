@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { useFormContext } from '../../Form';
+import { SchemaForm } from '../SchemaForm';
+import { SchemaFormWidgetProps } from '../SchemaFormWidgets';
+import { SchemaFormSchema } from '../schemaFormUtils';
+
+const schema: SchemaFormSchema = {
+  type: 'object',
+  required: ['name'],
+  properties: {
+    name: { type: 'string', description: 'Name of the deployment.' },
+    replicas: { type: 'integer', minimum: 1, default: 1 },
+    strategy: { type: 'string', enum: ['Recreate', 'RollingUpdate'] },
+    isPaused: { type: 'boolean' },
+    metadata: { type: 'object', properties: { namespace: { type: 'string', default: 'default' } } },
+    ports: { type: 'array', maxItems: 2, items: { title: 'Port', type: 'integer' } }
+  }
+};
+
+test('renders fields for the properties of the schema', () => {
+  render(<SchemaForm schema={schema} id="deployment" />);
+
+  expect(screen.getByRole('textbox', { name: 'Name' })).toBeRequired();
+  expect(screen.getByText('Name of the deployment.')).toBeVisible();
+  expect(screen.getByRole('spinbutton', { name: 'Replicas' })).toHaveValue(1);
+  expect(screen.getByRole('combobox', { name: 'Strategy' })).toHaveValue('');
+  expect(screen.getByRole('switch', { name: 'Is paused' })).not.toBeChecked();
+  expect(screen.getByText('Metadata')).toBeVisible();
+  expect(screen.getByRole('textbox', { name: 'Namespace' })).toHaveValue('default');
+  expect(screen.getByRole('button', { name: 'Add port' })).toBeVisible();
+});
+
+test('calls onChange with the value edited in the fields', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+
+  render(<SchemaForm schema={schema} onChange={onChange} />);
+
+  await user.type(screen.getByRole('textbox', { name: 'Name' }), 'a');
+  await user.selectOptions(screen.getByRole('combobox', { name: 'Strategy' }), 'Recreate');
+  await user.click(screen.getByRole('switch', { name: 'Is paused' }));
+  await user.clear(screen.getByRole('textbox', { name: 'Namespace' }));
+
+  expect(onChange).toHaveBeenLastCalledWith({
+    name: 'a',
+    replicas: 1,
+    strategy: 'Recreate',
+    isPaused: true,
+    metadata: {}
+  });
+});
+
+test('adds and removes the items of arrays', async () => {
+  const user = userEvent.setup();
+  const Form = () => {
+    const [value, setValue] = useState({ ports: [80] });
+    return (
+      <>
+        <SchemaForm schema={schema} value={value} onChange={setValue} />
+        <pre>{JSON.stringify(value.ports)}</pre>
+      </>
+    );
+  };
+
+  render(<Form />);
+
+  await user.click(screen.getByRole('button', { name: 'Add port' }));
+  await user.type(screen.getByRole('spinbutton', { name: 'Port 2' }), '443');
+
+  expect(screen.getByText('[80,443]')).toBeVisible();
+  expect(screen.getByRole('button', { name: 'Add port' })).toBeDisabled();
+
+  await user.click(screen.getByRole('button', { name: 'Remove port 1' }));
+
+  expect(screen.getByText('[443]')).toBeVisible();
+});
+
+test('displays the errors of fields once they are touched or the form is submitted', async () => {
+  const user = userEvent.setup();
+  const onSubmit = jest.fn();
+
+  render(
+    <SchemaForm schema={schema} onSubmit={onSubmit}>
+      <button type="submit">Submit</button>
+    </SchemaForm>
+  );
+
+  const replicas = screen.getByRole('spinbutton', { name: 'Replicas' });
+  await user.clear(replicas);
+  await user.type(replicas, '0');
+
+  expect(screen.queryByText('Replicas must be at least 1.')).not.toBeInTheDocument();
+
+  await user.tab();
+
+  expect(screen.getByText('Replicas must be at least 1.')).toBeVisible();
+  expect(replicas).toHaveAttribute('aria-invalid', 'true');
+
+  await user.click(screen.getByRole('button', { name: 'Submit' }));
+
+  expect(screen.getByText('Name is required.')).toBeVisible();
+  expect(onSubmit).not.toHaveBeenCalled();
+
+  await user.type(screen.getByRole('textbox', { name: 'Name' }), 'frontend');
+  await user.type(replicas, '2');
+  await user.click(screen.getByRole('button', { name: 'Submit' }));
+
+  expect(onSubmit).toHaveBeenCalledWith({ name: 'frontend', replicas: 2, metadata: { namespace: 'default' } });
+});
+
+test('moves the touched states of array items following a removed item', async () => {
+  const user = userEvent.setup();
+
+  render(<SchemaForm schema={schema} defaultValue={{ ports: [80, 443, 8080] }} />);
+
+  const port2 = screen.getByRole('spinbutton', { name: 'Port 2' });
+  await user.clear(port2);
+  await user.type(port2, '1.5');
+  await user.tab();
+
+  expect(screen.getByText('Port 2 must be an integer.')).toBeVisible();
+
+  await user.click(screen.getByRole('button', { name: 'Remove port 1' }));
+
+  expect(screen.getByRole('spinbutton', { name: 'Port 1' })).toHaveAttribute('aria-invalid', 'true');
+  expect(screen.getByText('Port 1 must be an integer.')).toBeVisible();
+  expect(screen.getByRole('spinbutton', { name: 'Port 2' })).not.toHaveAttribute('aria-invalid', 'true');
+});
+
+test('provides the state of the form to its children', async () => {
+  const user = userEvent.setup();
+  const ResetButton = () => {
+    const { isDirty, reset } = useFormContext();
+    return (
+      <button type="button" disabled={!isDirty} onClick={() => reset()}>
+        Reset
+      </button>
+    );
+  };
+
+  render(
+    <SchemaForm schema={schema}>
+      <ResetButton />
+    </SchemaForm>
+  );
+
+  expect(screen.getByRole('button', { name: 'Reset' })).toBeDisabled();
+
+  await user.type(screen.getByRole('textbox', { name: 'Name' }), 'frontend');
+  await user.click(screen.getByRole('button', { name: 'Reset' }));
+
+  expect(screen.getByRole('textbox', { name: 'Name' })).toHaveValue('');
+});
+
+test('renders custom widgets chosen by path or by the x-widget keyword', () => {
+  const ColorWidget = ({ id, value }: SchemaFormWidgetProps) => <input id={id} type="color" value={value} readOnly />;
+
+  render(
+    <SchemaForm
+      schema={{
+        type: 'object',
+        properties: {
+          color: { type: 'string', default: '#0066cc', 'x-widget': 'color' },
+          notes: { type: 'string' },
+          strategy: { type: 'string', enum: ['Recreate', 'RollingUpdate'] }
+        }
+      }}
+      widgets={{ color: ColorWidget }}
+      fieldWidgets={{ notes: 'textArea', strategy: 'select' }}
+    />
+  );
+
+  expect(screen.getByLabelText('Color')).toHaveAttribute('type', 'color');
+  expect(screen.getByRole('textbox', { name: 'Notes' }).tagName).toBe('TEXTAREA');
+  expect(screen.getByRole('button', { name: 'Strategy' })).toHaveTextContent('Select strategy');
+});
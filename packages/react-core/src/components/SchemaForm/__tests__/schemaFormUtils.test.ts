@@ -0,0 +1,103 @@
+import {
+  getSchemaDefaultValue,
+  getSchemaFormPathPattern,
+  getSchemaTitle,
+  removeSchemaFormItemPaths,
+  SchemaFormSchema,
+  setSchemaFormValue,
+  validateSchemaValue
+} from '../schemaFormUtils';
+
+const schema: SchemaFormSchema = {
+  type: 'object',
+  required: ['name'],
+  properties: {
+    name: { type: 'string', pattern: '^[a-z-]+$' },
+    replicaCount: { type: 'integer', minimum: 1, default: 1 },
+    strategy: { type: 'string', enum: ['Recreate', 'RollingUpdate'], default: 'RollingUpdate' },
+    containers: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        title: 'Container',
+        type: 'object',
+        required: ['image'],
+        properties: { image: { type: 'string' }, isPrivileged: { type: 'boolean', default: false } }
+      }
+    }
+  }
+};
+
+test('returns the default value of a schema', () => {
+  expect(getSchemaDefaultValue(schema)).toEqual({
+    replicaCount: 1,
+    strategy: 'RollingUpdate',
+    containers: [{ isPrivileged: false }]
+  });
+});
+
+test('returns the title of a schema or its property name split into words', () => {
+  expect(getSchemaTitle({ title: 'Replicas' }, 'replicaCount')).toBe('Replicas');
+  expect(getSchemaTitle({}, 'replicaCount')).toBe('Replica count');
+  expect(getSchemaTitle({}, 'image_pull_policy')).toBe('Image pull policy');
+});
+
+test('validates values against a schema by path', () => {
+  expect(
+    validateSchemaValue(schema, {
+      name: 'Frontend',
+      replicaCount: 0,
+      strategy: 'Canary',
+      containers: [{ image: 'frontend:1.0' }, { isPrivileged: 'yes' }]
+    })
+  ).toEqual({
+    name: 'Name must match the pattern ^[a-z-]+$.',
+    replicaCount: 'Replica count must be at least 1.',
+    strategy: 'Strategy must be one of the listed values.',
+    'containers.1.image': 'Image is required.',
+    'containers.1.isPrivileged': 'Is privileged must be a boolean.'
+  });
+  expect(validateSchemaValue(schema, { containers: [] })).toEqual({
+    name: 'Name is required.',
+    containers: 'Containers must have at least 1 item.'
+  });
+  expect(validateSchemaValue(schema, { name: 'frontend', containers: [{ image: 'frontend:1.0' }] })).toEqual({});
+});
+
+test('does not check patterns which are not valid regular expressions', () => {
+  expect(validateSchemaValue({ type: 'string', pattern: '(?<name' }, 'frontend')).toEqual({});
+});
+
+test('removes empty properties when setting values', () => {
+  const value = { name: 'frontend', containers: [{ image: 'frontend:1.0' }, { image: '' }] };
+
+  expect(setSchemaFormValue(value, 'name', '')).toEqual({ containers: value.containers });
+  expect(setSchemaFormValue(value, 'containers.0.image', undefined)).toEqual({
+    name: 'frontend',
+    containers: [{}, { image: '' }]
+  });
+  expect(setSchemaFormValue(value, 'containers.1.image', 'backend:2.0').containers[1]).toEqual({
+    image: 'backend:2.0'
+  });
+});
+
+test('replaces the indices of array items in paths', () => {
+  expect(getSchemaFormPathPattern('spec.containers.10.ports.0')).toBe('spec.containers.*.ports.*');
+});
+
+test('moves the paths of the items following a removed item', () => {
+  const touched = {
+    name: true,
+    containers: true,
+    'containers.0.image': true,
+    'containers.1.image': true,
+    'containers.2': true
+  };
+
+  expect(removeSchemaFormItemPaths(touched, 'containers', 1)).toEqual({
+    name: true,
+    containers: true,
+    'containers.0.image': true,
+    'containers.1': true
+  });
+});
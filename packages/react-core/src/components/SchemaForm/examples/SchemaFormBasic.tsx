@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import {
+  ActionGroup,
+  Button,
+  CodeBlock,
+  CodeBlockCode,
+  SchemaForm,
+  SchemaFormSchema,
+  SchemaFormWidgetProps,
+  Slider
+} from '@patternfly/react-core';
+
+const schema: SchemaFormSchema = {
+  type: 'object',
+  required: ['name', 'image'],
+  properties: {
+    name: { type: 'string', description: 'Lowercase letters, digits and dashes.', pattern: '^[a-z0-9-]+$' },
+    image: { type: 'string', default: 'registry.example.com/frontend:1.0' },
+    replicaCount: { type: 'integer', default: 1, minimum: 0, maximum: 10, 'x-widget': 'slider' },
+    strategy: { type: 'string', enum: ['RollingUpdate', 'Recreate'], default: 'RollingUpdate' },
+    paused: { type: 'boolean' },
+    resources: {
+      type: 'object',
+      title: 'Resource limits',
+      properties: {
+        cpu: { type: 'string', title: 'CPU' },
+        memory: { type: 'string' }
+      }
+    },
+    ports: {
+      type: 'array',
+      maxItems: 3,
+      items: {
+        type: 'object',
+        title: 'Port',
+        required: ['containerPort'],
+        properties: {
+          containerPort: { type: 'integer', minimum: 1, maximum: 65535 },
+          protocol: { type: 'string', enum: ['TCP', 'UDP'] }
+        }
+      }
+    },
+    notes: { type: 'string' }
+  }
+};
+
+// Custom widget setting integers within the minimum and maximum of their schema
+const SliderWidget = ({ schema, title, value, onChange, onBlur, isReadOnly }: SchemaFormWidgetProps) => (
+  <Slider
+    thumbAriaLabel={title}
+    value={value ?? schema.minimum ?? 0}
+    min={schema.minimum}
+    max={schema.maximum}
+    onChange={(_event, sliderValue) => onChange(Math.round(sliderValue))}
+    onBlur={onBlur}
+    isDisabled={isReadOnly}
+    showTicks
+  />
+);
+
+export const SchemaFormBasic: React.FunctionComponent = () => {
+  const [submittedValue, setSubmittedValue] = useState<any>();
+
+  return (
+    <>
+      <SchemaForm
+        schema={schema}
+        onSubmit={setSubmittedValue}
+        widgets={{ slider: SliderWidget }}
+        fieldWidgets={{ notes: 'textArea' }}
+      >
+        <ActionGroup>
+          <Button type="submit">Create</Button>
+        </ActionGroup>
+      </SchemaForm>
+      {submittedValue && (
+        <CodeBlock>
+          <CodeBlockCode>{JSON.stringify(submittedValue, null, 2)}</CodeBlockCode>
+        </CodeBlock>
+      )}
+    </>
+  );
+};
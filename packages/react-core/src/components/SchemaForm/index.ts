@@ -0,0 +1,3 @@
+export * from './SchemaForm';
+export * from './SchemaFormWidgets';
+export * from './schemaFormUtils';
@@ -0,0 +1,274 @@
+import { getPathValue, isPathWithin, setPathValue } from '../../helpers/objectUtils';
+
+export type SchemaFormSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+
+/** Subset of JSON Schema supported by the schema form. */
+export interface SchemaFormSchema {
+  /** Type of the value. */
+  type?: SchemaFormSchemaType;
+  /** Label of the field. Defaults to the property name, e.g. "Replica count" for "replicaCount". */
+  title?: string;
+  /** Helper text of the field. */
+  description?: string;
+  /** Value of the field in new values. */
+  default?: any;
+  /** Values allowed, which are selected from a FormSelect by default. */
+  enum?: (string | number | boolean)[];
+  /** Schemas of the properties of an object. */
+  properties?: { [property: string]: SchemaFormSchema };
+  /** Properties of an object which must have a value. */
+  required?: string[];
+  /** Schema of the items of an array. */
+  items?: SchemaFormSchema;
+  /** Minimum number of items of an array. */
+  minItems?: number;
+  /** Maximum number of items of an array. */
+  maxItems?: number;
+  /** Minimum length of a string. */
+  minLength?: number;
+  /** Maximum length of a string. */
+  maxLength?: number;
+  /** Regular expression a string must match. */
+  pattern?: string;
+  /** Format of a string. The email and uri formats are validated, and the password format is typed in a password
+   * input.
+   */
+  format?: string;
+  /** Minimum value of a number. */
+  minimum?: number;
+  /** Maximum value of a number. */
+  maximum?: number;
+  /** Flag indicating the field cannot be changed. */
+  readOnly?: boolean;
+  /** Name of the widget of the field, among the built in widgets and the widgets passed to the schema form. */
+  'x-widget'?: string;
+}
+
+/** Messages of the errors found when validating values against a schema. */
+export interface SchemaFormValidationMessages {
+  required: (title: string) => string;
+  type: (title: string, type: SchemaFormSchemaType) => string;
+  enum: (title: string) => string;
+  minLength: (title: string, minLength: number) => string;
+  maxLength: (title: string, maxLength: number) => string;
+  pattern: (title: string, pattern: string) => string;
+  format: (title: string, format: string) => string;
+  minimum: (title: string, minimum: number) => string;
+  maximum: (title: string, maximum: number) => string;
+  minItems: (title: string, minItems: number) => string;
+  maxItems: (title: string, maxItems: number) => string;
+}
+
+export const defaultSchemaFormValidationMessages: SchemaFormValidationMessages = {
+  required: (title) => `${title} is required.`,
+  type: (title, type) => `${title} must be ${['array', 'integer', 'object'].includes(type) ? 'an' : 'a'} ${type}.`,
+  enum: (title) => `${title} must be one of the listed values.`,
+  minLength: (title, minLength) => `${title} must have at least ${minLength} characters.`,
+  maxLength: (title, maxLength) => `${title} must have at most ${maxLength} characters.`,
+  pattern: (title, pattern) => `${title} must match the pattern ${pattern}.`,
+  format: (title, format) => `${title} must be a valid ${format}.`,
+  minimum: (title, minimum) => `${title} must be at least ${minimum}.`,
+  maximum: (title, maximum) => `${title} must be at most ${maximum}.`,
+  minItems: (title, minItems) => `${title} must have at least ${minItems} ${minItems === 1 ? 'item' : 'items'}.`,
+  maxItems: (title, maxItems) => `${title} must have at most ${maxItems} ${maxItems === 1 ? 'item' : 'items'}.`
+};
+
+const formatPatterns: { [format: string]: RegExp } = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-z][a-z\d+.-]*:\S+$/i
+};
+
+/** Returns the path of a property or an item within the path of its parent, e.g. "spec.containers.0". */
+export const joinSchemaFormPath = (path: string, key: string | number) => (path ? `${path}.${key}` : `${key}`);
+
+/** Returns the title of a schema, or the property name split into words, e.g. "Replica count" for "replicaCount". */
+export const getSchemaTitle = (schema: SchemaFormSchema, property: string = '') => {
+  if (schema.title) {
+    return schema.title;
+  }
+  const words = property
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .trim()
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/** Returns the title of an item of an array, e.g. "Container 2", from the title of its schema or of the array. */
+export const getSchemaItemTitle = (schema: SchemaFormSchema, arrayTitle: string, index: number) =>
+  `${schema.items?.title ?? arrayTitle} ${index + 1}`;
+
+const isEmpty = (value: any) => value === undefined || value === null || value === '';
+
+const hasType = (value: any, type: SchemaFormSchemaType) => {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    default:
+      return typeof value === type;
+  }
+};
+
+// Patterns which are not valid regular expressions, e.g. with syntax specific to another engine, are not checked rather
+// than throwing while the form renders
+const matchesPattern = (value: string, pattern: string) => {
+  try {
+    return new RegExp(pattern).test(value);
+  } catch {
+    return true;
+  }
+};
+
+/**
+ * Returns the value of a new field of a schema, from the defaults of the schema and the schemas of its properties.
+ * Arrays without a minimum number of items are left out.
+ */
+export const getSchemaDefaultValue = (schema: SchemaFormSchema): any => {
+  if (schema.default !== undefined) {
+    return schema.default;
+  }
+  if (schema.type === 'object') {
+    return Object.entries(schema.properties ?? {}).reduce((value, [property, propertySchema]) => {
+      const propertyValue = getSchemaDefaultValue(propertySchema);
+      return propertyValue === undefined ? value : { ...value, [property]: propertyValue };
+    }, {});
+  }
+  if (schema.type === 'array' && schema.minItems) {
+    return Array.from({ length: schema.minItems }, () => getSchemaDefaultValue(schema.items ?? {}));
+  }
+  return undefined;
+};
+
+/**
+ * Validates a value against a schema, and returns the errors found by the path of the field they were found in, e.g.
+ * "spec.containers.0.image".
+ */
+export const validateSchemaValue = (
+  schema: SchemaFormSchema,
+  value: any,
+  messages: SchemaFormValidationMessages = defaultSchemaFormValidationMessages,
+  path: string = '',
+  title: string = getSchemaTitle(schema, path.split('.').pop())
+): { [path: string]: string } => {
+  if (isEmpty(value)) {
+    return {};
+  }
+  const error = (message: string) => ({ [path]: message });
+
+  if (schema.type && !hasType(value, schema.type)) {
+    return error(messages.type(title, schema.type));
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return error(messages.enum(title));
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return error(messages.minLength(title, schema.minLength));
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return error(messages.maxLength(title, schema.maxLength));
+    }
+    if (schema.pattern && !matchesPattern(value, schema.pattern)) {
+      return error(messages.pattern(title, schema.pattern));
+    }
+    if (formatPatterns[schema.format] && !formatPatterns[schema.format].test(value)) {
+      return error(messages.format(title, schema.format));
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return error(messages.minimum(title, schema.minimum));
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return error(messages.maximum(title, schema.maximum));
+    }
+  }
+
+  if (Array.isArray(value)) {
+    const itemErrors = value.reduce(
+      (errors, item, index) => ({
+        ...errors,
+        ...validateSchemaValue(
+          schema.items ?? {},
+          item,
+          messages,
+          joinSchemaFormPath(path, index),
+          getSchemaItemTitle(schema, title, index)
+        )
+      }),
+      {}
+    );
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      return { ...itemErrors, ...error(messages.minItems(title, schema.minItems)) };
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      return { ...itemErrors, ...error(messages.maxItems(title, schema.maxItems)) };
+    }
+    return itemErrors;
+  }
+
+  if (schema.type === 'object') {
+    return Object.entries(schema.properties ?? {}).reduce((errors, [property, propertySchema]) => {
+      const propertyPath = joinSchemaFormPath(path, property);
+      const propertyTitle = getSchemaTitle(propertySchema, property);
+      if (schema.required?.includes(property) && isEmpty(value[property])) {
+        return { ...errors, [propertyPath]: messages.required(propertyTitle) };
+      }
+      return {
+        ...errors,
+        ...validateSchemaValue(propertySchema, value[property], messages, propertyPath, propertyTitle)
+      };
+    }, {});
+  }
+
+  return {};
+};
+
+/**
+ * Returns a copy of the value with the field at the given path replaced. Empty properties are removed from objects
+ * rather than kept as empty strings or undefined.
+ */
+export const setSchemaFormValue = (value: any, path: string, fieldValue: any): any => {
+  const keys = path.split('.');
+  const parentPath = keys.slice(0, -1).join('.');
+  const parent = parentPath ? getPathValue(value, parentPath) : value;
+
+  if (!isEmpty(fieldValue) || Array.isArray(parent)) {
+    return setPathValue(value ?? {}, path, fieldValue);
+  }
+  if (!parent) {
+    return value;
+  }
+  const nextParent = { ...parent };
+  delete nextParent[keys[keys.length - 1]];
+  return parentPath ? setPathValue(value, parentPath, nextParent) : nextParent;
+};
+
+/** Returns the path with the indices of array items replaced by "*", e.g. "spec.containers.*.image". */
+export const getSchemaFormPathPattern = (path: string) => path.replace(/(^|\.)\d+(?=\.|$)/g, '$1*');
+
+/**
+ * Returns a copy of a record keyed by paths, e.g. of touched fields, once the item at the given index has been removed
+ * from the array at the given path. The paths within the removed item are left out, and the paths within the following
+ * items are moved to the index of the item before them.
+ */
+export const removeSchemaFormItemPaths = <V>(record: { [path: string]: V }, arrayPath: string, index: number) =>
+  Object.entries(record).reduce((nextRecord: { [path: string]: V }, [path, value]) => {
+    if (path === arrayPath || !isPathWithin(path, arrayPath)) {
+      return { ...nextRecord, [path]: value };
+    }
+    const [itemIndex, ...rest] = path.slice(arrayPath.length + 1).split('.');
+    if (Number(itemIndex) === index) {
+      return nextRecord;
+    }
+    const nextIndex = Number(itemIndex) > index ? Number(itemIndex) - 1 : Number(itemIndex);
+    return { ...nextRecord, [[arrayPath, nextIndex, ...rest].join('.')]: value };
+  }, {});
@@ -86,6 +86,8 @@ export interface SelectProps extends MenuProps, OUIAProps {
   shouldPreventScrollOnItemFocus?: boolean;
   /** Time in ms to wait before firing the toggles' focus event. Defaults to 0 */
   focusTimeoutDelay?: number;
+  /** Callback when a scrollable select menu has been scrolled to its end, e.g. to load more options. */
+  onScrollEnd?: (event: React.UIEvent<HTMLElement>) => void;
 }
 
 const SelectBase: React.FunctionComponent<SelectProps & OUIAProps> = ({
@@ -111,6 +113,7 @@ const SelectBase: React.FunctionComponent<SelectProps & OUIAProps> = ({
   isScrollable,
   shouldPreventScrollOnItemFocus = true,
   focusTimeoutDelay = 0,
+  onScrollEnd,
   ...props
 }: SelectProps & OUIAProps) => {
   const localMenuRef = useRef<HTMLDivElement>(undefined);
@@ -207,7 +210,7 @@ const SelectBase: React.FunctionComponent<SelectProps & OUIAProps> = ({
       )}
       {...props}
     >
-      <MenuContent menuHeight={menuHeight} maxMenuHeight={maxMenuHeight}>
+      <MenuContent menuHeight={menuHeight} maxMenuHeight={maxMenuHeight} onScrollEnd={onScrollEnd}>
         {children}
       </MenuContent>
     </Menu>
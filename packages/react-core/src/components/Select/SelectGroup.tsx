@@ -1,5 +1,6 @@
 import { css } from '@patternfly/react-styles';
 import { MenuGroupProps, MenuGroup } from '../Menu';
+import { MenuListRowComponent } from '../Menu/menuListRows';
 
 /**
  * See the MenuGroup section of the Menu documentation for additional props that may be passed.
@@ -13,7 +14,7 @@ export interface SelectGroupProps extends Omit<MenuGroupProps, 'ref'> {
   label?: string;
 }
 
-export const SelectGroup: React.FunctionComponent<SelectGroupProps> = ({
+export const SelectGroup: React.FunctionComponent<SelectGroupProps> & MenuListRowComponent = ({
   children,
   className,
   label,
@@ -24,3 +25,4 @@ export const SelectGroup: React.FunctionComponent<SelectGroupProps> = ({
   </MenuGroup>
 );
 SelectGroup.displayName = 'SelectGroup';
+SelectGroup.menuListRowKind = 'group';
@@ -1,5 +1,6 @@
 import { css } from '@patternfly/react-styles';
 import { MenuListProps, MenuList } from '../Menu';
+import { MenuListRowComponent } from '../Menu/menuListRows';
 
 export interface SelectListProps extends MenuListProps {
   /** Anything which can be rendered in a select list */
@@ -10,7 +11,7 @@ export interface SelectListProps extends MenuListProps {
   isAriaMultiselectable?: boolean;
 }
 
-export const SelectList: React.FunctionComponent<MenuListProps> = ({
+export const SelectList: React.FunctionComponent<MenuListProps> & MenuListRowComponent = ({
   children,
   className,
   isAriaMultiselectable = false,
@@ -21,3 +22,4 @@ export const SelectList: React.FunctionComponent<MenuListProps> = ({
   </MenuList>
 );
 SelectList.displayName = 'SelectList';
+SelectList.menuListRowKind = 'list';
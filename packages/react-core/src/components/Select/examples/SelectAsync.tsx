@@ -0,0 +1,196 @@
+import { useRef, useState } from 'react';
+import {
+  Select,
+  SelectOption,
+  SelectList,
+  MenuToggle,
+  MenuToggleElement,
+  TextInputGroup,
+  TextInputGroupMain,
+  TextInputGroupUtilities,
+  Button,
+  Spinner,
+  useAsyncOptions,
+  LoadAsyncOptions
+} from '@patternfly/react-core';
+import TimesIcon from '@patternfly/react-icons/dist/esm/icons/times-icon';
+
+const allCountries = [
+  'Argentina',
+  'Australia',
+  'Austria',
+  'Belgium',
+  'Brazil',
+  'Canada',
+  'Chile',
+  'China',
+  'Colombia',
+  'Czechia',
+  'Denmark',
+  'Egypt',
+  'Finland',
+  'France',
+  'Germany',
+  'Greece',
+  'Hungary',
+  'India',
+  'Indonesia',
+  'Ireland',
+  'Italy',
+  'Japan',
+  'Kenya',
+  'Mexico',
+  'Netherlands',
+  'New Zealand',
+  'Nigeria',
+  'Norway',
+  'Peru',
+  'Poland',
+  'Portugal',
+  'Spain',
+  'Sweden',
+  'Switzerland',
+  'Turkey',
+  'United Kingdom',
+  'United States'
+];
+
+const PAGE_SIZE = 10;
+const LOAD_MORE = 'load more';
+const RETRY = 'retry';
+
+// Simulates an API with server side filtering and pagination, which fails the first time a second page is requested
+let hasFailed = false;
+const loadCountries: LoadAsyncOptions<string> = (filter, cursor, signal) =>
+  new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      const start = (cursor as number) ?? 0;
+      if (start > 0 && !hasFailed) {
+        hasFailed = true;
+        reject(new Error('Network error'));
+        return;
+      }
+      const matches = allCountries.filter((country) => country.toLowerCase().includes(filter.toLowerCase()));
+      resolve({
+        options: matches.slice(start, start + PAGE_SIZE),
+        nextCursor: start + PAGE_SIZE < matches.length ? start + PAGE_SIZE : null
+      });
+    }, 1000);
+    signal.addEventListener('abort', () => clearTimeout(timeout));
+  });
+
+export const SelectAsync: React.FunctionComponent = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selected, setSelected] = useState<string>('');
+  const [inputValue, setInputValue] = useState<string>('');
+  const [filterValue, setFilterValue] = useState<string>('');
+  const textInputRef = useRef<HTMLInputElement>(undefined);
+
+  const { options, isLoading, error, hasMore, loadMore, retry } = useAsyncOptions({
+    loadOptions: loadCountries,
+    filter: filterValue,
+    isDisabled: !isOpen
+  });
+
+  const onSelect = (_event: React.MouseEvent<Element, MouseEvent> | undefined, value: string | number | undefined) => {
+    if (value === LOAD_MORE) {
+      loadMore();
+    } else if (value === RETRY) {
+      retry();
+    } else if (value !== undefined) {
+      setSelected(String(value));
+      setInputValue(String(value));
+      setFilterValue('');
+      setIsOpen(false);
+    }
+  };
+
+  const onTextInputChange = (_event: React.FormEvent<HTMLInputElement>, value: string) => {
+    setInputValue(value);
+    setFilterValue(value);
+    setIsOpen(true);
+    if (value !== selected) {
+      setSelected('');
+    }
+  };
+
+  const onClearButtonClick = () => {
+    setSelected('');
+    setInputValue('');
+    setFilterValue('');
+    textInputRef?.current?.focus();
+  };
+
+  const toggle = (toggleRef: React.Ref<MenuToggleElement>) => (
+    <MenuToggle
+      ref={toggleRef}
+      variant="typeahead"
+      aria-label="Async typeahead menu toggle"
+      onClick={() => {
+        setIsOpen(!isOpen);
+        textInputRef?.current?.focus();
+      }}
+      isExpanded={isOpen}
+      isFullWidth
+    >
+      <TextInputGroup isPlain>
+        <TextInputGroupMain
+          value={inputValue}
+          onClick={() => setIsOpen(!isOpen)}
+          onChange={onTextInputChange}
+          id="async-typeahead-select-input"
+          autoComplete="off"
+          innerRef={textInputRef}
+          placeholder="Select a country"
+          role="combobox"
+          isExpanded={isOpen}
+          aria-controls="select-async-typeahead-listbox"
+        />
+
+        <TextInputGroupUtilities {...(!inputValue ? { style: { display: 'none' } } : {})}>
+          <Button variant="plain" onClick={onClearButtonClick} aria-label="Clear input value" icon={<TimesIcon />} />
+        </TextInputGroupUtilities>
+      </TextInputGroup>
+    </MenuToggle>
+  );
+
+  return (
+    <Select
+      id="async-typeahead-select"
+      isOpen={isOpen}
+      selected={selected}
+      onSelect={onSelect}
+      onOpenChange={(isOpen) => setIsOpen(isOpen)}
+      toggle={toggle}
+      variant="typeahead"
+      maxMenuHeight="250px"
+      onScrollEnd={loadMore}
+    >
+      <SelectList id="select-async-typeahead-listbox" aria-busy={isLoading}>
+        {options.map((option) => (
+          <SelectOption key={option} value={option}>
+            {option}
+          </SelectOption>
+        ))}
+        {!isLoading && !error && !hasMore && options.length === 0 && (
+          <SelectOption isAriaDisabled>No results found for "{filterValue}"</SelectOption>
+        )}
+        {isLoading && (
+          <SelectOption isLoading>
+            <Spinner size="lg" aria-label="Loading countries" />
+          </SelectOption>
+        )}
+        {error && (
+          <SelectOption isLoadButton value={RETRY}>
+            Failed to load countries. Retry
+          </SelectOption>
+        )}
+        {!isLoading && !error && hasMore && (
+          <SelectOption isLoadButton value={LOAD_MORE}>
+            View more
+          </SelectOption>
+        )}
+      </SelectList>
+    </Select>
+  );
+};
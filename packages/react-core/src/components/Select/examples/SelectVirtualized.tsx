@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import { Select, SelectOption, SelectList, MenuToggle, MenuToggleElement } from '@patternfly/react-core';
+
+const namespaces = Array.from({ length: 20000 }, (_, index) => `namespace-${index + 1}`);
+
+export const SelectVirtualized: React.FunctionComponent = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selected, setSelected] = useState<string>('Select a namespace');
+
+  const onSelect = (_event: React.MouseEvent<Element, MouseEvent> | undefined, value: string | number | undefined) => {
+    // eslint-disable-next-line no-console
+    console.log('selected', value);
+
+    setSelected(value as string);
+    setIsOpen(false);
+  };
+
+  const toggle = (toggleRef: React.Ref<MenuToggleElement>) => (
+    <MenuToggle
+      ref={toggleRef}
+      onClick={() => setIsOpen(!isOpen)}
+      isExpanded={isOpen}
+      style={
+        {
+          width: '250px'
+        } as React.CSSProperties
+      }
+    >
+      {selected}
+    </MenuToggle>
+  );
+
+  return (
+    <Select
+      id="virtualized-select"
+      isOpen={isOpen}
+      selected={selected}
+      onSelect={onSelect}
+      onOpenChange={(isOpen) => setIsOpen(isOpen)}
+      toggle={toggle}
+      shouldFocusToggleOnSelect
+      maxMenuHeight="300px"
+    >
+      <SelectList isVirtualized aria-label="Namespaces">
+        {namespaces.map((namespace) => (
+          <SelectOption key={namespace} value={namespace}>
+            {namespace}
+          </SelectOption>
+        ))}
+      </SelectList>
+    </Select>
+  );
+};
@@ -0,0 +1,66 @@
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Tabs } from '../Tabs';
+import { Tab } from '../Tab';
+import { TabTitleText } from '../TabTitleText';
+import { TabsUrlStateOptions, useTabsUrlState } from '../useTabsUrlState';
+import { createMemoryHistoryAdapter } from '../../../helpers/useUrlState';
+
+jest.mock('../../../helpers/GenerateId/GenerateId');
+
+const UrlStateTabs = (options: TabsUrlStateOptions) => (
+  <Tabs {...useTabsUrlState(options)} aria-label="URL state tabs">
+    <Tab eventKey={0} title={<TabTitleText>Users</TabTitleText>}>
+      Users section
+    </Tab>
+    <Tab eventKey={1} title={<TabTitleText>Containers</TabTitleText>}>
+      Containers section
+    </Tab>
+    <Tab eventKey={2} title={<TabTitleText>Database</TabTitleText>}>
+      Database section
+    </Tab>
+  </Tabs>
+);
+
+test('Activates the tab in the URL', () => {
+  const history = createMemoryHistoryAdapter('/?tab=1');
+  render(<UrlStateTabs history={history} eventKeys={[0, 1, 2]} />);
+
+  expect(screen.getByRole('tab', { name: 'Containers' })).toHaveAttribute('aria-selected', 'true');
+});
+
+test('Activates the tab with the numeric key in the URL without eventKeys', () => {
+  const history = createMemoryHistoryAdapter('/?tab=1');
+  render(<UrlStateTabs history={history} />);
+
+  expect(screen.getByRole('tab', { name: 'Containers' })).toHaveAttribute('aria-selected', 'true');
+});
+
+test('Activates the default tab when the URL has the key of no tab', () => {
+  const history = createMemoryHistoryAdapter('/?tab=7');
+  render(<UrlStateTabs history={history} eventKeys={[0, 1, 2]} defaultActiveKey={2} />);
+
+  expect(screen.getByRole('tab', { name: 'Database' })).toHaveAttribute('aria-selected', 'true');
+});
+
+test('Keeps the selected tab in the URL and returns to the previous tab when navigating back', async () => {
+  const user = userEvent.setup();
+  const history = createMemoryHistoryAdapter('/');
+  render(<UrlStateTabs history={history} eventKeys={[0, 1, 2]} />);
+
+  await user.click(screen.getByRole('tab', { name: 'Database' }));
+  expect(history.getLocation().search).toBe('?tab=2');
+  expect(screen.getByRole('tab', { name: 'Database' })).toHaveAttribute('aria-selected', 'true');
+
+  act(() => history.back());
+  expect(screen.getByRole('tab', { name: 'Users' })).toHaveAttribute('aria-selected', 'true');
+});
+
+test('Keeps the selected tab in the hash of the URL', async () => {
+  const user = userEvent.setup();
+  const history = createMemoryHistoryAdapter('/');
+  render(<UrlStateTabs history={history} urlPart="hash" />);
+
+  await user.click(screen.getByRole('tab', { name: 'Containers' }));
+  expect(history.getLocation().hash).toBe('#1');
+});
@@ -0,0 +1,19 @@
+import { Tabs, Tab, TabTitleText, useTabsUrlState } from '@patternfly/react-core';
+
+export const TabsUrlState: React.FunctionComponent = () => {
+  const tabsUrlState = useTabsUrlState({ param: 'tabs-url-state', eventKeys: [0, 1, 2] });
+
+  return (
+    <Tabs {...tabsUrlState} aria-label="Tabs in the URL state example" role="region">
+      <Tab eventKey={0} title={<TabTitleText>Users</TabTitleText>}>
+        Users
+      </Tab>
+      <Tab eventKey={1} title={<TabTitleText>Containers</TabTitleText>}>
+        Containers
+      </Tab>
+      <Tab eventKey={2} title={<TabTitleText>Database</TabTitleText>}>
+        Database
+      </Tab>
+    </Tabs>
+  );
+};
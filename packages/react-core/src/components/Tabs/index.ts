@@ -6,3 +6,4 @@ export * from './TabContentBody';
 export * from './TabsContext';
 export * from './TabTitleText';
 export * from './TabTitleIcon';
+export * from './useTabsUrlState';
@@ -0,0 +1,34 @@
+import { useUrlState, UrlStateOptions } from '../../helpers/useUrlState';
+import type { TabsProps } from './Tabs';
+
+export interface TabsUrlStateOptions extends UrlStateOptions {
+  /** Key of the tab active while the URL has none, or has the key of no tab. */
+  defaultActiveKey?: number | string;
+  /** Keys of the tabs. Passing them ignores the keys of missing tabs in the URL. Without them, keys of the URL which
+   * are numbers are restored as numbers, so that they match numeric event keys.
+   */
+  eventKeys?: (number | string)[];
+}
+
+// "1" is restored as 1, while keys such as "01" are kept as strings since they differ from the key of any number
+const parseEventKey = (value: string | undefined) => (value && `${Number(value)}` === value ? Number(value) : value);
+
+/**
+ * Keeps the active tab of Tabs in a query parameter, the hash or the path of the URL, so that tabs can be deep linked
+ * and the back button of the browser returns to the previously selected tab. The query parameter defaults to "tab".
+ * Returns the activeKey and onSelect props of Tabs.
+ */
+export const useTabsUrlState = ({
+  defaultActiveKey = 0,
+  eventKeys,
+  param = 'tab',
+  ...urlStateOptions
+}: TabsUrlStateOptions = {}): Required<Pick<TabsProps, 'activeKey' | 'onSelect'>> => {
+  const [value, setValue] = useUrlState({ param, ...urlStateOptions });
+  const urlKey = eventKeys ? eventKeys.find((eventKey) => `${eventKey}` === value) : parseEventKey(value);
+
+  return {
+    activeKey: urlKey ?? defaultActiveKey,
+    onSelect: (_event, eventKey) => setValue(`${eventKey}`)
+  };
+};
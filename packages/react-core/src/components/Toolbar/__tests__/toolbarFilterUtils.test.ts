@@ -0,0 +1,119 @@
+import {
+  deleteToolbarFilterLabel,
+  getToolbarFilterLabels,
+  getToolbarFilterPredicate,
+  parseToolbarFilters,
+  serializeToolbarFilters,
+  ToolbarFilterCategory
+} from '../toolbarFilterUtils';
+
+interface Job {
+  name: string;
+  status: string;
+  labels: string[];
+  created: string;
+  duration: number;
+}
+
+const categories: ToolbarFilterCategory<Job>[] = [
+  { key: 'name', name: 'Name', type: 'text' },
+  {
+    key: 'status',
+    name: 'Status',
+    type: 'multiselect',
+    options: [
+      { value: 'running', label: 'Running' },
+      { value: 'failed', label: 'Failed' },
+      { value: 'done', label: 'Done' }
+    ]
+  },
+  { key: 'label', name: 'Label', type: 'select', getItemValue: (job) => job.labels },
+  { key: 'created', name: 'Created', type: 'dateRange' },
+  { key: 'duration', name: 'Duration', type: 'numberRange' }
+];
+
+const jobs: Job[] = [
+  { name: 'Build API', status: 'running', labels: ['api'], created: '2024-03-01', duration: 12 },
+  { name: 'Deploy web', status: 'failed', labels: ['web', 'prod'], created: '2024-03-15', duration: 40 },
+  { name: 'Build web', status: 'done', labels: ['web'], created: '2024-04-02', duration: 25 }
+];
+
+const getCategory = (key: string) => categories.find((category) => category.key === key);
+
+test('Generates a label per selected option of a multiselect category, and a single label otherwise', () => {
+  expect(getToolbarFilterLabels(getCategory('status'), ['running', 'failed'])).toEqual([
+    { key: 'running', node: 'Running' },
+    { key: 'failed', node: 'Failed' }
+  ]);
+  expect(getToolbarFilterLabels(getCategory('name'), 'build')).toEqual([{ key: 'name', node: 'build' }]);
+  expect(getToolbarFilterLabels(getCategory('created'), { start: '2024-03-01' })).toEqual([
+    { key: 'created', node: '≥ 2024-03-01' }
+  ]);
+  expect(getToolbarFilterLabels(getCategory('duration'), { min: 10, max: 30 })).toEqual([
+    { key: 'duration', node: '10 – 30' }
+  ]);
+  expect(getToolbarFilterLabels(getCategory('duration'), {})).toEqual([]);
+});
+
+test('Formats labels with the formatLabel callback of the category', () => {
+  const category: ToolbarFilterCategory = {
+    key: 'duration',
+    name: 'Duration',
+    type: 'numberRange',
+    formatLabel: ({ min, max }) => `${min}s to ${max}s`
+  };
+
+  expect(getToolbarFilterLabels(category, { min: 10, max: 30 })).toEqual([{ key: 'duration', node: '10s to 30s' }]);
+});
+
+test('Deletes a label from the values', () => {
+  const values = { name: 'build', status: ['running', 'failed'] };
+
+  expect(deleteToolbarFilterLabel(values, getCategory('status'), 'running')).toEqual({
+    name: 'build',
+    status: ['failed']
+  });
+  expect(deleteToolbarFilterLabel({ status: ['failed'] }, getCategory('status'), 'failed')).toEqual({});
+  expect(deleteToolbarFilterLabel(values, getCategory('name'), 'name')).toEqual({ status: ['running', 'failed'] });
+});
+
+test('Serializes the values to a URL query string, keeping the other query parameters', () => {
+  const values = {
+    name: 'build web',
+    status: ['running', 'failed'],
+    created: { end: '2024-03-31' },
+    duration: { min: 10, max: 30 }
+  };
+  const search = serializeToolbarFilters(categories, values, '?page=2&status=done');
+
+  expect(search).toBe('?page=2&name=build+web&status=running&status=failed&created=..2024-03-31&duration=10..30');
+  expect(parseToolbarFilters(categories, search)).toEqual(values);
+});
+
+test('Ignores query parameters which are not options or not prefixed', () => {
+  expect(parseToolbarFilters(categories, '?status=running&status=unknown&duration=abc..5&name=')).toEqual({
+    status: ['running'],
+    duration: { min: undefined, max: 5 }
+  });
+  expect(parseToolbarFilters(categories, '?name=api&jobs-name=web', 'jobs-')).toEqual({ name: 'web' });
+});
+
+test('Filters items matching all the values', () => {
+  const filterJobs = (values: any) => jobs.filter(getToolbarFilterPredicate(categories, values)).map((job) => job.name);
+
+  expect(filterJobs({})).toEqual(['Build API', 'Deploy web', 'Build web']);
+  expect(filterJobs({ name: 'BUILD' })).toEqual(['Build API', 'Build web']);
+  expect(filterJobs({ status: ['running', 'failed'] })).toEqual(['Build API', 'Deploy web']);
+  expect(filterJobs({ label: 'web' })).toEqual(['Deploy web', 'Build web']);
+  expect(filterJobs({ created: { start: '2024-03-01', end: '2024-03-15' } })).toEqual(['Build API', 'Deploy web']);
+  expect(filterJobs({ duration: { min: 20 }, name: 'web' })).toEqual(['Deploy web', 'Build web']);
+});
+
+test('Filters items with the matches callback of the category', () => {
+  const predicate = getToolbarFilterPredicate<Job>(
+    [{ key: 'name', name: 'Name', type: 'text', matches: (job, text) => job.name.startsWith(text) }],
+    { name: 'Build' }
+  );
+
+  expect(jobs.filter(predicate).map((job) => job.name)).toEqual(['Build API', 'Build web']);
+});
@@ -0,0 +1,110 @@
+import { act, render, renderHook, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Toolbar } from '../Toolbar';
+import { ToolbarContent } from '../ToolbarContent';
+import { ToolbarFilter } from '../ToolbarFilter';
+import { ToolbarFilterCategory } from '../toolbarFilterUtils';
+import { ToolbarFilterPresetStorageAdapter, useToolbarFilters } from '../useToolbarFilters';
+import { createMemoryHistoryAdapter } from '../../../helpers/useUrlState';
+
+jest.mock('../../../helpers/GenerateId/GenerateId');
+
+const categories: ToolbarFilterCategory[] = [
+  { key: 'name', name: 'Name', type: 'text' },
+  { key: 'status', name: 'Status', type: 'multiselect' }
+];
+
+const FilteredToolbar = () => {
+  const { getFilterProps, toolbarProps, values } = useToolbarFilters({
+    categories,
+    defaultValues: { name: 'api', status: ['New', 'Pending'] }
+  });
+
+  return (
+    <>
+      <Toolbar id="filtered-toolbar" {...toolbarProps}>
+        <ToolbarContent>
+          <ToolbarFilter {...getFilterProps('name')}>Name filter</ToolbarFilter>
+          <ToolbarFilter {...getFilterProps('status')}>Status filter</ToolbarFilter>
+        </ToolbarContent>
+      </Toolbar>
+      <output>{JSON.stringify(values)}</output>
+    </>
+  );
+};
+
+test('Renders the labels of the values and deletes them', async () => {
+  const user = userEvent.setup();
+  render(<FilteredToolbar />);
+
+  expect(screen.getByText('api')).toBeVisible();
+  expect(screen.getByText('New')).toBeVisible();
+
+  await user.click(screen.getByRole('button', { name: 'Close New' }));
+  expect(screen.getByRole('status')).toHaveTextContent('{"name":"api","status":["Pending"]}');
+
+  await user.click(screen.getByRole('button', { name: 'Clear all filters' }));
+  expect(screen.getByRole('status')).toHaveTextContent('{}');
+});
+
+test('Keeps the values in the URL and follows it', () => {
+  const history = createMemoryHistoryAdapter('/jobs?page=2&status=Done');
+  const { result } = renderHook(() => useToolbarFilters({ categories, urlState: { history } }));
+
+  expect(result.current.values).toEqual({ status: ['Done'] });
+
+  act(() => result.current.setValue('name', 'web'));
+  expect(history.getLocation().search).toBe('?page=2&name=web&status=Done');
+
+  act(() => history.back());
+  expect(result.current.values).toEqual({ status: ['Done'] });
+});
+
+test('Keeps the default values in the URL when it has none', () => {
+  const history = createMemoryHistoryAdapter('/jobs');
+  renderHook(() => useToolbarFilters({ categories, defaultValues: { name: 'api' }, urlState: { history } }));
+
+  expect(history.getLocation().search).toBe('?name=api');
+});
+
+test('Filters items', () => {
+  const { result } = renderHook(() => useToolbarFilters({ categories, defaultValues: { status: ['New'] } }));
+
+  expect(
+    result.current.filterItems([
+      { name: 'api', status: 'New' },
+      { name: 'web', status: 'Done' }
+    ])
+  ).toEqual([{ name: 'api', status: 'New' }]);
+});
+
+test('Applies, saves and deletes presets', () => {
+  const storage: ToolbarFilterPresetStorageAdapter = { load: jest.fn(() => []), save: jest.fn() };
+  const { result } = renderHook(() =>
+    useToolbarFilters({
+      categories,
+      presets: [{ id: 'new', name: 'New jobs', values: { status: ['New'] } }],
+      presetStorage: storage
+    })
+  );
+
+  act(() => result.current.applyPreset('new'));
+  expect(result.current.values).toEqual({ status: ['New'] });
+  expect(result.current.activePresetId).toBe('new');
+
+  act(() => result.current.setValue('name', 'api'));
+  expect(result.current.activePresetId).toBeUndefined();
+
+  let savedPresetId: string;
+  act(() => {
+    savedPresetId = result.current.savePreset('New api jobs').id;
+  });
+  expect(result.current.presets.map((preset) => preset.name)).toEqual(['New jobs', 'New api jobs']);
+  expect(result.current.activePresetId).toBe(savedPresetId);
+  expect(storage.save).toHaveBeenLastCalledWith([
+    { id: savedPresetId, name: 'New api jobs', values: { status: ['New'], name: 'api' } }
+  ]);
+
+  act(() => result.current.deletePreset(savedPresetId));
+  expect(result.current.presets.map((preset) => preset.name)).toEqual(['New jobs']);
+});
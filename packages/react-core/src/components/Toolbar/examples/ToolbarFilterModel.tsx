@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import {
+  Badge,
+  Button,
+  DatePicker,
+  List,
+  ListItem,
+  MenuToggle,
+  MenuToggleElement,
+  SearchInput,
+  Select,
+  SelectList,
+  SelectOption,
+  TextInput,
+  Toolbar,
+  ToolbarContent,
+  ToolbarDateRange,
+  ToolbarFilter,
+  ToolbarFilterCategory,
+  ToolbarGroup,
+  ToolbarItem,
+  ToolbarNumberRange,
+  localStorageToolbarFilterPresetAdapter,
+  useToolbarFilters
+} from '@patternfly/react-core';
+
+interface Job {
+  name: string;
+  status: string;
+  created: string;
+  duration: number;
+}
+
+const jobs: Job[] = [
+  { name: 'Build API', status: 'Running', created: '2024-03-01', duration: 12 },
+  { name: 'Deploy web', status: 'Failed', created: '2024-03-15', duration: 40 },
+  { name: 'Build web', status: 'Succeeded', created: '2024-04-02', duration: 25 },
+  { name: 'Test API', status: 'Succeeded', created: '2024-04-20', duration: 8 },
+  { name: 'Deploy API', status: 'Pending', created: '2024-05-06', duration: 0 }
+];
+
+const categories: ToolbarFilterCategory<Job>[] = [
+  { key: 'name', name: 'Name', type: 'text' },
+  {
+    key: 'status',
+    name: 'Status',
+    type: 'multiselect',
+    options: ['Pending', 'Running', 'Succeeded', 'Failed'].map((status) => ({ value: status }))
+  },
+  { key: 'created', name: 'Created', type: 'dateRange' },
+  {
+    key: 'duration',
+    name: 'Duration',
+    type: 'numberRange',
+    formatLabel: ({ min, max }) => `${min ?? 0}–${max ?? '∞'} min`
+  }
+];
+
+const presetStorage = localStorageToolbarFilterPresetAdapter('pf-toolbar-filter-model-example');
+
+export const ToolbarFilterModel: React.FunctionComponent = () => {
+  const [isStatusOpen, setIsStatusOpen] = useState(false);
+  const [isPresetOpen, setIsPresetOpen] = useState(false);
+  const {
+    values,
+    setValue,
+    getFilterProps,
+    toolbarProps,
+    filterItems,
+    presets,
+    activePresetId,
+    applyPreset,
+    savePreset,
+    deletePreset
+  } = useToolbarFilters({
+    categories,
+    urlState: { paramPrefix: 'jobs-' },
+    presets: [{ id: 'failed', name: 'Failed jobs', values: { status: ['Failed'] } }],
+    presetStorage
+  });
+  const status = (values.status as string[]) ?? [];
+  const created = (values.created as ToolbarDateRange) ?? {};
+  const duration = (values.duration as ToolbarNumberRange) ?? {};
+  const activePreset = presets.find((preset) => preset.id === activePresetId);
+
+  return (
+    <>
+      <Toolbar id="toolbar-filter-model" {...toolbarProps}>
+        <ToolbarContent>
+          <ToolbarFilter {...getFilterProps('name')}>
+            <SearchInput
+              aria-label="Filter by name"
+              placeholder="Filter by name"
+              value={(values.name as string) ?? ''}
+              onChange={(_event, name) => setValue('name', name)}
+              onClear={() => setValue('name', undefined)}
+            />
+          </ToolbarFilter>
+          <ToolbarFilter {...getFilterProps('status')}>
+            <Select
+              role="menu"
+              toggle={(toggleRef: React.Ref<MenuToggleElement>) => (
+                <MenuToggle ref={toggleRef} onClick={() => setIsStatusOpen(!isStatusOpen)} isExpanded={isStatusOpen}>
+                  Status
+                  {status.length > 0 && <Badge isRead>{status.length}</Badge>}
+                </MenuToggle>
+              )}
+              onSelect={(_event, selection) =>
+                setValue(
+                  'status',
+                  status.includes(selection as string)
+                    ? status.filter((value) => value !== selection)
+                    : [...status, selection as string]
+                )
+              }
+              selected={status}
+              isOpen={isStatusOpen}
+              onOpenChange={(isOpen) => setIsStatusOpen(isOpen)}
+            >
+              <SelectList>
+                {categories[1].options.map(({ value }) => (
+                  <SelectOption hasCheckbox key={value} value={value} isSelected={status.includes(value)}>
+                    {value}
+                  </SelectOption>
+                ))}
+              </SelectList>
+            </Select>
+          </ToolbarFilter>
+          <ToolbarFilter {...getFilterProps('created')}>
+            <DatePicker
+              aria-label="Created from"
+              value={created.start ?? ''}
+              onChange={(_event, start) => setValue('created', { ...created, start: start || undefined })}
+            />
+            <DatePicker
+              aria-label="Created until"
+              value={created.end ?? ''}
+              onChange={(_event, end) => setValue('created', { ...created, end: end || undefined })}
+            />
+          </ToolbarFilter>
+          <ToolbarFilter {...getFilterProps('duration')}>
+            <TextInput
+              type="number"
+              aria-label="Minimum duration"
+              placeholder="Min"
+              value={duration.min ?? ''}
+              onChange={(_event, min) =>
+                setValue('duration', { ...duration, min: min === '' ? undefined : Number(min) })
+              }
+            />
+            <TextInput
+              type="number"
+              aria-label="Maximum duration"
+              placeholder="Max"
+              value={duration.max ?? ''}
+              onChange={(_event, max) =>
+                setValue('duration', { ...duration, max: max === '' ? undefined : Number(max) })
+              }
+            />
+          </ToolbarFilter>
+          <ToolbarGroup>
+            <ToolbarItem>
+              <Select
+                toggle={(toggleRef: React.Ref<MenuToggleElement>) => (
+                  <MenuToggle ref={toggleRef} onClick={() => setIsPresetOpen(!isPresetOpen)} isExpanded={isPresetOpen}>
+                    {activePreset?.name ?? 'Presets'}
+                  </MenuToggle>
+                )}
+                onSelect={(_event, presetId) => {
+                  applyPreset(presetId as string);
+                  setIsPresetOpen(false);
+                }}
+                selected={activePresetId}
+                isOpen={isPresetOpen}
+                onOpenChange={(isOpen) => setIsPresetOpen(isOpen)}
+              >
+                <SelectList>
+                  {presets.map((preset) => (
+                    <SelectOption key={preset.id} value={preset.id}>
+                      {preset.name}
+                    </SelectOption>
+                  ))}
+                </SelectList>
+              </Select>
+            </ToolbarItem>
+            <ToolbarItem>
+              <Button
+                variant="secondary"
+                isDisabled={!!activePresetId || !Object.keys(values).length}
+                onClick={() => savePreset(`Preset ${presets.length}`)}
+              >
+                Save as preset
+              </Button>
+            </ToolbarItem>
+            {activePresetId && activePresetId !== 'failed' && (
+              <ToolbarItem>
+                <Button variant="link" onClick={() => deletePreset(activePresetId)}>
+                  Delete preset
+                </Button>
+              </ToolbarItem>
+            )}
+          </ToolbarGroup>
+        </ToolbarContent>
+      </Toolbar>
+      <List>
+        {filterItems(jobs).map((job) => (
+          <ListItem key={job.name}>
+            {job.name}: {job.status}, created {job.created}, {job.duration} min
+          </ListItem>
+        ))}
+      </List>
+    </>
+  );
+};
@@ -7,3 +7,5 @@ export * from './ToolbarItem';
 export * from './ToolbarFilter';
 export * from './ToolbarToggleGroup';
 export * from './ToolbarUtils';
+export * from './toolbarFilterUtils';
+export * from './useToolbarFilters';
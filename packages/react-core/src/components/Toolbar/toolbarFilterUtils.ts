@@ -0,0 +1,331 @@
+import type { ToolbarLabel } from './ToolbarFilter';
+
+/** Range of dates, as "YYYY-MM-DD" strings, e.g. selected with date pickers. */
+export interface ToolbarDateRange {
+  /** First day of the range, or undefined when the range has no start. */
+  start?: string;
+  /** Last day of the range, or undefined when the range has no end. */
+  end?: string;
+}
+
+/** Range of numbers. */
+export interface ToolbarNumberRange {
+  /** Smallest number of the range, or undefined when the range has no minimum. */
+  min?: number;
+  /** Largest number of the range, or undefined when the range has no maximum. */
+  max?: number;
+}
+
+/** Types of the values of each type of filter category. */
+export interface ToolbarFilterValueTypes {
+  /** Text which matches items containing it, ignoring case. */
+  text: string;
+  /** Single selected option. */
+  select: string;
+  /** Selected options, which match items having any of them. */
+  multiselect: string[];
+  /** Range of dates, inclusive. */
+  dateRange: ToolbarDateRange;
+  /** Range of numbers, inclusive. */
+  numberRange: ToolbarNumberRange;
+}
+
+export type ToolbarFilterType = keyof ToolbarFilterValueTypes;
+
+export type ToolbarFilterValue = ToolbarFilterValueTypes[ToolbarFilterType];
+
+/** Values of the filters, keyed by category. Categories without a value are not filtered on. */
+export interface ToolbarFilterValues {
+  [categoryKey: string]: ToolbarFilterValue;
+}
+
+/** Option of a select or multiselect filter category. */
+export interface ToolbarFilterOption {
+  /** Value of the option, which is kept in the filter values and in the URL. */
+  value: string;
+  /** Label of the option, displayed in the label of the filter. Defaults to the value. */
+  label?: React.ReactNode;
+}
+
+interface ToolbarFilterCategoryOf<T, Type extends ToolbarFilterType> {
+  /** Unique key of the category, which is also the name of its query parameter in the URL. */
+  key: string;
+  /** Name of the category, displayed as the name of its label group. */
+  name: string;
+  /** Type of the category, which determines the type of its value. */
+  type: Type;
+  /** Options of a select or multiselect category. Values of the URL which are not options are ignored. */
+  options?: ToolbarFilterOption[];
+  /** Returns the value of an item which is filtered on. Defaults to the property of the item named after the key of
+   * the category.
+   */
+  getItemValue?: (item: T) => any;
+  /** Returns whether an item matches the value of the filter, overriding the default matching of the type. */
+  matches?: (item: T, value: ToolbarFilterValueTypes[Type]) => boolean;
+  /** Returns the content of the label of a value, overriding the default label of the type, e.g. to localize it. It is
+   * called with each selected option of a multiselect category, which has a label per option.
+   */
+  formatLabel?: (value: Type extends 'multiselect' ? string : ToolbarFilterValueTypes[Type]) => React.ReactNode;
+}
+
+/** Category of filters of a toolbar, e.g. a text filter on the name of items or a multiselect filter on their status. */
+export type ToolbarFilterCategory<T = any> = {
+  [Type in ToolbarFilterType]: ToolbarFilterCategoryOf<T, Type>;
+}[ToolbarFilterType];
+
+/** Returns whether a filter value does not filter anything, e.g. empty text or a range without bounds. */
+export const isToolbarFilterValueEmpty = (value: ToolbarFilterValue | undefined) => {
+  if (value === undefined || value === null || value === '') {
+    return true;
+  }
+  if (Array.isArray(value)) {
+    return !value.length;
+  }
+  if (typeof value === 'object') {
+    return Object.values(value).every((bound) => bound === undefined || bound === null || bound === '');
+  }
+  return false;
+};
+
+/** Returns the values with the value of a category replaced, or removed when it is empty. */
+export const setToolbarFilterValue = (
+  values: ToolbarFilterValues,
+  categoryKey: string,
+  value: ToolbarFilterValue | undefined
+): ToolbarFilterValues => {
+  const otherValues = { ...values };
+  delete otherValues[categoryKey];
+  return isToolbarFilterValueEmpty(value) ? otherValues : { ...otherValues, [categoryKey]: value };
+};
+
+const getOptionLabel = (category: ToolbarFilterCategory, value: string) =>
+  category.options?.find((option) => option.value === value)?.label ?? value;
+
+const getDefaultRangeLabel = (start: string | number | undefined, end: string | number | undefined) => {
+  if (start !== undefined && end !== undefined) {
+    return `${start} – ${end}`;
+  }
+  return start !== undefined ? `≥ ${start}` : `≤ ${end}`;
+};
+
+/**
+ * Returns the labels of the value of a category, to be passed to the labels of its ToolbarFilter. Each selected option
+ * of a multiselect category has its own label, keyed by its value, and the value of any other category has a single
+ * label keyed by the key of the category.
+ */
+export const getToolbarFilterLabels = (
+  category: ToolbarFilterCategory,
+  value: ToolbarFilterValue | undefined
+): ToolbarLabel[] => {
+  if (isToolbarFilterValueEmpty(value)) {
+    return [];
+  }
+  switch (category.type) {
+    case 'multiselect': {
+      const selections = value as string[];
+      return selections.map((selection) => ({
+        key: selection,
+        node: category.formatLabel ? category.formatLabel(selection) : getOptionLabel(category, selection)
+      }));
+    }
+    case 'select':
+      return [
+        {
+          key: category.key,
+          node: category.formatLabel ? category.formatLabel(value as string) : getOptionLabel(category, value as string)
+        }
+      ];
+    case 'dateRange': {
+      const { start, end } = value as ToolbarDateRange;
+      return [
+        {
+          key: category.key,
+          node: category.formatLabel ? category.formatLabel({ start, end }) : getDefaultRangeLabel(start, end)
+        }
+      ];
+    }
+    case 'numberRange': {
+      const { min, max } = value as ToolbarNumberRange;
+      return [
+        {
+          key: category.key,
+          node: category.formatLabel ? category.formatLabel({ min, max }) : getDefaultRangeLabel(min, max)
+        }
+      ];
+    }
+    default:
+      return [
+        { key: category.key, node: category.formatLabel ? category.formatLabel(value as string) : (value as string) }
+      ];
+  }
+};
+
+/** Returns the values with the label of a category deleted, e.g. when the label is closed in the toolbar. */
+export const deleteToolbarFilterLabel = (
+  values: ToolbarFilterValues,
+  category: ToolbarFilterCategory,
+  labelKey: string
+): ToolbarFilterValues => {
+  const value = values[category.key];
+  return category.type === 'multiselect' && Array.isArray(value)
+    ? setToolbarFilterValue(
+        values,
+        category.key,
+        value.filter((selection) => selection !== labelKey)
+      )
+    : setToolbarFilterValue(values, category.key, undefined);
+};
+
+// Ranges are kept in the URL as "start..end", either bound being optional, e.g. "10.." for numbers from 10
+const rangeSeparator = '..';
+
+const parseNumber = (value: string) => (value === '' || isNaN(Number(value)) ? undefined : Number(value));
+
+const parseCategoryParams = (category: ToolbarFilterCategory, params: string[]): ToolbarFilterValue | undefined => {
+  const isOption = (value: string) => !category.options || category.options.some((option) => option.value === value);
+  switch (category.type) {
+    case 'multiselect':
+      return params.filter(isOption);
+    case 'select':
+      return params.find(isOption);
+    case 'dateRange':
+    case 'numberRange': {
+      const [start = '', end = ''] = (params[0] ?? '').split(rangeSeparator);
+      return category.type === 'dateRange'
+        ? { start: start || undefined, end: end || undefined }
+        : { min: parseNumber(start), max: parseNumber(end) };
+    }
+    default:
+      return params[0];
+  }
+};
+
+const getCategoryParams = (category: ToolbarFilterCategory, value: ToolbarFilterValue): string[] => {
+  switch (category.type) {
+    case 'multiselect':
+      return value as string[];
+    case 'dateRange': {
+      const { start, end } = value as ToolbarDateRange;
+      return [`${start ?? ''}${rangeSeparator}${end ?? ''}`];
+    }
+    case 'numberRange': {
+      const { min, max } = value as ToolbarNumberRange;
+      return [`${min ?? ''}${rangeSeparator}${max ?? ''}`];
+    }
+    default:
+      return [value as string];
+  }
+};
+
+/**
+ * Returns the filter values kept in a URL query string, e.g. "?status=New&status=Pending&size=10..20". Query
+ * parameters which are not named after a category, optionally prefixed, are ignored.
+ */
+export const parseToolbarFilters = (
+  categories: ToolbarFilterCategory[],
+  search: string,
+  paramPrefix: string = ''
+): ToolbarFilterValues => {
+  const searchParams = new URLSearchParams(search);
+  return categories.reduce(
+    (values, category) =>
+      setToolbarFilterValue(
+        values,
+        category.key,
+        parseCategoryParams(category, searchParams.getAll(`${paramPrefix}${category.key}`))
+      ),
+    {} as ToolbarFilterValues
+  );
+};
+
+/**
+ * Returns a URL query string with the filter values kept in it, replacing the query parameters of the categories
+ * while keeping any other query parameter. Options of multiselect categories are kept in repeated query parameters.
+ */
+export const serializeToolbarFilters = (
+  categories: ToolbarFilterCategory[],
+  values: ToolbarFilterValues,
+  search: string = '',
+  paramPrefix: string = ''
+) => {
+  const searchParams = new URLSearchParams(search);
+  categories.forEach((category) => {
+    const param = `${paramPrefix}${category.key}`;
+    searchParams.delete(param);
+    if (!isToolbarFilterValueEmpty(values[category.key])) {
+      getCategoryParams(category, values[category.key]).forEach((categoryParam) =>
+        searchParams.append(param, categoryParam)
+      );
+    }
+  });
+  const serialized = searchParams.toString();
+  return serialized ? `?${serialized}` : '';
+};
+
+// Dates of ranges are whole days, so "YYYY-MM-DD" strings are parsed in the local time zone like date pickers do
+const parseDay = (day: string, isEndOfDay: boolean) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return isEndOfDay ? new Date(year, month - 1, date, 23, 59, 59, 999) : new Date(year, month - 1, date);
+};
+
+const toDate = (itemValue: any) => {
+  if (itemValue instanceof Date) {
+    return itemValue;
+  }
+  return typeof itemValue === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(itemValue)
+    ? parseDay(itemValue, false)
+    : new Date(itemValue);
+};
+
+const matchesCategory = (category: ToolbarFilterCategory, itemValue: any, value: ToolbarFilterValue) => {
+  const itemValues: any[] = Array.isArray(itemValue) ? itemValue : [itemValue];
+
+  switch (category.type) {
+    case 'multiselect':
+      return itemValues.some((singleValue) => (value as string[]).includes(`${singleValue}`));
+    case 'select':
+      return itemValues.some((singleValue) => `${singleValue}` === value);
+    case 'dateRange': {
+      const { start, end } = value as ToolbarDateRange;
+      return itemValues.some((singleValue) => {
+        const date = toDate(singleValue);
+        return (
+          !isNaN(date.getTime()) && (!start || date >= parseDay(start, false)) && (!end || date <= parseDay(end, true))
+        );
+      });
+    }
+    case 'numberRange': {
+      const { min, max } = value as ToolbarNumberRange;
+      return itemValues.some((singleValue) => {
+        const number = typeof singleValue === 'number' ? singleValue : parseNumber(`${singleValue ?? ''}`);
+        return number !== undefined && (min === undefined || number >= min) && (max === undefined || number <= max);
+      });
+    }
+    default:
+      return itemValues.some(
+        (singleValue) =>
+          singleValue !== undefined &&
+          singleValue !== null &&
+          `${singleValue}`.toLowerCase().includes((value as string).toLowerCase())
+      );
+  }
+};
+
+/**
+ * Returns a predicate which returns whether an item matches all the filter values, e.g. to filter the rows of a table
+ * on the client. Items having an array as their value match when any of its values matches.
+ */
+export const getToolbarFilterPredicate =
+  <T>(categories: ToolbarFilterCategory<T>[], values: ToolbarFilterValues) =>
+  (item: T) =>
+    categories.every((category) => {
+      const value = values[category.key];
+      if (isToolbarFilterValueEmpty(value)) {
+        return true;
+      }
+      if (category.matches) {
+        return (category.matches as (item: T, value: ToolbarFilterValue) => boolean)(item, value);
+      }
+      const itemValue = category.getItemValue ? category.getItemValue(item) : (item as any)?.[category.key];
+      return matchesCategory(category, itemValue, value);
+    });
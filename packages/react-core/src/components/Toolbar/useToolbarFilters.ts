@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react';
+import type { ToolbarProps } from './Toolbar';
+import type { ToolbarFilterProps } from './ToolbarFilter';
+import {
+  deleteToolbarFilterLabel,
+  getToolbarFilterLabels,
+  getToolbarFilterPredicate,
+  parseToolbarFilters,
+  serializeToolbarFilters,
+  setToolbarFilterValue,
+  ToolbarFilterCategory,
+  ToolbarFilterValue,
+  ToolbarFilterValues
+} from './toolbarFilterUtils';
+import { createLocalStorageAdapter } from '../../helpers/localStorageAdapter';
+import { isDeepEqual } from '../../helpers/objectUtils';
+import { getUniqueId } from '../../helpers/util';
+import { UrlStateOptions, windowHistoryAdapter } from '../../helpers/useUrlState';
+
+/** Named set of filter values which can be applied at once. */
+export interface ToolbarFilterPreset {
+  /** Unique identifier of the preset. */
+  id: string;
+  /** Name of the preset. */
+  name: string;
+  /** Filter values applied by the preset. */
+  values: ToolbarFilterValues;
+}
+
+/** Loads and saves the filter presets saved by users, e.g. in localStorage or on a server. */
+export interface ToolbarFilterPresetStorageAdapter {
+  /** Returns the saved presets, or undefined when none were saved. */
+  load: () => ToolbarFilterPreset[] | undefined;
+  /** Saves the presets. */
+  save: (presets: ToolbarFilterPreset[]) => void;
+}
+
+export interface ToolbarFiltersUrlStateOptions extends Pick<UrlStateOptions, 'history' | 'shouldReplaceHistory'> {
+  /** Prefix of the query parameters of the categories, e.g. to keep the filters of several toolbars in the URL. */
+  paramPrefix?: string;
+}
+
+export interface ToolbarFiltersOptions<T = any> {
+  /** Categories of filters. */
+  categories: ToolbarFilterCategory<T>[];
+  /** Filter values applied until they are changed, or when the URL has none. */
+  defaultValues?: ToolbarFilterValues;
+  /** Keeps the filter values in the query of the URL, each category in a query parameter named after its key, so
+   * that filtered pages can be deep linked and navigated with the back and forward buttons of the browser.
+   */
+  urlState?: ToolbarFiltersUrlStateOptions;
+  /** Presets provided with the toolbar, which cannot be deleted. */
+  presets?: ToolbarFilterPreset[];
+  /** Adapter which loads the presets saved by users when the hook is first rendered and saves them each time they
+   * change.
+   */
+  presetStorage?: ToolbarFilterPresetStorageAdapter;
+  /** Callback function when the filter values are changed with the hook, rather than from the URL */
+  onChange?: (values: ToolbarFilterValues) => void;
+}
+
+export interface ToolbarFiltersState<T = any> {
+  /** Current filter values, keyed by category. */
+  values: ToolbarFilterValues;
+  /** Sets the value of a category, or clears it when the value is empty. */
+  setValue: (categoryKey: string, value: ToolbarFilterValue | undefined) => void;
+  /** Sets the values of all the categories. */
+  setValues: (values: ToolbarFilterValues) => void;
+  /** Clears the values of all the categories. */
+  clearAll: () => void;
+  /** Returns the props to spread on the ToolbarFilter of a category, which display its labels and delete them. */
+  getFilterProps: (
+    categoryKey: string
+  ) => Required<Pick<ToolbarFilterProps, 'categoryName' | 'labels' | 'deleteLabel' | 'deleteLabelGroup'>>;
+  /** Props to spread on the Toolbar, whose "Clear all filters" button clears the values of all the categories. */
+  toolbarProps: Required<Pick<ToolbarProps, 'clearAllFilters'>>;
+  /** Returns whether an item matches the filter values. */
+  predicate: (item: T) => boolean;
+  /** Returns the items matching the filter values. */
+  filterItems: (items: T[]) => T[];
+  /** Presets provided with the toolbar, followed by the presets saved by users. */
+  presets: ToolbarFilterPreset[];
+  /** ID of the preset whose values are the current filter values, or undefined when there is none. */
+  activePresetId?: string;
+  /** Applies the values of a preset. */
+  applyPreset: (presetId: string) => void;
+  /** Saves the current filter values as a preset, and returns it. */
+  savePreset: (name: string) => ToolbarFilterPreset;
+  /** Deletes a preset saved by users. */
+  deletePreset: (presetId: string) => void;
+}
+
+/** Storage adapter which saves the filter presets of a toolbar in localStorage under the passed key. */
+export const localStorageToolbarFilterPresetAdapter = (
+  key: string = 'pf-toolbar-filter-presets'
+): ToolbarFilterPresetStorageAdapter => createLocalStorageAdapter<ToolbarFilterPreset[]>(key);
+
+/**
+ * Manages the filter values of a toolbar from a typed filter model, generating the labels of its ToolbarFilters and a
+ * predicate filtering items on the client. The values can be kept in the URL, and saved as presets.
+ */
+export const useToolbarFilters = <T = any>({
+  categories,
+  defaultValues = {},
+  urlState,
+  presets: providedPresets = [],
+  presetStorage,
+  onChange
+}: ToolbarFiltersOptions<T>): ToolbarFiltersState<T> => {
+  const history = urlState?.history ?? windowHistoryAdapter;
+  const paramPrefix = urlState?.paramPrefix;
+  const isUrlState = urlState !== undefined;
+  const getUrlValues = () => parseToolbarFilters(categories, history.getLocation().search, paramPrefix);
+
+  const [values, setValuesState] = useState<ToolbarFilterValues>(() => {
+    const urlValues = isUrlState ? getUrlValues() : {};
+    return Object.keys(urlValues).length ? urlValues : defaultValues;
+  });
+  const [savedPresets, setSavedPresets] = useState<ToolbarFilterPreset[]>(() => presetStorage?.load() ?? []);
+
+  useEffect(() => {
+    presetStorage?.save(savedPresets);
+  }, [savedPresets]);
+
+  const updateUrl = (nextValues: ToolbarFilterValues, shouldReplace: boolean) => {
+    const location = history.getLocation();
+    const search = serializeToolbarFilters(categories, nextValues, location.search, paramPrefix);
+
+    if (search !== location.search) {
+      const url = `${location.pathname}${search}${location.hash}`;
+      shouldReplace ? history.replace(url) : history.push(url);
+    }
+  };
+
+  // Follow the URL, e.g. when navigating back, once the default values applied while it has none are kept in it
+  useEffect(() => {
+    if (!isUrlState) {
+      return;
+    }
+    updateUrl(values, true);
+    return history.listen(() => {
+      const urlValues = getUrlValues();
+      setValuesState((prevValues) => (isDeepEqual(prevValues, urlValues) ? prevValues : urlValues));
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [history, paramPrefix, isUrlState]);
+
+  const setValues = (nextValues: ToolbarFilterValues) => {
+    // Empty values are removed, so that values are compared with presets regardless of cleared categories
+    const normalizedValues = Object.entries(nextValues).reduce(
+      (prevValues, [categoryKey, value]) => setToolbarFilterValue(prevValues, categoryKey, value),
+      {} as ToolbarFilterValues
+    );
+    setValuesState(normalizedValues);
+    isUrlState && updateUrl(normalizedValues, urlState.shouldReplaceHistory ?? false);
+    onChange?.(normalizedValues);
+  };
+
+  const setValue = (categoryKey: string, value: ToolbarFilterValue | undefined) =>
+    setValues(setToolbarFilterValue(values, categoryKey, value));
+
+  const clearAll = () => setValues({});
+
+  const predicate = getToolbarFilterPredicate(categories, values);
+  const presets = [...providedPresets, ...savedPresets];
+
+  return {
+    values,
+    setValue,
+    setValues,
+    clearAll,
+    getFilterProps: (categoryKey) => {
+      const category = categories.find((category) => category.key === categoryKey);
+      return {
+        categoryName: { key: category.key, name: category.name },
+        labels: getToolbarFilterLabels(category, values[categoryKey]),
+        deleteLabel: (_category, label) =>
+          setValues(deleteToolbarFilterLabel(values, category, typeof label === 'string' ? label : label.key)),
+        deleteLabelGroup: () => setValue(categoryKey, undefined)
+      };
+    },
+    toolbarProps: { clearAllFilters: clearAll },
+    predicate,
+    filterItems: (items) => items.filter(predicate),
+    presets,
+    activePresetId: presets.find((preset) => isDeepEqual(preset.values, values))?.id,
+    applyPreset: (presetId) => {
+      const preset = presets.find((preset) => preset.id === presetId);
+      preset && setValues(preset.values);
+    },
+    savePreset: (name) => {
+      const preset = { id: getUniqueId('pf-toolbar-filter-preset'), name, values };
+      setSavedPresets((prevPresets) => [...prevPresets, preset]);
+      return preset;
+    },
+    deletePreset: (presetId) => setSavedPresets((prevPresets) => prevPresets.filter((preset) => preset.id !== presetId))
+  };
+};
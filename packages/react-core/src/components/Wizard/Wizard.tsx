@@ -9,12 +9,15 @@ import {
   isCustomWizardNav,
   WizardFooterType,
   WizardNavType,
-  WizardStepChangeScope
+  WizardStepChangeScope,
+  WizardData
 } from './types';
 import { buildSteps, isStepEnabled } from './utils';
 import { useWizardContext, WizardContextProvider } from './WizardContext';
 import { WizardToggle } from './WizardToggle';
 import { WizardNavInternal } from './WizardNavInternal';
+import { WizardStorageAdapter } from './wizardStorage';
+import { getUrlStateValue, useUrlState, UrlStateOptions, windowHistoryAdapter } from '../../helpers/useUrlState';
 
 /**
  * Wrapper for all steps and hosts state, including navigation helpers, within context.
@@ -59,6 +62,23 @@ export interface WizardProps extends React.HTMLProps<HTMLDivElement> {
    * are called.
    */
   shouldFocusContent?: boolean;
+  /** Initial data of the steps, keyed by step ID. Steps whose data differs from it are dirty. */
+  defaultData?: WizardData;
+  /** Callback function when the data of a step is set with setStepData of the wizard context */
+  onDataChange?: (data: WizardData) => void;
+  /** Adapter which saves the data, active step and visited steps of the wizard each time they change, and from which
+   * they are loaded when the wizard is first rendered, so that a half finished wizard can be resumed after a reload.
+   * The saved state is cleared once the wizard is saved.
+   */
+  storage?: WizardStorageAdapter;
+  /** Keeps the ID of the active step in a query parameter, the hash or the path of the URL, so that steps can be deep
+   * linked and navigated with the back and forward buttons of the browser. The query parameter defaults to "step".
+   * Navigating from the URL is subject to the same rules as navigating with the wizard: disabled, hidden and, with
+   * isVisitRequired, unvisited steps cannot be navigated to, and the active step is validated before navigating to a
+   * following step. The URL is restored to the active step when the navigation is refused. The wizard starts on the
+   * step in the URL, rather than on a saved step or the step at startIndex, when that step can be navigated to.
+   */
+  urlState?: UrlStateOptions;
 }
 
 export const Wizard = ({
@@ -77,11 +97,31 @@ export const Wizard = ({
   onSave,
   onClose,
   shouldFocusContent = true,
+  defaultData,
+  onDataChange,
+  storage,
+  urlState,
   ...wrapperProps
 }: WizardProps) => {
-  const [activeStepIndex, setActiveStepIndex] = useState(startIndex);
   const initialSteps = buildSteps(children);
-  const firstStepRef = useRef(initialSteps[startIndex - 1]);
+  const [storedState] = useState(() => storage?.load());
+  const [storedStepIndex] = useState(() => initialSteps.find((step) => step.id === storedState?.activeStepId)?.index);
+  // A deep linked step is started on when it could be navigated to, so that the first render is already on it
+  const [urlStepIndex] = useState(() => {
+    if (!urlState) {
+      return undefined;
+    }
+    const history = urlState.history ?? windowHistoryAdapter;
+    const urlStepId = getUrlStateValue(history.getLocation(), { param: 'step', ...urlState });
+    const urlStep = initialSteps.find((step) => `${step.id}` === urlStepId);
+    const isVisited = urlStep?.isVisited || storedState?.visitedStepIds.includes(urlStep?.id);
+    return urlStep && isStepEnabled(initialSteps, urlStep) && (!isVisitRequired || isVisited)
+      ? urlStep.index
+      : undefined;
+  });
+  const [activeStepIndex, setActiveStepIndex] = useState(urlStepIndex ?? storedStepIndex ?? startIndex);
+  // A resumed or deep linked wizard starts on its step rather than on the first sub-step of the step at startIndex
+  const firstStepRef = useRef(urlStepIndex || storedStepIndex ? undefined : initialSteps[startIndex - 1]);
   const wrapperRef = useRef(null);
 
   // When the startIndex maps to a parent step, focus on the first sub-step
@@ -107,7 +147,14 @@ export const Wizard = ({
     const newStep = steps.find((step) => step.index > activeStepIndex && isStepEnabled(steps, step));
 
     if (activeStepIndex >= steps.length || !newStep?.index) {
-      return onSave ? onSave(event) : onClose?.(event);
+      const result = onSave ? onSave(event) : onClose?.(event);
+      // The stored progress is kept when saving fails, and the failure is left to the promise returned by onSave
+      storage &&
+        Promise.resolve(result).then(
+          () => storage.clear(),
+          () => undefined
+        );
+      return result;
     }
 
     setActiveStepIndex(newStep?.index);
@@ -179,6 +226,10 @@ export const Wizard = ({
       goToStepByIndex={goToStepByIndex}
       shouldFocusContent={shouldFocusContent}
       mainWrapperRef={wrapperRef}
+      defaultData={defaultData}
+      onDataChange={onDataChange}
+      storage={storage}
+      storedState={storedState}
     >
       <div
         className={css(styles.wizard, className)}
@@ -189,6 +240,7 @@ export const Wizard = ({
         {...wrapperProps}
       >
         {header}
+        {urlState && <WizardUrlState urlState={urlState} isVisitRequired={isVisitRequired} />}
         <WizardInternal
           nav={nav}
           navAriaLabel={navAriaLabel}
@@ -237,4 +289,52 @@ const WizardInternal = ({
   );
 };
 
+const WizardUrlState = ({
+  urlState,
+  isVisitRequired
+}: Required<Pick<WizardProps, 'urlState' | 'isVisitRequired'>>): null => {
+  const { activeStep, steps, goToStepById } = useWizardContext();
+  const [urlStepId, setUrlStepId] = useUrlState({ param: 'step', ...urlState });
+  const [navigationCount, setNavigationCount] = useState(0);
+  const handledNavigationCountRef = useRef(0);
+  const isNavigatingRef = useRef(false);
+  const activeStepId = activeStep && `${activeStep.id}`;
+
+  // Navigate to the step in the URL when it changes, e.g. with the back and forward buttons of the browser
+  useEffect(() => {
+    if (urlStepId === undefined || urlStepId === activeStepId) {
+      return;
+    }
+    const urlStep = steps.find((step) => `${step.id}` === urlStepId);
+
+    if (!urlStep || !isStepEnabled(steps, urlStep) || (isVisitRequired && !urlStep.isVisited)) {
+      setUrlStepId(activeStepId, true);
+      return;
+    }
+    isNavigatingRef.current = true;
+    Promise.resolve(goToStepById(urlStep.id)).then(() => {
+      isNavigatingRef.current = false;
+      setNavigationCount((prevCount) => prevCount + 1);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [urlStepId]);
+
+  // Keep the active step in the URL, replacing the URL when navigating from it was refused by the validation of the
+  // active step, or when the URL has no step yet
+  useEffect(() => {
+    if (isNavigatingRef.current) {
+      return;
+    }
+    const isRefusedNavigation = navigationCount !== handledNavigationCountRef.current;
+    handledNavigationCountRef.current = navigationCount;
+
+    if (activeStepId !== undefined && activeStepId !== urlStepId) {
+      setUrlStepId(activeStepId, isRefusedNavigation || urlStepId === undefined);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeStepId, navigationCount]);
+
+  return null;
+};
+
 Wizard.displayName = 'Wizard';
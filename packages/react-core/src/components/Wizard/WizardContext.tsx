@@ -1,6 +1,8 @@
-import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
-import { isCustomWizardFooter, isWizardSubStep, WizardStepType, WizardFooterType } from './types';
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { isCustomWizardFooter, isWizardSubStep, WizardStepType, WizardFooterType, WizardData } from './types';
 import { WizardFooter, WizardFooterProps } from './WizardFooter';
+import { WizardStorageAdapter, WizardStoredState } from './wizardStorage';
+import { isDeepEqual } from '../../helpers/objectUtils';
 
 export interface WizardContextProps {
   /** List of steps */
@@ -33,6 +35,18 @@ export interface WizardContextProps {
   shouldFocusContent: boolean;
   /** Ref for main wizard content element. */
   mainWrapperRef: React.RefObject<HTMLElement | null>;
+  /** Data collected by the wizard, keyed by step ID */
+  data: WizardData;
+  /** Get the data of a step by ID */
+  getStepData: (stepId: number | string) => any;
+  /** Set the data of a step by ID, either directly or from its previous data */
+  setStepData: (stepId: number | string, stepData: any | ((prevStepData: any) => any)) => void;
+  /** Whether the data of a step differs from its default data */
+  isStepDirty: (stepId: number | string) => boolean;
+  /** Validate the data of a step by ID, updating its status, and resolve with whether it is valid */
+  validateStep: (stepId: number | string) => Promise<boolean>;
+  /** Flag indicating the data of a step is being validated asynchronously */
+  isValidating: boolean;
 }
 
 export const WizardContext = createContext({} as WizardContextProps);
@@ -54,6 +68,10 @@ export interface WizardContextProviderProps {
   ): void;
   shouldFocusContent: boolean;
   mainWrapperRef: React.RefObject<HTMLElement | null>;
+  defaultData?: WizardData;
+  onDataChange?(data: WizardData): void;
+  storage?: WizardStorageAdapter;
+  storedState?: WizardStoredState;
 }
 
 export const WizardContextProvider: React.FunctionComponent<WizardContextProviderProps> = ({
@@ -68,10 +86,21 @@ export const WizardContextProvider: React.FunctionComponent<WizardContextProvide
   goToStepByName,
   goToStepByIndex,
   shouldFocusContent,
-  mainWrapperRef
+  mainWrapperRef,
+  defaultData,
+  onDataChange,
+  storage,
+  storedState
 }) => {
-  const [currentSteps, setCurrentSteps] = useState<WizardStepType[]>(initialSteps);
+  const [currentSteps, setCurrentSteps] = useState<WizardStepType[]>(() =>
+    initialSteps.map((step) => (storedState?.visitedStepIds.includes(step.id) ? { ...step, isVisited: true } : step))
+  );
   const [currentFooter, setCurrentFooter] = useState<WizardFooterType>();
+  const [data, setData] = useState<WizardData>(() => storedState?.data ?? defaultData ?? {});
+  const [isValidating, setIsValidating] = useState(false);
+  // Latest data, so that data set right before navigating is validated
+  const dataRef = useRef(data);
+  const validationCountRef = useRef(0);
 
   // Callback to update steps if the overall step number changes
   useEffect(() => {
@@ -100,8 +129,97 @@ export const WizardContextProvider: React.FunctionComponent<WizardContextProvide
 
   const activeStep = useMemo(() => steps.find((step) => step.index === activeStepIndex), [activeStepIndex, steps]);
 
+  const visitedStepIds = steps.filter((step) => step.isVisited).map((step) => step.id);
+  const visitedStepIdsKey = visitedStepIds.join();
+
+  // Save the state each time it changes, steps being rebuilt from the children on each render
+  useEffect(() => {
+    storage?.save({ data, activeStepId: activeStep?.id, visitedStepIds });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [data, activeStep?.id, visitedStepIdsKey]);
+
+  const setStep = useCallback(
+    (step: Pick<WizardStepType, 'id'> & Partial<WizardStepType>) =>
+      setCurrentSteps((prevSteps) =>
+        prevSteps.map((prevStep) => {
+          if (prevStep.id === step.id) {
+            return { ...prevStep, ...step };
+          }
+          return prevStep;
+        })
+      ),
+    []
+  );
+
+  const validateStep = useCallback(
+    async (stepId: number | string) => {
+      const step = steps.find((step) => step.id === stepId);
+
+      if (!step?.validate) {
+        return true;
+      }
+
+      const validationId = ++validationCountRef.current;
+      // Validators throwing, or rejecting, fail the validation of the step
+      const isValid = await Promise.resolve()
+        .then(() => {
+          const result = step.validate(dataRef.current[stepId], dataRef.current);
+          result instanceof Promise && setIsValidating(true);
+          return result;
+        })
+        .catch(() => false);
+
+      // Only the latest validation updates the status, e.g. when the data changed during an async validation
+      if (validationId !== validationCountRef.current) {
+        return false;
+      }
+      setIsValidating(false);
+      setStep({ id: stepId, status: isValid ? 'success' : 'error' });
+      return isValid;
+    },
+    [steps, setStep]
+  );
+
+  const setStepData = useCallback(
+    (stepId: number | string, stepData: any | ((prevStepData: any) => any)) => {
+      const nextData = {
+        ...dataRef.current,
+        [stepId]: typeof stepData === 'function' ? stepData(dataRef.current[stepId]) : stepData
+      };
+      dataRef.current = nextData;
+      setData(nextData);
+      onDataChange?.(nextData);
+    },
+    [onDataChange]
+  );
+
+  // Revalidate the active step as its data changes once it failed validation, so that its error status is cleared
+  const activeStepData = data[activeStep?.id];
+  useEffect(() => {
+    if (activeStep?.validate && activeStep.status === 'error') {
+      validateStep(activeStep.id);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeStepData]);
+
+  // Validates the active step before navigating to a following step, and only navigates when it is valid
+  const validateBeforeStep = useCallback(
+    (stepIndex: number, navigate: () => void | Promise<void>) => {
+      if (!activeStep?.validate || !(stepIndex > activeStep.index)) {
+        return navigate();
+      }
+      return validateStep(activeStep.id).then((isValid) => {
+        isValid && navigate();
+      });
+    },
+    [activeStep, validateStep]
+  );
+
   const close = useCallback(() => onClose?.(null), [onClose]);
-  const goToNextStep = useCallback(() => onNext(null, steps), [onNext, steps]);
+  const goToNextStep = useCallback(
+    () => validateBeforeStep(activeStepIndex + 1, () => onNext(null, steps)),
+    [validateBeforeStep, activeStepIndex, onNext, steps]
+  );
   const goToPrevStep = useCallback(() => onBack(null, steps), [onBack, steps]);
 
   const footer = useMemo(() => {
@@ -123,25 +241,13 @@ export const WizardContextProvider: React.FunctionComponent<WizardContextProvide
         onClose={close}
         isBackDisabled={activeStep?.index === 1 || (isWizardSubStep(activeStep) && activeStep?.index === 2)}
         {...wizardFooter}
+        isNextDisabled={isValidating || wizardFooter?.isNextDisabled}
       />
     );
-  }, [currentFooter, initialFooter, activeStep, goToNextStep, goToPrevStep, close]);
+  }, [currentFooter, initialFooter, activeStep, goToNextStep, goToPrevStep, close, isValidating]);
 
   const getStep = useCallback((stepId: string | number) => steps.find((step) => step.id === stepId), [steps]);
 
-  const setStep = useCallback(
-    (step: Pick<WizardStepType, 'id'> & Partial<WizardStepType>) =>
-      setCurrentSteps((prevSteps) =>
-        prevSteps.map((prevStep) => {
-          if (prevStep.id === step.id) {
-            return { ...prevStep, ...step };
-          }
-          return prevStep;
-        })
-      ),
-    []
-  );
-
   return (
     <WizardContext.Provider
       value={{
@@ -154,11 +260,30 @@ export const WizardContextProvider: React.FunctionComponent<WizardContextProvide
         goToNextStep,
         goToPrevStep,
         setFooter: setCurrentFooter,
-        goToStepById: useCallback((id) => goToStepById(steps, id), [goToStepById, steps]),
-        goToStepByName: useCallback((name) => goToStepByName(steps, name), [goToStepByName, steps]),
-        goToStepByIndex: useCallback((index: number) => goToStepByIndex(null, steps, index), [goToStepByIndex, steps]),
+        goToStepById: useCallback(
+          (id) => validateBeforeStep(steps.find((step) => step.id === id)?.index, () => goToStepById(steps, id)),
+          [validateBeforeStep, goToStepById, steps]
+        ),
+        goToStepByName: useCallback(
+          (name) =>
+            validateBeforeStep(steps.find((step) => step.name === name)?.index, () => goToStepByName(steps, name)),
+          [validateBeforeStep, goToStepByName, steps]
+        ),
+        goToStepByIndex: useCallback(
+          (index: number) => validateBeforeStep(index, () => goToStepByIndex(null, steps, index)),
+          [validateBeforeStep, goToStepByIndex, steps]
+        ),
         shouldFocusContent,
-        mainWrapperRef
+        mainWrapperRef,
+        data,
+        getStepData: useCallback((stepId: number | string) => data[stepId], [data]),
+        setStepData,
+        isStepDirty: useCallback(
+          (stepId: number | string) => !isDeepEqual(data[stepId], defaultData?.[stepId]),
+          [data, defaultData]
+        ),
+        validateStep,
+        isValidating
       }}
     >
       {children}
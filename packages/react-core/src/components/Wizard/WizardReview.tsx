@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Button } from '../Button';
+import {
+  DescriptionList,
+  DescriptionListDescription,
+  DescriptionListGroup,
+  DescriptionListTerm
+} from '../DescriptionList';
+import { Title } from '../Title';
+import { Split, SplitItem } from '../../layouts/Split';
+import { Stack, StackItem } from '../../layouts/Stack';
+import { getUniqueId } from '../../helpers/util';
+import { isWizardParentStep } from './types';
+import { useWizardContext } from './WizardContext';
+
+/**
+ * Summarizes the data collected by the steps of a wizard, e.g. in a review step. The data of each step is listed under
+ * the name of the step, with a button navigating back to the step to edit it.
+ */
+
+export interface WizardReviewProps {
+  /** IDs of the steps summarized, in order. Defaults to the steps which are not hidden and have data. */
+  stepIds?: (string | number)[];
+  /** Returns the label of a field of the data of a step. Defaults to the key split into words, e.g. "First name" for
+   * "firstName".
+   */
+  getFieldLabel?: (key: string, stepId: string | number) => React.ReactNode;
+  /** Returns the displayed value of a field of the data of a step. Defaults to the value, with arrays joined by commas
+   * and booleans displayed as "Yes" or "No".
+   */
+  formatValue?: (value: any, key: string, stepId: string | number) => React.ReactNode;
+  /** Text displayed for fields without a value */
+  emptyValueText?: React.ReactNode;
+  /** Text of the buttons navigating back to steps */
+  editButtonText?: React.ReactNode;
+  /** Flag to hide the buttons navigating back to steps */
+  isEditHidden?: boolean;
+  /** Additional classes spread to the wizard review */
+  className?: string;
+}
+
+const getDefaultFieldLabel = (key: string) => {
+  const words = key
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .trim()
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const isEmptyValue = (value: any) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && !value.length);
+
+const formatDefaultValue = (value: any): string => {
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatDefaultValue).join(', ');
+  }
+  if (value instanceof Date) {
+    return value.toLocaleString();
+  }
+  if (typeof value === 'object') {
+    return Object.entries(value)
+      .filter(([, fieldValue]) => !isEmptyValue(fieldValue))
+      .map(([key, fieldValue]) => `${getDefaultFieldLabel(key)}: ${formatDefaultValue(fieldValue)}`)
+      .join(', ');
+  }
+  return `${value}`;
+};
+
+const isObjectData = (stepData: any) =>
+  typeof stepData === 'object' && stepData !== null && !Array.isArray(stepData) && !(stepData instanceof Date);
+
+export const WizardReview = ({
+  stepIds,
+  getFieldLabel = getDefaultFieldLabel,
+  formatValue = formatDefaultValue,
+  emptyValueText = 'Not set',
+  editButtonText = 'Edit',
+  isEditHidden = false,
+  className
+}: WizardReviewProps) => {
+  const { steps, data, goToStepById } = useWizardContext();
+  const [reviewId] = useState(() => getUniqueId('pf-wizard-review'));
+  const reviewedSteps = stepIds
+    ? stepIds.map((stepId) => steps.find((step) => step.id === stepId)).filter(Boolean)
+    : steps.filter((step) => !isWizardParentStep(step) && !step.isHidden && data[step.id] !== undefined);
+
+  return (
+    <Stack hasGutter className={className}>
+      {reviewedSteps.map((step, stepIndex) => {
+        const titleId = `${reviewId}-${stepIndex}`;
+        const stepData = data[step.id];
+        // Data which isn't an object, e.g. a single value collected by a step, is listed under the name of the step
+        const fields: [string, React.ReactNode, any][] = isObjectData(stepData)
+          ? Object.entries(stepData).map(([key, value]) => [key, getFieldLabel(key, step.id), value])
+          : [[`${step.id}`, step.name, stepData]];
+
+        return (
+          <StackItem key={step.id}>
+            <Split hasGutter>
+              <SplitItem isFilled>
+                <Title headingLevel="h3" size="md" id={titleId}>
+                  {step.name}
+                </Title>
+              </SplitItem>
+              {!isEditHidden && (
+                <SplitItem>
+                  <Button variant="link" isInline aria-describedby={titleId} onClick={() => goToStepById(step.id)}>
+                    {editButtonText}
+                  </Button>
+                </SplitItem>
+              )}
+            </Split>
+            <DescriptionList isHorizontal isCompact aria-labelledby={titleId}>
+              {fields.map(([key, label, value]) => (
+                <DescriptionListGroup key={key}>
+                  <DescriptionListTerm>{label}</DescriptionListTerm>
+                  <DescriptionListDescription>
+                    {isEmptyValue(value) ? emptyValueText : formatValue(value, key, step.id)}
+                  </DescriptionListDescription>
+                </DescriptionListGroup>
+              ))}
+            </DescriptionList>
+          </StackItem>
+        );
+      })}
+    </Stack>
+  );
+};
+
+WizardReview.displayName = 'WizardReview';
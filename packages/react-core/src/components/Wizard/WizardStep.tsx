@@ -1,5 +1,5 @@
 import { useEffect } from 'react';
-import { isWizardParentStep, WizardNavItemType } from './types';
+import { isWizardParentStep, WizardNavItemType, WizardStepValidator } from './types';
 import { WizardBodyProps } from './WizardBody';
 import { useWizardContext } from './WizardContext';
 import { WizardFooterProps } from './WizardFooter';
@@ -31,6 +31,11 @@ export interface WizardStepProps {
   status?: 'default' | 'error' | 'success';
   /** Flag to determine whether parent steps can expand or not. Defaults to false. */
   isExpandable?: boolean;
+  /** Validates the data of the step, which is called when navigating to a following step. The navigation only happens
+   * when the data is valid, and the status of the step is set to 'success' or 'error' from the result. While an
+   * asynchronous validation is pending, the next button of the footer is disabled.
+   */
+  validate?: WizardStepValidator;
 }
 
 export const WizardStep = ({ children, steps: _subSteps, ...props }: WizardStepProps) => {
@@ -1,7 +1,31 @@
-import { render, screen } from '@testing-library/react';
+import { act, render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
-
-import { Wizard, WizardFooterProps, WizardStep, WizardNavProps, WizardStepChangeScope } from '../';
+import { createMemoryHistoryAdapter } from '../../../helpers/useUrlState';
+
+import {
+  useWizardContext,
+  Wizard,
+  WizardFooterProps,
+  WizardStep,
+  WizardNavProps,
+  WizardStepChangeScope,
+  WizardStorageAdapter
+} from '../';
+
+const NameField = () => {
+  const { getStepData, setStepData, isStepDirty } = useWizardContext();
+
+  return (
+    <>
+      <input
+        aria-label="Name"
+        value={getStepData('details')?.name ?? ''}
+        onChange={(event) => setStepData('details', (prevData: any) => ({ ...prevData, name: event.target.value }))}
+      />
+      {isStepDirty('details') && 'Details changed'}
+    </>
+  );
+};
 
 test('renders step when child is of type WizardStep', () => {
   render(
@@ -627,3 +651,255 @@ test('onStepChange skips over disabled or hidden steps and substeps', async () =
     WizardStepChangeScope.Back
   );
 });
+
+test('does not navigate to the next step when the active step is invalid', async () => {
+  const user = userEvent.setup();
+  const validate = jest.fn((stepData: any) => !!stepData?.name);
+
+  render(
+    <Wizard>
+      <WizardStep id="details" name="Details" validate={validate}>
+        <NameField />
+      </WizardStep>
+      <WizardStep id="review" name="Review">
+        Review content
+      </WizardStep>
+    </Wizard>
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Next' }));
+  expect(validate).toHaveBeenCalledWith(undefined, {});
+  expect(screen.queryByText('Review content')).not.toBeInTheDocument();
+  expect(screen.getByRole('button', { name: /Details/ })).toHaveAccessibleName(/error/);
+
+  await user.click(screen.getByRole('button', { name: 'Review' }));
+  expect(screen.queryByText('Review content')).not.toBeInTheDocument();
+
+  await user.type(screen.getByRole('textbox', { name: 'Name' }), 'web');
+  expect(screen.getByRole('button', { name: /Details/ })).toHaveAccessibleName(/success/);
+
+  await user.click(screen.getByRole('button', { name: 'Next' }));
+  expect(screen.getByText('Review content')).toBeVisible();
+});
+
+test('disables the next button while the active step is validated asynchronously', async () => {
+  const user = userEvent.setup();
+  let resolveValidation: (isValid: boolean) => void;
+  const validate = () => new Promise<boolean>((resolve) => (resolveValidation = resolve));
+
+  render(
+    <Wizard>
+      <WizardStep id="details" name="Details" validate={validate}>
+        Details content
+      </WizardStep>
+      <WizardStep id="review" name="Review">
+        Review content
+      </WizardStep>
+    </Wizard>
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Next' }));
+  expect(screen.getByRole('button', { name: 'Next' })).toBeDisabled();
+
+  await act(async () => resolveValidation(true));
+  expect(screen.getByText('Review content')).toBeVisible();
+  expect(screen.getByRole('button', { name: 'Next' })).toBeEnabled();
+});
+
+test('fails the validation of a step whose validator throws', async () => {
+  const user = userEvent.setup();
+  const validate = () => {
+    throw new Error('Validation failed');
+  };
+
+  render(
+    <Wizard>
+      <WizardStep id="details" name="Details" validate={validate}>
+        Details content
+      </WizardStep>
+      <WizardStep id="review" name="Review">
+        Review content
+      </WizardStep>
+    </Wizard>
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Next' }));
+  expect(screen.queryByText('Review content')).not.toBeInTheDocument();
+  expect(screen.getByRole('button', { name: /Details/ })).toHaveAccessibleName(/error/);
+});
+
+test('stores the data of the steps and tracks which steps are dirty', async () => {
+  const user = userEvent.setup();
+  const onDataChange = jest.fn();
+
+  render(
+    <Wizard defaultData={{ details: { name: 'web' } }} onDataChange={onDataChange}>
+      <WizardStep id="details" name="Details">
+        <NameField />
+      </WizardStep>
+    </Wizard>
+  );
+
+  expect(screen.getByRole('textbox', { name: 'Name' })).toHaveValue('web');
+  expect(screen.queryByText('Details changed')).not.toBeInTheDocument();
+
+  await user.type(screen.getByRole('textbox', { name: 'Name' }), 's');
+  expect(onDataChange).toHaveBeenLastCalledWith({ details: { name: 'webs' } });
+  expect(screen.getByText('Details changed')).toBeVisible();
+});
+
+test('resumes from the state loaded by the storage adapter and clears it once saved', async () => {
+  const user = userEvent.setup();
+  const storage: WizardStorageAdapter = {
+    load: jest.fn(() => ({ data: { details: { name: 'api' } }, activeStepId: 'review', visitedStepIds: ['details'] })),
+    save: jest.fn(),
+    clear: jest.fn()
+  };
+  const onSave = jest.fn();
+
+  render(
+    <Wizard storage={storage} onSave={onSave}>
+      <WizardStep id="details" name="Details">
+        <NameField />
+      </WizardStep>
+      <WizardStep id="review" name="Review">
+        Review content
+      </WizardStep>
+    </Wizard>
+  );
+
+  expect(screen.getByText('Review content')).toBeVisible();
+  expect(storage.save).toHaveBeenLastCalledWith({
+    data: { details: { name: 'api' } },
+    activeStepId: 'review',
+    visitedStepIds: ['details', 'review']
+  });
+
+  await user.click(screen.getByRole('button', { name: 'Details' }));
+  await user.type(screen.getByRole('textbox', { name: 'Name' }), 's');
+  expect(storage.save).toHaveBeenLastCalledWith({
+    data: { details: { name: 'apis' } },
+    activeStepId: 'details',
+    visitedStepIds: ['details', 'review']
+  });
+
+  await user.click(screen.getByRole('button', { name: 'Review' }));
+  await user.click(screen.getByRole('button', { name: 'Next' }));
+  expect(onSave).toHaveBeenCalled();
+  expect(storage.clear).toHaveBeenCalled();
+});
+
+test('keeps the state of the storage adapter when saving fails', async () => {
+  const user = userEvent.setup();
+  const onUnhandledRejection = jest.fn();
+  process.on('unhandledRejection', onUnhandledRejection);
+  const storage: WizardStorageAdapter = { load: jest.fn(), save: jest.fn(), clear: jest.fn() };
+  const onSave = jest.fn(() => {
+    const save = Promise.reject(new Error('Saving failed'));
+    save.catch(() => undefined);
+    return save;
+  });
+
+  render(
+    <Wizard storage={storage} onSave={onSave}>
+      <WizardStep id="details" name="Details">
+        Details content
+      </WizardStep>
+    </Wizard>
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Next' }));
+  await new Promise((resolve) => setTimeout(resolve, 0));
+
+  process.off('unhandledRejection', onUnhandledRejection);
+  expect(onSave).toHaveBeenCalled();
+  expect(storage.clear).not.toHaveBeenCalled();
+  expect(onUnhandledRejection).not.toHaveBeenCalled();
+});
+
+test('keeps the active step in the URL and navigates to the step in the URL', async () => {
+  const user = userEvent.setup();
+  const history = createMemoryHistoryAdapter('/create');
+
+  render(
+    <Wizard urlState={{ history }}>
+      <WizardStep id="details" name="Details">
+        Details content
+      </WizardStep>
+      <WizardStep id="review" name="Review">
+        Review content
+      </WizardStep>
+    </Wizard>
+  );
+
+  expect(history.getLocation().search).toBe('?step=details');
+
+  await user.click(screen.getByRole('button', { name: 'Next' }));
+  expect(history.getLocation().search).toBe('?step=review');
+
+  await act(async () => history.back());
+  expect(screen.getByText('Details content')).toBeVisible();
+
+  await act(async () => history.forward());
+  expect(screen.getByText('Review content')).toBeVisible();
+});
+
+test('starts on the step in the URL', () => {
+  const history = createMemoryHistoryAdapter('/create#review');
+  const DetailsContent = jest.fn(() => <>Details content</>);
+
+  render(
+    <Wizard urlState={{ history, urlPart: 'hash' }}>
+      <WizardStep id="details" name="Details">
+        <DetailsContent />
+      </WizardStep>
+      <WizardStep id="review" name="Review">
+        Review content
+      </WizardStep>
+    </Wizard>
+  );
+
+  expect(screen.getByText('Review content')).toBeVisible();
+  expect(DetailsContent).not.toHaveBeenCalled();
+});
+
+test('restores the URL when navigating to the step in the URL is refused', async () => {
+  const history = createMemoryHistoryAdapter('/create?step=review');
+
+  render(
+    <Wizard urlState={{ history }} isVisitRequired>
+      <WizardStep id="details" name="Details">
+        Details content
+      </WizardStep>
+      <WizardStep id="review" name="Review">
+        Review content
+      </WizardStep>
+    </Wizard>
+  );
+
+  expect(screen.getByText('Details content')).toBeVisible();
+  expect(history.getLocation().search).toBe('?step=details');
+
+  await act(async () => history.push('/create?step=unknown'));
+  expect(screen.getByText('Details content')).toBeVisible();
+  expect(history.getLocation().search).toBe('?step=details');
+});
+
+test('restores the URL when the active step is invalid', async () => {
+  const history = createMemoryHistoryAdapter('/create');
+
+  render(
+    <Wizard urlState={{ history }}>
+      <WizardStep id="details" name="Details" validate={() => false}>
+        Details content
+      </WizardStep>
+      <WizardStep id="review" name="Review">
+        Review content
+      </WizardStep>
+    </Wizard>
+  );
+
+  await act(async () => history.push('/create?step=review'));
+  expect(screen.getByText('Details content')).toBeVisible();
+  expect(history.getLocation().search).toBe('?step=details');
+});
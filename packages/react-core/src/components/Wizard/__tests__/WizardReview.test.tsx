@@ -0,0 +1,39 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+import { Wizard, WizardReview, WizardStep } from '../';
+
+test('summarizes the data of the steps and navigates back to a step to edit it', async () => {
+  const user = userEvent.setup();
+
+  render(
+    <Wizard
+      startIndex={3}
+      defaultData={{ details: { firstName: 'Ada', isAdmin: true, groups: ['dev', 'ops'], email: '' }, plan: 'Premium' }}
+    >
+      <WizardStep id="details" name="Details">
+        Details content
+      </WizardStep>
+      <WizardStep id="plan" name="Plan">
+        Plan content
+      </WizardStep>
+      <WizardStep id="review" name="Review">
+        <WizardReview />
+      </WizardStep>
+    </Wizard>
+  );
+
+  expect(screen.getByRole('heading', { name: 'Details' })).toBeVisible();
+  expect(screen.getByRole('heading', { name: 'Plan' })).toBeVisible();
+  expect(screen.queryByRole('heading', { name: 'Review' })).not.toBeInTheDocument();
+  expect(screen.getByText('First name')).toBeVisible();
+  expect(screen.getByText('Ada')).toBeVisible();
+  expect(screen.getByText('Is admin')).toBeVisible();
+  expect(screen.getByText('Yes')).toBeVisible();
+  expect(screen.getByText('dev, ops')).toBeVisible();
+  expect(screen.getByText('Not set')).toBeVisible();
+  expect(screen.getByText('Premium')).toBeVisible();
+
+  await user.click(screen.getAllByRole('button', { name: 'Edit' })[1]);
+  expect(screen.getByText('Plan content')).toBeVisible();
+});
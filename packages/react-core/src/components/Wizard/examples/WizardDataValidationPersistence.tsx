@@ -0,0 +1,141 @@
+import {
+  Form,
+  FormGroup,
+  FormHelperText,
+  HelperText,
+  HelperTextItem,
+  Radio,
+  TextInput,
+  Wizard,
+  WizardData,
+  WizardReview,
+  WizardStep,
+  localStorageWizardAdapter,
+  useWizardContext
+} from '@patternfly/react-core';
+
+const isValidName = (name?: string) => /^[a-z0-9-]+$/.test(name ?? '');
+
+const takenNamespaces = ['default', 'openshift'];
+
+// Simulates checking on a server whether the namespace is available
+const isNamespaceAvailable = (stepData: any) =>
+  new Promise<boolean>((resolve) =>
+    setTimeout(() => resolve(!!stepData?.namespace && !takenNamespaces.includes(stepData.namespace)), 1000)
+  );
+
+const storage = localStorageWizardAdapter('pf-wizard-data-example');
+
+const defaultData: WizardData = { plan: 'Basic' };
+
+const ProjectStep: React.FunctionComponent = () => {
+  const { getStepData, setStepData, getStep } = useWizardContext();
+  const project = getStepData('project') ?? {};
+  const hasError = getStep('project')?.status === 'error' && !isValidName(project.name);
+
+  return (
+    <Form>
+      <FormGroup label="Name" isRequired fieldId="wizard-data-name">
+        <TextInput
+          id="wizard-data-name"
+          isRequired
+          value={project.name ?? ''}
+          validated={hasError ? 'error' : 'default'}
+          onChange={(_event, name) => setStepData('project', { ...project, name })}
+        />
+        <FormHelperText>
+          <HelperText>
+            <HelperTextItem variant={hasError ? 'error' : 'default'}>
+              Use lowercase letters, digits and dashes.
+            </HelperTextItem>
+          </HelperText>
+        </FormHelperText>
+      </FormGroup>
+      <FormGroup label="Description" fieldId="wizard-data-description">
+        <TextInput
+          id="wizard-data-description"
+          value={project.description ?? ''}
+          onChange={(_event, description) => setStepData('project', { ...project, description })}
+        />
+      </FormGroup>
+    </Form>
+  );
+};
+
+const NamespaceStep: React.FunctionComponent = () => {
+  const { getStepData, setStepData, getStep, isValidating } = useWizardContext();
+  const namespace = getStepData('namespace')?.namespace ?? '';
+  const hasError = getStep('namespace')?.status === 'error';
+
+  return (
+    <Form>
+      <FormGroup label="Namespace" isRequired fieldId="wizard-data-namespace">
+        <TextInput
+          id="wizard-data-namespace"
+          isRequired
+          value={namespace}
+          validated={hasError && !isValidating ? 'error' : 'default'}
+          onChange={(_event, value) => setStepData('namespace', { namespace: value })}
+        />
+        <FormHelperText>
+          <HelperText>
+            <HelperTextItem variant={hasError && !isValidating ? 'error' : 'default'}>
+              {isValidating
+                ? 'Checking the availability of the namespace...'
+                : `The ${takenNamespaces.join(' and ')} namespaces are taken.`}
+            </HelperTextItem>
+          </HelperText>
+        </FormHelperText>
+      </FormGroup>
+    </Form>
+  );
+};
+
+const PlanStep: React.FunctionComponent = () => {
+  const { getStepData, setStepData } = useWizardContext();
+  const plan = getStepData('plan');
+
+  return (
+    <Form>
+      <FormGroup role="radiogroup" isStack label="Plan" fieldId="wizard-data-plan">
+        {['Basic', 'Premium'].map((planName) => (
+          <Radio
+            key={planName}
+            id={`wizard-data-plan-${planName}`}
+            name="wizard-data-plan"
+            label={planName}
+            isChecked={plan === planName}
+            onChange={() => setStepData('plan', planName)}
+          />
+        ))}
+      </FormGroup>
+    </Form>
+  );
+};
+
+export const WizardDataValidationPersistence: React.FunctionComponent = () => {
+  const onSave = () => new Promise<void>((resolve) => setTimeout(resolve, 500));
+
+  return (
+    <Wizard
+      height={500}
+      title="Data, validation and persistence wizard"
+      defaultData={defaultData}
+      storage={storage}
+      onSave={onSave}
+    >
+      <WizardStep name="Project" id="project" validate={(project) => isValidName(project?.name)}>
+        <ProjectStep />
+      </WizardStep>
+      <WizardStep name="Namespace" id="namespace" validate={isNamespaceAvailable}>
+        <NamespaceStep />
+      </WizardStep>
+      <WizardStep name="Plan" id="plan">
+        <PlanStep />
+      </WizardStep>
+      <WizardStep name="Review" id="review" footer={{ nextButtonText: 'Create' }}>
+        <WizardReview />
+      </WizardStep>
+    </Wizard>
+  );
+};
@@ -0,0 +1,18 @@
+import { Wizard, WizardStep } from '@patternfly/react-core';
+
+export const WizardUrlState: React.FunctionComponent = () => (
+  <Wizard height={400} title="URL state wizard" urlState={{ param: 'wizard-url-state' }} isVisitRequired>
+    <WizardStep name="Step 1" id="url-state-first-step">
+      Step 1 content
+    </WizardStep>
+    <WizardStep name="Step 2" id="url-state-second-step">
+      Step 2 content
+    </WizardStep>
+    <WizardStep name="Step 3" id="url-state-third-step">
+      Step 3 content
+    </WizardStep>
+    <WizardStep name="Review" id="url-state-review-step" footer={{ nextButtonText: 'Finish' }}>
+      Review step content
+    </WizardStep>
+  </Wizard>
+);
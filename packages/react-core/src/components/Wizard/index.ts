@@ -6,6 +6,8 @@ export * from './WizardStep';
 export * from './WizardNav';
 export * from './WizardNavItem';
 export * from './WizardHeader';
+export * from './WizardReview';
+export * from './wizardStorage';
 export * from './types';
 export { useWizardFooter } from './hooks';
 export { useWizardContext, WizardContext } from './WizardContext';
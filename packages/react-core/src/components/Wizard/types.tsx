@@ -24,6 +24,8 @@ export interface WizardBasicStep {
   footer?: React.ReactElement<any> | Partial<WizardFooterProps>;
   /** Used to determine icon next to the step's navItem */
   status?: 'default' | 'error' | 'success';
+  /** Validates the data of the step before navigating to a following step. */
+  validate?: WizardStepValidator;
 }
 
 export enum WizardNavItemStatus {
@@ -52,6 +54,17 @@ export interface WizardSubStep extends WizardBasicStep {
 /** Encompasses all step type variants that are internally controlled by the Wizard. */
 export type WizardStepType = WizardBasicStep | WizardParentStep | WizardSubStep;
 
+/** Data collected by a wizard, keyed by the ID of the step it was collected in. */
+export interface WizardData {
+  [stepId: string]: any;
+}
+
+/**
+ * Callback validating the data of a step, called with the data of the step and the data of the whole wizard. Returns
+ * whether the data is valid, either directly or as a promise.
+ */
+export type WizardStepValidator = (stepData: any, data: WizardData) => boolean | Promise<boolean>;
+
 export enum WizardStepChangeScope {
   Next = 'next',
   Back = 'back',
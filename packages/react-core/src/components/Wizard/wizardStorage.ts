@@ -0,0 +1,26 @@
+import { createLocalStorageAdapter } from '../../helpers/localStorageAdapter';
+import { WizardData } from './types';
+
+/** State of a wizard saved by a storage adapter, from which a half finished wizard is resumed. */
+export interface WizardStoredState {
+  /** Data collected by the wizard. */
+  data: WizardData;
+  /** ID of the active step. */
+  activeStepId?: string | number;
+  /** IDs of the visited steps. */
+  visitedStepIds: (string | number)[];
+}
+
+/** Loads, saves and clears the state of a wizard, e.g. in localStorage or on a server. */
+export interface WizardStorageAdapter {
+  /** Returns the saved state, or undefined when none was saved. */
+  load: () => WizardStoredState | undefined;
+  /** Saves the state. */
+  save: (state: WizardStoredState) => void;
+  /** Clears the saved state, which is called once the wizard has been saved. */
+  clear: () => void;
+}
+
+/** Storage adapter which saves the state of a wizard in localStorage under the passed key. */
+export const localStorageWizardAdapter = (key: string = 'pf-wizard'): WizardStorageAdapter =>
+  createLocalStorageAdapter<WizardStoredState>(key);
@@ -17,9 +17,12 @@ export * from './Card';
 export * from './Checkbox';
 export * from './ClipboardCopy';
 export * from './CodeBlock';
+export * from './CommandPalette';
 export * from './Content';
 export * from './DataList';
 export * from './DatePicker';
+export * from './DateRangePicker';
+export * from './DateTimePicker';
 export * from './DescriptionList';
 export * from './Divider';
 export * from './Drawer';
@@ -35,6 +38,7 @@ export * from './Hint';
 export * from './Icon';
 export * from './InputGroup';
 export * from './JumpLinks';
+export * from './KeyboardShortcuts';
 export * from './Label';
 export * from './List';
 export * from './LoginPage';
@@ -45,6 +49,7 @@ export * from './Modal';
 export * from './MultipleFileUpload';
 export * from './Nav';
 export * from './NotificationBadge';
+export * from './NotificationCenter';
 export * from './NotificationDrawer';
 export * from './OverflowMenu';
 export * from './Page';
@@ -53,6 +58,7 @@ export * from './Popover';
 export * from './Progress';
 export * from './ProgressStepper';
 export * from './Radio';
+export * from './SchemaForm';
 export * from './SearchInput';
 export * from './Select';
 export * from './Sidebar';
@@ -0,0 +1,70 @@
+import {
+  getTimeZoneOffset,
+  getTimeZones,
+  getZonedDateTime,
+  isValidDate,
+  isValidTimeZone,
+  zonedDateTimeToDate
+} from '../datetimeUtils';
+
+test('isValidDate', () => {
+  expect(isValidDate(new Date(2024, 0, 1))).toBe(true);
+  expect(isValidDate(new Date('invalid'))).toBe(false);
+  expect(isValidDate(undefined)).toBe(false);
+});
+
+test('isValidTimeZone', () => {
+  expect(isValidTimeZone('Europe/Prague')).toBe(true);
+  expect(isValidTimeZone('UTC')).toBe(true);
+  expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  expect(isValidTimeZone('')).toBe(false);
+});
+
+test('getTimeZones includes UTC', () => {
+  expect(getTimeZones()).toContain('UTC');
+});
+
+test('getZonedDateTime', () => {
+  expect(getZonedDateTime(new Date('2024-01-15T23:30:45Z'), 'Asia/Tokyo')).toEqual({
+    year: 2024,
+    month: 0,
+    day: 16,
+    hours: 8,
+    minutes: 30,
+    seconds: 45
+  });
+  expect(getZonedDateTime(new Date('2024-01-15T00:00:00Z'), 'UTC')).toMatchObject({ day: 15, hours: 0 });
+});
+
+test('getTimeZoneOffset observes daylight saving time', () => {
+  expect(getTimeZoneOffset(new Date('2024-01-15T12:00:00Z'), 'Europe/Prague')).toBe(60);
+  expect(getTimeZoneOffset(new Date('2024-07-15T12:00:00Z'), 'Europe/Prague')).toBe(120);
+  expect(getTimeZoneOffset(new Date('2024-07-15T12:00:00Z'), 'America/New_York')).toBe(-240);
+  expect(getTimeZoneOffset(new Date('2024-07-15T12:00:00Z'), 'Asia/Kolkata')).toBe(330);
+});
+
+test('zonedDateTimeToDate', () => {
+  expect(
+    zonedDateTimeToDate({ year: 2024, month: 6, day: 15, hours: 9, minutes: 0, seconds: 0 }, 'America/New_York')
+  ).toEqual(new Date('2024-07-15T13:00:00Z'));
+  expect(
+    zonedDateTimeToDate({ year: 2024, month: 0, day: 1, hours: 0, minutes: 30, seconds: 15 }, 'Asia/Tokyo')
+  ).toEqual(new Date('2023-12-31T15:30:15Z'));
+});
+
+test('zonedDateTimeToDate resolves times skipped by daylight saving time to the later time', () => {
+  // Clocks in New York moved from 2:00 AM to 3:00 AM on March 10, 2024
+  const date = zonedDateTimeToDate(
+    { year: 2024, month: 2, day: 10, hours: 2, minutes: 30, seconds: 0 },
+    'America/New_York'
+  );
+  expect(date).toEqual(new Date('2024-03-10T07:30:00Z'));
+  expect(getZonedDateTime(date, 'America/New_York')).toMatchObject({ hours: 3, minutes: 30 });
+});
+
+test('zonedDateTimeToDate resolves times repeated by daylight saving time to the earlier time', () => {
+  // Clocks in New York moved from 2:00 AM back to 1:00 AM on November 3, 2024
+  expect(
+    zonedDateTimeToDate({ year: 2024, month: 10, day: 3, hours: 1, minutes: 30, seconds: 0 }, 'America/New_York')
+  ).toEqual(new Date('2024-11-03T05:30:00Z'));
+});
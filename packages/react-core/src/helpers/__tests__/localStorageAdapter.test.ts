@@ -0,0 +1,35 @@
+import { createLocalStorageAdapter } from '../localStorageAdapter';
+
+beforeEach(() => window.localStorage.clear());
+
+test('saves, loads and clears a value', () => {
+  const storage = createLocalStorageAdapter<string[]>('test-values');
+
+  expect(storage.load()).toBeUndefined();
+  storage.save(['first', 'second']);
+  expect(storage.load()).toEqual(['first', 'second']);
+  storage.clear();
+  expect(storage.load()).toBeUndefined();
+});
+
+test('revives loaded values', () => {
+  const storage = createLocalStorageAdapter('test-date', (parsed: string) => new Date(parsed));
+
+  storage.save(new Date(2024, 0, 1));
+  expect(storage.load()).toEqual(new Date(2024, 0, 1));
+});
+
+test('ignores invalid saved values', () => {
+  window.localStorage.setItem('test-invalid', '{');
+
+  expect(createLocalStorageAdapter('test-invalid').load()).toBeUndefined();
+});
+
+test('ignores values which cannot be saved', () => {
+  const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+    throw new Error('QuotaExceededError');
+  });
+
+  expect(() => createLocalStorageAdapter('test-quota').save('value')).not.toThrow();
+  setItem.mockRestore();
+});
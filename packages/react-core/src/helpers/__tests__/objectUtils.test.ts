@@ -0,0 +1,33 @@
+import { getPathValue, isDeepEqual, isPathWithin, setPathValue } from '../objectUtils';
+
+const profile = { address: { city: 'Brno' }, contacts: [{ email: 'jane@example.com' }], 'user.name': 'jane' };
+
+test('getPathValue', () => {
+  expect(getPathValue(profile, 'address.city')).toBe('Brno');
+  expect(getPathValue(profile, 'contacts.0.email')).toBe('jane@example.com');
+  expect(getPathValue(profile, 'user.name')).toBe('jane');
+  expect(getPathValue(profile, 'address.street.number')).toBeUndefined();
+});
+
+test('setPathValue', () => {
+  const nextProfile = setPathValue(profile, 'contacts.1.email', 'joe@example.com');
+
+  expect(nextProfile.contacts).toEqual([{ email: 'jane@example.com' }, { email: 'joe@example.com' }]);
+  expect(nextProfile.address).toBe(profile.address);
+  expect(profile.contacts).toHaveLength(1);
+  expect(setPathValue(profile, 'user.name', 'joe')).toEqual({ ...profile, 'user.name': 'joe' });
+  expect(setPathValue({}, 'tags.0', 'new')).toEqual({ tags: ['new'] });
+});
+
+test('isPathWithin', () => {
+  expect(isPathWithin('address.city', 'address')).toBe(true);
+  expect(isPathWithin('address', 'address')).toBe(true);
+  expect(isPathWithin('addresses', 'address')).toBe(false);
+});
+
+test('isDeepEqual', () => {
+  expect(isDeepEqual(profile, { ...profile, contacts: [{ email: 'jane@example.com' }] })).toBe(true);
+  expect(isDeepEqual(new Date(2024, 0, 1), new Date(2024, 0, 1))).toBe(true);
+  expect(isDeepEqual({ tags: [] }, { tags: {} })).toBe(false);
+  expect(isDeepEqual({ min: 1 }, { min: 1, max: undefined })).toBe(false);
+});
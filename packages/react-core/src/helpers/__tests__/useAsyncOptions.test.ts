@@ -0,0 +1,138 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { AsyncOptionsPage, useAsyncOptions } from '../useAsyncOptions';
+
+const pages: { [filter: string]: AsyncOptionsPage<string>[] } = {
+  '': [{ options: ['Apple', 'Banana'], nextCursor: 1 }, { options: ['Cherry'] }],
+  an: [{ options: ['Banana'] }]
+};
+
+const createLoader = () =>
+  jest.fn((filter: string, cursor: number | string | undefined) =>
+    Promise.resolve(pages[filter][(cursor as number) ?? 0])
+  );
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+test('Loads the first page of options', async () => {
+  const loadOptions = createLoader();
+  const { result } = renderHook(() => useAsyncOptions({ loadOptions }));
+
+  expect(result.current.isLoading).toBe(true);
+  await waitFor(() => expect(result.current.options).toEqual(['Apple', 'Banana']));
+  expect(result.current.isLoading).toBe(false);
+  expect(result.current.hasMore).toBe(true);
+  expect(loadOptions).toHaveBeenCalledWith('', undefined, expect.any(AbortSignal));
+});
+
+test('Does not load options while disabled', () => {
+  const loadOptions = createLoader();
+  renderHook(() => useAsyncOptions({ loadOptions, isDisabled: true }));
+
+  expect(loadOptions).not.toHaveBeenCalled();
+});
+
+test('Appends the next page when loading more', async () => {
+  const loadOptions = createLoader();
+  const { result } = renderHook(() => useAsyncOptions({ loadOptions }));
+  await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+  act(() => result.current.loadMore());
+
+  await waitFor(() => expect(result.current.options).toEqual(['Apple', 'Banana', 'Cherry']));
+  expect(result.current.hasMore).toBe(false);
+  expect(loadOptions).toHaveBeenLastCalledWith('', 1, expect.any(AbortSignal));
+});
+
+test('Debounces loading while the filter changes', async () => {
+  jest.useFakeTimers();
+  const loadOptions = createLoader();
+  const { result, rerender } = renderHook(({ filter }) => useAsyncOptions({ loadOptions, filter }), {
+    initialProps: { filter: '' }
+  });
+  await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+  rerender({ filter: 'a' });
+  act(() => jest.advanceTimersByTime(100));
+  rerender({ filter: 'an' });
+  act(() => jest.advanceTimersByTime(299));
+
+  expect(loadOptions).toHaveBeenCalledTimes(1);
+
+  await act(async () => jest.advanceTimersByTime(1));
+
+  expect(loadOptions).toHaveBeenCalledTimes(2);
+  expect(loadOptions).toHaveBeenLastCalledWith('an', undefined, expect.any(AbortSignal));
+  expect(result.current.options).toEqual(['Banana']);
+});
+
+test('Aborts the previous request and ignores its response', async () => {
+  let resolveFirst: (page: AsyncOptionsPage<string>) => void;
+  const signals: AbortSignal[] = [];
+  const loadOptions = jest.fn((filter: string, _cursor: unknown, signal: AbortSignal) => {
+    signals.push(signal);
+    return filter === ''
+      ? new Promise<AsyncOptionsPage<string>>((resolve) => (resolveFirst = resolve))
+      : Promise.resolve(pages[filter][0]);
+  });
+  const { result, rerender } = renderHook(({ filter }) => useAsyncOptions({ loadOptions, filter, debounceDelay: 0 }), {
+    initialProps: { filter: '' }
+  });
+
+  rerender({ filter: 'an' });
+  await waitFor(() => expect(result.current.options).toEqual(['Banana']));
+  expect(signals[0].aborted).toBe(true);
+
+  await act(async () => resolveFirst({ options: ['Stale'] }));
+
+  expect(result.current.options).toEqual(['Banana']);
+});
+
+test('Uses cached options when a filter is reused', async () => {
+  const loadOptions = createLoader();
+  const { result, rerender } = renderHook(({ filter }) => useAsyncOptions({ loadOptions, filter, debounceDelay: 0 }), {
+    initialProps: { filter: '' }
+  });
+  await waitFor(() => expect(result.current.options).toEqual(['Apple', 'Banana']));
+
+  rerender({ filter: 'an' });
+  await waitFor(() => expect(result.current.options).toEqual(['Banana']));
+  rerender({ filter: '' });
+  await waitFor(() => expect(result.current.options).toEqual(['Apple', 'Banana']));
+
+  expect(loadOptions).toHaveBeenCalledTimes(2);
+});
+
+test('Does not cache options when the cache is disabled', async () => {
+  const loadOptions = createLoader();
+  const { result, rerender } = renderHook(
+    ({ isDisabled }) => useAsyncOptions({ loadOptions, isDisabled, cache: null }),
+    {
+      initialProps: { isDisabled: false }
+    }
+  );
+  await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+  rerender({ isDisabled: true });
+  rerender({ isDisabled: false });
+  await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+  expect(loadOptions).toHaveBeenCalledTimes(2);
+});
+
+test('Exposes the error of a failed page and retries it', async () => {
+  const loadOptions = jest
+    .fn()
+    .mockRejectedValueOnce(new Error('Network error'))
+    .mockResolvedValueOnce({ options: ['Apple'] });
+  const { result } = renderHook(() => useAsyncOptions<string>({ loadOptions }));
+
+  await waitFor(() => expect(result.current.error).toEqual(new Error('Network error')));
+  expect(result.current.isLoading).toBe(false);
+
+  act(() => result.current.retry());
+
+  await waitFor(() => expect(result.current.options).toEqual(['Apple']));
+  expect(result.current.error).toBeUndefined();
+});
@@ -0,0 +1,47 @@
+import { act, renderHook } from '@testing-library/react';
+import { createMemoryHistoryAdapter, getUrlStateUrl, getUrlStateValue, useUrlState } from '../useUrlState';
+
+const location = { pathname: '/settings/general', search: '?tab=network&sort=name', hash: '#proxy' };
+
+test('Reads the state from the query, the hash or the path', () => {
+  expect(getUrlStateValue(location, { param: 'tab' })).toBe('network');
+  expect(getUrlStateValue(location, { param: 'step' })).toBeUndefined();
+  expect(getUrlStateValue(location, { urlPart: 'hash' })).toBe('proxy');
+  expect(getUrlStateValue(location, { urlPart: 'path', basePath: '/settings' })).toBe('general');
+  expect(getUrlStateValue(location, { urlPart: 'path', basePath: '/users' })).toBeUndefined();
+});
+
+test('Writes the state to the query, the hash or the path, keeping the rest of the URL', () => {
+  expect(getUrlStateUrl(location, 'storage', { param: 'tab' })).toBe('/settings/general?tab=storage&sort=name#proxy');
+  expect(getUrlStateUrl(location, undefined, { param: 'sort' })).toBe('/settings/general?tab=network#proxy');
+  expect(getUrlStateUrl(location, 'dns server', { urlPart: 'hash' })).toBe(
+    '/settings/general?tab=network&sort=name#dns%20server'
+  );
+  expect(getUrlStateUrl(location, 'users', { urlPart: 'path', basePath: '/settings/' })).toBe(
+    '/settings/users?tab=network&sort=name#proxy'
+  );
+});
+
+test('Pushes the state to the history and follows the history back', () => {
+  const history = createMemoryHistoryAdapter('/settings?tab=general');
+  const { result } = renderHook(() => useUrlState({ param: 'tab', history }));
+
+  expect(result.current[0]).toBe('general');
+
+  act(() => result.current[1]('network'));
+  expect(result.current[0]).toBe('network');
+  expect(history.getLocation().search).toBe('?tab=network');
+
+  act(() => history.back());
+  expect(result.current[0]).toBe('general');
+});
+
+test('Replaces the current entry of the history when requested', () => {
+  const history = createMemoryHistoryAdapter('/settings?tab=general');
+  const { result } = renderHook(() => useUrlState({ param: 'tab', history, shouldReplaceHistory: true }));
+
+  act(() => result.current[1]('network'));
+  act(() => history.back());
+
+  expect(result.current[0]).toBe('network');
+});
@@ -2,3 +2,134 @@
  * @param {Date} date - A date to check the validity of
  */
 export const isValidDate = (date?: Date) => Boolean(date && !isNaN(date as any));
+
+/** The calendar date and wall-clock time of a moment as observed in a time zone. */
+export interface ZonedDateTime {
+  /** Full year, e.g. 2024. */
+  year: number;
+  /** Month, from 0 (January) to 11 (December), in the same way as Date.getMonth(). */
+  month: number;
+  /** Day of the month, from 1 to 31. */
+  day: number;
+  /** Hours, from 0 to 23. */
+  hours: number;
+  /** Minutes, from 0 to 59. */
+  minutes: number;
+  /** Seconds, from 0 to 59. */
+  seconds: number;
+}
+
+const zonedDateTimeFormats: { [timeZone: string]: Intl.DateTimeFormat } = {};
+
+const getZonedDateTimeFormat = (timeZone: string) => {
+  if (!zonedDateTimeFormats[timeZone]) {
+    zonedDateTimeFormats[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+  }
+  return zonedDateTimeFormats[timeZone];
+};
+
+/**
+ * @param {string} timeZone - An IANA time zone name, e.g. 'Europe/Prague'
+ */
+export const isValidTimeZone = (timeZone?: string) => {
+  if (!timeZone) {
+    return false;
+  }
+  try {
+    getZonedDateTimeFormat(timeZone);
+    return true;
+  } catch (exception) {
+    return false;
+  }
+};
+
+/** Returns the IANA name of the time zone of the browser, e.g. 'America/New_York'. */
+export const getLocalTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/** Returns the IANA names of the time zones supported by the browser, or only UTC if they cannot be listed. */
+export const getTimeZones = (): string[] => {
+  const supportedValuesOf = (Intl as any).supportedValuesOf;
+  const timeZones: string[] = supportedValuesOf ? supportedValuesOf('timeZone') : [];
+  return timeZones.includes('UTC') ? timeZones : ['UTC', ...timeZones];
+};
+
+/**
+ * Returns the calendar date and wall-clock time of a moment as observed in a time zone.
+ *
+ * @param {Date} date - The moment to convert
+ * @param {string} timeZone - An IANA time zone name, e.g. 'Europe/Prague'
+ */
+export const getZonedDateTime = (date: Date, timeZone: string): ZonedDateTime => {
+  const parts = getZonedDateTimeFormat(timeZone)
+    .formatToParts(date)
+    .reduce((acc, { type, value }) => ({ ...acc, [type]: parseInt(value) }), {} as Record<string, number>);
+
+  return {
+    year: parts.year,
+    month: parts.month - 1,
+    day: parts.day,
+    hours: parts.hour,
+    minutes: parts.minute,
+    seconds: parts.second
+  };
+};
+
+const zonedDateTimeToTimestamp = ({ year, month, day, hours, minutes, seconds }: ZonedDateTime) => {
+  const date = new Date(Date.UTC(year, month, day, hours, minutes, seconds));
+  // Date.UTC maps the years 0 to 99 to 1900 to 1999
+  date.setUTCFullYear(year);
+  return date.getTime();
+};
+
+/**
+ * Returns the offset of a time zone from UTC at a moment, in minutes. Positive for time zones east of UTC, so the
+ * offset of 'Europe/Prague' is 60 in winter and 120 in summer.
+ *
+ * @param {Date} date - The moment at which the offset is observed, which matters for time zones with daylight saving time
+ * @param {string} timeZone - An IANA time zone name, e.g. 'Europe/Prague'
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string) => {
+  const timestamp = Math.floor(date.getTime() / 1000) * 1000;
+  return (zonedDateTimeToTimestamp(getZonedDateTime(new Date(timestamp), timeZone)) - timestamp) / 60000;
+};
+
+const isSameZonedDateTime = (a: ZonedDateTime, b: ZonedDateTime) =>
+  a.year === b.year &&
+  a.month === b.month &&
+  a.day === b.day &&
+  a.hours === b.hours &&
+  a.minutes === b.minutes &&
+  a.seconds === b.seconds;
+
+/**
+ * Returns the moment at which a time zone observes a calendar date and wall-clock time.
+ *
+ * Around daylight saving time transitions, a wall-clock time can occur twice or not at all. A time which occurs twice
+ * resolves to the earlier moment, and a time which is skipped resolves to the moment it would have been without the
+ * transition, which the time zone observes as the equivalent later time (e.g. 2:30 AM resolves to 3:30 AM).
+ *
+ * @param {ZonedDateTime} dateTime - The calendar date and wall-clock time
+ * @param {string} timeZone - An IANA time zone name, e.g. 'Europe/Prague'
+ */
+export const zonedDateTimeToDate = (dateTime: ZonedDateTime, timeZone: string) => {
+  const localTimestamp = zonedDateTimeToTimestamp(dateTime);
+  const dayInMilliseconds = 24 * 60 * 60 * 1000;
+  // Offsets a day apart surround any transition near the wall-clock time
+  const offsetBefore = getTimeZoneOffset(new Date(localTimestamp - dayInMilliseconds), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(localTimestamp + dayInMilliseconds), timeZone);
+  const candidates = [offsetBefore, offsetAfter]
+    .map((offset) => new Date(localTimestamp - offset * 60000))
+    .filter((date) => isSameZonedDateTime(getZonedDateTime(date, timeZone), dateTime))
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  return candidates.length ? candidates[0] : new Date(localTimestamp - offsetBefore * 60000);
+};
@@ -11,3 +11,7 @@ export * from './KeyboardHandler';
 export * from './resizeObserver';
 export * from './useInterval';
 export * from './datetimeUtils';
+export * from './useAsyncOptions';
+export * from './useUrlState';
+export * from './objectUtils';
+export * from './localStorageAdapter';
@@ -0,0 +1,45 @@
+/** Loads, saves and clears a value kept in localStorage. */
+export interface LocalStorageAdapter<T> {
+  /** Returns the saved value, or undefined when none was saved or it cannot be loaded. */
+  load: () => T | undefined;
+  /** Saves the value. */
+  save: (value: T) => void;
+  /** Clears the saved value. */
+  clear: () => void;
+}
+
+/**
+ * Returns an adapter which saves a value as JSON in localStorage under the passed key. Values which cannot be loaded,
+ * e.g. because localStorage is unavailable or contains invalid JSON, are returned as undefined, and values which
+ * cannot be saved, e.g. because the storage quota is exceeded, are ignored so that callers keep them in memory.
+ *
+ * @param {string} key - Key of the value in localStorage
+ * @param {function} revive - Converts the parsed JSON to the saved value, e.g. to restore dates
+ */
+export const createLocalStorageAdapter = <T>(
+  key: string,
+  revive: (parsed: any) => T = (parsed) => parsed
+): LocalStorageAdapter<T> => ({
+  load: () => {
+    try {
+      const saved = window.localStorage.getItem(key);
+      return saved === null ? undefined : revive(JSON.parse(saved));
+    } catch (exception) {
+      return undefined;
+    }
+  },
+  save: (value) => {
+    try {
+      window.localStorage.setItem(key, JSON.stringify(value));
+    } catch (exception) {
+      // Ignored, callers keep the value in memory
+    }
+  },
+  clear: () => {
+    try {
+      window.localStorage.removeItem(key);
+    } catch (exception) {
+      // Nothing to clear when localStorage cannot be accessed
+    }
+  }
+});
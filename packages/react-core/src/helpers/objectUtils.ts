@@ -0,0 +1,61 @@
+const isIndex = (key: string) => /^\d+$/.test(key);
+
+// Keys containing dots, e.g. "user.email" in flat records, are kept as is rather than treated as paths
+const hasFlatKey = (object: any, path: string) =>
+  typeof object === 'object' && object !== null && Object.prototype.hasOwnProperty.call(object, path);
+
+/**
+ * Returns the value at the given path of an object, the keys of nested objects and the indices of arrays being
+ * separated by dots, e.g. "address.city" or "contacts.0.email". Returns undefined when a part of the path does not
+ * exist.
+ */
+export const getPathValue = (object: any, path: string): any => {
+  if (object === null || object === undefined || hasFlatKey(object, path)) {
+    return object?.[path];
+  }
+  const [key, ...rest] = path.split('.');
+  return rest.length ? getPathValue(object[key], rest.join('.')) : object[key];
+};
+
+/**
+ * Returns a copy of an object with the value at the given path replaced. The objects and arrays along the path are
+ * copied, and created when missing.
+ */
+export const setPathValue = <T>(object: T, path: string, value: any): T => {
+  const [key, ...rest] = hasFlatKey(object, path) ? [path] : path.split('.');
+  const current = object as any;
+  const nextValue = rest.length
+    ? setPathValue(current?.[key] ?? (isIndex(rest[0]) ? [] : {}), rest.join('.'), value)
+    : value;
+
+  if (Array.isArray(current)) {
+    const nextArray = [...current];
+    nextArray[Number(key)] = nextValue;
+    return nextArray as T;
+  }
+  return { ...current, [key]: nextValue };
+};
+
+/** Returns whether a path is the given parent path, or a path nested within it. */
+export const isPathWithin = (path: string, parentPath: string) =>
+  path === parentPath || path.startsWith(`${parentPath}.`);
+
+/** Returns whether two values are deeply equal, comparing the keys of objects, the items of arrays and dates. */
+export const isDeepEqual = (value1: any, value2: any): boolean => {
+  if (Object.is(value1, value2)) {
+    return true;
+  }
+  if (value1 instanceof Date && value2 instanceof Date) {
+    return value1.getTime() === value2.getTime();
+  }
+  if (typeof value1 !== 'object' || typeof value2 !== 'object' || value1 === null || value2 === null) {
+    return false;
+  }
+  if (Array.isArray(value1) !== Array.isArray(value2)) {
+    return false;
+  }
+
+  const keys1 = Object.keys(value1);
+  const keys2 = Object.keys(value2);
+  return keys1.length === keys2.length && keys1.every((key) => isDeepEqual(value1[key], value2[key]));
+};
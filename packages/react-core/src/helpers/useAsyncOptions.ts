@@ -0,0 +1,177 @@
+import { useEffect, useRef, useState } from 'react';
+
+/** Cursor of the next page of asynchronously loaded options, e.g. a page number or a token returned by an API. */
+export type AsyncOptionsCursor = string | number;
+
+/** A page of asynchronously loaded options. */
+export interface AsyncOptionsPage<T> {
+  /** Options of the page. */
+  options: T[];
+  /** Cursor of the next page, or undefined or null when this is the last page. */
+  nextCursor?: AsyncOptionsCursor | null;
+}
+
+/**
+ * Loads a page of options matching a filter. The cursor is undefined for the first page. The signal is aborted when
+ * the request is no longer needed, e.g. because the filter changed, and can be passed to fetch.
+ */
+export type LoadAsyncOptions<T> = (
+  filter: string,
+  cursor: AsyncOptionsCursor | undefined,
+  signal: AbortSignal
+) => Promise<AsyncOptionsPage<T>>;
+
+/** Options loaded for a filter, which are cached so that they are not loaded again when the filter is reused. */
+export interface AsyncOptionsCacheEntry<T> {
+  /** Options of all pages loaded so far. */
+  options: T[];
+  /** Cursor of the next page, or undefined when all pages were loaded. */
+  nextCursor?: AsyncOptionsCursor;
+}
+
+export interface AsyncOptionsProps<T> {
+  /** Loads a page of options matching a filter. No options are loaded when it is not passed. */
+  loadOptions?: LoadAsyncOptions<T>;
+  /** Filter the options are loaded for, typically the value of a typeahead input. */
+  filter?: string;
+  /** Delay in milliseconds after the filter last changed before options are loaded for it. */
+  debounceDelay?: number;
+  /** Flag indicating no options are loaded, e.g. while the menu is closed. */
+  isDisabled?: boolean;
+  /** Cache of the options loaded for each filter. Pass the same map to share it between components, or null to
+   * disable caching. Defaults to a cache of the component.
+   */
+  cache?: Map<string, AsyncOptionsCacheEntry<T>> | null;
+}
+
+export interface AsyncOptionsState<T> {
+  /** Options of all pages loaded for the current filter. */
+  options: T[];
+  /** Flag indicating a page of options is being loaded. */
+  isLoading: boolean;
+  /** Reason the last page failed to load, or undefined when it did not fail. */
+  error?: any;
+  /** Flag indicating more pages can be loaded for the current filter. */
+  hasMore: boolean;
+  /** Loads the next page of options, unless one is already loading or all were loaded. */
+  loadMore: () => void;
+  /** Loads the page which failed to load again. */
+  retry: () => void;
+  /** Clears the cached options of the current filter and loads them again. */
+  reload: () => void;
+}
+
+interface AsyncOptionsRequest {
+  filter: string;
+  cursor?: AsyncOptionsCursor;
+}
+
+/**
+ * Loads options asynchronously from a data source, e.g. an API with server side filtering and pagination. Loading is
+ * debounced while the filter changes, previous requests are aborted when a new one starts, and loaded options are
+ * cached per filter.
+ */
+export const useAsyncOptions = <T>({
+  loadOptions,
+  filter = '',
+  debounceDelay = 300,
+  isDisabled = false,
+  cache
+}: AsyncOptionsProps<T>): AsyncOptionsState<T> => {
+  const [ownCache] = useState(() => new Map<string, AsyncOptionsCacheEntry<T>>());
+  const optionsCache = cache === undefined ? ownCache : cache;
+  const [debouncedFilter, setDebouncedFilter] = useState(filter);
+  const [entry, setEntry] = useState<AsyncOptionsCacheEntry<T>>({ options: [] });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<any>(undefined);
+  const abortController = useRef<AbortController>(undefined);
+  const lastRequest = useRef<AsyncOptionsRequest>(undefined);
+  // Requests read the latest loader, so that it can be passed as an inline function
+  const loadOptionsRef = useRef(loadOptions);
+  loadOptionsRef.current = loadOptions;
+
+  const request = ({ filter: requestFilter, cursor }: AsyncOptionsRequest, prevOptions: T[]) => {
+    abortController.current?.abort();
+    if (!loadOptionsRef.current) {
+      return;
+    }
+    const controller = new AbortController();
+    abortController.current = controller;
+    lastRequest.current = { filter: requestFilter, cursor };
+    setIsLoading(true);
+    setError(undefined);
+    loadOptionsRef.current(requestFilter, cursor, controller.signal).then(
+      (page) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        const newEntry = { options: [...prevOptions, ...page.options], nextCursor: page.nextCursor ?? undefined };
+        optionsCache?.set(requestFilter, newEntry);
+        setEntry(newEntry);
+        setIsLoading(false);
+      },
+      (reason) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        setError(reason);
+        setIsLoading(false);
+      }
+    );
+  };
+
+  const loadFirstPage = (requestFilter: string) => {
+    const cachedEntry = optionsCache?.get(requestFilter);
+    if (cachedEntry) {
+      abortController.current?.abort();
+      lastRequest.current = { filter: requestFilter };
+      setEntry(cachedEntry);
+      setIsLoading(false);
+      setError(undefined);
+    } else {
+      setEntry({ options: [] });
+      request({ filter: requestFilter }, []);
+    }
+  };
+
+  useEffect(() => {
+    if (filter === debouncedFilter) {
+      return;
+    }
+    const timeout = setTimeout(() => setDebouncedFilter(filter), debounceDelay);
+    return () => clearTimeout(timeout);
+  }, [filter, debounceDelay]);
+
+  const hasLoader = loadOptions !== undefined;
+  useEffect(() => {
+    if (!isDisabled) {
+      loadFirstPage(debouncedFilter);
+    }
+  }, [debouncedFilter, isDisabled, hasLoader]);
+
+  useEffect(() => () => abortController.current?.abort(), []);
+
+  const hasMore = entry.nextCursor !== undefined;
+
+  return {
+    options: entry.options,
+    isLoading,
+    error,
+    hasMore,
+    loadMore: () => {
+      if (!isLoading && !error && hasMore) {
+        request({ filter: debouncedFilter, cursor: entry.nextCursor }, entry.options);
+      }
+    },
+    retry: () => {
+      if (lastRequest.current) {
+        request(lastRequest.current, lastRequest.current.cursor === undefined ? [] : entry.options);
+      }
+    },
+    reload: () => {
+      optionsCache?.delete(debouncedFilter);
+      setEntry({ options: [] });
+      request({ filter: debouncedFilter }, []);
+    }
+  };
+};
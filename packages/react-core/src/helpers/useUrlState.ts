@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useState } from 'react';
+import { canUseDOM } from './util';
+
+/** Parts of the URL of a location. */
+export interface UrlHistoryLocation {
+  /** Path of the URL, e.g. "/settings/general". */
+  pathname: string;
+  /** Query of the URL including the leading "?", or an empty string. */
+  search: string;
+  /** Hash of the URL including the leading "#", or an empty string. */
+  hash: string;
+}
+
+/**
+ * Reads and changes the URL through the history of a router, e.g. window.history or the history of a routing library,
+ * so that components can keep their state in the URL whatever the router.
+ */
+export interface UrlHistoryAdapter {
+  /** Returns the current location. */
+  getLocation: () => UrlHistoryLocation;
+  /** Navigates to a URL, adding an entry to the history. */
+  push: (url: string) => void;
+  /** Navigates to a URL, replacing the current entry of the history. */
+  replace: (url: string) => void;
+  /** Calls the listener each time the location changes, e.g. with the back and forward buttons of the browser, and
+   * returns a function removing the listener.
+   */
+  listen: (listener: () => void) => () => void;
+}
+
+const windowHistoryListeners: (() => void)[] = [];
+
+const notifyWindowHistoryListeners = () => windowHistoryListeners.forEach((listener) => listener());
+
+/** History adapter which reads and changes the URL with window.location and window.history. */
+export const windowHistoryAdapter: UrlHistoryAdapter = {
+  getLocation: () =>
+    canUseDOM
+      ? { pathname: window.location.pathname, search: window.location.search, hash: window.location.hash }
+      : { pathname: '/', search: '', hash: '' },
+  push: (url) => {
+    window.history.pushState(window.history.state, '', url);
+    notifyWindowHistoryListeners();
+  },
+  replace: (url) => {
+    window.history.replaceState(window.history.state, '', url);
+    notifyWindowHistoryListeners();
+  },
+  listen: (listener) => {
+    // popstate isn't dispatched when pushing or replacing, so other components syncing with the URL are notified
+    windowHistoryListeners.push(listener);
+    window.addEventListener('popstate', listener);
+    return () => {
+      windowHistoryListeners.splice(windowHistoryListeners.indexOf(listener), 1);
+      window.removeEventListener('popstate', listener);
+    };
+  }
+};
+
+/** History adapter keeping its entries in memory, which can also navigate back and forward. */
+export interface MemoryHistoryAdapter extends UrlHistoryAdapter {
+  /** Navigates to the previous entry of the history. */
+  back: () => void;
+  /** Navigates to the next entry of the history. */
+  forward: () => void;
+}
+
+/** Creates a history adapter keeping its entries in memory, e.g. for tests or for components rendered outside of a
+ * browser.
+ */
+export const createMemoryHistoryAdapter = (initialUrl: string = '/'): MemoryHistoryAdapter => {
+  const entries = [initialUrl];
+  let entryIndex = 0;
+  const listeners: (() => void)[] = [];
+  const navigate = (nextEntryIndex: number) => {
+    entryIndex = Math.min(Math.max(nextEntryIndex, 0), entries.length - 1);
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    getLocation: () => {
+      const { pathname, search, hash } = new URL(entries[entryIndex], 'http://localhost');
+      return { pathname, search, hash };
+    },
+    push: (url) => {
+      entries.splice(entryIndex + 1, entries.length, url);
+      navigate(entryIndex + 1);
+    },
+    replace: (url) => {
+      entries[entryIndex] = url;
+      navigate(entryIndex);
+    },
+    listen: (listener) => {
+      listeners.push(listener);
+      return () => {
+        listeners.splice(listeners.indexOf(listener), 1);
+      };
+    },
+    back: () => navigate(entryIndex - 1),
+    forward: () => navigate(entryIndex + 1)
+  };
+};
+
+export interface UrlStateOptions {
+  /** Part of the URL the state is kept in: a query parameter, the hash, or the last segment of the path. Defaults to
+   * 'query'.
+   */
+  urlPart?: 'query' | 'hash' | 'path';
+  /** Name of the query parameter the state is kept in, which is required when the state is kept in the query. */
+  param?: string;
+  /** Path the state is appended to when it is kept in the path, e.g. "/settings" for "/settings/general". */
+  basePath?: string;
+  /** History through which the URL is read and changed. Defaults to window.history. */
+  history?: UrlHistoryAdapter;
+  /** Flag indicating changes of the state replace the current entry of the history rather than adding one, so that
+   * the back button of the browser does not return to the previous state.
+   */
+  shouldReplaceHistory?: boolean;
+}
+
+type UrlStateLocationOptions = Pick<UrlStateOptions, 'urlPart' | 'param' | 'basePath'>;
+
+const trimPath = (path: string) => path.replace(/\/+$/, '');
+
+/** Returns the state kept in the URL of a location, or undefined when the URL has none. */
+export const getUrlStateValue = (
+  location: UrlHistoryLocation,
+  { urlPart = 'query', param, basePath = '' }: UrlStateLocationOptions
+): string | undefined => {
+  if (urlPart === 'hash') {
+    return location.hash.length > 1 ? decodeURIComponent(location.hash.slice(1)) : undefined;
+  }
+  if (urlPart === 'path') {
+    const pathPrefix = `${trimPath(basePath)}/`;
+    const segment = location.pathname.startsWith(pathPrefix)
+      ? location.pathname.slice(pathPrefix.length).split('/')[0]
+      : '';
+    return segment ? decodeURIComponent(segment) : undefined;
+  }
+  return new URLSearchParams(location.search).get(param) ?? undefined;
+};
+
+/** Returns the URL of a location with the state kept in it replaced, or removed when the state is undefined. */
+export const getUrlStateUrl = (
+  location: UrlHistoryLocation,
+  value: string | undefined,
+  { urlPart = 'query', param, basePath = '' }: UrlStateLocationOptions
+) => {
+  if (urlPart === 'hash') {
+    return `${location.pathname}${location.search}${value === undefined ? '' : `#${encodeURIComponent(value)}`}`;
+  }
+  if (urlPart === 'path') {
+    const path = value === undefined ? basePath : `${trimPath(basePath)}/${encodeURIComponent(value)}`;
+    return `${path}${location.search}${location.hash}`;
+  }
+  const searchParams = new URLSearchParams(location.search);
+  value === undefined ? searchParams.delete(param) : searchParams.set(param, value);
+  const search = searchParams.toString();
+  return `${location.pathname}${search ? `?${search}` : ''}${location.hash}`;
+};
+
+/**
+ * Keeps a state in a query parameter, the hash or the path of the URL, so that it can be deep linked and navigated
+ * with the back and forward buttons of the browser. Returns the state and a function changing it, which adds an entry
+ * to the history unless shouldReplace is passed.
+ */
+export const useUrlState = ({
+  urlPart = 'query',
+  param,
+  basePath,
+  history = windowHistoryAdapter,
+  shouldReplaceHistory = false
+}: UrlStateOptions = {}) => {
+  const [value, setLocalValue] = useState(() => getUrlStateValue(history.getLocation(), { urlPart, param, basePath }));
+
+  useEffect(() => {
+    const updateValue = () => setLocalValue(getUrlStateValue(history.getLocation(), { urlPart, param, basePath }));
+    updateValue();
+    return history.listen(updateValue);
+  }, [history, urlPart, param, basePath]);
+
+  const setValue = useCallback(
+    (nextValue: string | undefined, shouldReplace: boolean = shouldReplaceHistory) => {
+      const location = history.getLocation();
+      const url = getUrlStateUrl(location, nextValue, { urlPart, param, basePath });
+
+      if (url !== `${location.pathname}${location.search}${location.hash}`) {
+        shouldReplace ? history.replace(url) : history.push(url);
+      }
+      setLocalValue(nextValue);
+    },
+    [history, urlPart, param, basePath, shouldReplaceHistory]
+  );
+
+  return [value, setValue] as const;
+};
@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+import { useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { css } from '@patternfly/react-styles';
+import styles from '@patternfly/react-styles/css/components/DragDrop/drag-drop';
+import { DragButton } from './DragButton';
+import { DraggableObject, DraggableRenderProps } from './DragDropContainer';
+
+interface CustomDraggableProps {
+  /** Draggable object to render */
+  item: DraggableObject;
+  /** Renders the draggable object with the passed props */
+  renderDraggable: (item: DraggableObject, draggableProps: DraggableRenderProps) => React.ReactElement;
+  /** Flag indicating the draggable object is rendered in the drag overlay */
+  isOverlay?: boolean;
+}
+
+export const CustomDraggable: React.FunctionComponent<CustomDraggableProps> = ({
+  item,
+  renderDraggable,
+  isOverlay = false
+}: CustomDraggableProps) => {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: item.id
+  });
+  // Some components only accept ref objects, so the sortable node is registered once the element has mounted
+  const ref = useRef<HTMLElement>(null);
+  useEffect(() => setNodeRef(ref.current), [setNodeRef]);
+
+  return renderDraggable(item, {
+    ref,
+    className: css(isDragging && styles.droppable, isDragging && styles.modifiers.dragging),
+    style: {
+      transform: CSS.Translate.toString(transform),
+      transition
+    },
+    dragButton: <DragButton {...attributes} {...listeners} />,
+    isOverlay
+  });
+};
+CustomDraggable.displayName = 'CustomDraggable';
@@ -24,6 +24,7 @@ import { arrayMove, sortableKeyboardCoordinates } from '@dnd-kit/sortable';
 import { Draggable } from './Draggable';
 import { DraggableDataListItem } from './DraggableDataListItem';
 import { DraggableDualListSelectorListItem } from './DraggableDualListSelectorListItem';
+import { CustomDraggable } from './CustomDraggable';
 import styles from '@patternfly/react-styles/css/components/DragDrop/drag-drop';
 import { DataList } from '@patternfly/react-core/dist/esm/components/DataList/DataList';
 import { canUseDOM } from '@patternfly/react-core/dist/esm/helpers/util';
@@ -42,6 +43,20 @@ export interface DraggableObject {
   props?: any;
 }
 
+/** Props passed to the renderDraggable callback, to be applied to the element rendering a draggable object. */
+export interface DraggableRenderProps {
+  /** Ref of the rendered element, which is registered as the sortable node once it has mounted */
+  ref: React.RefObject<any>;
+  /** Classes of the rendered element while it is dragged */
+  className: string;
+  /** Style which moves the rendered element while the objects are sorted */
+  style: React.CSSProperties;
+  /** Drag button which moves the draggable object */
+  dragButton: React.ReactElement;
+  /** Flag indicating the draggable object is rendered in the drag overlay */
+  isOverlay: boolean;
+}
+
 /**
  * DragDropSortProps extends dnd-kit's props which may be viewed at https://docs.dndkit.com/api-documentation/context-provider#props.
  */
@@ -64,6 +79,10 @@ export interface DragDropContainerProps extends DndContextProps {
    * DualListSelectorList variant wraps the draggable objects in a DualListSelectorListItem and a div.pf-c-dual-list-selector__item-text element
    * */
   variant?: 'default' | 'DataList' | 'DualListSelectorList';
+  /** Renders the draggable objects and the drag overlay instead of the component of the variant, e.g. as the
+   * headers of a table row. The element must be rendered with the passed ref, className and style, and contain the passed drag button.
+   */
+  renderDraggable?: (item: DraggableObject, draggableProps: DraggableRenderProps) => React.ReactElement;
   /** Additional classes to apply to the drag overlay */
   overlayProps?: any;
 }
@@ -77,6 +96,7 @@ export const DragDropContainer: React.FunctionComponent<DragDropContainerProps>
   onCancel = () => {},
   variant = 'default',
   overlayProps,
+  renderDraggable,
   ...props
 }: DragDropContainerProps) => {
   const itemsCopy = useRef<Record<string, DraggableObject[]> | null>(null);
@@ -243,27 +263,31 @@ export const DragDropContainer: React.FunctionComponent<DragDropContainerProps>
     const item = findItem(activeId, findContainer(activeId));
 
     let content;
-    switch (variant) {
-      case 'DualListSelectorList':
-        content = (
-          <DraggableDualListSelectorListItem key={item.id} id={item.id} {...item.props}>
-            {item.content}
-          </DraggableDualListSelectorListItem>
-        );
-        break;
-      case 'DataList':
-        content = (
-          <DraggableDataListItem key={item.id} id={item.id} {...item.props}>
-            {item.content}
-          </DraggableDataListItem>
-        );
-        break;
-      default:
-        content = (
-          <Draggable useDragButton={variant === 'default'} key={item.id} id={item.id} {...item.props}>
-            {item.content}
-          </Draggable>
-        );
+    if (renderDraggable) {
+      content = <CustomDraggable key={item.id} item={item} renderDraggable={renderDraggable} isOverlay />;
+    } else {
+      switch (variant) {
+        case 'DualListSelectorList':
+          content = (
+            <DraggableDualListSelectorListItem key={item.id} id={item.id} {...item.props}>
+              {item.content}
+            </DraggableDualListSelectorListItem>
+          );
+          break;
+        case 'DataList':
+          content = (
+            <DraggableDataListItem key={item.id} id={item.id} {...item.props}>
+              {item.content}
+            </DraggableDataListItem>
+          );
+          break;
+        default:
+          content = (
+            <Draggable useDragButton={variant === 'default'} key={item.id} id={item.id} {...item.props}>
+              {item.content}
+            </Draggable>
+          );
+      }
     }
 
     return (
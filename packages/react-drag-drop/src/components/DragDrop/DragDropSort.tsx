@@ -1,7 +1,7 @@
 import { useMemo } from 'react';
 import { DndContextProps, DragEndEvent, DragStartEvent } from '@dnd-kit/core';
 import { Droppable } from './Droppable';
-import { DragDropContainer, DraggableObject } from './DragDropContainer';
+import { DragDropContainer, DraggableObject, DraggableRenderProps } from './DragDropContainer';
 
 export type DragDropSortDragEndEvent = DragEndEvent;
 export type DragDropSortDragStartEvent = DragStartEvent;
@@ -25,6 +25,14 @@ export interface DragDropSortProps extends DndContextProps {
    * DualListSelectorList variant wraps the draggable objects in a DualListSelectorListItem and a div.pf-c-dual-list-selector__item-text element
    * */
   variant?: 'default' | 'DataList' | 'DualListSelectorList';
+  /** Renders the draggable objects instead of the component of the variant, e.g. as the headers of a table row. The
+   * element must be rendered with the passed ref, className and style, and contain the passed drag button.
+   */
+  renderDraggable?: (item: DraggableObject, draggableProps: DraggableRenderProps) => React.ReactElement;
+  /** Orientation of the draggable objects, which are sorted horizontally, e.g. for the headers of a table row, or
+   * vertically.
+   */
+  orientation?: 'vertical' | 'horizontal';
   /** Additional classes to apply to the drag overlay */
   overlayProps?: any;
 }
@@ -36,6 +44,8 @@ export const DragDropSort: React.FunctionComponent<DragDropSortProps> = ({
   variant = 'default',
   children,
   overlayProps,
+  renderDraggable,
+  orientation,
   ...props
 }: DragDropSortProps) => {
   const itemIds = useMemo(() => (items ? Array.from(items, (item) => item.id as string) : []), [items]);
@@ -59,8 +69,16 @@ export const DragDropSort: React.FunctionComponent<DragDropSortProps> = ({
       onDrag={handleDragStart}
       onDrop={handleDragEnd}
       overlayProps={overlayProps}
+      renderDraggable={renderDraggable}
     >
-      <Droppable items={items} id={dropZoneId} variant={variant} {...(children && { wrapper: children })} />
+      <Droppable
+        items={items}
+        id={dropZoneId}
+        variant={variant}
+        renderDraggable={renderDraggable}
+        orientation={orientation}
+        {...(children && { wrapper: children })}
+      />
     </DragDropContainer>
   );
 };
@@ -1,10 +1,11 @@
 import { cloneElement, useMemo } from 'react';
 import { useDroppable } from '@dnd-kit/core';
-import { DraggableObject } from './DragDropContainer';
-import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { DraggableObject, DraggableRenderProps } from './DragDropContainer';
+import { SortableContext, horizontalListSortingStrategy, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { DraggableDualListSelectorListItem } from './DraggableDualListSelectorListItem';
 import { DraggableDataListItem } from './DraggableDataListItem';
 import { Draggable } from './Draggable';
+import { CustomDraggable } from './CustomDraggable';
 
 interface DroppableProps extends React.HTMLProps<HTMLDivElement> {
   /** ID of the drop zone */
@@ -22,6 +23,14 @@ interface DroppableProps extends React.HTMLProps<HTMLDivElement> {
    * TableComposable variant wraps the draggable objects in TODO
    * */
   variant?: 'default' | 'DataList' | 'DualListSelectorList' | 'TableComposable';
+  /** Renders the draggable objects instead of the component of the variant, e.g. as the headers of a table row. The
+   * element must be rendered with the passed ref, className and style, and contain the passed drag button.
+   */
+  renderDraggable?: (item: DraggableObject, draggableProps: DraggableRenderProps) => React.ReactElement;
+  /** Orientation of the draggable objects, which are sorted horizontally, e.g. for the headers of a table row, or
+   * vertically.
+   */
+  orientation?: 'vertical' | 'horizontal';
 }
 
 export const Droppable: React.FunctionComponent<DroppableProps> = ({
@@ -29,12 +38,17 @@ export const Droppable: React.FunctionComponent<DroppableProps> = ({
   id = 'droppable',
   variant = 'default',
   wrapper,
+  renderDraggable,
+  orientation = 'vertical',
   ...props
 }: DroppableProps) => {
   const itemIds = useMemo(() => (items ? Array.from(items, (item) => item.id as string) : []), [items]);
   const { setNodeRef } = useDroppable({ id: id ? id : 'droppable' });
 
   const content = items.map((item: DraggableObject) => {
+    if (renderDraggable) {
+      return <CustomDraggable key={item.id} item={item} renderDraggable={renderDraggable} />;
+    }
     switch (variant) {
       case 'DualListSelectorList':
         return (
@@ -58,7 +72,11 @@ export const Droppable: React.FunctionComponent<DroppableProps> = ({
   });
 
   return (
-    <SortableContext items={itemIds} strategy={verticalListSortingStrategy} id={id}>
+    <SortableContext
+      items={itemIds}
+      strategy={orientation === 'horizontal' ? horizontalListSortingStrategy : verticalListSortingStrategy}
+      id={id}
+    >
       {wrapper &&
         cloneElement(wrapper, {
           children: content,
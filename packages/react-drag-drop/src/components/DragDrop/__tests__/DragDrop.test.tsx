@@ -1,4 +1,4 @@
-import { render } from '@testing-library/react';
+import { render, screen } from '@testing-library/react';
 import { DragDropSort } from '../';
 
 jest.mock('react-dom', () => ({
@@ -21,3 +21,27 @@ test('renders some divs', () => {
   );
   expect(asFragment()).toMatchSnapshot();
 });
+
+test('renders the draggable objects with renderDraggable', () => {
+  render(
+    <DragDropSort
+      items={[
+        { id: 'name', content: 'Name' },
+        { id: 'branches', content: 'Branches' }
+      ]}
+      onDrop={() => {}}
+      orientation="horizontal"
+      renderDraggable={(item, { ref, className, style, dragButton }) => (
+        <li ref={ref} className={className} style={style}>
+          {dragButton}
+          {item.content}
+        </li>
+      )}
+    >
+      <ul aria-label="Sortable columns" />
+    </DragDropSort>
+  );
+
+  expect(screen.getAllByRole('listitem').map((li) => li.textContent)).toEqual(['Name', 'Branches']);
+  expect(screen.getAllByRole('button', { name: 'Drag button' })).toHaveLength(2);
+});
@@ -0,0 +1,70 @@
+import { FormSelect, FormSelectOption } from '@patternfly/react-core/dist/esm/components/FormSelect';
+import { HelperText, HelperTextItem } from '@patternfly/react-core/dist/esm/components/HelperText';
+import { TextInput } from '@patternfly/react-core/dist/esm/components/TextInput';
+import { TdEditableType } from './base/types';
+
+export interface CellEditorProps extends Pick<TdEditableType, 'type' | 'options' | 'inputProps'> {
+  /** The edited value */
+  value: string;
+  /** Callback when the edited value changes */
+  onChange: (value: string) => void;
+  /** Error message of the edited value */
+  error?: string;
+  /** Id of the error message */
+  errorId: string;
+  /** Accessible name of the editor */
+  'aria-label'?: string;
+}
+
+export const CellEditor: React.FunctionComponent<CellEditorProps> = ({
+  type = 'text',
+  value,
+  onChange,
+  options = [],
+  error,
+  errorId,
+  'aria-label': ariaLabel,
+  inputProps
+}: CellEditorProps) => {
+  const validated = error ? 'error' : 'default';
+  const sharedProps = {
+    'aria-label': ariaLabel,
+    'aria-invalid': !!error,
+    ...(error && { 'aria-describedby': errorId }),
+    ...inputProps
+  };
+
+  return (
+    <>
+      {type === 'select' ? (
+        <FormSelect
+          value={value}
+          validated={validated}
+          onChange={(_event, newValue) => onChange(newValue)}
+          {...sharedProps}
+        >
+          {options.map((option) => (
+            <FormSelectOption
+              key={option.value}
+              value={option.value}
+              label={option.label ?? option.value}
+              isDisabled={option.isDisabled}
+            />
+          ))}
+        </FormSelect>
+      ) : (
+        <TextInput
+          type={type}
+          value={value}
+          validated={validated}
+          onChange={(_event, newValue) => onChange(newValue)}
+          {...sharedProps}
+        />
+      )}
+      <HelperText id={errorId} isLiveRegion>
+        {error && <HelperTextItem variant="error">{error}</HelperTextItem>}
+      </HelperText>
+    </>
+  );
+};
+CellEditor.displayName = 'CellEditor';
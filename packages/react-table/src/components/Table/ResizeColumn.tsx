@@ -0,0 +1,122 @@
+import { useEffect, useRef } from 'react';
+import { css } from '@patternfly/react-styles';
+import { getLanguageDirection } from '@patternfly/react-core/dist/esm/helpers/util';
+import { ThResizeType } from './base/types';
+import globalSpacerSm from '@patternfly/react-tokens/dist/esm/t_global_spacer_sm';
+
+export interface ResizeColumnProps extends ThResizeType {
+  /** Additional classes added to the resize handle */
+  className?: string;
+}
+
+export const ResizeColumn: React.FunctionComponent<ResizeColumnProps> = ({
+  className,
+  width,
+  minWidth = 50,
+  maxWidth,
+  onResize,
+  onResizeEnd,
+  increment = 5,
+  'aria-label': ariaLabel = 'Resize column'
+}: ResizeColumnProps) => {
+  const handleRef = useRef<HTMLDivElement>(null);
+  // Removes the document listeners of the ongoing resize, also when the column is unmounted while it is resized
+  const stopResizeRef = useRef<() => void>(null);
+
+  useEffect(() => () => stopResizeRef.current?.(), []);
+
+  const getCellWidth = () => width ?? handleRef.current.closest('th, td').getBoundingClientRect().width;
+  const clampWidth = (newWidth: number) =>
+    Math.round(Math.min(Math.max(newWidth, minWidth), maxWidth !== undefined ? maxWidth : Infinity));
+  // In right-to-left languages the end edge of the column is on the left, so pointer movement is reversed
+  const getDirection = () => (getLanguageDirection(handleRef.current) === 'rtl' ? -1 : 1);
+
+  const startResize = (startPosition: number, isTouch: boolean) => {
+    const startWidth = getCellWidth();
+    const direction = getDirection();
+    let newWidth = startWidth;
+
+    const handleMove = (event: MouseEvent | TouchEvent) => {
+      const position = isTouch ? (event as TouchEvent).touches[0].clientX : (event as MouseEvent).clientX;
+      isTouch && event.preventDefault();
+      newWidth = clampWidth(startWidth + (position - startPosition) * direction);
+      onResize(event, newWidth);
+    };
+
+    const handleEnd = (event: MouseEvent | TouchEvent) => {
+      stopResizeRef.current();
+      onResizeEnd && onResizeEnd(event, newWidth);
+    };
+
+    stopResizeRef.current?.();
+    document.addEventListener(isTouch ? 'touchmove' : 'mousemove', handleMove, { passive: false });
+    document.addEventListener(isTouch ? 'touchend' : 'mouseup', handleEnd);
+    stopResizeRef.current = () => {
+      document.removeEventListener(isTouch ? 'touchmove' : 'mousemove', handleMove);
+      document.removeEventListener(isTouch ? 'touchend' : 'mouseup', handleEnd);
+      stopResizeRef.current = null;
+    };
+  };
+
+  const handleKeys = (event: React.KeyboardEvent) => {
+    let newWidth: number;
+    switch (event.key) {
+      case 'ArrowLeft':
+        newWidth = getCellWidth() - increment * getDirection();
+        break;
+      case 'ArrowRight':
+        newWidth = getCellWidth() + increment * getDirection();
+        break;
+      case 'Home':
+        newWidth = minWidth;
+        break;
+      case 'End':
+        if (maxWidth === undefined) {
+          return;
+        }
+        newWidth = maxWidth;
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    newWidth = clampWidth(newWidth);
+    onResize(event, newWidth);
+    onResizeEnd && onResizeEnd(event, newWidth);
+  };
+
+  return (
+    <div
+      ref={handleRef}
+      className={css(className)}
+      role="separator"
+      tabIndex={0}
+      aria-orientation="vertical"
+      aria-label={ariaLabel}
+      aria-valuenow={width !== undefined ? Math.round(width) : undefined}
+      aria-valuemin={minWidth}
+      aria-valuemax={maxWidth}
+      style={{
+        position: 'absolute',
+        insetBlock: 0,
+        insetInlineEnd: 0,
+        width: globalSpacerSm.var,
+        cursor: 'col-resize',
+        touchAction: 'none'
+      }}
+      onMouseDown={(event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        startResize(event.clientX, false);
+      }}
+      onTouchStart={(event) => {
+        event.stopPropagation();
+        startResize(event.touches[0].clientX, true);
+      }}
+      onClick={(event) => event.stopPropagation()}
+      onKeyDown={handleKeys}
+    />
+  );
+};
+ResizeColumn.displayName = 'ResizeColumn';
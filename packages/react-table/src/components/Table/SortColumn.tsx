@@ -5,6 +5,8 @@ import ArrowsAltVIcon from '@patternfly/react-icons/dist/esm/icons/arrows-alt-v-
 import StarIcon from '@patternfly/react-icons/dist/esm/icons/star-icon';
 import { css } from '@patternfly/react-styles';
 import styles from '@patternfly/react-styles/css/components/Table/table';
+import accessibilityStyles from '@patternfly/react-styles/css/utilities/Accessibility/accessibility';
+import textStyles from '@patternfly/react-styles/css/utilities/Text/text';
 import { TableText } from './TableText';
 import { ActionList, ActionListItem } from '@patternfly/react-core/dist/esm/components/ActionList';
 import { Button } from '@patternfly/react-core/dist/esm/components/Button';
@@ -26,6 +28,8 @@ export interface SortColumnProps extends React.ButtonHTMLAttributes<HTMLButtonEl
   tooltipProps?: Omit<TooltipProps, 'content'>;
   tooltipHasDefaultBehavior?: boolean;
   favoriteButtonProps?: FavoriteButtonProps;
+  /** Position of the column in a multi-column sort, starting at 1. Rendered next to the sort indicator. */
+  sortPriority?: number;
 }
 
 export const SortColumn: React.FunctionComponent<SortColumnProps> = ({
@@ -39,6 +43,7 @@ export const SortColumn: React.FunctionComponent<SortColumnProps> = ({
   tooltipProps,
   tooltipHasDefaultBehavior,
   favoriteButtonProps,
+  sortPriority,
   ...props
 }: SortColumnProps) => {
   let SortedByIcon;
@@ -91,6 +96,12 @@ export const SortColumn: React.FunctionComponent<SortColumnProps> = ({
         </TableText>
         <span className={css(styles.tableSortIndicator)}>
           <SortedByIcon />
+          {sortPriority !== undefined && (
+            <span className={css(textStyles.fontSizeSm)}>
+              <span className={css(accessibilityStyles.screenReader)}>Sort priority </span>
+              {sortPriority}
+            </span>
+          )}
         </span>
       </div>
     </button>
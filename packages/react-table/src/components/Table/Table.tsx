@@ -8,7 +8,7 @@ import { IVisibility } from './utils/decorators/classNames';
 import { handleArrows, setTabIndex } from '@patternfly/react-core/dist/esm/helpers/KeyboardHandler';
 import { KeyTypes } from '@patternfly/react-core/dist/esm/helpers/constants';
 import { useOUIAProps, OUIAProps } from '@patternfly/react-core/dist/esm/helpers/OUIA/ouia';
-import { TableGridBreakpoint, TableVariant } from './TableTypes';
+import { ISortByColumn, TableGridBreakpoint, TableVariant } from './TableTypes';
 
 export interface BaseCellProps {
   /** Content rendered inside the cell */
@@ -63,6 +63,11 @@ export interface TableProps extends React.HTMLProps<HTMLTableElement>, OUIAProps
   hasNoInset?: boolean;
   /** Collection of column spans for nested headers. Deprecated: see https://github.com/patternfly/patternfly/issues/4584 */
   nestedHeaderColumnSpans?: number[];
+  /** Flag indicating the cells of the table are navigated with the arrow keys following the ARIA grid pattern. Only
+   * one cell is in the tab sequence at a time. Arrow keys move between cells, Home and End move to the first and last
+   * cell of a row, and Control+Home and Control+End move to the first and last cell of the table.
+   */
+  hasCellNavigation?: boolean;
   /** Visible text to add alongside the hidden a11y caption for tables with selectable rows. */
   selectableRowCaptionText?: string;
   /** Value to overwrite the randomly generated data-ouia-component-id.*/
@@ -73,12 +78,30 @@ export interface TableProps extends React.HTMLProps<HTMLTableElement>, OUIAProps
 
 interface TableContextProps {
   registerSelectableRow?: () => void;
+  hasCellNavigation?: boolean;
+  setVirtualizedRowCount?: (rowCount: number | undefined) => void;
+  registerSortColumn?: (columnIndex: number, label: string) => void;
+  announceSortBy?: (
+    sortBy: ISortByColumn[],
+    getSortAnnouncement?: (sortBy: ISortByColumn[], columnLabels: Record<number, string>) => string
+  ) => void;
 }
 
 export const TableContext = createContext<TableContextProps>({
-  registerSelectableRow: () => {}
+  registerSelectableRow: () => {},
+  hasCellNavigation: false,
+  setVirtualizedRowCount: () => {},
+  registerSortColumn: () => {},
+  announceSortBy: () => {}
 });
 
+const getDefaultSortAnnouncement = (sortBy: ISortByColumn[], columnLabels: Record<number, string>) =>
+  sortBy.length
+    ? `Sorted by ${sortBy
+        .map(({ index, direction }) => `${columnLabels[index] ?? `column ${index + 1}`} ${direction}ending`)
+        .join(', then by ')}`
+    : 'Not sorted';
+
 const TableBase: React.FunctionComponent<TableProps> = ({
   children,
   className,
@@ -96,6 +119,7 @@ const TableBase: React.FunctionComponent<TableProps> = ({
   isStriped = false,
   isExpandable = false,
   hasNoInset = false,
+  hasCellNavigation = false,
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   nestedHeaderColumnSpans,
   selectableRowCaptionText,
@@ -105,7 +129,12 @@ const TableBase: React.FunctionComponent<TableProps> = ({
   const tableRef = innerRef || ref;
 
   const [hasSelectableRows, setHasSelectableRows] = useState(false);
-  const [tableCaption, setTableCaption] = useState<React.JSX.Element | undefined>();
+  // Total number of rows when the body is virtualized, since only some of the rows are rendered
+  const [virtualizedRowCount, setVirtualizedRowCount] = useState<number | undefined>();
+  // Labels of the multi-column sortable headers, used to announce the full sort order when it changes
+  const sortColumnLabels = useRef<Record<number, string>>({});
+  const [hasMultiSort, setHasMultiSort] = useState(false);
+  const [sortAnnouncement, setSortAnnouncement] = useState('');
 
   useEffect(() => {
     document.addEventListener('keydown', handleKeys);
@@ -121,27 +150,6 @@ const TableBase: React.FunctionComponent<TableProps> = ({
     };
   }, [tableRef, tableRef.current]);
 
-  useEffect(() => {
-    if (selectableRowCaptionText) {
-      setTableCaption(
-        <caption>
-          {selectableRowCaptionText}
-          <div className="pf-v6-screen-reader">
-            This table has selectable rows. It can be navigated by row using tab, and each row can be selected using
-            space or enter.
-          </div>
-        </caption>
-      );
-    } else {
-      setTableCaption(
-        <caption className="pf-v6-screen-reader">
-          This table has selectable rows. It can be navigated by row using tab, and each row can be selected using space
-          or enter.
-        </caption>
-      );
-    }
-  }, [selectableRowCaptionText]);
-
   const ouiaProps = useOUIAProps('Table', ouiaId, ouiaSafe);
   const grid =
     stylesGrid.modifiers?.[
@@ -196,10 +204,107 @@ const TableBase: React.FunctionComponent<TableProps> = ({
     !hasSelectableRows && setHasSelectableRows(true);
   };
 
+  /** Returns the rows of this table, excluding rows of nested tables, each as a list of its cells. */
+  const getCellGrid = (): HTMLElement[][] =>
+    (Array.from(tableRef.current.querySelectorAll(':scope > thead > tr, :scope > tbody > tr')) as HTMLElement[])
+      .filter((row) => !row.hidden)
+      .map((row) => Array.from(row.children).filter((cell) => cell.matches('td, th')) as HTMLElement[])
+      .filter((cells) => cells.length);
+
+  const activeCell = useRef<HTMLElement>(null);
+
+  const setActiveCell = (cell: HTMLElement, cells: HTMLElement[] = getCellGrid().flat()) => {
+    activeCell.current = cell;
+    cells.forEach((gridCell) => gridCell.setAttribute('tabindex', gridCell === cell ? '0' : '-1'));
+  };
+
+  // Keeps a single cell in the tab sequence as rows and cells are added, removed or hidden, also by child components
+  // which render on their own
+  useEffect(() => {
+    if (!hasCellNavigation || !tableRef.current) {
+      return;
+    }
+    const updateActiveCell = () => {
+      const cells = getCellGrid().flat();
+      setActiveCell(cells.includes(activeCell.current) ? activeCell.current : cells[0], cells);
+    };
+    updateActiveCell();
+    const observer = new MutationObserver(updateActiveCell);
+    observer.observe(tableRef.current, { childList: true, subtree: true, attributeFilter: ['hidden'] });
+    return () => observer.disconnect();
+  }, [hasCellNavigation, tableRef]);
+
+  const onCellFocus = (event: React.FocusEvent<HTMLTableElement>) => {
+    const cell = (event.target as HTMLElement).closest('td, th') as HTMLElement;
+    const cells = getCellGrid().flat();
+    cell && cell !== activeCell.current && cells.includes(cell) && setActiveCell(cell, cells);
+    props.onFocus && props.onFocus(event);
+  };
+
+  const onCellKeyDown = (event: React.KeyboardEvent<HTMLTableElement>) => {
+    props.onKeyDown && props.onKeyDown(event);
+    const target = event.target as HTMLElement;
+    // Keys typed into form fields belong to the field
+    if (
+      event.defaultPrevented ||
+      target.matches('input:not([type="checkbox"]), select, textarea, [contenteditable="true"]')
+    ) {
+      return;
+    }
+    const grid = getCellGrid();
+    const rowIndex = grid.findIndex((cells) => cells.some((cell) => cell.contains(target)));
+    if (rowIndex === -1) {
+      return;
+    }
+    const columnIndex = grid[rowIndex].findIndex((cell) => cell.contains(target));
+    const lastRowIndex = grid.length - 1;
+    let nextCell: HTMLElement;
+    switch (event.key) {
+      case KeyTypes.ArrowUp:
+        nextCell = grid[Math.max(rowIndex - 1, 0)][columnIndex];
+        break;
+      case KeyTypes.ArrowDown:
+        nextCell = grid[Math.min(rowIndex + 1, lastRowIndex)][columnIndex];
+        break;
+      case KeyTypes.ArrowLeft:
+        nextCell = grid[rowIndex][Math.max(columnIndex - 1, 0)];
+        break;
+      case KeyTypes.ArrowRight:
+        nextCell = grid[rowIndex][Math.min(columnIndex + 1, grid[rowIndex].length - 1)];
+        break;
+      case 'Home':
+        nextCell = event.ctrlKey ? grid[0][0] : grid[rowIndex][0];
+        break;
+      case 'End':
+        nextCell = event.ctrlKey
+          ? grid[lastRowIndex][grid[lastRowIndex].length - 1]
+          : grid[rowIndex][grid[rowIndex].length - 1];
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+    if (nextCell) {
+      setActiveCell(nextCell);
+      nextCell.focus();
+    }
+  };
+
+  const registerSortColumn = (columnIndex: number, label: string) => {
+    sortColumnLabels.current[columnIndex] = label;
+    !hasMultiSort && setHasMultiSort(true);
+  };
+
+  const announceSortBy = (sortBy: ISortByColumn[], getSortAnnouncement = getDefaultSortAnnouncement) =>
+    setSortAnnouncement(getSortAnnouncement(sortBy, sortColumnLabels.current));
+
   return (
-    <TableContext.Provider value={{ registerSelectableRow }}>
+    <TableContext.Provider
+      value={{ registerSelectableRow, hasCellNavigation, setVirtualizedRowCount, registerSortColumn, announceSortBy }}
+    >
       <table
         aria-label={ariaLabel}
+        aria-rowcount={virtualizedRowCount}
         role={role}
         className={css(
           className,
@@ -218,8 +323,25 @@ const TableBase: React.FunctionComponent<TableProps> = ({
         {...(isTreeTable && { role: 'treegrid' })}
         {...ouiaProps}
         {...props}
+        {...(hasCellNavigation && { onFocus: onCellFocus, onKeyDown: onCellKeyDown })}
       >
-        {hasSelectableRows && tableCaption}
+        {/* The sort order is announced from within the caption, so that the table remains the only rendered element */}
+        {(hasSelectableRows || hasMultiSort) && (
+          <caption className={hasSelectableRows && selectableRowCaptionText ? undefined : 'pf-v6-screen-reader'}>
+            {hasSelectableRows && selectableRowCaptionText}
+            {hasSelectableRows && (
+              <div className="pf-v6-screen-reader">
+                This table has selectable rows. It can be navigated by row using tab, and each row can be selected using
+                space or enter.
+              </div>
+            )}
+            {hasMultiSort && (
+              <div className="pf-v6-screen-reader" aria-live="polite">
+                {sortAnnouncement}
+              </div>
+            )}
+          </caption>
+        )}
         {children}
       </table>
     </TableContext.Provider>
@@ -0,0 +1,166 @@
+import { forwardRef, useState } from 'react';
+import { Button, ButtonProps } from '@patternfly/react-core/dist/esm/components/Button';
+import { Divider } from '@patternfly/react-core/dist/esm/components/Divider';
+import {
+  Dropdown,
+  DropdownGroup,
+  DropdownItem,
+  DropdownList,
+  DropdownPopperProps
+} from '@patternfly/react-core/dist/esm/components/Dropdown';
+import { MenuToggle, MenuToggleProps } from '@patternfly/react-core/dist/esm/components/MenuToggle';
+import ExportIcon from '@patternfly/react-icons/dist/esm/icons/export-icon';
+import { downloadTableExport, exportTableData, TableExportColumn, TableExportFormat } from './utils/tableExport';
+
+export interface TableExportEventOptions {
+  /** Format of the export */
+  format: TableExportFormat;
+  /** Flag indicating only the selected rows were exported */
+  isSelectedOnly: boolean;
+  /** Name of the exported file, including its extension */
+  fileName: string;
+}
+
+export interface TableExportButtonProps<T = any> {
+  /** Columns to export, in order. A string is treated as both the key and label of a column. */
+  columns: (TableExportColumn<T> | string)[];
+  /** Rows to export, either as objects or as arrays of cell values */
+  rows: T[];
+  /** Formats offered by the button. When a single format is passed, a button is rendered instead of a dropdown. */
+  formats?: TableExportFormat[];
+  /** Returns whether a row is selected. When passed, exporting only the selected rows is offered as well. */
+  isRowSelected?: (row: T) => boolean;
+  /** Name of the exported file, without its extension */
+  fileName?: string;
+  /** Callback when the rows are exported. When passed, the export is not downloaded automatically. */
+  onExport?: (event: React.MouseEvent | React.KeyboardEvent, content: string, options: TableExportEventOptions) => void;
+  /** Flag indicating the export button is disabled */
+  isDisabled?: boolean;
+  /** Content of the export toggle */
+  toggleText?: React.ReactNode;
+  /** Labels of the export formats */
+  formatLabels?: Partial<Record<TableExportFormat, React.ReactNode>>;
+  /** Label of the group of items which export all rows */
+  allRowsLabel?: string;
+  /** Label of the group of items which export only the selected rows */
+  selectedRowsLabel?: string;
+  /** Additional properties of the export button, rendered when a single format is exported and rows cannot be selected */
+  buttonProps?: Omit<ButtonProps, 'ref'>;
+  /** Additional properties of the export dropdown toggle */
+  toggleProps?: Omit<MenuToggleProps, 'ref'>;
+  /** Additional properties of the export dropdown popper */
+  popperProps?: DropdownPopperProps;
+  /** @hide Forwarded ref */
+  innerRef?: React.Ref<any>;
+}
+
+const defaultFormatLabels: Record<TableExportFormat, string> = {
+  csv: 'CSV',
+  tsv: 'TSV',
+  json: 'JSON'
+};
+
+const TableExportButtonBase: React.FunctionComponent<TableExportButtonProps> = ({
+  columns,
+  rows,
+  formats = ['csv', 'tsv', 'json'],
+  isRowSelected,
+  fileName = 'table',
+  onExport,
+  isDisabled = false,
+  toggleText = 'Export',
+  formatLabels,
+  allRowsLabel = 'All rows',
+  selectedRowsLabel = 'Selected rows',
+  buttonProps,
+  toggleProps,
+  popperProps,
+  innerRef
+}: TableExportButtonProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const hasSelection = !!isRowSelected;
+  const hasSelectedRows = hasSelection && rows.some((row) => isRowSelected(row));
+  const labels = { ...defaultFormatLabels, ...formatLabels };
+
+  const exportRows = (
+    event: React.MouseEvent | React.KeyboardEvent,
+    format: TableExportFormat,
+    isSelectedOnly: boolean
+  ) => {
+    const content = exportTableData({ columns, rows, format, isRowSelected, isSelectedOnly });
+    const exportFileName = `${fileName}.${format}`;
+    if (onExport) {
+      onExport(event, content, { format, isSelectedOnly, fileName: exportFileName });
+    } else {
+      downloadTableExport(content, exportFileName, format);
+    }
+    setIsOpen(false);
+  };
+
+  if (formats.length === 1 && !hasSelection) {
+    return (
+      <Button
+        variant="secondary"
+        icon={<ExportIcon />}
+        onClick={(event) => exportRows(event, formats[0], false)}
+        isDisabled={isDisabled}
+        ref={innerRef}
+        {...buttonProps}
+      >
+        {toggleText}
+      </Button>
+    );
+  }
+
+  const renderItems = (isSelectedOnly: boolean) =>
+    formats.map((format) => (
+      <DropdownItem
+        key={format}
+        value={format}
+        isDisabled={isSelectedOnly && !hasSelectedRows}
+        onClick={(event) => exportRows(event, format, isSelectedOnly)}
+      >
+        {labels[format]}
+      </DropdownItem>
+    ));
+
+  return (
+    <Dropdown
+      isOpen={isOpen}
+      onOpenChange={(isOpen: boolean) => setIsOpen(isOpen)}
+      toggle={(toggleRef) => (
+        <MenuToggle
+          ref={toggleRef}
+          onClick={() => setIsOpen(!isOpen)}
+          isExpanded={isOpen}
+          isDisabled={isDisabled}
+          icon={<ExportIcon />}
+          {...toggleProps}
+        >
+          {toggleText}
+        </MenuToggle>
+      )}
+      popperProps={popperProps}
+      ref={innerRef}
+    >
+      {hasSelection ? (
+        <>
+          <DropdownGroup label={allRowsLabel} labelHeadingLevel="h3">
+            <DropdownList>{renderItems(false)}</DropdownList>
+          </DropdownGroup>
+          <Divider />
+          <DropdownGroup label={selectedRowsLabel} labelHeadingLevel="h3">
+            <DropdownList>{renderItems(true)}</DropdownList>
+          </DropdownGroup>
+        </>
+      ) : (
+        <DropdownList>{renderItems(false)}</DropdownList>
+      )}
+    </Dropdown>
+  );
+};
+
+export const TableExportButton = forwardRef((props: TableExportButtonProps, ref: React.Ref<any>) => (
+  <TableExportButtonBase {...props} innerRef={ref} />
+));
+TableExportButton.displayName = 'TableExportButton';
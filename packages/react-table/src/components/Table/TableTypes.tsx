@@ -30,6 +30,7 @@ export type OnSort = (
   sortByDirection: SortByDirection,
   extraData: IExtraColumnData
 ) => void;
+export type OnMultiSort = (event: React.MouseEvent, sortBy: ISortByColumn[], extraData: IExtraColumnData) => void;
 export type OnCollapse = (
   event: React.MouseEvent,
   rowIndex: number,
@@ -90,6 +91,8 @@ export interface IColumn {
   extraParams: {
     sortBy?: ISortBy;
     onSort?: OnSort;
+    multiSortBy?: ISortByColumn[];
+    onMultiSort?: OnMultiSort;
     onCollapse?: OnCollapse;
     onExpand?: OnExpand;
     onSelect?: OnSelect;
@@ -149,6 +152,13 @@ export interface ISortBy {
   defaultDirection?: 'asc' | 'desc';
 }
 
+export interface ISortByColumn {
+  /** Index of the sorted column */
+  index: number;
+  /** Sort direction of the column */
+  direction: 'asc' | 'desc';
+}
+
 export interface IAction extends Omit<DropdownItemProps, 'title' | 'onClick'>, Pick<ButtonProps, 'variant'> {
   /** Flag indicating an item on actions menu is a separator, rather than an action */
   isSeparator?: boolean;
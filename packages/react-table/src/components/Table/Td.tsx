@@ -1,9 +1,10 @@
-import { createRef, forwardRef, useEffect, useState } from 'react';
+import { createRef, forwardRef, useContext, useEffect, useRef, useState } from 'react';
 import { css } from '@patternfly/react-styles';
 import styles from '@patternfly/react-styles/css/components/Table/table';
 import scrollStyles from '@patternfly/react-styles/css/components/Table/table-scrollable';
 import treeViewStyles from '@patternfly/react-styles/css/components/Table/table-tree-view';
-import { BaseCellProps } from './Table';
+import { BaseCellProps, TableContext } from './Table';
+import { CellEditor } from './CellEditor';
 import {
   cellActions,
   selectable,
@@ -19,11 +20,13 @@ import { treeRow } from './utils';
 import { mergeProps } from './base/merge-props';
 import { IVisibility } from './utils/decorators/classNames';
 import { Tooltip } from '@patternfly/react-core/dist/esm/components/Tooltip/Tooltip';
+import { getUniqueId } from '@patternfly/react-core/dist/esm/helpers/util';
 import { IFormatterValueType, IExtra } from './TableTypes';
 import {
   TdActionsType,
   TdCompoundExpandType,
   TdDraggableType,
+  TdEditableType,
   TdExpandType,
   TdFavoritesType,
   TdSelectType,
@@ -53,6 +56,10 @@ export interface TdProps extends BaseCellProps, Omit<React.HTMLProps<HTMLTableDa
   treeRow?: TdTreeRowType;
   /** Turns the cell into the first cell in a draggable row*/
   draggableRow?: TdDraggableType;
+  /** Makes the cell editable inline. Editing starts when the cell is double clicked, or when Enter or F2 is pressed
+   * while the cell is focused.
+   */
+  editable?: TdEditableType;
   /** True to remove padding */
   noPadding?: boolean;
   /** Applies pf-v6-c-table__action to td */
@@ -99,6 +106,7 @@ const TdBase: React.FunctionComponent<TdProps> = ({
   innerRef,
   favorites = null,
   draggableRow: draggableRowProp = null,
+  editable = null,
   tooltip = '',
   onMouseEnter: onMouseEnterProp = () => {},
   isStickyColumn = false,
@@ -112,6 +120,14 @@ const TdBase: React.FunctionComponent<TdProps> = ({
   const [showTooltip, setShowTooltip] = useState(false);
   const [truncated, setTruncated] = useState(false);
   const cellRef = innerRef ? innerRef : createRef();
+  const { hasCellNavigation } = useContext(TableContext);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedValue, setEditedValue] = useState('');
+  const [editError, setEditError] = useState<string>();
+  const [editErrorId] = useState(getUniqueId('table-cell-editor-error'));
+  const editorRef = useRef<HTMLDivElement>(null);
+  // Tracks editing synchronously, so the blur caused by moving focus after a commit does not commit again
+  const isEditingRef = useRef(false);
   const onMouseEnter = (event: any) => {
     if (event.target.offsetWidth < event.target.scrollWidth) {
       !showTooltip && setShowTooltip(true);
@@ -122,6 +138,91 @@ const TdBase: React.FunctionComponent<TdProps> = ({
     onMouseEnterProp(event);
   };
 
+  const getCell = () => (cellRef as React.RefObject<HTMLTableCellElement | null>).current;
+
+  const setEditing = (isEditingCell: boolean) => {
+    isEditingRef.current = isEditingCell;
+    setIsEditing(isEditingCell);
+    editable.onEditingChange && editable.onEditingChange(isEditingCell);
+  };
+
+  const startEditing = () => {
+    if (editable.isDisabled) {
+      return;
+    }
+    setEditedValue(editable.value === undefined || editable.value === null ? '' : String(editable.value));
+    setEditError(undefined);
+    setEditing(true);
+  };
+
+  const validate = (value: string) =>
+    (editable.validators || []).reduce<string | undefined>((error, validator) => error || validator(value), undefined);
+
+  /** Commits the edited value, returning false when the value is invalid and editing continues. */
+  const commitEdit = (event: React.KeyboardEvent | React.FocusEvent) => {
+    const error = validate(editedValue);
+    if (error) {
+      setEditError(error);
+      return false;
+    }
+    setEditing(false);
+    if (editedValue !== String(editable.value ?? '') && editable.onCellCommit) {
+      editable.onCellCommit(event, editedValue, editable.rowIndex, editable.columnIndex);
+    }
+    return true;
+  };
+
+  const cancelEdit = () => {
+    setEditing(false);
+    getCell().focus();
+  };
+
+  const onEditorKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Enter' && commitEdit(event)) {
+      event.preventDefault();
+      getCell().focus();
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      cancelEdit();
+    } else if (event.key === 'Tab') {
+      if (!commitEdit(event)) {
+        event.preventDefault();
+        return;
+      }
+      const adjacentCell = (
+        event.shiftKey ? getCell().previousElementSibling : getCell().nextElementSibling
+      ) as HTMLElement | null;
+      if (adjacentCell) {
+        event.preventDefault();
+        adjacentCell.focus();
+      }
+    }
+    // Keys used while editing should not trigger handlers of the row or table, such as grid navigation
+    event.stopPropagation();
+  };
+
+  const onEditorBlur = (event: React.FocusEvent) => {
+    if (isEditingRef.current && !editorRef.current?.contains(event.relatedTarget as Node)) {
+      commitEdit(event);
+    }
+  };
+
+  const onEditableCellKeyDown = (event: React.KeyboardEvent<HTMLTableCellElement>) => {
+    if (!isEditing && event.target === getCell() && (event.key === 'Enter' || event.key === 'F2')) {
+      event.preventDefault();
+      startEditing();
+    }
+    props.onKeyDown && props.onKeyDown(event);
+  };
+
+  useEffect(() => {
+    if (isEditing) {
+      const input = editorRef.current?.querySelector<HTMLInputElement | HTMLSelectElement>('input, select');
+      input?.focus();
+      input instanceof HTMLInputElement && input.type === 'text' && input.select();
+    }
+  }, [isEditing]);
+
   const selectParams = select
     ? selectable(children as IFormatterValueType, {
         rowIndex: select.rowIndex,
@@ -261,6 +362,37 @@ const TdBase: React.FunctionComponent<TdProps> = ({
     (className && className.includes(treeViewStyles.tableTreeViewTitleCell)) ||
     (mergedClassName && mergedClassName.includes(treeViewStyles.tableTreeViewTitleCell));
 
+  const getTabIndex = () => {
+    if (editable) {
+      // Cells of a table with cell navigation are reached with the arrow keys
+      return hasCellNavigation ? -1 : 0;
+    }
+    return (select || !truncated) && modifier !== 'truncate' ? -1 : 0;
+  };
+
+  const getContent = () => {
+    if (isEditing) {
+      return (
+        <div ref={editorRef} onKeyDown={onEditorKeyDown} onBlur={onEditorBlur}>
+          <CellEditor
+            type={editable.type}
+            value={editedValue}
+            onChange={(value) => {
+              setEditedValue(value);
+              editError && setEditError(validate(value));
+            }}
+            options={editable.options}
+            error={editError}
+            errorId={editErrorId}
+            aria-label={editable['aria-label'] || dataLabel}
+            inputProps={editable.inputProps}
+          />
+        </div>
+      );
+    }
+    return mergedChildren || children || (editable && editable.value);
+  };
+
   useEffect(() => {
     setTruncated(
       (cellRef as React.RefObject<HTMLElement | null>).current.offsetWidth <
@@ -270,7 +402,7 @@ const TdBase: React.FunctionComponent<TdProps> = ({
 
   const cell = (
     <MergedComponent
-      tabIndex={(select || !truncated) && modifier !== 'truncate' ? -1 : 0}
+      tabIndex={getTabIndex()}
       {...(!treeTableTitleCell && { 'data-label': dataLabel })}
       onFocus={tooltip !== null ? onMouseEnter : onMouseEnterProp}
       onBlur={() => setShowTooltip(false)}
@@ -291,6 +423,13 @@ const TdBase: React.FunctionComponent<TdProps> = ({
       ref={cellRef}
       {...mergedProps}
       {...props}
+      {...(editable && {
+        onKeyDown: onEditableCellKeyDown,
+        onDoubleClick: (event: React.MouseEvent<HTMLTableCellElement>) => {
+          !isEditing && startEditing();
+          props.onDoubleClick && props.onDoubleClick(event);
+        }
+      })}
       {...(isStickyColumn && {
         style: {
           [cssStickyCellMinWidth.name]: stickyMinWidth ? stickyMinWidth : undefined,
@@ -300,7 +439,7 @@ const TdBase: React.FunctionComponent<TdProps> = ({
         } as React.CSSProperties
       })}
     >
-      {mergedChildren || children}
+      {getContent()}
     </MergedComponent>
   );
 
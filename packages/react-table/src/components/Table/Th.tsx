@@ -1,14 +1,16 @@
-import { createRef, forwardRef, useEffect, useState } from 'react';
+import { createRef, forwardRef, useContext, useEffect, useState } from 'react';
 import { css } from '@patternfly/react-styles';
 import styles from '@patternfly/react-styles/css/components/Table/table';
 import scrollStyles from '@patternfly/react-styles/css/components/Table/table-scrollable';
 import accessibilityStyles from '@patternfly/react-styles/css/utilities/Accessibility/accessibility';
 import { info, sortable, sortableFavorites, selectable, collapsible, cellWidth, Visibility, classNames } from './utils';
-import { ThInfoType, ThSelectType, ThExpandType, ThSortType, formatterValueType } from './base/types';
+import { ThInfoType, ThSelectType, ThExpandType, ThSortType, ThResizeType, formatterValueType } from './base/types';
 import { mergeProps } from './base/merge-props';
 import { IVisibility } from './utils/decorators/classNames';
 import { Tooltip, TooltipProps } from '@patternfly/react-core/dist/esm/components/Tooltip';
-import { BaseCellProps } from './Table';
+import { Flex, FlexItem } from '@patternfly/react-core/dist/esm/layouts/Flex';
+import { ResizeColumn } from './ResizeColumn';
+import { BaseCellProps, TableContext } from './Table';
 import { IFormatterValueType, IColumn } from './TableTypes';
 import cssStickyCellMinWidth from '@patternfly/react-tokens/dist/esm/c_table__sticky_cell_MinWidth';
 import cssStickyCellInlineStart from '@patternfly/react-tokens/dist/esm/c_table__sticky_cell_InsetInlineStart';
@@ -28,6 +30,12 @@ export interface ThProps
   expand?: ThExpandType;
   /** Formats the header so that its column will be sortable */
   sort?: ThSortType;
+  /** Renders a handle at the end of the header which resizes the column by dragging or with the arrow keys */
+  resize?: ThResizeType;
+  /** Drag button rendered before the header content and outside of any sort button.
+   * Typically the drag button passed to the renderDraggable callback of a DragDropSort which reorders the columns.
+   */
+  dragButton?: React.ReactNode;
   /**
    * Tooltip to show on the header cell.
    * Note: If the header cell is truncated and has simple string content, it will already attempt to display the header text.
@@ -75,6 +83,8 @@ const ThBase: React.FunctionComponent<ThProps> = ({
   scope = 'col',
   textCenter = false,
   sort = null,
+  resize = null,
+  dragButton,
   modifier,
   select = null,
   expand: collapse = null,
@@ -106,6 +116,14 @@ const ThBase: React.FunctionComponent<ThProps> = ({
   const [showTooltip, setShowTooltip] = useState(false);
   const [truncated, setTruncated] = useState(false);
   const cellRef = innerRef ? innerRef : createRef();
+  const { registerSortColumn, announceSortBy } = useContext(TableContext);
+  const isMultiSortable = !!sort?.multiSortBy;
+  const sortLabel = typeof children === 'string' ? children : sort?.['aria-label'] || ariaLabel || screenReaderText;
+
+  useEffect(() => {
+    isMultiSortable && registerSortColumn(sort.columnIndex, sortLabel);
+  }, [isMultiSortable, sort?.columnIndex, sortLabel, registerSortColumn]);
+
   const onMouseEnter = (event: any) => {
     if (event.target.offsetWidth < event.target.scrollWidth) {
       !showTooltip && setShowTooltip(true);
@@ -133,7 +151,12 @@ const ThBase: React.FunctionComponent<ThProps> = ({
         column: {
           extraParams: {
             sortBy: sort.sortBy,
-            onSort: sort?.onSort
+            onSort: sort?.onSort,
+            multiSortBy: sort.multiSortBy,
+            onMultiSort: (event, multiSortBy, extraData) => {
+              announceSortBy(multiSortBy, sort.getSortAnnouncement);
+              sort.onMultiSort && sort.onMultiSort(event, multiSortBy, extraData);
+            }
           }
         } as IColumn,
         tooltip: tooltip as string,
@@ -203,6 +226,10 @@ const ThBase: React.FunctionComponent<ThProps> = ({
     );
   }, [cellRef]);
 
+  const content =
+    transformedChildren ||
+    (screenReaderText && <span className={accessibilityStyles.screenReader}>{screenReaderText}</span>);
+
   const cell = (
     <MergedComponent
       tabIndex={sort || select || !truncated ? -1 : 0}
@@ -227,17 +254,35 @@ const ThBase: React.FunctionComponent<ThProps> = ({
       )}
       {...mergedProps}
       {...props}
-      {...(isStickyColumn && {
+      {...((isStickyColumn || resize) && {
         style: {
-          [cssStickyCellMinWidth.name]: stickyMinWidth ? stickyMinWidth : undefined,
-          [cssStickyCellInlineStart.name]: stickyLeftOffset ? stickyLeftOffset : 0,
-          [cssStickyCellInlineEnd.name]: stickyRightOffset ? stickyRightOffset : 0,
+          ...(resize && {
+            // Sticky cells are already positioned, which the resize handle is placed relative to
+            ...(!isStickyColumn && { position: 'relative' }),
+            ...(resize.width !== undefined && { width: `${resize.width}px`, minWidth: `${resize.width}px` })
+          }),
+          ...(isStickyColumn && {
+            [cssStickyCellMinWidth.name]: stickyMinWidth ? stickyMinWidth : undefined,
+            [cssStickyCellInlineStart.name]: stickyLeftOffset ? stickyLeftOffset : 0,
+            [cssStickyCellInlineEnd.name]: stickyRightOffset ? stickyRightOffset : 0
+          }),
           ...props.style
         } as React.CSSProperties
       })}
     >
-      {transformedChildren ||
-        (screenReaderText && <span className={accessibilityStyles.screenReader}>{screenReaderText}</span>)}
+      {dragButton ? (
+        <Flex
+          flexWrap={{ default: 'nowrap' }}
+          alignItems={{ default: 'alignItemsCenter' }}
+          spaceItems={{ default: 'spaceItemsSm' }}
+        >
+          <FlexItem>{dragButton}</FlexItem>
+          <FlexItem flex={{ default: 'flex_1' }}>{content}</FlexItem>
+        </Flex>
+      ) : (
+        content
+      )}
+      {resize && <ResizeColumn {...resize} />}
     </MergedComponent>
   );
 
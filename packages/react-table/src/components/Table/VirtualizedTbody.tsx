@@ -0,0 +1,243 @@
+import { forwardRef, Fragment, useContext, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { getResizeObserver } from '@patternfly/react-core/dist/esm/helpers/resizeObserver';
+import { useIsomorphicLayoutEffect } from '@patternfly/react-core/dist/esm/helpers/useIsomorphicLayout';
+import { Tbody, TbodyProps } from './Tbody';
+import { TableContext } from './Table';
+
+export interface VirtualizedRowProps {
+  /** Position of the row within the full table, including header rows */
+  'aria-rowindex': number;
+  /** Index of the row within the virtualized body */
+  'data-virtualized-row-index': number;
+}
+
+export interface VirtualizedTbodyProps extends Omit<TbodyProps, 'children'> {
+  /** Total number of rows in the body */
+  rowCount: number;
+  /** Renders the row at the given index. The passed row props must be spread onto the first Tr of the row.
+   * Additional Tr belonging to the same row, such as expanded content, should directly follow it.
+   */
+  renderRow: (rowIndex: number, rowProps: VirtualizedRowProps) => React.ReactNode;
+  /** Height of each row in pixels, or a function returning the height of the row at a given index. When
+   * hasMeasuredRowHeights is set, this is used as an estimate until the row is rendered and measured.
+   */
+  rowHeight: number | ((rowIndex: number) => number);
+  /** Flag indicating rows have variable heights which are measured once rendered. Expanded content is included in
+   * the measured height of its row.
+   */
+  hasMeasuredRowHeights?: boolean;
+  /** Number of rows rendered above and below the visible rows */
+  overscanCount?: number;
+  /** Number of header rows preceding the body. Used to compute aria-rowcount and aria-rowindex. */
+  headerRowCount?: number;
+  /** Element which scrolls the table. Defaults to the nearest scrollable ancestor, such as an InnerScrollContainer. */
+  scrollContainerRef?: React.RefObject<HTMLElement>;
+}
+
+interface VirtualizedViewport {
+  /** Distance the scroll container has been scrolled past the top of the body */
+  offset: number;
+  /** Visible height of the scroll container */
+  height: number;
+}
+
+const rowIndexAttribute = 'data-virtualized-row-index';
+
+const getScrollParent = (element: HTMLElement): HTMLElement => {
+  let parent = element.parentElement;
+  while (parent) {
+    const { overflowY } = window.getComputedStyle(parent);
+    if (/(auto|scroll|overlay)/.test(overflowY)) {
+      return parent;
+    }
+    parent = parent.parentElement;
+  }
+  return (document.scrollingElement || document.documentElement) as HTMLElement;
+};
+
+const isDocumentScroller = (element: HTMLElement) =>
+  element === document.scrollingElement || element === document.documentElement;
+
+/** Returns the index of the row containing the element, including additional rows such as expanded content. */
+const getVirtualizedRowIndex = (element: Element) => {
+  let row = element.closest('tr');
+  while (row && !row.hasAttribute(rowIndexAttribute)) {
+    row = row.previousElementSibling as HTMLTableRowElement;
+  }
+  return row ? Number(row.getAttribute(rowIndexAttribute)) : undefined;
+};
+
+/** Returns the index of the last offset which is less than or equal to the given position. */
+const findRowIndex = (offsets: number[], position: number) => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= position) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return Math.max(low, 0);
+};
+
+const VirtualizedTbodyBase: React.FunctionComponent<VirtualizedTbodyProps> = ({
+  rowCount,
+  renderRow,
+  rowHeight,
+  hasMeasuredRowHeights = false,
+  overscanCount = 5,
+  headerRowCount = 1,
+  scrollContainerRef,
+  innerRef,
+  onFocus,
+  onBlur,
+  ...props
+}: VirtualizedTbodyProps) => {
+  const tbodyRef = useRef<HTMLTableSectionElement>(null);
+  useImperativeHandle(innerRef, () => tbodyRef.current);
+
+  const { setVirtualizedRowCount } = useContext(TableContext);
+  const [viewport, setViewport] = useState<VirtualizedViewport>({ offset: 0, height: 0 });
+  const [measuredHeights, setMeasuredHeights] = useState<Record<number, number>>({});
+  // The focused row stays rendered while scrolled out of view so keyboard focus is not lost
+  const [focusedRowIndex, setFocusedRowIndex] = useState<number>();
+
+  useEffect(() => {
+    setVirtualizedRowCount(headerRowCount + rowCount);
+    return () => setVirtualizedRowCount(undefined);
+  }, [headerRowCount, rowCount, setVirtualizedRowCount]);
+
+  useEffect(() => {
+    if (!tbodyRef.current) {
+      return;
+    }
+    const container = scrollContainerRef?.current || getScrollParent(tbodyRef.current);
+    const scrollTarget = isDocumentScroller(container) ? window : container;
+
+    const updateViewport = () => {
+      if (!tbodyRef.current) {
+        return;
+      }
+      const isDocument = isDocumentScroller(container);
+      const containerTop = isDocument ? 0 : container.getBoundingClientRect().top;
+      const offset = containerTop - tbodyRef.current.getBoundingClientRect().top;
+      const height = isDocument ? window.innerHeight : container.clientHeight;
+      setViewport((prevViewport) =>
+        prevViewport.offset === offset && prevViewport.height === height ? prevViewport : { offset, height }
+      );
+    };
+
+    updateViewport();
+    scrollTarget.addEventListener('scroll', updateViewport, { passive: true });
+    const unobserve = getResizeObserver(container, updateViewport, true);
+    return () => {
+      scrollTarget.removeEventListener('scroll', updateViewport);
+      unobserve();
+    };
+  }, [scrollContainerRef]);
+
+  // Measure rendered rows after every render, since expanding a row or changing its content can change its height
+  useIsomorphicLayoutEffect(() => {
+    if (!hasMeasuredRowHeights || !tbodyRef.current) {
+      return;
+    }
+    const heights: Record<number, number> = {};
+    let currentRowIndex: number;
+    (Array.from(tbodyRef.current.children) as HTMLElement[]).forEach((row) => {
+      if (row.hasAttribute(rowIndexAttribute)) {
+        currentRowIndex = Number(row.getAttribute(rowIndexAttribute));
+        heights[currentRowIndex] = row.offsetHeight;
+      } else if (row.hasAttribute('data-virtualized-spacer')) {
+        currentRowIndex = undefined;
+      } else if (currentRowIndex !== undefined) {
+        heights[currentRowIndex] += row.offsetHeight;
+      }
+    });
+    const changedHeights = Object.keys(heights).filter(
+      (index) => heights[Number(index)] > 0 && heights[Number(index)] !== measuredHeights[Number(index)]
+    );
+    if (changedHeights.length) {
+      setMeasuredHeights((prevHeights) =>
+        changedHeights.reduce((acc, index) => ({ ...acc, [index]: heights[Number(index)] }), { ...prevHeights })
+      );
+    }
+  });
+
+  // offsets[i] is the top of row i, and offsets[rowCount] is the total height of all rows
+  const offsets = useMemo(() => {
+    const rowOffsets = [0];
+    for (let index = 0; index < rowCount; index++) {
+      const estimatedHeight = typeof rowHeight === 'function' ? rowHeight(index) : rowHeight;
+      rowOffsets.push(rowOffsets[index] + (measuredHeights[index] ?? estimatedHeight));
+    }
+    return rowOffsets;
+  }, [rowCount, rowHeight, measuredHeights]);
+
+  const firstVisibleIndex = rowCount ? findRowIndex(offsets, Math.max(viewport.offset, 0)) : 0;
+  const lastVisibleIndex = viewport.height
+    ? findRowIndex(offsets, viewport.offset + viewport.height)
+    : firstVisibleIndex + overscanCount;
+  const startIndex = Math.max(firstVisibleIndex - overscanCount, 0);
+  const endIndex = Math.min(lastVisibleIndex + overscanCount, rowCount - 1);
+
+  const renderedIndexes: number[] = [];
+  focusedRowIndex !== undefined && focusedRowIndex < startIndex && renderedIndexes.push(focusedRowIndex);
+  for (let index = startIndex; index <= endIndex; index++) {
+    renderedIndexes.push(index);
+  }
+  focusedRowIndex !== undefined &&
+    focusedRowIndex > endIndex &&
+    focusedRowIndex < rowCount &&
+    renderedIndexes.push(focusedRowIndex);
+
+  const renderSpacer = (fromIndex: number, toIndex: number) => (
+    <tr
+      key={`spacer-${fromIndex}`}
+      aria-hidden="true"
+      data-virtualized-spacer
+      style={{ height: offsets[toIndex] - offsets[fromIndex] }}
+    />
+  );
+
+  const rows: React.ReactNode[] = [];
+  let nextIndex = 0;
+  renderedIndexes.forEach((rowIndex) => {
+    rowIndex > nextIndex && rows.push(renderSpacer(nextIndex, rowIndex));
+    rows.push(
+      <Fragment key={rowIndex}>
+        {renderRow(rowIndex, {
+          'aria-rowindex': headerRowCount + rowIndex + 1,
+          [rowIndexAttribute]: rowIndex
+        } as VirtualizedRowProps)}
+      </Fragment>
+    );
+    nextIndex = rowIndex + 1;
+  });
+  nextIndex < rowCount && rows.push(renderSpacer(nextIndex, rowCount));
+
+  return (
+    <Tbody
+      ref={tbodyRef}
+      onFocus={(event) => {
+        setFocusedRowIndex(getVirtualizedRowIndex(event.target as Element));
+        onFocus && onFocus(event);
+      }}
+      onBlur={(event) => {
+        if (!tbodyRef.current?.contains(event.relatedTarget as Node)) {
+          setFocusedRowIndex(undefined);
+        }
+        onBlur && onBlur(event);
+      }}
+      {...props}
+    >
+      {rows}
+    </Tbody>
+  );
+};
+
+export const VirtualizedTbody = forwardRef((props: VirtualizedTbodyProps, ref: React.Ref<HTMLTableSectionElement>) => (
+  <VirtualizedTbodyBase {...props} innerRef={ref} />
+));
+VirtualizedTbody.displayName = 'VirtualizedTbody';
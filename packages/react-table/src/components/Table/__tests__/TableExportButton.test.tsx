@@ -0,0 +1,90 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TableExportButton } from '../TableExportButton';
+
+const rows = [
+  { name: 'one', branches: 2 },
+  { name: 'two', branches: 5 }
+];
+
+const columns = [
+  { key: 'name', label: 'Repository' },
+  { key: 'branches', label: 'Branches' }
+];
+
+test('Exports all rows in the chosen format', async () => {
+  const user = userEvent.setup();
+  const onExport = jest.fn();
+  render(<TableExportButton columns={columns} rows={rows} fileName="repositories" onExport={onExport} />);
+
+  await user.click(screen.getByRole('button', { name: 'Export' }));
+  await user.click(screen.getByRole('menuitem', { name: 'TSV' }));
+
+  expect(onExport).toHaveBeenCalledWith(expect.anything(), 'Repository\tBranches\r\none\t2\r\ntwo\t5', {
+    format: 'tsv',
+    isSelectedOnly: false,
+    fileName: 'repositories.tsv'
+  });
+});
+
+test('Renders a single button when one format is offered', async () => {
+  const user = userEvent.setup();
+  const onExport = jest.fn();
+  render(<TableExportButton columns={columns} rows={rows} formats={['csv']} onExport={onExport} />);
+
+  await user.click(screen.getByRole('button', { name: 'Export' }));
+
+  expect(onExport).toHaveBeenCalledWith(expect.anything(), 'Repository,Branches\r\none,2\r\ntwo,5', {
+    format: 'csv',
+    isSelectedOnly: false,
+    fileName: 'table.csv'
+  });
+});
+
+test('Exports only the selected rows', async () => {
+  const user = userEvent.setup();
+  const onExport = jest.fn();
+  render(
+    <TableExportButton
+      columns={columns}
+      rows={rows}
+      formats={['csv', 'json']}
+      isRowSelected={(row) => row.name === 'two'}
+      onExport={onExport}
+    />
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Export' }));
+  const [, selectedJson] = screen.getAllByRole('menuitem', { name: 'JSON' });
+  await user.click(selectedJson);
+
+  expect(onExport).toHaveBeenCalledWith(expect.anything(), expect.any(String), {
+    format: 'json',
+    isSelectedOnly: true,
+    fileName: 'table.json'
+  });
+  expect(JSON.parse(onExport.mock.calls[0][1])).toEqual([{ Repository: 'two', Branches: 5 }]);
+});
+
+test('Disables exporting selected rows when no rows are selected', async () => {
+  const user = userEvent.setup();
+  render(<TableExportButton columns={columns} rows={rows} formats={['csv']} isRowSelected={() => false} />);
+
+  await user.click(screen.getByRole('button', { name: 'Export' }));
+  const [allCsv, selectedCsv] = screen.getAllByRole('menuitem', { name: 'CSV' });
+
+  expect(allCsv).not.toBeDisabled();
+  expect(selectedCsv).toBeDisabled();
+});
+
+test('Passes the button and toggle properties to the rendered control', () => {
+  const { rerender } = render(
+    <TableExportButton columns={columns} rows={rows} formats={['csv']} buttonProps={{ variant: 'tertiary' }} />
+  );
+
+  expect(screen.getByRole('button', { name: 'Export' })).toHaveClass('pf-m-tertiary');
+
+  rerender(<TableExportButton columns={columns} rows={rows} toggleProps={{ variant: 'plainText' }} />);
+
+  expect(screen.getByRole('button', { name: 'Export' })).toHaveClass('pf-m-plain', 'pf-m-text');
+});
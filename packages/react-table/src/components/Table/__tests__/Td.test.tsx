@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Table } from '../Table';
+import { Tbody } from '../Tbody';
+import { Tr } from '../Tr';
+import { Td } from '../Td';
+import { TdEditableType } from '../base/types';
+
+const renderEditableRow = (editable: Partial<TdEditableType> = {}, hasCellNavigation = false) =>
+  render(
+    <Table aria-label="Editable table" hasCellNavigation={hasCellNavigation}>
+      <Tbody>
+        <Tr>
+          <Td dataLabel="Name" editable={{ value: 'one', rowIndex: 0, columnIndex: 0, ...editable }} />
+          <Td dataLabel="Branches" editable={{ value: 2, type: 'number', rowIndex: 0, columnIndex: 1 }} />
+        </Tr>
+      </Tbody>
+    </Table>
+  );
+
+test('Starts editing with Enter and commits the changed value with Enter', async () => {
+  const user = userEvent.setup();
+  const onCellCommit = jest.fn();
+  renderEditableRow({ onCellCommit });
+
+  await user.tab();
+  expect(screen.getByRole('cell', { name: 'one' })).toHaveFocus();
+
+  await user.keyboard('{Enter}');
+  expect(screen.getByRole('textbox', { name: 'Name' })).toHaveFocus();
+
+  await user.keyboard('two{Enter}');
+  expect(onCellCommit).toHaveBeenCalledWith(expect.anything(), 'two', 0, 0);
+  expect(screen.queryByRole('textbox')).not.toBeInTheDocument();
+  expect(screen.getAllByRole('cell')[0]).toHaveFocus();
+});
+
+test('Cancels editing with Escape', async () => {
+  const user = userEvent.setup();
+  const onCellCommit = jest.fn();
+  renderEditableRow({ onCellCommit });
+
+  await user.dblClick(screen.getByRole('cell', { name: 'one' }));
+  await user.keyboard('changed{Escape}');
+
+  expect(onCellCommit).not.toHaveBeenCalled();
+  expect(screen.getByRole('cell', { name: 'one' })).toHaveFocus();
+});
+
+test('Shows the first validation error and keeps editing until the value is valid', async () => {
+  const user = userEvent.setup();
+  const onCellCommit = jest.fn();
+  renderEditableRow({
+    onCellCommit,
+    validators: [
+      (value) => (value ? undefined : 'Name is required'),
+      (value) => (value.length < 3 ? 'Too short' : undefined)
+    ]
+  });
+
+  await user.dblClick(screen.getByRole('cell', { name: 'one' }));
+  await user.clear(screen.getByRole('textbox'));
+  await user.keyboard('{Enter}');
+
+  expect(onCellCommit).not.toHaveBeenCalled();
+  expect(screen.getByRole('textbox')).toHaveAccessibleDescription(expect.stringContaining('Name is required'));
+  expect(screen.getByRole('textbox')).toHaveAttribute('aria-invalid', 'true');
+
+  await user.keyboard('ab');
+  expect(screen.getByText('Too short')).toBeVisible();
+
+  await user.keyboard('c{Enter}');
+  expect(onCellCommit).toHaveBeenCalledWith(expect.anything(), 'abc', 0, 0);
+});
+
+test('Commits with Tab and moves focus to the next cell', async () => {
+  const user = userEvent.setup();
+  const onCellCommit = jest.fn();
+  renderEditableRow({ onCellCommit });
+
+  await user.dblClick(screen.getByRole('cell', { name: 'one' }));
+  await user.keyboard('{Control>}a{/Control}three');
+  await user.tab();
+
+  expect(onCellCommit).toHaveBeenCalledWith(expect.anything(), 'three', 0, 0);
+  expect(screen.getByRole('cell', { name: '2' })).toHaveFocus();
+});
+
+test('Renders a select editor with the passed options', async () => {
+  const user = userEvent.setup();
+  const onCellCommit = jest.fn();
+  renderEditableRow({
+    type: 'select',
+    value: 'open',
+    options: [
+      { value: 'open', label: 'Open' },
+      { value: 'closed', label: 'Closed' }
+    ],
+    onCellCommit
+  });
+
+  await user.dblClick(screen.getByRole('cell', { name: 'open' }));
+  await user.selectOptions(screen.getByRole('combobox', { name: 'Name' }), 'closed');
+  await user.keyboard('{Enter}');
+
+  expect(onCellCommit).toHaveBeenCalledWith(expect.anything(), 'closed', 0, 0);
+});
+
+test('Moves focus between cells with the arrow keys when cell navigation is enabled', async () => {
+  const user = userEvent.setup();
+  render(
+    <Table aria-label="Grid" hasCellNavigation>
+      <Tbody>
+        <Tr>
+          <Td>a1</Td>
+          <Td>b1</Td>
+          <Td>c1</Td>
+        </Tr>
+        <Tr>
+          <Td>a2</Td>
+          <Td>b2</Td>
+          <Td>c2</Td>
+        </Tr>
+      </Tbody>
+    </Table>
+  );
+
+  await user.tab();
+  expect(screen.getByRole('cell', { name: 'a1' })).toHaveFocus();
+  expect(screen.getByRole('cell', { name: 'b1' })).toHaveAttribute('tabindex', '-1');
+
+  await user.keyboard('{ArrowRight}{ArrowDown}');
+  expect(screen.getByRole('cell', { name: 'b2' })).toHaveFocus();
+  expect(screen.getByRole('cell', { name: 'b2' })).toHaveAttribute('tabindex', '0');
+
+  await user.keyboard('{End}');
+  expect(screen.getByRole('cell', { name: 'c2' })).toHaveFocus();
+
+  await user.keyboard('{Control>}{Home}{/Control}');
+  expect(screen.getByRole('cell', { name: 'a1' })).toHaveFocus();
+});
+
+test('Keeps the cells added by a child component out of the tab sequence', async () => {
+  const user = userEvent.setup();
+  const GrowingBody = () => {
+    const [rowCount, setRowCount] = useState(1);
+    return (
+      <Tbody>
+        {Array.from({ length: rowCount }, (_, index) => (
+          <Tr key={index}>
+            <Td modifier="truncate">
+              <button onClick={() => setRowCount(rowCount + 1)}>Add row {index + 1}</button>
+            </Td>
+          </Tr>
+        ))}
+      </Tbody>
+    );
+  };
+  render(
+    <Table aria-label="Grid" hasCellNavigation>
+      <GrowingBody />
+    </Table>
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Add row 1' }));
+
+  await waitFor(() =>
+    expect(screen.getByRole('button', { name: 'Add row 2' }).closest('td')).toHaveAttribute('tabindex', '-1')
+  );
+  expect(screen.getByRole('button', { name: 'Add row 1' }).closest('td')).toHaveAttribute('tabindex', '0');
+});
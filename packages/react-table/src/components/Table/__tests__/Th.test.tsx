@@ -1,5 +1,10 @@
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import { Th } from '../Th';
+import { Table } from '../Table';
+import { Thead } from '../Thead';
+import { Tr } from '../Tr';
+import { ISortByColumn } from '../TableTypes';
 
 test('Does not render with aria-label by default', () => {
   render(<Th />);
@@ -28,3 +33,124 @@ test('Renders with screen reader text when screenReaderText is passed in', () =>
 
   expect(screen.getByRole('columnheader')).toHaveTextContent('Test');
 });
+
+test('Does not render a resize handle by default', () => {
+  render(<Th>Heading label</Th>);
+
+  expect(screen.queryByRole('separator')).not.toBeInTheDocument();
+});
+
+test('Renders a resize handle and applies the width when resize is passed in', () => {
+  render(<Th resize={{ width: 150, onResize: jest.fn() }}>Heading label</Th>);
+
+  expect(screen.getByRole('separator', { name: 'Resize column' })).toHaveAttribute('aria-valuenow', '150');
+  expect(screen.getByRole('columnheader')).toHaveStyle({ width: '150px' });
+});
+
+test('Calls onResize with the clamped width when resizing with the keyboard', async () => {
+  const user = userEvent.setup();
+  const onResize = jest.fn();
+  const onResizeEnd = jest.fn();
+
+  render(<Th resize={{ width: 100, minWidth: 80, maxWidth: 200, increment: 10, onResize, onResizeEnd }}>Heading</Th>);
+
+  await user.tab();
+  expect(screen.getByRole('separator')).toHaveFocus();
+
+  await user.keyboard('{ArrowRight}');
+  expect(onResize).toHaveBeenLastCalledWith(expect.anything(), 110);
+  expect(onResizeEnd).toHaveBeenLastCalledWith(expect.anything(), 110);
+
+  await user.keyboard('{ArrowLeft}{ArrowLeft}{ArrowLeft}');
+  expect(onResize).toHaveBeenLastCalledWith(expect.anything(), 90);
+
+  await user.keyboard('{Home}');
+  expect(onResize).toHaveBeenLastCalledWith(expect.anything(), 80);
+
+  await user.keyboard('{End}');
+  expect(onResize).toHaveBeenLastCalledWith(expect.anything(), 200);
+});
+
+test('Calls onResize when dragging the resize handle', () => {
+  const onResize = jest.fn();
+  const onResizeEnd = jest.fn();
+
+  render(<Th resize={{ width: 100, onResize, onResizeEnd }}>Heading label</Th>);
+
+  fireEvent.mouseDown(screen.getByRole('separator'), { clientX: 500 });
+  fireEvent.mouseMove(document, { clientX: 540 });
+  expect(onResize).toHaveBeenLastCalledWith(expect.anything(), 140);
+
+  fireEvent.mouseUp(document);
+  expect(onResizeEnd).toHaveBeenCalledWith(expect.anything(), 140);
+
+  fireEvent.mouseMove(document, { clientX: 600 });
+  expect(onResize).toHaveBeenCalledTimes(1);
+});
+
+test('Stops resizing when the resize handle is unmounted while it is dragged', () => {
+  const onResize = jest.fn();
+  const onResizeEnd = jest.fn();
+
+  const { unmount } = render(<Th resize={{ width: 100, onResize, onResizeEnd }}>Heading label</Th>);
+
+  fireEvent.mouseDown(screen.getByRole('separator'), { clientX: 500 });
+  unmount();
+  fireEvent.mouseMove(document, { clientX: 540 });
+  fireEvent.mouseUp(document);
+
+  expect(onResize).not.toHaveBeenCalled();
+  expect(onResizeEnd).not.toHaveBeenCalled();
+});
+
+test('Renders the drag button outside of the sort button', () => {
+  render(
+    <Th dragButton={<button>Drag</button>} sort={{ sortBy: {}, columnIndex: 0 }}>
+      Heading label
+    </Th>
+  );
+
+  expect(screen.getByRole('button', { name: 'Heading label' })).not.toContainElement(
+    screen.getByRole('button', { name: 'Drag' })
+  );
+});
+
+test('Renders sort priorities and announces the sort order for multi-column sorting', async () => {
+  const user = userEvent.setup();
+  const onMultiSort = jest.fn();
+  const multiSortBy: ISortByColumn[] = [
+    { index: 1, direction: 'desc' },
+    { index: 0, direction: 'asc' }
+  ];
+  const getSort = (columnIndex: number) => ({ sortBy: {}, columnIndex, multiSortBy, onMultiSort });
+
+  render(
+    <Table aria-label="Multi-column sort">
+      <Thead>
+        <Tr>
+          <Th sort={getSort(0)}>Status</Th>
+          <Th sort={getSort(1)}>Last updated</Th>
+          <Th sort={getSort(2)}>Name</Th>
+        </Tr>
+      </Thead>
+    </Table>
+  );
+
+  expect(screen.getByRole('columnheader', { name: /Last updated/ })).toHaveAttribute('aria-sort', 'descending');
+  expect(screen.getByRole('columnheader', { name: /Status/ })).not.toHaveAttribute('aria-sort');
+  expect(screen.getByRole('button', { name: 'Status Sort priority 2' })).toBeVisible();
+
+  await user.keyboard('{Shift>}');
+  await user.click(screen.getByRole('button', { name: 'Name' }));
+
+  expect(onMultiSort).toHaveBeenCalledWith(
+    expect.anything(),
+    [...multiSortBy, { index: 2, direction: 'asc' }],
+    expect.anything()
+  );
+  const announcement = screen.getByText(
+    'Sorted by Last updated descending, then by Status ascending, then by Name ascending'
+  );
+  expect(announcement).toHaveAttribute('aria-live', 'polite');
+  expect(screen.getByRole('grid', { name: 'Multi-column sort' })).toContainElement(announcement);
+});
@@ -0,0 +1,88 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { Table } from '../Table';
+import { Thead } from '../Thead';
+import { Tr } from '../Tr';
+import { Th } from '../Th';
+import { Td } from '../Td';
+import { VirtualizedTbody, VirtualizedTbodyProps } from '../VirtualizedTbody';
+
+const VirtualizedTable = (props: Partial<VirtualizedTbodyProps>) => (
+  <div data-testid="scroll-container" style={{ overflowY: 'auto' }}>
+    <Table aria-label="Virtualized table">
+      <Thead>
+        <Tr aria-rowindex={1}>
+          <Th>Name</Th>
+        </Tr>
+      </Thead>
+      <VirtualizedTbody
+        rowCount={1000}
+        rowHeight={50}
+        overscanCount={2}
+        renderRow={(rowIndex, rowProps) => (
+          <Tr {...rowProps}>
+            <Td dataLabel="Name">
+              <button>Row {rowIndex}</button>
+            </Td>
+          </Tr>
+        )}
+        {...props}
+      />
+    </Table>
+  </div>
+);
+
+const scrollTo = (offset: number, height = 200) => {
+  const container = screen.getByTestId('scroll-container');
+  const tbody = container.querySelector('tbody');
+  Object.defineProperty(container, 'clientHeight', { configurable: true, value: height });
+  jest
+    .spyOn(tbody, 'getBoundingClientRect')
+    .mockReturnValue({ top: -offset, bottom: 0, left: 0, right: 0, height: 0, width: 0 } as DOMRect);
+  fireEvent.scroll(container);
+};
+
+test('renders only the first rows and a spacer for the remaining rows', () => {
+  render(<VirtualizedTable />);
+
+  expect(screen.getByRole('button', { name: 'Row 0' })).toBeVisible();
+  expect(screen.queryByRole('button', { name: 'Row 10' })).not.toBeInTheDocument();
+  expect(document.querySelector('[data-virtualized-spacer]')).toHaveStyle({ height: `${(1000 - 5) * 50}px` });
+});
+
+test('sets aria-rowcount on the table and aria-rowindex on the rows', () => {
+  render(<VirtualizedTable />);
+
+  expect(screen.getByRole('grid')).toHaveAttribute('aria-rowcount', '1001');
+  expect(screen.getByRole('button', { name: 'Row 0' }).closest('tr')).toHaveAttribute('aria-rowindex', '2');
+});
+
+test('renders the rows within the scrolled viewport', () => {
+  render(<VirtualizedTable />);
+
+  scrollTo(5000);
+
+  expect(screen.queryByRole('button', { name: 'Row 0' })).not.toBeInTheDocument();
+  expect(screen.getByRole('button', { name: 'Row 98' })).toBeVisible();
+  expect(screen.getByRole('button', { name: 'Row 104' })).toBeVisible();
+  expect(screen.queryByRole('button', { name: 'Row 107' })).not.toBeInTheDocument();
+  expect(screen.getByRole('button', { name: 'Row 100' }).closest('tr')).toHaveAttribute('aria-rowindex', '102');
+});
+
+test('keeps the focused row rendered when it is scrolled out of view', () => {
+  render(<VirtualizedTable />);
+
+  act(() => screen.getByRole('button', { name: 'Row 1' }).focus());
+  scrollTo(5000);
+
+  expect(screen.getByRole('button', { name: 'Row 1' })).toHaveFocus();
+  expect(screen.getByRole('button', { name: 'Row 100' })).toBeVisible();
+});
+
+test('uses the rowHeight function to position rows', () => {
+  render(<VirtualizedTable rowHeight={(rowIndex) => (rowIndex % 2 ? 100 : 50)} />);
+
+  scrollTo(7500);
+
+  expect(screen.getByRole('button', { name: 'Row 100' })).toBeVisible();
+  expect(screen.queryByRole('button', { name: 'Row 90' })).not.toBeInTheDocument();
+});
@@ -17,10 +17,12 @@ import { Td } from '../Td';
 import {
   IActions,
   ISortBy,
+  ISortByColumn,
   OnCheckChange,
   OnCollapse,
   OnExpand,
   OnFavorite,
+  OnMultiSort,
   OnSelect,
   OnSort,
   OnToggleRowDetails,
@@ -129,6 +131,51 @@ export interface TdDraggableType {
   id: string;
 }
 
+export type TdEditableValidator = (value: string) => string | undefined;
+
+export interface TdEditableOption {
+  /** Value of the option */
+  value: string;
+  /** Label of the option. Defaults to the value. */
+  label?: string;
+  /** Flag indicating the option is disabled */
+  isDisabled?: boolean;
+}
+
+export interface TdEditableType {
+  /** Type of editor rendered while the cell is being edited */
+  type?: 'text' | 'number' | 'select' | 'date';
+  /** Current value of the cell. Displayed when the Td has no children. */
+  value: string | number;
+  /** The row index of the cell */
+  rowIndex?: number;
+  /** The column index of the cell */
+  columnIndex?: number;
+  /** Options of the select editor */
+  options?: TdEditableOption[];
+  /** Validators run against the edited value before it is committed. Each returns an error message when the value is
+   * invalid, and the first error is displayed below the editor.
+   */
+  validators?: TdEditableValidator[];
+  /** Callback when an edited value is committed by pressing Enter or Tab, or by moving focus out of the editor. The
+   * value is passed as a string for every editor type.
+   */
+  onCellCommit?: (
+    event: React.KeyboardEvent | React.FocusEvent,
+    value: string,
+    rowIndex: number,
+    columnIndex: number
+  ) => void;
+  /** Callback when editing starts or stops */
+  onEditingChange?: (isEditing: boolean) => void;
+  /** Flag indicating the cell cannot be edited */
+  isDisabled?: boolean;
+  /** Accessible name of the editor. Defaults to the dataLabel of the Td. */
+  'aria-label'?: string;
+  /** Additional props passed to the editor input */
+  inputProps?: any;
+}
+
 // Columns Types
 export type ColumnsType = ColumnType[] | any[];
 
@@ -167,6 +214,17 @@ export interface ThSortType {
   sortBy: ISortBy;
   /** The column index */
   columnIndex: number;
+  /** Ordered list of the sorted columns and their directions, with the primary sort first. Enables multi-column
+   * sorting, where clicking a header sorts by that column alone and shift-clicking adds the column as an additional
+   * sort. Shift-clicking a sorted column reverses its direction, or removes it from the sort once reversed.
+   */
+  multiSortBy?: ISortByColumn[];
+  /** Callback with the complete list of sorted columns when multiSortBy is passed, called instead of onSort */
+  onMultiSort?: OnMultiSort;
+  /** Returns the message announced to screen readers when the sorted columns change. Column labels are keyed by
+   * column index. Defaults to listing each sorted column and its direction in order.
+   */
+  getSortAnnouncement?: (sortBy: ISortByColumn[], columnLabels: Record<number, string>) => string;
   /** Adds accessible text to the sort button. */
   'aria-label'?: string;
   /** True to make this a favoritable sorting cell */
@@ -197,6 +255,23 @@ export interface ThExpandType {
   collapseAllAriaLabel: string;
 }
 
+export interface ThResizeType {
+  /** Current width of the column in pixels. When omitted, the rendered width of the column is used. */
+  width?: number;
+  /** Minimum width of the column in pixels */
+  minWidth?: number;
+  /** Maximum width of the column in pixels */
+  maxWidth?: number;
+  /** Callback while the column is being resized */
+  onResize: (event: MouseEvent | TouchEvent | React.KeyboardEvent, width: number) => void;
+  /** Callback when resizing the column ends */
+  onResizeEnd?: (event: MouseEvent | TouchEvent | React.KeyboardEvent, width: number) => void;
+  /** Amount in pixels the width changes for each arrow key press */
+  increment?: number;
+  /** Accessible name of the resize handle */
+  'aria-label'?: string;
+}
+
 // Rows Types
 export type RowsType = RowType[] | [][];
 export type RowKeyType = Function | string;
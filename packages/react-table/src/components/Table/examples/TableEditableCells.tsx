@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Table, Thead, Tr, Th, Tbody, Td, TdEditableType } from '@patternfly/react-table';
+
+interface Repository {
+  name: string;
+  branches: string;
+  status: string;
+  lastCommit: string;
+}
+
+type ColumnKey = keyof Repository;
+
+const columnNames: Record<ColumnKey, string> = {
+  name: 'Repositories',
+  branches: 'Branches',
+  status: 'Status',
+  lastCommit: 'Last commit'
+};
+
+const columnKeys = Object.keys(columnNames) as ColumnKey[];
+
+const isRequired = (value: string) => (value.trim() ? undefined : 'Enter a value');
+
+// Editors and validators of each column
+const columnEditors: Record<ColumnKey, Pick<TdEditableType, 'type' | 'options' | 'validators'>> = {
+  name: { type: 'text', validators: [isRequired] },
+  branches: {
+    type: 'number',
+    validators: [
+      isRequired,
+      (value) => (Number.isInteger(Number(value)) && Number(value) >= 0 ? undefined : 'Enter a positive whole number')
+    ]
+  },
+  status: {
+    type: 'select',
+    options: [
+      { value: 'Active', label: 'Active' },
+      { value: 'Archived', label: 'Archived' },
+      { value: 'Deprecated', label: 'Deprecated' }
+    ]
+  },
+  lastCommit: { type: 'date', validators: [isRequired] }
+};
+
+export const TableEditableCells: React.FunctionComponent = () => {
+  // In real usage, this data would come from some external source like an API via props.
+  const [repositories, setRepositories] = useState<Repository[]>([
+    { name: 'one', branches: '2', status: 'Active', lastCommit: '2024-03-04' },
+    { name: 'two', branches: '5', status: 'Archived', lastCommit: '2023-11-20' },
+    { name: 'three', branches: '1', status: 'Deprecated', lastCommit: '2022-06-13' }
+  ]);
+
+  const updateRepository = (rowIndex: number, columnIndex: number, value: string) =>
+    setRepositories((prevRepositories) =>
+      prevRepositories.map((repo, index) => (index === rowIndex ? { ...repo, [columnKeys[columnIndex]]: value } : repo))
+    );
+
+  return (
+    <Table aria-label="Editable cells table" hasCellNavigation>
+      <Thead>
+        <Tr>
+          {columnKeys.map((key) => (
+            <Th key={key}>{columnNames[key]}</Th>
+          ))}
+        </Tr>
+      </Thead>
+      <Tbody>
+        {repositories.map((repo, rowIndex) => (
+          <Tr key={rowIndex}>
+            {columnKeys.map((key, columnIndex) => (
+              <Td
+                key={key}
+                dataLabel={columnNames[key]}
+                editable={{
+                  ...columnEditors[key],
+                  value: repo[key],
+                  rowIndex,
+                  columnIndex,
+                  'aria-label': `${columnNames[key]}, row ${rowIndex + 1}`,
+                  onCellCommit: (_event, value, commitRowIndex, commitColumnIndex) =>
+                    updateRepository(commitRowIndex, commitColumnIndex, value)
+                }}
+              />
+            ))}
+          </Tr>
+        ))}
+      </Tbody>
+    </Table>
+  );
+};
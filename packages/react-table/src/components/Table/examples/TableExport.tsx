@@ -0,0 +1,96 @@
+import { Fragment, useState } from 'react';
+import { Toolbar, ToolbarContent, ToolbarItem } from '@patternfly/react-core';
+import { Table, Thead, Tr, Th, Tbody, Td, TableExportButton, TableExportColumn } from '@patternfly/react-table';
+
+interface Repository {
+  name: string;
+  branches: number;
+  prs: number;
+  description: string;
+  lastCommit: Date;
+}
+
+const columnNames = {
+  name: 'Repositories',
+  branches: 'Branches',
+  prs: 'Pull requests',
+  description: 'Description',
+  lastCommit: 'Last commit'
+};
+
+// Labels match the dataLabel of each column's cells, and the last commit date is exported without its time
+const exportColumns: TableExportColumn<Repository>[] = [
+  { key: 'name', label: columnNames.name },
+  { key: 'branches', label: columnNames.branches },
+  { key: 'prs', label: columnNames.prs },
+  { key: 'description', label: columnNames.description },
+  {
+    key: 'lastCommit',
+    label: columnNames.lastCommit,
+    formatter: (value: Date) => value.toISOString().slice(0, 10)
+  }
+];
+
+export const TableExport: React.FunctionComponent = () => {
+  // In real usage, this data would come from some external source like an API via props.
+  const repositories: Repository[] = [
+    { name: 'one', branches: 2, prs: 4, description: 'Main "one" repository', lastCommit: new Date(2024, 2, 4) },
+    { name: 'two', branches: 5, prs: 1, description: 'Docs, examples and demos', lastCommit: new Date(2024, 1, 27) },
+    { name: 'three', branches: 1, prs: 0, description: 'Archived', lastCommit: new Date(2023, 10, 20) }
+  ];
+
+  const [selectedRepoNames, setSelectedRepoNames] = useState<string[]>([]);
+  const isRepoSelected = (repo: Repository) => selectedRepoNames.includes(repo.name);
+  const setRepoSelected = (repo: Repository, isSelecting = true) =>
+    setSelectedRepoNames((prevSelected) => {
+      const otherSelectedRepoNames = prevSelected.filter((r) => r !== repo.name);
+      return isSelecting ? [...otherSelectedRepoNames, repo.name] : otherSelectedRepoNames;
+    });
+
+  return (
+    <Fragment>
+      <Toolbar>
+        <ToolbarContent>
+          <ToolbarItem>
+            <TableExportButton
+              columns={exportColumns}
+              rows={repositories}
+              isRowSelected={isRepoSelected}
+              fileName="repositories"
+            />
+          </ToolbarItem>
+        </ToolbarContent>
+      </Toolbar>
+      <Table aria-label="Exportable table">
+        <Thead>
+          <Tr>
+            <Th screenReaderText="Row selection" />
+            <Th>{columnNames.name}</Th>
+            <Th>{columnNames.branches}</Th>
+            <Th>{columnNames.prs}</Th>
+            <Th>{columnNames.description}</Th>
+            <Th>{columnNames.lastCommit}</Th>
+          </Tr>
+        </Thead>
+        <Tbody>
+          {repositories.map((repo, rowIndex) => (
+            <Tr key={repo.name}>
+              <Td
+                select={{
+                  rowIndex,
+                  onSelect: (_event, isSelecting) => setRepoSelected(repo, isSelecting),
+                  isSelected: isRepoSelected(repo)
+                }}
+              />
+              <Td dataLabel={columnNames.name}>{repo.name}</Td>
+              <Td dataLabel={columnNames.branches}>{repo.branches}</Td>
+              <Td dataLabel={columnNames.prs}>{repo.prs}</Td>
+              <Td dataLabel={columnNames.description}>{repo.description}</Td>
+              <Td dataLabel={columnNames.lastCommit}>{repo.lastCommit.toLocaleDateString()}</Td>
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+    </Fragment>
+  );
+};
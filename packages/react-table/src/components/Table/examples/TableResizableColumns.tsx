@@ -0,0 +1,65 @@
+import { Table, Thead, Tr, Th, Tbody, Td, useColumnLayout } from '@patternfly/react-table';
+
+interface Repository {
+  name: string;
+  branches: string;
+  prs: string;
+  workspaces: string;
+  lastCommit: string;
+}
+
+export const TableResizableColumns: React.FunctionComponent = () => {
+  // In real usage, this data would come from some external source like an API via props.
+  const repositories: Repository[] = [
+    { name: 'one', branches: 'two', prs: 'three', workspaces: 'four', lastCommit: 'five' },
+    { name: 'one - 2', branches: 'two - 2', prs: 'three - 2', workspaces: 'four - 2', lastCommit: 'five - 2' },
+    { name: 'one - 3', branches: 'two - 3', prs: 'three - 3', workspaces: 'four - 3', lastCommit: 'five - 3' }
+  ];
+
+  const columnNames = {
+    name: 'Repositories',
+    branches: 'Branches',
+    prs: 'Pull requests',
+    workspaces: 'Workspaces',
+    lastCommit: 'Last commit'
+  };
+
+  const { getResizeProps } = useColumnLayout({
+    columns: [
+      { key: 'name', defaultWidth: 250, minWidth: 150 },
+      { key: 'branches', minWidth: 100, maxWidth: 300 },
+      { key: 'prs', minWidth: 100, maxWidth: 300 },
+      { key: 'workspaces', minWidth: 100, maxWidth: 300 },
+      { key: 'lastCommit', isResizable: false }
+    ]
+  });
+
+  return (
+    <Table aria-label="Resizable columns">
+      <Thead>
+        <Tr>
+          <Th resize={{ ...getResizeProps('name'), 'aria-label': 'Resize repositories column' }}>{columnNames.name}</Th>
+          <Th resize={{ ...getResizeProps('branches'), 'aria-label': 'Resize branches column' }}>
+            {columnNames.branches}
+          </Th>
+          <Th resize={{ ...getResizeProps('prs'), 'aria-label': 'Resize pull requests column' }}>{columnNames.prs}</Th>
+          <Th resize={{ ...getResizeProps('workspaces'), 'aria-label': 'Resize workspaces column' }}>
+            {columnNames.workspaces}
+          </Th>
+          <Th>{columnNames.lastCommit}</Th>
+        </Tr>
+      </Thead>
+      <Tbody>
+        {repositories.map((repo) => (
+          <Tr key={repo.name}>
+            <Td dataLabel={columnNames.name}>{repo.name}</Td>
+            <Td dataLabel={columnNames.branches}>{repo.branches}</Td>
+            <Td dataLabel={columnNames.prs}>{repo.prs}</Td>
+            <Td dataLabel={columnNames.workspaces}>{repo.workspaces}</Td>
+            <Td dataLabel={columnNames.lastCommit}>{repo.lastCommit}</Td>
+          </Tr>
+        ))}
+      </Tbody>
+    </Table>
+  );
+};
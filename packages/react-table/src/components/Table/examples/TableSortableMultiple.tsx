@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Table, Thead, Tr, Th, Tbody, Td, ThProps, ISortByColumn } from '@patternfly/react-table';
+
+interface Issue {
+  title: string;
+  status: string;
+  priority: number;
+  updated: string;
+}
+
+export const TableSortableMultiple: React.FunctionComponent = () => {
+  // In real usage, this data would come from some external source like an API via props.
+  const issues: Issue[] = [
+    { title: 'Login fails on Safari', status: 'Open', priority: 2, updated: '2024-03-02' },
+    { title: 'Dashboard loads slowly', status: 'Closed', priority: 1, updated: '2024-02-27' },
+    { title: 'Typo in settings page', status: 'Open', priority: 3, updated: '2024-03-04' },
+    { title: 'Export drops last row', status: 'In progress', priority: 1, updated: '2024-03-01' },
+    { title: 'Missing tooltip on icon', status: 'Open', priority: 3, updated: '2024-02-29' },
+    { title: 'Broken link in footer', status: 'Closed', priority: 2, updated: '2024-03-03' }
+  ];
+
+  const columnNames = {
+    title: 'Title',
+    status: 'Status',
+    priority: 'Priority',
+    updated: 'Last updated'
+  };
+
+  // Sorted columns in order of priority, initially sorting by status and then by last updated date
+  const [sortBy, setSortBy] = useState<ISortByColumn[]>([
+    { index: 1, direction: 'asc' },
+    { index: 3, direction: 'desc' }
+  ]);
+
+  const getSortableRowValues = (issue: Issue): (string | number)[] => {
+    const { title, status, priority, updated } = issue;
+    return [title, status, priority, updated];
+  };
+
+  // Rows are compared by each sorted column in turn, until one of the columns differs
+  const sortedIssues = [...issues].sort((a, b) => {
+    for (const { index, direction } of sortBy) {
+      const aValue = getSortableRowValues(a)[index];
+      const bValue = getSortableRowValues(b)[index];
+      const comparison =
+        typeof aValue === 'number' ? aValue - (bValue as number) : aValue.localeCompare(bValue as string);
+      if (comparison !== 0) {
+        return direction === 'asc' ? comparison : -comparison;
+      }
+    }
+    return 0;
+  });
+
+  const getSortParams = (columnIndex: number): ThProps['sort'] => ({
+    sortBy: {},
+    multiSortBy: sortBy,
+    onMultiSort: (_event, newSortBy) => setSortBy(newSortBy),
+    columnIndex
+  });
+
+  return (
+    <Table aria-label="Sortable table with multiple columns">
+      <Thead>
+        <Tr>
+          <Th sort={getSortParams(0)}>{columnNames.title}</Th>
+          <Th sort={getSortParams(1)}>{columnNames.status}</Th>
+          <Th sort={getSortParams(2)}>{columnNames.priority}</Th>
+          <Th sort={getSortParams(3)}>{columnNames.updated}</Th>
+        </Tr>
+      </Thead>
+      <Tbody>
+        {sortedIssues.map((issue) => (
+          <Tr key={issue.title}>
+            <Td dataLabel={columnNames.title}>{issue.title}</Td>
+            <Td dataLabel={columnNames.status}>{issue.status}</Td>
+            <Td dataLabel={columnNames.priority}>{issue.priority}</Td>
+            <Td dataLabel={columnNames.updated}>{issue.updated}</Td>
+          </Tr>
+        ))}
+      </Tbody>
+    </Table>
+  );
+};
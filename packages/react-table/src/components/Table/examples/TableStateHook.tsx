@@ -0,0 +1,119 @@
+import { Fragment } from 'react';
+import {
+  Pagination,
+  SearchInput,
+  Toolbar,
+  ToolbarContent,
+  ToolbarItem,
+  ToolbarItemVariant
+} from '@patternfly/react-core';
+import {
+  Table,
+  Thead,
+  Tr,
+  Th,
+  Tbody,
+  Td,
+  ExpandableRowContent,
+  TableStateColumn,
+  useTableState
+} from '@patternfly/react-table';
+
+interface Repository {
+  name: string;
+  branches: number;
+  prs: number;
+  lastCommit: string;
+}
+
+const columnNames = {
+  name: 'Repositories',
+  branches: 'Branches',
+  prs: 'Pull requests',
+  lastCommit: 'Last commit'
+};
+
+export const TableStateHook: React.FunctionComponent = () => {
+  // In real usage, this data would come from some external source like an API via props.
+  const repositories: Repository[] = Array.from({ length: 23 }, (_x, index) => ({
+    name: `repository-${index + 1}`,
+    branches: (index * 7) % 11,
+    prs: (index * 5) % 9,
+    lastCommit: `${(index % 6) + 1} days ago`
+  }));
+
+  const columns: TableStateColumn<Repository>[] = [
+    { key: 'name', isSortable: true },
+    { key: 'branches', isSortable: true },
+    { key: 'prs', isSortable: true },
+    { key: 'lastCommit' }
+  ];
+
+  const {
+    visibleRows,
+    filters,
+    setFilter,
+    getThProps,
+    getSelectAllThProps,
+    getSelectTdProps,
+    getExpandTdProps,
+    getTrProps,
+    getExpandedTrProps,
+    getPaginationProps
+  } = useTableState({
+    rows: repositories,
+    columns,
+    getRowKey: (repo) => repo.name,
+    defaultPerPage: 5
+  });
+
+  return (
+    <Fragment>
+      <Toolbar>
+        <ToolbarContent>
+          <ToolbarItem>
+            <SearchInput
+              aria-label="Filter by repository name"
+              placeholder="Filter by name"
+              value={(filters.name as string) || ''}
+              onChange={(_event, value) => setFilter('name', value)}
+              onClear={() => setFilter('name', '')}
+            />
+          </ToolbarItem>
+          <ToolbarItem variant={ToolbarItemVariant.pagination}>
+            <Pagination isCompact {...getPaginationProps()} />
+          </ToolbarItem>
+        </ToolbarContent>
+      </Toolbar>
+      <Table aria-label="Table state hook example">
+        <Thead>
+          <Tr>
+            <Th screenReaderText="Row expansion" />
+            <Th {...getSelectAllThProps()} aria-label="Select all rows" />
+            <Th {...getThProps('name')}>{columnNames.name}</Th>
+            <Th {...getThProps('branches')}>{columnNames.branches}</Th>
+            <Th {...getThProps('prs')}>{columnNames.prs}</Th>
+            <Th {...getThProps('lastCommit')}>{columnNames.lastCommit}</Th>
+          </Tr>
+        </Thead>
+        {visibleRows.map((repo, rowIndex) => (
+          <Tbody key={repo.name} isExpanded={getExpandedTrProps(repo).isExpanded}>
+            <Tr {...getTrProps(repo)}>
+              <Td {...getExpandTdProps(repo, rowIndex)} />
+              <Td {...getSelectTdProps(repo, rowIndex)} />
+              <Td dataLabel={columnNames.name}>{repo.name}</Td>
+              <Td dataLabel={columnNames.branches}>{repo.branches}</Td>
+              <Td dataLabel={columnNames.prs}>{repo.prs}</Td>
+              <Td dataLabel={columnNames.lastCommit}>{repo.lastCommit}</Td>
+            </Tr>
+            <Tr {...getExpandedTrProps(repo)}>
+              <Td colSpan={6}>
+                <ExpandableRowContent>Details of {repo.name}</ExpandableRowContent>
+              </Td>
+            </Tr>
+          </Tbody>
+        ))}
+      </Table>
+    </Fragment>
+  );
+};
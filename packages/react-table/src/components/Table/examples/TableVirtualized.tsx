@@ -0,0 +1,92 @@
+import { Fragment, useState } from 'react';
+import {
+  Table,
+  Thead,
+  Tr,
+  Th,
+  Td,
+  ExpandableRowContent,
+  InnerScrollContainer,
+  VirtualizedTbody
+} from '@patternfly/react-table';
+
+interface Repository {
+  name: string;
+  branches: number;
+  prs: number;
+  lastCommit: string;
+  description: string;
+}
+
+const columnNames = {
+  name: 'Repositories',
+  branches: 'Branches',
+  prs: 'Pull requests',
+  lastCommit: 'Last commit'
+};
+
+// In real usage, this data would come from some external source like an API via props.
+const repositories: Repository[] = Array.from({ length: 10000 }, (_x, index) => ({
+  name: `repository-${index + 1}`,
+  branches: (index * 7) % 11,
+  prs: (index * 5) % 9,
+  lastCommit: `${(index % 6) + 1} days ago`,
+  description: `Repository ${index + 1} contains ${(index * 7) % 11} branches.`
+}));
+
+export const TableVirtualized: React.FunctionComponent = () => {
+  const [expandedRepoNames, setExpandedRepoNames] = useState<string[]>([]);
+  const isRepoExpanded = (repo: Repository) => expandedRepoNames.includes(repo.name);
+  const setRepoExpanded = (repo: Repository, isExpanding = true) =>
+    setExpandedRepoNames((prevExpanded) => {
+      const otherExpandedRepoNames = prevExpanded.filter((r) => r !== repo.name);
+      return isExpanding ? [...otherExpandedRepoNames, repo.name] : otherExpandedRepoNames;
+    });
+
+  return (
+    <InnerScrollContainer style={{ height: '400px' }}>
+      <Table aria-label="Virtualized table" isStickyHeader isExpandable>
+        <Thead>
+          <Tr aria-rowindex={1}>
+            <Th screenReaderText="Row expansion" />
+            <Th>{columnNames.name}</Th>
+            <Th>{columnNames.branches}</Th>
+            <Th>{columnNames.prs}</Th>
+            <Th>{columnNames.lastCommit}</Th>
+          </Tr>
+        </Thead>
+        <VirtualizedTbody
+          rowCount={repositories.length}
+          rowHeight={53}
+          hasMeasuredRowHeights
+          renderRow={(rowIndex, rowProps) => {
+            const repo = repositories[rowIndex];
+            return (
+              <Fragment>
+                <Tr {...rowProps}>
+                  <Td
+                    expand={{
+                      rowIndex,
+                      isExpanded: isRepoExpanded(repo),
+                      onToggle: () => setRepoExpanded(repo, !isRepoExpanded(repo)),
+                      expandId: 'virtualized-table-expandable-toggle'
+                    }}
+                  />
+                  <Td dataLabel={columnNames.name}>{repo.name}</Td>
+                  <Td dataLabel={columnNames.branches}>{repo.branches}</Td>
+                  <Td dataLabel={columnNames.prs}>{repo.prs}</Td>
+                  <Td dataLabel={columnNames.lastCommit}>{repo.lastCommit}</Td>
+                </Tr>
+                <Tr isExpanded={isRepoExpanded(repo)}>
+                  <Td colSpan={5}>
+                    <ExpandableRowContent>{repo.description}</ExpandableRowContent>
+                  </Td>
+                </Tr>
+              </Fragment>
+            );
+          }}
+        />
+      </Table>
+    </InnerScrollContainer>
+  );
+};
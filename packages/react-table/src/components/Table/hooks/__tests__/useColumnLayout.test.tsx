@@ -0,0 +1,104 @@
+import { act, renderHook } from '@testing-library/react';
+
+import { normalizeColumnLayout, useColumnLayout, TableLayoutColumn } from '../useColumnLayout';
+
+const columns: TableLayoutColumn[] = [
+  { key: 'name', isHideable: false },
+  { key: 'branches', defaultWidth: 120, minWidth: 80 },
+  { key: 'prs', isHiddenByDefault: true },
+  { key: 'lastCommit', isResizable: false }
+];
+
+const getKeys = (layoutColumns: TableLayoutColumn[]) => layoutColumns.map((column) => column.key);
+
+test('returns the default layout', () => {
+  const { result } = renderHook(() => useColumnLayout({ columns }));
+
+  expect(result.current.layout).toEqual({
+    order: ['name', 'branches', 'prs', 'lastCommit'],
+    widths: { branches: 120 },
+    hiddenColumns: ['prs']
+  });
+  expect(getKeys(result.current.visibleColumns)).toEqual(['name', 'branches', 'lastCommit']);
+});
+
+test('shows and hides columns unless they are not hideable', () => {
+  const { result } = renderHook(() => useColumnLayout({ columns }));
+
+  act(() => result.current.setColumnVisible('prs'));
+  act(() => result.current.setColumnVisible('branches', false));
+  act(() => result.current.setColumnVisible('name', false));
+
+  expect(getKeys(result.current.visibleColumns)).toEqual(['name', 'prs', 'lastCommit']);
+  expect(result.current.isColumnVisible('name')).toBe(true);
+});
+
+test('moves and reorders columns', () => {
+  const { result } = renderHook(() => useColumnLayout({ columns }));
+
+  act(() => result.current.moveColumn('lastCommit', 0));
+
+  expect(result.current.layout.order).toEqual(['lastCommit', 'name', 'branches', 'prs']);
+
+  act(() => result.current.setColumnOrder(['prs', 'branches']));
+
+  expect(result.current.layout.order).toEqual(['prs', 'branches', 'name', 'lastCommit']);
+});
+
+test('resizes columns through the Th resize props', () => {
+  const { result } = renderHook(() => useColumnLayout({ columns }));
+
+  expect(result.current.getResizeProps('lastCommit')).toBeUndefined();
+  expect(result.current.getResizeProps('branches')).toEqual(expect.objectContaining({ width: 120, minWidth: 80 }));
+
+  act(() => result.current.getResizeProps('branches').onResize(null, 200));
+
+  expect(result.current.getColumnWidth('branches')).toBe(200);
+
+  act(() => result.current.getResizeProps('branches').onResizeEnd(null, 210));
+
+  expect(result.current.getColumnWidth('branches')).toBe(210);
+  expect(result.current.layout.widths.branches).toBe(210);
+});
+
+test('calls onLayoutChange once a column resize ends', () => {
+  const onLayoutChange = jest.fn();
+  const { result } = renderHook(() => useColumnLayout({ columns, onLayoutChange }));
+
+  act(() => result.current.getResizeProps('branches').onResize(null, 150));
+  act(() => result.current.getResizeProps('branches').onResize(null, 180));
+
+  expect(onLayoutChange).not.toHaveBeenCalled();
+  expect(result.current.layout.widths.branches).toBe(120);
+
+  act(() => result.current.getResizeProps('branches').onResizeEnd(null, 180));
+
+  expect(onLayoutChange).toHaveBeenCalledTimes(1);
+  expect(onLayoutChange).toHaveBeenCalledWith(expect.objectContaining({ widths: { branches: 180 } }));
+});
+
+test('restores a saved layout and calls onLayoutChange', () => {
+  const onLayoutChange = jest.fn();
+  const savedLayout = JSON.parse('{"order":["prs","name"],"widths":{"name":300},"hiddenColumns":[]}');
+  const { result } = renderHook(() => useColumnLayout({ columns, defaultLayout: savedLayout, onLayoutChange }));
+
+  expect(getKeys(result.current.visibleColumns)).toEqual(['prs', 'name', 'branches', 'lastCommit']);
+
+  act(() => result.current.resetLayout());
+
+  expect(onLayoutChange).toHaveBeenCalledWith({
+    order: ['name', 'branches', 'prs', 'lastCommit'],
+    widths: { branches: 120 },
+    hiddenColumns: ['prs']
+  });
+});
+
+test('normalizes layouts saved with unknown or missing columns', () => {
+  expect(
+    normalizeColumnLayout({ order: ['removed', 'lastCommit', 'branches'], hiddenColumns: ['name', 'removed'] }, columns)
+  ).toEqual({
+    order: ['lastCommit', 'branches', 'name', 'prs'],
+    widths: { branches: 120 },
+    hiddenColumns: []
+  });
+});
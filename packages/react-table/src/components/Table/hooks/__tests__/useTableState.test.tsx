@@ -0,0 +1,153 @@
+import { act, renderHook } from '@testing-library/react';
+
+import { useTableState, TableStateColumn } from '../useTableState';
+
+interface Repository {
+  name: string;
+  branches: number;
+}
+
+const rows: Repository[] = [
+  { name: 'charlie', branches: 3 },
+  { name: 'alpha', branches: 10 },
+  { name: 'bravo', branches: 1 },
+  { name: 'delta', branches: 7 }
+];
+
+const columns: TableStateColumn<Repository>[] = [
+  { key: 'name', isSortable: true },
+  { key: 'branches', isSortable: true }
+];
+
+const getRowKey = (repo: Repository) => repo.name;
+
+const render = (props = {}) => renderHook(() => useTableState({ rows, columns, getRowKey, ...props }));
+
+test('returns rows unchanged by default', () => {
+  const { result } = render();
+
+  expect(result.current.visibleRows).toEqual(rows);
+  expect(result.current.itemCount).toBe(4);
+});
+
+test('sorts rows through the Th sort props', () => {
+  const { result } = render();
+
+  act(() => result.current.getThProps('branches').sort.onSort(null, 1, 'desc', null));
+
+  expect(result.current.sortBy).toEqual({ columnKey: 'branches', direction: 'desc' });
+  expect(result.current.visibleRows.map(getRowKey)).toEqual(['alpha', 'delta', 'charlie', 'bravo']);
+  expect(result.current.getThProps('branches').sort.sortBy.index).toBe(1);
+});
+
+test('does not return sort props for columns that are not sortable', () => {
+  const { result } = renderHook(() => useTableState({ rows, columns: [{ key: 'name' }], getRowKey }));
+
+  expect(result.current.getThProps('name')).toEqual({});
+});
+
+test('filters rows and resets to the first page', () => {
+  const { result } = render({ defaultPerPage: 2, defaultPage: 2 });
+
+  act(() => result.current.setFilter('name', 'L'));
+
+  expect(result.current.page).toBe(1);
+  expect(result.current.visibleRows.map(getRowKey)).toEqual(['charlie', 'alpha']);
+  expect(result.current.itemCount).toBe(3);
+
+  act(() => result.current.setFilter('name', ['bravo', 'delta']));
+
+  expect(result.current.visibleRows.map(getRowKey)).toEqual(['bravo', 'delta']);
+
+  act(() => result.current.clearFilters());
+
+  expect(result.current.filters).toEqual({});
+});
+
+test('paginates rows through the Pagination props', () => {
+  const { result } = render({ defaultPerPage: 3 });
+
+  act(() => result.current.getPaginationProps().onSetPage(null, 2));
+
+  expect(result.current.visibleRows.map(getRowKey)).toEqual(['delta']);
+
+  act(() => result.current.getPaginationProps().onPerPageSelect(null, 2, 1));
+
+  expect(result.current.getPaginationProps()).toEqual(expect.objectContaining({ page: 1, perPage: 2, itemCount: 4 }));
+  expect(result.current.visibleRows).toHaveLength(2);
+});
+
+test('selects rows and respects isRowSelectable', () => {
+  const { result } = render({ isRowSelectable: (repo: Repository) => repo.name !== 'bravo' });
+
+  act(() => result.current.getSelectTdProps(rows[0], 0).select.onSelect(null, true, 0, null, null));
+
+  expect(result.current.selectedRowKeys).toEqual(['charlie']);
+  expect(result.current.getTrProps(rows[0])).toEqual({ isSelectable: true, isRowSelected: true });
+
+  act(() => result.current.getSelectAllThProps().select.onSelect(null, true, -1, null, null));
+
+  expect(result.current.selectedRowKeys).toEqual(['charlie', 'alpha', 'delta']);
+  expect(result.current.areAllRowsSelected).toBe(true);
+  expect(result.current.getSelectTdProps(rows[2], 2).select.isDisabled).toBe(true);
+
+  act(() => result.current.selectAll(false));
+
+  expect(result.current.selectedRowKeys).toEqual([]);
+});
+
+test('expands rows through the Td expand props', () => {
+  const { result } = render();
+
+  act(() => result.current.getExpandTdProps(rows[1], 1).expand.onToggle(null, 1, true, null, null));
+
+  expect(result.current.getExpandedTrProps(rows[1])).toEqual({ isExpanded: true });
+  expect(result.current.getExpandedTrProps(rows[0])).toEqual({ isExpanded: false });
+});
+
+test('uses controlled values and calls the change callbacks', () => {
+  const onSortChange = jest.fn();
+  const onSelectedRowKeysChange = jest.fn();
+  const { result } = render({
+    sortBy: { columnKey: 'name', direction: 'asc' },
+    onSortChange,
+    selectedRowKeys: ['alpha'],
+    onSelectedRowKeysChange
+  });
+
+  expect(result.current.visibleRows.map(getRowKey)).toEqual(['alpha', 'bravo', 'charlie', 'delta']);
+
+  act(() => result.current.setSortBy({ columnKey: 'name', direction: 'desc' }));
+  act(() => result.current.setRowSelected(rows[3]));
+
+  expect(onSortChange).toHaveBeenCalledWith({ columnKey: 'name', direction: 'desc' });
+  expect(onSelectedRowKeysChange).toHaveBeenCalledWith(['alpha', 'delta']);
+  expect(result.current.sortBy).toEqual({ columnKey: 'name', direction: 'asc' });
+  expect(result.current.selectedRowKeys).toEqual(['alpha']);
+});
+
+test('emits a query and does not process rows in server-side mode', () => {
+  const onQueryChange = jest.fn();
+  const { result } = render({ isServerSide: true, itemCount: 100, defaultPerPage: 2, onQueryChange });
+
+  act(() => result.current.setSortBy({ columnKey: 'branches', direction: 'asc' }));
+
+  expect(onQueryChange).toHaveBeenLastCalledWith({
+    sortBy: { columnKey: 'branches', direction: 'asc' },
+    filters: {},
+    page: 1,
+    perPage: 2
+  });
+  expect(result.current.visibleRows).toEqual(rows);
+  expect(result.current.getPaginationProps().itemCount).toBe(100);
+
+  act(() => result.current.setFilter('name', 'alp'));
+
+  expect(onQueryChange).toHaveBeenLastCalledWith({
+    sortBy: { columnKey: 'branches', direction: 'asc' },
+    filters: { name: 'alp' },
+    page: 1,
+    perPage: 2
+  });
+  expect(result.current.visibleRows).toEqual(rows);
+});
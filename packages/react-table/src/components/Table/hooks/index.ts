@@ -0,0 +1,2 @@
+export * from './useTableState';
+export * from './useColumnLayout';
@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { ThResizeType } from '../base/types';
+import { useControllableState } from './useControllableState';
+
+/** Serializable layout of the table columns, which can be persisted and restored */
+export interface TableColumnLayout {
+  /** Keys of all columns in display order */
+  order: string[];
+  /** Widths in pixels of the columns which have been resized, keyed by column key */
+  widths: Record<string, number>;
+  /** Keys of the hidden columns */
+  hiddenColumns: string[];
+}
+
+export interface TableLayoutColumn {
+  /** Unique key of the column */
+  key: string;
+  /** Flag indicating the column can be hidden. Defaults to true. */
+  isHideable?: boolean;
+  /** Flag indicating the column is hidden when there is no saved layout */
+  isHiddenByDefault?: boolean;
+  /** Flag indicating the column can be resized. Defaults to true. */
+  isResizable?: boolean;
+  /** Width of the column in pixels when there is no saved layout */
+  defaultWidth?: number;
+  /** Minimum width of the column in pixels */
+  minWidth?: number;
+  /** Maximum width of the column in pixels */
+  maxWidth?: number;
+}
+
+export interface UseColumnLayoutProps {
+  /** Definitions of all columns, in their default order */
+  columns: TableLayoutColumn[];
+  /** Controlled column layout */
+  layout?: TableColumnLayout;
+  /** Initial column layout when uncontrolled, such as a layout restored from storage */
+  defaultLayout?: Partial<TableColumnLayout>;
+  /** Callback when the column layout changes. The layout can be passed to JSON.stringify to be persisted. */
+  onLayoutChange?: (layout: TableColumnLayout) => void;
+}
+
+export interface ColumnLayout {
+  /** The current column layout */
+  layout: TableColumnLayout;
+  /** All columns in display order, including hidden columns */
+  orderedColumns: TableLayoutColumn[];
+  /** Visible columns in display order */
+  visibleColumns: TableLayoutColumn[];
+  /** Returns whether a column is visible */
+  isColumnVisible: (columnKey: string) => boolean;
+  /** Show or hide a column. Columns which are not hideable are always visible. */
+  setColumnVisible: (columnKey: string, isVisible?: boolean) => void;
+  /** Returns the width of a column in pixels, or undefined if it has no width */
+  getColumnWidth: (columnKey: string) => number | undefined;
+  /** Update the width of a column in pixels */
+  setColumnWidth: (columnKey: string, width: number) => void;
+  /** Update the display order of the columns */
+  setColumnOrder: (order: string[]) => void;
+  /** Move a column to a new position in the display order */
+  moveColumn: (columnKey: string, toIndex: number) => void;
+  /** Restore the default layout of the columns */
+  resetLayout: () => void;
+  /** Returns the resize props of a Th for the given column. The width of the column follows the pointer while it is
+   * resized, and the layout is only updated once the resize ends.
+   */
+  getResizeProps: (columnKey: string) => ThResizeType | undefined;
+}
+
+const getDefaultLayout = (columns: TableLayoutColumn[]): TableColumnLayout => ({
+  order: columns.map((column) => column.key),
+  widths: columns.reduce(
+    (acc, column) => (column.defaultWidth !== undefined ? { ...acc, [column.key]: column.defaultWidth } : acc),
+    {} as Record<string, number>
+  ),
+  hiddenColumns: columns.filter((column) => column.isHiddenByDefault).map((column) => column.key)
+});
+
+/**
+ * Reconciles a layout with the current column definitions, so that a layout persisted before columns were added or
+ * removed remains valid. Unknown columns are dropped and new columns are appended in their default order.
+ */
+export const normalizeColumnLayout = (
+  layout: Partial<TableColumnLayout>,
+  columns: TableLayoutColumn[]
+): TableColumnLayout => {
+  const defaultLayout = getDefaultLayout(columns);
+  const columnKeys = defaultLayout.order;
+  const knownKeys = (layout.order || []).filter(
+    (key, index, keys) => columnKeys.includes(key) && keys.indexOf(key) === index
+  );
+  const order = [...knownKeys, ...columnKeys.filter((key) => !knownKeys.includes(key))];
+  const widths = Object.keys(layout.widths || {})
+    .filter((key) => columnKeys.includes(key))
+    .reduce((acc, key) => ({ ...acc, [key]: layout.widths[key] }), defaultLayout.widths);
+  const hiddenColumns = (layout.hiddenColumns || defaultLayout.hiddenColumns).filter((key) =>
+    columns.some((column) => column.key === key && column.isHideable !== false)
+  );
+
+  return { order, widths, hiddenColumns };
+};
+
+/**
+ * Manages the order, widths and visibility of table columns as a single serializable layout object. The layout can
+ * be controlled, or left uncontrolled and initialized with a previously persisted layout.
+ */
+export const useColumnLayout = ({
+  columns,
+  layout: layoutProp,
+  defaultLayout = {},
+  onLayoutChange
+}: UseColumnLayoutProps): ColumnLayout => {
+  const [currentLayout, setLayout] = useControllableState(
+    layoutProp,
+    normalizeColumnLayout(defaultLayout, columns),
+    onLayoutChange
+  );
+  const layout = normalizeColumnLayout(currentLayout, columns);
+  // Widths of the columns being resized, which are committed to the layout once the resize ends
+  const [resizingWidths, setResizingWidths] = useState<Record<string, number>>({});
+
+  const getColumn = (columnKey: string) => columns.find((column) => column.key === columnKey);
+  const orderedColumns = layout.order.map(getColumn);
+  const isColumnVisible = (columnKey: string) => !layout.hiddenColumns.includes(columnKey);
+  const visibleColumns = orderedColumns.filter((column) => isColumnVisible(column.key));
+
+  const setColumnVisible = (columnKey: string, isVisible = true) => {
+    if (getColumn(columnKey)?.isHideable === false) {
+      return;
+    }
+    const otherHiddenColumns = layout.hiddenColumns.filter((key) => key !== columnKey);
+    setLayout({ ...layout, hiddenColumns: isVisible ? otherHiddenColumns : [...otherHiddenColumns, columnKey] });
+  };
+
+  const getColumnWidth = (columnKey: string) => resizingWidths[columnKey] ?? layout.widths[columnKey];
+  const setColumnWidth = (columnKey: string, width: number) =>
+    layout.widths[columnKey] !== width && setLayout({ ...layout, widths: { ...layout.widths, [columnKey]: width } });
+
+  const setColumnOrder = (order: string[]) => setLayout(normalizeColumnLayout({ ...layout, order }, columns));
+
+  const moveColumn = (columnKey: string, toIndex: number) => {
+    const order = layout.order.filter((key) => key !== columnKey);
+    order.splice(toIndex, 0, columnKey);
+    setColumnOrder(order);
+  };
+
+  const resetLayout = () => setLayout(getDefaultLayout(columns));
+
+  const getResizeProps = (columnKey: string): ThResizeType | undefined => {
+    const column = getColumn(columnKey);
+    if (!column || column.isResizable === false) {
+      return undefined;
+    }
+    return {
+      width: getColumnWidth(columnKey),
+      minWidth: column.minWidth,
+      maxWidth: column.maxWidth,
+      onResize: (_event, width) => setResizingWidths((widths) => ({ ...widths, [columnKey]: width })),
+      onResizeEnd: (_event, width) => {
+        setResizingWidths(({ [columnKey]: _width, ...widths }) => widths);
+        setColumnWidth(columnKey, width);
+      }
+    };
+  };
+
+  return {
+    layout,
+    orderedColumns,
+    visibleColumns,
+    isColumnVisible,
+    setColumnVisible,
+    getColumnWidth,
+    setColumnWidth,
+    setColumnOrder,
+    moveColumn,
+    resetLayout,
+    getResizeProps
+  };
+};
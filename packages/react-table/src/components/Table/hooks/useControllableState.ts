@@ -0,0 +1,16 @@
+import { useState } from 'react';
+
+/** Uses the controlled value when it is defined, otherwise falls back to internal state. */
+export const useControllableState = <S>(value: S | undefined, defaultValue: S, onChange?: (value: S) => void) => {
+  const [internalValue, setInternalValue] = useState<S>(defaultValue);
+  const isControlled = value !== undefined;
+
+  const setValue = (newValue: S) => {
+    if (!isControlled) {
+      setInternalValue(newValue);
+    }
+    onChange && onChange(newValue);
+  };
+
+  return [isControlled ? value : internalValue, setValue] as const;
+};
@@ -0,0 +1,432 @@
+import { PaginationProps } from '@patternfly/react-core/dist/esm/components/Pagination';
+import { ThProps } from '../Th';
+import { TdProps } from '../Td';
+import { TrProps } from '../Tr';
+import { SortByDirection } from '../SortColumn';
+import { useControllableState } from './useControllableState';
+
+export type TableStateValue = string | number | boolean | Date | null | undefined;
+
+export interface TableStateColumn<T> {
+  /** Unique key of the column. Used to identify the column in the sort and filter state. */
+  key: string;
+  /** Returns the value of the column for a row. Used for sorting and default filtering. Defaults to row[key]. */
+  getValue?: (row: T) => TableStateValue;
+  /** Flag indicating the column can be sorted */
+  isSortable?: boolean;
+  /** Custom comparison for sorting the column in ascending order */
+  compare?: (a: T, b: T) => number;
+  /** Custom predicate for filtering the column. Defaults to a case insensitive text match, or a match against
+   * any of the values when the filter value is an array.
+   */
+  filter?: (row: T, filterValue: string | string[]) => boolean;
+}
+
+export interface TableStateSortBy {
+  /** Key of the currently sorted column */
+  columnKey?: string;
+  /** Current sort direction */
+  direction?: 'asc' | 'desc';
+}
+
+/** Record of filter values keyed by column key */
+export type TableStateFilters = Record<string, string | string[]>;
+
+export interface TableStateQuery {
+  /** Current sort column and direction */
+  sortBy: TableStateSortBy;
+  /** Current filter values */
+  filters: TableStateFilters;
+  /** Current page, starting at 1 */
+  page: number;
+  /** Current number of rows per page */
+  perPage: number;
+}
+
+export interface UseTableStateProps<T> {
+  /** Rows managed by the table state. In server-side mode these should be the rows of the current page only. */
+  rows: T[];
+  /** Column definitions used for sorting and filtering */
+  columns: TableStateColumn<T>[];
+  /** Returns a unique key for a row. Used to track selection and expansion independently of row order. */
+  getRowKey: (row: T) => string;
+  /** Flag indicating sorting, filtering and pagination happen on the server. Rows are rendered as passed in and
+   * onQueryChange is called whenever the query changes.
+   */
+  isServerSide?: boolean;
+  /** Total number of rows on the server. Only applicable in server-side mode. */
+  itemCount?: number;
+  /** Callback when the sort, filters or pagination change. Should be used to fetch rows in server-side mode. */
+  onQueryChange?: (query: TableStateQuery) => void;
+
+  /** Controlled sort state */
+  sortBy?: TableStateSortBy;
+  /** Initial sort state when uncontrolled */
+  defaultSortBy?: TableStateSortBy;
+  /** Callback when the sort state changes */
+  onSortChange?: (sortBy: TableStateSortBy) => void;
+  /** Default sort direction when first sorting a column. Defaults to "asc". */
+  defaultSortDirection?: 'asc' | 'desc';
+
+  /** Controlled filter state */
+  filters?: TableStateFilters;
+  /** Initial filter state when uncontrolled */
+  defaultFilters?: TableStateFilters;
+  /** Callback when the filter state changes */
+  onFiltersChange?: (filters: TableStateFilters) => void;
+
+  /** Controlled current page, starting at 1 */
+  page?: number;
+  /** Initial page when uncontrolled */
+  defaultPage?: number;
+  /** Callback when the current page changes */
+  onPageChange?: (page: number) => void;
+  /** Controlled number of rows per page */
+  perPage?: number;
+  /** Initial number of rows per page when uncontrolled */
+  defaultPerPage?: number;
+  /** Callback when the number of rows per page changes */
+  onPerPageChange?: (perPage: number) => void;
+
+  /** Controlled keys of the selected rows */
+  selectedRowKeys?: string[];
+  /** Initial keys of the selected rows when uncontrolled */
+  defaultSelectedRowKeys?: string[];
+  /** Callback when the selected rows change */
+  onSelectedRowKeysChange?: (selectedRowKeys: string[]) => void;
+  /** Returns whether a row can be selected. All rows are selectable by default. */
+  isRowSelectable?: (row: T) => boolean;
+
+  /** Controlled keys of the expanded rows */
+  expandedRowKeys?: string[];
+  /** Initial keys of the expanded rows when uncontrolled */
+  defaultExpandedRowKeys?: string[];
+  /** Callback when the expanded rows change */
+  onExpandedRowKeysChange?: (expandedRowKeys: string[]) => void;
+}
+
+export interface TableState<T> {
+  /** Rows of the current page, after filtering and sorting */
+  visibleRows: T[];
+  /** All rows after filtering and sorting, before pagination */
+  processedRows: T[];
+  /** Total number of rows across all pages */
+  itemCount: number;
+  /** The current query */
+  query: TableStateQuery;
+
+  /** Current sort state */
+  sortBy: TableStateSortBy;
+  /** Update the sort state */
+  setSortBy: (sortBy: TableStateSortBy) => void;
+  /** Current filter values */
+  filters: TableStateFilters;
+  /** Update the filter value of a single column. An empty value removes the filter. */
+  setFilter: (columnKey: string, value: string | string[] | undefined) => void;
+  /** Replace all filter values */
+  setFilters: (filters: TableStateFilters) => void;
+  /** Remove all filter values */
+  clearFilters: () => void;
+  /** Current page, starting at 1 */
+  page: number;
+  /** Update the current page */
+  setPage: (page: number) => void;
+  /** Current number of rows per page */
+  perPage: number;
+  /** Update the number of rows per page */
+  setPerPage: (perPage: number, page?: number) => void;
+
+  /** Keys of the selected rows */
+  selectedRowKeys: string[];
+  /** Returns whether a row is selected */
+  isRowSelected: (row: T) => boolean;
+  /** Select or deselect a row */
+  setRowSelected: (row: T, isSelecting?: boolean) => void;
+  /** Select or deselect all selectable rows. Outside of server-side mode this includes filtered rows on other pages. */
+  selectAll: (isSelecting?: boolean) => void;
+  /** Flag indicating all selectable rows are selected */
+  areAllRowsSelected: boolean;
+  /** Keys of the expanded rows */
+  expandedRowKeys: string[];
+  /** Returns whether a row is expanded */
+  isRowExpanded: (row: T) => boolean;
+  /** Expand or collapse a row */
+  setRowExpanded: (row: T, isExpanding?: boolean) => void;
+
+  /** Returns the sort props of a Th for the given column */
+  getThProps: (columnKey: string) => Pick<ThProps, 'sort'>;
+  /** Returns the props of a Th rendering the select all checkbox */
+  getSelectAllThProps: () => Pick<ThProps, 'select'>;
+  /** Returns the props of a Td rendering the row select checkbox */
+  getSelectTdProps: (row: T, rowIndex: number) => Pick<TdProps, 'select'>;
+  /** Returns the props of a Td rendering the row expand toggle */
+  getExpandTdProps: (row: T, rowIndex: number) => Pick<TdProps, 'expand'>;
+  /** Returns the props of a Tr rendering a row */
+  getTrProps: (row: T) => Pick<TrProps, 'isRowSelected' | 'isSelectable'>;
+  /** Returns the props of the Tr rendering the expanded content of a row */
+  getExpandedTrProps: (row: T) => Pick<TrProps, 'isExpanded'>;
+  /** Returns the props of a Pagination controlling the table */
+  getPaginationProps: () => Pick<PaginationProps, 'itemCount' | 'page' | 'perPage' | 'onSetPage' | 'onPerPageSelect'>;
+}
+
+const getColumnValue = <T,>(column: TableStateColumn<T>, row: T): TableStateValue =>
+  column.getValue ? column.getValue(row) : (row as any)[column.key];
+
+const compareValues = (a: TableStateValue, b: TableStateValue) => {
+  const aIsEmpty = a === null || a === undefined || a === '';
+  const bIsEmpty = b === null || b === undefined || b === '';
+  if (aIsEmpty || bIsEmpty) {
+    return Number(aIsEmpty) - Number(bIsEmpty);
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  if (typeof a === 'boolean' && typeof b === 'boolean') {
+    return Number(a) - Number(b);
+  }
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+const matchesFilter = <T,>(column: TableStateColumn<T>, row: T, filterValue: string | string[]) => {
+  if (column.filter) {
+    return column.filter(row, filterValue);
+  }
+  const value = getColumnValue(column, row);
+  const text = value instanceof Date ? value.toISOString() : String(value ?? '');
+  if (Array.isArray(filterValue)) {
+    return filterValue.includes(text);
+  }
+  return text.toLowerCase().includes(filterValue.toLowerCase());
+};
+
+const isEmptyFilter = (value: string | string[] | undefined) =>
+  value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Manages the sort, filter, pagination, selection and expansion state of a composable table and returns
+ * prop getters for the Th, Td, Tr and Pagination components. Each piece of state can be controlled by passing its
+ * value and change callback, or left uncontrolled by passing an optional default value.
+ */
+export const useTableState = <T,>({
+  rows,
+  columns,
+  getRowKey,
+  isServerSide = false,
+  itemCount: serverItemCount,
+  onQueryChange,
+  sortBy: sortByProp,
+  defaultSortBy = {},
+  onSortChange,
+  defaultSortDirection = 'asc',
+  filters: filtersProp,
+  defaultFilters = {},
+  onFiltersChange,
+  page: pageProp,
+  defaultPage = 1,
+  onPageChange,
+  perPage: perPageProp,
+  defaultPerPage = 10,
+  onPerPageChange,
+  selectedRowKeys: selectedRowKeysProp,
+  defaultSelectedRowKeys = [],
+  onSelectedRowKeysChange,
+  isRowSelectable = () => true,
+  expandedRowKeys: expandedRowKeysProp,
+  defaultExpandedRowKeys = [],
+  onExpandedRowKeysChange
+}: UseTableStateProps<T>): TableState<T> => {
+  const [sortBy, updateSortBy] = useControllableState(sortByProp, defaultSortBy, onSortChange);
+  const [filters, updateFilters] = useControllableState(filtersProp, defaultFilters, onFiltersChange);
+  const [page, updatePage] = useControllableState(pageProp, defaultPage, onPageChange);
+  const [perPage, updatePerPage] = useControllableState(perPageProp, defaultPerPage, onPerPageChange);
+  const [selectedRowKeys, setSelectedRowKeys] = useControllableState(
+    selectedRowKeysProp,
+    defaultSelectedRowKeys,
+    onSelectedRowKeysChange
+  );
+  const [expandedRowKeys, setExpandedRowKeys] = useControllableState(
+    expandedRowKeysProp,
+    defaultExpandedRowKeys,
+    onExpandedRowKeysChange
+  );
+
+  const query: TableStateQuery = { sortBy, filters, page, perPage };
+  const emitQuery = (changes: Partial<TableStateQuery>) => onQueryChange && onQueryChange({ ...query, ...changes });
+
+  const getColumn = (columnKey: string) => columns.find((column) => column.key === columnKey);
+
+  let processedRows = rows;
+  if (!isServerSide) {
+    processedRows = Object.entries(filters).reduce((acc, [columnKey, filterValue]) => {
+      const column = getColumn(columnKey);
+      return column && !isEmptyFilter(filterValue) ? acc.filter((row) => matchesFilter(column, row, filterValue)) : acc;
+    }, rows);
+
+    const sortColumn = sortBy.columnKey !== undefined ? getColumn(sortBy.columnKey) : undefined;
+    if (sortColumn) {
+      const compare =
+        sortColumn.compare ||
+        ((a: T, b: T) => compareValues(getColumnValue(sortColumn, a), getColumnValue(sortColumn, b)));
+      const modifier = sortBy.direction === SortByDirection.desc ? -1 : 1;
+      processedRows = [...processedRows].sort((a, b) => compare(a, b) * modifier);
+    }
+  }
+
+  const itemCount = isServerSide ? (serverItemCount ?? rows.length) : processedRows.length;
+  const visibleRows = isServerSide ? rows : processedRows.slice((page - 1) * perPage, page * perPage);
+
+  const setSortBy = (newSortBy: TableStateSortBy) => {
+    updateSortBy(newSortBy);
+    emitQuery({ sortBy: newSortBy });
+  };
+
+  const setPage = (newPage: number) => {
+    updatePage(newPage);
+    emitQuery({ page: newPage });
+  };
+
+  const setPerPage = (newPerPage: number, newPage: number = 1) => {
+    updatePerPage(newPerPage);
+    updatePage(newPage);
+    emitQuery({ perPage: newPerPage, page: newPage });
+  };
+
+  // Changing the filters resets to the first page since the current page may no longer exist
+  const setFilters = (newFilters: TableStateFilters) => {
+    updateFilters(newFilters);
+    page !== 1 && updatePage(1);
+    emitQuery({ filters: newFilters, page: 1 });
+  };
+
+  const setFilter = (columnKey: string, value: string | string[] | undefined) => {
+    const otherFilters = { ...filters };
+    delete otherFilters[columnKey];
+    setFilters(isEmptyFilter(value) ? otherFilters : { ...otherFilters, [columnKey]: value });
+  };
+
+  const clearFilters = () => setFilters({});
+
+  const isRowSelected = (row: T) => selectedRowKeys.includes(getRowKey(row));
+  const setRowSelected = (row: T, isSelecting = true) => {
+    const rowKey = getRowKey(row);
+    const otherSelectedRowKeys = selectedRowKeys.filter((key) => key !== rowKey);
+    setSelectedRowKeys(isSelecting && isRowSelectable(row) ? [...otherSelectedRowKeys, rowKey] : otherSelectedRowKeys);
+  };
+
+  const selectableRows = (isServerSide ? rows : processedRows).filter(isRowSelectable);
+  const selectableRowKeys = selectableRows.map(getRowKey);
+  const areAllRowsSelected =
+    selectableRowKeys.length > 0 && selectableRowKeys.every((rowKey) => selectedRowKeys.includes(rowKey));
+  const selectAll = (isSelecting = true) => {
+    const otherSelectedRowKeys = selectedRowKeys.filter((key) => !selectableRowKeys.includes(key));
+    setSelectedRowKeys(isSelecting ? [...otherSelectedRowKeys, ...selectableRowKeys] : otherSelectedRowKeys);
+  };
+
+  const isRowExpanded = (row: T) => expandedRowKeys.includes(getRowKey(row));
+  const setRowExpanded = (row: T, isExpanding = true) => {
+    const rowKey = getRowKey(row);
+    const otherExpandedRowKeys = expandedRowKeys.filter((key) => key !== rowKey);
+    setExpandedRowKeys(isExpanding ? [...otherExpandedRowKeys, rowKey] : otherExpandedRowKeys);
+  };
+
+  const getThProps = (columnKey: string): Pick<ThProps, 'sort'> => {
+    const columnIndex = columns.findIndex((column) => column.key === columnKey);
+    if (columnIndex === -1 || !columns[columnIndex].isSortable) {
+      return {};
+    }
+    const sortIndex = columns.findIndex((column) => column.key === sortBy.columnKey);
+    return {
+      sort: {
+        sortBy: {
+          index: sortIndex === -1 ? undefined : sortIndex,
+          direction: sortBy.direction,
+          defaultDirection: defaultSortDirection
+        },
+        onSort: (_event, index, direction) => setSortBy({ columnKey: columns[index].key, direction }),
+        columnIndex
+      }
+    };
+  };
+
+  const getSelectAllThProps = (): Pick<ThProps, 'select'> => ({
+    select: {
+      onSelect: (_event, isSelecting) => selectAll(isSelecting),
+      isSelected: areAllRowsSelected,
+      isHeaderSelectDisabled: selectableRows.length === 0
+    }
+  });
+
+  const getSelectTdProps = (row: T, rowIndex: number): Pick<TdProps, 'select'> => ({
+    select: {
+      rowIndex,
+      onSelect: (_event, isSelecting) => setRowSelected(row, isSelecting),
+      isSelected: isRowSelected(row),
+      isDisabled: !isRowSelectable(row)
+    }
+  });
+
+  const getExpandTdProps = (row: T, rowIndex: number): Pick<TdProps, 'expand'> => ({
+    expand: {
+      rowIndex,
+      isExpanded: isRowExpanded(row),
+      onToggle: () => setRowExpanded(row, !isRowExpanded(row)),
+      expandId: `table-state-expandable-toggle-${getRowKey(row)}`
+    }
+  });
+
+  const getTrProps = (row: T): Pick<TrProps, 'isRowSelected' | 'isSelectable'> => ({
+    isSelectable: isRowSelectable(row),
+    isRowSelected: isRowSelected(row)
+  });
+
+  const getExpandedTrProps = (row: T): Pick<TrProps, 'isExpanded'> => ({
+    isExpanded: isRowExpanded(row)
+  });
+
+  const getPaginationProps = () => ({
+    itemCount,
+    page,
+    perPage,
+    onSetPage: (_event: React.MouseEvent | React.KeyboardEvent | MouseEvent, newPage: number) => setPage(newPage),
+    onPerPageSelect: (
+      _event: React.MouseEvent | React.KeyboardEvent | MouseEvent,
+      newPerPage: number,
+      newPage: number
+    ) => setPerPage(newPerPage, newPage)
+  });
+
+  return {
+    visibleRows,
+    processedRows,
+    itemCount,
+    query,
+    sortBy,
+    setSortBy,
+    filters,
+    setFilter,
+    setFilters,
+    clearFilters,
+    page,
+    setPage,
+    perPage,
+    setPerPage,
+    selectedRowKeys,
+    isRowSelected,
+    setRowSelected,
+    selectAll,
+    areAllRowsSelected,
+    expandedRowKeys,
+    isRowExpanded,
+    setRowExpanded,
+    getThProps,
+    getSelectAllThProps,
+    getSelectTdProps,
+    getExpandTdProps,
+    getTrProps,
+    getExpandedTrProps,
+    getPaginationProps
+  };
+};
@@ -8,7 +8,9 @@ export * from './HeaderCellInfoWrapper';
 export * from './RowWrapper';
 export * from './SelectColumn';
 export * from './SortColumn';
+export * from './ResizeColumn';
 export * from './TableText';
+export * from './TableExportButton';
 export * from './utils';
 export * from './TableTypes';
 export * from './FavoritesCell';
@@ -16,9 +18,11 @@ export * from './TreeRowWrapper';
 export * from './Table';
 export * from './Thead';
 export * from './Tbody';
+export * from './VirtualizedTbody';
 export * from './Tr';
 export * from './Th';
 export * from './Td';
 export * from './Caption';
 export * from './OuterScrollContainer';
 export * from './InnerScrollContainer';
+export * from './hooks';
@@ -1,6 +1,6 @@
 import { css } from '@patternfly/react-styles';
 import styles from '@patternfly/react-styles/css/components/Table/table';
-import { IExtra, IFormatterValueType, ITransform } from '../../TableTypes';
+import { IExtra, IFormatterValueType, ISortBy, ISortByColumn, ITransform } from '../../TableTypes';
 import { SortColumn, SortByDirection } from '../../SortColumn';
 import StarIcon from '@patternfly/react-icons/dist/esm/icons/star-icon';
 
@@ -21,12 +21,43 @@ export const sortableFavorites = (sort: any) => () =>
     tooltipHasDefaultBehavior: true
   });
 
+const reverseDirection = (direction: 'asc' | 'desc') =>
+  direction === SortByDirection.asc ? SortByDirection.desc : SortByDirection.asc;
+
+/**
+ * Returns the sort columns after a sort button is clicked. Clicking sorts by the column alone, while shift-clicking
+ * adds the column as the lowest priority sort, reverses its direction if it is already sorted, or removes it if its
+ * direction was already reversed.
+ */
+const getNextMultiSortBy = (
+  multiSortBy: ISortByColumn[],
+  columnIndex: number,
+  sortBy: ISortBy,
+  isAdditive: boolean
+): ISortByColumn[] => {
+  const defaultDirection = sortBy?.defaultDirection || SortByDirection.asc;
+  const sortedColumn = multiSortBy.find((column) => column.index === columnIndex);
+  if (!isAdditive) {
+    const isPrimary = multiSortBy[0]?.index === columnIndex;
+    return [{ index: columnIndex, direction: isPrimary ? reverseDirection(sortedColumn.direction) : defaultDirection }];
+  }
+  if (!sortedColumn) {
+    return [...multiSortBy, { index: columnIndex, direction: defaultDirection }];
+  }
+  if (sortedColumn.direction !== defaultDirection) {
+    return multiSortBy.filter((column) => column !== sortedColumn);
+  }
+  return multiSortBy.map((column) =>
+    column === sortedColumn ? { index: columnIndex, direction: reverseDirection(column.direction) } : column
+  );
+};
+
 export const sortable: ITransform = (
   label: IFormatterValueType,
   { columnIndex, column, property, className, ariaLabel, tooltip, tooltipProps, tooltipHasDefaultBehavior }: IExtra
 ) => {
   const {
-    extraParams: { sortBy, onSort, favoriteButtonProps }
+    extraParams: { sortBy, onSort, multiSortBy, onMultiSort, favoriteButtonProps }
   } = column;
 
   const extraData = {
@@ -35,11 +66,19 @@ export const sortable: ITransform = (
     property
   };
 
-  const isSortedBy = sortBy && columnIndex === sortBy.index;
+  const sortPriority = multiSortBy ? multiSortBy.findIndex((sortedColumn) => sortedColumn.index === columnIndex) : -1;
+  const isSortedBy = multiSortBy ? sortPriority !== -1 : sortBy && columnIndex === sortBy.index;
+  const sortDirection = multiSortBy ? multiSortBy[sortPriority]?.direction : sortBy?.direction;
+  const isMultiSorted = isSortedBy && multiSortBy?.length > 1;
   /**
    * @param {React.MouseEvent} event - React mouse event
    */
   function sortClicked(event: React.MouseEvent) {
+    if (multiSortBy) {
+      onMultiSort &&
+        onMultiSort(event, getNextMultiSortBy(multiSortBy, columnIndex, sortBy, event.shiftKey), extraData);
+      return;
+    }
     let reversedDirection: SortByDirection;
     if (!isSortedBy) {
       reversedDirection = sortBy.defaultDirection ? (sortBy.defaultDirection as SortByDirection) : SortByDirection.asc;
@@ -52,11 +91,13 @@ export const sortable: ITransform = (
 
   return {
     className: css(styles.tableSort, isSortedBy && styles.modifiers.selected, className),
-    ...(isSortedBy && { 'aria-sort': `${sortBy.direction}ending` }),
+    // Only the primary sorted column is given aria-sort, the full sort order is announced when it changes
+    ...(isSortedBy && (!multiSortBy || sortPriority === 0) && { 'aria-sort': `${sortDirection}ending` }),
     children: (
       <SortColumn
         isSortedBy={isSortedBy}
-        sortDirection={isSortedBy ? sortBy.direction : ''}
+        sortDirection={isSortedBy ? sortDirection : ''}
+        sortPriority={isMultiSorted ? sortPriority + 1 : undefined}
         onSort={sortClicked}
         aria-label={ariaLabel}
         tooltip={tooltip}
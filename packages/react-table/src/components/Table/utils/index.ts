@@ -3,3 +3,4 @@ export * from './transformers';
 export * from './headerUtils';
 export * from './formatters';
 export * from './utils';
+export * from './tableExport';
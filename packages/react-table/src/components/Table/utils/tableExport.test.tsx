@@ -0,0 +1,85 @@
+import { exportTableData, exportValue } from './tableExport';
+
+const rows = [
+  { name: 'one', branches: 2, description: 'Quoted "name", with comma', updated: new Date(Date.UTC(2024, 2, 4)) },
+  { name: 'two', branches: 5, description: 'Line\nbreak', updated: null }
+];
+
+const columns = [
+  { key: 'name', label: 'Repository' },
+  { key: 'branches', label: 'Branches' },
+  { key: 'description', label: 'Description' },
+  { key: 'updated', label: 'Last updated' }
+];
+
+describe('tableExport', () => {
+  test('exportValue', () => {
+    const extra = { row: {}, rowIndex: 0, column: { key: 'name' }, format: 'csv' as const };
+    expect(exportValue({ title: 'test' }, extra)).toBe('test');
+    expect(exportValue(undefined, extra)).toBe(null);
+    expect(exportValue(['a', 'b'], extra)).toBe('a, b');
+    expect(exportValue(3, extra)).toBe(3);
+  });
+
+  test('csv quotes fields containing delimiters, quotes and line breaks', () => {
+    expect(exportTableData({ columns, rows })).toBe(
+      [
+        'Repository,Branches,Description,Last updated',
+        'one,2,"Quoted ""name"", with comma",2024-03-04T00:00:00.000Z',
+        'two,5,"Line\nbreak",'
+      ].join('\r\n')
+    );
+  });
+
+  test('tsv only quotes fields containing tabs, quotes and line breaks', () => {
+    expect(
+      exportTableData({ columns: ['Name', 'Notes'], rows: [['a,b', 'tab\there']], format: 'tsv', hasNoHeader: true })
+    ).toBe('a,b\t"tab\there"');
+  });
+
+  test('prefixes text fields which start like a formula', () => {
+    const formulaRows = [['=SUM(A1:A2)', '+1', '-1', -1, '@A1', '\tTab', 'a=b']];
+    const formulaColumns = ['a', 'b', 'c', 'd', 'e', 'f', 'g'];
+    expect(exportTableData({ columns: formulaColumns, rows: formulaRows, hasNoHeader: true })).toBe(
+      `'=SUM(A1:A2),'+1,'-1,-1,'@A1,'\tTab,a=b`
+    );
+    expect(
+      exportTableData({ columns: formulaColumns, rows: formulaRows, hasNoHeader: true, hasUnescapedFormulas: true })
+    ).toBe('=SUM(A1:A2),+1,-1,-1,@A1,"\tTab",a=b');
+  });
+
+  test('json uses column labels as properties', () => {
+    expect(JSON.parse(exportTableData({ columns: columns.slice(0, 2), rows, format: 'json' }))).toEqual([
+      { Repository: 'one', Branches: 2 },
+      { Repository: 'two', Branches: 5 }
+    ]);
+  });
+
+  test('custom formatters, getValue and excluded columns', () => {
+    expect(
+      exportTableData({
+        columns: [
+          { key: 'name', getValue: (row) => row.name.toUpperCase() },
+          {
+            key: 'branches',
+            label: 'Branches',
+            formatter: (value, { rowIndex, format }) => `${format}:${rowIndex}:${value}`
+          },
+          { key: 'description', isExcluded: true }
+        ],
+        rows
+      })
+    ).toBe(['name,Branches', 'ONE,csv:0:2', 'TWO,csv:1:5'].join('\r\n'));
+  });
+
+  test('selected rows only', () => {
+    expect(
+      exportTableData({
+        columns: columns.slice(0, 1),
+        rows,
+        isRowSelected: (row) => row.name === 'two',
+        isSelectedOnly: true
+      })
+    ).toBe('Repository\r\ntwo');
+  });
+});
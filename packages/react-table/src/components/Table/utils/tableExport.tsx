@@ -0,0 +1,157 @@
+import { defaultTitle } from './formatters';
+
+export type TableExportFormat = 'csv' | 'tsv' | 'json';
+
+export type TableExportValue = string | number | boolean | null;
+
+export interface TableExportFormatterExtra<T> {
+  /** The row being exported */
+  row: T;
+  /** Index of the row in the rows passed to the export */
+  rowIndex: number;
+  /** The column being exported */
+  column: TableExportColumn<T>;
+  /** Format of the export */
+  format: TableExportFormat;
+}
+
+export type TableExportFormatter<T = any> = (value: any, extra: TableExportFormatterExtra<T>) => TableExportValue;
+
+export interface TableExportColumn<T = any> {
+  /** Key of the column. Used to read the value of object rows, and as the JSON property when there is no label. */
+  key: string;
+  /** Header of the column in the export, typically the same as the dataLabel of the column's Td. Defaults to the key. */
+  label?: string;
+  /** Returns the value of the column for a row. Defaults to row[key], or the value at the column's index for rows
+   * which are arrays of cell values.
+   */
+  getValue?: (row: T) => any;
+  /** Formats the value of the column. Defaults to exportValue. */
+  formatter?: TableExportFormatter<T>;
+  /** Flag indicating the column is left out of the export */
+  isExcluded?: boolean;
+}
+
+export interface TableExportOptions<T = any> {
+  /** Columns to export, in order. A string is treated as both the key and label of a column, so the dataLabels of a
+   * table's cells can be passed directly.
+   */
+  columns: (TableExportColumn<T> | string)[];
+  /** Rows to export, either as objects or as arrays of cell values */
+  rows: T[];
+  /** Format of the export */
+  format?: TableExportFormat;
+  /** Returns whether a row is selected. Used together with isSelectedOnly. */
+  isRowSelected?: (row: T) => boolean;
+  /** Flag indicating only the selected rows are exported */
+  isSelectedOnly?: boolean;
+  /** Flag indicating the header row is left out of CSV and TSV exports */
+  hasNoHeader?: boolean;
+  /** Flag indicating text fields of CSV and TSV exports which start like a spreadsheet formula are left as they are,
+   * instead of being prefixed with a single quote so that spreadsheets do not evaluate them
+   */
+  hasUnescapedFormulas?: boolean;
+}
+
+export const tableExportMimeTypes: Record<TableExportFormat, string> = {
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  json: 'application/json'
+};
+
+/** Default formatter, which converts titled cells, dates and lists to values which can be exported. */
+const exportValue: TableExportFormatter = (value) => {
+  const data: any = defaultTitle(value);
+  if (data === undefined || data === null) {
+    return null;
+  }
+  if (data instanceof Date) {
+    return data.toISOString();
+  }
+  if (Array.isArray(data)) {
+    return data.join(', ');
+  }
+  return typeof data === 'object' ? JSON.stringify(data) : data;
+};
+
+const normalizeColumn = <T,>(column: TableExportColumn<T> | string): TableExportColumn<T> =>
+  typeof column === 'string' ? { key: column, label: column } : column;
+
+const getCellValue = <T,>(row: T, column: TableExportColumn<T>, columnIndex: number) => {
+  if (column.getValue) {
+    return column.getValue(row);
+  }
+  return Array.isArray(row) ? row[columnIndex] : (row as any)?.[column.key];
+};
+
+/** Prefixes text starting with a character which makes spreadsheets evaluate it as a formula with a single quote. */
+const escapeFormula = (value: TableExportValue) =>
+  typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+/**
+ * Quotes a delimited field when it contains the delimiter, a quote or a line break, or has surrounding whitespace.
+ * Quotes within the field are escaped by doubling them, as described by RFC 4180.
+ */
+const quoteField = (value: TableExportValue, delimiter: string) => {
+  const text = value === null ? '' : String(value);
+  const needsQuotes = text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim();
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Returns the contents of a CSV, TSV or JSON export of the passed rows. */
+const exportTableData = <T,>({
+  columns,
+  rows,
+  format = 'csv',
+  isRowSelected,
+  isSelectedOnly = false,
+  hasNoHeader = false,
+  hasUnescapedFormulas = false
+}: TableExportOptions<T>): string => {
+  const exportedColumns = columns
+    .map((column, columnIndex) => ({ column: normalizeColumn(column), columnIndex }))
+    .filter(({ column }) => !column.isExcluded);
+  const exportedRows = rows
+    .map((row, rowIndex) => ({ row, rowIndex }))
+    .filter(({ row }) => !isSelectedOnly || (isRowSelected && isRowSelected(row)));
+
+  const values = exportedRows.map(({ row, rowIndex }) =>
+    exportedColumns.map(({ column, columnIndex }) =>
+      (column.formatter || exportValue)(getCellValue(row, column, columnIndex), { row, rowIndex, column, format })
+    )
+  );
+  const headers = exportedColumns.map(({ column }) => column.label ?? column.key);
+
+  if (format === 'json') {
+    return JSON.stringify(
+      values.map((rowValues) =>
+        rowValues.reduce((acc, value, index) => ({ ...acc, [headers[index]]: value }), {} as Record<string, any>)
+      ),
+      null,
+      2
+    );
+  }
+
+  const delimiter = format === 'tsv' ? '\t' : ',';
+  const lines = hasNoHeader ? values : [headers, ...values];
+  return lines
+    .map((line) =>
+      line.map((value) => quoteField(hasUnescapedFormulas ? value : escapeFormula(value), delimiter)).join(delimiter)
+    )
+    .join('\r\n');
+};
+
+/** Saves the contents of an export as a file in the browser. */
+const downloadTableExport = (content: string, fileName: string, format: TableExportFormat = 'csv') => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${tableExportMimeTypes[format]};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName.endsWith(`.${format}`) ? fileName : `${fileName}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoked once the download has started, as some browsers read the URL after the click has been handled
+  setTimeout(() => URL.revokeObjectURL(url));
+};
+
+export { exportValue, exportTableData, downloadTableExport };
@@ -165,6 +165,88 @@ describe('Transformer functions', () => {
       await user.click(screen.getByRole('button'));
       expect(onSort.mock.calls).toHaveLength(1);
     });
+
+    describe('multiple columns', () => {
+      const multiSortBy = [
+        { index: 2, direction: 'asc' },
+        { index: 0, direction: 'desc' }
+      ];
+      const renderMultiSortable = (columnIndex: number) => {
+        const onMultiSort = jest.fn();
+        const column = { extraParams: { sortBy: {}, multiSortBy, onMultiSort } };
+        const returnedData = sortable('', { column, columnIndex } as IExtra);
+        render(returnedData.children as React.ReactElement<any>);
+        return { onMultiSort, returnedData };
+      };
+
+      test('sorts by the clicked column alone', async () => {
+        const user = userEvent.setup();
+        const { onMultiSort } = renderMultiSortable(0);
+
+        await user.click(screen.getByRole('button'));
+        expect(onMultiSort).toHaveBeenCalledWith(
+          expect.anything(),
+          [{ index: 0, direction: 'asc' }],
+          expect.anything()
+        );
+      });
+
+      test('reverses the primary column when clicked', async () => {
+        const user = userEvent.setup();
+        const { onMultiSort, returnedData } = renderMultiSortable(2);
+
+        expect(returnedData).toMatchObject({ 'aria-sort': 'ascending' });
+        await user.click(screen.getByRole('button'));
+        expect(onMultiSort).toHaveBeenCalledWith(
+          expect.anything(),
+          [{ index: 2, direction: 'desc' }],
+          expect.anything()
+        );
+      });
+
+      test('adds an unsorted column when shift-clicked', async () => {
+        const user = userEvent.setup();
+        const { onMultiSort } = renderMultiSortable(1);
+
+        await user.keyboard('{Shift>}');
+        await user.click(screen.getByRole('button'));
+        expect(onMultiSort).toHaveBeenCalledWith(
+          expect.anything(),
+          [...multiSortBy, { index: 1, direction: 'asc' }],
+          expect.anything()
+        );
+      });
+
+      test('reverses a sorted column when shift-clicked', async () => {
+        const user = userEvent.setup();
+        const { onMultiSort } = renderMultiSortable(2);
+
+        await user.keyboard('{Shift>}');
+        await user.click(screen.getByRole('button'));
+        expect(onMultiSort).toHaveBeenCalledWith(
+          expect.anything(),
+          [
+            { index: 2, direction: 'desc' },
+            { index: 0, direction: 'desc' }
+          ],
+          expect.anything()
+        );
+      });
+
+      test('removes a reversed column when shift-clicked', async () => {
+        const user = userEvent.setup();
+        const { onMultiSort, returnedData } = renderMultiSortable(0);
+
+        expect(returnedData).not.toHaveProperty('aria-sort');
+        await user.keyboard('{Shift>}');
+        await user.click(screen.getByRole('button'));
+        expect(onMultiSort).toHaveBeenCalledWith(
+          expect.anything(),
+          [{ index: 2, direction: 'asc' }],
+          expect.anything()
+        );
+      });
+    });
   });
 
   test('simpleCellActions', async () => {
@@ -0,0 +1,158 @@
+import { Fragment, useState } from 'react';
+import {
+  Button,
+  Checkbox,
+  MenuToggle,
+  PageSection,
+  Select,
+  SelectList,
+  Toolbar,
+  ToolbarContent,
+  ToolbarItem
+} from '@patternfly/react-core';
+import { Table, Thead, Tr, Th, Tbody, Td, TableColumnLayout, useColumnLayout } from '@patternfly/react-table';
+import { DragDropSort } from '@patternfly/react-drag-drop';
+import { DashboardWrapper } from '@patternfly/react-table/dist/esm/demos/DashboardWrapper';
+import { rows, SampleDataRow } from '@patternfly/react-table/dist/esm/demos/sampleData';
+
+const columnNames: Record<keyof SampleDataRow, string> = {
+  name: 'Servers',
+  threads: 'Threads',
+  applications: 'Applications',
+  workspaces: 'Workspaces',
+  status: 'Status',
+  location: 'Location',
+  lastModified: 'Last modified',
+  url: 'URL'
+};
+
+const layoutStorageKey = 'table-column-layout-demo';
+
+// The layout is a plain object, so it can be persisted per user wherever the application stores preferences
+const getSavedLayout = (): Partial<TableColumnLayout> => {
+  try {
+    return JSON.parse(window.localStorage.getItem(layoutStorageKey)) || {};
+  } catch (error) {
+    return {};
+  }
+};
+
+export const TableColumnLayoutDemo: React.FunctionComponent = () => {
+  const [isColumnSelectOpen, setIsColumnSelectOpen] = useState(false);
+  const {
+    layout,
+    orderedColumns,
+    visibleColumns,
+    isColumnVisible,
+    setColumnVisible,
+    moveColumn,
+    getResizeProps,
+    resetLayout
+  } = useColumnLayout({
+    columns: [
+      { key: 'name', isHideable: false, defaultWidth: 200, minWidth: 120 },
+      { key: 'threads' },
+      { key: 'applications' },
+      { key: 'workspaces' },
+      { key: 'status' },
+      { key: 'location', isHiddenByDefault: true },
+      { key: 'lastModified', isHiddenByDefault: true },
+      { key: 'url', isResizable: false }
+    ],
+    defaultLayout: getSavedLayout(),
+    onLayoutChange: (newLayout) => window.localStorage.setItem(layoutStorageKey, JSON.stringify(newLayout))
+  });
+  const visibleKeys = visibleColumns.map((column) => column.key as keyof SampleDataRow);
+
+  return (
+    <Fragment>
+      <DashboardWrapper hasPageTemplateTitle>
+        <PageSection isFilled>
+          <Toolbar id="column-layout-toolbar">
+            <ToolbarContent>
+              <ToolbarItem>
+                <Select
+                  role="menu"
+                  isOpen={isColumnSelectOpen}
+                  onOpenChange={(isOpen) => setIsColumnSelectOpen(isOpen)}
+                  toggle={(toggleRef) => (
+                    <MenuToggle ref={toggleRef} onClick={() => setIsColumnSelectOpen(!isColumnSelectOpen)}>
+                      Columns
+                    </MenuToggle>
+                  )}
+                >
+                  <SelectList>
+                    {orderedColumns.map((column) => (
+                      <Checkbox
+                        key={column.key}
+                        id={`column-layout-${column.key}`}
+                        className="pf-v6-u-px-md pf-v6-u-py-sm"
+                        label={columnNames[column.key as keyof SampleDataRow]}
+                        isChecked={isColumnVisible(column.key)}
+                        isDisabled={column.isHideable === false}
+                        onChange={(_event, isChecked) => setColumnVisible(column.key, isChecked)}
+                      />
+                    ))}
+                  </SelectList>
+                </Select>
+              </ToolbarItem>
+              <ToolbarItem>
+                <Button variant="link" onClick={resetLayout}>
+                  Reset columns
+                </Button>
+              </ToolbarItem>
+            </ToolbarContent>
+          </Toolbar>
+          <Table aria-label="Column layout table">
+            <Thead>
+              <DragDropSort
+                items={visibleKeys.map((key) => ({ id: key, content: columnNames[key] }))}
+                onDrop={(_event, _items, oldIndex, newIndex) =>
+                  moveColumn(visibleKeys[oldIndex], layout.order.indexOf(visibleKeys[newIndex]))
+                }
+                orientation="horizontal"
+                renderDraggable={(item, { ref, className, style, dragButton, isOverlay }) => {
+                  const th = (
+                    <Th
+                      key={item.id}
+                      ref={ref}
+                      className={className}
+                      style={style}
+                      dragButton={dragButton}
+                      resize={getResizeProps(item.id as string)}
+                    >
+                      {item.content}
+                    </Th>
+                  );
+                  // The header dragged in the overlay is rendered within a table of its own
+                  return isOverlay ? (
+                    <Table aria-label="Dragged column">
+                      <Thead>
+                        <Tr>{th}</Tr>
+                      </Thead>
+                    </Table>
+                  ) : (
+                    th
+                  );
+                }}
+              >
+                <Tr />
+              </DragDropSort>
+            </Thead>
+            <Tbody>
+              {rows.map((row) => (
+                <Tr key={row.name}>
+                  {visibleKeys.map((key) => (
+                    <Td key={key} dataLabel={columnNames[key]} modifier="truncate">
+                      {row[key]}
+                    </Td>
+                  ))}
+                </Tr>
+              ))}
+            </Tbody>
+          </Table>
+        </PageSection>
+      </DashboardWrapper>
+    </Fragment>
+  );
+};
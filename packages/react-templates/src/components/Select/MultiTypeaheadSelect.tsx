@@ -1,10 +1,9 @@
 import { forwardRef, useEffect, useRef, useState } from 'react';
 import { Button } from '@patternfly/react-core/dist/esm/components/Button';
-import { Label, LabelGroup } from '@patternfly/react-core/dist/esm/components/Label';
+import { Label, LabelGroup, LabelGroupProps } from '@patternfly/react-core/dist/esm/components/Label';
 import { MenuToggle, MenuToggleElement, MenuToggleProps } from '@patternfly/react-core/dist/esm/components/MenuToggle';
 import {
   Select,
-  SelectList,
   SelectOption,
   SelectOptionProps,
   SelectProps
@@ -14,20 +13,38 @@ import {
   TextInputGroupMain,
   TextInputGroupUtilities
 } from '@patternfly/react-core/dist/esm/components/TextInputGroup';
+import { LoadAsyncOptions, useAsyncOptions } from '@patternfly/react-core/dist/esm/helpers';
 import TimesIcon from '@patternfly/react-icons/dist/esm/icons/times-icon';
+import { getAsyncStatusOptions, renderOptionContent, selectAsyncStatusOption } from './asyncSelectOptions';
+import { orderOptionsByGroup, renderGroupedOptions } from './groupSelectOptions';
 
 export interface MultiTypeaheadSelectOption extends Omit<SelectOptionProps, 'content'> {
   /** Content of the select option. */
   content: string | number;
   /** Value of the select option. */
   value: string | number;
+  /** Label of the group the option is rendered in. Options of the same group are rendered together. */
+  group?: string;
 }
 
 export interface MultiTypeaheadSelectProps extends Omit<SelectProps, 'toggle' | 'onSelect'> {
   /** @hide Forwarded ref */
   innerRef?: React.Ref<any>;
   /** Initial options of the select. */
-  initialOptions: MultiTypeaheadSelectOption[];
+  initialOptions?: MultiTypeaheadSelectOption[];
+  /** Loads a page of options matching the text in the input field, e.g. from an API with server side filtering and
+   * pagination. When passed, options are loaded while the select is open instead of filtering the initial options, and
+   * the next page is loaded when the menu is scrolled to its end.
+   */
+  loadOptions?: LoadAsyncOptions<MultiTypeaheadSelectOption>;
+  /** Delay in milliseconds after the text in the input field last changed before options are loaded for it. */
+  debounceDelay?: number;
+  /** Message to display while options are loading. */
+  loadingMessage?: string;
+  /** Message of the option which loads the next page of options. */
+  loadMoreMessage?: string;
+  /** Message of the option which loads a page of options again after it failed to load. */
+  loadErrorMessage?: string | ((error: any) => string);
   /** Callback triggered on selection. */
   onSelectionChange?: (
     _event: React.MouseEvent<Element, MouseEvent> | React.KeyboardEvent<HTMLInputElement>,
@@ -45,6 +62,28 @@ export interface MultiTypeaheadSelectProps extends Omit<SelectProps, 'toggle' |
   placeholder?: string;
   /** Message to display when no options match the filter. */
   noOptionsFoundMessage?: string | ((filter: string) => string);
+  /** Flag to indicate if the typeahead select allows new items */
+  isCreatable?: boolean;
+  /** Flag to indicate if create option should be at top of typeahead */
+  isCreateOptionOnTop?: boolean;
+  /** Message to display to create a new option */
+  createOptionMessage?: string | ((newValue: string) => string);
+  /** Callback triggered when the create option is selected, with the new value. onSelectionChange is called with it
+   * added to the selections as well.
+   */
+  onCreateOption?: (newValue: string) => void;
+  /** Renders the content of an option, e.g. to highlight the filter. Defaults to the content of the option. Icons and
+   * descriptions can also be passed as props of the option.
+   */
+  renderOption?: (option: MultiTypeaheadSelectOption) => React.ReactNode;
+  /** Maximum number of options which can be selected. Other options are disabled once it is reached. */
+  maxSelections?: number;
+  /** Message to display when the maximum number of selections is reached. */
+  maxSelectionsMessage?: string | ((maxSelections: number) => string);
+  /** Additional props passed to the label group of the selections, e.g. the number of labels shown before the
+   * remaining ones are summarized.
+   */
+  labelGroupProps?: Omit<LabelGroupProps, 'children' | 'ref'>;
   /** Flag indicating the select should be disabled. */
   isDisabled?: boolean;
   /** Width of the toggle. */
@@ -53,15 +92,32 @@ export interface MultiTypeaheadSelectProps extends Omit<SelectProps, 'toggle' |
   toggleProps?: MenuToggleProps;
 }
 
+const noInitialOptions: MultiTypeaheadSelectOption[] = [];
+const defaultCreateOptionMessage = (newValue: string) => `Create "${newValue}"`;
+const defaultMaxSelectionsMessage = (maxSelections: number) => `Maximum of ${maxSelections} selections reached`;
+
 export const MultiTypeaheadSelectBase: React.FunctionComponent<MultiTypeaheadSelectProps> = ({
   innerRef,
-  initialOptions,
+  initialOptions = noInitialOptions,
+  loadOptions,
+  debounceDelay,
+  loadingMessage = 'Loading',
+  loadMoreMessage = 'View more',
+  loadErrorMessage = 'Failed to load options. Retry',
   onSelectionChange,
   onToggle,
   onInputChange,
   onInputKeyDown: onInputKeyDownProp,
   placeholder = 'Select an option',
   noOptionsFoundMessage = (filter) => `No results found for "${filter}"`,
+  isCreatable = false,
+  isCreateOptionOnTop = false,
+  createOptionMessage = defaultCreateOptionMessage,
+  onCreateOption,
+  renderOption,
+  maxSelections,
+  maxSelectionsMessage = defaultMaxSelectionsMessage,
+  labelGroupProps,
   isDisabled,
   toggleWidth,
   toggleProps,
@@ -77,7 +133,22 @@ export const MultiTypeaheadSelectBase: React.FunctionComponent<MultiTypeaheadSel
   const [activeItemId, setActiveItemId] = useState<string | null>(null);
   const textInputRef = useRef<HTMLInputElement>(undefined);
 
+  // Loaded options are replaced when the filter changes, so the content of selected ones is kept for their labels
+  const selectedContents = useRef(new Map<string | number, string | number>());
+  const createOptionRef = useRef<MultiTypeaheadSelectOption>(undefined);
+
   const NO_RESULTS = 'no results';
+  const MAX_SELECTIONS = 'max selections';
+
+  const isAsync = loadOptions !== undefined;
+  const asyncOptions = useAsyncOptions({
+    loadOptions,
+    filter: inputValue,
+    debounceDelay,
+    isDisabled: !isAsync || !isOpen
+  });
+  const isAsyncPending = isAsync && (asyncOptions.isLoading || !!asyncOptions.error || asyncOptions.hasMore);
+  const isMaxSelectionsReached = maxSelections !== undefined && selected.length >= maxSelections;
 
   const openMenu = () => {
     onToggle && onToggle(true);
@@ -85,16 +156,35 @@ export const MultiTypeaheadSelectBase: React.FunctionComponent<MultiTypeaheadSel
   };
 
   useEffect(() => {
-    let newSelectOptions: MultiTypeaheadSelectOption[] = initialOptions;
+    const options = isAsync ? asyncOptions.options : initialOptions;
+    let newSelectOptions: MultiTypeaheadSelectOption[] = orderOptionsByGroup(options);
 
     // Filter menu items based on the text input value when one exists
     if (inputValue) {
-      newSelectOptions = initialOptions.filter((option) =>
-        String(option.content).toLowerCase().includes(inputValue.toLowerCase())
-      );
+      // Loaded options are already filtered by the data source
+      if (!isAsync) {
+        newSelectOptions = newSelectOptions.filter((option) =>
+          String(option.content).toLowerCase().includes(inputValue.toLowerCase())
+        );
+      }
+
+      if (
+        isCreatable &&
+        !isMaxSelectionsReached &&
+        !options.find((o) => String(o.content).toLowerCase() === inputValue.toLowerCase())
+      ) {
+        const createOption = {
+          content: typeof createOptionMessage === 'string' ? createOptionMessage : createOptionMessage(inputValue),
+          value: inputValue
+        };
+        createOptionRef.current = createOption;
+        newSelectOptions = isCreateOptionOnTop
+          ? [createOption, ...newSelectOptions]
+          : [...newSelectOptions, createOption];
+      }
 
       // When no options are found after filtering, display 'No results found'
-      if (!newSelectOptions.length) {
+      if (!newSelectOptions.length && !isAsyncPending) {
         newSelectOptions = [
           {
             isAriaDisabled: true,
@@ -106,12 +196,43 @@ export const MultiTypeaheadSelectBase: React.FunctionComponent<MultiTypeaheadSel
       }
 
       // Open the menu when the input value changes and the new value is not empty
-      openMenu();
+      !isOpen && openMenu();
+    }
+
+    if (isMaxSelectionsReached) {
+      newSelectOptions = [
+        {
+          isAriaDisabled: true,
+          content:
+            typeof maxSelectionsMessage === 'string' ? maxSelectionsMessage : maxSelectionsMessage(maxSelections),
+          value: MAX_SELECTIONS
+        },
+        ...newSelectOptions
+      ];
+    }
+
+    if (isAsync) {
+      newSelectOptions = [
+        ...newSelectOptions,
+        ...getAsyncStatusOptions(asyncOptions, { loadingMessage, loadMoreMessage, loadErrorMessage })
+      ];
     }
 
     setSelectOptions(newSelectOptions);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [inputValue, initialOptions]);
+  }, [
+    inputValue,
+    initialOptions,
+    isAsync,
+    asyncOptions.options,
+    asyncOptions.isLoading,
+    asyncOptions.error,
+    asyncOptions.hasMore,
+    isCreatable,
+    isCreateOptionOnTop,
+    createOptionMessage,
+    isMaxSelectionsReached
+  ]);
 
   useEffect(() => setSelected((initialOptions?.filter((o) => o.selected) ?? []).map((o) => o.value)), [initialOptions]);
 
@@ -145,7 +266,21 @@ export const MultiTypeaheadSelectBase: React.FunctionComponent<MultiTypeaheadSel
     _event: React.MouseEvent<Element, MouseEvent> | React.KeyboardEvent<HTMLInputElement> | undefined,
     option: string | number
   ) => {
-    const selections = selected.includes(option) ? selected.filter((o) => option !== o) : [...selected, option];
+    const isSelected = selected.includes(option);
+    if (!isSelected && isMaxSelectionsReached) {
+      return;
+    }
+    const selections = isSelected ? selected.filter((o) => option !== o) : [...selected, option];
+    const selectedOption = selectOptions.find((o) => o.value === option);
+    if (selectedOption === createOptionRef.current) {
+      // The label of the created option shows the new value rather than the create option message
+      selectedContents.current.set(option, option);
+      onCreateOption && onCreateOption(String(option));
+      setInputValue('');
+      onInputChange && onInputChange('');
+    } else if (selectedOption) {
+      selectedContents.current.set(option, selectedOption.content);
+    }
 
     onSelectionChange && onSelectionChange(_event, selections);
     setSelected(selections);
@@ -161,7 +296,7 @@ export const MultiTypeaheadSelectBase: React.FunctionComponent<MultiTypeaheadSel
   };
 
   const _onSelect = (_event: React.MouseEvent<Element, MouseEvent> | undefined, value: string | number | undefined) => {
-    if (value && value !== NO_RESULTS) {
+    if (value && value !== NO_RESULTS && value !== MAX_SELECTIONS && !selectAsyncStatusOption(value, asyncOptions)) {
       selectOption(_event, value);
     }
   };
@@ -227,7 +362,14 @@ export const MultiTypeaheadSelectBase: React.FunctionComponent<MultiTypeaheadSel
     switch (event.key) {
       case 'Enter':
         event.preventDefault();
-        if (isOpen && focusedItem && focusedItem.value !== NO_RESULTS && !focusedItem.isAriaDisabled) {
+        if (
+          isOpen &&
+          focusedItem &&
+          focusedItem.value !== NO_RESULTS &&
+          focusedItem.value !== MAX_SELECTIONS &&
+          !focusedItem.isAriaDisabled &&
+          !selectAsyncStatusOption(focusedItem.value, asyncOptions)
+        ) {
           selectOption(event, focusedItem?.value);
         }
 
@@ -267,6 +409,9 @@ export const MultiTypeaheadSelectBase: React.FunctionComponent<MultiTypeaheadSel
     onSelectionChange && onSelectionChange(ev, []);
   };
 
+  // Options of the data source, as opposed to the create, no results and loading status options
+  const sourceOptions = new Set(isAsync ? asyncOptions.options : initialOptions);
+
   const toggle = (toggleRef: React.Ref<MenuToggleElement>) => (
     <MenuToggle
       ref={toggleRef}
@@ -297,7 +442,7 @@ export const MultiTypeaheadSelectBase: React.FunctionComponent<MultiTypeaheadSel
           isExpanded={isOpen}
           aria-controls="select-typeahead-listbox"
         >
-          <LabelGroup aria-label="Current selections">
+          <LabelGroup aria-label="Current selections" {...labelGroupProps}>
             {selected.map((selection, index) => (
               <Label
                 key={index}
@@ -307,7 +452,7 @@ export const MultiTypeaheadSelectBase: React.FunctionComponent<MultiTypeaheadSel
                   clearOption(ev, selection);
                 }}
               >
-                {initialOptions.find((o) => o.value === selection)?.content}
+                {initialOptions.find((o) => o.value === selection)?.content ?? selectedContents.current.get(selection)}
               </Label>
             ))}
           </LabelGroup>
@@ -332,19 +477,33 @@ export const MultiTypeaheadSelectBase: React.FunctionComponent<MultiTypeaheadSel
       toggle={toggle}
       variant="typeahead"
       ref={innerRef}
+      {...(isAsync && { onScrollEnd: asyncOptions.loadMore })}
       {...props}
     >
-      <SelectList>
-        {selectOptions.map((option, index) => {
-          const { content, value, ...props } = option;
+      {renderGroupedOptions(
+        selectOptions,
+        (option, index) => {
+          // eslint-disable-next-line @typescript-eslint/no-unused-vars
+          const { content, value, group, ...props } = option;
+          // Options which are not selected yet are disabled once the maximum number of selections is reached
+          const isSelectionDisabled = isMaxSelectionsReached && sourceOptions.has(option) && !selected.includes(value);
 
           return (
-            <SelectOption key={value} value={value} isFocused={focusedItemIndex === index} {...props}>
-              {content}
+            <SelectOption
+              key={value}
+              value={value}
+              isFocused={focusedItemIndex === index}
+              {...props}
+              {...(isSelectionDisabled && { isAriaDisabled: true })}
+            >
+              {renderOption && sourceOptions.has(option)
+                ? renderOption(option)
+                : renderOptionContent({ content, value })}
             </SelectOption>
           );
-        })}
-      </SelectList>
+        },
+        isAsync ? { 'aria-busy': asyncOptions.isLoading } : undefined
+      )}
     </Select>
   );
 };
@@ -3,7 +3,6 @@ import { Button } from '@patternfly/react-core/dist/esm/components/Button';
 import { MenuToggle, MenuToggleElement, MenuToggleProps } from '@patternfly/react-core/dist/esm/components/MenuToggle';
 import {
   Select,
-  SelectList,
   SelectOption,
   SelectOptionProps,
   SelectProps
@@ -13,20 +12,38 @@ import {
   TextInputGroupMain,
   TextInputGroupUtilities
 } from '@patternfly/react-core/dist/esm/components/TextInputGroup';
+import { LoadAsyncOptions, useAsyncOptions } from '@patternfly/react-core/dist/esm/helpers';
 import TimesIcon from '@patternfly/react-icons/dist/esm/icons/times-icon';
+import { getAsyncStatusOptions, renderOptionContent, selectAsyncStatusOption } from './asyncSelectOptions';
+import { orderOptionsByGroup, renderGroupedOptions } from './groupSelectOptions';
 
 export interface TypeaheadSelectOption extends Omit<SelectOptionProps, 'content'> {
   /** Content of the select option. */
   content: string | number;
   /** Value of the select option. */
   value: string | number;
+  /** Label of the group the option is rendered in. Options of the same group are rendered together. */
+  group?: string;
 }
 
 export interface TypeaheadSelectProps extends Omit<SelectProps, 'toggle' | 'onSelect'> {
   /** @hide Forwarded ref */
   innerRef?: React.Ref<any>;
   /** Initial options of the select. */
-  initialOptions: TypeaheadSelectOption[];
+  initialOptions?: TypeaheadSelectOption[];
+  /** Loads a page of options matching the text in the input field, e.g. from an API with server side filtering and
+   * pagination. When passed, options are loaded while the select is open instead of filtering the initial options, and
+   * the next page is loaded when the menu is scrolled to its end.
+   */
+  loadOptions?: LoadAsyncOptions<TypeaheadSelectOption>;
+  /** Delay in milliseconds after the text in the input field last changed before options are loaded for it. */
+  debounceDelay?: number;
+  /** Message to display while options are loading. */
+  loadingMessage?: string;
+  /** Message of the option which loads the next page of options. */
+  loadMoreMessage?: string;
+  /** Message of the option which loads a page of options again after it failed to load. */
+  loadErrorMessage?: string | ((error: any) => string);
   /** Callback triggered on selection. */
   onSelect?: (
     _event: React.MouseEvent<Element, MouseEvent> | React.KeyboardEvent<HTMLInputElement> | undefined,
@@ -50,6 +67,12 @@ export interface TypeaheadSelectProps extends Omit<SelectProps, 'toggle' | 'onSe
   isCreateOptionOnTop?: boolean;
   /** Message to display to create a new option */
   createOptionMessage?: string | ((newValue: string) => string);
+  /** Callback triggered when the create option is selected, with the new value. onSelect is called with it as well. */
+  onCreateOption?: (newValue: string) => void;
+  /** Renders the content of an option, e.g. to highlight the filter. Defaults to the content of the option. Icons and
+   * descriptions can also be passed as props of the option.
+   */
+  renderOption?: (option: TypeaheadSelectOption) => React.ReactNode;
   /** Message to display when no options are available. */
   noOptionsAvailableMessage?: string;
   /** Message to display when no options match the filter. */
@@ -64,10 +87,16 @@ export interface TypeaheadSelectProps extends Omit<SelectProps, 'toggle' | 'onSe
 
 const defaultNoOptionsFoundMessage = (filter: string) => `No results found for "${filter}"`;
 const defaultCreateOptionMessage = (newValue: string) => `Create "${newValue}"`;
+const noInitialOptions: TypeaheadSelectOption[] = [];
 
 export const TypeaheadSelectBase: React.FunctionComponent<TypeaheadSelectProps> = ({
   innerRef,
-  initialOptions,
+  initialOptions = noInitialOptions,
+  loadOptions,
+  debounceDelay,
+  loadingMessage = 'Loading',
+  loadMoreMessage = 'View more',
+  loadErrorMessage = 'Failed to load options. Retry',
   onSelect,
   onToggle,
   onInputChange,
@@ -79,6 +108,8 @@ export const TypeaheadSelectBase: React.FunctionComponent<TypeaheadSelectProps>
   isCreatable = false,
   isCreateOptionOnTop = false,
   createOptionMessage = defaultCreateOptionMessage,
+  onCreateOption,
+  renderOption,
   isDisabled,
   toggleWidth,
   toggleProps,
@@ -92,34 +123,51 @@ export const TypeaheadSelectBase: React.FunctionComponent<TypeaheadSelectProps>
   const [focusedItemIndex, setFocusedItemIndex] = useState<number | null>(null);
   const [activeItemId, setActiveItemId] = useState<string | null>(null);
   const textInputRef = useRef<HTMLInputElement>(undefined);
+  // Loaded options are replaced when the filter changes, so the selected one is kept to restore its content
+  const selectedOptionRef = useRef<TypeaheadSelectOption>(undefined);
+  const createOptionRef = useRef<TypeaheadSelectOption>(undefined);
 
   const NO_RESULTS = 'no results';
 
+  const isAsync = loadOptions !== undefined;
+  const asyncOptions = useAsyncOptions({
+    loadOptions,
+    filter: filterValue,
+    debounceDelay,
+    isDisabled: !isAsync || !isOpen
+  });
+  const isAsyncPending = isAsync && (asyncOptions.isLoading || !!asyncOptions.error || asyncOptions.hasMore);
+
   useEffect(() => {
-    let newSelectOptions: TypeaheadSelectOption[] = initialOptions;
+    const options = isAsync ? asyncOptions.options : initialOptions;
+    let newSelectOptions: TypeaheadSelectOption[] = orderOptionsByGroup(options);
 
     // Filter menu items based on the text input value when one exists
     if (filterValue) {
-      newSelectOptions = initialOptions.filter((option) =>
-        String(option.content).toLowerCase().includes(filterValue.toLowerCase())
-      );
+      // Loaded options are already filtered by the data source
+      if (!isAsync) {
+        newSelectOptions = newSelectOptions.filter((option) =>
+          String(option.content).toLowerCase().includes(filterValue.toLowerCase())
+        );
+      }
 
       if (
         isCreatable &&
         filterValue &&
-        !initialOptions.find((o) => String(o.content).toLowerCase() === filterValue.toLowerCase())
+        !options.find((o) => String(o.content).toLowerCase() === filterValue.toLowerCase())
       ) {
         const createOption = {
           content: typeof createOptionMessage === 'string' ? createOptionMessage : createOptionMessage(filterValue),
           value: filterValue
         };
+        createOptionRef.current = createOption;
         newSelectOptions = isCreateOptionOnTop
           ? [createOption, ...newSelectOptions]
           : [...newSelectOptions, createOption];
       }
 
       // When no options are found after filtering, display 'No results found'
-      if (!newSelectOptions.length) {
+      if (!newSelectOptions.length && !isAsyncPending) {
         newSelectOptions = [
           {
             isAriaDisabled: true,
@@ -135,7 +183,7 @@ export const TypeaheadSelectBase: React.FunctionComponent<TypeaheadSelectProps>
     }
 
     // When no options are  available,  display 'No options available'
-    if (!newSelectOptions.length) {
+    if (!newSelectOptions.length && !isAsyncPending) {
       newSelectOptions = [
         {
           isAriaDisabled: true,
@@ -145,10 +193,25 @@ export const TypeaheadSelectBase: React.FunctionComponent<TypeaheadSelectProps>
       ];
     }
 
+    if (isAsync) {
+      newSelectOptions = [
+        ...newSelectOptions,
+        ...getAsyncStatusOptions(asyncOptions, { loadingMessage, loadMoreMessage, loadErrorMessage })
+      ];
+    }
+
     setSelectOptions(newSelectOptions);
   }, [
     filterValue,
     initialOptions,
+    isAsync,
+    asyncOptions.options,
+    asyncOptions.isLoading,
+    asyncOptions.error,
+    asyncOptions.hasMore,
+    loadingMessage,
+    loadMoreMessage,
+    loadErrorMessage,
     noOptionsFoundMessage,
     isCreatable,
     isCreateOptionOnTop,
@@ -188,7 +251,9 @@ export const TypeaheadSelectBase: React.FunctionComponent<TypeaheadSelectProps>
     onToggle && onToggle(false);
     setIsOpen(false);
     resetActiveAndFocusedItem();
-    const option = initialOptions.find((o) => o.value === selected);
+    const option =
+      initialOptions.find((o) => o.value === selected) ??
+      (isAsync && String(selectedOptionRef.current?.value) === selected ? selectedOptionRef.current : undefined);
     if (option) {
       setInputValue(String(option.content));
     }
@@ -204,9 +269,16 @@ export const TypeaheadSelectBase: React.FunctionComponent<TypeaheadSelectProps>
 
   const selectOption = (
     _event: React.MouseEvent<Element, MouseEvent> | React.KeyboardEvent<HTMLInputElement> | undefined,
-    option: TypeaheadSelectOption
+    selectedOption: TypeaheadSelectOption
   ) => {
+    let option = selectedOption;
+    if (option === createOptionRef.current) {
+      // The created option shows the new value rather than the create option message
+      option = { content: option.value, value: option.value };
+      onCreateOption && onCreateOption(String(option.value));
+    }
     onSelect && onSelect(_event, option.value);
+    selectedOptionRef.current = option;
 
     setInputValue(String(option.content));
     setFilterValue('');
@@ -216,7 +288,7 @@ export const TypeaheadSelectBase: React.FunctionComponent<TypeaheadSelectProps>
   };
 
   const _onSelect = (_event: React.MouseEvent<Element, MouseEvent> | undefined, value: string | number | undefined) => {
-    if (value && value !== NO_RESULTS) {
+    if (value && value !== NO_RESULTS && !selectAsyncStatusOption(value, asyncOptions)) {
       const optionToSelect = selectOptions.find((option) => option.value === value);
       selectOption(_event, optionToSelect);
     }
@@ -282,7 +354,13 @@ export const TypeaheadSelectBase: React.FunctionComponent<TypeaheadSelectProps>
     switch (event.key) {
       case 'Enter':
         event.preventDefault();
-        if (isOpen && focusedItem && focusedItem.value !== NO_RESULTS && !focusedItem.isAriaDisabled) {
+        if (
+          isOpen &&
+          focusedItem &&
+          focusedItem.value !== NO_RESULTS &&
+          !focusedItem.isAriaDisabled &&
+          !selectAsyncStatusOption(focusedItem.value, asyncOptions)
+        ) {
           selectOption(event, focusedItem);
         }
 
@@ -313,6 +391,7 @@ export const TypeaheadSelectBase: React.FunctionComponent<TypeaheadSelectProps>
 
   const onClearButtonClick = () => {
     setSelected('');
+    selectedOptionRef.current = undefined;
     setInputValue('');
     onInputChange && onInputChange('');
     setFilterValue('');
@@ -321,6 +400,9 @@ export const TypeaheadSelectBase: React.FunctionComponent<TypeaheadSelectProps>
     onClearSelection && onClearSelection();
   };
 
+  // Options of the data source, as opposed to the create, no results and loading status options
+  const sourceOptions = new Set(isAsync ? asyncOptions.options : initialOptions);
+
   const toggle = (toggleRef: React.Ref<MenuToggleElement>) => (
     <MenuToggle
       ref={toggleRef}
@@ -370,19 +452,25 @@ export const TypeaheadSelectBase: React.FunctionComponent<TypeaheadSelectProps>
       toggle={toggle}
       variant="typeahead"
       ref={innerRef}
+      {...(isAsync && { onScrollEnd: asyncOptions.loadMore })}
       {...props}
     >
-      <SelectList>
-        {selectOptions.map((option, index) => {
-          const { content, value, ...props } = option;
+      {renderGroupedOptions(
+        selectOptions,
+        (option, index) => {
+          // eslint-disable-next-line @typescript-eslint/no-unused-vars
+          const { content, value, group, ...props } = option;
 
           return (
             <SelectOption key={value} value={value} isFocused={focusedItemIndex === index} {...props}>
-              {content}
+              {renderOption && sourceOptions.has(option)
+                ? renderOption(option)
+                : renderOptionContent({ content, value })}
             </SelectOption>
           );
-        })}
-      </SelectList>
+        },
+        isAsync ? { 'aria-busy': asyncOptions.isLoading } : undefined
+      )}
     </Select>
   );
 };
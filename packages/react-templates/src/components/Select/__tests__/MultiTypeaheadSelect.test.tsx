@@ -429,4 +429,119 @@ describe('MultiTypeaheadSelect', () => {
 
     expect(asFragment()).toMatchSnapshot();
   });
+
+  it('adds a label for a created option', async () => {
+    const initialOptions = [{ content: 'Option 1', value: 'option1' }];
+    const onCreateOptionMock = jest.fn();
+    const onSelectionChangeMock = jest.fn();
+    const user = userEvent.setup();
+
+    render(
+      <MultiTypeaheadSelect
+        initialOptions={initialOptions}
+        isCreatable
+        onCreateOption={onCreateOptionMock}
+        onSelectionChange={onSelectionChangeMock}
+      />
+    );
+
+    await user.type(screen.getByRole('combobox'), 'New');
+    await user.click(screen.getByRole('option', { name: 'Create "New"' }));
+
+    expect(onCreateOptionMock).toHaveBeenCalledWith('New');
+    expect(onSelectionChangeMock).toHaveBeenCalledWith(expect.anything(), ['New']);
+    expect(screen.getByRole('button', { name: 'New' })).toBeInTheDocument();
+    expect(screen.getByRole('combobox')).toHaveValue('');
+  });
+
+  it('disables the other options once the maximum number of selections is reached', async () => {
+    const initialOptions = [
+      { content: 'Option 1', value: 'option1' },
+      { content: 'Option 2', value: 'option2' },
+      { content: 'Option 3', value: 'option3' }
+    ];
+    const onSelectionChangeMock = jest.fn();
+    const user = userEvent.setup();
+
+    render(
+      <MultiTypeaheadSelect
+        initialOptions={initialOptions}
+        maxSelections={2}
+        onSelectionChange={onSelectionChangeMock}
+      />
+    );
+
+    await user.click(getToggle());
+    await user.click(screen.getByRole('option', { name: 'Option 1' }));
+    await user.click(screen.getByRole('option', { name: 'Option 2' }));
+
+    expect(screen.getByText('Maximum of 2 selections reached')).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: 'Option 3' })).toHaveAttribute('aria-disabled', 'true');
+    expect(screen.getByRole('option', { name: 'Option 1' })).not.toHaveAttribute('aria-disabled', 'true');
+
+    await user.click(screen.getByRole('option', { name: 'Option 3' }));
+
+    expect(onSelectionChangeMock).toHaveBeenCalledTimes(2);
+    expect(onSelectionChangeMock).toHaveBeenLastCalledWith(expect.anything(), ['option1', 'option2']);
+  });
+
+  it('passes labelGroupProps to the label group of the selections', () => {
+    const initialOptions = [
+      { content: 'Option 1', value: 'option1', selected: true },
+      { content: 'Option 2', value: 'option2', selected: true },
+      { content: 'Option 3', value: 'option3', selected: true }
+    ];
+
+    render(<MultiTypeaheadSelect initialOptions={initialOptions} labelGroupProps={{ numLabels: 1 }} />);
+
+    expect(screen.getByRole('button', { name: 'Option 1' })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Option 2' })).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: '2 more' })).toBeInTheDocument();
+  });
+
+  describe('with loadOptions', () => {
+    const loadedOptions = [
+      { content: 'Option 1', value: 'option1' },
+      { content: 'Option 2', value: 'option2' }
+    ];
+
+    it('loads options when opened and loads the next page when view more is selected', async () => {
+      const loadOptions = jest
+        .fn()
+        .mockResolvedValueOnce({ options: loadedOptions.slice(0, 1), nextCursor: 1 })
+        .mockResolvedValueOnce({ options: loadedOptions.slice(1) });
+      const user = userEvent.setup();
+
+      render(<MultiTypeaheadSelect loadOptions={loadOptions} />);
+
+      await user.click(getToggle());
+      expect(await screen.findByRole('option', { name: 'Option 1' })).toBeInTheDocument();
+
+      await user.click(screen.getByRole('option', { name: 'View more' }));
+
+      expect(await screen.findByRole('option', { name: 'Option 2' })).toBeInTheDocument();
+      expect(loadOptions).toHaveBeenLastCalledWith('', 1, expect.any(AbortSignal));
+    });
+
+    it('shows labels of selected options after the options change', async () => {
+      const loadOptions = jest
+        .fn()
+        .mockResolvedValueOnce({ options: loadedOptions })
+        .mockResolvedValueOnce({ options: [] });
+      const onSelectionChangeMock = jest.fn();
+      const user = userEvent.setup();
+
+      render(
+        <MultiTypeaheadSelect loadOptions={loadOptions} debounceDelay={0} onSelectionChange={onSelectionChangeMock} />
+      );
+
+      await user.click(getToggle());
+      await user.click(await screen.findByRole('option', { name: 'Option 2' }));
+      await user.type(screen.getByRole('combobox'), 'x');
+
+      expect(await screen.findByText('No results found for "x"')).toBeInTheDocument();
+      expect(onSelectionChangeMock).toHaveBeenCalledWith(expect.anything(), ['option2']);
+      expect(screen.getByRole('button', { name: 'Option 2' })).toBeInTheDocument();
+    });
+  });
 });
@@ -1,4 +1,4 @@
-import { render, screen, waitForElementToBeRemoved } from '@testing-library/react';
+import { render, screen, waitFor, waitForElementToBeRemoved } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { TypeaheadSelect } from '../TypeaheadSelect';
 import styles from '@patternfly/react-styles/css/components/Menu/menu';
@@ -424,3 +424,151 @@ test('Matches snapshot', async () => {
 
   expect(asFragment()).toMatchSnapshot();
 });
+
+describe('with loadOptions', () => {
+  const loadedOptions = [
+    { content: 'Option 1', value: 'option1' },
+    { content: 'Option 2', value: 'option2' },
+    { content: 'Option 3', value: 'option3' }
+  ];
+
+  test('loads options when opened', async () => {
+    const loadOptions = jest.fn().mockResolvedValue({ options: loadedOptions });
+    const user = userEvent.setup();
+
+    render(<TypeaheadSelect loadOptions={loadOptions} />);
+
+    expect(loadOptions).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole('button', { name: 'Typeahead menu toggle' }));
+
+    expect(await screen.findByRole('option', { name: 'Option 1' })).toBeInTheDocument();
+    expect(loadOptions).toHaveBeenCalledWith('', undefined, expect.any(AbortSignal));
+  });
+
+  test('shows a loading option while options are loading', async () => {
+    const loadOptions = jest.fn(() => new Promise<never>(() => {}));
+    const user = userEvent.setup();
+
+    render(<TypeaheadSelect loadOptions={loadOptions} loadingMessage="Loading options" />);
+
+    await user.click(screen.getByRole('button', { name: 'Typeahead menu toggle' }));
+
+    expect(screen.getByRole('progressbar', { name: 'Loading options' })).toBeInTheDocument();
+    expect(screen.queryByText('No options are available')).not.toBeInTheDocument();
+  });
+
+  test('loads options matching the input without filtering them', async () => {
+    const loadOptions = jest.fn().mockResolvedValue({ options: loadedOptions });
+    const user = userEvent.setup();
+
+    render(<TypeaheadSelect loadOptions={loadOptions} debounceDelay={0} />);
+
+    await user.type(screen.getByRole('combobox'), '2');
+
+    await waitFor(() => expect(loadOptions).toHaveBeenLastCalledWith('2', undefined, expect.any(AbortSignal)));
+    expect(await screen.findByRole('option', { name: 'Option 1' })).toBeInTheDocument();
+  });
+
+  test('loads the next page when view more is selected', async () => {
+    const loadOptions = jest
+      .fn()
+      .mockResolvedValueOnce({ options: loadedOptions.slice(0, 2), nextCursor: 2 })
+      .mockResolvedValueOnce({ options: loadedOptions.slice(2) });
+    const user = userEvent.setup();
+
+    render(<TypeaheadSelect loadOptions={loadOptions} />);
+
+    await user.click(screen.getByRole('button', { name: 'Typeahead menu toggle' }));
+    await user.click(await screen.findByRole('option', { name: 'View more' }));
+
+    expect(await screen.findByRole('option', { name: 'Option 3' })).toBeInTheDocument();
+    expect(loadOptions).toHaveBeenLastCalledWith('', 2, expect.any(AbortSignal));
+    expect(screen.queryByRole('option', { name: 'View more' })).not.toBeInTheDocument();
+  });
+
+  test('retries loading options when they failed to load', async () => {
+    const loadOptions = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce({ options: loadedOptions });
+    const user = userEvent.setup();
+
+    render(<TypeaheadSelect loadOptions={loadOptions} loadErrorMessage={(error) => `${error.message}. Retry`} />);
+
+    await user.click(screen.getByRole('button', { name: 'Typeahead menu toggle' }));
+    await user.click(await screen.findByRole('option', { name: 'Network error. Retry' }));
+
+    expect(await screen.findByRole('option', { name: 'Option 1' })).toBeInTheDocument();
+    expect(loadOptions).toHaveBeenCalledTimes(2);
+  });
+
+  test('keeps the selected option in the input after the options change', async () => {
+    const loadOptions = jest.fn().mockResolvedValue({ options: loadedOptions });
+    const onSelectMock = jest.fn();
+    const user = userEvent.setup();
+
+    render(<TypeaheadSelect loadOptions={loadOptions} onSelect={onSelectMock} />);
+
+    await user.click(screen.getByRole('button', { name: 'Typeahead menu toggle' }));
+    await user.click(await screen.findByRole('option', { name: 'Option 2' }));
+
+    expect(onSelectMock).toHaveBeenCalledWith(expect.anything(), 'option2');
+    expect(screen.getByRole('combobox')).toHaveValue('Option 2');
+  });
+});
+
+test('creates a new option when the create option is selected', async () => {
+  const initialOptions = [{ content: 'Option 1', value: 'option1' }];
+  const onCreateOptionMock = jest.fn();
+  const onSelectMock = jest.fn();
+  const user = userEvent.setup();
+
+  render(
+    <TypeaheadSelect
+      initialOptions={initialOptions}
+      isCreatable
+      createOptionMessage={(newValue) => `Add "${newValue}"`}
+      onCreateOption={onCreateOptionMock}
+      onSelect={onSelectMock}
+    />
+  );
+
+  await user.type(screen.getByRole('combobox'), 'New');
+  await user.click(screen.getByRole('option', { name: 'Add "New"' }));
+
+  expect(onCreateOptionMock).toHaveBeenCalledWith('New');
+  expect(onSelectMock).toHaveBeenCalledWith(expect.anything(), 'New');
+  expect(screen.getByRole('combobox')).toHaveValue('New');
+});
+
+test('renders the options of each group together under the group label', async () => {
+  const initialOptions = [
+    { content: 'Apple', value: 'apple', group: 'Fruits' },
+    { content: 'Carrot', value: 'carrot', group: 'Vegetables' },
+    { content: 'Banana', value: 'banana', group: 'Fruits' }
+  ];
+  const user = userEvent.setup();
+
+  render(<TypeaheadSelect initialOptions={initialOptions} />);
+
+  await user.click(screen.getByRole('button', { name: 'Typeahead menu toggle' }));
+
+  expect(screen.getByText('Fruits')).toHaveClass(styles.menuGroupTitle);
+  expect(screen.getByText('Vegetables')).toHaveClass(styles.menuGroupTitle);
+  expect(screen.getAllByRole('option').map((option) => option.textContent)).toEqual(['Apple', 'Banana', 'Carrot']);
+});
+
+test('renders options with renderOption', async () => {
+  const initialOptions = [{ content: 'Option 1', value: 'option1', description: 'Description 1' }];
+  const user = userEvent.setup();
+
+  render(
+    <TypeaheadSelect initialOptions={initialOptions} renderOption={(option) => <strong>{option.content}</strong>} />
+  );
+
+  await user.click(screen.getByRole('button', { name: 'Typeahead menu toggle' }));
+
+  expect(screen.getByText('Option 1').tagName).toBe('STRONG');
+  expect(screen.getByText('Description 1')).toBeInTheDocument();
+});
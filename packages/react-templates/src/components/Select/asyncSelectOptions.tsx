@@ -0,0 +1,65 @@
+import { Spinner } from '@patternfly/react-core/dist/esm/components/Spinner';
+import { AsyncOptionsState } from '@patternfly/react-core/dist/esm/helpers';
+
+export const ASYNC_LOADING = 'pf-async-loading';
+export const ASYNC_LOAD_MORE = 'pf-async-load-more';
+export const ASYNC_RETRY = 'pf-async-retry';
+
+export interface AsyncStatusOption {
+  content: string;
+  value: string;
+  isLoading?: boolean;
+  isLoadButton?: boolean;
+  isAriaDisabled?: boolean;
+}
+
+export interface AsyncStatusMessages {
+  loadingMessage: string;
+  loadMoreMessage: string;
+  loadErrorMessage: string | ((error: any) => string);
+}
+
+/** Returns the options shown after the loaded options while a page loads, when it failed to load or when more pages can be loaded. */
+export const getAsyncStatusOptions = (
+  { isLoading, error, hasMore }: Pick<AsyncOptionsState<unknown>, 'isLoading' | 'error' | 'hasMore'>,
+  { loadingMessage, loadMoreMessage, loadErrorMessage }: AsyncStatusMessages
+): AsyncStatusOption[] => {
+  if (isLoading) {
+    return [{ content: loadingMessage, value: ASYNC_LOADING, isLoading: true, isAriaDisabled: true }];
+  }
+  if (error) {
+    return [
+      {
+        content: typeof loadErrorMessage === 'string' ? loadErrorMessage : loadErrorMessage(error),
+        value: ASYNC_RETRY,
+        isLoadButton: true
+      }
+    ];
+  }
+  return hasMore ? [{ content: loadMoreMessage, value: ASYNC_LOAD_MORE, isLoadButton: true }] : [];
+};
+
+/** Loads more options or retries a failed page when the matching status option is selected, and returns whether the
+ * selected value was a status option.
+ */
+export const selectAsyncStatusOption = (
+  value: string | number,
+  { loadMore, retry }: Pick<AsyncOptionsState<unknown>, 'loadMore' | 'retry'>
+) => {
+  switch (value) {
+    case ASYNC_LOAD_MORE:
+      loadMore();
+      return true;
+    case ASYNC_RETRY:
+      retry();
+      return true;
+    case ASYNC_LOADING:
+      return true;
+    default:
+      return false;
+  }
+};
+
+/** Renders the content of an option, showing a spinner in place of the loading status option. */
+export const renderOptionContent = ({ content, value }: { content: string | number; value: string | number }) =>
+  value === ASYNC_LOADING ? <Spinner size="lg" aria-label={String(content)} /> : content;
@@ -0,0 +1,44 @@
+import { useMemo, useState } from 'react';
+import { MultiTypeaheadSelect, MultiTypeaheadSelectOption } from '@patternfly/react-templates';
+import AppleAltIcon from '@patternfly/react-icons/dist/esm/icons/apple-alt-icon';
+import CarrotIcon from '@patternfly/react-icons/dist/esm/icons/carrot-icon';
+
+const Options: MultiTypeaheadSelectOption[] = [
+  { content: 'Apple', value: 'apple', group: 'Fruits', icon: <AppleAltIcon />, description: 'Crisp and sweet' },
+  {
+    content: 'Broccoli',
+    value: 'broccoli',
+    group: 'Vegetables',
+    icon: <CarrotIcon />,
+    description: 'Green and crunchy'
+  },
+  { content: 'Banana', value: 'banana', group: 'Fruits', icon: <AppleAltIcon />, description: 'Soft and sweet' },
+  { content: 'Carrot', value: 'carrot', group: 'Vegetables', icon: <CarrotIcon />, description: 'Orange and crunchy' },
+  { content: 'Cherry', value: 'cherry', group: 'Fruits', icon: <AppleAltIcon />, description: 'Small and tart' },
+  { content: 'Spinach', value: 'spinach', group: 'Vegetables', icon: <CarrotIcon />, description: 'Leafy and mild' }
+];
+
+export const MultiSelectTypeaheadGroupedDemo: React.FunctionComponent = () => {
+  const [options, setOptions] = useState<MultiTypeaheadSelectOption[]>(Options);
+  const [selected, setSelected] = useState<(string | number)[]>(['apple']);
+
+  const initialOptions = useMemo<MultiTypeaheadSelectOption[]>(
+    () => options.map((o) => ({ ...o, selected: selected.includes(o.value) })),
+    [options, selected]
+  );
+
+  return (
+    <MultiTypeaheadSelect
+      initialOptions={initialOptions}
+      placeholder="Select up to 4 ingredients"
+      isCreatable
+      createOptionMessage={(newValue) => `Add "${newValue}" to other ingredients`}
+      onCreateOption={(newValue) =>
+        setOptions((prevOptions) => [...prevOptions, { content: newValue, value: newValue, group: 'Other' }])
+      }
+      maxSelections={4}
+      labelGroupProps={{ numLabels: 2 }}
+      onSelectionChange={(_ev, selections) => setSelected(selections)}
+    />
+  );
+};
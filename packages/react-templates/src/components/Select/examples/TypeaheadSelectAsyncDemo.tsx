@@ -0,0 +1,71 @@
+import { LoadAsyncOptions } from '@patternfly/react-core';
+import { TypeaheadSelect, TypeaheadSelectOption } from '@patternfly/react-templates';
+
+const states = [
+  'Alabama',
+  'Alaska',
+  'Arizona',
+  'Arkansas',
+  'California',
+  'Colorado',
+  'Connecticut',
+  'Delaware',
+  'Florida',
+  'Georgia',
+  'Hawaii',
+  'Idaho',
+  'Illinois',
+  'Indiana',
+  'Iowa',
+  'Kansas',
+  'Kentucky',
+  'Louisiana',
+  'Maine',
+  'Maryland',
+  'Massachusetts',
+  'Michigan',
+  'Minnesota',
+  'Mississippi',
+  'Missouri',
+  'Montana',
+  'Nebraska',
+  'Nevada',
+  'New Hampshire',
+  'New Jersey',
+  'New Mexico',
+  'New York',
+  'North Carolina',
+  'North Dakota',
+  'Ohio',
+  'Oklahoma',
+  'Oregon',
+  'Pennsylvania'
+];
+
+const PAGE_SIZE = 10;
+
+// Simulates an API with server side filtering and pagination
+const loadStates: LoadAsyncOptions<TypeaheadSelectOption> = (filter, cursor, signal) =>
+  new Promise((resolve) => {
+    const timeout = setTimeout(() => {
+      const start = (cursor as number) ?? 0;
+      const matches = states.filter((state) => state.toLowerCase().includes(filter.toLowerCase()));
+      resolve({
+        options: matches.slice(start, start + PAGE_SIZE).map((state) => ({ content: state, value: state })),
+        nextCursor: start + PAGE_SIZE < matches.length ? start + PAGE_SIZE : null
+      });
+    }, 1000);
+    signal.addEventListener('abort', () => clearTimeout(timeout));
+  });
+
+/* eslint-disable no-console */
+export const SelectTypeaheadAsyncDemo: React.FunctionComponent = () => (
+  <TypeaheadSelect
+    loadOptions={loadStates}
+    placeholder="Select a state"
+    loadingMessage="Loading states"
+    noOptionsFoundMessage={(filter) => `No state was found for "${filter}"`}
+    maxMenuHeight="250px"
+    onSelect={(_ev, selection) => console.log(`Selected: ${selection}`)}
+  />
+);
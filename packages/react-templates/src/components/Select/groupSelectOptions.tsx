@@ -0,0 +1,52 @@
+import { Fragment } from 'react';
+import { Divider } from '@patternfly/react-core/dist/esm/components/Divider';
+import { SelectGroup, SelectList, SelectListProps } from '@patternfly/react-core/dist/esm/components/Select';
+
+interface GroupedOption {
+  group?: string;
+}
+
+/** Orders the options so that the options of each group follow each other, in the order the groups first appear. */
+export const orderOptionsByGroup = <T extends GroupedOption>(options: T[]): T[] => {
+  const groups = new Set(options.map((option) => option.group));
+  return groups.size > 1 ? [...groups].flatMap((group) => options.filter((option) => option.group === group)) : options;
+};
+
+/**
+ * Renders the options in a select list, or in a select group per group of consecutive options when they are grouped.
+ * The index passed to renderOption is the index of the option in the passed array, e.g. to compare it to the focused
+ * item index.
+ */
+export const renderGroupedOptions = <T extends GroupedOption>(
+  options: T[],
+  renderOption: (option: T, index: number) => React.ReactNode,
+  listProps?: Omit<SelectListProps, 'children'>
+) => {
+  const runs: { group?: string; startIndex: number; options: T[] }[] = [];
+  options.forEach((option, index) => {
+    const lastRun = runs[runs.length - 1];
+    if (lastRun && lastRun.group === option.group) {
+      lastRun.options.push(option);
+    } else {
+      runs.push({ group: option.group, startIndex: index, options: [option] });
+    }
+  });
+
+  if (runs.length <= 1 && runs[0]?.group === undefined) {
+    return <SelectList {...listProps}>{options.map(renderOption)}</SelectList>;
+  }
+
+  return runs.map(({ group, startIndex, options: runOptions }, runIndex) => {
+    const list = (
+      <SelectList {...listProps}>
+        {runOptions.map((option, index) => renderOption(option, startIndex + index))}
+      </SelectList>
+    );
+    return (
+      <Fragment key={runIndex}>
+        {runIndex > 0 && <Divider />}
+        {group !== undefined ? <SelectGroup label={group}>{list}</SelectGroup> : list}
+      </Fragment>
+    );
+  });
+};